@@ -0,0 +1,27 @@
+// MindPal reminder worker. Reminders are scheduled by the open app; this
+// worker lets their notifications focus or reopen the app when clicked.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const target = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows.find(w => new URL(w.url).origin === self.location.origin);
+    if (client) {
+      // The app routes itself, so the page isn't reloaded
+      client.postMessage({ type: 'reminder-navigate', url: event.notification.data?.url || '/' });
+      await client.focus();
+      return;
+    }
+    await self.clients.openWindow(target);
+  })());
+});
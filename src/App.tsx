@@ -9,6 +9,8 @@ import { TaskManager } from './components/tasks/TaskManager';
 import { MoodTracker } from './components/mood/MoodTracker';
 import { VoiceAI } from './components/voice/VoiceAI';
 import { VideoConsultation } from './components/video/VideoConsultation';
+import { Exercises } from './components/exercises/Exercises';
+import { Journal } from './components/journal/Journal';
 import { Settings } from './components/settings/Settings';
 
 function App() {
@@ -40,8 +42,10 @@ function App() {
             <Route path="dashboard" element={<Dashboard />} />
             <Route path="tasks" element={<TaskManager />} />
             <Route path="mood" element={<MoodTracker />} />
+            <Route path="journal" element={<Journal />} />
             <Route path="voice" element={<VoiceAI />} />
             <Route path="video" element={<VideoConsultation />} />
+            <Route path="exercises" element={<Exercises />} />
             <Route path="settings" element={<Settings />} />
           </Route>
         </Routes>
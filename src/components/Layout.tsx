@@ -17,10 +17,17 @@ import {
   Zap,
   Star,
   AlertTriangle,
-  CheckCircle
+  CheckCircle,
+  Wind,
+  BookOpen,
+  UserX
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { useNetworkStatus } from '../hooks/useNetworkStatus';
+import { useOfflineSync } from '../hooks/useOfflineSync';
+import { useReminders } from '../hooks/useReminders';
+import { useDataDeletion } from '../hooks/useDataDeletion';
+import { useI18n } from '../hooks/useI18n';
 import { isSupabaseConfigured } from '../lib/supabase';
 import toast from 'react-hot-toast';
 
@@ -48,6 +55,11 @@ const FloatingIcon = ({ icon: Icon, delay }: { icon: any; delay: number }) => (
 export function Layout() {
   const { user, signOut } = useAuth();
   const { isOnline, isSupabaseConnected, checkConnection, isChecking } = useNetworkStatus();
+  const { pendingCount, syncing } = useOfflineSync();
+  useReminders();
+  const { pendingFor, cancelDeletion } = useDataDeletion();
+  const accountDeletion = pendingFor('account');
+  const { t, formatDate } = useI18n();
   const location = useLocation();
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
   const [showConnectionDetails, setShowConnectionDetails] = useState(false);
@@ -72,13 +84,13 @@ export function Layout() {
       const { error } = await signOut();
       if (error) {
         console.warn('Sign out error:', error);
-        toast.error('Error signing out, but you have been logged out locally');
+        toast.error(t('layout.signOutError'));
       } else {
-        toast.success('Signed out successfully ✨');
+        toast.success(t('layout.signedOut'));
       }
     } catch (error) {
       console.error('Sign out error:', error);
-      toast.success('Signed out successfully ✨'); // Still show success since local state is cleared
+      toast.success(t('layout.signedOut')); // Still show success since local state is cleared
     }
   };
 
@@ -86,29 +98,31 @@ export function Layout() {
     if (isChecking) return;
     
     const toastId = 'retry-connection';
-    toast.loading('Checking connection...', { id: toastId });
+    toast.loading(t('layout.checkingConnection'), { id: toastId });
     
     try {
       const isConnected = await checkConnection();
       
       if (isConnected) {
-        toast.success('Connection restored! 🎉', { id: toastId });
+        toast.success(t('layout.connectionRestored'), { id: toastId });
       } else {
-        toast.error('Still having connection issues. Please check your internet connection.', { id: toastId });
+        toast.error(t('layout.stillOffline'), { id: toastId });
       }
     } catch (error) {
       console.error('Connection check failed:', error);
-      toast.error('Connection check failed', { id: toastId });
+      toast.error(t('layout.connectionCheckFailed'), { id: toastId });
     }
   };
 
   const navItems = [
-    { icon: Home, label: 'Dashboard', path: '/dashboard', color: 'from-blue-500 to-cyan-500' },
-    { icon: CheckSquare, label: 'Tasks', path: '/tasks', color: 'from-green-500 to-emerald-500' },
-    { icon: Heart, label: 'Mood', path: '/mood', color: 'from-pink-500 to-rose-500' },
-    { icon: Mic, label: 'Voice AI', path: '/voice', color: 'from-purple-500 to-violet-500' },
-    { icon: Video, label: 'Video', path: '/video', color: 'from-indigo-500 to-blue-500' },
-    { icon: Settings, label: 'Settings', path: '/settings', color: 'from-gray-500 to-slate-500' },
+    { icon: Home, label: t('nav.dashboard'), path: '/dashboard', color: 'from-blue-500 to-cyan-500' },
+    { icon: CheckSquare, label: t('nav.tasks'), path: '/tasks', color: 'from-green-500 to-emerald-500' },
+    { icon: Heart, label: t('nav.mood'), path: '/mood', color: 'from-pink-500 to-rose-500' },
+    { icon: BookOpen, label: t('nav.journal'), path: '/journal', color: 'from-amber-500 to-orange-500' },
+    { icon: Mic, label: t('nav.voice'), path: '/voice', color: 'from-purple-500 to-violet-500' },
+    { icon: Video, label: t('nav.video'), path: '/video', color: 'from-indigo-500 to-blue-500' },
+    { icon: Wind, label: t('nav.exercises'), path: '/exercises', color: 'from-teal-500 to-cyan-500' },
+    { icon: Settings, label: t('nav.settings'), path: '/settings', color: 'from-gray-500 to-slate-500' },
   ];
 
   // Determine what issues we have
@@ -123,8 +137,8 @@ export function Layout() {
       return {
         type: 'error',
         icon: AlertTriangle,
-        title: 'Configuration Required',
-        message: 'Supabase environment variables are not configured. Please check your .env file.',
+        title: t('layout.configTitle'),
+        message: t('layout.configMessage'),
         bgColor: 'bg-gradient-to-r from-red-600 to-red-700',
         showRetry: false
       };
@@ -134,8 +148,8 @@ export function Layout() {
       return {
         type: 'warning',
         icon: WifiOff,
-        title: 'No Internet Connection',
-        message: 'Please check your internet connection. Some features may not work properly.',
+        title: t('layout.offlineTitle'),
+        message: t('layout.offlineMessage'),
         bgColor: 'bg-gradient-to-r from-orange-600 to-red-600',
         showRetry: true
       };
@@ -145,8 +159,8 @@ export function Layout() {
       return {
         type: 'warning',
         icon: WifiOff,
-        title: 'Server Connection Issues',
-        message: 'Having trouble connecting to our servers. Retrying automatically...',
+        title: t('layout.serverTitle'),
+        message: t('layout.serverMessage'),
         bgColor: 'bg-gradient-to-r from-yellow-600 to-orange-600',
         showRetry: true
       };
@@ -220,7 +234,7 @@ export function Layout() {
                   onClick={() => setShowConnectionDetails(!showConnectionDetails)}
                   className="text-xs bg-white/20 hover:bg-white/30 px-2 py-1 rounded transition-colors duration-200"
                 >
-                  Details
+                  {t('layout.details')}
                 </button>
                 
                 {bannerConfig.showRetry && (
@@ -232,7 +246,7 @@ export function Layout() {
                     whileTap={{ scale: 0.95 }}
                   >
                     <RefreshCw className={`h-3 w-3 ${isChecking ? 'animate-spin' : ''}`} />
-                    <span>{isChecking ? 'Checking...' : 'Retry'}</span>
+                    <span>{isChecking ? t('common.checking') : t('common.retry')}</span>
                   </motion.button>
                 )}
               </div>
@@ -250,15 +264,15 @@ export function Layout() {
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-xs">
                     <div className="flex items-center space-x-2">
                       <div className={`w-2 h-2 rounded-full ${isConfigured ? 'bg-green-400' : 'bg-red-400'}`} />
-                      <span>Configuration: {isConfigured ? 'OK' : 'Missing'}</span>
+                      <span>{t('layout.configuration', { status: isConfigured ? t('layout.ok') : t('layout.missing') })}</span>
                     </div>
                     <div className="flex items-center space-x-2">
                       <div className={`w-2 h-2 rounded-full ${isOnline ? 'bg-green-400' : 'bg-red-400'}`} />
-                      <span>Internet: {isOnline ? 'Connected' : 'Offline'}</span>
+                      <span>{t('layout.internet', { status: isOnline ? t('common.connected') : t('common.offline') })}</span>
                     </div>
                     <div className="flex items-center space-x-2">
                       <div className={`w-2 h-2 rounded-full ${isSupabaseConnected ? 'bg-green-400' : 'bg-red-400'}`} />
-                      <span>Database: {isSupabaseConnected ? 'Connected' : 'Disconnected'}</span>
+                      <span>{t('layout.database', { status: isSupabaseConnected ? t('common.connected') : t('layout.disconnected') })}</span>
                     </div>
                   </div>
                 </motion.div>
@@ -268,6 +282,36 @@ export function Layout() {
         )}
       </AnimatePresence>
 
+      {/* Pending Account Deletion Banner */}
+      <AnimatePresence>
+        {accountDeletion && (
+          <motion.div
+            initial={{ opacity: 0, y: -50 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -50 }}
+            className="relative z-50 bg-gradient-to-r from-red-700 to-rose-700 text-white px-4 py-3 shadow-lg"
+          >
+            <div className="flex items-center justify-between max-w-7xl mx-auto">
+              <div className="flex items-center space-x-3">
+                <UserX className="h-5 w-5" />
+                <div>
+                  <p className="font-semibold text-sm">{t('layout.deletionTitle')}</p>
+                  <p className="text-xs opacity-90">
+                    {t('layout.deletionMessage', { date: formatDate(accountDeletion.execute_after, 'PPp') })}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => cancelDeletion(accountDeletion.id)}
+                className="bg-white/20 hover:bg-white/30 px-3 py-1 rounded text-xs font-medium transition-colors duration-200"
+              >
+                {t('layout.keepAccount')}
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Header */}
       <motion.header
         className="relative z-40 bg-black/20 backdrop-blur-xl border-b border-white/10 sticky top-0"
@@ -358,7 +402,10 @@ export function Layout() {
                   transition={{ duration: 2, repeat: Infinity }}
                 />
                 <span className="text-xs text-white/60 hidden sm:block">
-                  {isOnline && isSupabaseConnected ? 'Connected' : 'Offline'}
+                  {isOnline && isSupabaseConnected ? t('common.connected') : t('common.offline')}
+                  {syncing
+                    ? ` · ${t('layout.syncing')}`
+                    : pendingCount > 0 ? ` · ${t('layout.unsynced', { count: pendingCount })}` : ''}
                 </span>
               </div>
               
@@ -368,12 +415,12 @@ export function Layout() {
                 animate={{ opacity: 1 }}
                 transition={{ delay: 0.5 }}
               >
-                Welcome, <span className="text-white font-medium">{user?.email?.split('@')[0]}</span>
+                {t('layout.welcome', { name: user?.email?.split('@')[0] ?? '' })}
               </motion.div>
               <motion.button
                 onClick={handleSignOut}
                 className="p-2 text-white/60 hover:text-red-400 transition-colors duration-200 rounded-lg hover:bg-white/5"
-                title="Sign out"
+                title={t('layout.signOut')}
                 whileHover={{ scale: 1.1, rotate: 15 }}
                 whileTap={{ scale: 0.9 }}
               >
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Brain, Mail, Lock, Eye, EyeOff, ArrowRight, Sparkles, Zap, Star, AlertCircle, CheckCircle } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
+import { useI18n } from '../../hooks/useI18n';
 import { useNetworkStatus } from '../../hooks/useNetworkStatus';
 import { isSupabaseConfigured } from '../../lib/supabase';
 import toast from 'react-hot-toast';
@@ -33,6 +34,7 @@ export function AuthForm() {
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
   const { signIn, signUp } = useAuth();
+  const { t } = useI18n();
   const { isOnline, isSupabaseConnected } = useNetworkStatus();
 
   const isConfigured = isSupabaseConfigured();
@@ -51,15 +53,15 @@ export function AuthForm() {
     const errors: string[] = [];
     
     if (!email.trim()) {
-      errors.push('Email is required');
+      errors.push(t('auth.emailRequired'));
     } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
-      errors.push('Please enter a valid email address');
+      errors.push(t('auth.emailInvalid'));
     }
     
     if (!password) {
-      errors.push('Password is required');
+      errors.push(t('auth.passwordRequired'));
     } else if (isSignUp && password.length < 6) {
-      errors.push('Password must be at least 6 characters long');
+      errors.push(t('auth.passwordTooShort', { count: 6 }));
     }
     
     setValidationErrors(errors);
@@ -75,11 +77,11 @@ export function AuthForm() {
 
     if (!canAuthenticate) {
       if (!isConfigured) {
-        toast.error('Application not configured. Please check environment variables.');
+        toast.error(t('auth.notConfigured'));
       } else if (!isOnline) {
-        toast.error('Internet connection required for authentication');
+        toast.error(t('auth.needsConnection'));
       } else if (!isSupabaseConnected) {
-        toast.error('Unable to connect to authentication server');
+        toast.error(t('auth.serverUnreachable'));
       }
       return;
     }
@@ -91,16 +93,16 @@ export function AuthForm() {
       if (isSignUp) {
         const { error } = await signUp(email.trim(), password);
         if (error) throw error;
-        toast.success('Account created successfully! Please check your email for verification. 🎉');
+        toast.success(t('auth.accountCreated'));
       } else {
         const { error } = await signIn(email.trim(), password);
         if (error) throw error;
-        toast.success('Welcome back! ✨');
+        toast.success(t('auth.welcomeBack'));
       }
     } catch (error: unknown) {
       console.error('Authentication error:', error);
       
-      let errorMessage = 'An unexpected error occurred';
+      let errorMessage = t('auth.unexpectedError');
       
       if (error instanceof Error) {
         errorMessage = error.message;
@@ -110,7 +112,7 @@ export function AuthForm() {
       
       // Don't show technical error messages to users
       if (errorMessage.includes('fetch') || errorMessage.includes('network')) {
-        errorMessage = 'Network error. Please check your connection and try again.';
+        errorMessage = t('auth.networkError');
       }
       
       toast.error(errorMessage);
@@ -172,10 +174,10 @@ export function AuthForm() {
             </motion.div>
             <span>
               {!isConfigured
-                ? 'Application not configured - Please check environment variables'
+                ? t('auth.bannerNotConfigured')
                 : !isOnline
-                ? 'No internet connection - Authentication unavailable'
-                : 'Server connection issues - Please try again later'
+                ? t('auth.bannerOffline')
+                : t('auth.bannerServer')
               }
             </span>
           </div>
@@ -234,7 +236,7 @@ export function AuthForm() {
                 animate={{ opacity: 1 }}
                 transition={{ delay: 0.7 }}
               >
-                Your AI companion for memory, mental health, and voice assistance
+                {t('auth.tagline')}
               </motion.p>
             </motion.div>
 
@@ -275,7 +277,7 @@ export function AuthForm() {
                 whileFocus={{ scale: 1.02 }}
               >
                 <label className="block text-white/90 text-sm font-medium mb-2">
-                  Email Address
+                  {t('auth.email')}
                 </label>
                 <div className="relative group">
                   <div className="absolute inset-0 bg-gradient-to-r from-purple-600 to-blue-600 rounded-xl opacity-0 group-hover:opacity-20 transition-opacity duration-300"></div>
@@ -285,7 +287,7 @@ export function AuthForm() {
                     value={email}
                     onChange={(e) => setEmail(e.target.value)}
                     className="relative w-full bg-white/5 border border-white/20 rounded-xl pl-10 pr-4 py-3 text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-transparent transition-all duration-300 backdrop-blur-sm"
-                    placeholder="Enter your email"
+                    placeholder={t('auth.emailPlaceholder')}
                     required
                     disabled={loading || !canAuthenticate}
                   />
@@ -298,7 +300,7 @@ export function AuthForm() {
                 whileFocus={{ scale: 1.02 }}
               >
                 <label className="block text-white/90 text-sm font-medium mb-2">
-                  Password
+                  {t('auth.password')}
                 </label>
                 <div className="relative group">
                   <div className="absolute inset-0 bg-gradient-to-r from-purple-600 to-blue-600 rounded-xl opacity-0 group-hover:opacity-20 transition-opacity duration-300"></div>
@@ -308,7 +310,7 @@ export function AuthForm() {
                     value={password}
                     onChange={(e) => setPassword(e.target.value)}
                     className="relative w-full bg-white/5 border border-white/20 rounded-xl pl-10 pr-12 py-3 text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-purple-500/50 focus:border-transparent transition-all duration-300 backdrop-blur-sm"
-                    placeholder="Enter your password"
+                    placeholder={t('auth.passwordPlaceholder')}
                     required
                     minLength={isSignUp ? 6 : 1}
                     disabled={loading || !canAuthenticate}
@@ -326,7 +328,7 @@ export function AuthForm() {
                 </div>
                 {isSignUp && (
                   <p className="text-xs text-white/50 mt-1">
-                    Password must be at least 6 characters long
+                    {t('auth.passwordTooShort', { count: 6 })}
                   </p>
                 )}
               </motion.div>
@@ -356,7 +358,7 @@ export function AuthForm() {
                           animate={{ rotate: 360 }}
                           transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
                         />
-                        <span>Processing...</span>
+                        <span>{t('auth.processing')}</span>
                       </motion.div>
                     ) : !canAuthenticate ? (
                       <motion.div
@@ -367,7 +369,7 @@ export function AuthForm() {
                         className="flex items-center space-x-2"
                       >
                         <AlertCircle className="h-4 w-4" />
-                        <span>Unavailable</span>
+                        <span>{t('auth.unavailable')}</span>
                       </motion.div>
                     ) : (
                       <motion.div
@@ -377,7 +379,7 @@ export function AuthForm() {
                         exit={{ opacity: 0, scale: 0.8 }}
                         className="flex items-center space-x-2"
                       >
-                        <span>{isSignUp ? 'Create Account' : 'Sign In'}</span>
+                        <span>{isSignUp ? t('auth.createAccount') : t('auth.signIn')}</span>
                         <motion.div
                           animate={{ x: [0, 5, 0] }}
                           transition={{ duration: 1.5, repeat: Infinity }}
@@ -408,9 +410,7 @@ export function AuthForm() {
                 whileHover={{ scale: 1.05 }}
               >
                 <span className="relative z-10">
-                  {isSignUp
-                    ? 'Already have an account? Sign in'
-                    : "Don't have an account? Sign up"}
+                  {isSignUp ? t('auth.haveAccount') : t('auth.needAccount')}
                 </span>
                 <motion.div
                   className="absolute inset-0 bg-gradient-to-r from-purple-600/20 to-blue-600/20 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300"
@@ -428,7 +428,7 @@ export function AuthForm() {
             >
               <div className={`w-2 h-2 rounded-full ${canAuthenticate ? 'bg-green-400' : 'bg-red-400'}`} />
               <span className="text-xs text-white/60">
-                {canAuthenticate ? 'Ready to authenticate' : 'Authentication unavailable'}
+                {canAuthenticate ? t('auth.ready') : t('auth.unavailableStatus')}
               </span>
             </motion.div>
 
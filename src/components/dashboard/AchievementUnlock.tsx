@@ -0,0 +1,89 @@
+import { motion, AnimatePresence } from 'framer-motion';
+import { Sparkles } from 'lucide-react';
+import { useI18n } from '../../hooks/useI18n';
+import type { AchievementDefinition } from '../../lib/achievements';
+
+interface AchievementUnlockProps {
+  unlocked: AchievementDefinition[];
+  onClose: () => void;
+}
+
+// Celebrates badges earned since the last visit; several at once share one card
+export function AchievementUnlock({ unlocked, onClose }: AchievementUnlockProps) {
+  const { t } = useI18n();
+
+  return (
+    <AnimatePresence>
+      {unlocked.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.5, rotate: -8, opacity: 0 }}
+            animate={{ scale: 1, rotate: 0, opacity: 1 }}
+            exit={{ scale: 0.8, opacity: 0 }}
+            transition={{ type: 'spring', stiffness: 200, damping: 15 }}
+            className="relative bg-gradient-to-br from-purple-700 via-indigo-700 to-pink-600 rounded-3xl p-8 max-w-sm w-full text-center text-white shadow-2xl overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Burst of sparkles behind the badge */}
+            {Array.from({ length: 8 }).map((_, i) => (
+              <motion.div
+                key={i}
+                className="absolute left-1/2 top-1/3"
+                initial={{ x: 0, y: 0, opacity: 1, scale: 0.5 }}
+                animate={{
+                  x: Math.cos((i / 8) * Math.PI * 2) * 140,
+                  y: Math.sin((i / 8) * Math.PI * 2) * 140,
+                  opacity: 0,
+                  scale: 1.2,
+                }}
+                transition={{ duration: 1.2, ease: 'easeOut', delay: 0.2 }}
+              >
+                <Sparkles className="h-5 w-5 text-yellow-300" />
+              </motion.div>
+            ))}
+
+            <p className="text-sm uppercase tracking-widest text-white/70 mb-4">
+              {t('achievements.unlocked', { count: unlocked.length })}
+            </p>
+
+            <div className="space-y-4 max-h-72 overflow-y-auto">
+              {unlocked.map((achievement, index) => (
+                <motion.div
+                  key={achievement.id}
+                  initial={{ y: 20, opacity: 0 }}
+                  animate={{ y: 0, opacity: 1 }}
+                  transition={{ delay: 0.3 + index * 0.15 }}
+                >
+                  <motion.div
+                    className="text-6xl mb-2"
+                    animate={{ scale: [1, 1.15, 1] }}
+                    transition={{ duration: 1.5, repeat: Infinity, delay: index * 0.2 }}
+                  >
+                    {achievement.emoji}
+                  </motion.div>
+                  <h3 className="text-xl font-bold">{t(achievement.title, { count: achievement.target })}</h3>
+                  <p className="text-sm text-white/80">{t(achievement.description, { count: achievement.target })}</p>
+                </motion.div>
+              ))}
+            </div>
+
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={onClose}
+              className="mt-6 bg-white text-purple-700 font-semibold px-6 py-2 rounded-full"
+            >
+              {t('achievements.nice')}
+            </motion.button>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Award, ChevronDown, ChevronUp, Lock } from 'lucide-react';
+import { useI18n } from '../../hooks/useI18n';
+import type { AchievementProgress } from '../../lib/achievements';
+
+interface AchievementsPanelProps {
+  progress: AchievementProgress[];
+  upNext: AchievementProgress[];
+  unlockedCount: number;
+}
+
+export function AchievementsPanel({ progress, upNext, unlockedCount }: AchievementsPanelProps) {
+  const { t, formatDate } = useI18n();
+  const [showAll, setShowAll] = useState(false);
+
+  const titleOf = (item: AchievementProgress) => t(item.definition.title, { count: item.definition.target });
+  const descriptionOf = (item: AchievementProgress) =>
+    t(item.definition.description, { count: item.definition.target });
+
+  const renderBadge = (item: AchievementProgress) => (
+    <div
+      key={item.definition.id}
+      className={`flex flex-col items-center text-center p-3 rounded-xl border ${
+        item.unlocked ? 'bg-white/10 border-yellow-300/40' : 'bg-white/5 border-white/10'
+      }`}
+      title={descriptionOf(item)}
+    >
+      <div className={`text-3xl mb-1 ${item.unlocked ? '' : 'grayscale opacity-40'}`}>
+        {item.unlocked ? item.definition.emoji : <Lock className="h-7 w-7 text-white/40" />}
+      </div>
+      <p className="text-xs font-semibold text-white leading-tight">{titleOf(item)}</p>
+      <p className="text-[10px] text-white/60 mt-0.5">
+        {item.unlockedAt
+          ? formatDate(item.unlockedAt, 'PP')
+          : `${Math.min(item.current, item.definition.target)}/${item.definition.target}`}
+      </p>
+    </div>
+  );
+
+  return (
+    <motion.div
+      className="bg-black/20 backdrop-blur-xl rounded-2xl p-6 border border-white/10"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex items-center justify-between mb-5">
+        <h2 className="text-2xl font-bold text-white flex items-center space-x-3">
+          <Award className="h-6 w-6 text-yellow-400" />
+          <span>{t('achievements.title')}</span>
+        </h2>
+        <span className="text-sm text-white/70">
+          {t('achievements.earned', { unlocked: unlockedCount, total: progress.length })}
+        </span>
+      </div>
+
+      {/* Closest badge for each kind of activity */}
+      {upNext.length > 0 && (
+        <div className="space-y-3 mb-5">
+          {upNext.slice(0, 3).map(item => (
+            <div key={item.definition.id} className="flex items-center space-x-3">
+              <span className="text-2xl grayscale-[50%]">{item.definition.emoji}</span>
+              <div className="flex-1">
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="text-white font-medium">{titleOf(item)}</span>
+                  <span className="text-white/60 text-xs">{descriptionOf(item)}</span>
+                </div>
+                <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                  <motion.div
+                    className="h-full bg-gradient-to-r from-yellow-400 to-orange-500 rounded-full"
+                    initial={{ width: 0 }}
+                    animate={{ width: `${item.progress * 100}%` }}
+                    transition={{ duration: 0.8, ease: 'easeOut' }}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={() => setShowAll(!showAll)}
+        className="flex items-center space-x-1 text-sm text-white/70 hover:text-white transition-colors duration-200"
+      >
+        {showAll ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        <span>{showAll ? t('achievements.hide') : t('achievements.showAll')}</span>
+      </button>
+
+      <AnimatePresence>
+        {showAll && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-6 gap-3 mt-4">
+              {progress.map(renderBadge)}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+}
@@ -23,8 +23,13 @@ import {
 import { useAuth } from '../../hooks/useAuth';
 import { useNetworkStatus } from '../../hooks/useNetworkStatus';
 import { useMoodStreak } from '../../hooks/useMoodStreak';
+import { useAchievements } from '../../hooks/useAchievements';
+import { useI18n } from '../../hooks/useI18n';
+import { AchievementsPanel } from './AchievementsPanel';
+import { AchievementUnlock } from './AchievementUnlock';
 import { supabase } from '../../lib/supabase';
-import { format } from 'date-fns';
+import { t as translate } from '../../lib/i18n';
+import type { MessageKey } from '../../lib/i18n';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import toast from 'react-hot-toast';
 
@@ -42,7 +47,9 @@ const FloatingElement = ({ children, delay }: { children: React.ReactNode; delay
 export function Dashboard() {
   const { user, handleSupabaseError } = useAuth();
   const { isOnline, isSupabaseConnected, withRetry } = useNetworkStatus();
-  const { currentStreak, getStreakEmoji, loading: streakLoading } = useMoodStreak();
+  const { currentStreak, longestStreak, getStreakEmoji, getStreakStatus, loading: streakLoading } = useMoodStreak();
+  const { progress, upNext, unlockedCount, celebrations, dismissCelebrations } = useAchievements(longestStreak, streakLoading);
+  const { t, formatDate } = useI18n();
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const { scrollY } = useScroll();
@@ -54,23 +61,24 @@ export function Dashboard() {
     voiceSessions: 0,
   });
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
   const [dataLoaded, setDataLoaded] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
 
   const parallaxY = useTransform(scrollY, [0, 500], [0, -150]);
   const parallaxOpacity = useTransform(scrollY, [0, 300], [1, 0.3]);
 
-  // Handle payment success/cancel from URL params
+  // Handle payment success/cancel from URL params. Translated when shown, so
+  // a locale switch on first load doesn't replay the toast.
   useEffect(() => {
     const success = searchParams.get('success');
     const canceled = searchParams.get('canceled');
     
     if (success === 'true') {
-      toast.success('Welcome to MindPal! 🎉');
+      toast.success(translate('dashboard.welcomeToast'));
       window.history.replaceState({}, '', '/dashboard');
     } else if (canceled === 'true') {
-      toast.error('Action was canceled. You can try again anytime.');
+      toast.error(translate('dashboard.canceledToast'));
       window.history.replaceState({}, '', '/dashboard');
     }
   }, [searchParams]);
@@ -106,6 +114,7 @@ export function Dashboard() {
             .from('tasks')
             .select('completed')
             .eq('user_id', user.id)
+            .is('parent_id', null)
             .limit(100);
 
           if (error) {
@@ -174,7 +183,7 @@ export function Dashboard() {
         // Retry after a delay
         setTimeout(() => loadStats(true), 2000);
       } else if (isSupabaseConnected) {
-        setError('Unable to load some data. Please try refreshing the page.');
+        setError('dashboard.loadError');
       }
     } finally {
       setLoading(false);
@@ -213,18 +222,19 @@ export function Dashboard() {
       }
     } catch (error) {
       console.error('Error handling quick action:', error);
-      toast.error('Failed to perform action');
+      toast.error(t('common.actionFailed'));
     }
   };
 
   const completionRate = stats.totalTasks > 0 ? (stats.completedTasks / stats.totalTasks) * 100 : 0;
   const streakEmoji = getStreakEmoji();
+  const streakStatus = getStreakStatus();
 
   const statCards = [
     {
-      title: 'Tasks Completed',
+      title: t('dashboard.tasksCompleted'),
       value: `${stats.completedTasks}/${stats.totalTasks}`,
-      subtitle: `${Math.round(completionRate)}% completion rate`,
+      subtitle: t('dashboard.completionRate', { rate: Math.round(completionRate) }),
       icon: CheckSquare,
       color: 'from-green-400 via-emerald-500 to-teal-500',
       bgColor: 'bg-gradient-to-br from-green-50/50 to-emerald-50/50 dark:from-green-900/20 dark:to-emerald-900/20',
@@ -232,9 +242,9 @@ export function Dashboard() {
       glowColor: 'shadow-green-500/25',
     },
     {
-      title: "Today's Mood",
-      value: stats.todayMood ? `${stats.todayMood}/10` : 'Not logged',
-      subtitle: stats.todayMood ? 'Feeling great!' : 'Log your mood',
+      title: t('dashboard.todayMood'),
+      value: stats.todayMood ? `${stats.todayMood}/10` : t('dashboard.notLogged'),
+      subtitle: stats.todayMood ? t('dashboard.feelingGreat') : t('dashboard.logMood'),
       icon: Heart,
       color: 'from-pink-400 via-rose-500 to-red-500',
       bgColor: 'bg-gradient-to-br from-pink-50/50 to-rose-50/50 dark:from-pink-900/20 dark:to-rose-900/20',
@@ -242,9 +252,9 @@ export function Dashboard() {
       glowColor: 'shadow-pink-500/25',
     },
     {
-      title: 'Chat Sessions',
+      title: t('dashboard.chatSessions'),
       value: stats.voiceSessions.toString(),
-      subtitle: 'AI conversations',
+      subtitle: t('dashboard.aiConversations'),
       icon: Mic,
       color: 'from-purple-400 via-violet-500 to-indigo-500',
       bgColor: 'bg-gradient-to-br from-purple-50/50 to-violet-50/50 dark:from-purple-900/20 dark:to-violet-900/20',
@@ -262,10 +272,10 @@ export function Dashboard() {
           animate={{ opacity: 1, y: 0 }}
         >
           <h1 className="text-4xl font-bold bg-gradient-to-r from-white via-purple-200 to-pink-200 bg-clip-text text-transparent mb-2">
-            Welcome back!
+            {t('dashboard.welcomeBack')}
           </h1>
           <p className="text-white/60 text-lg">
-            {format(new Date(), 'EEEE, MMMM do, yyyy')}
+            {formatDate(new Date(), 'PPPP')}
           </p>
         </motion.div>
         
@@ -283,11 +293,11 @@ export function Dashboard() {
   return (
     <div className="space-y-8 relative">
       {/* White Circle Badge */}
-      <div className="absolute top-0 right-0 z-10">
+      <div className="absolute top-0 end-0 z-10">
         <img 
           src="/white_circle_360x360.svg" 
-          alt="Badge" 
-          className="w-24 h-24 -mt-12 -mr-6"
+          alt={t('dashboard.badge')} 
+          className="w-24 h-24 -mt-12 -me-6"
         />
       </div>
 
@@ -336,7 +346,7 @@ export function Dashboard() {
             animate={{ scale: 1 }}
             transition={{ delay: 0.2, duration: 0.6 }}
           >
-            Welcome back!
+            {t('dashboard.welcomeBack')}
           </motion.h1>
           <motion.p
             className="text-white/60 text-xl"
@@ -344,7 +354,7 @@ export function Dashboard() {
             animate={{ opacity: 1 }}
             transition={{ delay: 0.4 }}
           >
-            {format(new Date(), 'EEEE, MMMM do, yyyy')}
+            {formatDate(new Date(), 'PPPP')}
           </motion.p>
           
           {/* Decorative Elements */}
@@ -376,9 +386,9 @@ export function Dashboard() {
                   <AlertTriangle className="h-6 w-6 text-yellow-400" />
                 </motion.div>
                 <div>
-                  <p className="font-semibold text-yellow-200">Data Loading Issues</p>
+                  <p className="font-semibold text-yellow-200">{t('dashboard.dataIssues')}</p>
                   <p className="text-sm text-yellow-300/80">
-                    {error} The app will continue to work normally.
+                    {t('dashboard.dataIssuesMessage', { error: t(error) })}
                   </p>
                 </div>
               </div>
@@ -390,7 +400,7 @@ export function Dashboard() {
                 disabled={loading}
               >
                 <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
-                <span>{loading ? 'Retrying...' : 'Retry'}</span>
+                <span>{loading ? t('common.retrying') : t('common.retry')}</span>
               </motion.button>
             </div>
           </motion.div>
@@ -413,9 +423,9 @@ export function Dashboard() {
                 <WifiOff className="h-6 w-6 text-blue-400" />
               </motion.div>
               <div>
-                <p className="font-semibold text-blue-200">Working Offline</p>
+                <p className="font-semibold text-blue-200">{t('dashboard.offlineTitle')}</p>
                 <p className="text-sm text-blue-300/80">
-                  Some features may be limited. Data will sync when connection is restored.
+                  {t('dashboard.offlineMessage')}
                 </p>
               </div>
             </div>
@@ -499,10 +509,12 @@ export function Dashboard() {
               </motion.div>
               <div>
                 <h3 className="text-lg font-bold text-orange-800 dark:text-orange-300">
-                  🔥 {currentStreak} Day Mood Streak!
+                  {t('dashboard.streakTitle', { count: currentStreak })}
                 </h3>
                 <p className="text-orange-700 dark:text-orange-400">
-                  You're building a great habit of tracking your mood. Keep it up!
+                  {streakStatus.status === 'current'
+                    ? t('streak.keepItUp')
+                    : streakStatus.message}
                 </p>
               </div>
             </div>
@@ -510,6 +522,13 @@ export function Dashboard() {
         </FloatingElement>
       )}
 
+      {/* Achievements */}
+      <FloatingElement delay={0.85}>
+        <AchievementsPanel progress={progress} upNext={upNext} unlockedCount={unlockedCount} />
+      </FloatingElement>
+
+      <AchievementUnlock unlocked={celebrations} onClose={dismissCelebrations} />
+
       {/* Quick Actions */}
       <FloatingElement delay={0.9}>
         <motion.div
@@ -536,7 +555,7 @@ export function Dashboard() {
               >
                 <Target className="h-8 w-8 text-purple-400" />
               </motion.div>
-              <span>Quick Actions</span>
+              <span>{t('dashboard.quickActions')}</span>
               <motion.div
                 animate={{ scale: [1, 1.2, 1] }}
                 transition={{ duration: 2, repeat: Infinity }}
@@ -550,24 +569,24 @@ export function Dashboard() {
                 {
                   action: 'voice',
                   icon: Mic,
-                  title: 'Voice Chat',
-                  subtitle: 'Talk to your AI companion',
+                  title: t('dashboard.voiceChat'),
+                  subtitle: t('dashboard.voiceChatHint'),
                   gradient: 'from-purple-500 via-violet-600 to-indigo-600',
                   delay: 1.1
                 },
                 {
                   action: 'mood',
                   icon: Heart,
-                  title: 'Mood Check',
-                  subtitle: 'Log your emotions',
+                  title: t('dashboard.moodCheck'),
+                  subtitle: t('dashboard.moodCheckHint'),
                   gradient: 'from-pink-500 via-rose-600 to-red-600',
                   delay: 1.2
                 },
                 {
                   action: 'task',
                   icon: CheckSquare,
-                  title: 'Add Task',
-                  subtitle: 'Create a new reminder',
+                  title: t('dashboard.addTask'),
+                  subtitle: t('dashboard.addTaskHint'),
                   gradient: 'from-green-500 via-emerald-600 to-teal-600',
                   delay: 1.3
                 }
@@ -575,7 +594,7 @@ export function Dashboard() {
                 <motion.button
                   key={item.action}
                   onClick={() => handleQuickAction(item.action)}
-                  className={`bg-gradient-to-r ${item.gradient} text-white p-6 rounded-2xl hover:shadow-2xl transition-all duration-300 text-left relative overflow-hidden group`}
+                  className={`bg-gradient-to-r ${item.gradient} text-white p-6 rounded-2xl hover:shadow-2xl transition-all duration-300 text-start relative overflow-hidden group`}
                   whileHover={{ scale: 1.05, y: -5 }}
                   whileTap={{ scale: 0.95 }}
                   initial={{ opacity: 0, y: 30 }}
@@ -628,7 +647,7 @@ export function Dashboard() {
               >
                 <Brain className="h-4 w-4" />
               </motion.div>
-              <span>Built on Bolt</span>
+              <span>{t('dashboard.builtOnBolt')}</span>
               <motion.div
                 animate={{ scale: [1, 1.2, 1] }}
                 transition={{ duration: 1.5, repeat: Infinity }}
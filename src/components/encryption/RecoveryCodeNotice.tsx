@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Copy, Download, KeyRound } from 'lucide-react';
+import { useI18n } from '../../hooks/useI18n';
+import toast from 'react-hot-toast';
+
+interface RecoveryCodeNoticeProps {
+  code: string;
+  onDone: () => void;
+}
+
+// Shown once whenever a recovery code is created; it can't be retrieved later
+export function RecoveryCodeNotice({ code, onDone }: RecoveryCodeNoticeProps) {
+  const { t } = useI18n();
+  const [saved, setSaved] = useState(false);
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast.success(t('encryption.codeCopied'));
+    } catch (error) {
+      console.error('Error copying recovery code:', error);
+      toast.error(t('encryption.codeCopyFailed'));
+    }
+  };
+
+  const downloadCode = () => {
+    const text = `${t('encryption.codeFileTitle')}\n\n${code}\n\n${t('encryption.codeFileHint')}\n`;
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'mindpal-recovery-code.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl p-5 space-y-4">
+      <div className="flex items-start space-x-3">
+        <KeyRound className="h-5 w-5 text-yellow-600 dark:text-yellow-400 mt-0.5" />
+        <div>
+          <p className="font-medium text-gray-900 dark:text-white">{t('encryption.saveCode')}</p>
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {t('encryption.saveCodeHint')}
+          </p>
+        </div>
+      </div>
+
+      <p className="font-mono text-lg tracking-wider text-center bg-white dark:bg-gray-800 rounded-lg py-3 text-gray-900 dark:text-white select-all">
+        {code}
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={copyCode}
+          className="flex items-center space-x-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          <Copy className="h-4 w-4" />
+          <span>{t('encryption.copy')}</span>
+        </button>
+        <button
+          onClick={downloadCode}
+          className="flex items-center space-x-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          <Download className="h-4 w-4" />
+          <span>{t('encryption.download')}</span>
+        </button>
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+        <input type="checkbox" checked={saved} onChange={(e) => setSaved(e.target.checked)} />
+        <span>{t('encryption.codeSaved')}</span>
+      </label>
+
+      <button
+        onClick={onDone}
+        disabled={!saved}
+        className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-5 py-2 rounded-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {t('encryption.done')}
+      </button>
+    </div>
+  );
+}
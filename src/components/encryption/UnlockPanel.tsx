@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Lock, Unlock } from 'lucide-react';
+import { useEncryption } from '../../hooks/useEncryption';
+import { useI18n } from '../../hooks/useI18n';
+import { MIN_PASSPHRASE_LENGTH, passphraseProblem } from '../../lib/encryption';
+import { RecoveryCodeNotice } from './RecoveryCodeNotice';
+
+const inputClass = 'w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+// Asks for the passphrase, with a way back in through the recovery code
+export function UnlockPanel() {
+  const { unlock, recoverWithCode } = useEncryption();
+  const { t } = useI18n();
+  const [mode, setMode] = useState<'unlock' | 'recover'>('unlock');
+  const [passphrase, setPassphrase] = useState('');
+  const [code, setCode] = useState('');
+  const [nextPassphrase, setNextPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [working, setWorking] = useState(false);
+  const [newCode, setNewCode] = useState<string | null>(null);
+
+  const problem = passphraseProblem(nextPassphrase, confirmation);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || working) return;
+    setWorking(true);
+    await unlock(passphrase);
+    setWorking(false);
+    setPassphrase('');
+  };
+
+  const handleRecover = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (problem || !code.trim() || working) return;
+    setWorking(true);
+    setNewCode(await recoverWithCode(code, nextPassphrase));
+    setWorking(false);
+  };
+
+  if (newCode) {
+    return <RecoveryCodeNotice code={newCode} onDone={() => setNewCode(null)} />;
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700 max-w-md mx-auto">
+      <div className="text-center mb-5">
+        <Lock className="h-10 w-10 text-purple-500 mx-auto mb-2" />
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white">
+          {mode === 'unlock' ? t('encryption.enterPassphrase') : t('encryption.useRecoveryCode')}
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {mode === 'unlock' ? t('encryption.lockedHint') : t('encryption.recoverHint')}
+        </p>
+      </div>
+
+      {mode === 'unlock' ? (
+        <form onSubmit={handleUnlock} className="space-y-3">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={t('encryption.passphrase')}
+            autoComplete="current-password"
+            autoFocus
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={!passphrase || working}
+            className="w-full flex items-center justify-center space-x-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white px-4 py-2.5 rounded-lg font-semibold disabled:opacity-50"
+          >
+            <Unlock className="h-4 w-4" />
+            <span>{working ? t('encryption.unlocking') : t('encryption.unlock')}</span>
+          </button>
+        </form>
+      ) : (
+        <form onSubmit={handleRecover} className="space-y-3">
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+            autoComplete="off"
+            className={`${inputClass} font-mono`}
+          />
+          <input
+            type="password"
+            value={nextPassphrase}
+            onChange={(e) => setNextPassphrase(e.target.value)}
+            placeholder={t('encryption.newPassphrase', { count: MIN_PASSPHRASE_LENGTH })}
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder={t('encryption.confirmPassphrase')}
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          {nextPassphrase && problem && <p className="text-sm text-red-500">{problem}</p>}
+          <button
+            type="submit"
+            disabled={!!problem || !code.trim() || working}
+            className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white px-4 py-2.5 rounded-lg font-semibold disabled:opacity-50"
+          >
+            {working ? t('encryption.recovering') : t('encryption.setNewPassphrase')}
+          </button>
+        </form>
+      )}
+
+      <button
+        onClick={() => setMode(mode === 'unlock' ? 'recover' : 'unlock')}
+        className="w-full mt-4 text-sm text-purple-600 dark:text-purple-400 hover:underline"
+      >
+        {mode === 'unlock' ? t('encryption.forgotPassphrase') : t('encryption.backToPassphrase')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Pause, Play, Square, SkipForward, Volume2, VolumeX, RotateCcw, Heart, CheckCircle } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useI18n } from '../../hooks/useI18n';
+import { useVoice } from '../../hooks/useVoice';
+import type { NewExerciseSession } from '../../hooks/useExerciseSessions';
+import { positionAt, stepStart, totalSeconds } from '../../lib/exercises';
+import type { ExerciseDefinition, ExercisePosition } from '../../lib/exercises';
+
+interface ExercisePlayerProps {
+  exercise: ExerciseDefinition;
+  onLog: (session: NewExerciseSession) => void;
+  onExit: () => void;
+}
+
+const TICK_MS = 100;
+// Shorter attempts aren't worth a history entry
+const MIN_LOGGED_SECONDS = 10;
+const SMALL = 0.6;
+const LARGE = 1;
+// Kept stable so re-renders on every tick don't restart the pulse
+const FOCUS_PULSE = { scale: [0.75, 0.85, 0.75] };
+const FOCUS_TRANSITION = { duration: 4, repeat: Infinity, ease: 'easeInOut' };
+
+// Circle size at a point in a step: it grows on the in-breath, shrinks on
+// the out-breath and stays put while holding
+const scaleAt = (exercise: ExerciseDefinition, position: ExercisePosition, fraction: number): number => {
+  const { step, stepIndex } = position;
+  if (step.motion === 'inhale') return SMALL + (LARGE - SMALL) * fraction;
+  if (step.motion === 'exhale') return LARGE - (LARGE - SMALL) * fraction;
+  if (step.motion === 'focus') return (SMALL + LARGE) / 2;
+  const previous = exercise.steps[(stepIndex + exercise.steps.length - 1) % exercise.steps.length];
+  return previous.motion === 'inhale' ? LARGE : SMALL;
+};
+
+export function ExercisePlayer({ exercise, onLog, onExit }: ExercisePlayerProps) {
+  const navigate = useNavigate();
+  const { t } = useI18n();
+  const { speakQueued, stopSpeech, isVoiceEnabled } = useVoice();
+  const [offset, setOffset] = useState(0);
+  const [activeSeconds, setActiveSeconds] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const [narrate, setNarrate] = useState(false);
+  const [logged, setLogged] = useState(false);
+  const lastStepKey = useRef<string | null>(null);
+
+  const position = positionAt(exercise, offset);
+  const stepKey = `${position.round}-${position.stepIndex}`;
+  const fraction = Math.min(1, position.elapsed / position.step.seconds);
+  const total = totalSeconds(exercise);
+
+  // Advance the timeline while running
+  useEffect(() => {
+    if (paused || position.finished) return;
+    const interval = setInterval(() => {
+      setOffset(prev => prev + TICK_MS / 1000);
+      setActiveSeconds(prev => prev + TICK_MS / 1000);
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [paused, position.finished]);
+
+  // Speak each step as it begins
+  useEffect(() => {
+    if (position.finished || lastStepKey.current === stepKey) return;
+    lastStepKey.current = stepKey;
+    if (narrate && isVoiceEnabled) {
+      speakQueued(t(position.step.narration ?? position.step.label));
+    }
+  }, [stepKey, position.finished, position.step, narrate, isVoiceEnabled, speakQueued, t]);
+
+  useEffect(() => () => stopSpeech(), [stopSpeech]);
+
+  const log = (completed: boolean) => {
+    if (logged) return;
+    setLogged(true);
+    onLog({ exercise_id: exercise.id, duration_seconds: Math.round(activeSeconds), completed });
+  };
+
+  // Only the moment of finishing matters, not later changes to the settings
+  const finishRef = useRef(() => {});
+  finishRef.current = () => {
+    if (narrate && isVoiceEnabled) speakQueued(t('exercises.wellDoneSpoken'));
+    log(true);
+  };
+
+  useEffect(() => {
+    if (position.finished) finishRef.current();
+  }, [position.finished]);
+
+  const stop = () => {
+    stopSpeech();
+    if (activeSeconds >= MIN_LOGGED_SECONDS) log(false);
+    onExit();
+  };
+
+  const skip = () => {
+    const next = position.stepIndex + 1 < exercise.steps.length
+      ? stepStart(exercise, position.round, position.stepIndex + 1)
+      : total;
+    setOffset(next);
+  };
+
+  const restart = () => {
+    setOffset(0);
+    setActiveSeconds(0);
+    setLogged(false);
+    setPaused(false);
+    lastStepKey.current = null;
+  };
+
+  const toggleNarration = () => {
+    if (narrate) stopSpeech();
+    setNarrate(!narrate);
+  };
+
+  if (position.finished) {
+    return (
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="text-center py-12 space-y-6"
+      >
+        <CheckCircle className="h-16 w-16 text-green-500 mx-auto" />
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">{t('exercises.wellDone')}</h2>
+          <p className="text-gray-600 dark:text-gray-300">
+            {t('exercises.completed', { title: t(exercise.title), count: Math.max(1, Math.round(activeSeconds / 60)) })}
+          </p>
+        </div>
+        <div className="flex flex-wrap justify-center gap-3">
+          <button
+            onClick={() => navigate('/mood')}
+            className="flex items-center space-x-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white px-5 py-2.5 rounded-xl font-semibold hover:shadow-lg transition-all duration-200"
+          >
+            <Heart className="h-4 w-4" />
+            <span>{t('exercises.logMood')}</span>
+          </button>
+          <button
+            onClick={restart}
+            className="flex items-center space-x-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-5 py-2.5 rounded-xl font-semibold hover:bg-gray-200 dark:hover:bg-gray-600 transition-all duration-200"
+          >
+            <RotateCcw className="h-4 w-4" />
+            <span>{t('exercises.goAgain')}</span>
+          </button>
+          <button
+            onClick={onExit}
+            className="px-5 py-2.5 rounded-xl font-semibold text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+          >
+            {t('exercises.done')}
+          </button>
+        </div>
+      </motion.div>
+    );
+  }
+
+  const remaining = Math.ceil(position.step.seconds - position.elapsed);
+
+  return (
+    <div className="flex flex-col items-center py-6 space-y-8">
+      <div className="text-sm text-gray-500 dark:text-gray-400">
+        {exercise.rounds > 1
+          ? t('exercises.round', { round: position.round + 1, total: exercise.rounds })
+          : t('exercises.step', { step: position.stepIndex + 1, total: exercise.steps.length })}
+      </div>
+
+      {/* Pacing circle */}
+      <div className="relative h-64 w-64 flex items-center justify-center">
+        <motion.div
+          key={paused ? `${stepKey}-paused` : stepKey}
+          className="absolute inset-0 rounded-full bg-gradient-to-br from-teal-300 to-cyan-500 dark:from-teal-600 dark:to-cyan-800 opacity-80"
+          initial={{ scale: scaleAt(exercise, position, fraction) }}
+          animate={
+            position.step.motion === 'focus' && !paused
+              ? FOCUS_PULSE
+              : { scale: scaleAt(exercise, position, paused ? fraction : 1) }
+          }
+          transition={
+            position.step.motion === 'focus'
+              ? FOCUS_TRANSITION
+              : { duration: paused ? 0 : position.step.seconds - position.elapsed, ease: 'easeInOut' }
+          }
+        />
+        <div className="relative text-center text-white px-6">
+          <p className="text-2xl font-bold drop-shadow">{t(position.step.label)}</p>
+          {exercise.selfPaced ? null : <p className="text-4xl font-light mt-1 drop-shadow">{remaining}</p>}
+        </div>
+      </div>
+
+      {position.step.detail && (
+        <p className="text-gray-600 dark:text-gray-300 text-center max-w-md">{t(position.step.detail)}</p>
+      )}
+
+      {/* Overall progress */}
+      <div className="w-full max-w-md h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-gradient-to-r from-teal-400 to-cyan-500 transition-all duration-100"
+          style={{ width: `${(offset / total) * 100}%` }}
+        />
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={toggleNarration}
+          disabled={!isVoiceEnabled}
+          className={`p-3 rounded-full transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${
+            narrate
+              ? 'bg-teal-100 dark:bg-teal-900/40 text-teal-700 dark:text-teal-300'
+              : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300'
+          }`}
+          title={isVoiceEnabled ? t(narrate ? 'exercises.narrationOff' : 'exercises.narrationOn') : t('exercises.narrationUnavailable')}
+        >
+          {narrate ? <Volume2 className="h-5 w-5" /> : <VolumeX className="h-5 w-5" />}
+        </button>
+        <button
+          onClick={() => setPaused(!paused)}
+          className="p-4 rounded-full bg-gradient-to-r from-teal-500 to-cyan-600 text-white shadow-lg hover:shadow-xl transition-all duration-200"
+          title={paused ? t('exercises.resume') : t('exercises.pause')}
+        >
+          {paused ? <Play className="h-6 w-6" /> : <Pause className="h-6 w-6" />}
+        </button>
+        {exercise.selfPaced && (
+          <button
+            onClick={skip}
+            className="p-3 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition-all duration-200"
+            title={t('exercises.next')}
+          >
+            <SkipForward className="h-5 w-5" />
+          </button>
+        )}
+        <button
+          onClick={stop}
+          className="p-3 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition-all duration-200"
+          title={t('exercises.stop')}
+        >
+          <Square className="h-5 w-5" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { motion } from 'framer-motion';
+import { ArrowLeft, Clock, Eye, Square, Wind, History } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import { useExerciseSessions } from '../../hooks/useExerciseSessions';
+import { useI18n } from '../../hooks/useI18n';
+import type { NewExerciseSession } from '../../hooks/useExerciseSessions';
+import { EXERCISES, getExercise, totalSeconds } from '../../lib/exercises';
+import type { ExerciseId } from '../../lib/exercises';
+import { ExercisePlayer } from './ExercisePlayer';
+import toast from 'react-hot-toast';
+
+const EXERCISE_ICONS: Record<ExerciseId, typeof Wind> = {
+  box_breathing: Square,
+  breathing_4_7_8: Wind,
+  grounding_54321: Eye,
+};
+
+export function Exercises() {
+  // The open exercise lives in the URL so mood reports can link straight to one
+  const [searchParams, setSearchParams] = useSearchParams();
+  const active = getExercise(searchParams.get('exercise') ?? '');
+  const { sessions, logSession } = useExerciseSessions();
+  const { t, formatDate } = useI18n();
+
+  const formatDuration = (seconds: number) =>
+    seconds < 60 ? t('exercises.seconds', { count: seconds }) : t('exercises.minutes', { count: Math.round(seconds / 60) });
+
+  const open = (id: ExerciseId | null) => setSearchParams(id ? { exercise: id } : {});
+
+  const handleLog = async (session: NewExerciseSession) => {
+    const saved = await logSession(session);
+    if (saved && session.completed) {
+      toast.success(t('exercises.saved'));
+    }
+  };
+
+  if (active) {
+    return (
+      <div className="space-y-6">
+        <button
+          onClick={() => open(null)}
+          className="flex items-center space-x-2 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors duration-200"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          <span>{t('exercises.all')}</span>
+        </button>
+        <div className="bg-white dark:bg-gray-800 rounded-2xl p-8 shadow-sm border border-gray-100 dark:border-gray-700">
+          <div className="text-center mb-2">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t(active.title)}</h1>
+            <p className="text-gray-600 dark:text-gray-300 mt-1 max-w-lg mx-auto">{t(active.instructions)}</p>
+          </div>
+          <ExercisePlayer
+            key={active.id}
+            exercise={active}
+            onLog={handleLog}
+            onExit={() => open(null)}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="text-center">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{t('exercises.title')}</h1>
+        <p className="text-gray-600 dark:text-gray-300">{t('exercises.subtitle')}</p>
+      </div>
+
+      {/* Exercise cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {EXERCISES.map((exercise, index) => {
+          const Icon = EXERCISE_ICONS[exercise.id];
+          return (
+            <motion.button
+              key={exercise.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.1 }}
+              whileHover={{ scale: 1.02, y: -4 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => open(exercise.id)}
+              className="text-left bg-gradient-to-br from-teal-50 to-cyan-50 dark:from-teal-900/20 dark:to-cyan-900/20 rounded-2xl p-6 border border-teal-100 dark:border-teal-800 hover:shadow-lg transition-shadow duration-200"
+            >
+              <div className="bg-gradient-to-r from-teal-500 to-cyan-500 p-3 rounded-xl inline-block mb-4">
+                <Icon className="h-6 w-6 text-white" />
+              </div>
+              <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-1">{t(exercise.title)}</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">{t(exercise.summary)}</p>
+              <p className="text-xs text-teal-700 dark:text-teal-300 flex items-center space-x-1">
+                <Clock className="h-3 w-3" />
+                <span>{t('exercises.about', { duration: formatDuration(totalSeconds(exercise)) })}</span>
+              </p>
+            </motion.button>
+          );
+        })}
+      </div>
+
+      {/* History */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.3 }}
+        className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700"
+      >
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4 flex items-center space-x-2">
+          <History className="h-5 w-5 text-teal-600 dark:text-teal-400" />
+          <span>{t('exercises.recent')}</span>
+        </h3>
+        {sessions.length === 0 ? (
+          <p className="text-center py-6 text-gray-500 dark:text-gray-400">
+            {t('exercises.empty')}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {sessions.slice(0, 8).map(session => (
+              <div key={session.id} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-xl text-sm">
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {t(getExercise(session.exercise_id)?.title ?? 'mood.exercise')}
+                </span>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {formatDuration(session.duration_seconds)}
+                  {!session.completed && ` ${t('mood.stoppedEarly')}`}
+                  {' · '}
+                  {formatDate(session.created_at, 'PPp')}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
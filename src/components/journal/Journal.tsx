@@ -0,0 +1,305 @@
+import { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Link } from 'react-router-dom';
+import { BookOpen, Plus, Search, Lock, Calendar, List, Edit3, Trash2, X, KeyRound } from 'lucide-react';
+import { useI18n } from '../../hooks/useI18n';
+import { useJournal } from '../../hooks/useJournal';
+import type { JournalEntry, NewJournalEntry } from '../../hooks/useJournal';
+import { useMoodEntries } from '../../hooks/useMoodEntries';
+import type { MoodEntry } from '../../hooks/useMoodEntries';
+import { useProfile } from '../../hooks/useProfile';
+import { toZoned } from '../../lib/reminders';
+import { monthOf, searchEntries, snippetFor } from '../../lib/journal';
+import { JournalEditor } from './JournalEditor';
+import { JournalCalendar } from './JournalCalendar';
+import { RichText } from './RichText';
+import { UnlockPanel } from '../encryption/UnlockPanel';
+import toast from 'react-hot-toast';
+
+export function Journal() {
+  const { t, formatDate } = useI18n();
+  const { entries, keyStatus, loading, addEntry, updateEntry, deleteEntry } = useJournal();
+  const { entries: moodEntries } = useMoodEntries();
+  const { timezone } = useProfile();
+  const today = toZoned(new Date(), timezone).date;
+
+  // entry_date is a calendar day, so read it as local midnight for display
+  const formatEntryDate = (date: string) => formatDate(new Date(`${date}T00:00:00`), 'PPPP');
+
+  // null: not editing; 'new': composing; otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [view, setView] = useState<'list' | 'calendar'>('list');
+  const [query, setQuery] = useState('');
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [month, setMonth] = useState(monthOf(today));
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const moodEntriesByDate = useMemo(() => {
+    const byDate: Record<string, MoodEntry[]> = {};
+    moodEntries.forEach(mood => {
+      const date = toZoned(new Date(mood.created_at), timezone).date;
+      (byDate[date] ??= []).push(mood);
+    });
+    return byDate;
+  }, [moodEntries, timezone]);
+
+  const moodById = useMemo(() => new Map(moodEntries.map(mood => [mood.id, mood])), [moodEntries]);
+
+  const calendarDays = useMemo(() => {
+    const days: Record<string, { count: number; emoji: string | null }> = {};
+    entries.forEach(entry => {
+      const day = (days[entry.entry_date] ??= { count: 0, emoji: null });
+      day.count += 1;
+      day.emoji ??= (entry.mood_entry_id && moodById.get(entry.mood_entry_id)?.emoji) || null;
+    });
+    return days;
+  }, [entries, moodById]);
+
+  const visibleEntries = useMemo(() => {
+    const onDay = selectedDate ? entries.filter(entry => entry.entry_date === selectedDate) : entries;
+    return searchEntries(onDay, query);
+  }, [entries, selectedDate, query]);
+
+  const editingEntry = editing && editing !== 'new' ? entries.find(entry => entry.id === editing) ?? null : null;
+
+  const saveEntry = async (entry: NewJournalEntry) => {
+    const saved = editingEntry ? await updateEntry(editingEntry.id, entry) : await addEntry(entry);
+    if (saved) toast.success(t(editingEntry ? 'journal.updated' : 'journal.saved'));
+    return saved;
+  };
+
+  const removeEntry = async (entry: JournalEntry) => {
+    if (confirmingDelete !== entry.id) {
+      setConfirmingDelete(entry.id);
+      return;
+    }
+    setConfirmingDelete(null);
+    if (await deleteEntry(entry.id)) toast.success(t('journal.deleted'));
+  };
+
+  const selectDate = (date: string | null) => {
+    setSelectedDate(date);
+    if (date) setMonth(monthOf(date));
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="text-center">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{t('journal.title')}</h1>
+        <p className="text-gray-600 dark:text-gray-300 flex items-center justify-center space-x-2">
+          <Lock className="h-4 w-4" />
+          <span>
+            {keyStatus === 'legacy' ? t('journal.setPassphraseIntro') : t('journal.privateIntro')}
+          </span>
+        </p>
+      </div>
+
+      {keyStatus === 'legacy' && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl p-4">
+          <p className="text-sm text-yellow-800 dark:text-yellow-300 flex items-center space-x-2">
+            <KeyRound className="h-4 w-4 flex-shrink-0" />
+            <span>{t('journal.legacyWarning')}</span>
+          </p>
+          <Link
+            to="/settings?tab=encryption"
+            className="text-sm font-medium text-yellow-900 dark:text-yellow-200 underline whitespace-nowrap"
+          >
+            {t('journal.setPassphrase')}
+          </Link>
+        </div>
+      )}
+
+      {keyStatus === 'locked' && <UnlockPanel />}
+
+      {/* Controls */}
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={() => setEditing('new')}
+          disabled={editing !== null || keyStatus !== 'unlocked'}
+          className="flex items-center justify-center space-x-2 bg-gradient-to-r from-amber-500 to-orange-500 text-white px-5 py-2.5 rounded-xl font-semibold shadow-sm disabled:opacity-50"
+        >
+          <Plus className="h-5 w-5" />
+          <span>{t('journal.newEntry')}</span>
+        </motion.button>
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('journal.search')}
+            className="w-full border border-gray-300 dark:border-gray-600 rounded-xl pl-10 pr-4 py-2.5 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          />
+        </div>
+        <div className="flex bg-gray-100 dark:bg-gray-800 rounded-xl p-1">
+          {([
+            { id: 'list', label: 'journal.list', icon: List },
+            { id: 'calendar', label: 'journal.calendar', icon: Calendar },
+          ] as const).map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                view === id
+                  ? 'bg-white dark:bg-gray-700 text-amber-700 dark:text-amber-300 shadow-sm'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+              }`}
+            >
+              <Icon className="h-4 w-4" />
+              <span>{t(label)}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {editing && (
+        <JournalEditor
+          key={editing}
+          entry={editingEntry}
+          initialDate={selectedDate ?? today}
+          today={today}
+          moodEntriesByDate={moodEntriesByDate}
+          onSave={saveEntry}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {view === 'calendar' && (
+        <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700">
+          <JournalCalendar
+            month={month}
+            onMonthChange={setMonth}
+            today={today}
+            selectedDate={selectedDate}
+            onSelectDate={selectDate}
+            days={calendarDays}
+          />
+        </div>
+      )}
+
+      {selectedDate && (
+        <div className="flex items-center justify-between">
+          <p className="font-medium text-gray-700 dark:text-gray-300">{formatEntryDate(selectedDate)}</p>
+          <button
+            onClick={() => selectDate(null)}
+            className="flex items-center space-x-1 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          >
+            <X className="h-4 w-4" />
+            <span>{t('journal.showAllDays')}</span>
+          </button>
+        </div>
+      )}
+
+      {/* Entries */}
+      {loading && entries.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="w-8 h-8 border-4 border-amber-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <AnimatePresence>
+            {visibleEntries.map(entry => {
+              const mood = entry.mood_entry_id ? moodById.get(entry.mood_entry_id) : undefined;
+              const isExpanded = expanded === entry.id;
+              return (
+                <motion.div
+                  key={entry.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, x: 20 }}
+                  className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700"
+                >
+                  <div className="flex items-start justify-between mb-2">
+                    <div>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">{formatEntryDate(entry.entry_date)}</p>
+                      <h3 className="text-lg font-bold text-gray-900 dark:text-white">
+                        {entry.locked ? t('journal.lockedEntry') : entry.title || t('journal.untitled')}
+                      </h3>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {mood && (
+                        <span
+                          className="px-2 py-1 rounded-lg bg-pink-50 dark:bg-pink-900/20 text-sm"
+                          title={t('journal.linkedMood')}
+                        >
+                          {mood.emoji} {mood.mood}/10
+                        </span>
+                      )}
+                      {!entry.locked && keyStatus === 'unlocked' && (
+                        <button
+                          onClick={() => setEditing(entry.id)}
+                          disabled={editing !== null}
+                          className="text-gray-400 hover:text-amber-500 transition-colors duration-200 disabled:opacity-40"
+                          title={t('journal.editEntry')}
+                        >
+                          <Edit3 className="h-4 w-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => removeEntry(entry)}
+                        onBlur={() => setConfirmingDelete(null)}
+                        className={`transition-colors duration-200 ${
+                          confirmingDelete === entry.id ? 'text-red-500 text-sm font-medium' : 'text-gray-400 hover:text-red-500'
+                        }`}
+                        title={t('journal.deleteEntry')}
+                      >
+                        {confirmingDelete === entry.id ? t('journal.confirmDelete') : <Trash2 className="h-4 w-4" />}
+                      </button>
+                    </div>
+                  </div>
+
+                  {entry.locked ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 flex items-center space-x-1">
+                      <Lock className="h-4 w-4" />
+                      <span>
+                        {keyStatus === 'locked' ? t('journal.unlockToRead') : t('journal.cannotDecrypt')}
+                      </span>
+                    </p>
+                  ) : (
+                    <>
+                      {entry.prompt && (
+                        <p className="text-sm italic text-amber-700 dark:text-amber-300 mb-2">{entry.prompt}</p>
+                      )}
+                      {query.trim() && !isExpanded ? (
+                        <p className="text-gray-600 dark:text-gray-300">{snippetFor(entry.body, query)}</p>
+                      ) : (
+                        <div className={isExpanded ? '' : 'max-h-24 overflow-hidden'}>
+                          <RichText body={entry.body} />
+                        </div>
+                      )}
+                      {entry.body.length > 200 && (
+                        <button
+                          onClick={() => setExpanded(isExpanded ? null : entry.id)}
+                          className="mt-2 text-sm text-amber-600 dark:text-amber-400 hover:underline"
+                        >
+                          {isExpanded ? t('journal.showLess') : t('journal.readMore')}
+                        </button>
+                      )}
+                    </>
+                  )}
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
+
+          {visibleEntries.length === 0 && (
+            <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+              <BookOpen className="h-12 w-12 text-gray-300 dark:text-gray-600 mx-auto mb-2" />
+              <p>
+                {entries.length === 0
+                  ? t('journal.empty')
+                  : query.trim()
+                    ? t('journal.noMatches', { query: query.trim() })
+                    : t('journal.noEntriesOnDay')}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
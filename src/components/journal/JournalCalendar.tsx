@@ -0,0 +1,74 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { useI18n } from '../../hooks/useI18n';
+import { monthGrid, shiftMonth } from '../../lib/journal';
+
+interface JournalCalendarProps {
+  month: string;
+  onMonthChange: (month: string) => void;
+  today: string;
+  selectedDate: string | null;
+  onSelectDate: (date: string | null) => void;
+  // Entry count and linked mood emoji for each day that has entries
+  days: Record<string, { count: number; emoji: string | null }>;
+}
+
+// 1 January 2023 was a Sunday, which is where the grid's weeks start
+const WEEKDAYS = Array.from({ length: 7 }, (_, index) => new Date(2023, 0, 1 + index));
+
+export function JournalCalendar({ month, onMonthChange, today, selectedDate, onSelectDate, days }: JournalCalendarProps) {
+  const { t, formatDate } = useI18n();
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <button
+          onClick={() => onMonthChange(shiftMonth(month, -1))}
+          className="p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          title={t('journal.previousMonth')}
+        >
+          <ChevronLeft className="h-5 w-5" />
+        </button>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          {formatDate(new Date(`${month}-01T00:00:00`), 'LLLL yyyy')}
+        </h3>
+        <button
+          onClick={() => onMonthChange(shiftMonth(month, 1))}
+          disabled={month >= today.slice(0, 7)}
+          className="p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed"
+          title={t('journal.nextMonth')}
+        >
+          <ChevronRight className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+        {WEEKDAYS.map(day => <div key={day.getDay()}>{formatDate(day, 'EEE')}</div>)}
+      </div>
+      <div className="grid grid-cols-7 gap-1">
+        {monthGrid(month).flat().map((date, index) => {
+          if (!date) return <div key={index} />;
+          const day = days[date];
+          const selected = date === selectedDate;
+          return (
+            <button
+              key={date}
+              onClick={() => onSelectDate(selected ? null : date)}
+              disabled={date > today}
+              className={`aspect-square rounded-lg flex flex-col items-center justify-center text-sm transition-all duration-200 disabled:opacity-30 disabled:cursor-not-allowed ${
+                selected
+                  ? 'bg-amber-500 text-white shadow'
+                  : day
+                    ? 'bg-amber-50 dark:bg-amber-900/20 text-gray-900 dark:text-white hover:bg-amber-100 dark:hover:bg-amber-900/40'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+              } ${date === today && !selected ? 'ring-2 ring-amber-400' : ''}`}
+              title={day ? t('journal.entryCount', { count: day.count }) : undefined}
+            >
+              <span>{Number(date.slice(8))}</span>
+              {day && <span className="text-xs leading-none">{day.emoji ?? '•'}</span>}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
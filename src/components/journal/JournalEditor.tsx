@@ -0,0 +1,227 @@
+import { useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Bold, Italic, Heading, List, Quote, Eye, Edit3, Save, X, Lock, Lightbulb } from 'lucide-react';
+import { useI18n } from '../../hooks/useI18n';
+import { applyFormat, promptsFor } from '../../lib/journal';
+import type { RichTextFormat } from '../../lib/journal';
+import type { MessageKey } from '../../lib/i18n';
+import type { JournalEntry, NewJournalEntry } from '../../hooks/useJournal';
+import type { MoodEntry } from '../../hooks/useMoodEntries';
+import { RichText } from './RichText';
+
+interface JournalEditorProps {
+  // The entry being edited, or null for a new one
+  entry: JournalEntry | null;
+  initialDate: string;
+  today: string;
+  // Check-ins that can be linked, grouped by day in the user's time zone
+  moodEntriesByDate: Record<string, MoodEntry[]>;
+  onSave: (entry: NewJournalEntry) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+const TOOLBAR: { format: RichTextFormat; icon: typeof Bold; label: MessageKey }[] = [
+  { format: 'bold', icon: Bold, label: 'journal.formatBold' },
+  { format: 'italic', icon: Italic, label: 'journal.formatItalic' },
+  { format: 'heading', icon: Heading, label: 'journal.formatHeading' },
+  { format: 'list', icon: List, label: 'journal.formatList' },
+  { format: 'quote', icon: Quote, label: 'journal.formatQuote' },
+];
+
+export function JournalEditor({ entry, initialDate, today, moodEntriesByDate, onSave, onCancel }: JournalEditorProps) {
+  const { t, formatDate } = useI18n();
+  const [entryDate, setEntryDate] = useState(entry?.entry_date ?? initialDate);
+  const [title, setTitle] = useState(entry?.title ?? '');
+  const [body, setBody] = useState(entry?.body ?? '');
+  const [prompt, setPrompt] = useState<string | null>(entry?.prompt ?? null);
+  const [moodEntryId, setMoodEntryId] = useState<string | null>(entry?.mood_entry_id ?? null);
+  const [preview, setPreview] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const sameDayMoods = moodEntriesByDate[entryDate] ?? [];
+  // Entries linked to a check-in that has aged out of the recent list keep the link
+  const linkedElsewhere = moodEntryId !== null && !sameDayMoods.some(mood => mood.id === moodEntryId);
+  const latestMood = sameDayMoods[0]?.mood ?? null;
+  const prompts = useMemo(() => promptsFor(latestMood, entryDate), [latestMood, entryDate]);
+
+  const changeDate = (date: string) => {
+    setEntryDate(date);
+    // A link only makes sense for a check-in on the same day
+    if (!(moodEntriesByDate[date] ?? []).some(mood => mood.id === moodEntryId)) setMoodEntryId(null);
+  };
+
+  const formatSelection = (formatName: RichTextFormat) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const next = applyFormat(
+      { text: body, selectionStart: textarea.selectionStart, selectionEnd: textarea.selectionEnd },
+      formatName
+    );
+    setBody(next.text);
+    // Restore the selection once React has written the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(next.selectionStart, next.selectionEnd);
+    });
+  };
+
+  const save = async () => {
+    if (saving || (!title.trim() && !body.trim())) return;
+    setSaving(true);
+    const saved = await onSave({
+      entry_date: entryDate,
+      mood_entry_id: moodEntryId,
+      title: title.trim(),
+      body,
+      prompt,
+    });
+    setSaving(false);
+    if (saved) onCancel();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-gradient-to-br from-amber-50 to-orange-50 dark:from-amber-900/20 dark:to-orange-900/20 rounded-2xl p-6 border border-amber-100 dark:border-amber-800 space-y-4"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">{entry ? t('journal.editEntry') : t('journal.newEntryTitle')}</h2>
+        <input
+          type="date"
+          value={entryDate}
+          max={today}
+          onChange={(e) => e.target.value && changeDate(e.target.value)}
+          className="border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-1.5 text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+        />
+      </div>
+
+      {/* Prompts */}
+      {prompt ? (
+        <div className="flex items-start justify-between bg-white/70 dark:bg-gray-800/70 rounded-xl px-4 py-3">
+          <p className="text-amber-800 dark:text-amber-200 italic">{prompt}</p>
+          <button
+            onClick={() => setPrompt(null)}
+            className="ml-3 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            title={t('journal.removePrompt')}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ) : (
+        <div>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-2 flex items-center space-x-1">
+            <Lightbulb className="h-4 w-4 text-amber-500" />
+            <span>{t('journal.promptsHint')}</span>
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {prompts.map(option => (
+              <button
+                key={option}
+                onClick={() => setPrompt(t(option))}
+                className="text-left text-sm px-3 py-1.5 rounded-full bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-amber-200 dark:border-amber-800 hover:border-amber-400 transition-colors duration-200"
+              >
+                {t(option)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder={t('journal.titlePlaceholder')}
+        className="w-full border border-gray-300 dark:border-gray-600 rounded-xl px-4 py-2.5 font-semibold focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+      />
+
+      {/* Formatting toolbar */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-1">
+          {TOOLBAR.map(({ format: formatName, icon: Icon, label }) => (
+            <button
+              key={formatName}
+              onClick={() => formatSelection(formatName)}
+              disabled={preview}
+              className="p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-white dark:hover:bg-gray-800 disabled:opacity-40"
+              title={t(label)}
+            >
+              <Icon className="h-4 w-4" />
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setPreview(!preview)}
+          className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+        >
+          {preview ? <Edit3 className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          <span>{preview ? t('journal.write') : t('journal.preview')}</span>
+        </button>
+      </div>
+
+      {preview ? (
+        <div className="min-h-[12rem] bg-white dark:bg-gray-800 rounded-xl px-4 py-3 border border-gray-300 dark:border-gray-600">
+          {body.trim() ? <RichText body={body} /> : <p className="text-gray-400">{t('journal.nothingYet')}</p>}
+        </div>
+      ) : (
+        <textarea
+          ref={textareaRef}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={10}
+          placeholder={t('journal.bodyPlaceholder')}
+          className="w-full border border-gray-300 dark:border-gray-600 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent resize-y bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+        />
+      )}
+
+      {/* Mood link */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('journal.linkMood')}</label>
+        {sameDayMoods.length === 0 && !linkedElsewhere ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('journal.noMoodsOnDay')}</p>
+        ) : (
+          <select
+            value={moodEntryId ?? ''}
+            onChange={(e) => setMoodEntryId(e.target.value || null)}
+            className="border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+          >
+            <option value="">{t('journal.notLinked')}</option>
+            {linkedElsewhere && <option value={moodEntryId ?? ''}>{t('journal.linkedCheckIn')}</option>}
+            {sameDayMoods.map(mood => (
+              <option key={mood.id} value={mood.id}>
+                {mood.emoji} {t('journal.moodAt', { mood: mood.mood, time: formatDate(new Date(mood.created_at), 'p') })}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 pt-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center space-x-1">
+          <Lock className="h-3 w-3" />
+          <span>{t('journal.encryptedNote')}</span>
+        </p>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-xl text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+          >
+            {t('common.cancel')}
+          </button>
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={save}
+            disabled={saving || (!title.trim() && !body.trim())}
+            className="flex items-center space-x-2 bg-gradient-to-r from-amber-500 to-orange-500 text-white px-5 py-2 rounded-xl font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="h-4 w-4" />
+            <span>{saving ? t('common.saving') : t('journal.save')}</span>
+          </motion.button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
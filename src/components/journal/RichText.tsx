@@ -0,0 +1,50 @@
+import { parseRichText } from '../../lib/journal';
+import type { InlineSpan } from '../../lib/journal';
+
+interface RichTextProps {
+  body: string;
+  className?: string;
+}
+
+const renderSpans = (spans: InlineSpan[]) =>
+  spans.map((span, index) => {
+    if (span.bold) return <strong key={index}>{span.text}</strong>;
+    if (span.italic) return <em key={index}>{span.text}</em>;
+    return <span key={index}>{span.text}</span>;
+  });
+
+// Renders journal markdown as elements (never as HTML)
+export function RichText({ body, className = '' }: RichTextProps) {
+  return (
+    <div className={`space-y-2 text-gray-700 dark:text-gray-300 ${className}`}>
+      {parseRichText(body).map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return (
+              <h4 key={index} className="text-lg font-bold text-gray-900 dark:text-white">
+                {renderSpans(block.spans)}
+              </h4>
+            );
+          case 'quote':
+            return (
+              <blockquote key={index} className="border-l-4 border-amber-300 dark:border-amber-600 pl-3 italic">
+                {renderSpans(block.spans)}
+              </blockquote>
+            );
+          case 'list':
+            return (
+              <ul key={index} className="list-disc list-inside space-y-1">
+                {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderSpans(item)}</li>)}
+              </ul>
+            );
+          default:
+            return (
+              <p key={index} className="whitespace-pre-line">
+                {renderSpans(block.spans)}
+              </p>
+            );
+        }
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useI18n } from '../../hooks/useI18n';
+import { CHECK_IN_DIMENSIONS } from '../../lib/moodScale';
+import type { CheckInDimension } from '../../lib/moodScale';
+
+export type CheckInValues = Record<CheckInDimension, number | null>;
+
+interface CheckInSlidersProps {
+  values: CheckInValues;
+  onChange: (key: CheckInDimension, value: number | null) => void;
+}
+
+// Each rating starts unset so skipped ones aren't saved as a made-up middle value
+export function CheckInSliders({ values, onChange }: CheckInSlidersProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-5">
+      {CHECK_IN_DIMENSIONS.map(({ key, label, low, high }) => {
+        const value = values[key];
+        return (
+          <div key={key}>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{t(label)}</span>
+              {value === null ? (
+                <button
+                  type="button"
+                  onClick={() => onChange(key, 5)}
+                  className="text-xs text-purple-600 dark:text-purple-400 hover:text-purple-800 dark:hover:text-purple-300"
+                >
+                  {t('mood.rate')}
+                </button>
+              ) : (
+                <div className="flex items-center space-x-3">
+                  <span className="text-sm font-semibold text-purple-700 dark:text-purple-300">{value}/10</span>
+                  <button
+                    type="button"
+                    onClick={() => onChange(key, null)}
+                    className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                  >
+                    {t('common.clear')}
+                  </button>
+                </div>
+              )}
+            </div>
+            <input
+              type="range"
+              min="1"
+              max="10"
+              value={value ?? 5}
+              onChange={(e) => onChange(key, parseInt(e.target.value))}
+              className={`w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mood-slider ${
+                value === null ? 'opacity-40' : ''
+              }`}
+              aria-label={t(label)}
+            />
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+              <span>{t(low)}</span>
+              <span>{t(high)}</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,363 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { BarChart3, CalendarDays, CheckSquare, Clock, MessageCircle, TrendingDown, TrendingUp, Minus, Tag, Activity } from 'lucide-react';
+import { useI18n } from '../../hooks/useI18n';
+import { useProfile } from '../../hooks/useProfile';
+import { useActivityHistory } from '../../hooks/useActivityHistory';
+import { addDays, toZoned } from '../../lib/reminders';
+import type { MessageKey } from '../../lib/i18n';
+import { CHECK_IN_DIMENSIONS } from '../../lib/moodScale';
+import { rankTags } from '../../lib/moodTags';
+import {
+  averageRating,
+  bucketMoods,
+  correlateWithMood,
+  dailyAverages,
+  dailyCounts,
+  dayOfWeekPattern,
+  describeCorrelation,
+  filterByLabels,
+  labelImpact,
+  movingAverage,
+  timeOfDayPattern,
+  trendDelta,
+} from '../../lib/moodAnalytics';
+import type { Correlation, Granularity, MoodSample, TagImpact } from '../../lib/moodAnalytics';
+import { MoodPatternChart, MoodTrendChart } from './MoodCharts';
+
+const RANGES: { id: string; label: MessageKey; days: number }[] = [
+  { id: '30d', label: 'analytics.range30d', days: 30 },
+  { id: '90d', label: 'analytics.range90d', days: 90 },
+  { id: '180d', label: 'analytics.range180d', days: 180 },
+  { id: '365d', label: 'analytics.range365d', days: 365 },
+];
+
+const GRANULARITIES: { id: Granularity; label: MessageKey; movingAverage: MessageKey; window: number }[] = [
+  { id: 'day', label: 'analytics.daily', movingAverage: 'analytics.movingAverageDay', window: 7 },
+  { id: 'week', label: 'analytics.weekly', movingAverage: 'analytics.movingAverageWeek', window: 4 },
+  { id: 'month', label: 'analytics.monthly', movingAverage: 'analytics.movingAverageMonth', window: 3 },
+];
+
+// Activity is loaded once for the longest range and filtered locally
+const oneYearAgo = () => {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() - 1);
+  return date.toISOString();
+};
+
+interface MoodAnalyticsProps {
+  // A year of entries, as loaded by useMoodStreak
+  entries: MoodSample[];
+  loading: boolean;
+}
+
+export function MoodAnalytics({ entries, loading }: MoodAnalyticsProps) {
+  const { t } = useI18n();
+  const { timezone } = useProfile();
+  const [since] = useState(oneYearAgo);
+  const { taskCompletions, chatMessages, loading: activityLoading } = useActivityHistory(since);
+  const [rangeId, setRangeId] = useState('90d');
+  const [granularity, setGranularity] = useState<Granularity>('week');
+  const [labelFilter, setLabelFilter] = useState('');
+
+  const labels = useMemo(() => rankTags(entries.flatMap(entry => [entry.activities, entry.tags])), [entries]);
+
+  const range = RANGES.find(r => r.id === rangeId) ?? RANGES[1];
+  const granularityInfo = GRANULARITIES.find(g => g.id === granularity)!;
+  const averageWindow = granularityInfo.window;
+
+  const analytics = useMemo(() => {
+    const to = toZoned(new Date(), timezone).date;
+    const from = addDays(to, -(range.days - 1));
+    const inRange = (timestamp: string) => toZoned(new Date(timestamp), timezone).date >= from;
+
+    const rangeEntries = filterByLabels(entries, labelFilter ? [labelFilter] : []).filter(entry => inRange(entry.created_at));
+    const buckets = bucketMoods(rangeEntries, { granularity, from, to, timeZone: timezone });
+    const moodByDay = dailyAverages(rangeEntries, timezone);
+
+    return {
+      count: rangeEntries.length,
+      average: rangeEntries.length > 0
+        ? rangeEntries.reduce((sum, entry) => sum + entry.mood, 0) / rangeEntries.length
+        : null,
+      loggedDays: moodByDay.size,
+      buckets,
+      trend: movingAverage(buckets, averageWindow),
+      delta: trendDelta(buckets),
+      byWeekday: dayOfWeekPattern(rangeEntries, timezone),
+      byTimeOfDay: timeOfDayPattern(rangeEntries, timezone),
+      ratings: CHECK_IN_DIMENSIONS.map(({ key, label }) => ({ label, average: averageRating(rangeEntries, key) })),
+      activities: labelImpact(rangeEntries, 'activities'),
+      tags: labelImpact(rangeEntries, 'tags'),
+      tasks: correlateWithMood(moodByDay, dailyCounts(taskCompletions.filter(inRange), timezone)),
+      chats: correlateWithMood(moodByDay, dailyCounts(chatMessages.filter(inRange), timezone)),
+    };
+  }, [entries, taskCompletions, chatMessages, timezone, range.days, granularity, averageWindow, labelFilter]);
+
+  const renderTrend = () => {
+    if (analytics.delta === null || Math.abs(analytics.delta) < 0.25) {
+      return (
+        <span className="flex items-center space-x-1 text-gray-600 dark:text-gray-300">
+          <Minus className="h-5 w-5" />
+          <span>{t('analytics.steady')}</span>
+        </span>
+      );
+    }
+    const rising = analytics.delta > 0;
+    const Icon = rising ? TrendingUp : TrendingDown;
+    return (
+      <span className={`flex items-center space-x-1 ${rising ? 'text-green-600 dark:text-green-400' : 'text-orange-600 dark:text-orange-400'}`}>
+        <Icon className="h-5 w-5" />
+        <span>{rising ? '+' : ''}{analytics.delta.toFixed(1)}</span>
+      </span>
+    );
+  };
+
+  const renderCorrelation = (
+    title: MessageKey,
+    activity: MessageKey,
+    icon: typeof CheckSquare,
+    correlation: Correlation
+  ) => {
+    const Icon = icon;
+    return (
+      <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-xl">
+        <div className="flex items-center space-x-2 mb-2">
+          <Icon className="h-4 w-4 text-purple-600 dark:text-purple-400" />
+          <span className="font-medium text-gray-900 dark:text-white">{t(title)}</span>
+          {correlation.coefficient !== null && (
+            <span className="ml-auto text-xs px-2 py-0.5 rounded-full bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300">
+              r = {correlation.coefficient.toFixed(2)}
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {activityLoading ? t('analytics.loadingActivity') : describeCorrelation(correlation, t(activity))}
+        </p>
+        {!activityLoading && correlation.withActivity !== null && correlation.withoutActivity !== null && (
+          <div className="flex space-x-6 mt-3 text-sm">
+            <div>
+              <div className="text-gray-500 dark:text-gray-400 text-xs">{t('analytics.daysWith')}</div>
+              <div className="font-semibold text-gray-900 dark:text-white">{correlation.withActivity.toFixed(1)}/10</div>
+            </div>
+            <div>
+              <div className="text-gray-500 dark:text-gray-400 text-xs">{t('analytics.daysWithout')}</div>
+              <div className="font-semibold text-gray-900 dark:text-white">{correlation.withoutActivity.toFixed(1)}/10</div>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderImpact = (title: MessageKey, icon: typeof Tag, impacts: TagImpact[]) => {
+    const Icon = icon;
+    return (
+      <div>
+        <div className="flex items-center space-x-2 mb-3">
+          <Icon className="h-4 w-4 text-purple-600 dark:text-purple-400" />
+          <span className="font-medium text-gray-900 dark:text-white">{t(title)}</span>
+        </div>
+        {impacts.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('analytics.addToCompare')}</p>
+        ) : (
+          <div className="space-y-2">
+            {impacts.slice(0, 6).map(impact => (
+              <div key={impact.tag} className="flex items-center justify-between text-sm">
+                <span className="text-gray-700 dark:text-gray-300">
+                  {impact.tag}
+                  <span className="text-xs text-gray-400 dark:text-gray-500"> ({impact.count})</span>
+                </span>
+                <span className="flex items-center space-x-2">
+                  <span className="font-semibold text-gray-900 dark:text-white">{impact.average.toFixed(1)}</span>
+                  {impact.difference !== null && (
+                    <span className={`text-xs ${impact.difference >= 0 ? 'text-green-600 dark:text-green-400' : 'text-orange-600 dark:text-orange-400'}`}>
+                      {impact.difference >= 0 ? '+' : ''}{impact.difference.toFixed(1)}
+                    </span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const cardClass = 'bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700';
+  const pillClass = (active: boolean) => `px-3 py-1.5 rounded-lg text-sm transition-all duration-200 ${
+    active
+      ? 'bg-purple-600 text-white'
+      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+  }`;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Range and granularity */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          {RANGES.map(r => (
+            <button key={r.id} onClick={() => setRangeId(r.id)} className={pillClass(r.id === rangeId)}>
+              {t(r.label)}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {labels.length > 0 && (
+            <select
+              value={labelFilter}
+              onChange={(e) => setLabelFilter(e.target.value)}
+              className="px-3 py-1.5 rounded-lg text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-none focus:outline-none focus:ring-2 focus:ring-purple-500"
+              aria-label={t('analytics.filterLabel')}
+            >
+              <option value="">{t('analytics.allEntries')}</option>
+              {labels.map(l => (
+                <option key={l} value={l}>{l}</option>
+              ))}
+            </select>
+          )}
+          {GRANULARITIES.map(g => (
+            <button key={g.id} onClick={() => setGranularity(g.id)} className={pillClass(g.id === granularity)}>
+              {t(g.label)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className={cardClass}>
+          <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">{t('analytics.averageMood')}</div>
+          <div className="text-2xl font-bold text-purple-600 dark:text-purple-400">
+            {analytics.average !== null ? `${analytics.average.toFixed(1)}/10` : '–'}
+          </div>
+        </div>
+        <div className={cardClass}>
+          <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">{t('analytics.entries')}</div>
+          <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
+            {analytics.count}
+            <span className="text-sm font-normal text-gray-500 dark:text-gray-400"> {t('analytics.onDays', { count: analytics.loggedDays })}</span>
+          </div>
+        </div>
+        <div className={cardClass}>
+          <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">{t('analytics.trend')}</div>
+          <div className="text-2xl font-bold">{renderTrend()}</div>
+        </div>
+      </div>
+
+      {analytics.count === 0 ? (
+        <div className={`${cardClass} text-center py-12 text-gray-500 dark:text-gray-400`}>
+          <BarChart3 className="h-12 w-12 text-gray-300 dark:text-gray-600 mx-auto mb-2" />
+          <p>{t('analytics.empty')}</p>
+        </div>
+      ) : (
+        <>
+          {/* Mood over time */}
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className={cardClass}>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-bold text-gray-900 dark:text-white flex items-center space-x-2">
+                <BarChart3 className="h-5 w-5 text-purple-600 dark:text-purple-400" />
+                <span>{t('analytics.overTime')}</span>
+              </h3>
+              <div className="flex items-center space-x-4 text-xs text-gray-500 dark:text-gray-400">
+                <span className="flex items-center space-x-1">
+                  <span className="inline-block w-3 h-3 rounded-sm bg-purple-300 dark:bg-purple-700" />
+                  <span>{t('analytics.average')}</span>
+                </span>
+                <span className="flex items-center space-x-1">
+                  <span className="inline-block w-3 h-0.5 bg-pink-500" />
+                  <span>{t(granularityInfo.movingAverage, { count: averageWindow })}</span>
+                </span>
+              </div>
+            </div>
+            <MoodTrendChart buckets={analytics.buckets} trend={analytics.trend} granularity={granularity} />
+          </motion.div>
+
+          {/* Patterns */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 }}
+              className={cardClass}
+            >
+              <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4 flex items-center space-x-2">
+                <CalendarDays className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+                <span>{t('analytics.byWeekday')}</span>
+              </h3>
+              <MoodPatternChart buckets={analytics.byWeekday} />
+            </motion.div>
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.2 }}
+              className={cardClass}
+            >
+              <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4 flex items-center space-x-2">
+                <Clock className="h-5 w-5 text-orange-600 dark:text-orange-400" />
+                <span>{t('analytics.byTimeOfDay')}</span>
+              </h3>
+              <MoodPatternChart buckets={analytics.byTimeOfDay} />
+            </motion.div>
+          </div>
+
+          {/* Check-ins */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.25 }}
+              className={cardClass}
+            >
+              <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">{t('analytics.checkIns')}</h3>
+              <MoodPatternChart buckets={analytics.ratings.map(r => ({ ...r, count: 0 }))} plain />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                {t('analytics.checkInsHint')}
+              </p>
+            </motion.div>
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.25 }}
+              className={cardClass}
+            >
+              <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-1">{t('analytics.tagsTitle')}</h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                {t('analytics.tagsHint')}
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                {renderImpact('analytics.activities', Activity, analytics.activities)}
+                {renderImpact('analytics.tags', Tag, analytics.tags)}
+              </div>
+            </motion.div>
+          </div>
+
+          {/* Correlations */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            className={cardClass}
+          >
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-1">{t('analytics.correlationsTitle')}</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              {t('analytics.correlationsHint')}
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {renderCorrelation('analytics.tasksTitle', 'analytics.tasksActivity', CheckSquare, analytics.tasks)}
+              {renderCorrelation('analytics.chatsTitle', 'analytics.chatsActivity', MessageCircle, analytics.chats)}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </div>
+  );
+}
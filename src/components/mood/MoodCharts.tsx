@@ -0,0 +1,154 @@
+import { useI18n } from '../../hooks/useI18n';
+import type { Granularity, MoodBucket, PatternBucket } from '../../lib/moodAnalytics';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const MAX_MOOD = 10;
+
+const BUCKET_FORMATS: Record<Granularity, string> = {
+  day: 'PP',
+  week: 'PP',
+  month: 'LLLL yyyy',
+};
+
+
+const moodY = (mood: number) => CHART_HEIGHT - (mood / MAX_MOOD) * CHART_HEIGHT;
+
+interface TrendChartProps {
+  buckets: MoodBucket[];
+  trend: (number | null)[];
+  granularity: Granularity;
+}
+
+// Bars for each bucket's average with the moving average drawn over them
+export function MoodTrendChart({ buckets, trend, granularity }: TrendChartProps) {
+  const { t, formatDate } = useI18n();
+
+  // Bucket starts are calendar dates, so parse them as local midnight
+  const formatBucket = (start: string) => {
+    const date = formatDate(new Date(`${start}T00:00:00`), BUCKET_FORMATS[granularity]);
+    return granularity === 'week' ? t('analytics.weekOf', { date }) : date;
+  };
+  const slot = CHART_WIDTH / Math.max(buckets.length, 1);
+  const barWidth = Math.max(slot * 0.7, 1);
+
+  // Break the line where the moving average has no value yet
+  const segments: string[] = [];
+  let current: string[] = [];
+  trend.forEach((value, index) => {
+    if (value === null) {
+      if (current.length > 0) segments.push(current.join(' '));
+      current = [];
+      return;
+    }
+    current.push(`${index * slot + slot / 2},${moodY(value)}`);
+  });
+  if (current.length > 0) segments.push(current.join(' '));
+
+  const labelIndexes = Array.from(new Set([0, Math.floor((buckets.length - 1) / 2), buckets.length - 1]));
+
+  return (
+    <div>
+      <div className="flex">
+        <div className="flex flex-col justify-between text-xs text-gray-400 dark:text-gray-500 pr-2 h-48">
+          <span>10</span>
+          <span>5</span>
+          <span>0</span>
+        </div>
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          className="flex-1 h-48"
+          role="img"
+          aria-label={t('analytics.overTime')}
+        >
+          {[2.5, 5, 7.5].map(mood => (
+            <line
+              key={mood}
+              x1={0}
+              x2={CHART_WIDTH}
+              y1={moodY(mood)}
+              y2={moodY(mood)}
+              className="stroke-gray-200 dark:stroke-gray-700"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {buckets.map((bucket, index) => bucket.average !== null && (
+            <rect
+              key={bucket.start}
+              x={index * slot + (slot - barWidth) / 2}
+              y={moodY(bucket.average)}
+              width={barWidth}
+              height={CHART_HEIGHT - moodY(bucket.average)}
+              rx={Math.min(barWidth / 4, 3)}
+              className="fill-purple-300 dark:fill-purple-700"
+            >
+              <title>
+                {t('analytics.bucketEntries', {
+                  date: formatBucket(bucket.start),
+                  average: bucket.average.toFixed(1),
+                  count: bucket.count,
+                })}
+              </title>
+            </rect>
+          ))}
+          {segments.map(points => (
+            <polyline
+              key={points}
+              points={points}
+              fill="none"
+              strokeWidth={2.5}
+              strokeLinejoin="round"
+              className="stroke-pink-500"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </svg>
+      </div>
+      {buckets.length > 0 && (
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-2 pl-6">
+          {labelIndexes.map(index => (
+            <span key={index}>{formatBucket(buckets[index].start)}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface PatternChartProps {
+  buckets: PatternBucket[];
+  // Without counts or a highlighted best bar, for ratings where higher isn't always better
+  plain?: boolean;
+}
+
+export function MoodPatternChart({ buckets, plain = false }: PatternChartProps) {
+  const { t } = useI18n();
+  const best = Math.max(...buckets.map(bucket => bucket.average ?? 0));
+
+  return (
+    <div className="space-y-3">
+      {buckets.map(bucket => (
+        <div key={bucket.label} className="flex items-center space-x-3">
+          <span className="w-20 text-sm text-gray-600 dark:text-gray-300">{t(bucket.label)}</span>
+          <div className="flex-1 h-3 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+            {bucket.average !== null && (
+              <div
+                className={`h-full rounded-full ${
+                  !plain && bucket.average === best
+                    ? 'bg-gradient-to-r from-purple-500 to-pink-500'
+                    : 'bg-purple-300 dark:bg-purple-700'
+                }`}
+                style={{ width: `${(bucket.average / MAX_MOOD) * 100}%` }}
+              />
+            )}
+          </div>
+          <span className="w-24 text-right text-sm text-gray-700 dark:text-gray-300">
+            {bucket.average !== null ? `${bucket.average.toFixed(1)}` : '–'}
+            {!plain && <span className="text-xs text-gray-400 dark:text-gray-500"> ({bucket.count})</span>}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
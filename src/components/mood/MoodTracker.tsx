@@ -1,168 +1,130 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Heart, Calendar, TrendingUp, Save, Smile, Trash2, Edit3, Award, Target, Flame } from 'lucide-react';
-import { useAuth } from '../../hooks/useAuth';
+import { Heart, Calendar, TrendingUp, Save, Smile, Trash2, Edit3, Award, Target, Flame, BarChart3, ChevronDown, ChevronUp, Filter, X, Snowflake, Wind } from 'lucide-react';
 import { useMoodStreak } from '../../hooks/useMoodStreak';
-import { supabase } from '../../lib/supabase';
+import { useMoodEntries } from '../../hooks/useMoodEntries';
+import type { MoodEntry } from '../../hooks/useMoodEntries';
+import { useExerciseSessions } from '../../hooks/useExerciseSessions';
+import { useI18n } from '../../hooks/useI18n';
+import type { ExerciseSession } from '../../hooks/useExerciseSessions';
+import { getExercise } from '../../lib/exercises';
+import { CHECK_IN_DIMENSIONS, MOOD_SCALE, moodLabelKey } from '../../lib/moodScale';
+import { DEFAULT_ACTIVITIES, rankTags, toggleTag } from '../../lib/moodTags';
+import { filterByLabels } from '../../lib/moodAnalytics';
+import { MoodAnalytics } from './MoodAnalytics';
+import { CheckInSliders } from './CheckInSliders';
+import type { CheckInValues } from './CheckInSliders';
+import { TagPicker } from './TagPicker';
 import toast from 'react-hot-toast';
-import { format, subDays, startOfDay } from 'date-fns';
+import { subDays, startOfDay } from 'date-fns';
 
-interface MoodEntry {
-  id: string;
-  mood: number;
-  emoji: string;
-  notes: string | null;
-  created_at: string;
-}
+const EMPTY_RATINGS: CheckInValues = { energy: null, anxiety: null, sleep_quality: null };
 
 export function MoodTracker() {
-  const { user } = useAuth();
   const {
     currentStreak,
     longestStreak,
     loading: streakLoading,
+    entries: yearEntries,
+    status: streakState,
+    freezesLeft,
+    freezeToday,
+    unfreezeToday,
     getStreakStatus,
     getDaysUntilMilestone,
     getStreakEmoji,
     refreshStreak
   } = useMoodStreak();
   
-  const [moodEntries, setMoodEntries] = useState<MoodEntry[]>([]);
+  const { entries: moodEntries, loading, addEntry, updateEntry, deleteEntry } = useMoodEntries();
+  const { sessions: exerciseSessions } = useExerciseSessions();
+  const { t, formatDate } = useI18n();
   const [currentMood, setCurrentMood] = useState(5);
   const [selectedEmoji, setSelectedEmoji] = useState('😊');
   const [notes, setNotes] = useState('');
-  const [loading, setLoading] = useState(true);
   const [editingEntry, setEditingEntry] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
-
-  const moodEmojis = [
-    { emoji: '😭', mood: 1, label: 'Terrible' },
-    { emoji: '😢', mood: 2, label: 'Sad' },
-    { emoji: '😐', mood: 3, label: 'Poor' },
-    { emoji: '🙂', mood: 4, label: 'Fair' },
-    { emoji: '😊', mood: 5, label: 'Good' },
-    { emoji: '😄', mood: 6, label: 'Great' },
-    { emoji: '😍', mood: 7, label: 'Wonderful' },
-    { emoji: '🤩', mood: 8, label: 'Amazing' },
-    { emoji: '🥳', mood: 9, label: 'Fantastic' },
-    { emoji: '🌟', mood: 10, label: 'Perfect' },
-  ];
-
-  const loadMoodEntries = useCallback(async () => {
-    if (!user) {
-      setLoading(false);
-      return;
-    }
-
-    try {
-      const { data, error } = await supabase
-        .from('mood_entries')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false })
-        .limit(30);
-
-      if (error) throw error;
-      setMoodEntries(data || []);
-    } catch (error) {
-      console.error('Error loading mood entries:', error);
-      toast.error('Failed to load mood history');
-    } finally {
-      setLoading(false);
-    }
-  }, [user]);
-
-  useEffect(() => {
-    if (user) {
-      loadMoodEntries();
-    }
-  }, [user, loadMoodEntries]);
+  const [view, setView] = useState<'track' | 'insights'>('track');
+  const [showDetails, setShowDetails] = useState(false);
+  const [ratings, setRatings] = useState<CheckInValues>(EMPTY_RATINGS);
+  const [tags, setTags] = useState<string[]>([]);
+  const [activities, setActivities] = useState<string[]>([]);
+  const [labelFilter, setLabelFilter] = useState<string[]>([]);
+
+  // Suggestions draw on the year of history when it has loaded, and on the
+  // locally cached entries otherwise (e.g. offline)
+  const history = yearEntries.length > 0 ? yearEntries : moodEntries;
+  const tagSuggestions = useMemo(() => rankTags(history.map(entry => entry.tags)), [history]);
+  const activitySuggestions = useMemo(() => {
+    const used = rankTags(history.map(entry => entry.activities));
+    return [...used, ...DEFAULT_ACTIVITIES.filter(activity => !used.includes(activity))];
+  }, [history]);
+  const filterLabels = useMemo(
+    () => rankTags(moodEntries.flatMap(entry => [entry.activities, entry.tags])),
+    [moodEntries]
+  );
+  const visibleEntries = useMemo(() => filterByLabels(moodEntries, labelFilter), [moodEntries, labelFilter]);
+
+  // Exercise sessions sit between the entries they happened around. They
+  // carry no labels, so they're left out while a label filter is active.
+  const recentItems = useMemo(() => {
+    const shown = visibleEntries.slice(0, 10);
+    const items: ({ kind: 'mood'; entry: MoodEntry } | { kind: 'exercise'; session: ExerciseSession })[] =
+      shown.map(entry => ({ kind: 'mood', entry }));
+    if (labelFilter.length > 0) return items;
+    const oldest = shown.length === 10 ? shown[shown.length - 1].created_at : '';
+    exerciseSessions
+      .filter(session => session.created_at >= oldest)
+      .forEach(session => items.push({ kind: 'exercise', session }));
+    const timeOf = (item: typeof items[number]) =>
+      item.kind === 'mood' ? item.entry.created_at : item.session.created_at;
+    return items.sort((a, b) => timeOf(b).localeCompare(timeOf(a)));
+  }, [visibleEntries, exerciseSessions, labelFilter]);
 
   const saveMoodEntry = async () => {
-    if (!user || saving) return;
-
-    try {
-      setSaving(true);
-      
-      const { data, error } = await supabase
-        .from('mood_entries')
-        .insert([
-          {
-            user_id: user.id,
-            mood: currentMood,
-            emoji: selectedEmoji,
-            notes: notes.trim() || null,
-          },
-        ])
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      setMoodEntries([data, ...moodEntries]);
-      setNotes('');
-      
-      // Refresh streak calculation with delay to ensure data is committed
-      setTimeout(() => {
-        refreshStreak();
-      }, 1000);
-      
-      toast.success('Mood saved! 🎉');
-    } catch (error) {
-      console.error('Error saving mood:', error);
-      toast.error('Failed to save mood entry');
-    } finally {
-      setSaving(false);
-    }
+    if (saving) return;
+
+    setSaving(true);
+    const entry = await addEntry({
+      mood: currentMood,
+      emoji: selectedEmoji,
+      notes: notes.trim() || null,
+      ...ratings,
+      tags,
+      activities,
+    });
+    setSaving(false);
+    if (!entry) return;
+
+    setNotes('');
+    setRatings(EMPTY_RATINGS);
+    setTags([]);
+    setActivities([]);
+
+    // Refresh streak calculation with delay to ensure data is committed
+    setTimeout(() => {
+      refreshStreak();
+    }, 1000);
+
+    toast.success(t('mood.saved'));
   };
 
   const deleteMoodEntry = async (entryId: string) => {
-    if (!user) return;
-
-    try {
-      const { error } = await supabase
-        .from('mood_entries')
-        .delete()
-        .eq('id', entryId)
-        .eq('user_id', user.id);
-
-      if (error) throw error;
-
-      setMoodEntries(moodEntries.filter(entry => entry.id !== entryId));
-      
-      // Refresh streak calculation with delay
-      setTimeout(() => {
-        refreshStreak();
-      }, 1000);
-      
-      toast.success('Mood entry deleted');
-    } catch (error) {
-      console.error('Error deleting mood entry:', error);
-      toast.error('Failed to delete mood entry');
-    }
+    if (!(await deleteEntry(entryId))) return;
+
+    // Refresh streak calculation with delay
+    setTimeout(() => {
+      refreshStreak();
+    }, 1000);
+
+    toast.success(t('mood.deleted'));
   };
 
   const updateMoodEntry = async (entryId: string, newNotes: string) => {
-    if (!user) return;
-
-    try {
-      const { error } = await supabase
-        .from('mood_entries')
-        .update({ notes: newNotes.trim() || null })
-        .eq('id', entryId)
-        .eq('user_id', user.id);
-
-      if (error) throw error;
-
-      setMoodEntries(moodEntries.map(entry => 
-        entry.id === entryId ? { ...entry, notes: newNotes.trim() || null } : entry
-      ));
-      setEditingEntry(null);
-      toast.success('Mood entry updated');
-    } catch (error) {
-      console.error('Error updating mood entry:', error);
-      toast.error('Failed to update mood entry');
-    }
+    if (!(await updateEntry(entryId, { notes: newNotes.trim() || null }))) return;
+
+    setEditingEntry(null);
+    toast.success(t('mood.updated'));
   };
 
   const getWeeklyAverage = () => {
@@ -177,7 +139,7 @@ export function MoodTracker() {
     return (sum / recentEntries.length).toFixed(1);
   };
 
-  const handleEmojiSelect = (emojiData: typeof moodEmojis[0]) => {
+  const handleEmojiSelect = (emojiData: typeof MOOD_SCALE[0]) => {
     setCurrentMood(emojiData.mood);
     setSelectedEmoji(emojiData.emoji);
   };
@@ -198,275 +160,436 @@ export function MoodTracker() {
     <div className="space-y-8">
       {/* Header */}
       <div className="text-center">
-        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Mood Tracker</h1>
-        <p className="text-gray-600 dark:text-gray-300">Track your emotional wellness journey</p>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{t('mood.title')}</h1>
+        <p className="text-gray-600 dark:text-gray-300">{t('mood.subtitle')}</p>
       </div>
 
-      {/* Current Mood Entry */}
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        className="bg-gradient-to-br from-pink-50 to-purple-50 dark:from-pink-900/20 dark:to-purple-900/20 rounded-2xl p-8 border border-pink-100 dark:border-pink-800"
-      >
-        <div className="text-center mb-6">
-          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">How are you feeling today?</h2>
-          <div className="text-6xl mb-4">{selectedEmoji}</div>
-          <p className="text-lg text-purple-700 dark:text-purple-300 font-medium">
-            {moodEmojis.find(m => m.mood === currentMood)?.label}
-          </p>
-        </div>
-
-        {/* Emoji Selection */}
-        <div className="grid grid-cols-5 md:grid-cols-10 gap-3 mb-6">
-          {moodEmojis.map((emojiData) => (
-            <motion.button
-              key={emojiData.mood}
-              whileHover={{ scale: 1.1 }}
-              whileTap={{ scale: 0.95 }}
-              onClick={() => handleEmojiSelect(emojiData)}
-              className={`p-3 rounded-xl text-2xl transition-all duration-200 ${
-                currentMood === emojiData.mood
-                  ? 'bg-white dark:bg-gray-800 shadow-lg ring-2 ring-purple-400'
-                  : 'bg-white/50 dark:bg-gray-800/50 hover:bg-white dark:hover:bg-gray-800 hover:shadow-md'
+      {/* View switch */}
+      <div className="flex justify-center">
+        <div className="inline-flex bg-gray-100 dark:bg-gray-800 rounded-xl p-1">
+          {([
+            { id: 'track', label: t('mood.viewTrack'), icon: Heart },
+            { id: 'insights', label: t('mood.viewInsights'), icon: BarChart3 },
+          ] as const).map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                view === id
+                  ? 'bg-white dark:bg-gray-700 text-purple-700 dark:text-purple-300 shadow-sm'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
               }`}
-              title={emojiData.label}
             >
-              {emojiData.emoji}
-            </motion.button>
+              <Icon className="h-4 w-4" />
+              <span>{label}</span>
+            </button>
           ))}
         </div>
+      </div>
 
-        {/* Mood Scale */}
-        <div className="mb-6">
-          <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-2">
-            <span>Terrible (1)</span>
-            <span>Perfect (10)</span>
-          </div>
-          <input
-            type="range"
-            min="1"
-            max="10"
-            value={currentMood}
-            onChange={(e) => {
-              const mood = parseInt(e.target.value);
-              setCurrentMood(mood);
-              setSelectedEmoji(moodEmojis.find(m => m.mood === mood)?.emoji || '😊');
-            }}
-            className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mood-slider"
-          />
-          <div className="text-center mt-2">
-            <span className="text-lg font-semibold text-purple-700 dark:text-purple-300">{currentMood}/10</span>
-          </div>
-        </div>
-
-        {/* Notes */}
-        <div className="mb-6">
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-            What's on your mind? (optional)
-          </label>
-          <textarea
-            value={notes}
-            onChange={(e) => setNotes(e.target.value)}
-            className="w-full border border-gray-300 dark:border-gray-600 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
-            rows={3}
-            placeholder="Share your thoughts, feelings, or what made your day special..."
-          />
-        </div>
-
-        {/* Save Button */}
-        <motion.button
-          whileHover={{ scale: 1.02 }}
-          whileTap={{ scale: 0.98 }}
-          onClick={saveMoodEntry}
-          disabled={saving}
-          className="w-full bg-gradient-to-r from-purple-600 to-pink-600 text-white py-3 px-6 rounded-xl font-semibold hover:shadow-lg transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50"
-        >
-          <Save className="h-5 w-5" />
-          <span>{saving ? 'Saving...' : 'Save Mood Entry'}</span>
-        </motion.button>
-      </motion.div>
+      {view === 'insights' ? (
+        <MoodAnalytics entries={yearEntries} loading={streakLoading} />
+      ) : (
+        <>
 
-      {/* Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        {/* Current Mood Entry */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.1 }}
-          className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700"
+          className="bg-gradient-to-br from-pink-50 to-purple-50 dark:from-pink-900/20 dark:to-purple-900/20 rounded-2xl p-8 border border-pink-100 dark:border-pink-800"
         >
-          <div className="flex items-center space-x-3 mb-2">
-            <TrendingUp className="h-5 w-5 text-green-600 dark:text-green-400" />
-            <span className="font-medium text-gray-900 dark:text-white">Weekly Average</span>
+          <div className="text-center mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">{t('mood.prompt')}</h2>
+            <div className="text-6xl mb-4">{selectedEmoji}</div>
+            <p className="text-lg text-purple-700 dark:text-purple-300 font-medium">
+              {t(moodLabelKey(currentMood))}
+            </p>
           </div>
-          <div className="text-2xl font-bold text-green-600 dark:text-green-400">{getWeeklyAverage()}/10</div>
-        </motion.div>
 
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.2 }}
-          className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700"
-        >
-          <div className="flex items-center space-x-3 mb-2">
-            <Calendar className="h-5 w-5 text-blue-600 dark:text-blue-400" />
-            <span className="font-medium text-gray-900 dark:text-white">Entries This Month</span>
+          {/* Emoji Selection */}
+          <div className="grid grid-cols-5 md:grid-cols-10 gap-3 mb-6">
+            {MOOD_SCALE.map((emojiData) => (
+              <motion.button
+                key={emojiData.mood}
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => handleEmojiSelect(emojiData)}
+                className={`p-3 rounded-xl text-2xl transition-all duration-200 ${
+                  currentMood === emojiData.mood
+                    ? 'bg-white dark:bg-gray-800 shadow-lg ring-2 ring-purple-400'
+                    : 'bg-white/50 dark:bg-gray-800/50 hover:bg-white dark:hover:bg-gray-800 hover:shadow-md'
+                }`}
+                title={t(moodLabelKey(emojiData.mood))}
+              >
+                {emojiData.emoji}
+              </motion.button>
+            ))}
           </div>
-          <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">{moodEntries.length}</div>
-        </motion.div>
 
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.3 }}
-          className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700"
-        >
-          <div className="flex items-center space-x-3 mb-2">
-            <Flame className="h-5 w-5 text-orange-600 dark:text-orange-400" />
-            <span className="font-medium text-gray-900 dark:text-white">Current Streak</span>
-          </div>
-          <div className="flex items-center space-x-2">
-            <div className="text-2xl font-bold text-orange-600 dark:text-orange-400">
-              {streakLoading ? '...' : currentStreak}
+          {/* Mood Scale */}
+          <div className="mb-6">
+            <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-2">
+              <span>{t('mood.scaleLow')}</span>
+              <span>{t('mood.scaleHigh')}</span>
+            </div>
+            <input
+              type="range"
+              min="1"
+              max="10"
+              value={currentMood}
+              onChange={(e) => {
+                const mood = parseInt(e.target.value);
+                setCurrentMood(mood);
+                setSelectedEmoji(MOOD_SCALE.find(m => m.mood === mood)?.emoji || '😊');
+              }}
+              className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer mood-slider"
+            />
+            <div className="text-center mt-2">
+              <span className="text-lg font-semibold text-purple-700 dark:text-purple-300">{currentMood}/10</span>
             </div>
-            <span className="text-lg">{streakEmoji}</span>
           </div>
-          <p className={`text-xs mt-1 ${streakStatus.color}`}>
-            {streakStatus.message}
-          </p>
-        </motion.div>
 
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.4 }}
-          className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700"
-        >
-          <div className="flex items-center space-x-3 mb-2">
-            <Award className="h-5 w-5 text-yellow-600 dark:text-yellow-400" />
-            <span className="font-medium text-gray-900 dark:text-white">Best Streak</span>
+          {/* Notes */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              {t('mood.notesLabel')}
+            </label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="w-full border border-gray-300 dark:border-gray-600 rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+              rows={3}
+              placeholder={t('mood.notesPlaceholder')}
+            />
           </div>
-          <div className="text-2xl font-bold text-yellow-600 dark:text-yellow-400">
-            {streakLoading ? '...' : longestStreak} days
+
+          {/* Check-in detail */}
+          <div className="mb-6">
+            <button
+              type="button"
+              onClick={() => setShowDetails(!showDetails)}
+              className="flex items-center space-x-2 text-sm font-medium text-purple-700 dark:text-purple-300 hover:text-purple-900 dark:hover:text-purple-100"
+            >
+              {showDetails ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              <span>{t('mood.details')}</span>
+            </button>
+            {showDetails && (
+              <div className="mt-4 space-y-6 p-4 bg-white/60 dark:bg-gray-800/60 rounded-xl">
+                <CheckInSliders
+                  values={ratings}
+                  onChange={(key, value) => setRatings(prev => ({ ...prev, [key]: value }))}
+                />
+                <TagPicker
+                  label={t('mood.activitiesLabel')}
+                  value={activities}
+                  onChange={setActivities}
+                  suggestions={activitySuggestions}
+                  placeholder={t('mood.activityPlaceholder')}
+                />
+                <TagPicker
+                  label={t('mood.tagsLabel')}
+                  value={tags}
+                  onChange={setTags}
+                  suggestions={tagSuggestions}
+                  placeholder={t('mood.tagPlaceholder')}
+                />
+              </div>
+            )}
           </div>
-          {milestone && (
-            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-              {milestone.days} days to reach {milestone.milestone} days!
-            </p>
-          )}
+
+          {/* Save Button */}
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={saveMoodEntry}
+            disabled={saving}
+            className="w-full bg-gradient-to-r from-purple-600 to-pink-600 text-white py-3 px-6 rounded-xl font-semibold hover:shadow-lg transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50"
+          >
+            <Save className="h-5 w-5" />
+            <span>{saving ? t('common.saving') : t('mood.save')}</span>
+          </motion.button>
         </motion.div>
-      </div>
 
-      {/* Streak Motivation */}
-      {!streakLoading && currentStreak > 0 && (
+        {/* Stats */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700"
+          >
+            <div className="flex items-center space-x-3 mb-2">
+              <TrendingUp className="h-5 w-5 text-green-600 dark:text-green-400" />
+              <span className="font-medium text-gray-900 dark:text-white">{t('mood.weeklyAverage')}</span>
+            </div>
+            <div className="text-2xl font-bold text-green-600 dark:text-green-400">{getWeeklyAverage()}/10</div>
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700"
+          >
+            <div className="flex items-center space-x-3 mb-2">
+              <Calendar className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+              <span className="font-medium text-gray-900 dark:text-white">{t('mood.entriesThisMonth')}</span>
+            </div>
+            <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">{moodEntries.length}</div>
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700"
+          >
+            <div className="flex items-center space-x-3 mb-2">
+              <Flame className="h-5 w-5 text-orange-600 dark:text-orange-400" />
+              <span className="font-medium text-gray-900 dark:text-white">{t('mood.currentStreak')}</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <div className="text-2xl font-bold text-orange-600 dark:text-orange-400">
+                {streakLoading ? '...' : currentStreak}
+              </div>
+              <span className="text-lg">{streakEmoji}</span>
+            </div>
+            <p className={`text-xs mt-1 ${streakStatus.color}`}>
+              {streakStatus.message}
+            </p>
+            {streakState === 'pending' && (
+              <button
+                onClick={freezeToday}
+                disabled={freezesLeft === 0}
+                className="mt-2 flex items-center space-x-1 text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                title={t('mood.freezeHint')}
+              >
+                <Snowflake className="h-3 w-3" />
+                <span>{t('mood.takeDayOff', { count: freezesLeft })}</span>
+              </button>
+            )}
+            {streakState === 'frozen' && (
+              <button
+                onClick={unfreezeToday}
+                className="mt-2 flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+              >
+                <Snowflake className="h-3 w-3" />
+                <span>{t('mood.undoFreeze')}</span>
+              </button>
+            )}
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.4 }}
+            className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700"
+          >
+            <div className="flex items-center space-x-3 mb-2">
+              <Award className="h-5 w-5 text-yellow-600 dark:text-yellow-400" />
+              <span className="font-medium text-gray-900 dark:text-white">{t('mood.bestStreak')}</span>
+            </div>
+            <div className="text-2xl font-bold text-yellow-600 dark:text-yellow-400">
+              {streakLoading ? '...' : t('mood.days', { count: longestStreak })}
+            </div>
+            {milestone && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {t('mood.toMilestone', { count: milestone.days, milestone: milestone.milestone })}
+              </p>
+            )}
+          </motion.div>
+        </div>
+
+        {/* Streak Motivation */}
+        {!streakLoading && currentStreak > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-gradient-to-r from-orange-50 to-yellow-50 dark:from-orange-900/20 dark:to-yellow-900/20 rounded-2xl p-6 border border-orange-200 dark:border-orange-800"
+          >
+            <div className="flex items-center space-x-4">
+              <div className="text-4xl">{streakEmoji}</div>
+              <div>
+                <h3 className="text-lg font-bold text-orange-800 dark:text-orange-300">
+                  {t('mood.streakAmazing', { count: currentStreak })}
+                </h3>
+                <p className="text-orange-700 dark:text-orange-400">
+                  {t('streak.keepItUp')}
+                </p>
+                {milestone && (
+                  <p className="text-sm text-orange-600 dark:text-orange-500 mt-1">
+                    <Target className="h-4 w-4 inline me-1" />
+                    {t('mood.onlyToMilestone', { count: milestone.days, milestone: milestone.milestone })}
+                  </p>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        )}
+
+        {/* Recent Entries */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
-          className="bg-gradient-to-r from-orange-50 to-yellow-50 dark:from-orange-900/20 dark:to-yellow-900/20 rounded-2xl p-6 border border-orange-200 dark:border-orange-800"
+          transition={{ delay: 0.5 }}
+          className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700"
         >
-          <div className="flex items-center space-x-4">
-            <div className="text-4xl">{streakEmoji}</div>
-            <div>
-              <h3 className="text-lg font-bold text-orange-800 dark:text-orange-300">
-                Amazing! {currentStreak} day streak!
-              </h3>
-              <p className="text-orange-700 dark:text-orange-400">
-                You're building a great habit of tracking your mood. Keep it up!
-              </p>
-              {milestone && (
-                <p className="text-sm text-orange-600 dark:text-orange-500 mt-1">
-                  <Target className="h-4 w-4 inline mr-1" />
-                  Only {milestone.days} more days to reach your {milestone.milestone}-day milestone!
-                </p>
+          <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4 flex items-center space-x-2">
+            <Smile className="h-5 w-5 text-purple-600 dark:text-purple-400" />
+            <span>{t('mood.recent')}</span>
+          </h3>
+
+          {filterLabels.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              <Filter className="h-4 w-4 text-gray-400" />
+              {filterLabels.map(label => (
+                <button
+                  key={label}
+                  onClick={() => setLabelFilter(toggleTag(labelFilter, label))}
+                  className={`px-3 py-1 rounded-full text-xs transition-colors duration-200 ${
+                    labelFilter.includes(label)
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+              {labelFilter.length > 0 && (
+                <button
+                  onClick={() => setLabelFilter([])}
+                  className="flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                >
+                  <X className="h-3 w-3" />
+                  <span>{t('common.clear')}</span>
+                </button>
               )}
             </div>
-          </div>
-        </motion.div>
-      )}
+          )}
 
-      {/* Recent Entries */}
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: 0.5 }}
-        className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700"
-      >
-        <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4 flex items-center space-x-2">
-          <Smile className="h-5 w-5 text-purple-600 dark:text-purple-400" />
-          <span>Recent Entries</span>
-        </h3>
-
-        <div className="space-y-4">
-          <AnimatePresence>
-            {moodEntries.slice(0, 10).map((entry) => (
-              <motion.div
-                key={entry.id}
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                exit={{ opacity: 0, x: 20 }}
-                className="flex items-start space-x-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-xl"
-              >
-                <div className="text-2xl">{entry.emoji}</div>
-                <div className="flex-1">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-2">
-                      <span className="font-semibold text-gray-900 dark:text-white">{entry.mood}/10</span>
-                      <span className="text-sm text-gray-500 dark:text-gray-400">
-                        {format(new Date(entry.created_at), 'MMM d, yyyy h:mm a')}
-                      </span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      {entry.notes && (
-                        <button
-                          onClick={() => setEditingEntry(editingEntry === entry.id ? null : entry.id)}
-                          className="text-gray-400 hover:text-blue-500 transition-colors duration-200"
-                          title="Edit notes"
-                        >
-                          <Edit3 className="h-4 w-4" />
-                        </button>
+          <div className="space-y-4">
+            <AnimatePresence>
+              {recentItems.map((item) => {
+                if (item.kind === 'exercise') return (
+                  <motion.div
+                    key={item.session.id}
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    exit={{ opacity: 0, x: 20 }}
+                    className="flex items-center space-x-3 px-4 py-2 bg-teal-50 dark:bg-teal-900/20 rounded-xl text-sm"
+                  >
+                    <Wind className="h-4 w-4 text-teal-600 dark:text-teal-400" />
+                    <span className="text-gray-700 dark:text-gray-200">
+                      {t(getExercise(item.session.exercise_id)?.title ?? 'mood.exercise')}
+                      {item.session.completed ? '' : ` ${t('mood.stoppedEarly')}`}
+                    </span>
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {formatDate(item.session.created_at, 'PP p')}
+                    </span>
+                  </motion.div>
+                );
+                const { entry } = item;
+                return (
+                  <motion.div
+                    key={entry.id}
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    exit={{ opacity: 0, x: 20 }}
+                    className="flex items-start space-x-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-xl"
+                  >
+                    <div className="text-2xl">{entry.emoji}</div>
+                    <div className="flex-1">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <span className="font-semibold text-gray-900 dark:text-white">{entry.mood}/10</span>
+                          <span className="text-sm text-gray-500 dark:text-gray-400">
+                            {formatDate(entry.created_at, 'PP p')}
+                          </span>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          {entry.notes && (
+                            <button
+                              onClick={() => setEditingEntry(editingEntry === entry.id ? null : entry.id)}
+                              className="text-gray-400 hover:text-blue-500 transition-colors duration-200"
+                              title={t('mood.editNotes')}
+                            >
+                              <Edit3 className="h-4 w-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => deleteMoodEntry(entry.id)}
+                            className="text-gray-400 hover:text-red-500 transition-colors duration-200"
+                            title={t('mood.deleteEntry')}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                      {editingEntry === entry.id ? (
+                        <div className="mt-2">
+                          <textarea
+                            defaultValue={entry.notes || ''}
+                            className="w-full text-sm border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                            rows={2}
+                            onBlur={(e) => updateMoodEntry(entry.id, e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter' && !e.shiftKey) {
+                                e.preventDefault();
+                                updateMoodEntry(entry.id, e.currentTarget.value);
+                              }
+                            }}
+                            autoFocus
+                          />
+                        </div>
+                      ) : (
+                        entry.notes && (
+                          <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">{entry.notes}</p>
+                        )
+                      )}
+                      {CHECK_IN_DIMENSIONS.some(({ key }) => entry[key] != null) && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                          {CHECK_IN_DIMENSIONS
+                            .filter(({ key }) => entry[key] != null)
+                            .map(({ key, label }) => `${t(label)} ${entry[key]}/10`)
+                            .join(' · ')}
+                        </p>
+                      )}
+                      {[...(entry.activities ?? []), ...(entry.tags ?? [])].length > 0 && (
+                        <div className="flex flex-wrap gap-1.5 mt-2">
+                          {[...(entry.activities ?? []), ...(entry.tags ?? [])].map(label => (
+                            <button
+                              key={label}
+                              onClick={() => setLabelFilter(labelFilter.includes(label) ? labelFilter : [...labelFilter, label])}
+                              className="px-2 py-0.5 rounded-full text-xs bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 hover:bg-purple-200 dark:hover:bg-purple-900/50"
+                              title={t('mood.showWith', { label })}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
                       )}
-                      <button
-                        onClick={() => deleteMoodEntry(entry.id)}
-                        className="text-gray-400 hover:text-red-500 transition-colors duration-200"
-                        title="Delete entry"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
-                    </div>
-                  </div>
-                  {editingEntry === entry.id ? (
-                    <div className="mt-2">
-                      <textarea
-                        defaultValue={entry.notes || ''}
-                        className="w-full text-sm border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
-                        rows={2}
-                        onBlur={(e) => updateMoodEntry(entry.id, e.target.value)}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter' && !e.shiftKey) {
-                            e.preventDefault();
-                            updateMoodEntry(entry.id, e.currentTarget.value);
-                          }
-                        }}
-                        autoFocus
-                      />
                     </div>
-                  ) : (
-                    entry.notes && (
-                      <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">{entry.notes}</p>
-                    )
-                  )}
-                </div>
-              </motion.div>
-            ))}
-          </AnimatePresence>
-        </div>
-
-        {moodEntries.length === 0 && (
-          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
-            <Heart className="h-12 w-12 text-gray-300 dark:text-gray-600 mx-auto mb-2" />
-            <p>No mood entries yet. Start tracking your emotions!</p>
+                  </motion.div>
+                );
+              })}
+            </AnimatePresence>
           </div>
-        )}
-      </motion.div>
+
+          {moodEntries.length === 0 && (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              <Heart className="h-12 w-12 text-gray-300 dark:text-gray-600 mx-auto mb-2" />
+              <p>{t('mood.empty')}</p>
+            </div>
+          )}
+
+          {moodEntries.length > 0 && visibleEntries.length === 0 && (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              <p>{t('mood.emptyFiltered', { labels: labelFilter.join(' + ') })}</p>
+            </div>
+          )}
+        </motion.div>
+        </>
+      )}
     </div>
   );
 }
\ No newline at end of file
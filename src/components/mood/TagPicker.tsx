@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { useI18n } from '../../hooks/useI18n';
+import { addTag, MAX_TAG_LENGTH, toggleTag } from '../../lib/moodTags';
+
+interface TagPickerProps {
+  label: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  // Labels offered as one-tap chips, most relevant first
+  suggestions: string[];
+  placeholder: string;
+}
+
+const MAX_SUGGESTIONS = 12;
+
+export function TagPicker({ label, value, onChange, suggestions, placeholder }: TagPickerProps) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState('');
+
+  const commitDraft = () => {
+    if (!draft.trim()) return;
+    onChange(addTag(value, draft));
+    setDraft('');
+  };
+
+  const offered = suggestions.filter(tag => !value.includes(tag)).slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{label}</label>
+      <div className="flex flex-wrap gap-2 mb-2">
+        {value.map(tag => (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => onChange(toggleTag(value, tag))}
+            className="flex items-center space-x-1 px-3 py-1 rounded-full text-sm bg-purple-600 text-white hover:bg-purple-700 transition-colors duration-200"
+            title={t('mood.removeTag', { tag })}
+          >
+            <span>{tag}</span>
+            <X className="h-3 w-3" />
+          </button>
+        ))}
+        {offered.map(tag => (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => onChange(toggleTag(value, tag))}
+            className="px-3 py-1 rounded-full text-sm bg-white/70 dark:bg-gray-800/70 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600 hover:border-purple-400 transition-colors duration-200"
+          >
+            {tag}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={draft}
+          maxLength={MAX_TAG_LENGTH}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              commitDraft();
+            }
+          }}
+          onBlur={commitDraft}
+          placeholder={placeholder}
+          className="flex-1 border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+        />
+        <button
+          type="button"
+          onClick={commitDraft}
+          disabled={!draft.trim()}
+          className="p-1.5 rounded-lg text-purple-600 dark:text-purple-400 hover:bg-purple-100 dark:hover:bg-purple-900/30 disabled:opacity-40 transition-colors duration-200"
+          title={t('mood.addTag')}
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
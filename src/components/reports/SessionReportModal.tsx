@@ -16,47 +16,10 @@ import {
   Lightbulb,
   Calendar
 } from 'lucide-react';
+import { useI18n } from '../../hooks/useI18n';
 import { useSessionReports } from '../../hooks/useSessionReports';
-
-interface SessionReport {
-  id: string;
-  user_id: string;
-  video_session_id: string;
-  report_type: 'post_session' | 'weekly_summary' | 'monthly_analysis';
-  report_data: {
-    session_id: string;
-    conversation_id?: string;
-    duration_seconds: number;
-    duration_formatted: string;
-    started_at: string;
-    ended_at?: string;
-    session_config: any;
-    analytics_events: any[];
-  };
-  insights: {
-    session_quality: 'excellent' | 'good' | 'fair' | 'brief';
-    engagement_level: 'high' | 'medium' | 'low';
-    technical_issues: number;
-    interaction_count: number;
-  };
-  recommendations: string[];
-  mood_analysis: {
-    overall_sentiment: string;
-    stress_indicators: string;
-    engagement_quality: string;
-    emotional_state: string;
-    confidence_score: number;
-  };
-  engagement_metrics: {
-    total_interactions: number;
-    session_completion_rate: number;
-    average_response_time: string;
-    user_satisfaction_score: number;
-    ai_response_quality: number;
-  };
-  generated_at: string;
-  created_at: string;
-}
+import type { SessionReport } from '../../hooks/useSessionReports';
+import { RATING_LABELS } from '../../lib/reports';
 
 interface SessionReportModalProps {
   isOpen: boolean;
@@ -65,10 +28,13 @@ interface SessionReportModalProps {
 }
 
 export function SessionReportModal({ isOpen, onClose, report }: SessionReportModalProps) {
+  const { t, formatDate } = useI18n();
   const { shareReport, exportReport } = useSessionReports();
 
   if (!report) return null;
 
+  const { mood, engagement } = report.report;
+
   const getQualityColor = (quality: string) => {
     switch (quality) {
       case 'excellent': return 'text-green-600 bg-green-50 border-green-200 dark:bg-green-900/20 dark:text-green-400';
@@ -117,17 +83,16 @@ export function SessionReportModal({ isOpen, onClose, report }: SessionReportMod
             <div className="bg-gradient-to-r from-purple-600 to-blue-600 text-white p-6">
               <div className="flex items-center justify-between">
                 <div>
-                  <h2 className="text-2xl font-bold mb-2">Video Session Report</h2>
+                  <h2 className="text-2xl font-bold mb-2">{t('reports.title')}</h2>
                   <p className="text-purple-100">
-                    Generated on {new Date(report.generated_at).toLocaleDateString()} at{' '}
-                    {new Date(report.generated_at).toLocaleTimeString()}
+                    {t('reports.generatedAt', { date: formatDate(report.generated_at, 'PPp') })}
                   </p>
                 </div>
                 <div className="flex items-center space-x-2">
                   <button
                     onClick={handleShare}
                     className="p-2 bg-white/20 hover:bg-white/30 rounded-lg transition-colors duration-200"
-                    title="Share Report"
+                    title={t('reports.share')}
                   >
                     <Share2 className="h-5 w-5" />
                   </button>
@@ -140,13 +105,13 @@ export function SessionReportModal({ isOpen, onClose, report }: SessionReportMod
                         onClick={() => handleExport('json')}
                         className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-t-lg"
                       >
-                        Export as JSON
+                        {t('reports.exportJson')}
                       </button>
                       <button
                         onClick={() => handleExport('text')}
                         className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-b-lg"
                       >
-                        Export as Text
+                        {t('reports.exportText')}
                       </button>
                     </div>
                   </div>
@@ -167,7 +132,7 @@ export function SessionReportModal({ isOpen, onClose, report }: SessionReportMod
                 <div>
                   <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4 flex items-center space-x-2">
                     <Clock className="h-6 w-6 text-blue-600" />
-                    <span>Session Overview</span>
+                    <span>{t('reports.overview')}</span>
                   </h3>
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4">
@@ -176,7 +141,7 @@ export function SessionReportModal({ isOpen, onClose, report }: SessionReportMod
                           <Clock className="h-5 w-5 text-blue-600 dark:text-blue-400" />
                         </div>
                         <div>
-                          <p className="text-sm text-gray-600 dark:text-gray-400">Duration</p>
+                          <p className="text-sm text-gray-600 dark:text-gray-400">{t('reports.duration')}</p>
                           <p className="text-lg font-semibold text-gray-900 dark:text-white">
                             {report.report_data.duration_formatted}
                           </p>
@@ -190,9 +155,9 @@ export function SessionReportModal({ isOpen, onClose, report }: SessionReportMod
                           <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400" />
                         </div>
                         <div>
-                          <p className="text-sm text-gray-600 dark:text-gray-400">Quality</p>
-                          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getQualityColor(report.insights.session_quality)}`}>
-                            {report.insights.session_quality}
+                          <p className="text-sm text-gray-600 dark:text-gray-400">{t('reports.quality')}</p>
+                          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getQualityColor(engagement.session_quality)}`}>
+                            {t(RATING_LABELS[engagement.session_quality])}
                           </span>
                         </div>
                       </div>
@@ -204,9 +169,9 @@ export function SessionReportModal({ isOpen, onClose, report }: SessionReportMod
                           <TrendingUp className="h-5 w-5 text-purple-600 dark:text-purple-400" />
                         </div>
                         <div>
-                          <p className="text-sm text-gray-600 dark:text-gray-400">Engagement</p>
-                          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getEngagementColor(report.insights.engagement_level)}`}>
-                            {report.insights.engagement_level}
+                          <p className="text-sm text-gray-600 dark:text-gray-400">{t('reports.engagement')}</p>
+                          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getEngagementColor(engagement.engagement_level)}`}>
+                            {t(RATING_LABELS[engagement.engagement_level])}
                           </span>
                         </div>
                       </div>
@@ -218,47 +183,55 @@ export function SessionReportModal({ isOpen, onClose, report }: SessionReportMod
                 <div>
                   <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4 flex items-center space-x-2">
                     <Heart className="h-6 w-6 text-pink-600" />
-                    <span>Mood Analysis</span>
+                    <span>{t('reports.moodAnalysis')}</span>
                   </h3>
                   <div className="bg-gradient-to-br from-pink-50 to-purple-50 dark:from-pink-900/20 dark:to-purple-900/20 rounded-xl p-6 border border-pink-100 dark:border-pink-800">
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                       <div className="space-y-4">
                         <div>
-                          <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Overall Sentiment</p>
+                          <p className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('reports.overallSentiment')}</p>
                           <p className="text-lg font-semibold text-pink-700 dark:text-pink-400 capitalize">
-                            {report.mood_analysis.overall_sentiment}
+                            {t(RATING_LABELS[mood.overall])}
                           </p>
                         </div>
                         <div>
-                          <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Emotional State</p>
+                          <p className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('reports.emotionalState')}</p>
                           <p className="text-lg font-semibold text-purple-700 dark:text-purple-400 capitalize">
-                            {report.mood_analysis.emotional_state}
+                            {mood.emotional_state ? t(RATING_LABELS[mood.emotional_state]) : t('reports.notAssessed')}
                           </p>
                         </div>
                       </div>
                       <div className="space-y-4">
                         <div>
-                          <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Stress Indicators</p>
+                          <p className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('reports.stressIndicators')}</p>
                           <p className="text-lg font-semibold text-blue-700 dark:text-blue-400 capitalize">
-                            {report.mood_analysis.stress_indicators}
+                            {t(RATING_LABELS[mood.stress_level])}
                           </p>
                         </div>
                         <div>
-                          <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Confidence Score</p>
+                          <p className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('reports.confidenceScore')}</p>
                           <div className="flex items-center space-x-2">
                             <div className="flex-1 bg-gray-200 dark:bg-gray-700 rounded-full h-2">
                               <div 
                                 className="bg-gradient-to-r from-pink-500 to-purple-600 h-2 rounded-full"
-                                style={{ width: `${report.mood_analysis.confidence_score * 100}%` }}
+                                style={{ width: `${report.report.confidence * 100}%` }}
                               />
                             </div>
                             <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">
-                              {(report.mood_analysis.confidence_score * 100).toFixed(0)}%
+                              {(report.report.confidence * 100).toFixed(0)}%
                             </span>
                           </div>
                         </div>
                       </div>
                     </div>
+                    {report.report.summary && (
+                      <p className="mt-6 text-gray-700 dark:text-gray-300">{report.report.summary}</p>
+                    )}
+                    {report.report.method === 'heuristic' && (
+                      <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+                        {t('reports.heuristic')}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -266,24 +239,24 @@ export function SessionReportModal({ isOpen, onClose, report }: SessionReportMod
                 <div>
                   <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4 flex items-center space-x-2">
                     <BarChart3 className="h-6 w-6 text-blue-600" />
-                    <span>Engagement Metrics</span>
+                    <span>{t('reports.engagementMetrics')}</span>
                   </h3>
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                     <div className="bg-blue-50 dark:bg-blue-900/20 rounded-xl p-4 border border-blue-200 dark:border-blue-800">
                       <div className="text-center">
                         <p className="text-2xl font-bold text-blue-700 dark:text-blue-400">
-                          {report.engagement_metrics.total_interactions}
+                          {engagement.interaction_count}
                         </p>
-                        <p className="text-sm text-blue-600 dark:text-blue-300">Total Interactions</p>
+                        <p className="text-sm text-blue-600 dark:text-blue-300">{t('reports.totalInteractions')}</p>
                       </div>
                     </div>
                     
                     <div className="bg-green-50 dark:bg-green-900/20 rounded-xl p-4 border border-green-200 dark:border-green-800">
                       <div className="text-center">
                         <p className="text-2xl font-bold text-green-700 dark:text-green-400">
-                          {report.engagement_metrics.session_completion_rate}%
+                          {engagement.completion_rate}%
                         </p>
-                        <p className="text-sm text-green-600 dark:text-green-300">Completion Rate</p>
+                        <p className="text-sm text-green-600 dark:text-green-300">{t('reports.completionRate')}</p>
                       </div>
                     </div>
                     
@@ -291,11 +264,11 @@ export function SessionReportModal({ isOpen, onClose, report }: SessionReportMod
                       <div className="text-center">
                         <div className="flex items-center justify-center space-x-1">
                           <p className="text-2xl font-bold text-yellow-700 dark:text-yellow-400">
-                            {report.engagement_metrics.user_satisfaction_score}
+                            {engagement.user_satisfaction_score ?? '—'}
                           </p>
                           <Star className="h-5 w-5 text-yellow-500" />
                         </div>
-                        <p className="text-sm text-yellow-600 dark:text-yellow-300">User Satisfaction</p>
+                        <p className="text-sm text-yellow-600 dark:text-yellow-300">{t('reports.userSatisfaction')}</p>
                       </div>
                     </div>
                     
@@ -303,11 +276,11 @@ export function SessionReportModal({ isOpen, onClose, report }: SessionReportMod
                       <div className="text-center">
                         <div className="flex items-center justify-center space-x-1">
                           <p className="text-2xl font-bold text-purple-700 dark:text-purple-400">
-                            {report.engagement_metrics.ai_response_quality}
+                            {engagement.ai_response_quality ?? '—'}
                           </p>
                           <Brain className="h-5 w-5 text-purple-500" />
                         </div>
-                        <p className="text-sm text-purple-600 dark:text-purple-300">AI Quality</p>
+                        <p className="text-sm text-purple-600 dark:text-purple-300">{t('reports.aiQuality')}</p>
                       </div>
                     </div>
                   </div>
@@ -317,36 +290,36 @@ export function SessionReportModal({ isOpen, onClose, report }: SessionReportMod
                 <div>
                   <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4 flex items-center space-x-2">
                     <Target className="h-6 w-6 text-green-600" />
-                    <span>Technical Performance</span>
+                    <span>{t('reports.technicalPerformance')}</span>
                   </h3>
                   <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-6">
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                       <div className="text-center">
                         <div className="flex items-center justify-center space-x-2 mb-2">
-                          {report.insights.technical_issues === 0 ? (
+                          {engagement.technical_issues === 0 ? (
                             <CheckCircle className="h-6 w-6 text-green-600" />
                           ) : (
                             <AlertTriangle className="h-6 w-6 text-yellow-600" />
                           )}
                           <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                            {report.insights.technical_issues}
+                            {engagement.technical_issues}
                           </p>
                         </div>
-                        <p className="text-sm text-gray-600 dark:text-gray-400">Technical Issues</p>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">{t('reports.technicalIssues')}</p>
                       </div>
                       
                       <div className="text-center">
                         <p className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
-                          {report.engagement_metrics.average_response_time}
+                          {engagement.average_response_time ?? '—'}
                         </p>
-                        <p className="text-sm text-gray-600 dark:text-gray-400">Avg Response Time</p>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">{t('reports.avgResponseTime')}</p>
                       </div>
                       
                       <div className="text-center">
                         <p className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
                           {report.report_data.analytics_events.length}
                         </p>
-                        <p className="text-sm text-gray-600 dark:text-gray-400">Analytics Events</p>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">{t('reports.analyticsEvents')}</p>
                       </div>
                     </div>
                   </div>
@@ -356,11 +329,11 @@ export function SessionReportModal({ isOpen, onClose, report }: SessionReportMod
                 <div>
                   <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4 flex items-center space-x-2">
                     <Lightbulb className="h-6 w-6 text-yellow-600" />
-                    <span>Recommendations</span>
+                    <span>{t('reports.recommendations')}</span>
                   </h3>
                   <div className="bg-gradient-to-br from-yellow-50 to-orange-50 dark:from-yellow-900/20 dark:to-orange-900/20 rounded-xl p-6 border border-yellow-200 dark:border-yellow-800">
                     <div className="space-y-3">
-                      {report.recommendations.map((recommendation, index) => (
+                      {report.report.recommendations.map((recommendation, index) => (
                         <div key={index} className="flex items-start space-x-3">
                           <div className="flex-shrink-0 w-6 h-6 bg-yellow-500 text-white rounded-full flex items-center justify-center text-sm font-semibold">
                             {index + 1}
@@ -376,28 +349,28 @@ export function SessionReportModal({ isOpen, onClose, report }: SessionReportMod
                 <div>
                   <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4 flex items-center space-x-2">
                     <Calendar className="h-6 w-6 text-indigo-600" />
-                    <span>Session Timeline</span>
+                    <span>{t('reports.timeline')}</span>
                   </h3>
                   <div className="bg-indigo-50 dark:bg-indigo-900/20 rounded-xl p-6 border border-indigo-200 dark:border-indigo-800">
                     <div className="space-y-3">
                       <div className="flex items-center justify-between">
-                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Started:</span>
+                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('reports.started')}</span>
                         <span className="text-sm text-gray-600 dark:text-gray-400">
-                          {new Date(report.report_data.started_at).toLocaleString()}
+                          {formatDate(report.report_data.started_at, 'PPp')}
                         </span>
                       </div>
                       {report.report_data.ended_at && (
                         <div className="flex items-center justify-between">
-                          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Ended:</span>
+                          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('reports.ended')}</span>
                           <span className="text-sm text-gray-600 dark:text-gray-400">
-                            {new Date(report.report_data.ended_at).toLocaleString()}
+                            {formatDate(report.report_data.ended_at, 'PPp')}
                           </span>
                         </div>
                       )}
                       <div className="flex items-center justify-between">
-                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Report Generated:</span>
+                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('reports.reportGenerated')}</span>
                         <span className="text-sm text-gray-600 dark:text-gray-400">
-                          {new Date(report.generated_at).toLocaleString()}
+                          {formatDate(report.generated_at, 'PPp')}
                         </span>
                       </div>
                     </div>
@@ -0,0 +1,131 @@
+import { motion, AnimatePresence } from 'framer-motion';
+import { Heart, Phone, MessageSquare, ExternalLink, AlertTriangle } from 'lucide-react';
+import { useI18n } from '../../hooks/useI18n';
+import type { CrisisRegion } from '../../lib/safety';
+
+interface CrisisResourcesModalProps {
+  isOpen: boolean;
+  region: CrisisRegion;
+  onClose: () => void;
+}
+
+const toTelHref = (number: string) => `tel:${number.replace(/\s+/g, '')}`;
+const toSmsHref = (number: string) => `sms:${number.replace(/\s+/g, '')}`;
+
+export function CrisisResourcesModal({ isOpen, region, onClose }: CrisisResourcesModalProps) {
+  const { t } = useI18n();
+  const hasEmergencyNumber = /\d/.test(region.emergencyNumber);
+  const [beforeNumber, afterNumber] = t('crisis.immediateDanger').split('{number}');
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="crisis-resources-title"
+        >
+          <motion.div
+            initial={{ scale: 0.95 }}
+            animate={{ scale: 1 }}
+            exit={{ scale: 0.95 }}
+            className="bg-white dark:bg-gray-800 rounded-2xl p-6 max-w-lg w-full max-h-[85vh] overflow-y-auto"
+          >
+            <div className="flex items-center space-x-3 mb-4">
+              <div className="w-10 h-10 bg-pink-100 dark:bg-pink-900/30 rounded-full flex items-center justify-center flex-shrink-0">
+                <Heart className="h-5 w-5 text-pink-600 dark:text-pink-400" />
+              </div>
+              <h3 id="crisis-resources-title" className="text-xl font-bold text-gray-900 dark:text-white">
+                {t('crisis.title')}
+              </h3>
+            </div>
+
+            <p className="text-gray-600 dark:text-gray-300 mb-4">
+              {t('crisis.intro')}
+            </p>
+
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4 mb-4 flex items-start space-x-3">
+              <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400 mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-red-800 dark:text-red-300">
+                {beforeNumber}
+                {hasEmergencyNumber ? (
+                  <a href={toTelHref(region.emergencyNumber)} className="font-bold underline">
+                    {region.emergencyNumber}
+                  </a>
+                ) : (
+                  <strong>{t('crisis.localEmergencyNumber')}</strong>
+                )}
+                {afterNumber}
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              {region.resources.map((resource) => (
+                <div
+                  key={resource.name}
+                  className="border border-gray-200 dark:border-gray-700 rounded-xl p-4"
+                >
+                  <p className="font-semibold text-gray-900 dark:text-white">{resource.name}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">{t(resource.description)}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {resource.phone && (
+                      <a
+                        href={toTelHref(resource.phone)}
+                        className="bg-purple-600 hover:bg-purple-700 text-white px-3 py-2 rounded-lg text-sm font-medium transition-colors duration-200 flex items-center space-x-2"
+                      >
+                        <Phone className="h-4 w-4" />
+                        <span>{t('crisis.call', { number: resource.phone })}</span>
+                      </a>
+                    )}
+                    {resource.sms && (
+                      <a
+                        href={toSmsHref(resource.sms)}
+                        className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-lg text-sm font-medium transition-colors duration-200 flex items-center space-x-2"
+                      >
+                        <MessageSquare className="h-4 w-4" />
+                        <span>{t('crisis.text', { number: resource.sms })}</span>
+                      </a>
+                    )}
+                    {resource.url && (
+                      <a
+                        href={resource.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-200 px-3 py-2 rounded-lg text-sm font-medium transition-colors duration-200 flex items-center space-x-2"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                        <span>{t('crisis.website')}</span>
+                      </a>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {region.code !== 'INTL' && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+                {t('crisis.showingFor', { region: t(region.label) })}{' '}
+                <a href="https://findahelpline.com" target="_blank" rel="noopener noreferrer" className="underline">
+                  {t('crisis.findHelpline')}
+                </a>
+              </p>
+            )}
+
+            <div className="flex justify-end mt-6">
+              <button
+                onClick={onClose}
+                className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-lg transition-colors duration-200"
+              >
+                {t('crisis.understand')}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,81 @@
+import { motion, AnimatePresence } from 'framer-motion';
+import { Trash2 } from 'lucide-react';
+import { useConsentPurge } from '../../hooks/useConsentPurge';
+import { useI18n } from '../../hooks/useI18n';
+import { CONSENT_PURGES } from '../../lib/consent';
+import type { ConsentKey } from '../../lib/consent';
+
+interface ConsentPurgePromptProps {
+  // The toggle that was just turned off, or null when closed
+  consentKey: ConsentKey | null;
+  onClose: () => void;
+}
+
+// Offered after a privacy toggle is turned off: new data has already
+// stopped, this removes what was collected before
+export function ConsentPurgePrompt({ consentKey, onClose }: ConsentPurgePromptProps) {
+  const { t } = useI18n();
+  const { purge, purging } = useConsentPurge();
+  const info = consentKey ? CONSENT_PURGES[consentKey] : undefined;
+
+  const handlePurge = async () => {
+    if (!info) return;
+    if (await purge(info.key)) onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {info && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="consent-purge-title"
+        >
+          <motion.div
+            initial={{ scale: 0.95 }}
+            animate={{ scale: 1 }}
+            exit={{ scale: 0.95 }}
+            className="bg-white dark:bg-gray-800 rounded-2xl p-6 max-w-md w-full space-y-4"
+          >
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-red-100 dark:bg-red-900/30 rounded-full flex items-center justify-center flex-shrink-0">
+                <Trash2 className="h-5 w-5 text-red-600 dark:text-red-400" />
+              </div>
+              <h3 id="consent-purge-title" className="text-xl font-bold text-gray-900 dark:text-white">
+                {t(info.title)}
+              </h3>
+            </div>
+
+            <p className="text-gray-600 dark:text-gray-300">
+              {t('consent.stopped')}
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('consent.permanent', { description: t(info.description) })}</p>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={purging}
+                className="px-4 py-2 rounded-lg font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                {t('consent.keep')}
+              </button>
+              <button
+                type="button"
+                onClick={handlePurge}
+                disabled={purging}
+                className="bg-red-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-red-700 disabled:opacity-50"
+              >
+                {purging ? t('consent.deleting') : t('consent.deleteNow')}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertTriangle, Clock, Trash2, UserX } from 'lucide-react';
+import { useDataDeletion } from '../../hooks/useDataDeletion';
+import { useI18n } from '../../hooks/useI18n';
+import { DELETION_SCOPES, WIPE_SCOPES, matchesDeletionPhrase } from '../../lib/dataDeletion';
+import type { DeletionScope, DeletionScopeInfo } from '../../lib/dataDeletion';
+
+export function DataDeletion() {
+  const { t, formatDate } = useI18n();
+  const { pendingFor, requestDeletion, cancelDeletion } = useDataDeletion();
+  const [confirming, setConfirming] = useState<DeletionScope | null>(null);
+  const [typed, setTyped] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const info = confirming ? DELETION_SCOPES[confirming] : null;
+  const phraseMatches = !!confirming && matchesDeletionPhrase(confirming, typed);
+
+  const graceText = ({ unit, count }: DeletionScopeInfo['grace']) =>
+    t(unit === 'hours' ? 'deletion.hours' : 'deletion.days', { count });
+
+  // The phrase stays in English, so it is set in bold inside the translated sentence
+  const [beforePhrase, afterPhrase] = t('deletion.typeToConfirm').split('{phrase}');
+
+  const close = () => {
+    setConfirming(null);
+    setTyped('');
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirming || !phraseMatches || working) return;
+    setWorking(true);
+    if (await requestDeletion(confirming, typed)) close();
+    setWorking(false);
+  };
+
+  const handleCancel = async (requestId: string) => {
+    setWorking(true);
+    await cancelDeletion(requestId);
+    setWorking(false);
+  };
+
+  const renderScope = (scope: DeletionScope) => {
+    const { title, description, grace } = DELETION_SCOPES[scope];
+    const pending = pendingFor(scope);
+    const isAccount = scope === 'account';
+
+    return (
+      <div key={scope} className="flex items-center justify-between gap-4">
+        <div>
+          <p className="font-medium text-gray-900 dark:text-white">{t(title)}</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t(description)}</p>
+          {pending && (
+            <p className="text-sm text-red-600 dark:text-red-400 mt-1 flex items-center space-x-1">
+              <Clock className="h-3.5 w-3.5 flex-shrink-0" />
+              <span>{t('deletion.scheduledFor', { date: formatDate(pending.execute_after, 'PPp') })}</span>
+            </p>
+          )}
+        </div>
+        {pending ? (
+          <button
+            onClick={() => handleCancel(pending.id)}
+            disabled={working}
+            className="flex-shrink-0 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-4 py-2 rounded-lg font-medium hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            {t('common.cancel')}
+          </button>
+        ) : (
+          <button
+            onClick={() => setConfirming(scope)}
+            title={t('deletion.runsAfter', { grace: graceText(grace) })}
+            className={`flex-shrink-0 flex items-center space-x-2 px-4 py-2 rounded-lg font-medium transition-colors duration-200 ${
+              isAccount
+                ? 'bg-red-600 text-white hover:bg-red-700'
+                : 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 hover:bg-red-100 dark:hover:bg-red-900/40'
+            }`}
+          >
+            {isAccount ? <UserX className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+            <span>{t('deletion.delete')}</span>
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">{t('deletion.title')}</h3>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        {t('deletion.intro')}
+      </p>
+
+      <div className="space-y-4">
+        {WIPE_SCOPES.map(renderScope)}
+        <div className="border-t border-red-200 dark:border-red-900/50 pt-4">
+          {renderScope('account')}
+        </div>
+      </div>
+
+      <AnimatePresence>
+        {info && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="data-deletion-title"
+          >
+            <motion.form
+              onSubmit={handleConfirm}
+              initial={{ scale: 0.95 }}
+              animate={{ scale: 1 }}
+              exit={{ scale: 0.95 }}
+              className="bg-white dark:bg-gray-800 rounded-2xl p-6 max-w-md w-full space-y-4"
+            >
+              <div className="flex items-center space-x-3">
+                <div className="w-10 h-10 bg-red-100 dark:bg-red-900/30 rounded-full flex items-center justify-center flex-shrink-0">
+                  <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400" />
+                </div>
+                <h3 id="data-deletion-title" className="text-xl font-bold text-gray-900 dark:text-white">
+                  {t('deletion.confirmTitle', { title: t(info.title) })}
+                </h3>
+              </div>
+
+              <p className="text-gray-600 dark:text-gray-300">{t(info.description)}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {t(info.scope === 'account' ? 'deletion.runsInAccount' : 'deletion.runsIn', { grace: graceText(info.grace) })}
+              </p>
+
+              <label className="block">
+                <span className="text-sm text-gray-700 dark:text-gray-300">
+                  {beforePhrase}<strong className="font-mono">{info.phrase}</strong>{afterPhrase}
+                </span>
+                <input
+                  type="text"
+                  value={typed}
+                  onChange={(e) => setTyped(e.target.value)}
+                  autoFocus
+                  autoComplete="off"
+                  spellCheck={false}
+                  className="mt-1 w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono"
+                />
+              </label>
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={close}
+                  className="px-4 py-2 rounded-lg font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  {t('deletion.keep')}
+                </button>
+                <button
+                  type="submit"
+                  disabled={!phraseMatches || working}
+                  className="bg-red-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-red-700 disabled:opacity-50"
+                >
+                  {working ? t('deletion.scheduling') : t('deletion.schedule')}
+                </button>
+              </div>
+            </motion.form>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { motion } from 'framer-motion';
+import { Download, Lock } from 'lucide-react';
+import { useDataExport } from '../../hooks/useDataExport';
+import { useEncryption } from '../../hooks/useEncryption';
+import { useI18n } from '../../hooks/useI18n';
+import type { ExportProgress } from '../../lib/export';
+import type { MessageKey } from '../../lib/i18n';
+
+interface DataExportProps {
+  onUnlock: () => void;
+}
+
+const STAGE_LABELS: Record<ExportProgress['stage'], MessageKey> = {
+  fetching: 'export.fetching',
+  decrypting: 'export.decrypting',
+  packaging: 'export.packaging',
+};
+
+export function DataExport({ onUnlock }: DataExportProps) {
+  const { t } = useI18n();
+  const { progress, exporting, exportAllData } = useDataExport();
+  const { keyStatus } = useEncryption();
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">{t('export.title')}</h3>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        {t('export.intro')}
+      </p>
+
+      {keyStatus === 'locked' && (
+        <p className="text-sm text-yellow-700 dark:text-yellow-300 mb-4 flex items-center space-x-2">
+          <Lock className="h-4 w-4 flex-shrink-0" />
+          <span>
+            {t('export.locked')}{' '}
+            <button onClick={onUnlock} className="underline font-medium">{t('export.unlockFirst')}</button>
+          </span>
+        </p>
+      )}
+
+      {progress ? (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm text-gray-600 dark:text-gray-300">
+            <span>
+              {t(STAGE_LABELS[progress.stage], {
+                table: progress.table ? progress.table.replace(/_/g, ' ') : t('export.archive'),
+              })}
+            </span>
+            <span>{t('export.progress', { completed: progress.completed, total: progress.total })}</span>
+          </div>
+          <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <motion.div
+              className="h-full bg-gradient-to-r from-purple-600 to-blue-600"
+              animate={{ width: `${(progress.completed / progress.total) * 100}%` }}
+              transition={{ duration: 0.3 }}
+            />
+          </div>
+        </div>
+      ) : (
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={exportAllData}
+          disabled={exporting}
+          className="flex items-center space-x-2 bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 px-4 py-2 rounded-lg font-medium hover:bg-purple-200 dark:hover:bg-purple-900/50 transition-colors duration-200 disabled:opacity-50"
+        >
+          <Download className="h-4 w-4" />
+          <span>{t('export.download')}</span>
+        </motion.button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, CheckCircle, Copy, FileUp, XCircle } from 'lucide-react';
+import { useDataImport } from '../../hooks/useDataImport';
+import { useI18n } from '../../hooks/useI18n';
+import { formatDate, t as translate } from '../../lib/i18n';
+import { IMPORT_FIELDS, IMPORT_FORMATS, guessMapping, missingFields, readCsvTable } from '../../lib/import';
+import type { ColumnMapping, ImportFormat, ImportPreview } from '../../lib/import';
+
+const selectClass = 'w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+const buttonClass = 'bg-gradient-to-r from-purple-600 to-blue-600 text-white px-5 py-2 rounded-lg font-semibold disabled:opacity-50';
+
+// Enough to check the mapping looks right without rendering thousands of rows
+const PREVIEW_ROWS = 50;
+
+// Called while rendering, so the current language is the one on screen
+const describeRow = (preview: ImportPreview, index: number): string => {
+  if (preview.kind === 'mood') {
+    const record = preview.rows[index].record;
+    if (!record) return '';
+    const activities = record.activities.length > 0 ? ` · ${record.activities.join(translate('common.listSeparator'))}` : '';
+    const date = formatDate(record.created_at, 'PPp');
+    return `${record.emoji} ${translate('import.moodRow', { mood: record.mood, date })}${activities}`;
+  }
+  const record = preview.rows[index].record;
+  if (!record) return '';
+  const due = record.due_date ? ` · ${translate('import.due', { date: formatDate(record.due_date, 'PP') })}` : '';
+  const done = record.completed ? ` · ${translate('import.done')}` : '';
+  return `${record.parent_line !== null ? '↳ ' : ''}${record.title}${due}${done}`;
+};
+
+export function DataImport() {
+  const { t } = useI18n();
+  const { preview, previewing, progress, importing, result, buildPreview, runImport, reset } = useDataImport();
+  const [importFormat, setImportFormat] = useState<ImportFormat>('daylio');
+  const [file, setFile] = useState<File | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [moodScale, setMoodScale] = useState<5 | 10>(10);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+
+  const info = IMPORT_FORMATS[importFormat];
+  const missing = info.mapped ? missingFields(info.kind, mapping) : [];
+  const rowLabel = (line: number) => t(importFormat === 'ics' ? 'import.item' : 'import.line', { line });
+
+  const startOver = () => {
+    reset();
+    setFile(null);
+    setHeaders([]);
+    setMapping({});
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0] ?? null;
+    e.target.value = '';
+    if (!chosen) return;
+    setFile(chosen);
+    reset();
+
+    if (info.mapped) {
+      const columns = readCsvTable(await chosen.text()).headers;
+      setHeaders(columns);
+      setMapping(guessMapping(info.kind, columns));
+    } else {
+      await buildPreview(chosen, importFormat);
+    }
+  };
+
+  const handlePreview = () => {
+    if (!file || missing.length > 0) return;
+    buildPreview(file, importFormat, { mapping, moodScale });
+  };
+
+  const counts = preview && {
+    ready: preview.rows.filter(row => row.record && !row.duplicate).length,
+    duplicates: preview.rows.filter(row => row.duplicate).length,
+    errors: preview.rows.filter(row => row.error).length,
+  };
+  const toImport = counts ? counts.ready + (skipDuplicates ? 0 : counts.duplicates) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">{t('import.title')}</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {t('import.intro')}
+        </p>
+      </div>
+
+      {result ? (
+        <div className="space-y-4">
+          <div className="flex items-start space-x-3">
+            <CheckCircle className="h-6 w-6 text-green-500 mt-0.5" />
+            <div>
+              <p className="font-medium text-gray-900 dark:text-white">
+                {t('import.imported', { inserted: result.inserted, total: result.inserted + result.failed.length })}
+              </p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {t('import.skipped', { count: result.skipped })}
+              </p>
+            </div>
+          </div>
+          {result.failed.length > 0 && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4 max-h-60 overflow-y-auto">
+              <p className="text-sm font-medium text-red-800 dark:text-red-300 mb-2">{t('import.failedRows')}</p>
+              <ul className="space-y-1 text-sm text-red-700 dark:text-red-300">
+                {result.failed.map(failure => (
+                  <li key={failure.line}>{rowLabel(failure.line)}: {failure.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <button onClick={startOver} className={buttonClass}>{t('import.another')}</button>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {Object.values(IMPORT_FORMATS).map(option => (
+              <button
+                key={option.format}
+                onClick={() => {
+                  setImportFormat(option.format);
+                  startOver();
+                }}
+                disabled={previewing || importing}
+                className={`text-left p-4 rounded-xl border-2 transition-colors duration-200 ${
+                  importFormat === option.format
+                    ? 'border-purple-500 bg-purple-50 dark:bg-purple-900/20'
+                    : 'border-gray-200 dark:border-gray-700 hover:border-purple-300'
+                }`}
+              >
+                <p className="font-medium text-gray-900 dark:text-white">
+                  {t(option.label)}
+                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                    {t(option.kind === 'mood' ? 'import.kindMood' : 'import.kindTask')}
+                  </span>
+                </p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{t(option.description)}</p>
+              </button>
+            ))}
+          </div>
+
+          <label className="inline-flex items-center space-x-2 bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 px-4 py-2 rounded-lg font-medium hover:bg-purple-200 dark:hover:bg-purple-900/50 transition-colors duration-200 cursor-pointer">
+            <FileUp className="h-4 w-4" />
+            <span>{file ? t('import.chooseAnother', { name: file.name }) : t('import.chooseFile', { type: info.accept.split(',')[0] })}</span>
+            <input type="file" accept={info.accept} onChange={handleFile} disabled={previewing || importing} className="sr-only" />
+          </label>
+
+          {info.mapped && file && headers.length > 0 && !preview && (
+            <div className="space-y-3 max-w-xl">
+              <h4 className="font-medium text-gray-900 dark:text-white">{t('import.matchColumns')}</h4>
+              {IMPORT_FIELDS[info.kind].map(field => (
+                <div key={field.key} className="grid grid-cols-3 items-center gap-3">
+                  <span className="text-sm text-gray-700 dark:text-gray-300">
+                    {t(field.label)}{field.required ? ' *' : ''}
+                  </span>
+                  <select
+                    value={mapping[field.key] ?? ''}
+                    onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value || undefined })}
+                    className={`${selectClass} col-span-2`}
+                  >
+                    <option value="">{t('import.notInFile')}</option>
+                    {headers.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              {info.kind === 'mood' && (
+                <div className="grid grid-cols-3 items-center gap-3">
+                  <span className="text-sm text-gray-700 dark:text-gray-300">{t('import.moodRatings')}</span>
+                  <select
+                    value={moodScale}
+                    onChange={(e) => setMoodScale(Number(e.target.value) as 5 | 10)}
+                    className={`${selectClass} col-span-2`}
+                  >
+                    <option value={10}>{t('import.scale', { max: 10 })}</option>
+                    <option value={5}>{t('import.scale', { max: 5 })}</option>
+                  </select>
+                </div>
+              )}
+              {missing.length > 0 && (
+                <p className="text-sm text-red-500">
+                  {t('import.chooseColumn', { fields: missing.map(field => t(field.label)).join(t('common.listSeparator')) })}
+                </p>
+              )}
+              <button onClick={handlePreview} disabled={missing.length > 0 || previewing} className={buttonClass}>
+                {previewing ? t('import.reading') : t('import.preview')}
+              </button>
+            </div>
+          )}
+
+          {previewing && !info.mapped && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('import.readingFile', { name: file?.name ?? '' })}</p>
+          )}
+
+          {preview && counts && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-3 text-sm">
+                <span className="flex items-center space-x-1 text-green-700 dark:text-green-300">
+                  <CheckCircle className="h-4 w-4" /><span>{t('import.ready', { count: counts.ready })}</span>
+                </span>
+                <span className="flex items-center space-x-1 text-yellow-700 dark:text-yellow-300">
+                  <Copy className="h-4 w-4" /><span>{t('import.duplicates', { count: counts.duplicates })}</span>
+                </span>
+                <span className="flex items-center space-x-1 text-red-600 dark:text-red-400">
+                  <XCircle className="h-4 w-4" /><span>{t('import.unreadable', { count: counts.errors })}</span>
+                </span>
+              </div>
+
+              <div className="border border-gray-200 dark:border-gray-700 rounded-xl max-h-80 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+                {preview.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                  <div key={row.line} className="px-4 py-2 text-sm flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <span className="text-gray-400 dark:text-gray-500 mr-2">{rowLabel(row.line)}</span>
+                      <span className="text-gray-900 dark:text-white">{row.error ?? describeRow(preview, index)}</span>
+                      {row.warning && (
+                        <p className="text-xs text-yellow-700 dark:text-yellow-300 flex items-center space-x-1">
+                          <AlertTriangle className="h-3 w-3 flex-shrink-0" /><span>{row.warning}</span>
+                        </p>
+                      )}
+                    </div>
+                    <span className={`flex-shrink-0 text-xs font-medium ${
+                      row.error ? 'text-red-600 dark:text-red-400' : row.duplicate ? 'text-yellow-700 dark:text-yellow-300' : 'text-green-700 dark:text-green-300'
+                    }`}>
+                      {t(row.error ? 'import.statusError' : row.duplicate ? 'import.statusDuplicate' : 'import.statusReady')}
+                    </span>
+                  </div>
+                ))}
+                {preview.rows.length > PREVIEW_ROWS && (
+                  <p className="px-4 py-2 text-sm text-gray-500 dark:text-gray-400">
+                    {t('import.more', { count: preview.rows.length - PREVIEW_ROWS })}
+                  </p>
+                )}
+              </div>
+
+              {counts.duplicates > 0 && (
+                <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={skipDuplicates}
+                    onChange={(e) => setSkipDuplicates(e.target.checked)}
+                    className="rounded text-purple-600 focus:ring-purple-500"
+                  />
+                  <span>{t('import.skipDuplicates')}</span>
+                </label>
+              )}
+
+              {progress ? (
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm text-gray-600 dark:text-gray-300">
+                    <span>{t('import.importing')}</span>
+                    <span>{t('import.progress', { done: progress.done, total: progress.total })}</span>
+                  </div>
+                  <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <motion.div
+                      className="h-full bg-gradient-to-r from-purple-600 to-blue-600"
+                      animate={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                      transition={{ duration: 0.3 }}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="flex space-x-3">
+                  <button onClick={() => runImport(skipDuplicates)} disabled={toImport === 0} className={buttonClass}>
+                    {t(info.kind === 'mood' ? 'import.importEntries' : 'import.importTasks', { count: toImport })}
+                  </button>
+                  <button
+                    onClick={startOver}
+                    className="px-4 py-2 rounded-lg font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { KeyRound, Lock, ShieldCheck } from 'lucide-react';
+import { useEncryption } from '../../hooks/useEncryption';
+import { useI18n } from '../../hooks/useI18n';
+import { MIN_PASSPHRASE_LENGTH, passphraseProblem } from '../../lib/encryption';
+import { RecoveryCodeNotice } from '../encryption/RecoveryCodeNotice';
+import { UnlockPanel } from '../encryption/UnlockPanel';
+
+const inputClass = 'w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+const buttonClass = 'bg-gradient-to-r from-purple-600 to-blue-600 text-white px-5 py-2 rounded-lg font-semibold disabled:opacity-50';
+
+export function EncryptionSettings() {
+  const { t } = useI18n();
+  const { keyStatus, setupPassphrase, lock, changePassphrase, regenerateRecoveryCode } = useEncryption();
+  const [passphrase, setPassphrase] = useState('');
+  const [nextPassphrase, setNextPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [codePassphrase, setCodePassphrase] = useState('');
+  const [working, setWorking] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+
+  // The setup form uses `nextPassphrase` for the new passphrase too
+  const problem = passphraseProblem(nextPassphrase, confirmation);
+
+  const run = async (action: () => Promise<void>) => {
+    setWorking(true);
+    await action();
+    setWorking(false);
+  };
+
+  const handleSetup = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (problem || working) return;
+    run(async () => {
+      const code = await setupPassphrase(nextPassphrase);
+      if (code) {
+        setRecoveryCode(code);
+        setNextPassphrase('');
+        setConfirmation('');
+      }
+    });
+  };
+
+  const handleChange = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (problem || !passphrase || working) return;
+    run(async () => {
+      if (await changePassphrase(passphrase, nextPassphrase)) {
+        setPassphrase('');
+        setNextPassphrase('');
+        setConfirmation('');
+      }
+    });
+  };
+
+  const handleNewCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!codePassphrase || working) return;
+    run(async () => {
+      const code = await regenerateRecoveryCode(codePassphrase);
+      if (code) {
+        setRecoveryCode(code);
+        setCodePassphrase('');
+      }
+    });
+  };
+
+  if (recoveryCode) {
+    return <RecoveryCodeNotice code={recoveryCode} onDone={() => setRecoveryCode(null)} />;
+  }
+
+  if (keyStatus === 'loading') {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  if (keyStatus === 'locked') {
+    return <UnlockPanel />;
+  }
+
+  const passphraseFields = (
+    <>
+      <input
+        type="password"
+        value={nextPassphrase}
+        onChange={(e) => setNextPassphrase(e.target.value)}
+        placeholder={t('encryption.newPassphrase', { count: MIN_PASSPHRASE_LENGTH })}
+        autoComplete="new-password"
+        className={inputClass}
+      />
+      <input
+        type="password"
+        value={confirmation}
+        onChange={(e) => setConfirmation(e.target.value)}
+        placeholder={t('encryption.confirmPassphrase')}
+        autoComplete="new-password"
+        className={inputClass}
+      />
+      {nextPassphrase && problem && <p className="text-sm text-red-500">{problem}</p>}
+    </>
+  );
+
+  if (keyStatus === 'legacy') {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">{t('encryption.setupTitle')}</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {t('encryption.setupIntro')}
+          </p>
+        </div>
+        <form onSubmit={handleSetup} className="space-y-3 max-w-md">
+          {passphraseFields}
+          <button type="submit" disabled={!!problem || working} className={buttonClass}>
+            {working ? t('encryption.settingUp') : t('encryption.setPassphrase')}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between">
+        <div className="flex items-start space-x-3">
+          <ShieldCheck className="h-6 w-6 text-green-500 mt-0.5" />
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">{t('encryption.unlockedTitle')}</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {t('encryption.unlockedHint')}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={lock}
+          className="flex items-center space-x-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-4 py-2 rounded-lg font-medium hover:bg-gray-200 dark:hover:bg-gray-600"
+        >
+          <Lock className="h-4 w-4" />
+          <span>{t('encryption.lockNow')}</span>
+        </button>
+      </div>
+
+      <form onSubmit={handleChange} className="space-y-3 max-w-md">
+        <h4 className="font-medium text-gray-900 dark:text-white">{t('encryption.changePassphrase')}</h4>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder={t('encryption.currentPassphrase')}
+          autoComplete="current-password"
+          className={inputClass}
+        />
+        {passphraseFields}
+        <button type="submit" disabled={!!problem || !passphrase || working} className={buttonClass}>
+          {working ? t('common.saving') : t('encryption.changePassphrase')}
+        </button>
+      </form>
+
+      <form onSubmit={handleNewCode} className="space-y-3 max-w-md">
+        <h4 className="font-medium text-gray-900 dark:text-white flex items-center space-x-2">
+          <KeyRound className="h-4 w-4" />
+          <span>{t('encryption.newCodeTitle')}</span>
+        </h4>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {t('encryption.newCodeHint')}
+        </p>
+        <input
+          type="password"
+          value={codePassphrase}
+          onChange={(e) => setCodePassphrase(e.target.value)}
+          placeholder={t('encryption.currentPassphrase')}
+          autoComplete="current-password"
+          className={inputClass}
+        />
+        <button type="submit" disabled={!codePassphrase || working} className={buttonClass}>
+          {working ? t('encryption.creating') : t('encryption.createCode')}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Brain, Edit3, Trash2, Check, X } from 'lucide-react';
+import { useI18n } from '../../hooks/useI18n';
+import { useMemory } from '../../hooks/useMemory';
+import { useSettings } from '../../hooks/useSettings';
+import type { MessageKey } from '../../lib/i18n';
+import { MEMORY_CATEGORIES } from '../../lib/memory';
+import type { MemoryCategory, MemoryFact } from '../../lib/memory';
+
+const categoryLabels: Record<MemoryCategory, MessageKey> = {
+  person: 'memory.categoryPerson',
+  event: 'memory.categoryEvent',
+  preference: 'memory.categoryPreference',
+  goal: 'memory.categoryGoal',
+  health: 'memory.categoryHealth',
+  other: 'memory.categoryOther',
+};
+
+export function MemorySettings() {
+  const { t, formatDate } = useI18n();
+  const { facts, loading, updateFact, deleteFact, clearAllFacts } = useMemory();
+  const { settings } = useSettings();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [editCategory, setEditCategory] = useState<MemoryCategory>('other');
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const startEditing = (fact: MemoryFact) => {
+    setEditingId(fact.id);
+    setEditContent(fact.content);
+    setEditCategory(fact.category);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || !editContent.trim()) return;
+
+    await updateFact(editingId, { content: editContent.trim(), category: editCategory });
+    setEditingId(null);
+  };
+
+  const handleClearAll = async () => {
+    await clearAllFacts();
+    setConfirmClear(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">{t('memory.title')}</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {t('memory.intro')}
+        </p>
+        {!settings.save_conversations && (
+          <p className="text-sm text-yellow-700 dark:text-yellow-400 mt-2">
+            {t('memory.savingOff')}
+          </p>
+        )}
+      </div>
+
+      {facts.length === 0 ? (
+        <div className="text-center text-gray-400 dark:text-gray-500 py-8">
+          <Brain className="h-12 w-12 mx-auto mb-4 text-gray-300 dark:text-gray-600" />
+          <p>{t('memory.empty')}</p>
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          <AnimatePresence initial={false}>
+            {facts.map((fact) => (
+              <motion.li
+                key={fact.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, x: -20 }}
+                className="border border-gray-200 dark:border-gray-700 rounded-xl p-4"
+              >
+                {editingId === fact.id ? (
+                  <form onSubmit={handleSave} className="space-y-3">
+                    <textarea
+                      value={editContent}
+                      onChange={(e) => setEditContent(e.target.value)}
+                      rows={2}
+                      maxLength={300}
+                      className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      autoFocus
+                    />
+                    <div className="flex items-center justify-between">
+                      <select
+                        value={editCategory}
+                        onChange={(e) => setEditCategory(e.target.value as MemoryCategory)}
+                        className="border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-1.5 text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      >
+                        {MEMORY_CATEGORIES.map((category) => (
+                          <option key={category} value={category}>{t(categoryLabels[category])}</option>
+                        ))}
+                      </select>
+                      <div className="flex items-center space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => setEditingId(null)}
+                          className="p-2 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                          title={t('common.cancel')}
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                        <button
+                          type="submit"
+                          disabled={!editContent.trim()}
+                          className="p-2 text-green-600 hover:text-green-700 disabled:opacity-50"
+                          title={t('memory.save')}
+                        >
+                          <Check className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  </form>
+                ) : (
+                  <div className="flex items-start justify-between space-x-4">
+                    <div className="flex-1">
+                      <p className="text-gray-900 dark:text-white">{fact.content}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        <span className="inline-block px-2 py-0.5 rounded-full bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 mr-2">
+                          {t(categoryLabels[fact.category] || categoryLabels.other)}
+                        </span>
+                        {formatDate(fact.updated_at, 'PP')}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <button
+                        onClick={() => startEditing(fact)}
+                        className="p-2 text-gray-400 hover:text-purple-600 dark:hover:text-purple-400"
+                        title={t('memory.edit')}
+                      >
+                        <Edit3 className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => deleteFact(fact.id)}
+                        className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                        title={t('memory.forget')}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </motion.li>
+            ))}
+          </AnimatePresence>
+        </ul>
+      )}
+
+      {facts.length > 0 && (
+        <div className="flex justify-end pt-4">
+          {confirmClear ? (
+            <div className="flex items-center space-x-3">
+              <span className="text-sm text-red-600 dark:text-red-400">{t('memory.confirmClear', { count: facts.length })}</span>
+              <button
+                onClick={() => setConfirmClear(false)}
+                className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleClearAll}
+                className="px-4 py-2 rounded-lg bg-red-600 hover:bg-red-700 text-white"
+              >
+                {t('memory.forgetAll')}
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => setConfirmClear(true)}
+              className="px-4 py-2 rounded-lg border border-red-300 dark:border-red-700 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors duration-200 flex items-center space-x-2"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>{t('memory.forgetAll')}</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React from 'react';
 import { motion } from 'framer-motion';
+import { useSearchParams } from 'react-router-dom';
 import { 
   User, 
   Palette, 
@@ -7,23 +8,51 @@ import {
   Save,
   Mail,
   Phone,
-  Globe
+  Globe,
+  Brain,
+  Bell,
+  Moon,
+  KeyRound,
+  Upload
 } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import { useSettings } from '../../hooks/useSettings';
+import { useI18n } from '../../hooks/useI18n';
 import { supabase } from '../../lib/supabase';
+import { getNotificationPermission, requestNotificationPermission } from '../../lib/reminders';
+import { MemorySettings } from './MemorySettings';
+import { EncryptionSettings } from './EncryptionSettings';
+import { DataExport } from './DataExport';
+import { DataDeletion } from './DataDeletion';
+import { DataImport } from './DataImport';
+import { ConsentPurgePrompt } from './ConsentPurgePrompt';
+import { CONSENT_PURGES } from '../../lib/consent';
+import { LANGUAGES } from '../../lib/i18n';
+import type { ConsentKey } from '../../lib/consent';
 import toast from 'react-hot-toast';
 
 export function Settings() {
   const { user } = useAuth();
   const { settings, updateSettings, loading } = useSettings();
-  const [activeTab, setActiveTab] = React.useState('profile');
+  const { t } = useI18n();
+  const [searchParams] = useSearchParams();
+  // Other screens can link straight to a tab, e.g. /settings?tab=encryption
+  const [activeTab, setActiveTab] = React.useState(searchParams.get('tab') || 'profile');
+  const [notificationPermission, setNotificationPermission] = React.useState(getNotificationPermission);
   const [profile, setProfile] = React.useState({
     fullName: '',
     phone: '',
     timezone: 'UTC',
   });
   const [profileLoading, setProfileLoading] = React.useState(false);
+  const [purgeOffer, setPurgeOffer] = React.useState<ConsentKey | null>(null);
+
+  // Turning a privacy toggle off stops new writes straight away, then offers
+  // to delete what was collected under it
+  const handleConsentChange = (key: ConsentKey, checked: boolean) => {
+    updateSettings({ [key]: checked });
+    if (!checked && CONSENT_PURGES[key]) setPurgeOffer(key);
+  };
 
   // Load profile data on component mount
   React.useEffect(() => {
@@ -64,7 +93,7 @@ export function Settings() {
 
   const handleSaveProfile = async () => {
     if (!user) {
-      toast.error('Please sign in to save profile');
+      toast.error(t('settings.signInToSaveProfile'));
       return;
     }
 
@@ -91,25 +120,58 @@ export function Settings() {
         if (error.code === '23505' && error.message.includes('user_settings_user_id_key')) {
           // The profile was likely saved successfully, but the trigger failed
           // because user settings already exist. This is actually a success case.
-          toast.success('Profile saved successfully!');
+          toast.success(t('settings.profileSaved'));
           return;
         }
         throw error;
       }
 
-      toast.success('Profile saved successfully!');
+      toast.success(t('settings.profileSaved'));
     } catch (error) {
       console.error('Error saving profile:', error);
-      toast.error('Failed to save profile');
+      toast.error(t('settings.profileSaveFailed'));
     } finally {
       setProfileLoading(false);
     }
   };
 
+  const enableBrowserNotifications = async () => {
+    try {
+      const permission = await requestNotificationPermission();
+      setNotificationPermission(permission);
+      if (permission === 'granted') {
+        toast.success(t('settings.notificationsEnabled'));
+      } else if (permission === 'denied') {
+        toast.error(t('settings.notificationsBlocked'));
+      }
+    } catch (error) {
+      console.error('Error requesting notification permission:', error);
+      toast.error(t('settings.notificationsFailed'));
+    }
+  };
+
+  const renderToggle = (checked: boolean, onChange: (checked: boolean) => void) => (
+    <label className="relative inline-flex items-center cursor-pointer">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="sr-only peer"
+      />
+      <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-purple-300 dark:peer-focus:ring-purple-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-purple-600"></div>
+    </label>
+  );
+
+  const timeInputClass = 'border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-50';
+
   const tabs = [
-    { id: 'profile', label: 'Profile', icon: User },
-    { id: 'preferences', label: 'Preferences', icon: Palette },
-    { id: 'privacy', label: 'Privacy', icon: Shield },
+    { id: 'profile', label: t('settings.tabProfile'), icon: User },
+    { id: 'preferences', label: t('settings.tabPreferences'), icon: Palette },
+    { id: 'notifications', label: t('settings.tabNotifications'), icon: Bell },
+    { id: 'privacy', label: t('settings.tabPrivacy'), icon: Shield },
+    { id: 'encryption', label: t('settings.tabEncryption'), icon: KeyRound },
+    { id: 'memory', label: t('settings.tabMemory'), icon: Brain },
+    { id: 'import', label: t('settings.tabImport'), icon: Upload },
   ];
 
   const renderTabContent = () => {
@@ -119,7 +181,7 @@ export function Settings() {
           <div className="space-y-6">
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Email Address
+                {t('settings.email')}
               </label>
               <div className="flex items-center space-x-3">
                 <Mail className="h-5 w-5 text-gray-400 dark:text-gray-500" />
@@ -134,20 +196,20 @@ export function Settings() {
 
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Full Name
+                {t('settings.fullName')}
               </label>
               <input
                 type="text"
                 value={profile.fullName}
                 onChange={(e) => setProfile({ ...profile, fullName: e.target.value })}
                 className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                placeholder="Enter your full name"
+                placeholder={t('settings.fullNamePlaceholder')}
               />
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Phone Number
+                {t('settings.phone')}
               </label>
               <div className="flex items-center space-x-3">
                 <Phone className="h-5 w-5 text-gray-400 dark:text-gray-500" />
@@ -163,7 +225,7 @@ export function Settings() {
 
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Timezone
+                {t('settings.timezone')}
               </label>
               <div className="flex items-center space-x-3">
                 <Globe className="h-5 w-5 text-gray-400 dark:text-gray-500" />
@@ -173,11 +235,11 @@ export function Settings() {
                   className="flex-1 border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                 >
                   <option value="UTC">UTC</option>
-                  <option value="Asia/Kolkata">India Standard Time</option>
-                  <option value="America/New_York">Eastern Time</option>
-                  <option value="America/Chicago">Central Time</option>
-                  <option value="America/Denver">Mountain Time</option>
-                  <option value="America/Los_Angeles">Pacific Time</option>
+                  <option value="Asia/Kolkata">{t('settings.tzIndia')}</option>
+                  <option value="America/New_York">{t('settings.tzEastern')}</option>
+                  <option value="America/Chicago">{t('settings.tzCentral')}</option>
+                  <option value="America/Denver">{t('settings.tzMountain')}</option>
+                  <option value="America/Los_Angeles">{t('settings.tzPacific')}</option>
                 </select>
               </div>
             </div>
@@ -192,7 +254,7 @@ export function Settings() {
                 className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-6 py-3 rounded-xl font-semibold hover:shadow-lg transition-all duration-200 flex items-center space-x-2 disabled:opacity-50"
               >
                 <Save className="h-4 w-4" />
-                <span>{profileLoading ? 'Saving...' : 'Save Profile'}</span>
+                <span>{profileLoading ? t('common.saving') : t('settings.saveProfile')}</span>
               </motion.button>
             </div>
           </div>
@@ -203,71 +265,65 @@ export function Settings() {
           <div className="space-y-6">
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Theme
+                {t('settings.theme')}
               </label>
               <select
                 value={settings.theme}
                 onChange={(e) => updateSettings({ theme: e.target.value as 'light' | 'dark' | 'auto' })}
                 className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
               >
-                <option value="light">Light</option>
-                <option value="dark">Dark</option>
-                <option value="auto">Auto</option>
+                <option value="light">{t('settings.themeLight')}</option>
+                <option value="dark">{t('settings.themeDark')}</option>
+                <option value="auto">{t('settings.themeAuto')}</option>
               </select>
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Language
+                {t('settings.language')}
               </label>
               <select
                 value={settings.language}
                 onChange={(e) => updateSettings({ language: e.target.value })}
                 className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
               >
-                <option value="en">English</option>
-                <option value="hi">Hindi</option>
-                <option value="es">Spanish</option>
-                <option value="fr">French</option>
-                <option value="de">German</option>
-                <option value="it">Italian</option>
-                <option value="pt">Portuguese</option>
-                <option value="ru">Russian</option>
-                <option value="zh">Chinese (Simplified)</option>
-                <option value="ja">Japanese</option>
-                <option value="ko">Korean</option>
-                <option value="ar">Arabic</option>
+                {LANGUAGES.map(({ code, nativeName, hasCatalog }) => (
+                  <option key={code} value={code}>
+                    {hasCatalog ? nativeName : t('settings.languageAiOnly', { language: nativeName })}
+                  </option>
+                ))}
               </select>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t('settings.languageHint')}</p>
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                AI Voice Speed
+                {t('settings.voiceSpeed')}
               </label>
               <select
                 value={settings.voice_speed}
                 onChange={(e) => updateSettings({ voice_speed: e.target.value as 'slow' | 'normal' | 'fast' })}
                 className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
               >
-                <option value="slow">Slow</option>
-                <option value="normal">Normal</option>
-                <option value="fast">Fast</option>
+                <option value="slow">{t('settings.speedSlow')}</option>
+                <option value="normal">{t('settings.speedNormal')}</option>
+                <option value="fast">{t('settings.speedFast')}</option>
               </select>
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                AI Personality
+                {t('settings.personality')}
               </label>
               <select
                 value={settings.ai_personality}
                 onChange={(e) => updateSettings({ ai_personality: e.target.value as 'supportive' | 'professional' | 'friendly' | 'motivational' })}
                 className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
               >
-                <option value="supportive">Supportive & Caring</option>
-                <option value="professional">Professional</option>
-                <option value="friendly">Friendly & Casual</option>
-                <option value="motivational">Motivational</option>
+                <option value="supportive">{t('settings.personalitySupportive')}</option>
+                <option value="professional">{t('settings.personalityProfessional')}</option>
+                <option value="friendly">{t('settings.personalityFriendly')}</option>
+                <option value="motivational">{t('settings.personalityMotivational')}</option>
               </select>
             </div>
 
@@ -276,82 +332,221 @@ export function Settings() {
               <motion.button
                 whileHover={{ scale: 1.02 }}
                 whileTap={{ scale: 0.98 }}
-                onClick={() => toast.success('Preferences saved!')}
+                onClick={() => toast.success(t('settings.preferencesSaved'))}
                 disabled={loading}
                 className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-6 py-3 rounded-xl font-semibold hover:shadow-lg transition-all duration-200 flex items-center space-x-2 disabled:opacity-50"
               >
                 <Save className="h-4 w-4" />
-                <span>{loading ? 'Saving...' : 'Save Preferences'}</span>
+                <span>{loading ? t('common.saving') : t('settings.savePreferences')}</span>
               </motion.button>
             </div>
           </div>
         );
 
+      case 'notifications':
+        return (
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">{t('settings.reminders')}</h3>
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">{t('settings.taskReminders')}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {t('settings.taskRemindersHint')}
+                    </p>
+                  </div>
+                  {renderToggle(settings.task_reminders, (checked) => updateSettings({ task_reminders: checked }))}
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex-1">
+                    <p className="font-medium text-gray-900 dark:text-white">{t('settings.moodCheckIn')}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {t('settings.moodCheckInHint')}
+                    </p>
+                  </div>
+                  <input
+                    type="time"
+                    value={settings.mood_reminder_time}
+                    onChange={(e) => e.target.value && updateSettings({ mood_reminder_time: e.target.value })}
+                    disabled={!settings.mood_reminders}
+                    className={timeInputClass}
+                  />
+                  {renderToggle(settings.mood_reminders, (checked) => updateSettings({ mood_reminders: checked }))}
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex-1">
+                    <p className="font-medium text-gray-900 dark:text-white">{t('settings.dailySummary')}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {t('settings.dailySummaryHint')}
+                    </p>
+                  </div>
+                  <input
+                    type="time"
+                    value={settings.daily_summary_time}
+                    onChange={(e) => e.target.value && updateSettings({ daily_summary_time: e.target.value })}
+                    disabled={!settings.daily_summary}
+                    className={timeInputClass}
+                  />
+                  {renderToggle(settings.daily_summary, (checked) => updateSettings({ daily_summary: checked }))}
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">{t('settings.quietHours')}</h3>
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-start space-x-3">
+                    <Moon className="h-5 w-5 text-gray-400 dark:text-gray-500 mt-0.5" />
+                    <div>
+                      <p className="font-medium text-gray-900 dark:text-white">{t('settings.holdOvernight')}</p>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {t('settings.holdOvernightHint', {
+                          zone: profile.timezone === 'UTC' ? t('settings.deviceTimeZone') : profile.timezone,
+                        })}
+                      </p>
+                    </div>
+                  </div>
+                  {renderToggle(settings.quiet_hours_enabled, (checked) => updateSettings({ quiet_hours_enabled: checked }))}
+                </div>
+
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="time"
+                    value={settings.quiet_hours_start}
+                    onChange={(e) => e.target.value && updateSettings({ quiet_hours_start: e.target.value })}
+                    disabled={!settings.quiet_hours_enabled}
+                    className={timeInputClass}
+                  />
+                  <span className="text-sm text-gray-500 dark:text-gray-400">{t('settings.to')}</span>
+                  <input
+                    type="time"
+                    value={settings.quiet_hours_end}
+                    onChange={(e) => e.target.value && updateSettings({ quiet_hours_end: e.target.value })}
+                    disabled={!settings.quiet_hours_enabled}
+                    className={timeInputClass}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">{t('settings.browserNotifications')}</h3>
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {notificationPermission === 'granted'
+                    ? t('settings.notificationsGranted')
+                    : notificationPermission === 'denied'
+                    ? t('settings.notificationsDenied')
+                    : notificationPermission === 'unsupported'
+                    ? t('settings.notificationsUnsupported')
+                    : t('settings.notificationsDefault')}
+                </p>
+                {notificationPermission === 'default' && (
+                  <button
+                    onClick={enableBrowserNotifications}
+                    className="flex-shrink-0 bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 px-4 py-2 rounded-lg font-medium hover:bg-purple-200 dark:hover:bg-purple-900/50 transition-colors duration-200"
+                  >
+                    {t('settings.allow')}
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+
       case 'privacy':
         return (
           <div className="space-y-6">
             <div>
-              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Data & Privacy</h3>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">{t('settings.dataPrivacy')}</h3>
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="font-medium text-gray-900 dark:text-white">Data Sharing</p>
+                    <p className="font-medium text-gray-900 dark:text-white">{t('settings.dataSharing')}</p>
                     <p className="text-sm text-gray-500 dark:text-gray-400">
-                      Share anonymized data to improve the service
+                      {t('settings.dataSharingHint')}
                     </p>
                   </div>
                   <label className="relative inline-flex items-center cursor-pointer">
                     <input
                       type="checkbox"
                       checked={settings.data_sharing}
-                      onChange={(e) => updateSettings({ data_sharing: e.target.checked })}
+                      onChange={(e) => handleConsentChange('data_sharing', e.target.checked)}
                       className="sr-only peer"
                     />
-                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-purple-300 dark:peer-focus:ring-purple-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-purple-600"></div>
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-purple-300 dark:peer-focus:ring-purple-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-purple-600"></div>
                   </label>
                 </div>
 
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="font-medium text-gray-900 dark:text-white">Analytics</p>
+                    <p className="font-medium text-gray-900 dark:text-white">{t('settings.analytics')}</p>
                     <p className="text-sm text-gray-500 dark:text-gray-400">
-                      Help us understand how you use the app
+                      {t('settings.analyticsHint')}
                     </p>
                   </div>
                   <label className="relative inline-flex items-center cursor-pointer">
                     <input
                       type="checkbox"
                       checked={settings.analytics}
-                      onChange={(e) => updateSettings({ analytics: e.target.checked })}
+                      onChange={(e) => handleConsentChange('analytics', e.target.checked)}
                       className="sr-only peer"
                     />
-                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-purple-300 dark:peer-focus:ring-purple-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-purple-600"></div>
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-purple-300 dark:peer-focus:ring-purple-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-purple-600"></div>
                   </label>
                 </div>
 
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="font-medium text-gray-900 dark:text-white">Voice Recordings</p>
+                    <p className="font-medium text-gray-900 dark:text-white">{t('settings.voiceRecordings')}</p>
                     <p className="text-sm text-gray-500 dark:text-gray-400">
-                      Store voice recordings for better AI responses (encrypted)
+                      {t('settings.voiceRecordingsHint')}
                     </p>
                   </div>
                   <label className="relative inline-flex items-center cursor-pointer">
                     <input
                       type="checkbox"
                       checked={settings.voice_recordings}
-                      onChange={(e) => updateSettings({ voice_recordings: e.target.checked })}
+                      onChange={(e) => handleConsentChange('voice_recordings', e.target.checked)}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-purple-300 dark:peer-focus:ring-purple-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-purple-600"></div>
+                  </label>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">{t('settings.saveConversations')}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {t('settings.saveConversationsHint')}
+                    </p>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.save_conversations}
+                      onChange={(e) => handleConsentChange('save_conversations', e.target.checked)}
                       className="sr-only peer"
                     />
-                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-purple-300 dark:peer-focus:ring-purple-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-purple-600"></div>
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-purple-300 dark:peer-focus:ring-purple-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-purple-600"></div>
                   </label>
                 </div>
               </div>
             </div>
 
+            <DataExport onUnlock={() => setActiveTab('encryption')} />
+
+            <DataDeletion />
+
+            <ConsentPurgePrompt consentKey={purgeOffer} onClose={() => setPurgeOffer(null)} />
+
             <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl p-4">
               <p className="text-sm text-yellow-800 dark:text-yellow-300">
-                🔒 All sensitive data is encrypted before storage. Your privacy is our priority.
+                {t('settings.encryptedNotice')}
               </p>
             </div>
 
@@ -360,17 +555,26 @@ export function Settings() {
               <motion.button
                 whileHover={{ scale: 1.02 }}
                 whileTap={{ scale: 0.98 }}
-                onClick={() => toast.success('Privacy settings saved!')}
+                onClick={() => toast.success(t('settings.privacySaved'))}
                 disabled={loading}
                 className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-6 py-3 rounded-xl font-semibold hover:shadow-lg transition-all duration-200 flex items-center space-x-2 disabled:opacity-50"
               >
                 <Save className="h-4 w-4" />
-                <span>{loading ? 'Saving...' : 'Save Privacy Settings'}</span>
+                <span>{loading ? t('common.saving') : t('settings.savePrivacy')}</span>
               </motion.button>
             </div>
           </div>
         );
 
+      case 'encryption':
+        return <EncryptionSettings />;
+
+      case 'memory':
+        return <MemorySettings />;
+
+      case 'import':
+        return <DataImport />;
+
       default:
         return null;
     }
@@ -388,15 +592,15 @@ export function Settings() {
     <div className="space-y-6">
       {/* Header */}
       <div>
-        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Settings</h1>
-        <p className="text-gray-600 dark:text-gray-300">Customize your MindPal experience</p>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{t('settings.title')}</h1>
+        <p className="text-gray-600 dark:text-gray-300">{t('settings.subtitle')}</p>
       </div>
 
       {/* Settings Container */}
       <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700 overflow-hidden">
         <div className="flex flex-col lg:flex-row">
           {/* Sidebar */}
-          <div className="lg:w-64 bg-gray-50 dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700">
+          <div className="lg:w-64 bg-gray-50 dark:bg-gray-900 border-e border-gray-200 dark:border-gray-700">
             <nav className="p-4 space-y-2">
               {tabs.map((tab) => {
                 const Icon = tab.icon;
@@ -404,7 +608,7 @@ export function Settings() {
                   <button
                     key={tab.id}
                     onClick={() => setActiveTab(tab.id)}
-                    className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-left transition-all duration-200 ${
+                    className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-start transition-all duration-200 ${
                       activeTab === tab.id
                         ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 font-medium'
                         : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
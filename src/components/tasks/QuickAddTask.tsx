@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Calendar, Flag, Hash, Zap } from 'lucide-react';
+import { useI18n } from '../../hooks/useI18n';
+import type { Locale, MessageKey } from '../../lib/i18n';
+import { parseQuickAdd } from '../../lib/tasks';
+import type { QuickAddResult } from '../../lib/tasks';
+
+interface QuickAddTaskProps {
+  timeZone: string;
+  onAdd: (parsed: QuickAddResult) => Promise<boolean>;
+}
+
+// The parser reads English, so the example stays in English
+const EXAMPLE = 'call dentist tomorrow 3pm !high #health';
+
+const PRIORITY_BADGES: Record<string, MessageKey> = {
+  low: 'tasks.badgeLow',
+  medium: 'tasks.badgeMedium',
+  high: 'tasks.badgeHigh',
+};
+
+const formatDue = (parsed: QuickAddResult, timeZone: string, locale: Locale) =>
+  new Date(parsed.due_date!).toLocaleString(locale, {
+    timeZone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    ...(parsed.has_time ? { hour: 'numeric', minute: '2-digit' } : {}),
+  });
+
+export function QuickAddTask({ timeZone, onAdd }: QuickAddTaskProps) {
+  const { t, locale } = useI18n();
+  const [text, setText] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  const parsed = useMemo(
+    () => (text.trim() ? parseQuickAdd(text, { timeZone }) : null),
+    [text, timeZone]
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!parsed?.title || adding) return;
+
+    setAdding(true);
+    try {
+      if (await onAdd(parsed)) {
+        setText('');
+      }
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-2xl p-4 shadow-sm border border-gray-100 dark:border-gray-700">
+      <div className="flex items-center space-x-3">
+        <Zap className="h-5 w-5 text-purple-500" />
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="flex-1 border-0 focus:ring-0 text-gray-900 dark:text-white placeholder-gray-500 bg-transparent"
+          placeholder={t('tasks.quickAddPlaceholder', { example: EXAMPLE })}
+          disabled={adding}
+        />
+        {parsed?.title && (
+          <button
+            type="submit"
+            disabled={adding}
+            className="text-sm bg-gradient-to-r from-purple-600 to-blue-600 text-white px-4 py-1.5 rounded-lg hover:shadow-lg transition-all duration-200 disabled:opacity-50"
+          >
+            {t('tasks.quickAddButton')}
+          </button>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {parsed && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="flex flex-wrap items-center gap-2 mt-3 pl-8 text-xs"
+          >
+            <span className={`font-medium ${parsed.title ? 'text-gray-900 dark:text-white' : 'text-red-500'}`}>
+              {parsed.title || t('tasks.quickAddNoTitle')}
+            </span>
+            {parsed.due_date && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded-full bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300">
+                <Calendar className="h-3 w-3 mr-1" />
+                {formatDue(parsed, timeZone, locale)}
+              </span>
+            )}
+            {parsed.priority && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded-full bg-orange-50 dark:bg-orange-900/20 text-orange-700 dark:text-orange-300">
+                <Flag className="h-3 w-3 mr-1" />
+                {t(PRIORITY_BADGES[parsed.priority])}
+              </span>
+            )}
+            {parsed.category && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded-full bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-300">
+                <Hash className="h-3 w-3 mr-0.5" />
+                {parsed.category}
+              </span>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </form>
+  );
+}
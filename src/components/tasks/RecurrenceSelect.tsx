@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { useI18n } from '../../hooks/useI18n';
+import { RECURRENCE_PRESETS, describeRecurrence, parseRecurrence } from '../../lib/tasks';
+
+interface RecurrenceSelectProps {
+  value: string | null;
+  onChange: (value: string | null) => void;
+  className?: string;
+}
+
+const CUSTOM = 'custom';
+
+const isPreset = (value: string | null) => RECURRENCE_PRESETS.some(preset => preset.value === value);
+
+export function RecurrenceSelect({ value, onChange, className }: RecurrenceSelectProps) {
+  const { t } = useI18n();
+  const [custom, setCustom] = useState(value !== null && !isPreset(value));
+  const [draft, setDraft] = useState(value && !isPreset(value) ? value : '');
+
+  const draftValid = parseRecurrence(draft) !== null;
+
+  const handleSelect = (selected: string) => {
+    if (selected === CUSTOM) {
+      setCustom(true);
+      onChange(draftValid ? draft.trim() : null);
+      return;
+    }
+    setCustom(false);
+    onChange(selected || null);
+  };
+
+  const handleDraft = (text: string) => {
+    setDraft(text);
+    onChange(parseRecurrence(text) ? text.trim().replace(/^RRULE:/i, '') : null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={custom ? CUSTOM : value ?? ''}
+        onChange={(e) => handleSelect(e.target.value)}
+        className={className}
+      >
+        <option value="">{t('recurrence.none')}</option>
+        {RECURRENCE_PRESETS.map(preset => (
+          <option key={preset.value} value={preset.value}>{t(preset.label)}</option>
+        ))}
+        <option value={CUSTOM}>{t('recurrence.custom')}</option>
+      </select>
+
+      {custom && (
+        <div>
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => handleDraft(e.target.value)}
+            className={className}
+            placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH"
+          />
+          <p className={`text-xs mt-1 ${draft && !draftValid ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+            {!draft
+              ? t('recurrence.hint')
+              : draftValid
+              ? describeRecurrence(draft)
+              : t('recurrence.unsupported')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { CheckSquare, Square, Trash2, Plus } from 'lucide-react';
+import { useI18n } from '../../hooks/useI18n';
+import { formatEstimate } from '../../lib/tasks';
+import type { Task } from '../../hooks/useTasks';
+
+interface SubtaskListProps {
+  subtasks: Task[];
+  onAdd: (title: string) => Promise<void>;
+  onToggle: (subtaskId: string) => void;
+  onRename: (subtaskId: string, title: string) => void;
+  onDelete: (subtaskId: string) => void;
+}
+
+export function SubtaskList({ subtasks, onAdd, onToggle, onRename, onDelete }: SubtaskListProps) {
+  const { t } = useI18n();
+  const [newTitle, setNewTitle] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTitle.trim()) return;
+    await onAdd(newTitle.trim());
+    setNewTitle('');
+  };
+
+  const startEditing = (subtask: Task) => {
+    setEditingId(subtask.id);
+    setEditTitle(subtask.title);
+  };
+
+  const finishEditing = () => {
+    const subtask = subtasks.find(s => s.id === editingId);
+    if (subtask && editTitle.trim() && editTitle.trim() !== subtask.title) {
+      onRename(subtask.id, editTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="mt-4 pl-1 space-y-2">
+      {subtasks.map(subtask => (
+        <div key={subtask.id} className="group flex items-center space-x-3">
+          <button
+            onClick={() => onToggle(subtask.id)}
+            className={`${subtask.completed ? 'text-green-600' : 'text-gray-400 hover:text-purple-600'} transition-colors duration-200`}
+          >
+            {subtask.completed ? <CheckSquare className="h-4 w-4" /> : <Square className="h-4 w-4" />}
+          </button>
+
+          {editingId === subtask.id ? (
+            <input
+              type="text"
+              value={editTitle}
+              onChange={(e) => setEditTitle(e.target.value)}
+              onBlur={finishEditing}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') finishEditing();
+                if (e.key === 'Escape') setEditingId(null);
+              }}
+              className="flex-1 text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              autoFocus
+            />
+          ) : (
+            <button
+              onClick={() => startEditing(subtask)}
+              className={`flex-1 text-left text-sm ${subtask.completed ? 'line-through text-gray-400' : 'text-gray-700 dark:text-gray-300'}`}
+              title={t('tasks.renameStep')}
+            >
+              {subtask.title}
+            </button>
+          )}
+
+          {subtask.estimate_minutes && editingId !== subtask.id && (
+            <span className="text-xs text-gray-400 dark:text-gray-500 whitespace-nowrap">
+              {formatEstimate(subtask.estimate_minutes)}
+            </span>
+          )}
+
+          <button
+            onClick={() => onDelete(subtask.id)}
+            className="text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all duration-200"
+            title={t('tasks.deleteStep')}
+            aria-label={t('tasks.deleteStep')}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      ))}
+
+      <form onSubmit={handleAdd} className="flex items-center space-x-3">
+        <Plus className="h-4 w-4 text-gray-400" />
+        <input
+          type="text"
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          className="flex-1 text-sm border-0 border-b border-gray-200 dark:border-gray-700 focus:ring-0 focus:border-purple-500 bg-transparent text-gray-900 dark:text-white placeholder-gray-400 px-0 py-1"
+          placeholder={t('tasks.addStepPlaceholder')}
+        />
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowUp, ArrowDown, Plus, Sparkles, Trash2, X } from 'lucide-react';
+import { useI18n } from '../../hooks/useI18n';
+import { breakDownTask, formatEstimate } from '../../lib/tasks';
+import type { ProposedStep } from '../../lib/tasks';
+import type { NewSubtask, Task } from '../../hooks/useTasks';
+import toast from 'react-hot-toast';
+
+interface TaskBreakdownProps {
+  task: Task;
+  existingSteps: string[];
+  onAccept: (steps: NewSubtask[]) => Promise<void>;
+  onClose: () => void;
+}
+
+type Status = 'loading' | 'ready' | 'saving';
+
+// Proposes steps for a task and lets the user edit, reorder or drop them
+// before anything is saved
+export function TaskBreakdown({ task, existingSteps, onAccept, onClose }: TaskBreakdownProps) {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<Status>('loading');
+  const [steps, setSteps] = useState<ProposedStep[]>([]);
+
+  const requestSteps = async () => {
+    setStatus('loading');
+    try {
+      const proposal = await breakDownTask({ title: task.title, description: task.description, existingSteps });
+      if (proposal === null) {
+        toast.error(t('breakdown.notConfigured'));
+        onClose();
+        return;
+      }
+      if (proposal.length === 0) {
+        toast.error(t('breakdown.noSteps'));
+      }
+      setSteps(proposal);
+    } catch (error) {
+      console.error('Error breaking down task:', error);
+      toast.error(t('breakdown.failed'));
+    } finally {
+      setStatus('ready');
+    }
+  };
+
+  // Ask once when the panel opens; "Try again" asks for a fresh proposal
+  const requestStepsRef = useRef(requestSteps);
+  useEffect(() => {
+    requestStepsRef.current();
+  }, []);
+
+  const updateStep = (index: number, changes: Partial<ProposedStep>) => {
+    setSteps(prev => prev.map((step, i) => i === index ? { ...step, ...changes } : step));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+    setSteps(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleAccept = async () => {
+    const accepted = steps
+      .map(step => ({ ...step, title: step.title.trim() }))
+      .filter(step => step.title);
+    if (accepted.length === 0) return;
+
+    setStatus('saving');
+    try {
+      await onAccept(accepted);
+    } finally {
+      setStatus('ready');
+    }
+  };
+
+  const total = steps.reduce((sum, step) => sum + (step.estimate_minutes ?? 0), 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      className="mt-4 rounded-xl border border-purple-200 dark:border-purple-800 bg-purple-50/60 dark:bg-purple-900/10 p-4"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2 text-purple-700 dark:text-purple-300">
+          <Sparkles className="h-4 w-4" />
+          <span className="text-sm font-semibold">{t('breakdown.title')}</span>
+          {total > 0 && (
+            <span className="text-xs text-purple-500 dark:text-purple-400">{t('breakdown.total', { time: formatEstimate(total) })}</span>
+          )}
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {status === 'loading' ? (
+        <div className="flex items-center space-x-3 py-4 text-sm text-gray-600 dark:text-gray-300">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-purple-600"></div>
+          <span>{t('breakdown.loading')}</span>
+        </div>
+      ) : (
+        <>
+          <ol className="space-y-2">
+            {steps.map((step, index) => (
+              <li key={index} className="flex items-center space-x-2">
+                <span className="w-5 text-xs text-gray-400 text-right">{index + 1}.</span>
+                <input
+                  type="text"
+                  value={step.title}
+                  onChange={(e) => updateStep(index, { title: e.target.value })}
+                  className="flex-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={step.estimate_minutes ?? ''}
+                  onChange={(e) => updateStep(index, { estimate_minutes: e.target.value ? Math.max(1, parseInt(e.target.value, 10) || 1) : null })}
+                  className="w-16 text-sm border border-gray-300 dark:border-gray-600 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  title={t('breakdown.minutes')}
+                />
+                <span className="text-xs text-gray-400">{t('breakdown.minutesShort')}</span>
+                <button
+                  onClick={() => moveStep(index, -1)}
+                  disabled={index === 0}
+                  className="text-gray-400 hover:text-purple-600 disabled:opacity-30"
+                  title={t('breakdown.moveUp')}
+                  aria-label={t('breakdown.moveUp')}
+                >
+                  <ArrowUp className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  onClick={() => moveStep(index, 1)}
+                  disabled={index === steps.length - 1}
+                  className="text-gray-400 hover:text-purple-600 disabled:opacity-30"
+                  title={t('breakdown.moveDown')}
+                  aria-label={t('breakdown.moveDown')}
+                >
+                  <ArrowDown className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  onClick={() => setSteps(prev => prev.filter((_, i) => i !== index))}
+                  className="text-gray-400 hover:text-red-500"
+                  title={t('breakdown.remove')}
+                  aria-label={t('breakdown.remove')}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </li>
+            ))}
+          </ol>
+
+          <button
+            onClick={() => setSteps(prev => [...prev, { title: '', estimate_minutes: null }])}
+            className="mt-2 inline-flex items-center text-xs text-purple-600 dark:text-purple-400 hover:underline"
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            {t('breakdown.addStep')}
+          </button>
+
+          <div className="flex flex-wrap gap-3 pt-4">
+            <button
+              onClick={handleAccept}
+              disabled={status === 'saving' || !steps.some(step => step.title.trim())}
+              className="bg-gradient-to-r from-purple-600 to-blue-600 text-white text-sm px-4 py-2 rounded-lg hover:shadow-lg transition-all duration-200 disabled:opacity-50"
+            >
+              {status === 'saving' ? t('breakdown.adding') : t('breakdown.accept')}
+            </button>
+            <button
+              onClick={requestSteps}
+              className="bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 text-sm px-4 py-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors duration-200"
+            >
+              {t('breakdown.retry')}
+            </button>
+            <button
+              onClick={onClose}
+              className="text-sm text-gray-500 dark:text-gray-400 px-2 py-2 hover:text-gray-700 dark:hover:text-gray-200"
+            >
+              {t('breakdown.discard')}
+            </button>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+}
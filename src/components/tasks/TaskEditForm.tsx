@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { useI18n } from '../../hooks/useI18n';
+import { RecurrenceSelect } from './RecurrenceSelect';
+import { fromLocalInput, toLocalInput } from '../../lib/tasks';
+import type { Task, TaskUpdate } from '../../hooks/useTasks';
+
+interface TaskEditFormProps {
+  task: Task;
+  onSave: (updates: TaskUpdate) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export function TaskEditForm({ task, onSave, onCancel }: TaskEditFormProps) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState({
+    title: task.title,
+    description: task.description || '',
+    priority: task.priority,
+    category: task.category,
+    due_date: toLocalInput(task.due_date),
+    reminder_time: toLocalInput(task.reminder_enabled ? task.reminder_time : null),
+    recurrence: task.recurrence,
+  });
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.title.trim()) return;
+
+    setSaving(true);
+    try {
+      await onSave({
+        title: draft.title.trim(),
+        description: draft.description.trim() || null,
+        priority: draft.priority,
+        category: draft.category.trim() || 'personal',
+        due_date: fromLocalInput(draft.due_date),
+        reminder_enabled: !!draft.reminder_time,
+        reminder_time: fromLocalInput(draft.reminder_time),
+        // Subtasks don't repeat
+        ...(task.parent_id ? {} : { recurrence: draft.recurrence }),
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <input
+        type="text"
+        value={draft.title}
+        onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+        className={inputClass}
+        placeholder={t('tasks.titlePlaceholder')}
+        autoFocus
+        required
+      />
+
+      <textarea
+        value={draft.description}
+        onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+        className={inputClass}
+        rows={2}
+        placeholder={t('tasks.fieldDescriptionPlaceholder')}
+      />
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">{t('tasks.fieldPriority')}</label>
+          <select
+            value={draft.priority}
+            onChange={(e) => setDraft({ ...draft, priority: e.target.value as Task['priority'] })}
+            className={inputClass}
+          >
+            <option value="low">{t('tasks.priorityLow')}</option>
+            <option value="medium">{t('tasks.priorityMedium')}</option>
+            <option value="high">{t('tasks.priorityHigh')}</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">{t('tasks.fieldCategory')}</label>
+          <input
+            type="text"
+            value={draft.category}
+            onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+            className={inputClass}
+            placeholder={t('tasks.fieldCategoryPlaceholder')}
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">{t('tasks.fieldDue')}</label>
+          <input
+            type="datetime-local"
+            value={draft.due_date}
+            onChange={(e) => setDraft({ ...draft, due_date: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">{t('tasks.fieldReminder')}</label>
+          <input
+            type="datetime-local"
+            value={draft.reminder_time}
+            onChange={(e) => setDraft({ ...draft, reminder_time: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {!task.parent_id && (
+        <div>
+          <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">{t('tasks.fieldRepeat')}</label>
+          <RecurrenceSelect
+            value={draft.recurrence}
+            onChange={(recurrence) => setDraft({ ...draft, recurrence })}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      <div className="flex space-x-3 pt-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-5 py-2 rounded-lg hover:shadow-lg transition-all duration-200 disabled:opacity-50"
+        >
+          {saving ? t('common.saving') : t('tasks.save')}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-5 py-2 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors duration-200"
+        >
+          {t('common.cancel')}
+        </button>
+      </div>
+    </form>
+  );
+}
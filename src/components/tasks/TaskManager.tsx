@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Plus, 
@@ -8,141 +8,150 @@ import {
   Calendar,
   Flag,
   Filter,
-  Search
+  Search,
+  Bell,
+  Pencil,
+  Repeat,
+  ListChecks,
+  Sparkles
 } from 'lucide-react';
-import { useAuth } from '../../hooks/useAuth';
-import { supabase } from '../../lib/supabase';
+import { useTasks } from '../../hooks/useTasks';
+import type { NewSubtask, Task, TaskUpdate } from '../../hooks/useTasks';
+import { useNetworkStatus } from '../../hooks/useNetworkStatus';
+import { useProfile } from '../../hooks/useProfile';
+import { useI18n } from '../../hooks/useI18n';
+import type { MessageKey } from '../../lib/i18n';
+import { isLLMConfigured } from '../../lib/llm';
+import { describeRecurrence, formatEstimate, fromLocalInput } from '../../lib/tasks';
+import type { QuickAddResult } from '../../lib/tasks';
+import { QuickAddTask } from './QuickAddTask';
+import { RecurrenceSelect } from './RecurrenceSelect';
+import { SubtaskList } from './SubtaskList';
+import { TaskBreakdown } from './TaskBreakdown';
+import { TaskEditForm } from './TaskEditForm';
 import toast from 'react-hot-toast';
 
-interface Task {
-  id: string;
-  title: string;
-  description: string | null;
-  completed: boolean;
-  priority: 'low' | 'medium' | 'high';
-  category: string;
-  due_date: string | null;
-  created_at: string;
-}
+const PRIORITY_BADGES: Record<string, MessageKey> = {
+  low: 'tasks.badgeLow',
+  medium: 'tasks.badgeMedium',
+  high: 'tasks.badgeHigh',
+};
+
+const EMPTY_TITLES: Record<string, MessageKey> = {
+  all: 'tasks.emptyAll',
+  pending: 'tasks.emptyPending',
+  completed: 'tasks.emptyCompleted',
+  overdue: 'tasks.emptyOverdue',
+};
 
 export function TaskManager() {
-  const { user } = useAuth();
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const {
+    topLevelTasks: tasks,
+    getSubtasks,
+    loading,
+    addTask: createTask,
+    addSubtask,
+    addSubtasks,
+    updateTask,
+    toggleTask: setTaskCompleted,
+    deleteTask: removeTask,
+  } = useTasks();
   const [newTask, setNewTask] = useState({
     title: '',
     description: '',
     priority: 'medium' as 'low' | 'medium' | 'high',
     category: 'personal',
     due_date: '',
+    reminder_time: '',
+    recurrence: null as string | null,
   });
   const [showAddForm, setShowAddForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [breakdownId, setBreakdownId] = useState<string | null>(null);
+  const { isOnline } = useNetworkStatus();
+  const { timezone } = useProfile();
+  const { t, formatDate } = useI18n();
+  const canBreakDown = isOnline && isLLMConfigured();
   const [filter, setFilter] = useState('all');
   const [searchQuery, setSearchQuery] = useState('');
-  const [loading, setLoading] = useState(true);
-
-  const loadTasks = useCallback(async () => {
-    if (!user) return;
-
-    try {
-      const { data, error } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setTasks(data || []);
-    } catch (error) {
-      console.error('Error loading tasks:', error);
-      toast.error('Failed to load tasks');
-    } finally {
-      setLoading(false);
-    }
-  }, [user]);
-
-  useEffect(() => {
-    if (user) {
-      loadTasks();
-    }
-  }, [user, loadTasks]);
 
   const addTask = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user || !newTask.title.trim()) return;
-
-    try {
-      const taskData = {
-        user_id: user.id,
-        title: newTask.title,
-        description: newTask.description || null,
-        priority: newTask.priority,
-        category: newTask.category,
-        due_date: newTask.due_date || null,
-      };
-
-      const { data, error } = await supabase
-        .from('tasks')
-        .insert([taskData])
-        .select()
-        .single();
-
-      if (error) throw error;
-      
-      setTasks([data, ...tasks]);
-      
-      setNewTask({
-        title: '',
-        description: '',
-        priority: 'medium',
-        category: 'personal',
-        due_date: '',
-      });
-      setShowAddForm(false);
-      toast.success('Task added successfully! 📝');
-    } catch (error) {
-      console.error('Error adding task:', error);
-      toast.error('Failed to add task');
-    }
+    if (!newTask.title.trim()) return;
+
+    const task = await createTask({
+      title: newTask.title,
+      description: newTask.description || null,
+      priority: newTask.priority,
+      category: newTask.category,
+      // datetime-local values have no offset, so store them as UTC instants
+      due_date: fromLocalInput(newTask.due_date),
+      reminder_enabled: !!newTask.reminder_time,
+      reminder_time: fromLocalInput(newTask.reminder_time),
+      recurrence: newTask.recurrence,
+    });
+    if (!task) return;
+
+    setNewTask({
+      title: '',
+      description: '',
+      priority: 'medium',
+      category: 'personal',
+      due_date: '',
+      reminder_time: '',
+      recurrence: null,
+    });
+    setShowAddForm(false);
+    toast.success(t('tasks.added'));
+  };
+
+  const quickAddTask = async (parsed: QuickAddResult): Promise<boolean> => {
+    const task = await createTask({
+      title: parsed.title,
+      description: null,
+      priority: parsed.priority ?? 'medium',
+      category: parsed.category ?? 'personal',
+      due_date: parsed.due_date,
+    });
+    if (!task) return false;
+
+    toast.success(t('tasks.added'));
+    return true;
   };
 
   const toggleTask = async (taskId: string, completed: boolean) => {
-    try {
-      const { error } = await supabase
-        .from('tasks')
-        .update({ completed: !completed })
-        .eq('id', taskId);
-
-      if (error) throw error;
-
-      setTasks(tasks.map(task => 
-        task.id === taskId ? { ...task, completed: !completed } : task
-      ));
-      
-      if (!completed) {
-        toast.success('Task completed! 🎉');
-      } else {
-        toast.success('Task marked incomplete');
-      }
-    } catch (error) {
-      console.error('Error updating task:', error);
-      toast.error('Failed to update task');
+    const result = await setTaskCompleted(taskId);
+    if (!result) return;
+
+    if (result.next?.due_date) {
+      toast.success(t('tasks.completedNext', { date: formatDate(result.next.due_date, 'EEE d MMM') }));
+    } else if (!completed) {
+      toast.success(t('tasks.completed'));
+    } else {
+      toast.success(t('tasks.markedIncomplete'));
+    }
+  };
+
+  const acceptBreakdown = async (task: Task, steps: NewSubtask[]) => {
+    const created = await addSubtasks(task, steps);
+    if (created.length === 0) return;
+
+    setBreakdownId(null);
+    setExpandedId(task.id);
+    toast.success(t('tasks.stepsAdded', { count: created.length }));
+  };
+
+  const saveTask = async (taskId: string, updates: TaskUpdate) => {
+    if (await updateTask(taskId, updates)) {
+      setEditingId(null);
+      toast.success(t('tasks.updated'));
     }
   };
 
   const deleteTask = async (taskId: string) => {
-    try {
-      const { error } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', taskId);
-
-      if (error) throw error;
-
-      setTasks(tasks.filter(task => task.id !== taskId));
-      toast.success('Task deleted');
-    } catch (error) {
-      console.error('Error deleting task:', error);
-      toast.error('Failed to delete task');
+    if (await removeTask(taskId)) {
+      toast.success(t('tasks.deleted'));
     }
   };
 
@@ -181,25 +190,25 @@ export function TaskManager() {
     );
   }
 
-  const completedCount = tasks.filter(t => t.completed).length;
-  const overdueCount = tasks.filter(t => !t.completed && t.due_date && new Date(t.due_date) < new Date()).length;
+  const completedCount = tasks.filter(task => task.completed).length;
+  const overdueCount = tasks.filter(task => !task.completed && task.due_date && new Date(task.due_date) < new Date()).length;
 
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
         <div>
-          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Task Manager</h1>
-          <p className="text-gray-600 dark:text-gray-300">Stay organized with ADHD-friendly task management</p>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('tasks.title')}</h1>
+          <p className="text-gray-600 dark:text-gray-300">{t('tasks.subtitle')}</p>
           
           {/* Quick Stats */}
           <div className="flex items-center space-x-4 mt-2">
             <span className="text-sm text-gray-500 dark:text-gray-400">
-              {tasks.length} total • {completedCount} completed
+              {t('tasks.summary', { total: tasks.length, completed: completedCount })}
             </span>
             {overdueCount > 0 && (
               <span className="text-sm text-red-600 dark:text-red-400 font-medium">
-                {overdueCount} overdue
+                {t('tasks.overdueCount', { count: overdueCount })}
               </span>
             )}
           </div>
@@ -212,10 +221,12 @@ export function TaskManager() {
           className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-6 py-3 rounded-xl flex items-center space-x-2 hover:shadow-lg transition-all duration-200"
         >
           <Plus className="h-5 w-5" />
-          <span>Add Task</span>
+          <span>{t('tasks.add')}</span>
         </motion.button>
       </div>
 
+      <QuickAddTask timeZone={timezone} onAdd={quickAddTask} />
+
       {/* Filters and Search */}
       <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700">
         <div className="flex flex-col sm:flex-row gap-4">
@@ -223,7 +234,7 @@ export function TaskManager() {
             <Search className="h-5 w-5 text-gray-400" />
             <input
               type="text"
-              placeholder="Search tasks..."
+              placeholder={t('tasks.search')}
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="flex-1 border-0 focus:ring-0 text-gray-900 dark:text-white placeholder-gray-500 bg-transparent"
@@ -237,10 +248,10 @@ export function TaskManager() {
               onChange={(e) => setFilter(e.target.value)}
               className="border-0 focus:ring-0 text-gray-900 dark:text-white bg-transparent"
             >
-              <option value="all">All Tasks</option>
-              <option value="pending">Pending</option>
-              <option value="completed">Completed</option>
-              <option value="overdue">Overdue</option>
+              <option value="all">{t('tasks.filterAll')}</option>
+              <option value="pending">{t('tasks.filterPending')}</option>
+              <option value="completed">{t('tasks.filterCompleted')}</option>
+              <option value="overdue">{t('tasks.filterOverdue')}</option>
             </select>
           </div>
         </div>
@@ -259,64 +270,64 @@ export function TaskManager() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    Task Title *
+                    {t('tasks.fieldTitle')}
                   </label>
                   <input
                     type="text"
                     value={newTask.title}
                     onChange={(e) => setNewTask({ ...newTask, title: e.target.value })}
                     className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                    placeholder="What needs to be done?"
+                    placeholder={t('tasks.fieldTitlePlaceholder')}
                     required
                   />
                 </div>
                 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    Priority
+                    {t('tasks.fieldPriority')}
                   </label>
                   <select
                     value={newTask.priority}
                     onChange={(e) => setNewTask({ ...newTask, priority: e.target.value as 'low' | 'medium' | 'high' })}
                     className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                   >
-                    <option value="low">Low Priority</option>
-                    <option value="medium">Medium Priority</option>
-                    <option value="high">High Priority</option>
+                    <option value="low">{t('tasks.priorityLow')}</option>
+                    <option value="medium">{t('tasks.priorityMedium')}</option>
+                    <option value="high">{t('tasks.priorityHigh')}</option>
                   </select>
                 </div>
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Description
+                  {t('tasks.fieldDescription')}
                 </label>
                 <textarea
                   value={newTask.description}
                   onChange={(e) => setNewTask({ ...newTask, description: e.target.value })}
                   className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                   rows={3}
-                  placeholder="Add more details..."
+                  placeholder={t('tasks.fieldDescriptionPlaceholder')}
                 />
               </div>
 
               <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
                 <div className="flex-1">
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    Category
+                    {t('tasks.fieldCategory')}
                   </label>
                   <input
                     type="text"
                     value={newTask.category}
                     onChange={(e) => setNewTask({ ...newTask, category: e.target.value })}
                     className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                    placeholder="personal, work, health..."
+                    placeholder={t('tasks.fieldCategoryPlaceholder')}
                   />
                 </div>
                 
                 <div className="flex-1">
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    Due Date
+                    {t('tasks.fieldDue')}
                   </label>
                   <input
                     type="datetime-local"
@@ -325,6 +336,29 @@ export function TaskManager() {
                     className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                   />
                 </div>
+
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    {t('tasks.fieldReminder')}
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={newTask.reminder_time}
+                    onChange={(e) => setNewTask({ ...newTask, reminder_time: e.target.value })}
+                    className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {t('tasks.fieldRepeat')}
+                </label>
+                <RecurrenceSelect
+                  value={newTask.recurrence}
+                  onChange={(recurrence) => setNewTask({ ...newTask, recurrence })}
+                  className="w-full border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
               </div>
 
               <div className="flex space-x-3 pt-4">
@@ -332,14 +366,14 @@ export function TaskManager() {
                   type="submit"
                   className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-6 py-2 rounded-lg hover:shadow-lg transition-all duration-200"
                 >
-                  Add Task
+                  {t('tasks.add')}
                 </button>
                 <button
                   type="button"
                   onClick={() => setShowAddForm(false)}
                   className="bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-6 py-2 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors duration-200"
                 >
-                  Cancel
+                  {t('common.cancel')}
                 </button>
               </div>
             </form>
@@ -352,6 +386,13 @@ export function TaskManager() {
         <AnimatePresence>
           {filteredTasks.map((task) => {
             const status = getTaskStatus(task);
+            const subtasks = getSubtasks(task.id);
+            const doneSubtasks = subtasks.filter(subtask => subtask.completed).length;
+            const minutesLeft = subtasks
+              .filter(subtask => !subtask.completed)
+              .reduce((sum, subtask) => sum + (subtask.estimate_minutes ?? 0), 0);
+            const recurrence = describeRecurrence(task.recurrence);
+            const expanded = expandedId === task.id;
             return (
               <motion.div
                 key={task.id}
@@ -379,48 +420,137 @@ export function TaskManager() {
                   </button>
                   
                   <div className="flex-1 min-w-0">
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <h3 className={`font-semibold ${task.completed ? 'line-through text-gray-500' : 'text-gray-900 dark:text-white'}`}>
-                          {task.title}
-                        </h3>
-                        {task.description && (
-                          <p className={`text-sm mt-1 ${task.completed ? 'text-gray-400' : 'text-gray-600 dark:text-gray-300'}`}>
-                            {task.description}
-                          </p>
-                        )}
+                    {editingId === task.id ? (
+                      <TaskEditForm
+                        task={task}
+                        onSave={(updates) => saveTask(task.id, updates)}
+                        onCancel={() => setEditingId(null)}
+                      />
+                    ) : (
+                      <>
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <h3 className={`font-semibold ${task.completed ? 'line-through text-gray-500' : 'text-gray-900 dark:text-white'}`}>
+                              {task.title}
+                            </h3>
+                            {task.description && (
+                              <p className={`text-sm mt-1 ${task.completed ? 'text-gray-400' : 'text-gray-600 dark:text-gray-300'}`}>
+                                {task.description}
+                              </p>
+                            )}
                         
-                        <div className="flex items-center space-x-3 mt-3">
-                          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getPriorityColor(task.priority)}`}>
-                            <Flag className="h-3 w-3 mr-1" />
-                            {task.priority}
-                          </span>
+                            <div className="flex items-center space-x-3 mt-3">
+                              <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getPriorityColor(task.priority)}`}>
+                                <Flag className="h-3 w-3 me-1" />
+                                {PRIORITY_BADGES[task.priority] ? t(PRIORITY_BADGES[task.priority]) : task.priority}
+                              </span>
                           
-                          <span className="inline-flex items-center text-xs text-gray-500 dark:text-gray-400">
-                            {task.category}
-                          </span>
+                              <span className="inline-flex items-center text-xs text-gray-500 dark:text-gray-400">
+                                {task.category}
+                              </span>
                           
-                          {task.due_date && (
-                            <span className={`inline-flex items-center text-xs ${
-                              status === 'overdue' 
-                                ? 'text-red-600 dark:text-red-400 font-medium' 
-                                : 'text-gray-500 dark:text-gray-400'
-                            }`}>
-                              <Calendar className="h-3 w-3 mr-1" />
-                              {new Date(task.due_date).toLocaleDateString()}
-                              {status === 'overdue' && ' (Overdue)'}
-                            </span>
-                          )}
-                        </div>
-                      </div>
+                              {task.due_date && (
+                                <span className={`inline-flex items-center text-xs ${
+                                  status === 'overdue' 
+                                    ? 'text-red-600 dark:text-red-400 font-medium' 
+                                    : 'text-gray-500 dark:text-gray-400'
+                                }`}>
+                                  <Calendar className="h-3 w-3 me-1" />
+                                  {formatDate(task.due_date, 'P')}
+                                  {status === 'overdue' && ` ${t('tasks.overdueTag')}`}
+                                </span>
+                              )}
+
+                              {task.reminder_enabled && task.reminder_time && !task.completed && (
+                                <span className="inline-flex items-center text-xs text-purple-600 dark:text-purple-400">
+                                  <Bell className="h-3 w-3 me-1" />
+                                  {formatDate(task.reminder_time, 'PP p')}
+                                </span>
+                              )}
+
+                              {recurrence && (
+                                <span className="inline-flex items-center text-xs text-blue-600 dark:text-blue-400">
+                                  <Repeat className="h-3 w-3 me-1" />
+                                  {recurrence}
+                                </span>
+                              )}
+
+                              <button
+                                onClick={() => setExpandedId(expanded ? null : task.id)}
+                                className="inline-flex items-center text-xs text-gray-500 dark:text-gray-400 hover:text-purple-600 transition-colors duration-200"
+                              >
+                                <ListChecks className="h-3 w-3 me-1" />
+                                {subtasks.length > 0
+                                  ? t('tasks.steps', { done: doneSubtasks, total: subtasks.length })
+                                  : t('tasks.addSteps')}
+                                {minutesLeft > 0 && ` · ${t('tasks.timeLeft', { time: formatEstimate(minutesLeft) })}`}
+                              </button>
+
+                              {!task.completed && breakdownId !== task.id && (
+                                <button
+                                  onClick={() => setBreakdownId(task.id)}
+                                  disabled={!canBreakDown}
+                                  title={canBreakDown ? t('tasks.breakDownHint') : t('tasks.breakDownUnavailable')}
+                                  className="inline-flex items-center text-xs text-purple-600 dark:text-purple-400 hover:text-purple-800 dark:hover:text-purple-200 transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                  <Sparkles className="h-3 w-3 me-1" />
+                                  {t('tasks.breakDown')}
+                                </button>
+                              )}
+                            </div>
+
+                            {subtasks.length > 0 && (
+                              <div className="mt-3 h-1.5 w-full max-w-xs bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                                <div
+                                  className="h-full bg-gradient-to-r from-purple-500 to-blue-500 transition-all duration-300"
+                                  style={{ width: `${(doneSubtasks / subtasks.length) * 100}%` }}
+                                />
+                              </div>
+                            )}
+                          </div>
                       
-                      <button
-                        onClick={() => deleteTask(task.id)}
-                        className="text-gray-400 hover:text-red-500 transition-colors duration-200 ml-4"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
-                    </div>
+                          <div className="flex items-center space-x-3 ms-4">
+                            <button
+                              onClick={() => setEditingId(task.id)}
+                              title={t('tasks.edit')}
+                              className="text-gray-400 hover:text-purple-600 transition-colors duration-200"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => deleteTask(task.id)}
+                              title={t('tasks.delete')}
+                              className="text-gray-400 hover:text-red-500 transition-colors duration-200"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </div>
+
+                        <AnimatePresence>
+                          {breakdownId === task.id && (
+                            <TaskBreakdown
+                              task={task}
+                              existingSteps={subtasks.map(subtask => subtask.title)}
+                              onAccept={(steps) => acceptBreakdown(task, steps)}
+                              onClose={() => setBreakdownId(null)}
+                            />
+                          )}
+                        </AnimatePresence>
+
+                        {expanded && (
+                          <SubtaskList
+                            subtasks={subtasks}
+                            onAdd={async (title) => {
+                              await addSubtask(task, title);
+                            }}
+                            onToggle={(subtaskId) => setTaskCompleted(subtaskId)}
+                            onRename={(subtaskId, title) => updateTask(subtaskId, { title })}
+                            onDelete={(subtaskId) => removeTask(subtaskId)}
+                          />
+                        )}
+                      </>
+                    )}
                   </div>
                 </div>
               </motion.div>
@@ -437,13 +567,10 @@ export function TaskManager() {
         >
           <CheckSquare className="h-12 w-12 text-gray-300 dark:text-gray-600 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
-            {filter === 'all' ? 'No tasks yet' : `No ${filter} tasks`}
+            {t(EMPTY_TITLES[filter] ?? 'tasks.emptyAll')}
           </h3>
           <p className="text-gray-500 dark:text-gray-400">
-            {filter === 'all' 
-              ? "Start by adding your first task!" 
-              : `Try switching to a different filter.`
-            }
+            {filter === 'all' ? t('tasks.emptyAllHint') : t('tasks.emptyFilteredHint')}
           </p>
         </motion.div>
       )}
@@ -20,18 +20,41 @@ import {
   Monitor,
   Camera,
   ExternalLink,
-  Globe
+  Globe,
+  Heart
 } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
+import { useI18n } from '../../hooks/useI18n';
 import { useSettings } from '../../hooks/useSettings';
 import { useNetworkStatus } from '../../hooks/useNetworkStatus';
 import { useTavusVideo } from '../../hooks/useTavusVideo';
+import { useSafety } from '../../hooks/useSafety';
+import { buildSafetyContext } from '../../lib/safety';
+import type { MessageKey } from '../../lib/i18n';
+import { CrisisResourcesModal } from '../safety/CrisisResourcesModal';
 import toast from 'react-hot-toast';
 import Modal from 'react-modal';
 
+const TIPS: MessageKey[] = [
+  'video.tipWindow',
+  'video.tipLighting',
+  'video.tipHeadphones',
+  'video.tipQuiet',
+  'video.tipSpeakClearly',
+  'video.tipOpen',
+];
+
+const PERMISSION_STEPS: MessageKey[] = [
+  'video.permissionStepIcon',
+  'video.permissionStepAllow',
+  'video.permissionStepSettings',
+  'video.permissionStepRefresh',
+];
+
 export function VideoConsultation() {
   const { user } = useAuth();
   const { settings } = useSettings();
+  const { t } = useI18n();
   const { isOnline, isConnectedToSupabase } = useNetworkStatus();
   const {
     isSessionActive,
@@ -45,6 +68,7 @@ export function VideoConsultation() {
     isForceEndingSession,
     formatDuration
   } = useTavusVideo();
+  const { region: safetyRegion } = useSafety();
 
   const [isVideoEnabled, setIsVideoEnabled] = useState(true);
   const [isAudioEnabled, setIsAudioEnabled] = useState(true);
@@ -52,9 +76,10 @@ export function VideoConsultation() {
   const [selectedPersonality, setSelectedPersonality] = useState(settings.ai_personality);
   const videoRef = useRef<HTMLVideoElement>(null);
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
-  const [mediaPermissionError, setMediaPermissionError] = useState<string | null>(null);
+  const [mediaPermissionError, setMediaPermissionError] = useState<MessageKey | null>(null);
   const [showPermissionModal, setShowPermissionModal] = useState(false);
   const [sessionWindow, setSessionWindow] = useState<Window | null>(null);
+  const [showCrisisResources, setShowCrisisResources] = useState(false);
 
   const maxSessionTime = 3600; // 60 minutes for all users
   const timeRemaining = Math.max(0, maxSessionTime - sessionDuration);
@@ -91,17 +116,17 @@ export function VideoConsultation() {
       console.error('Error accessing media devices:', error);
       
       if (error.name === 'NotAllowedError' || error.name === 'PermissionDeniedError') {
-        setMediaPermissionError('Camera and microphone access denied. Please allow permissions to use video consultation.');
+        setMediaPermissionError('video.permissionDenied');
         setShowPermissionModal(true);
       } else if (error.name === 'NotFoundError') {
-        setMediaPermissionError('No camera or microphone found. Please connect a camera and microphone to use video consultation.');
-        toast.error('No camera or microphone detected');
+        setMediaPermissionError('video.noDevices');
+        toast.error(t('video.noDevicesToast'));
       } else if (error.name === 'NotReadableError') {
-        setMediaPermissionError('Camera or microphone is already in use by another application.');
-        toast.error('Camera/microphone in use by another app');
+        setMediaPermissionError('video.devicesBusy');
+        toast.error(t('video.devicesBusyToast'));
       } else {
-        setMediaPermissionError('Unable to access camera and microphone. Please check your device settings.');
-        toast.error('Unable to access camera/microphone');
+        setMediaPermissionError('video.devicesUnavailable');
+        toast.error(t('video.devicesUnavailableToast'));
       }
     }
   };
@@ -144,12 +169,12 @@ export function VideoConsultation() {
 
   const handleStartSession = async () => {
     if (!isOnline) {
-      toast.error('Internet connection required for video consultation');
+      toast.error(t('video.offline'));
       return;
     }
 
     if (!isConnectedToSupabase) {
-      toast.error('Unable to connect to server');
+      toast.error(t('video.serverUnreachable'));
       return;
     }
 
@@ -162,7 +187,9 @@ export function VideoConsultation() {
       cleanupLocalStream();
       
       const replicaId = getReplicaId(selectedPersonality);
-      const success = await startSession(replicaId, maxSessionTime);
+      // We never see the video transcript, so the replica gets the safety
+      // protocol and local crisis lines up front
+      const success = await startSession(replicaId, maxSessionTime, buildSafetyContext(safetyRegion));
       
       if (success && sessionData?.session_url) {
         // Open the Tavus session in a new window/tab
@@ -174,18 +201,18 @@ export function VideoConsultation() {
         
         if (newWindow) {
           setSessionWindow(newWindow);
-          toast.success('Video consultation opened in new window!');
+          toast.success(t('video.openedInWindow'));
           
           // Focus the new window
           newWindow.focus();
         } else {
           // Popup blocked, provide fallback
-          toast.error('Popup blocked! Please allow popups and try again, or click the link below.');
+          toast.error(t('video.popupBlocked'));
         }
       }
     } catch (error) {
       console.error('Failed to start session:', error);
-      toast.error('Failed to start video session');
+      toast.error(t('video.startFailed'));
       initializeLocalVideo();
     }
   };
@@ -199,23 +226,23 @@ export function VideoConsultation() {
       }
       
       await endSession();
-      toast.success('Video consultation ended');
+      toast.success(t('video.ended'));
       setTimeout(() => {
         initializeLocalVideo();
       }, 1000);
     } catch (error) {
       console.error('Failed to end session:', error);
-      toast.error('Failed to end session properly');
+      toast.error(t('video.endFailed'));
     }
   };
 
   const handleClearLingeringSession = async () => {
     try {
       await forceEndLingeringSession();
-      toast.success('Session cleared successfully. You can now start a new session.');
+      toast.success(t('video.sessionCleared'));
     } catch (error) {
       console.error('Failed to clear lingering session:', error);
-      toast.error('Failed to clear session. Please try again.');
+      toast.error(t('video.sessionClearFailed'));
     }
   };
 
@@ -262,39 +289,39 @@ export function VideoConsultation() {
         if (videoRef.current) {
           videoRef.current.srcObject = stream;
         }
-        toast.success('Camera and microphone access granted!');
+        toast.success(t('video.accessGranted'));
       } catch (error: any) {
         console.error('Error accessing media devices:', error);
         if (error.name === 'NotAllowedError' || error.name === 'PermissionDeniedError') {
-          setMediaPermissionError('Camera and microphone access denied. Please allow permissions to use video consultation.');
+          setMediaPermissionError('video.permissionDenied');
           setShowPermissionModal(true);
         } else {
-          setMediaPermissionError('Unable to access camera and microphone. Please check your device settings.');
-          toast.error('Unable to access camera/microphone');
+          setMediaPermissionError('video.devicesUnavailable');
+          toast.error(t('video.devicesUnavailableToast'));
         }
       }
     }, 500);
   };
 
-  const personalities = [
-    { id: 'supportive', name: 'Supportive & Caring', description: 'Empathetic and understanding' },
-    { id: 'professional', name: 'Professional', description: 'Clinical and structured approach' },
-    { id: 'friendly', name: 'Friendly & Casual', description: 'Warm and conversational' },
-    { id: 'motivational', name: 'Motivational', description: 'Inspiring and encouraging' },
+  const personalities: { id: string; name: MessageKey; description: MessageKey }[] = [
+    { id: 'supportive', name: 'settings.personalitySupportive', description: 'video.supportiveDescription' },
+    { id: 'professional', name: 'settings.personalityProfessional', description: 'video.professionalDescription' },
+    { id: 'friendly', name: 'settings.personalityFriendly', description: 'video.friendlyDescription' },
+    { id: 'motivational', name: 'settings.personalityMotivational', description: 'video.motivationalDescription' },
   ];
 
   // Check if the error indicates an existing active session
-  const isActiveSessionError = tavusError && tavusError.toLowerCase().includes('already have an active video session');
+  const isActiveSessionError = tavusError === t('video.alreadyActive');
 
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="text-center">
         <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
-          Face-to-Face AI Consultation
+          {t('video.title')}
         </h1>
         <p className="text-gray-600 dark:text-gray-300">
-          Have a personal video conversation with your AI mental health companion
+          {t('video.subtitle')}
         </p>
       </div>
 
@@ -308,9 +335,9 @@ export function VideoConsultation() {
           <div className="flex items-center space-x-3">
             <WifiOff className="h-5 w-5 text-red-600 dark:text-red-400" />
             <div>
-              <p className="font-medium text-red-800 dark:text-red-300">Connection Required</p>
+              <p className="font-medium text-red-800 dark:text-red-300">{t('video.connectionRequired')}</p>
               <p className="text-sm text-red-700 dark:text-red-400">
-                Video consultation requires a stable internet connection
+                {t('video.connectionRequiredHint')}
               </p>
             </div>
           </div>
@@ -327,16 +354,16 @@ export function VideoConsultation() {
           <div className="flex items-start space-x-3">
             <Shield className="h-5 w-5 text-orange-600 dark:text-orange-400 mt-1" />
             <div className="flex-1">
-              <p className="font-medium text-orange-800 dark:text-orange-300">Camera & Microphone Access Required</p>
+              <p className="font-medium text-orange-800 dark:text-orange-300">{t('video.accessRequired')}</p>
               <p className="text-sm text-orange-700 dark:text-orange-400 mb-3">
-                {mediaPermissionError}
+                {t(mediaPermissionError)}
               </p>
               <button
                 onClick={retryMediaAccess}
                 className="bg-orange-600 hover:bg-orange-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 flex items-center space-x-2"
               >
                 <RefreshCw className="h-4 w-4" />
-                <span>Try Again</span>
+                <span>{t('video.tryAgain')}</span>
               </button>
             </div>
           </div>
@@ -369,9 +396,9 @@ export function VideoConsultation() {
                       <Globe className="h-12 w-12 text-white" />
                     </motion.div>
                     
-                    <h3 className="text-2xl font-bold mb-2">Session Active</h3>
+                    <h3 className="text-2xl font-bold mb-2">{t('video.sessionActive')}</h3>
                     <p className="text-lg opacity-90 mb-4">
-                      Your AI consultation is running in a separate window
+                      {t('video.runningElsewhere')}
                     </p>
                     
                     {sessionData?.session_url && (
@@ -381,11 +408,11 @@ export function VideoConsultation() {
                           className="bg-white/20 hover:bg-white/30 text-white px-6 py-3 rounded-xl font-medium transition-colors duration-200 flex items-center space-x-2 mx-auto"
                         >
                           <ExternalLink className="h-5 w-5" />
-                          <span>Open Session Window</span>
+                          <span>{t('video.openWindow')}</span>
                         </button>
                         
                         <p className="text-sm opacity-75">
-                          If the window didn't open automatically, click the button above
+                          {t('video.openWindowHint')}
                         </p>
                       </div>
                     )}
@@ -396,7 +423,7 @@ export function VideoConsultation() {
                         animate={{ scale: [1, 1.2, 1] }}
                         transition={{ duration: 1, repeat: Infinity }}
                       />
-                      <span className="text-sm text-green-400">Connected to Tavus</span>
+                      <span className="text-sm text-green-400">{t('video.connectedToTavus')}</span>
                     </div>
                   </motion.div>
                 </div>
@@ -404,9 +431,9 @@ export function VideoConsultation() {
                 <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-purple-900 to-blue-900">
                   <div className="text-center text-white">
                     <Video className="h-16 w-16 mx-auto mb-4 opacity-50" />
-                    <p className="text-lg font-medium">AI Companion Ready</p>
-                    <p className="text-sm opacity-75">Start a session to begin video consultation</p>
-                    <p className="text-xs opacity-60 mt-2">Session will open in a new window</p>
+                    <p className="text-lg font-medium">{t('video.ready')}</p>
+                    <p className="text-sm opacity-75">{t('video.readyHint')}</p>
+                    <p className="text-xs opacity-60 mt-2">{t('video.opensInWindow')}</p>
                   </div>
                 </div>
               )}
@@ -461,7 +488,7 @@ export function VideoConsultation() {
             {isSessionActive && (
               <div className="absolute bottom-4 left-4 bg-black/50 backdrop-blur-sm text-white px-3 py-2 rounded-lg flex items-center space-x-2">
                 <ExternalLink className="h-4 w-4 text-blue-400" />
-                <span className="text-sm">External Window</span>
+                <span className="text-sm">{t('video.externalWindow')}</span>
               </div>
             )}
           </motion.div>
@@ -478,7 +505,7 @@ export function VideoConsultation() {
                   ? 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'
                   : 'bg-red-500 text-white hover:bg-red-600'
               }`}
-              title={mediaPermissionError ? 'Camera access required' : isVideoEnabled ? 'Turn off camera' : 'Turn on camera'}
+              title={t(mediaPermissionError ? 'video.cameraRequired' : isVideoEnabled ? 'video.cameraOff' : 'video.cameraOn')}
             >
               {isVideoEnabled ? <Video className="h-5 w-5" /> : <VideoOff className="h-5 w-5" />}
             </button>
@@ -493,7 +520,7 @@ export function VideoConsultation() {
                   ? 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'
                   : 'bg-red-500 text-white hover:bg-red-600'
               }`}
-              title={mediaPermissionError ? 'Microphone access required' : isAudioEnabled ? 'Mute microphone' : 'Unmute microphone'}
+              title={t(mediaPermissionError ? 'video.microphoneRequired' : isAudioEnabled ? 'video.mute' : 'video.unmute')}
             >
               {isAudioEnabled ? <Mic className="h-5 w-5" /> : <MicOff className="h-5 w-5" />}
             </button>
@@ -505,7 +532,7 @@ export function VideoConsultation() {
                 className="bg-red-500 hover:bg-red-600 text-white px-6 py-3 rounded-full transition-all duration-200 flex items-center space-x-2 disabled:opacity-50"
               >
                 <PhoneOff className="h-5 w-5" />
-                <span>End Session</span>
+                <span>{t('video.endSession')}</span>
               </button>
             ) : (
               <button
@@ -514,14 +541,14 @@ export function VideoConsultation() {
                 className="bg-gradient-to-r from-purple-600 to-blue-600 hover:shadow-lg text-white px-6 py-3 rounded-full transition-all duration-200 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <Phone className="h-5 w-5" />
-                <span>{isLoading ? 'Starting...' : 'Start Session'}</span>
+                <span>{isLoading ? t('video.starting') : t('video.startSession')}</span>
               </button>
             )}
 
             <button
               onClick={() => setShowSettings(!showSettings)}
               className="p-3 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600 transition-all duration-200"
-              title="Settings"
+              title={t('nav.settings')}
             >
               <Settings className="h-5 w-5" />
             </button>
@@ -537,7 +564,7 @@ export function VideoConsultation() {
           >
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center space-x-2">
               <User className="h-5 w-5" />
-              <span>AI Personality</span>
+              <span>{t('settings.personality')}</span>
             </h3>
             
             <div className="space-y-3">
@@ -560,8 +587,8 @@ export function VideoConsultation() {
                     disabled={isSessionActive}
                   />
                   <div>
-                    <p className="font-medium text-gray-900 dark:text-white">{personality.name}</p>
-                    <p className="text-sm text-gray-600 dark:text-gray-400">{personality.description}</p>
+                    <p className="font-medium text-gray-900 dark:text-white">{t(personality.name)}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">{t(personality.description)}</p>
                   </div>
                 </label>
               ))}
@@ -575,19 +602,19 @@ export function VideoConsultation() {
             transition={{ delay: 0.1 }}
             className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-gray-100 dark:border-gray-700"
           >
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Session Info</h3>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">{t('video.sessionInfo')}</h3>
             
             <div className="space-y-3">
               <div className="flex justify-between items-center">
-                <span className="text-gray-600 dark:text-gray-400">Max Duration:</span>
+                <span className="text-gray-600 dark:text-gray-400">{t('video.maxDuration')}</span>
                 <span className="font-medium text-gray-900 dark:text-white">
-                  {Math.floor(maxSessionTime / 60)} minutes
+                  {t('video.minutes', { count: Math.floor(maxSessionTime / 60) })}
                 </span>
               </div>
               
               {isSessionActive && (
                 <div className="flex justify-between items-center">
-                  <span className="text-gray-600 dark:text-gray-400">Time Left:</span>
+                  <span className="text-gray-600 dark:text-gray-400">{t('video.timeLeft')}</span>
                   <span className="font-medium text-gray-900 dark:text-white">
                     {formatDuration(timeRemaining)}
                   </span>
@@ -595,18 +622,40 @@ export function VideoConsultation() {
               )}
 
               <div className="flex justify-between items-center">
-                <span className="text-gray-600 dark:text-gray-400">Status:</span>
+                <span className="text-gray-600 dark:text-gray-400">{t('video.status')}</span>
                 <span className={`font-medium ${
                   isSessionActive 
                     ? 'text-green-600 dark:text-green-400' 
                     : 'text-gray-500 dark:text-gray-400'
                 }`}>
-                  {isSessionActive ? 'Active (External Window)' : 'Inactive'}
+                  {isSessionActive ? t('video.statusActive') : t('video.statusInactive')}
                 </span>
               </div>
             </div>
           </motion.div>
 
+          {/* Crisis Support */}
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: 0.15 }}
+            className="bg-pink-50 dark:bg-pink-900/20 rounded-2xl p-6 border border-pink-200 dark:border-pink-800"
+          >
+            <h3 className="text-lg font-semibold text-pink-900 dark:text-pink-300 mb-2 flex items-center space-x-2">
+              <Heart className="h-5 w-5" />
+              <span>{t('video.urgentHelp')}</span>
+            </h3>
+            <p className="text-sm text-pink-800 dark:text-pink-400 mb-3">
+              {t('video.notCrisisService')}
+            </p>
+            <button
+              onClick={() => setShowCrisisResources(true)}
+              className="bg-pink-600 hover:bg-pink-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200"
+            >
+              {t('video.crisisResources')}
+            </button>
+          </motion.div>
+
           {/* Tips */}
           <motion.div
             initial={{ opacity: 0, x: 20 }}
@@ -614,14 +663,9 @@ export function VideoConsultation() {
             transition={{ delay: 0.2 }}
             className="bg-blue-50 dark:bg-blue-900/20 rounded-2xl p-6 border border-blue-200 dark:border-blue-800"
           >
-            <h3 className="text-lg font-semibold text-blue-900 dark:text-blue-300 mb-3">Tips for Better Sessions</h3>
+            <h3 className="text-lg font-semibold text-blue-900 dark:text-blue-300 mb-3">{t('video.tipsTitle')}</h3>
             <ul className="space-y-2 text-sm text-blue-800 dark:text-blue-400">
-              <li>• Session will open in a new window/tab</li>
-              <li>• Ensure good lighting on your face</li>
-              <li>• Use headphones for better audio quality</li>
-              <li>• Find a quiet, private space</li>
-              <li>• Speak clearly and at normal pace</li>
-              <li>• Be open and honest with the AI</li>
+              {TIPS.map(tip => <li key={tip}>• {t(tip)}</li>)}
             </ul>
           </motion.div>
         </div>
@@ -637,7 +681,7 @@ export function VideoConsultation() {
           <div className="flex items-start space-x-3">
             <Shield className="h-5 w-5 text-red-600 dark:text-red-400 mt-1" />
             <div className="flex-1">
-              <p className="font-medium text-red-800 dark:text-red-300">Session Error</p>
+              <p className="font-medium text-red-800 dark:text-red-300">{t('video.sessionError')}</p>
               <p className="text-sm text-red-700 dark:text-red-400 mb-3">{tavusError}</p>
               
               {/* Show Clear Session button for active session errors */}
@@ -648,7 +692,7 @@ export function VideoConsultation() {
                   className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 flex items-center space-x-2 disabled:opacity-50"
                 >
                   <X className="h-4 w-4" />
-                  <span>{isLoading || isForceEndingSession ? 'Clearing...' : 'Clear Session'}</span>
+                  <span>{isLoading || isForceEndingSession ? t('video.clearing') : t('video.clearSession')}</span>
                 </button>
               )}
             </div>
@@ -656,6 +700,12 @@ export function VideoConsultation() {
         </motion.div>
       )}
 
+      <CrisisResourcesModal
+        isOpen={showCrisisResources}
+        region={safetyRegion}
+        onClose={() => setShowCrisisResources(false)}
+      />
+
       {/* Permission Modal */}
       <Modal
         isOpen={showPermissionModal}
@@ -667,20 +717,17 @@ export function VideoConsultation() {
         <div className="bg-white dark:bg-gray-900 rounded-2xl p-8 max-w-md w-full shadow-xl">
           <div className="text-center mb-6">
             <Shield className="h-16 w-16 text-orange-500 mx-auto mb-4" />
-            <h2 className="text-2xl font-bold mb-2 text-gray-900 dark:text-white">Camera & Microphone Access Required</h2>
+            <h2 className="text-2xl font-bold mb-2 text-gray-900 dark:text-white">{t('video.accessRequired')}</h2>
             <p className="text-gray-700 dark:text-gray-300">
-              To use video consultation, please allow access to your camera and microphone.
+              {t('video.allowAccess')}
             </p>
           </div>
           
           <div className="space-y-4 mb-6">
             <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
-              <h3 className="font-semibold text-gray-900 dark:text-white mb-2">How to enable permissions:</h3>
+              <h3 className="font-semibold text-gray-900 dark:text-white mb-2">{t('video.howToEnable')}</h3>
               <ol className="text-sm text-gray-700 dark:text-gray-300 space-y-1">
-                <li>1. Look for the camera/microphone icon in your browser's address bar</li>
-                <li>2. Click on it and select "Allow"</li>
-                <li>3. Or go to your browser settings and enable camera/microphone for this site</li>
-                <li>4. Refresh the page if needed</li>
+                {PERMISSION_STEPS.map((step, index) => <li key={step}>{index + 1}. {t(step)}</li>)}
               </ol>
             </div>
           </div>
@@ -691,13 +738,13 @@ export function VideoConsultation() {
               onClick={retryMediaAccess}
             >
               <RefreshCw className="h-4 w-4" />
-              <span>Try Again</span>
+              <span>{t('video.tryAgain')}</span>
             </button>
             <button
               className="bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 px-4 py-2 rounded-lg font-semibold"
               onClick={() => setShowPermissionModal(false)}
             >
-              Close
+              {t('common.close')}
             </button>
           </div>
         </div>
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { MessageSquare, Edit3, Trash2, Check, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useI18n } from '../../hooks/useI18n';
+import { dateLocaleFor } from '../../lib/i18n';
+
+interface ChatSession {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ChatSessionSidebarProps {
+  sessions: ChatSession[];
+  currentSessionId: string | null;
+  loading: boolean;
+  disabled?: boolean;
+  onSelect: (session: ChatSession) => void;
+  onRename: (sessionId: string, title: string) => void;
+  onDelete: (sessionId: string) => void;
+}
+
+export function ChatSessionSidebar({
+  sessions,
+  currentSessionId,
+  loading,
+  disabled = false,
+  onSelect,
+  onRename,
+  onDelete,
+}: ChatSessionSidebarProps) {
+  const { t, locale } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const startEditing = (session: ChatSession) => {
+    setEditingId(session.id);
+    setEditTitle(session.title);
+    setConfirmDeleteId(null);
+  };
+
+  const submitRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId && editTitle.trim()) {
+      onRename(editingId, editTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 p-4">
+      <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3 flex items-center space-x-2">
+        <MessageSquare className="h-4 w-4" />
+        <span>{t('chat.savedChats')}</span>
+      </h2>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-purple-600"></div>
+        </div>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-gray-400 dark:text-gray-500 py-4 text-center">
+          {t('chat.noSavedChats')}
+        </p>
+      ) : (
+        <ul className="space-y-1 max-h-96 overflow-y-auto">
+          <AnimatePresence initial={false}>
+            {sessions.map((session) => (
+              <motion.li
+                key={session.id}
+                initial={{ opacity: 0, x: -10 }}
+                animate={{ opacity: 1, x: 0 }}
+                exit={{ opacity: 0, x: -10 }}
+                className={`group rounded-xl px-3 py-2 transition-colors duration-200 ${
+                  session.id === currentSessionId
+                    ? 'bg-purple-100 dark:bg-purple-900/30'
+                    : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                }`}
+              >
+                {editingId === session.id ? (
+                  <form onSubmit={submitRename} className="flex items-center space-x-1">
+                    <input
+                      type="text"
+                      value={editTitle}
+                      onChange={(e) => setEditTitle(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                      className="flex-1 min-w-0 px-2 py-1 text-sm rounded-lg border border-purple-200 dark:border-purple-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-purple-400"
+                      maxLength={100}
+                      autoFocus
+                    />
+                    <button type="submit" className="p-1 text-green-600 hover:text-green-700" title={t('chat.saveTitle')}>
+                      <Check className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(null)}
+                      className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                      title={t('common.cancel')}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </form>
+                ) : confirmDeleteId === session.id ? (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-red-600 dark:text-red-400">{t('chat.confirmDelete')}</span>
+                    <div className="flex items-center space-x-1">
+                      <button
+                        onClick={() => {
+                          onDelete(session.id);
+                          setConfirmDeleteId(null);
+                        }}
+                        className="p-1 text-red-600 hover:text-red-700"
+                        title={t('chat.delete')}
+                      >
+                        <Check className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => setConfirmDeleteId(null)}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                        title={t('chat.keep')}
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <button
+                      onClick={() => onSelect(session)}
+                      disabled={disabled}
+                      className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+                    >
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{session.title}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatDistanceToNow(new Date(session.updated_at), { addSuffix: true, locale: dateLocaleFor(locale) })}
+                      </p>
+                    </button>
+                    {/* Hidden until hover on wide screens only; keyboard focus and touch
+                        layouts always see them */}
+                    <div className="flex items-center space-x-1 md:opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 focus-within:opacity-100 transition-opacity duration-200">
+                      <button
+                        onClick={() => startEditing(session)}
+                        className="p-1 text-gray-400 hover:text-purple-600 dark:hover:text-purple-400"
+                        title={t('chat.rename')}
+                      >
+                        <Edit3 className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          setConfirmDeleteId(session.id);
+                          setEditingId(null);
+                        }}
+                        className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                        title={t('chat.delete')}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </motion.li>
+            ))}
+          </AnimatePresence>
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { Link } from 'react-router-dom';
 import { 
   Brain, 
   MessageSquare, 
@@ -16,112 +17,103 @@ import {
   AlertTriangle,
   Volume2,
   VolumeX,
-  Headphones
+  Headphones,
+  Square,
+  Save,
+  EyeOff,
+  Undo2,
+  CheckCircle
 } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
+import { useI18n } from '../../hooks/useI18n';
 import { useSettings } from '../../hooks/useSettings';
 import { useNetworkStatus } from '../../hooks/useNetworkStatus';
 import { useVoice } from '../../hooks/useVoice';
+import { useChatSessions } from '../../hooks/useChatSessions';
+import { useSafety } from '../../hooks/useSafety';
+import { useMemory } from '../../hooks/useMemory';
+import { useTasks } from '../../hooks/useTasks';
+import { useMoodEntries } from '../../hooks/useMoodEntries';
+import { useProfile } from '../../hooks/useProfile';
+import { getLLMProvider } from '../../lib/llm';
+import { createSentenceBuffer } from '../../lib/sentences';
+import { SAFETY_GUIDANCE } from '../../lib/safety';
+import { analyzeMood } from '../../lib/moodAnalysis';
+import { describeIntent, detectIntent } from '../../lib/intents';
+import type { Intent } from '../../lib/intents';
+import { summarizeCheckIns } from '../../lib/moodAnalytics';
+import { exerciseForRecommendation } from '../../lib/exercises';
+import { mayStore } from '../../lib/consent';
+import { t as translate } from '../../lib/i18n';
+import { RATING_LABELS } from '../../lib/reports';
+import type { AIReport } from '../../lib/reports';
+import type { CrisisRegion } from '../../lib/safety';
+import { ChatSessionSidebar } from './ChatSessionSidebar';
+import { CrisisResourcesModal } from '../safety/CrisisResourcesModal';
 import toast from 'react-hot-toast';
 
-const getGeminiResponse = async (input: string, personality: string, conversationHistory: string = ''): Promise<string> => {
-  try {
-    const personalityPrompts = {
-      supportive: "You are a supportive and caring AI companion. Respond with empathy and encouragement.",
-      professional: "You are a professional AI assistant. Provide clear, concise, and helpful responses.",
-      friendly: "You are a friendly and casual AI companion. Be warm and conversational in your responses.",
-      motivational: "You are a motivational AI coach. Inspire and encourage the user to achieve their goals."
-    };
+const personalityPrompts = {
+  supportive: "You are a supportive and caring AI companion. Respond with empathy and encouragement.",
+  professional: "You are a professional AI assistant. Provide clear, concise, and helpful responses.",
+  friendly: "You are a friendly and casual AI companion. Be warm and conversational in your responses.",
+  motivational: "You are a motivational AI coach. Inspire and encourage the user to achieve their goals."
+};
 
-    const systemPrompt = personalityPrompts[personality as keyof typeof personalityPrompts] || personalityPrompts.supportive;
-    const contextPrompt = conversationHistory ? `Previous conversation context:\n${conversationHistory}\n\n` : '';
-    const fullPrompt = `${systemPrompt}\n\n${contextPrompt}User: ${input}\n\nAssistant:`;
+const NO_PROVIDER_REPLY = "AI chat isn't configured yet. Please add an AI provider key to your environment.";
+const EMPTY_REPLY = "I'm here to help! Could you please rephrase your question?";
+const CONNECTION_ERROR_REPLY = "I'm having trouble connecting right now. Please try again in a moment.";
 
-    // Note: Replace with your actual Gemini API key
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${import.meta.env.VITE_GEMINI_API_KEY}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: fullPrompt }] }]
-        })
-      }
-    );
-    
-    if (!response.ok) {
-      throw new Error('Failed to get AI response');
-    }
-    
-    const data = await response.json();
-    const aiResponse = data.candidates?.[0]?.content?.parts?.[0]?.text || "I'm here to help! Could you please rephrase your question?";
-    return aiResponse;
-  } catch (err) {
-    console.error('Gemini API error:', err);
-    return "I'm having trouble connecting right now. Please try again in a moment.";
+// Streams the reply through onToken as it is generated. Aborting via the
+// signal rejects with an AbortError so the caller can keep the partial reply.
+const streamAIResponse = async (
+  input: string,
+  personality: string,
+  conversationHistory: string,
+  onToken: (delta: string) => void,
+  signal?: AbortSignal,
+  systemNotes: string[] = []
+): Promise<string> => {
+  const provider = getLLMProvider();
+  if (!provider) {
+    onToken(NO_PROVIDER_REPLY);
+    return NO_PROVIDER_REPLY;
   }
-};
 
-const generateAIReport = async (messages: any[]): Promise<any> => {
+  let received = '';
   try {
-    const userMessages = messages.filter(m => m.type === 'user').map(m => m.content).join(' ');
-    
-    const reportPrompt = `Analyze the following conversation and provide a detailed psychological and emotional report in JSON format:
-
-Conversation: "${userMessages}"
-
-Please provide a JSON response with the following structure:
-{
-  "overall_mood": "positive/negative/neutral",
-  "emotions": ["array", "of", "detected", "emotions"],
-  "stress_level": "low/medium/high",
-  "recommendations": ["array", "of", "helpful", "suggestions"],
-  "summary": "detailed summary of the user's emotional state and mental health",
-  "key_concerns": ["array", "of", "main", "concerns"],
-  "positive_indicators": ["array", "of", "positive", "signs"],
-  "confidence_score": 0.85
-}
+    const personalityPrompt = personalityPrompts[personality as keyof typeof personalityPrompts] || personalityPrompts.supportive;
+    const systemPrompt = [personalityPrompt, ...systemNotes].filter(Boolean).join('\n\n');
+    const contextPrompt = conversationHistory ? `Previous conversation context:\n${conversationHistory}` : '';
 
-Base your analysis on psychological principles and provide actionable insights.`;
-
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${import.meta.env.VITE_GEMINI_API_KEY}`,
+    const aiResponse = await provider.stream(
       {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: reportPrompt }] }]
-        })
+        messages: [
+          { role: 'system', content: contextPrompt ? `${systemPrompt}\n\n${contextPrompt}` : systemPrompt },
+          { role: 'user', content: input },
+        ],
+        signal,
+      },
+      (delta) => {
+        received += delta;
+        onToken(delta);
       }
     );
-    
-    if (!response.ok) {
-      throw new Error('Failed to generate AI report');
+
+    if (!aiResponse.trim()) {
+      onToken(EMPTY_REPLY);
+      return EMPTY_REPLY;
     }
-    
-    const data = await response.json();
-    const reportText = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    
-    // Extract JSON from the response
-    const jsonMatch = reportText.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
+    return aiResponse;
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.error(`${provider.name} API error:`, err);
+
+    if (received) {
+      toast.error(translate('voice.replyCutOff'));
+      return received;
     }
-    
-    // Fallback if JSON parsing fails
-    return {
-      overall_mood: 'neutral',
-      emotions: ['mixed'],
-      stress_level: 'medium',
-      recommendations: ['Continue regular check-ins with mental health'],
-      summary: 'Unable to generate detailed analysis. Please try again.',
-      key_concerns: [],
-      positive_indicators: [],
-      confidence_score: 0.5
-    };
-  } catch (error) {
-    console.error('Error generating AI report:', error);
-    throw error;
+    onToken(CONNECTION_ERROR_REPLY);
+    return CONNECTION_ERROR_REPLY;
   }
 };
 
@@ -151,12 +143,109 @@ const translateText = async (text: string, targetLang: string, sourceLang: strin
   }
 };
 
+// Replaces the normal AI reply when a message is assessed as high risk
+const buildCrisisReply = (region: CrisisRegion): string => {
+  const [primary] = region.resources;
+  const contact = primary.phone
+    ? `${primary.name} by calling ${primary.phone}${primary.sms ? ` or texting ${primary.sms}` : ''}`
+    : `${primary.name} at ${primary.url}`;
+
+  return `I'm really sorry you're going through this, and I'm glad you told me. You deserve support from a real person right now - please reach out to ${contact}. If you're in immediate danger, call ${region.emergencyNumber}. You matter, and you don't have to handle this alone.`;
+};
+
+interface ChatMessage {
+  id: string;
+  type: 'user' | 'ai';
+  content: string;
+  timestamp: Date;
+  streaming?: boolean;
+  // Set on confirmations of voice/text commands so they can be undone
+  action?: CommandAction;
+}
+
+interface CommandAction {
+  kind: 'task' | 'mood';
+  id: string;
+  undone?: boolean;
+}
+
+interface ReplyHandlers {
+  // Text to show as it arrives, in the user's language
+  onText?: (text: string) => void;
+  // Each complete sentence, in the user's language, e.g. for speech
+  onSentence?: (sentence: string) => void;
+}
+
+// Streams an English reply and hands it back in the user's language. Without
+// translation the text is shown token by token; with translation it is
+// translated and shown a sentence at a time, keeping sentences in order.
+const streamReply = async (
+  input: string,
+  personality: string,
+  language: string,
+  conversationHistory: string,
+  handlers: ReplyHandlers,
+  signal: AbortSignal,
+  systemNotes: string[] = []
+): Promise<string> => {
+  const translating = !!language && language !== 'en';
+  let shownText = '';
+  let pendingSentences = Promise.resolve();
+
+  const sentences = createSentenceBuffer((sentence) => {
+    pendingSentences = pendingSentences.then(async () => {
+      const finalSentence = translating ? await translateText(sentence, language, 'en') : sentence;
+      if (signal.aborted) return;
+
+      if (translating) {
+        const text = shownText ? ` ${finalSentence}` : finalSentence;
+        shownText += text;
+        handlers.onText?.(text);
+      }
+      handlers.onSentence?.(finalSentence);
+    });
+  });
+
+  await streamAIResponse(input, personality, conversationHistory, (delta) => {
+    if (!translating) {
+      shownText += delta;
+      handlers.onText?.(delta);
+    }
+    sentences.push(delta);
+  }, signal, systemNotes);
+
+  sentences.flush();
+  await pendingSentences;
+  return shownText;
+};
+
 export function VoiceAI() {
   const { user } = useAuth();
-  const { settings } = useSettings();
+  const { settings, updateSettings } = useSettings();
+  const { t } = useI18n();
   const { isOnline } = useNetworkStatus();
+  const {
+    sessions,
+    currentSession,
+    loading: sessionsLoading,
+    setCurrentSession,
+    loadMessages,
+    createNewSession,
+    addMessage,
+    deleteSession,
+    updateSessionTitle,
+  } = useChatSessions();
+  const { region: safetyRegion, checkMessage } = useSafety();
+  const {
+    loading: memoryLoading,
+    summarizeSession,
+    summarizeStaleSessions,
+    getMemoryPrompt,
+  } = useMemory();
   const {
     textToSpeech,
+    speakQueued,
+    waitForSpeechQueue,
     stopSpeech,
     speechToSpeech,
     isPlaying,
@@ -165,18 +254,30 @@ export function VoiceAI() {
     isVoiceEnabled,
     stopSpeechRecognition,
   } = useVoice();
+  const { addTask, deleteTask } = useTasks();
+  const { entries: moodEntries, addEntry, deleteEntry } = useMoodEntries();
+  const { timezone } = useProfile();
 
   const [isProcessing, setIsProcessing] = useState(false);
   const [textInput, setTextInput] = useState('');
-  const [moodReport, setMoodReport] = useState<any>(null);
+  const [moodReport, setMoodReport] = useState<AIReport | null>(null);
+  // Mood reports also show what the user logged in the week before
+  const weekOfCheckIns = useMemo(() => {
+    const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+    return summarizeCheckIns(moodEntries.filter(entry => new Date(entry.created_at).getTime() >= weekAgo));
+  }, [moodEntries]);
   const [autoSpeak, setAutoSpeak] = useState(true);
   const [continuousMode, setContinuousMode] = useState(false);
-  const [currentMessages, setCurrentMessages] = useState<Array<{id: string, type: 'user' | 'ai', content: string, timestamp: Date}>>([]);
+  const [currentMessages, setCurrentMessages] = useState<ChatMessage[]>([]);
   const continuousRef = useRef(false);
+  const replyControllerRef = useRef<AbortController | null>(null);
+  const [showCrisisResources, setShowCrisisResources] = useState(false);
 
   const isSpeechRecognitionSupported = 'webkitSpeechRecognition' in window || 'SpeechRecognition' in window;
   const canUseVoice = isOnline && isSpeechRecognitionSupported && isVoiceEnabled;
   const canUseAI = isOnline;
+  const streamingMessage = currentMessages.find(m => m.streaming);
+  const saveConversations = settings.save_conversations;
 
   // Cleanup on unmount
   useEffect(() => {
@@ -185,6 +286,109 @@ export function VoiceAI() {
     };
   }, [cleanup]);
 
+  // A saved chat is summarised into long-term memory once the user moves on
+  // from it: new chat, another session, clearing, or leaving the page
+  const previousSessionIdRef = useRef<string | null>(null);
+  const summarizeSessionRef = useRef(summarizeSession);
+  summarizeSessionRef.current = summarizeSession;
+
+  useEffect(() => {
+    const previousId = previousSessionIdRef.current;
+    previousSessionIdRef.current = currentSession?.id ?? null;
+    if (previousId && previousId !== currentSession?.id) {
+      summarizeSessionRef.current(previousId);
+    }
+  }, [currentSession?.id]);
+
+  useEffect(() => {
+    return () => {
+      if (previousSessionIdRef.current) {
+        summarizeSessionRef.current(previousSessionIdRef.current);
+      }
+    };
+  }, []);
+
+  // Pick up chats that were abandoned without any of the above, once memory
+  // has loaded
+  const summarizeStaleRef = useRef(() => summarizeStaleSessions(currentSession?.id));
+  summarizeStaleRef.current = () => summarizeStaleSessions(currentSession?.id);
+
+  useEffect(() => {
+    if (!memoryLoading) {
+      summarizeStaleRef.current();
+    }
+  }, [memoryLoading]);
+
+  // Checks the original and translated text so the English rules still apply
+  const assessInput = useCallback((input: string, translatedInput: string, source: 'chat' | 'voice') =>
+    checkMessage(translatedInput === input ? input : `${input}\n${translatedInput}`, source),
+  [checkMessage]);
+
+  const getCrisisReply = useCallback(async (): Promise<string> => {
+    const reply = buildCrisisReply(safetyRegion);
+    if (settings.language && settings.language !== 'en') {
+      return translateText(reply, settings.language, 'en');
+    }
+    return reply;
+  }, [safetyRegion, settings.language]);
+
+  const findIntent = useCallback((input: string, translatedInput: string): Intent | null =>
+    detectIntent(input, { timeZone: timezone }) ??
+      (translatedInput !== input ? detectIntent(translatedInput, { timeZone: timezone }) : null),
+  [timezone]);
+
+  const undoCommand = useCallback(async (action: CommandAction) => {
+    const undone = action.kind === 'task' ? await deleteTask(action.id) : await deleteEntry(action.id);
+    if (!undone) return;
+
+    setCurrentMessages(prev => prev.map(m =>
+      m.action?.id === action.id ? { ...m, action: { ...action, undone: true } } : m
+    ));
+    toast.success(t(action.kind === 'task' ? 'voice.taskRemoved' : 'voice.moodRemoved'));
+  }, [deleteTask, deleteEntry, t]);
+
+  // Carries out a recognised command and returns the confirmation to show
+  // and speak, or null if saving failed
+  const runCommand = useCallback(async (intent: Intent): Promise<{ reply: string; action: CommandAction } | null> => {
+    let action: CommandAction | null = null;
+
+    if (intent.type === 'create_task') {
+      const task = await addTask({
+        title: intent.title,
+        description: null,
+        priority: intent.priority ?? 'medium',
+        category: intent.category ?? 'personal',
+        due_date: intent.due_date,
+        reminder_enabled: !!intent.reminder_time,
+        reminder_time: intent.reminder_time,
+      });
+      if (task) action = { kind: 'task', id: task.id };
+    } else {
+      const entry = await addEntry({ mood: intent.mood, emoji: intent.emoji, notes: intent.notes });
+      if (entry) action = { kind: 'mood', id: entry.id };
+    }
+    if (!action) return null;
+
+    const reply = describeIntent(intent, timezone);
+    const savedAction = action;
+    toast((item) => (
+      <span className="flex items-center space-x-3">
+        <span>{t(intent.type === 'create_task' ? 'voice.taskAdded' : 'voice.moodLogged')}</span>
+        <button
+          onClick={() => {
+            toast.dismiss(item.id);
+            undoCommand(savedAction);
+          }}
+          className="text-sm font-semibold text-purple-600 hover:text-purple-800"
+        >
+          {t('voice.undo')}
+        </button>
+      </span>
+    ), { icon: '✅', duration: 8000 });
+
+    return { reply, action };
+  }, [addTask, addEntry, timezone, undoCommand, t]);
+
   // Infinite voice conversation loop
   const startContinuousVoiceConversation = useCallback(async () => {
     continuousRef.current = true;
@@ -199,24 +403,47 @@ export function VoiceAI() {
           if (settings.language && settings.language !== 'en') {
             translatedInput = await translateText(transcript, 'en', settings.language);
           }
-          // Get conversation history (optional: can be omitted for pure voice loop)
-          const aiResponse = await getGeminiResponse(translatedInput, settings.ai_personality, '');
-          let finalResponse = aiResponse;
-          if (settings.language && settings.language !== 'en') {
-            finalResponse = await translateText(aiResponse, settings.language, 'en');
+
+          const assessment = await assessInput(transcript, translatedInput, 'voice');
+          if (!continuousRef.current) break;
+          if (assessment.level === 'high') {
+            // Leave voice mode so the resources stay on screen
+            setShowCrisisResources(true);
+            speakQueued(await getCrisisReply());
+            await waitForSpeechQueue();
+            setContinuousMode(false);
+            break;
+          }
+
+          const intent = findIntent(transcript, translatedInput);
+          if (intent) {
+            const result = await runCommand(intent);
+            await textToSpeech(result ? result.reply : t('voice.commandFailedSpoken'));
+            continue;
           }
-          // Speak the AI response
-          await textToSpeech(finalResponse);
+
+          // Speak the reply sentence by sentence as it streams in
+          const controller = new AbortController();
+          replyControllerRef.current = controller;
+          await streamReply(translatedInput, settings.ai_personality, settings.language, '', {
+            onSentence: (sentence) => { speakQueued(sentence); },
+          }, controller.signal, [
+            getMemoryPrompt(translatedInput),
+            assessment.level === 'elevated' ? SAFETY_GUIDANCE : '',
+          ]);
+          // Let the reply finish playing before listening again
+          await waitForSpeechQueue();
         }
       } catch (err) {
         if (!continuousRef.current) break;
         // Optionally, handle errors (e.g., no speech detected)
       }
     }
-  }, [speechToSpeech, textToSpeech, settings.language, settings.ai_personality, translateText]);
+  }, [speechToSpeech, speakQueued, waitForSpeechQueue, textToSpeech, assessInput, getCrisisReply, findIntent, runCommand, getMemoryPrompt, settings.language, settings.ai_personality, t]);
 
   const stopContinuousVoiceConversation = useCallback(() => {
     continuousRef.current = false;
+    replyControllerRef.current?.abort();
     stopSpeech();
     stopSpeechRecognition();
   }, [stopSpeech, stopSpeechRecognition]);
@@ -234,8 +461,9 @@ export function VoiceAI() {
   const processChatInput = async (input: string, shouldSpeak: boolean = false) => {
     if (!input.trim() || !user) return;
     
-    if (!canUseAI) {
-      toast.error('Cannot send message - no internet connection');
+    // Commands are matched on the device, so they still work offline
+    if (!canUseAI && !detectIntent(input, { timeZone: timezone })) {
+      toast.error(t('voice.sendOffline'));
       return;
     }
     
@@ -244,7 +472,7 @@ export function VoiceAI() {
     try {
       // Translate user input to English if needed
       let translatedInput = input;
-      if (settings.language && settings.language !== 'en') {
+      if (canUseAI && settings.language && settings.language !== 'en') {
         translatedInput = await translateText(input, 'en', settings.language);
       }
       
@@ -256,54 +484,127 @@ export function VoiceAI() {
         timestamp: new Date()
       };
       setCurrentMessages(prev => [...prev, userMessage]);
+
+      // In save mode the first message starts a new stored session. Spoken
+      // turns also need voice recordings on, since the title is the transcript.
+      const source = shouldSpeak ? 'voice' : 'text';
+      const storeTurn = mayStore(user.id, source === 'voice' ? 'voice_transcript' : 'chat_message');
+      let sessionId = storeTurn ? currentSession?.id ?? null : null;
+      if (storeTurn && !sessionId) {
+        const session = await createNewSession(input.length > 50 ? `${input.slice(0, 47)}...` : input);
+        sessionId = session?.id ?? null;
+      }
+      if (sessionId) {
+        addMessage(sessionId, 'user', input, source);
+      }
       
       // Get conversation history for context (only from current session)
       const conversationHistory = currentMessages
         .slice(-10) // Last 10 messages for context
         .map(m => `${m.type === 'user' ? 'User' : 'AI'}: ${m.content}`)
         .join('\n');
-      
-      // Get AI response with context (in English)
-      const aiResponse = await getGeminiResponse(translatedInput, settings.ai_personality, conversationHistory);
-      
-      // Translate AI response back to user's language if needed
-      let finalResponse = aiResponse;
-      if (settings.language && settings.language !== 'en') {
-        finalResponse = await translateText(aiResponse, settings.language, 'en');
+
+      const speak = (autoSpeak || shouldSpeak) && isVoiceEnabled;
+      const assessment = await assessInput(input, translatedInput, shouldSpeak ? 'voice' : 'chat');
+      if (assessment.level === 'high') {
+        // Skip the normal AI reply and point to people who can help
+        const crisisReply = await getCrisisReply();
+        setCurrentMessages(prev => [...prev, {
+          id: (Date.now() + 1).toString(),
+          type: 'ai',
+          content: crisisReply,
+          timestamp: new Date()
+        }]);
+        setShowCrisisResources(true);
+        if (speak) speakQueued(crisisReply);
+        if (sessionId) addMessage(sessionId, 'ai', crisisReply, source);
+        return;
       }
-      
-      // Add AI response to current session (temporary, not saved)
-      const aiMessage = {
-        id: (Date.now() + 1).toString(),
-        type: 'ai' as const,
-        content: finalResponse,
-        timestamp: new Date()
-      };
-      setCurrentMessages(prev => [...prev, aiMessage]);
-      
-      // Speak the AI response if auto-speak is enabled or explicitly requested
-      if ((autoSpeak || shouldSpeak) && isVoiceEnabled) {
-        await textToSpeech(finalResponse);
+
+      const intent = findIntent(input, translatedInput);
+      if (intent) {
+        const result = await runCommand(intent);
+        const reply = result ? result.reply : t('voice.commandFailed');
+        setCurrentMessages(prev => [...prev, {
+          id: (Date.now() + 1).toString(),
+          type: 'ai',
+          content: reply,
+          timestamp: new Date(),
+          action: result?.action,
+        }]);
+        if (speak) textToSpeech(reply);
+        if (sessionId) addMessage(sessionId, 'ai', reply, source);
+        return;
       }
       
-      toast.success('AI response generated!');
+      // Stream the AI response into a placeholder message (temporary, not saved)
+      const aiMessageId = (Date.now() + 1).toString();
+      setCurrentMessages(prev => [...prev, {
+        id: aiMessageId,
+        type: 'ai',
+        content: '',
+        timestamp: new Date(),
+        streaming: true
+      }]);
+
+      const controller = new AbortController();
+      replyControllerRef.current = controller;
+      let replyText = '';
+
+      try {
+        await streamReply(translatedInput, settings.ai_personality, settings.language, conversationHistory, {
+          onText: (text) => {
+            replyText += text;
+            setCurrentMessages(prev => prev.map(m =>
+              m.id === aiMessageId ? { ...m, content: m.content + text } : m
+            ));
+          },
+          // Start speaking on the first complete sentence
+          onSentence: speak ? (sentence) => { speakQueued(sentence); } : undefined,
+        }, controller.signal, [
+          getMemoryPrompt(translatedInput),
+          assessment.level === 'elevated' ? SAFETY_GUIDANCE : '',
+        ]);
+        toast.success(t('voice.replyGenerated'));
+      } catch (error) {
+        if (!controller.signal.aborted) throw error;
+        // Cancelled - keep whatever arrived so far
+      } finally {
+        if (replyControllerRef.current === controller) {
+          replyControllerRef.current = null;
+        }
+        setCurrentMessages(prev => prev
+          .filter(m => m.id !== aiMessageId || m.content.trim())
+          .map(m => m.id === aiMessageId ? { ...m, streaming: false } : m)
+        );
+        // Cancelled replies are saved as far as they got
+        if (sessionId && replyText.trim()) {
+          addMessage(sessionId, 'ai', replyText, source);
+        }
+      }
     } catch (error) {
       console.error('Error processing chat input:', error);
-      toast.error('Failed to process your request');
+      toast.error(t('voice.requestFailed'));
     } finally {
       setIsProcessing(false);
       setTextInput('');
     }
   };
 
+  const handleCancelResponse = () => {
+    replyControllerRef.current?.abort();
+    stopSpeech();
+    toast(t('voice.replyCancelled'));
+  };
+
   const handleVoiceInput = async () => {
     if (!canUseVoice) {
       if (!isOnline) {
-        toast.error('Voice features require an internet connection');
+        toast.error(t('voice.featuresOffline'));
       } else if (!isSpeechRecognitionSupported) {
-        toast.error('Speech recognition not supported in this browser');
+        toast.error(t('voice.recognitionUnsupported'));
       } else if (!isVoiceEnabled) {
-        toast.error('ElevenLabs API key not configured');
+        toast.error(t('voice.noApiKey'));
       }
       return;
     }
@@ -315,7 +616,7 @@ export function VoiceAI() {
       }
     } catch (error) {
       console.error('Voice input error:', error);
-      toast.error(error instanceof Error ? error.message : 'Voice input failed');
+      toast.error(error instanceof Error ? error.message : t('voice.inputFailed'));
     }
   };
 
@@ -327,29 +628,55 @@ export function VoiceAI() {
   };
 
   const handleNewChat = () => {
+    setCurrentSession(null);
     setCurrentMessages([]);
-    toast.success('New conversation started');
+    toast.success(t('voice.newConversation'));
+  };
+
+  const handleToggleSaveConversations = () => {
+    if (saveConversations) {
+      // Later messages stay private, so stop appending to the stored session
+      setCurrentSession(null);
+    }
+    updateSettings({ save_conversations: !saveConversations });
+  };
+
+  const handleResumeSession = async (session: { id: string; title: string; created_at: string; updated_at: string }) => {
+    if (session.id === currentSession?.id) return;
+
+    const savedMessages = await loadMessages(session.id);
+    setCurrentSession(session);
+    setCurrentMessages(savedMessages.map(m => ({
+      id: m.id,
+      type: m.message_type,
+      content: m.content,
+      timestamp: new Date(m.created_at)
+    })));
+  };
+
+  const handleDeleteSession = async (sessionId: string) => {
+    if (sessionId === currentSession?.id) {
+      setCurrentMessages([]);
+    }
+    await deleteSession(sessionId);
   };
 
   const handleGenerateReport = async () => {
     if (currentMessages.length === 0) {
-      toast.error('No conversation to analyze');
+      toast.error(t('voice.nothingToAnalyze'));
       return;
     }
 
-    if (!canUseAI) {
-      toast.error('Cannot generate report - no internet connection');
-      return;
-    }
-    
     try {
       setIsProcessing(true);
-      const report = await generateAIReport(currentMessages);
+      const userMessages = currentMessages.filter(m => m.type === 'user').map(m => m.content).join('\n');
+      // Offline, or when the model's reply fails validation, this is the lexicon analysis
+      const report = await analyzeMood(userMessages, { useLLM: canUseAI, source: 'chat' });
       setMoodReport(report);
-      toast.success('AI report generated successfully!');
+      toast.success(t(report.method === 'llm' ? 'voice.reportGenerated' : 'voice.reportGeneratedOffline'));
     } catch (error) {
       console.error('Error generating report:', error);
-      toast.error('Failed to generate report');
+      toast.error(t('chat.reportFailed'));
     } finally {
       setIsProcessing(false);
     }
@@ -357,7 +684,7 @@ export function VoiceAI() {
 
   const handleSpeakMessage = async (content: string) => {
     if (!isVoiceEnabled) {
-      toast.error('Text-to-speech not available');
+      toast.error(t('voice.speechUnavailable'));
       return;
     }
 
@@ -369,8 +696,10 @@ export function VoiceAI() {
   };
 
   const clearCurrentSession = () => {
+    // Only clears the view; a saved session stays in the sidebar
+    setCurrentSession(null);
     setCurrentMessages([]);
-    toast.success('Conversation cleared');
+    toast.success(t('voice.conversationCleared'));
   };
 
   return (
@@ -384,24 +713,40 @@ export function VoiceAI() {
               ? 'bg-blue-600 text-white hover:bg-blue-700'
               : 'bg-white dark:bg-gray-900 text-blue-700 dark:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-800'}
           `}
-          title={continuousMode ? 'Continuous Voice Mode ON' : 'Continuous Voice Mode OFF'}
+          title={t(continuousMode ? 'voice.continuousOn' : 'voice.continuousOff')}
         >
           {continuousMode ? <Mic className="h-6 w-6 mr-2" /> : <MicOff className="h-6 w-6 mr-2" />}
-          {continuousMode ? 'Stop Voice Chat' : 'Start Voice Chat'}
+          {continuousMode ? t('voice.stopVoiceChat') : t('voice.startVoiceChat')}
         </button>
       </div>
       
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Voice AI Companion</h1>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{t('voice.title')}</h1>
           <p className="text-gray-600 dark:text-gray-300">
-            Private voice conversations (not saved)
+            {!saveConversations
+              ? t('voice.subtitlePrivate')
+              : settings.voice_recordings
+                ? t('voice.subtitleSaved')
+                : t('voice.subtitleTypedSaved')}
           </p>
         </div>
         <div className="flex items-center space-x-3">
           {/* Voice Settings */}
           <div className="flex items-center space-x-2">
+            <button
+              onClick={handleToggleSaveConversations}
+              disabled={isProcessing}
+              className={`p-2 rounded-lg transition-colors duration-200 disabled:opacity-50 ${
+                saveConversations
+                  ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-400'
+                  : 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400'
+              }`}
+              title={t(saveConversations ? 'voice.savingOn' : 'voice.savingOff')}
+            >
+              {saveConversations ? <Save className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+            </button>
             <button
               onClick={() => setAutoSpeak(!autoSpeak)}
               className={`p-2 rounded-lg transition-colors duration-200 ${
@@ -409,14 +754,14 @@ export function VoiceAI() {
                   ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400' 
                   : 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400'
               }`}
-              title={autoSpeak ? 'Auto-speak enabled' : 'Auto-speak disabled'}
+              title={t(autoSpeak ? 'voice.autoSpeakOn' : 'voice.autoSpeakOff')}
             >
               {autoSpeak ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
             </button>
             {isVoiceEnabled && (
               <div className="flex items-center space-x-1 text-xs text-green-600 dark:text-green-400">
                 <Headphones className="h-3 w-3" />
-                <span>Voice Ready</span>
+                <span>{t('voice.ready')}</span>
               </div>
             )}
           </div>
@@ -425,7 +770,7 @@ export function VoiceAI() {
             className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-4 py-2 rounded-xl hover:shadow-lg transition-all duration-200 flex items-center space-x-2"
           >
             <Plus className="h-4 w-4" />
-            <span>New Chat</span>
+            <span>{t('voice.newChat')}</span>
           </button>
         </div>
       </div>
@@ -445,144 +790,197 @@ export function VoiceAI() {
             )}
             <div>
               <p className="font-medium text-yellow-800 dark:text-yellow-300">
-                {!isOnline ? 'No Internet Connection' : 'Voice Features Limited'}
+                {!isOnline ? t('voice.noInternet') : t('voice.limited')}
               </p>
               <p className="text-sm text-yellow-700 dark:text-yellow-400">
-                {!isOnline 
-                  ? 'Voice recognition and AI chat are unavailable without internet access.'
-                  : 'ElevenLabs API key not configured. Text-to-speech features unavailable.'
-                }
+                {!isOnline ? t('voice.noInternetHint') : t('voice.limitedHint')}
               </p>
             </div>
           </div>
         </motion.div>
       )}
 
-      {/* Chat Interface */}
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        className="bg-gradient-to-br from-purple-50 to-blue-50 dark:from-purple-900/20 dark:to-blue-900/20 rounded-2xl border border-purple-100 dark:border-purple-800"
-      >
-        {/* Chat Messages */}
-        <div className="p-6 pb-0">
-          <div className="max-h-96 overflow-y-auto space-y-4 mb-4">
-            {currentMessages.length === 0 && (
-              <div className="text-center text-gray-400 dark:text-gray-500 py-8">
-                <Brain className="h-12 w-12 mx-auto mb-4 text-gray-300 dark:text-gray-600" />
-                <p>Start a private conversation! Messages are not saved.</p>
-                {!canUseAI && (
-                  <p className="text-sm mt-2 text-yellow-600 dark:text-yellow-400">
-                    Internet connection required for AI features
+      <div className={saveConversations ? 'grid grid-cols-1 lg:grid-cols-4 gap-6' : ''}>
+        {saveConversations && (
+          <div className="lg:col-span-1">
+            <ChatSessionSidebar
+              sessions={sessions}
+              currentSessionId={currentSession?.id ?? null}
+              loading={sessionsLoading}
+              disabled={isProcessing}
+              onSelect={handleResumeSession}
+              onRename={updateSessionTitle}
+              onDelete={handleDeleteSession}
+            />
+          </div>
+        )}
+
+        {/* Chat Interface */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className={`${saveConversations ? 'lg:col-span-3 ' : ''}bg-gradient-to-br from-purple-50 to-blue-50 dark:from-purple-900/20 dark:to-blue-900/20 rounded-2xl border border-purple-100 dark:border-purple-800`}
+        >
+          {/* Chat Messages */}
+          <div className="p-6 pb-0">
+            <div className="max-h-96 overflow-y-auto space-y-4 mb-4">
+              {currentMessages.length === 0 && (
+                <div className="text-center text-gray-400 dark:text-gray-500 py-8">
+                  <Brain className="h-12 w-12 mx-auto mb-4 text-gray-300 dark:text-gray-600" />
+                  <p>
+                    {saveConversations ? t('voice.emptySaved') : t('voice.emptyPrivate')}
                   </p>
-                )}
-              </div>
-            )}
-            
-            {currentMessages.map((message) => (
-              <div key={message.id} className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}>
-                <div className={`max-w-xs sm:max-w-md lg:max-w-lg px-4 py-3 rounded-2xl break-words ${
-                  message.type === 'user' 
-                    ? 'bg-purple-600 text-white ml-8' 
-                    : 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white mr-8 border border-gray-200 dark:border-gray-700'
-                }`}>
-                  <div className="flex items-start space-x-2">
-                    {message.type === 'ai' && (
-                      <Brain className="h-4 w-4 text-blue-600 dark:text-blue-400 mt-0.5 flex-shrink-0" />
-                    )}
-                    <div className="flex-1">
-                      <p className="text-sm">{message.content}</p>
-                      {message.type === 'ai' && isVoiceEnabled && (
-                        <button
-                          onClick={() => handleSpeakMessage(message.content)}
-                          className="mt-2 text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 transition-colors duration-200 flex items-center space-x-1"
-                        >
-                          {isPlaying ? <VolumeX className="h-3 w-3" /> : <Volume2 className="h-3 w-3" />}
-                          <span>{isPlaying ? 'Stop' : 'Speak'}</span>
-                        </button>
-                      )}
+                  {!canUseAI && (
+                    <p className="text-sm mt-2 text-yellow-600 dark:text-yellow-400">
+                      {t('voice.aiOffline')}
+                    </p>
+                  )}
+                </div>
+              )}
+              
+              {currentMessages.map((message) => (
+                <div key={message.id} className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-xs sm:max-w-md lg:max-w-lg px-4 py-3 rounded-2xl break-words ${
+                    message.type === 'user' 
+                      ? 'bg-purple-600 text-white ml-8' 
+                      : 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white mr-8 border border-gray-200 dark:border-gray-700'
+                  }`}>
+                    <div className="flex items-start space-x-2">
+                      {message.type === 'ai' && (message.action ? (
+                        <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400 mt-0.5 flex-shrink-0" />
+                      ) : (
+                        <Brain className="h-4 w-4 text-blue-600 dark:text-blue-400 mt-0.5 flex-shrink-0" />
+                      ))}
+                      <div className="flex-1">
+                        <p className="text-sm">
+                          {message.content}
+                          {message.streaming && (
+                            <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-blue-500 animate-pulse" />
+                          )}
+                        </p>
+                        {message.action && (
+                          message.action.undone ? (
+                            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{t('voice.undone')}</p>
+                          ) : (
+                            <button
+                              onClick={() => undoCommand(message.action!)}
+                              className="mt-2 text-xs text-purple-600 dark:text-purple-400 hover:text-purple-800 dark:hover:text-purple-300 transition-colors duration-200 flex items-center space-x-1"
+                            >
+                              <Undo2 className="h-3 w-3" />
+                              <span>{t('voice.undo')}</span>
+                            </button>
+                          )
+                        )}
+                        {message.type === 'ai' && !message.streaming && isVoiceEnabled && (
+                          <button
+                            onClick={() => handleSpeakMessage(message.content)}
+                            className="mt-2 text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 transition-colors duration-200 flex items-center space-x-1"
+                          >
+                            {isPlaying ? <VolumeX className="h-3 w-3" /> : <Volume2 className="h-3 w-3" />}
+                            <span>{isPlaying ? t('voice.stop') : t('voice.speak')}</span>
+                          </button>
+                        )}
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
-            ))}
-          </div>
-
-          {isProcessing && (
-            <div className="text-center mb-4">
-              <div className="inline-flex items-center space-x-2 text-purple-600 dark:text-purple-400">
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-purple-600"></div>
-                <span>AI is thinking...</span>
-              </div>
+              ))}
             </div>
-          )}
-        </div>
-
-        {/* Input Area (hide in continuous mode) */}
-        {!continuousMode && (
-          <div className="p-6 pt-0 border-t border-purple-200 dark:border-purple-700">
-            <div className="flex flex-col sm:flex-row items-center justify-center space-y-4 sm:space-y-0 sm:space-x-4">
-              <form onSubmit={handleTextSubmit} className="flex items-center space-x-2 flex-1 max-w-2xl">
-                <input
-                  type="text"
-                  value={textInput}
-                  onChange={(e) => setTextInput(e.target.value)}
-                  className="w-full px-4 py-3 rounded-xl border border-purple-200 dark:border-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-400 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
-                  placeholder={canUseAI ? "Type your message..." : "Internet connection required for messaging"}
-                  disabled={isProcessing || isRecording || !canUseAI}
-                />
-                <button
-                  type="submit"
-                  className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-3 rounded-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-                  disabled={isProcessing || !textInput.trim() || isRecording || !canUseAI}
-                  title="Send"
-                >
-                  <Send className="h-5 w-5" />
-                </button>
-              </form>
 
-              <div className="flex items-center space-x-2">
-                <button
-                  onClick={handleVoiceInput}
-                  disabled={isProcessing || !canUseVoice}
-                  className={`px-4 py-3 rounded-xl font-medium transition-all duration-200 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed ${
-                    isRecording
-                      ? 'bg-red-600 hover:bg-red-700 text-white recording-pulse'
-                      : 'bg-blue-600 hover:bg-blue-700 text-white'
-                  }`}
-                  title={!canUseVoice ? 'Voice features require internet connection and API key' : 'Start voice conversation'}
-                >
-                  {isRecording ? <MicOff className="h-5 w-5" /> : <Mic className="h-5 w-5" />}
-                  <span className="hidden sm:inline">{isRecording ? 'Listening...' : 'Voice'}</span>
-                </button>
-                
-                {currentMessages.length > 0 && (
-                  <>
+            {isProcessing && (
+              <div className="text-center mb-4">
+                <div className="inline-flex items-center space-x-2 text-purple-600 dark:text-purple-400">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-purple-600"></div>
+                  <span>
+                    {streamingMessage?.content ? t('voice.responding') : t('voice.thinking')}
+                  </span>
+                  {streamingMessage && (
                     <button
-                      onClick={handleGenerateReport}
-                      disabled={isProcessing || !canUseAI}
-                      className="bg-green-600 hover:bg-green-700 text-white px-4 py-3 rounded-xl transition-all duration-200 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
-                      title="Generate AI mood report"
+                      onClick={handleCancelResponse}
+                      className="ml-2 px-3 py-1 rounded-lg text-xs font-medium bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors duration-200 flex items-center space-x-1"
+                      title={t('voice.stopGenerating')}
                     >
-                      <FileText className="h-5 w-5" />
-                      <span className="hidden sm:inline">Report</span>
+                      <Square className="h-3 w-3" />
+                      <span>{t('common.cancel')}</span>
                     </button>
-                    
-                    <button
-                      onClick={clearCurrentSession}
-                      className="bg-red-600 hover:bg-red-700 text-white px-4 py-3 rounded-xl transition-all duration-200 flex items-center space-x-2"
-                      title="Clear conversation"
-                    >
-                      <Trash2 className="h-5 w-5" />
-                      <span className="hidden sm:inline">Clear</span>
-                    </button>
-                  </>
-                )}
+                  )}
+                </div>
               </div>
-            </div>
+            )}
           </div>
-        )}
-      </motion.div>
+
+          {/* Input Area (hide in continuous mode) */}
+          {!continuousMode && (
+            <div className="p-6 pt-0 border-t border-purple-200 dark:border-purple-700">
+              <div className="flex flex-col sm:flex-row items-center justify-center space-y-4 sm:space-y-0 sm:space-x-4">
+                <form onSubmit={handleTextSubmit} className="flex items-center space-x-2 flex-1 max-w-2xl">
+                  <input
+                    type="text"
+                    value={textInput}
+                    onChange={(e) => setTextInput(e.target.value)}
+                    className="w-full px-4 py-3 rounded-xl border border-purple-200 dark:border-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-400 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+                    placeholder={canUseAI ? t('voice.placeholder') : t('voice.placeholderOffline')}
+                    disabled={isProcessing || isRecording}
+                  />
+                  <button
+                    type="submit"
+                    className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-3 rounded-xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    disabled={isProcessing || !textInput.trim() || isRecording}
+                    title={t('voice.send')}
+                  >
+                    <Send className="h-5 w-5" />
+                  </button>
+                </form>
+
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={handleVoiceInput}
+                    disabled={isProcessing || !canUseVoice}
+                    className={`px-4 py-3 rounded-xl font-medium transition-all duration-200 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed ${
+                      isRecording
+                        ? 'bg-red-600 hover:bg-red-700 text-white recording-pulse'
+                        : 'bg-blue-600 hover:bg-blue-700 text-white'
+                    }`}
+                    title={t(!canUseVoice ? 'voice.voiceUnavailable' : 'voice.startVoice')}
+                  >
+                    {isRecording ? <MicOff className="h-5 w-5" /> : <Mic className="h-5 w-5" />}
+                    <span className="hidden sm:inline">{isRecording ? t('voice.listeningShort') : t('voice.voice')}</span>
+                  </button>
+                  
+                  {currentMessages.length > 0 && (
+                    <>
+                      <button
+                        onClick={handleGenerateReport}
+                        disabled={isProcessing}
+                        className="bg-green-600 hover:bg-green-700 text-white px-4 py-3 rounded-xl transition-all duration-200 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title={t('voice.generateReport')}
+                      >
+                        <FileText className="h-5 w-5" />
+                        <span className="hidden sm:inline">{t('voice.report')}</span>
+                      </button>
+                      
+                      <button
+                        onClick={clearCurrentSession}
+                        className="bg-red-600 hover:bg-red-700 text-white px-4 py-3 rounded-xl transition-all duration-200 flex items-center space-x-2"
+                        title={t('voice.clearConversation')}
+                      >
+                        <Trash2 className="h-5 w-5" />
+                        <span className="hidden sm:inline">{t('common.clear')}</span>
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </motion.div>
+      </div>
+
+      <CrisisResourcesModal
+        isOpen={showCrisisResources}
+        region={safetyRegion}
+        onClose={() => setShowCrisisResources(false)}
+      />
 
       {/* Mood Report Modal */}
       <AnimatePresence>
@@ -601,44 +999,65 @@ export function VoiceAI() {
               className="bg-white dark:bg-gray-800 rounded-2xl p-6 max-w-2xl w-full max-h-[80vh] overflow-y-auto"
               onClick={(e) => e.stopPropagation()}
             >
-              <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4">AI-Generated Mood Analysis Report</h3>
+              <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4">{t('voice.reportTitle')}</h3>
               
               <div className="space-y-4">
                 <div>
-                  <p className="font-medium text-gray-700 dark:text-gray-300">Overall Mood:</p>
+                  <p className="font-medium text-gray-700 dark:text-gray-300">{t('voice.overallMood')}</p>
                   <p className={`text-lg font-semibold ${
-                    moodReport.overall_mood === 'positive' ? 'text-green-600' :
-                    moodReport.overall_mood === 'negative' ? 'text-red-600' : 'text-yellow-600'
+                    moodReport.mood.overall === 'positive' ? 'text-green-600' :
+                    moodReport.mood.overall === 'negative' ? 'text-red-600' : 'text-yellow-600'
                   }`}>
-                    {moodReport.overall_mood.charAt(0).toUpperCase() + moodReport.overall_mood.slice(1)}
+                    {t(RATING_LABELS[moodReport.mood.overall])}
                   </p>
                 </div>
                 
                 <div>
-                  <p className="font-medium text-gray-700 dark:text-gray-300">Stress Level:</p>
+                  <p className="font-medium text-gray-700 dark:text-gray-300">{t('voice.stressLevel')}</p>
                   <p className={`text-lg font-semibold ${
-                    moodReport.stress_level === 'low' ? 'text-green-600' :
-                    moodReport.stress_level === 'medium' ? 'text-yellow-600' : 'text-red-600'
+                    moodReport.mood.stress_level === 'low' ? 'text-green-600' :
+                    moodReport.mood.stress_level === 'medium' ? 'text-yellow-600' : 'text-red-600'
                   }`}>
-                    {moodReport.stress_level.charAt(0).toUpperCase() + moodReport.stress_level.slice(1)}
+                    {t(RATING_LABELS[moodReport.mood.stress_level])}
                   </p>
                 </div>
                 
-                {moodReport.emotions && moodReport.emotions.length > 0 && (
+                {moodReport.mood.emotions.length > 0 && (
                   <div>
-                    <p className="font-medium text-gray-700 dark:text-gray-300">Detected Emotions:</p>
-                    <p className="text-gray-600 dark:text-gray-400">{moodReport.emotions.join(', ')}</p>
+                    <p className="font-medium text-gray-700 dark:text-gray-300">{t('voice.emotions')}</p>
+                    <p className="text-gray-600 dark:text-gray-400">{moodReport.mood.emotions.join(t('common.listSeparator'))}</p>
                   </div>
                 )}
                 
-                <div>
-                  <p className="font-medium text-gray-700 dark:text-gray-300">Summary:</p>
-                  <p className="text-gray-600 dark:text-gray-400">{moodReport.summary}</p>
-                </div>
+                {weekOfCheckIns.entries > 0 && (
+                  <div>
+                    <p className="font-medium text-gray-700 dark:text-gray-300">{t('voice.weekCheckIns')}</p>
+                    <p className="text-gray-600 dark:text-gray-400">
+                      {[
+                        t('voice.weekAverage', { count: weekOfCheckIns.entries, mood: weekOfCheckIns.mood!.toFixed(1) }),
+                        weekOfCheckIns.energy !== null && t('voice.weekEnergy', { value: weekOfCheckIns.energy.toFixed(1) }),
+                        weekOfCheckIns.anxiety !== null && t('voice.weekAnxiety', { value: weekOfCheckIns.anxiety.toFixed(1) }),
+                        weekOfCheckIns.sleep_quality !== null && t('voice.weekSleep', { value: weekOfCheckIns.sleep_quality.toFixed(1) }),
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                    {[...weekOfCheckIns.topActivities, ...weekOfCheckIns.topTags].length > 0 && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                        {t('voice.mostLogged', { items: [...weekOfCheckIns.topActivities, ...weekOfCheckIns.topTags].join(t('common.listSeparator')) })}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {moodReport.summary && (
+                  <div>
+                    <p className="font-medium text-gray-700 dark:text-gray-300">{t('voice.summary')}</p>
+                    <p className="text-gray-600 dark:text-gray-400">{moodReport.summary}</p>
+                  </div>
+                )}
                 
-                {moodReport.key_concerns && moodReport.key_concerns.length > 0 && (
+                {moodReport.key_concerns.length > 0 && (
                   <div>
-                    <p className="font-medium text-gray-700 dark:text-gray-300">Key Concerns:</p>
+                    <p className="font-medium text-gray-700 dark:text-gray-300">{t('voice.keyConcerns')}</p>
                     <ul className="list-disc list-inside text-gray-600 dark:text-gray-400 space-y-1">
                       {moodReport.key_concerns.map((concern: string, index: number) => (
                         <li key={index}>{concern}</li>
@@ -647,9 +1066,9 @@ export function VoiceAI() {
                   </div>
                 )}
                 
-                {moodReport.positive_indicators && moodReport.positive_indicators.length > 0 && (
+                {moodReport.positive_indicators.length > 0 && (
                   <div>
-                    <p className="font-medium text-gray-700 dark:text-gray-300">Positive Indicators:</p>
+                    <p className="font-medium text-gray-700 dark:text-gray-300">{t('voice.positiveIndicators')}</p>
                     <ul className="list-disc list-inside text-gray-600 dark:text-gray-400 space-y-1">
                       {moodReport.positive_indicators.map((indicator: string, index: number) => (
                         <li key={index}>{indicator}</li>
@@ -658,41 +1077,67 @@ export function VoiceAI() {
                   </div>
                 )}
                 
-                {moodReport.recommendations && moodReport.recommendations.length > 0 && (
+                {moodReport.recommendations.length > 0 && (
                   <div>
-                    <p className="font-medium text-gray-700 dark:text-gray-300">AI Recommendations:</p>
+                    <p className="font-medium text-gray-700 dark:text-gray-300">{t('voice.recommendations')}</p>
                     <ul className="list-disc list-inside text-gray-600 dark:text-gray-400 space-y-1">
-                      {moodReport.recommendations.map((rec: string, index: number) => (
-                        <li key={index}>{rec}</li>
-                      ))}
+                      {moodReport.recommendations.map((rec: string, index: number) => {
+                        const exerciseId = exerciseForRecommendation(rec);
+                        return (
+                          <li key={index}>
+                            {rec}
+                            {exerciseId && (
+                              <Link
+                                to={`/exercises?exercise=${exerciseId}`}
+                                className="ml-2 text-teal-600 dark:text-teal-400 font-medium hover:underline"
+                              >
+                                {t('voice.tryIt')}
+                              </Link>
+                            )}
+                          </li>
+                        );
+                      })}
                     </ul>
                   </div>
                 )}
 
-                {moodReport.confidence_score && (
-                  <div>
-                    <p className="font-medium text-gray-700 dark:text-gray-300">Confidence Score:</p>
-                    <p className="text-gray-600 dark:text-gray-400">{(moodReport.confidence_score * 100).toFixed(0)}%</p>
-                  </div>
-                )}
+                <div>
+                  <p className="font-medium text-gray-700 dark:text-gray-300">{t('reports.confidenceScore')}:</p>
+                  <p className="text-gray-600 dark:text-gray-400">
+                    {t(moodReport.method === 'lexicon' ? 'voice.confidenceOffline' : 'voice.confidence', {
+                      percent: (moodReport.confidence * 100).toFixed(0),
+                    })}
+                  </p>
+                </div>
               </div>
               
               <div className="flex justify-end space-x-3 mt-6">
                 <button
                   onClick={() => {
-                    const reportText = `AI Mood Analysis Report\n\nOverall Mood: ${moodReport.overall_mood}\nStress Level: ${moodReport.stress_level}\nEmotions: ${moodReport.emotions?.join(', ') || 'N/A'}\n\nSummary: ${moodReport.summary}\n\nRecommendations:\n${moodReport.recommendations?.map((r: string) => `• ${r}`).join('\n') || 'None'}`;
+                    const reportText = [
+                      t('voice.reportTitle'),
+                      '',
+                      `${t('voice.overallMood')} ${t(RATING_LABELS[moodReport.mood.overall])}`,
+                      `${t('voice.stressLevel')} ${t(RATING_LABELS[moodReport.mood.stress_level])}`,
+                      `${t('voice.emotions')} ${moodReport.mood.emotions.join(t('common.listSeparator')) || t('reports.notAvailable')}`,
+                      '',
+                      `${t('voice.summary')} ${moodReport.summary}`,
+                      '',
+                      t('voice.recommendations'),
+                      moodReport.recommendations.map(r => `• ${r}`).join('\n') || t('voice.none'),
+                    ].join('\n');
                     navigator.clipboard.writeText(reportText);
-                    toast.success('Report copied to clipboard!');
+                    toast.success(t('voice.reportCopied'));
                   }}
                   className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition-colors duration-200"
                 >
-                  Copy Report
+                  {t('voice.copyReport')}
                 </button>
                 <button
                   onClick={() => setMoodReport(null)}
                   className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-lg transition-colors duration-200"
                 >
-                  Close
+                  {t('common.close')}
                 </button>
               </div>
             </motion.div>
@@ -707,7 +1152,8 @@ export function VoiceAI() {
         className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl p-4"
       >
         <p className="text-sm text-blue-800 dark:text-blue-300">
-          🔒 <strong>Privacy First:</strong> Your voice conversations are completely private and not saved to any database. Only temporary session data is kept in memory for context during your current conversation. Voice synthesis powered by ElevenLabs.
+          🔒 <strong>{t('voice.privacyTitle')}</strong> {saveConversations ? t('voice.privacySaved') : t('voice.privacyPrivate')}{' '}
+          {t('voice.poweredBy')}
         </p>
       </motion.div>
     </div>
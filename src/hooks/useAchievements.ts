@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useAuth } from './useAuth';
+import { useNetworkStatus } from './useNetworkStatus';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { evaluateAchievements, findNewUnlocks, nextAchievements } from '../lib/achievements';
+import type { AchievementDefinition, AchievementStats } from '../lib/achievements';
+
+type CountedMetric = Exclude<keyof AchievementStats, 'mood_streak'>;
+
+// Row counts behind each metric; the streak comes from useMoodStreak
+const COUNT_QUERIES: { metric: CountedMetric; table: string; completedOnly?: boolean }[] = [
+  { metric: 'tasks_completed', table: 'tasks', completedOnly: true },
+  { metric: 'mood_checkins', table: 'mood_entries' },
+  { metric: 'chat_sessions', table: 'chat_sessions' },
+  { metric: 'video_sessions', table: 'video_sessions' },
+];
+
+const EMPTY_COUNTS: Record<CountedMetric, number> = {
+  tasks_completed: 0,
+  mood_checkins: 0,
+  chat_sessions: 0,
+  video_sessions: 0,
+};
+
+// Progress on every achievement plus the per-user unlock history kept in
+// user_achievements. Newly reached badges are stored and queued in
+// `celebrations` for the Dashboard to animate.
+export function useAchievements(longestStreak: number, streakLoading: boolean) {
+  const { user, handleSupabaseError } = useAuth();
+  const { withRetry, isConnectedToSupabase } = useNetworkStatus();
+  const [counts, setCounts] = useState(EMPTY_COUNTS);
+  const [unlockedAt, setUnlockedAt] = useState<Record<string, string>>({});
+  // Unlocks are only recorded once the stored history has loaded, so old
+  // badges aren't celebrated again on a device that hasn't fetched it yet
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [celebrations, setCelebrations] = useState<AchievementDefinition[]>([]);
+  const claiming = useRef(new Set<string>());
+
+  const loadAchievements = useCallback(async () => {
+    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const result = await withRetry(async () => {
+        const [history, ...countResults] = await Promise.all([
+          supabase
+            .from('user_achievements')
+            .select('achievement_id, unlocked_at')
+            .eq('user_id', user.id),
+          ...COUNT_QUERIES.map(({ table, completedOnly }) => {
+            let query = supabase
+              .from(table)
+              .select('id', { count: 'exact', head: true })
+              .eq('user_id', user.id);
+            if (completedOnly) query = query.eq('completed', true);
+            return query;
+          }),
+        ]);
+
+        const error = history.error || countResults.find(r => r.error)?.error;
+        if (error) {
+          const isJWTError = await handleSupabaseError(error);
+          if (!isJWTError) throw error;
+          return null;
+        }
+
+        return { history: history.data ?? [], counts: countResults.map(r => r.count ?? 0) };
+      }, 1, 2000);
+
+      if (result) {
+        const stored: Record<string, string> = {};
+        result.history.forEach((row: { achievement_id: string; unlocked_at: string }) => {
+          stored[row.achievement_id] = row.unlocked_at;
+        });
+        const next = { ...EMPTY_COUNTS };
+        COUNT_QUERIES.forEach(({ metric }, index) => {
+          next[metric] = result.counts[index];
+        });
+        setUnlockedAt(stored);
+        setCounts(next);
+        setHistoryLoaded(true);
+      }
+    } catch (error) {
+      console.error('Error loading achievements:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, handleSupabaseError, withRetry, isConnectedToSupabase]);
+
+  useEffect(() => {
+    loadAchievements();
+  }, [loadAchievements]);
+
+  const progress = useMemo(
+    () => evaluateAchievements({ ...counts, mood_streak: longestStreak }, unlockedAt),
+    [counts, longestStreak, unlockedAt]
+  );
+
+  // Store anything newly reached, then celebrate it
+  useEffect(() => {
+    if (!user || !historyLoaded || streakLoading) return;
+    const fresh = findNewUnlocks(progress).filter(def => !claiming.current.has(def.id));
+    if (fresh.length === 0) return;
+    fresh.forEach(def => claiming.current.add(def.id));
+
+    const unlockedNow = new Date().toISOString();
+    supabase
+      .from('user_achievements')
+      .upsert(
+        fresh.map(def => ({ user_id: user.id, achievement_id: def.id, unlocked_at: unlockedNow })),
+        { onConflict: 'user_id,achievement_id', ignoreDuplicates: true }
+      )
+      .then(({ error }) => {
+        if (error) {
+          // Try again on the next load
+          console.warn('Failed to store achievements:', error);
+          fresh.forEach(def => claiming.current.delete(def.id));
+          return;
+        }
+        setUnlockedAt(prev => {
+          const next = { ...prev };
+          fresh.forEach(def => {
+            next[def.id] = unlockedNow;
+          });
+          return next;
+        });
+        setCelebrations(prev => [...prev, ...fresh]);
+      });
+  }, [user, historyLoaded, streakLoading, progress]);
+
+  const dismissCelebrations = useCallback(() => setCelebrations([]), []);
+
+  return {
+    progress,
+    upNext: nextAchievements(progress),
+    unlockedCount: progress.filter(p => p.unlocked).length,
+    celebrations,
+    dismissCelebrations,
+    loading,
+    reloadAchievements: loadAchievements,
+  };
+}
@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { useNetworkStatus } from './useNetworkStatus';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+
+interface TimestampRow {
+  completed_at?: string | null;
+  created_at?: string;
+}
+
+// Timestamps of completed tasks and of messages the user sent since a given
+// instant, for relating activity to mood. Only timestamps are fetched, so a
+// year of history stays small.
+export function useActivityHistory(since: string) {
+  const { user, handleSupabaseError } = useAuth();
+  const { withRetry, isConnectedToSupabase } = useNetworkStatus();
+  const [taskCompletions, setTaskCompletions] = useState<string[]>([]);
+  const [chatMessages, setChatMessages] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadActivity = useCallback(async () => {
+    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const [tasks, messages] = await withRetry(async () => {
+        const [tasksResult, messagesResult] = await Promise.all([
+          supabase
+            .from('tasks')
+            .select('completed_at')
+            .eq('user_id', user.id)
+            .gte('completed_at', since),
+          supabase
+            .from('chat_messages')
+            .select('created_at')
+            .eq('user_id', user.id)
+            .eq('message_type', 'user')
+            .gte('created_at', since),
+        ]);
+
+        const error = tasksResult.error || messagesResult.error;
+        if (error) {
+          const isJWTError = await handleSupabaseError(error);
+          if (!isJWTError) throw error;
+          return [[], []];
+        }
+
+        return [tasksResult.data as TimestampRow[], messagesResult.data as TimestampRow[]];
+      }, 1, 2000);
+
+      setTaskCompletions(tasks.flatMap(row => row.completed_at ? [row.completed_at] : []));
+      setChatMessages(messages.flatMap(row => row.created_at ? [row.created_at] : []));
+    } catch (error) {
+      // Correlations are a nice-to-have; the charts still work without them
+      console.warn('Failed to load activity history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, handleSupabaseError, withRetry, isConnectedToSupabase, since]);
+
+  useEffect(() => {
+    loadActivity();
+  }, [loadActivity]);
+
+  return {
+    taskCompletions,
+    chatMessages,
+    loading,
+  };
+}
@@ -1,6 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { User } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { t } from '../lib/i18n';
 import toast from 'react-hot-toast';
 
 export function useAuth() {
@@ -128,7 +129,7 @@ export function useAuth() {
     }
   };
 
-  const signOut = async () => {
+  const signOut = useCallback(async () => {
     try {
       const { error } = await supabase.auth.signOut();
       
@@ -150,9 +151,9 @@ export function useAuth() {
       setUser(null);
       return { error };
     }
-  };
+  }, []);
 
-  const handleSupabaseError = async (error: any): Promise<boolean> => {
+  const handleSupabaseError = useCallback(async (error: any): Promise<boolean> => {
     if (!error) return false;
 
     // Check for JWT expiry or auth errors
@@ -172,14 +173,14 @@ export function useAuth() {
       
       // Show a user-friendly message
       setTimeout(() => {
-        toast.error('Your session has expired. Please sign in again.');
+        toast.error(t('auth.sessionExpired'));
       }, 100);
       
       return true; // Indicates this was a JWT expiry error
     }
     
     return false; // Not a JWT expiry error
-  };
+  }, [signOut]);
 
   return {
     user,
@@ -3,35 +3,43 @@ import { useAuth } from './useAuth';
 import { useNetworkStatus } from './useNetworkStatus';
 import { useEncryption } from './useEncryption';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { analyzeMood } from '../lib/moodAnalysis';
+import { mayStore } from '../lib/consent';
+import { EncryptionLockedError } from '../lib/encryption';
+import { createLocalId, readCachedRows, reconcileServerRows, recordLocalWrite } from '../lib/offline';
+import type { CachedRow } from '../lib/offline';
+import type { AIReport } from '../lib/reports';
+import { t } from '../lib/i18n';
 import toast from 'react-hot-toast';
 
 interface ChatMessage {
   id: string;
+  user_id?: string;
   session_id: string;
   message_type: 'user' | 'ai';
   content: string;
+  // Spoken turns can be purged on their own when voice recordings are turned off
+  input_source?: 'text' | 'voice';
   created_at: string;
 }
 
 interface ChatSession {
   id: string;
+  user_id?: string;
   title: string;
   created_at: string;
   updated_at: string;
   messages?: ChatMessage[];
 }
 
-interface MoodAnalysis {
-  overall_mood: 'positive' | 'negative' | 'neutral';
-  emotions: string[];
-  stress_level: 'low' | 'medium' | 'high';
-  recommendations: string[];
-  summary: string;
-}
+const SESSION_LIST_LIMIT = 20;
+
+const byRecentActivity = (a: ChatSession, b: ChatSession) => b.updated_at.localeCompare(a.updated_at);
+const byTime = (a: ChatMessage, b: ChatMessage) => a.created_at.localeCompare(b.created_at);
 
 export function useChatSessions() {
   const { user, handleSupabaseError } = useAuth();
-  const { withRetry, isConnectedToSupabase } = useNetworkStatus();
+  const { isOnline, withRetry, isConnectedToSupabase } = useNetworkStatus();
   const { storeEncryptedData } = useEncryption();
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [currentSession, setCurrentSession] = useState<ChatSession | null>(null);
@@ -44,6 +52,14 @@ export function useChatSessions() {
       return;
     }
 
+    // Cached list first, so past chats are there offline and without a wait
+    try {
+      const cached = await readCachedRows<ChatSession & CachedRow>('chat_sessions', user.id);
+      setSessions(cached.sort(byRecentActivity).slice(0, SESSION_LIST_LIMIT));
+    } catch (error) {
+      console.warn('Failed to read offline chat sessions:', error);
+    }
+
     if (!isConnectedToSupabase) {
       setLoading(false);
       return;
@@ -60,7 +76,7 @@ export function useChatSessions() {
             .select('*')
             .eq('user_id', user.id)
             .order('updated_at', { ascending: false })
-            .limit(20)
+            .limit(SESSION_LIST_LIMIT)
             .abortSignal(controller.signal);
 
           clearTimeout(timeoutId);
@@ -78,7 +94,12 @@ export function useChatSessions() {
         }
       }, 1, 2000); // Single retry with longer delay
 
-      setSessions(data || []);
+      if (data) {
+        const oldest = data.length === SESSION_LIST_LIMIT ? data[data.length - 1].updated_at : null;
+        const merged = await reconcileServerRows<ChatSession & CachedRow>('chat_sessions', user.id, data,
+          row => !oldest || String(row.updated_at) >= oldest);
+        setSessions(merged.sort(byRecentActivity).slice(0, SESSION_LIST_LIMIT));
+      }
     } catch (error: any) {
       console.error('Error loading chat sessions:', error);
       
@@ -86,15 +107,28 @@ export function useChatSessions() {
       if (!error.name?.includes('AbortError') && 
           !error.message?.includes('signal is aborted') &&
           isConnectedToSupabase) {
-        toast.error('Failed to load chat sessions');
+        toast.error(t('chat.loadFailed'));
       }
     } finally {
       setLoading(false);
     }
   }, [user, handleSupabaseError, withRetry, isConnectedToSupabase]);
 
-  const loadMessages = useCallback(async (sessionId: string) => {
-    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) return;
+  const loadMessages = useCallback(async (sessionId: string): Promise<ChatMessage[]> => {
+    if (!user || !isSupabaseConfigured()) return [];
+
+    if (!isConnectedToSupabase) {
+      try {
+        const cached = (await readCachedRows<ChatMessage & CachedRow>('chat_messages', user.id))
+          .filter(m => m.session_id === sessionId)
+          .sort(byTime);
+        setMessages(cached);
+        return cached;
+      } catch (error) {
+        console.warn('Failed to read offline messages:', error);
+        return [];
+      }
+    }
 
     try {
       const data = await withRetry(async () => {
@@ -125,187 +159,154 @@ export function useChatSessions() {
         }
       }, 1, 2000);
 
-      setMessages(data || []);
+      if (!data) return [];
+
+      const merged = (await reconcileServerRows<ChatMessage & CachedRow>('chat_messages', user.id, data,
+        row => row.session_id === sessionId)).sort(byTime);
+      setMessages(merged);
+      return merged;
     } catch (error: any) {
       console.error('Error loading messages:', error);
       
       if (!error.name?.includes('AbortError') && 
           !error.message?.includes('signal is aborted') &&
           isConnectedToSupabase) {
-        toast.error('Failed to load messages');
+        toast.error(t('chat.messagesFailed'));
       }
+      return [];
     }
   }, [user, handleSupabaseError, withRetry, isConnectedToSupabase]);
 
+  // Chats are written to the device first and synced through the offline
+  // outbox, so a conversation can carry on while the connection is down
   const createNewSession = async (title?: string) => {
-    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) {
-      if (!isConnectedToSupabase) {
-        toast.error('Cannot create session - no connection to server');
-      }
-      return null;
-    }
-
-    try {
-      const data = await withRetry(async () => {
-        const { data, error } = await supabase
-          .from('chat_sessions')
-          .insert([{
-            user_id: user.id,
-            title: title || `Chat ${new Date().toLocaleDateString()}`,
-          }])
-          .select()
-          .single();
+    if (!user || !isSupabaseConfigured()) return null;
 
-        if (error) {
-          const isJWTError = await handleSupabaseError(error);
-          if (!isJWTError) throw error;
-          return null;
-        }
-
-        return data;
-      }, 1, 2000);
+    const now = new Date().toISOString();
+    const newSession: ChatSession = {
+      id: createLocalId(),
+      user_id: user.id,
+      title: title || `Chat ${new Date().toLocaleDateString()}`,
+      created_at: now,
+      updated_at: now,
+    };
 
-      if (data) {
-        const newSession = data;
-        setSessions(prev => [newSession, ...prev]);
-        setCurrentSession(newSession);
-        setMessages([]);
-        
-        toast.success('New chat session created!');
-        return newSession;
-      }
-    } catch (error: any) {
+    try {
+      await recordLocalWrite({
+        table: 'chat_sessions',
+        userId: user.id,
+        op: 'insert',
+        rowId: newSession.id,
+        row: { ...newSession },
+        changes: { ...newSession },
+      });
+
+      setSessions(prev => [newSession, ...prev]);
+      setCurrentSession(newSession);
+      setMessages([]);
+
+      toast.success(t('chat.created'));
+      return newSession;
+    } catch (error) {
       console.error('Error creating session:', error);
-      
-      if (!error.name?.includes('AbortError') && 
-          !error.message?.includes('signal is aborted')) {
-        toast.error('Failed to create new session');
-      }
+      toast.error(t('chat.createFailed'));
     }
-    
+
     return null;
   };
 
-  const addMessage = async (sessionId: string, messageType: 'user' | 'ai', content: string) => {
-    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) {
-      if (!isConnectedToSupabase) {
-        toast.error('Cannot send message - no connection to server');
-      }
-      return null;
-    }
+  // source is how the user's side of the turn came in; replies to a spoken
+  // message count as voice too
+  const addMessage = async (
+    sessionId: string,
+    messageType: 'user' | 'ai',
+    content: string,
+    source: 'text' | 'voice' = 'text'
+  ) => {
+    if (!user || !isSupabaseConfigured()) return null;
+    if (!mayStore(user.id, source === 'voice' ? 'voice_transcript' : 'chat_message')) return null;
+
+    const newMessage: ChatMessage = {
+      id: createLocalId(),
+      session_id: sessionId,
+      user_id: user.id,
+      message_type: messageType,
+      content,
+      input_source: source,
+      created_at: new Date().toISOString(),
+    };
 
     try {
-      const data = await withRetry(async () => {
-        const { data, error } = await supabase
-          .from('chat_messages')
-          .insert([{
-            session_id: sessionId,
-            user_id: user.id,
-            message_type: messageType,
-            content,
-          }])
-          .select()
-          .single();
-
-        if (error) {
-          const isJWTError = await handleSupabaseError(error);
-          if (!isJWTError) throw error;
-          return null;
-        }
-
-        return data;
-      }, 1, 2000);
-
-      if (data) {
-        const newMessage = data;
-        setMessages(prev => [...prev, newMessage]);
-
-        // Store encrypted data if it's sensitive
-        if (messageType === 'user') {
-          try {
-            await storeEncryptedData('chat_message', content);
-          } catch (error) {
-            console.warn('Failed to store encrypted data:', error);
-          }
+      await recordLocalWrite({
+        table: 'chat_messages',
+        userId: user.id,
+        op: 'insert',
+        rowId: newMessage.id,
+        row: { ...newMessage },
+        changes: { ...newMessage },
+      });
+
+      setMessages(prev => [...prev, newMessage]);
+
+      // Store encrypted data if it's sensitive
+      if (messageType === 'user' && isConnectedToSupabase && mayStore(user.id, 'encrypted_copy')) {
+        try {
+          await storeEncryptedData('chat_message', content);
+        } catch (error) {
+          // No copy is kept until the key is set up and unlocked
+          if (!(error instanceof EncryptionLockedError)) console.warn('Failed to store encrypted data:', error);
         }
-
-        return newMessage;
       }
-    } catch (error: any) {
+
+      return newMessage;
+    } catch (error) {
       console.error('Error adding message:', error);
-      
-      if (!error.name?.includes('AbortError') && 
-          !error.message?.includes('signal is aborted')) {
-        toast.error('Failed to save message');
-      }
+      toast.error(t('chat.saveFailed'));
     }
-    
+
     return null;
   };
 
   const deleteSession = async (sessionId: string) => {
-    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) {
-      if (!isConnectedToSupabase) {
-        toast.error('Cannot delete session - no connection to server');
-      }
-      return;
-    }
+    if (!user || !isSupabaseConfigured()) return;
 
     try {
-      await withRetry(async () => {
-        const { error } = await supabase
-          .from('chat_sessions')
-          .delete()
-          .eq('id', sessionId)
-          .eq('user_id', user.id);
-
-        if (error) {
-          const isJWTError = await handleSupabaseError(error);
-          if (!isJWTError) throw error;
-          return;
-        }
-      }, 1, 2000);
+      await recordLocalWrite({
+        table: 'chat_sessions',
+        userId: user.id,
+        op: 'delete',
+        rowId: sessionId,
+        changes: {},
+      });
 
       setSessions(prev => prev.filter(s => s.id !== sessionId));
-      
+
       if (currentSession?.id === sessionId) {
         setCurrentSession(null);
         setMessages([]);
       }
 
-      toast.success('Chat session deleted');
-    } catch (error: any) {
+      toast.success(t('chat.deleted'));
+    } catch (error) {
       console.error('Error deleting session:', error);
-      
-      if (!error.name?.includes('AbortError') && 
-          !error.message?.includes('signal is aborted')) {
-        toast.error('Failed to delete session');
-      }
+      toast.error(t('chat.deleteFailed'));
     }
   };
 
   const updateSessionTitle = async (sessionId: string, title: string) => {
-    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) {
-      if (!isConnectedToSupabase) {
-        toast.error('Cannot update title - no connection to server');
-      }
-      return;
-    }
+    const session = sessions.find(s => s.id === sessionId);
+    if (!user || !isSupabaseConfigured() || !session) return;
 
     try {
-      await withRetry(async () => {
-        const { error } = await supabase
-          .from('chat_sessions')
-          .update({ title })
-          .eq('id', sessionId)
-          .eq('user_id', user.id);
-
-        if (error) {
-          const isJWTError = await handleSupabaseError(error);
-          if (!isJWTError) throw error;
-          return;
-        }
-      }, 1, 2000);
+      await recordLocalWrite({
+        table: 'chat_sessions',
+        userId: user.id,
+        op: 'update',
+        rowId: sessionId,
+        row: { ...session, title },
+        changes: { title },
+        base: { title: session.title },
+      });
 
       setSessions(prev => prev.map(s => 
         s.id === sessionId ? { ...s, title } : s
@@ -315,21 +316,17 @@ export function useChatSessions() {
         setCurrentSession(prev => prev ? { ...prev, title } : null);
       }
 
-      toast.success('Session title updated');
-    } catch (error: any) {
+      toast.success(t('chat.renamed'));
+    } catch (error) {
       console.error('Error updating session title:', error);
-      
-      if (!error.name?.includes('AbortError') && 
-          !error.message?.includes('signal is aborted')) {
-        toast.error('Failed to update title');
-      }
+      toast.error(t('chat.renameFailed'));
     }
   };
 
-  const generateMoodReport = async (sessionId: string): Promise<MoodAnalysis | null> => {
+  const generateMoodReport = async (sessionId: string): Promise<AIReport | null> => {
     if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) {
       if (!isConnectedToSupabase) {
-        toast.error('Cannot generate report - no connection to server');
+        toast.error(t('chat.reportOffline'));
       }
       return null;
     }
@@ -355,8 +352,9 @@ export function useChatSessions() {
       const userMessages = messagesData?.filter(m => m.message_type === 'user') || [];
       const conversationText = userMessages.map(m => m.content).join(' ');
 
-      // Simple mood analysis (in production, you'd use a proper AI service)
-      const analysis = analyzeMoodFromText(conversationText);
+      // LLM analysis when available, lexicon model otherwise; the result
+      // records which one was used and how confident it is
+      const analysis = await analyzeMood(conversationText, { useLLM: isOnline });
 
       // Store the analysis
       await withRetry(async () => {
@@ -376,14 +374,14 @@ export function useChatSessions() {
         }
       }, 1, 2000);
 
-      toast.success('Mood report generated!');
+      toast.success(t('chat.reportReady'));
       return analysis;
     } catch (error: any) {
       console.error('Error generating mood report:', error);
       
       if (!error.name?.includes('AbortError') && 
           !error.message?.includes('signal is aborted')) {
-        toast.error('Failed to generate mood report');
+        toast.error(t('chat.reportFailed'));
       }
       return null;
     }
@@ -405,11 +403,11 @@ export function useChatSessions() {
       } else {
         // Fallback: copy to clipboard
         await navigator.clipboard.writeText(`${shareData.title}\n${shareData.url}`);
-        toast.success('Chat link copied to clipboard!');
+        toast.success(t('chat.linkCopied'));
       }
     } catch (error) {
       console.error('Error sharing session:', error);
-      toast.error('Failed to share session');
+      toast.error(t('chat.shareFailed'));
     }
   };
 
@@ -436,48 +434,3 @@ export function useChatSessions() {
     shareChatSession,
   };
 }
-
-// Simple mood analysis function (replace with proper AI service in production)
-function analyzeMoodFromText(text: string): MoodAnalysis {
-  const positiveWords = ['happy', 'good', 'great', 'excellent', 'wonderful', 'amazing', 'love', 'joy', 'excited'];
-  const negativeWords = ['sad', 'bad', 'terrible', 'awful', 'hate', 'angry', 'depressed', 'worried', 'anxious'];
-  const stressWords = ['stress', 'pressure', 'overwhelmed', 'busy', 'tired', 'exhausted', 'deadline'];
-
-  const words = text.toLowerCase().split(/\s+/);
-  
-  const positiveCount = words.filter(word => positiveWords.includes(word)).length;
-  const negativeCount = words.filter(word => negativeWords.includes(word)).length;
-  const stressCount = words.filter(word => stressWords.includes(word)).length;
-
-  let overall_mood: 'positive' | 'negative' | 'neutral' = 'neutral';
-  if (positiveCount > negativeCount) overall_mood = 'positive';
-  else if (negativeCount > positiveCount) overall_mood = 'negative';
-
-  const emotions: string[] = [];
-  if (positiveCount > 0) emotions.push('happiness', 'contentment');
-  if (negativeCount > 0) emotions.push('sadness', 'frustration');
-  if (stressCount > 0) emotions.push('stress', 'anxiety');
-
-  const stress_level: 'low' | 'medium' | 'high' = 
-    stressCount > 3 ? 'high' : stressCount > 1 ? 'medium' : 'low';
-
-  const recommendations: string[] = [];
-  if (overall_mood === 'negative') {
-    recommendations.push('Consider practicing mindfulness or meditation');
-    recommendations.push('Reach out to friends or family for support');
-  }
-  if (stress_level === 'high') {
-    recommendations.push('Take regular breaks throughout your day');
-    recommendations.push('Try deep breathing exercises');
-  }
-
-  const summary = `Based on your conversation, you seem to be feeling ${overall_mood} with a ${stress_level} stress level. ${emotions.length > 0 ? `Main emotions detected: ${emotions.join(', ')}.` : ''}`;
-
-  return {
-    overall_mood,
-    emotions,
-    stress_level,
-    recommendations,
-    summary,
-  };
-}
\ No newline at end of file
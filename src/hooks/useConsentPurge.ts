@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { useAuth } from './useAuth';
+import { useNetworkStatus } from './useNetworkStatus';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { notifyOffline } from '../lib/offline';
+import { CONSENT_PURGES } from '../lib/consent';
+import type { ConsentKey } from '../lib/consent';
+import { t } from '../lib/i18n';
+import toast from 'react-hot-toast';
+
+// Deletes what was collected under a privacy toggle the user just turned off
+export function useConsentPurge() {
+  const { user, handleSupabaseError } = useAuth();
+  const { withRetry, isConnectedToSupabase } = useNetworkStatus();
+  const [purging, setPurging] = useState(false);
+
+  const purge = async (key: ConsentKey): Promise<boolean> => {
+    const info = CONSENT_PURGES[key];
+    if (!user || !info) return false;
+    if (!isSupabaseConfigured() || !isConnectedToSupabase) {
+      toast.error(t('consent.offline'));
+      return false;
+    }
+
+    try {
+      setPurging(true);
+      const removed = await withRetry(async () => {
+        const { data, error } = await supabase.rpc('purge_consent_data', { p_key: key });
+
+        if (error) {
+          const isJWTError = await handleSupabaseError(error);
+          if (!isJWTError) throw error;
+          return null;
+        }
+        return (data as number | null) ?? 0;
+      }, 1, 2000);
+
+      if (removed === null) return false;
+      if (info.tables.length > 0) notifyOffline({ type: 'synced', tables: info.tables });
+      toast.success(removed > 0 ? t('consent.deleted', { count: removed }) : t('consent.nothing'));
+      return true;
+    } catch (error) {
+      console.error('Error purging data:', error);
+      toast.error(t('consent.failed'));
+      return false;
+    } finally {
+      setPurging(false);
+    }
+  };
+
+  return { purge, purging };
+}
@@ -0,0 +1,214 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from './useAuth';
+import { useNetworkStatus } from './useNetworkStatus';
+import { forgetCachedKeyRecord } from './useEncryption';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { clearOfflineData, isOfflineStoreSupported, notifyOffline, purgeWipedRows } from '../lib/offline';
+import { DELETION_SCOPES, isDeletionDue } from '../lib/dataDeletion';
+import { formatDate, t } from '../lib/i18n';
+import type { DeletionRequest, DeletionScope } from '../lib/dataDeletion';
+import toast from 'react-hot-toast';
+
+// Layout and Settings both show requests; changing one refreshes the other
+const listeners = new Set<() => void>();
+const notifyRequestsChanged = () => listeners.forEach(listener => listener());
+
+// Shared so two mounted copies don't run or clean up the same requests twice
+let syncing: Promise<DeletionRequest[]> | null = null;
+
+// When the last completed wipe this device cleaned up after finished, by user
+const WIPES_SEEN_PREFIX = 'mindpal-wipes-seen:';
+
+export function useDataDeletion() {
+  const { user, signOut, handleSupabaseError } = useAuth();
+  const { withRetry, isConnectedToSupabase } = useNetworkStatus();
+  const [requests, setRequests] = useState<DeletionRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPending = async (): Promise<DeletionRequest[]> => {
+    if (!user) return [];
+    return withRetry(async () => {
+      const { data, error } = await supabase
+        .from('data_deletion_requests')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('status', 'pending')
+        .order('execute_after', { ascending: true });
+
+      if (error) {
+        const isJWTError = await handleSupabaseError(error);
+        if (!isJWTError) throw error;
+        return [];
+      }
+      return (data || []) as DeletionRequest[];
+    }, 1, 2000);
+  };
+
+  const fetchCompleted = async (since: string | null): Promise<DeletionRequest[]> => {
+    if (!user) return [];
+    let query = supabase
+      .from('data_deletion_requests')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('status', 'completed')
+      .order('completed_at', { ascending: true });
+    if (since) query = query.gt('completed_at', since);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as DeletionRequest[];
+  };
+
+  // Runs requests whose grace period is over. The server does this on a
+  // schedule where pg_cron is available; this covers deployments without it.
+  // Returns true when the account itself was deleted.
+  const processDue = async (due: DeletionRequest[]): Promise<boolean> => {
+    if (!user) return false;
+
+    const { error } = await supabase.rpc('process_my_data_deletions');
+    if (error) throw error;
+
+    if (!due.some(request => request.scope === 'account')) return false;
+
+    if (isOfflineStoreSupported()) await clearOfflineData(user.id);
+    forgetCachedKeyRecord(user.id);
+    localStorage.removeItem(WIPES_SEEN_PREFIX + user.id);
+    toast.success(t(DELETION_SCOPES.account.done));
+    await signOut();
+    return true;
+  };
+
+  // Cleans up after every wipe completed since this device last looked,
+  // whether this client or the server's schedule ran it. Writes queued
+  // offline before a wipe would otherwise re-create what it deleted.
+  const cleanUpCompleted = async (ranHere: Set<string>) => {
+    if (!user) return;
+
+    const seenKey = WIPES_SEEN_PREFIX + user.id;
+    const since = localStorage.getItem(seenKey);
+    const completed = await fetchCompleted(since);
+    if (completed.length === 0) return;
+
+    for (const request of completed) {
+      const info = DELETION_SCOPES[request.scope];
+      if (info.tables.length > 0 && isOfflineStoreSupported() && request.completed_at) {
+        await purgeWipedRows(user.id, info.tables, request.completed_at);
+      }
+      // A device looking for the first time doesn't announce old wipes
+      if (since || ranHere.has(request.id)) toast.success(t(info.done));
+    }
+
+    localStorage.setItem(seenKey, completed[completed.length - 1].completed_at ?? new Date().toISOString());
+    const tables = completed.flatMap(request => [...DELETION_SCOPES[request.scope].tables, ...DELETION_SCOPES[request.scope].refresh]);
+    if (tables.length > 0) notifyOffline({ type: 'synced', tables });
+  };
+
+  // Returns the requests still pending afterwards
+  const syncDeletions = async (): Promise<DeletionRequest[]> => {
+    let pending = await fetchPending();
+    const due = pending.filter(request => isDeletionDue(request));
+    if (due.length > 0) {
+      if (await processDue(due)) return [];
+      pending = await fetchPending();
+    }
+    await cleanUpCompleted(new Set(due.map(request => request.id)));
+    return pending;
+  };
+
+  const loadRequests = async () => {
+    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      if (!syncing) {
+        syncing = syncDeletions().finally(() => {
+          syncing = null;
+        });
+      }
+      setRequests(await syncing);
+    } catch (error) {
+      console.warn('Failed to load deletion requests:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Listeners always run the latest loadRequests, which sees the current user
+  const loadRequestsRef = useRef(loadRequests);
+  loadRequestsRef.current = loadRequests;
+
+  useEffect(() => {
+    const reload = () => {
+      loadRequestsRef.current();
+    };
+    reload();
+    listeners.add(reload);
+    return () => {
+      listeners.delete(reload);
+    };
+  }, [user, isConnectedToSupabase]);
+
+  const requestDeletion = async (scope: DeletionScope, confirmation: string): Promise<boolean> => {
+    if (!user) return false;
+    if (!isConnectedToSupabase) {
+      toast.error(t('deletion.offline'));
+      return false;
+    }
+
+    try {
+      const request = await withRetry(async () => {
+        const { data, error } = await supabase.rpc('request_data_deletion', {
+          p_scope: scope,
+          p_confirmation: confirmation,
+        });
+
+        if (error) {
+          const isJWTError = await handleSupabaseError(error);
+          if (!isJWTError) throw error;
+          return null;
+        }
+        return data as DeletionRequest;
+      }, 1, 2000);
+
+      if (!request) return false;
+      toast.success(t('deletion.scheduled', { date: formatDate(request.execute_after, 'PPp') }));
+      notifyRequestsChanged();
+      return true;
+    } catch (error) {
+      console.error('Error requesting data deletion:', error);
+      toast.error(t('deletion.scheduleFailed'));
+      return false;
+    }
+  };
+
+  const cancelDeletion = async (requestId: string): Promise<boolean> => {
+    try {
+      await withRetry(async () => {
+        const { error } = await supabase.rpc('cancel_data_deletion', { p_request_id: requestId });
+
+        if (error) {
+          const isJWTError = await handleSupabaseError(error);
+          if (!isJWTError) throw error;
+        }
+      }, 1, 2000);
+
+      toast.success(t('deletion.cancelled'));
+      notifyRequestsChanged();
+      return true;
+    } catch (error) {
+      console.error('Error cancelling data deletion:', error);
+      toast.error(t('deletion.cancelFailed'));
+      return false;
+    }
+  };
+
+  return {
+    requests,
+    loading,
+    pendingFor: (scope: DeletionScope) => requests.find(request => request.scope === scope) ?? null,
+    requestDeletion,
+    cancelDeletion,
+  };
+}
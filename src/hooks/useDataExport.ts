@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { useAuth } from './useAuth';
+import { useNetworkStatus } from './useNetworkStatus';
+import { useEncryption } from './useEncryption';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { EXPORT_TABLES, buildArchiveFiles, createZip } from '../lib/export';
+import type { ExportProgress, ExportRow, ExportTable, TableExport } from '../lib/export';
+import { parseContent } from '../lib/journal';
+import { t } from '../lib/i18n';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000;
+
+const errorMessage = (error: unknown) =>
+  String((error as { message?: string })?.message ?? error);
+
+// Builds a ZIP of everything stored for the account, entirely in the browser
+export function useDataExport() {
+  const { user, handleSupabaseError } = useAuth();
+  const { withRetry, isConnectedToSupabase } = useNetworkStatus();
+  const { decryptData } = useEncryption();
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+
+  const fetchTable = async (table: ExportTable): Promise<ExportRow[]> => {
+    if (!user) return [];
+
+    const rows: ExportRow[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const page = await withRetry(async () => {
+        const { data, error } = await supabase
+          .from(table.table)
+          .select('*')
+          .eq(table.owner, user.id)
+          .order(table.orderBy, { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+          const isJWTError = await handleSupabaseError(error);
+          if (!isJWTError) throw error;
+          return null;
+        }
+        return (data || []) as ExportRow[];
+      }, 1, 2000);
+
+      if (!page) throw new Error('Session expired');
+      rows.push(...page);
+      if (page.length < PAGE_SIZE) return rows;
+    }
+  };
+
+  // Replaces ciphertext with what it decrypts to. Values that can't be
+  // decrypted (e.g. while the key is locked) keep their ciphertext and are
+  // flagged so the export says so.
+  const decryptRows = async (table: ExportTable, rows: ExportRow[]): Promise<ExportRow[]> =>
+    Promise.all(rows.map(async ({ encrypted_content, ...row }) => {
+      const plaintext = await decryptData(String(encrypted_content ?? ''));
+      if (!plaintext) return { ...row, decrypted: false, encrypted_content };
+      if (table.decrypt === 'journal') return { ...row, ...parseContent(plaintext), decrypted: true };
+      return { ...row, content: plaintext, decrypted: true };
+    }));
+
+  const exportAllData = async (): Promise<boolean> => {
+    if (!user || progress) return false;
+    if (!isSupabaseConfigured() || !isConnectedToSupabase) {
+      toast.error(t('export.offline'));
+      return false;
+    }
+
+    const total = EXPORT_TABLES.length;
+    const tables: TableExport[] = [];
+    try {
+      for (const [index, table] of EXPORT_TABLES.entries()) {
+        setProgress({ stage: 'fetching', table: table.table, completed: index, total });
+        try {
+          let rows = await fetchTable(table);
+          if (table.decrypt && rows.length > 0) {
+            setProgress({ stage: 'decrypting', table: table.table, completed: index, total });
+            rows = await decryptRows(table, rows);
+          }
+          tables.push({ table, rows });
+        } catch (error) {
+          // Missing tables or permission errors shouldn't lose the rest
+          console.warn(`Failed to export ${table.table}:`, error);
+          tables.push({ table, rows: [], error: errorMessage(error) });
+        }
+      }
+
+      setProgress({ stage: 'packaging', completed: total, total });
+      const generatedAt = new Date();
+      const archive = createZip(
+        buildArchiveFiles(tables, { userId: user.id, email: user.email ?? null, generatedAt }),
+        generatedAt
+      );
+
+      const url = URL.createObjectURL(new Blob([archive], { type: 'application/zip' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `mindpal-data-export-${format(generatedAt, 'yyyy-MM-dd')}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      const failed = tables.filter(({ error }) => error).length;
+      if (failed > 0) {
+        toast.success(t('export.partial', { count: failed }));
+      } else {
+        toast.success(t('export.done'));
+      }
+      return true;
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast.error(t('export.failed'));
+      return false;
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return {
+    progress,
+    exporting: progress !== null,
+    exportAllData,
+  };
+}
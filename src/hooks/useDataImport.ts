@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { useAuth } from './useAuth';
+import { useNetworkStatus } from './useNetworkStatus';
+import { useProfile } from './useProfile';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { createLocalId, notifyOffline } from '../lib/offline';
+import { IMPORT_FORMATS, markDuplicates, moodKey, readMoodRows, readTaskRows, taskKey } from '../lib/import';
+import type { ImportFailure, ImportFormat, ImportOptions, ImportPreview, ImportResult } from '../lib/import';
+import { t } from '../lib/i18n';
+import toast from 'react-hot-toast';
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000;
+const BATCH_SIZE = 100;
+
+type ExistingRow = Record<string, string | number | null>;
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+// Dry-run preview, then batched inserts, for history from other apps
+export function useDataImport() {
+  const { user, handleSupabaseError } = useAuth();
+  const { withRetry, isConnectedToSupabase } = useNetworkStatus();
+  const { timezone } = useProfile();
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const fetchExisting = async (
+    table: 'mood_entries' | 'tasks',
+    columns: string,
+    range?: { from: string; to: string }
+  ): Promise<ExistingRow[]> => {
+    if (!user) return [];
+
+    const rows: ExistingRow[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const page = await withRetry(async () => {
+        let query = supabase.from(table).select(columns).eq('user_id', user.id);
+        if (range) query = query.gte('created_at', range.from).lte('created_at', range.to);
+        const { data, error } = await query.order('id', { ascending: true }).range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+          const isJWTError = await handleSupabaseError(error);
+          if (!isJWTError) throw error;
+          return null;
+        }
+        return (data || []) as unknown as ExistingRow[];
+      }, 1, 2000);
+
+      if (!page) throw new Error('Session expired');
+      rows.push(...page);
+      if (page.length < PAGE_SIZE) return rows;
+    }
+  };
+
+  // Parses the file and flags rows that are already in MindPal. Nothing is
+  // written.
+  const buildPreview = async (file: File, format: ImportFormat, options: Omit<ImportOptions, 'timeZone'> = {}): Promise<boolean> => {
+    if (!user) return false;
+    if (!isSupabaseConfigured() || !isConnectedToSupabase) {
+      toast.error(t('import.offline'));
+      return false;
+    }
+
+    setPreviewing(true);
+    setResult(null);
+    try {
+      const text = await file.text();
+      const readOptions = { ...options, timeZone: timezone };
+
+      if (IMPORT_FORMATS[format].kind === 'mood') {
+        const rows = readMoodRows(text, format as 'daylio' | 'mood_csv', readOptions);
+        const times = rows.flatMap(row => (row.record ? [Date.parse(row.record.created_at)] : []));
+        const existing = times.length === 0 ? [] : await fetchExisting('mood_entries', 'created_at, mood', {
+          from: new Date(Math.min(...times) - 60000).toISOString(),
+          to: new Date(Math.max(...times) + 60000).toISOString(),
+        });
+        const keys = new Set(existing.map(row => moodKey({ created_at: String(row.created_at), mood: Number(row.mood) })));
+        setPreview({ kind: 'mood', format, rows: markDuplicates(rows, keys, moodKey) });
+      } else {
+        const rows = readTaskRows(text, format as 'todoist' | 'task_csv' | 'ics', readOptions);
+        const existing = await fetchExisting('tasks', 'title, due_date');
+        const keys = new Set(existing.map(row => taskKey({ title: String(row.title), due_date: row.due_date as string | null })));
+        setPreview({ kind: 'task', format, rows: markDuplicates(rows, keys, taskKey) });
+      }
+      return true;
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error(t('import.readFailed'));
+      return false;
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  // Inserts a batch in one request. If that fails, rows go one at a time so
+  // each failure can be pinned to its line.
+  const insertBatch = async (
+    table: 'mood_entries' | 'tasks',
+    batch: { line: number; row: Record<string, unknown> }[]
+  ): Promise<ImportFailure[]> => {
+    const insert = (rows: Record<string, unknown>[]) =>
+      withRetry(async () => {
+        const { error } = await supabase.from(table).insert(rows);
+        if (error && await handleSupabaseError(error)) throw new Error('Session expired');
+        return error;
+      }, 1, 2000);
+
+    if (batch.length === 0 || !(await insert(batch.map(item => item.row)))) return [];
+
+    const failures: ImportFailure[] = [];
+    for (const item of batch) {
+      const error = await insert([item.row]);
+      if (error) failures.push({ line: item.line, message: error.message });
+    }
+    return failures;
+  };
+
+  const runImport = async (skipDuplicates: boolean = true): Promise<ImportResult | null> => {
+    if (!user || !preview || progress) return null;
+
+    const chosen = preview.rows.filter(row => row.record && !(skipDuplicates && row.duplicate));
+    const table = preview.kind === 'mood' ? 'mood_entries' : 'tasks';
+
+    // Ids are made here so subtasks can point at their parent
+    const idByLine = new Map(chosen.map(row => [row.line, createLocalId()]));
+    const items = preview.kind === 'mood'
+      ? preview.rows.filter(row => idByLine.has(row.line)).map(row => ({
+        line: row.line,
+        row: { ...row.record, id: idByLine.get(row.line), user_id: user.id },
+      }))
+      : preview.rows.filter(row => idByLine.has(row.line)).map(row => {
+        const { parent_line, ...task } = row.record!;
+        // A subtask whose parent was skipped as a duplicate comes in on its own
+        const parentId = parent_line !== null ? idByLine.get(parent_line) ?? null : null;
+        return {
+          line: row.line,
+          parentLine: parentId ? parent_line : null,
+          row: { ...task, id: idByLine.get(row.line), user_id: user.id, parent_id: parentId },
+        };
+      });
+
+    const failed: ImportFailure[] = [];
+    const failedLines = new Set<number>();
+    const processed = new Set<number>();
+    setProgress({ done: 0, total: items.length });
+    try {
+      for (let start = 0; start < items.length; start += BATCH_SIZE) {
+        const batch = items.slice(start, start + BATCH_SIZE).filter(item => {
+          const parentLine = 'parentLine' in item ? item.parentLine : null;
+          if (parentLine === null || !failedLines.has(parentLine)) return true;
+          failed.push({ line: item.line, message: t('import.parentFailed') });
+          failedLines.add(item.line);
+          processed.add(item.line);
+          return false;
+        });
+
+        const failures = await insertBatch(table, batch);
+        failures.forEach(failure => failedLines.add(failure.line));
+        failed.push(...failures);
+        batch.forEach(item => processed.add(item.line));
+        setProgress({ done: processed.size, total: items.length });
+      }
+    } catch (error) {
+      console.error('Error importing data:', error);
+      toast.error(t('import.stopped'));
+      items
+        .filter(item => !processed.has(item.line))
+        .forEach(item => failed.push({ line: item.line, message: t('import.interrupted') }));
+    } finally {
+      setProgress(null);
+    }
+
+    failed.sort((a, b) => a.line - b.line);
+    const outcome: ImportResult = {
+      inserted: items.length - failed.length,
+      skipped: preview.rows.length - chosen.length,
+      failed,
+    };
+    setResult(outcome);
+    setPreview(null);
+    notifyOffline({ type: 'synced', tables: [table] });
+
+    const count = outcome.inserted;
+    if (count > 0) {
+      toast.success(t(preview.kind === 'mood' ? 'import.importedMoods' : 'import.importedTasks', { count }));
+    }
+    return outcome;
+  };
+
+  const reset = () => {
+    setPreview(null);
+    setResult(null);
+  };
+
+  return {
+    preview,
+    previewing,
+    progress,
+    importing: !!progress,
+    result,
+    buildPreview,
+    runImport,
+    reset,
+  };
+}
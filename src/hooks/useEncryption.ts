@@ -1,95 +1,393 @@
+import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from './useAuth';
-import { supabase } from '../lib/supabase';
+import { useNetworkStatus } from './useNetworkStatus';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { notifyOffline } from '../lib/offline';
+import {
+  EncryptionLockedError,
+  PBKDF2_ITERATIONS,
+  decryptWithKey,
+  deriveLegacyKey,
+  deriveWrappingKey,
+  encryptWithKey,
+  generateDataKey,
+  generateRecoveryCode,
+  generateSalt,
+  getKeyState,
+  isLegacyCiphertext,
+  isValidRecoveryCode,
+  normalizeRecoveryCode,
+  setKeyState,
+  subscribeKeyState,
+  unwrapDataKey,
+  wrapDataKey,
+} from '../lib/encryption';
+import type { KeyRecord, KeyState } from '../lib/encryption';
+import { t } from '../lib/i18n';
+import toast from 'react-hot-toast';
+
+// The wrapped key record is safe to keep on the device (it is useless
+// without the passphrase) and lets the key be unlocked offline
+const RECORD_CACHE_PREFIX = 'mindpal-key-record:';
+
+// Tables whose rows are encrypted and re-encrypted off the legacy key
+const ENCRYPTED_TABLES = ['encrypted_data', 'journal_entries'] as const;
+
+const SIGNED_OUT: KeyState = { userId: null, status: 'loading', record: null, dataKey: null };
+
+const readCachedRecord = (userId: string): KeyRecord | null | undefined => {
+  try {
+    const stored = localStorage.getItem(RECORD_CACHE_PREFIX + userId);
+    return stored === null ? undefined : JSON.parse(stored);
+  } catch {
+    return undefined;
+  }
+};
+
+const writeCachedRecord = (userId: string, record: KeyRecord | null) => {
+  localStorage.setItem(RECORD_CACHE_PREFIX + userId, JSON.stringify(record));
+};
+
+// For when the account itself is gone
+export const forgetCachedKeyRecord = (userId: string) => {
+  localStorage.removeItem(RECORD_CACHE_PREFIX + userId);
+};
+
+let loadingRecordFor: string | null = null;
+const reencryptedFor = new Set<string>();
+
+// Moves rows still encrypted with the user-id key onto the data key. Runs
+// once per session after unlocking; each update only applies if the row is
+// unchanged, so edits made meanwhile on another device aren't overwritten.
+const reencryptLegacyRows = async (userId: string, dataKey: CryptoKey) => {
+  if (reencryptedFor.has(userId)) return;
+  reencryptedFor.add(userId);
+
+  const legacyKey = await deriveLegacyKey(userId);
+  for (const table of ENCRYPTED_TABLES) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('id, encrypted_content')
+      .eq('user_id', userId)
+      .not('encrypted_content', 'like', 'v2:%');
+
+    if (error) {
+      console.warn(`Failed to load legacy rows from ${table}:`, error);
+      reencryptedFor.delete(userId);
+      continue;
+    }
+
+    let moved = 0;
+    for (const row of (data || []) as { id: string; encrypted_content: string }[]) {
+      try {
+        const plaintext = await decryptWithKey(legacyKey, row.encrypted_content);
+        const { error: updateError } = await supabase
+          .from(table)
+          .update({ encrypted_content: await encryptWithKey(dataKey, plaintext) })
+          .eq('id', row.id)
+          .eq('encrypted_content', row.encrypted_content);
+        if (updateError) throw updateError;
+        moved += 1;
+      } catch (rowError) {
+        console.warn(`Failed to re-encrypt ${table} row ${row.id}:`, rowError);
+      }
+    }
+
+    // Lets open screens (e.g. the journal) pick up the new ciphertext
+    if (moved > 0 && table === 'journal_entries') {
+      notifyOffline({ type: 'synced', tables: ['journal_entries'] });
+    }
+  }
+};
 
 export function useEncryption() {
   const { user, handleSupabaseError } = useAuth();
+  const { isConnectedToSupabase } = useNetworkStatus();
+  const [keyState, setLocalKeyState] = useState(getKeyState);
+
+  useEffect(() => subscribeKeyState(setLocalKeyState), []);
+
+  const unlockWith = (record: KeyRecord, dataKey: CryptoKey) => {
+    if (!user) return;
+    setKeyState({ userId: user.id, status: 'unlocked', record, dataKey });
+    reencryptLegacyRows(user.id, dataKey).catch(error => console.warn('Failed to re-encrypt legacy data:', error));
+  };
+
+  const loadKeyRecord = useCallback(async () => {
+    if (!user) {
+      if (getKeyState().userId) setKeyState(SIGNED_OUT);
+      return;
+    }
+
+    const current = getKeyState();
+    if (current.userId === user.id && current.status === 'unlocked') return;
+    if (loadingRecordFor === user.id) return;
+    loadingRecordFor = user.id;
+
+    try {
+      let record = readCachedRecord(user.id);
+
+      if (isSupabaseConfigured() && isConnectedToSupabase) {
+        const { data, error } = await supabase
+          .from('encryption_keys')
+          .select('*')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) {
+          const isJWTError = await handleSupabaseError(error);
+          if (!isJWTError) throw error;
+          return;
+        }
+
+        record = (data as KeyRecord | null) ?? null;
+        writeCachedRecord(user.id, record);
+      }
+
+      // Offline on a device that has never loaded the record: stay loading,
+      // since it can't be told whether a passphrase exists
+      if (record === undefined) return;
+
+      // Another screen may have unlocked while this was loading
+      if (getKeyState().status === 'unlocked' && getKeyState().userId === user.id) return;
+      setKeyState({ userId: user.id, status: record ? 'locked' : 'legacy', record, dataKey: null });
+    } catch (error) {
+      console.error('Error loading encryption key:', error);
+    } finally {
+      loadingRecordFor = null;
+    }
+  }, [user, isConnectedToSupabase, handleSupabaseError]);
+
+  useEffect(() => {
+    loadKeyRecord();
+  }, [loadKeyRecord]);
+
+  // The state for this user; anything left from a previous user reads as loading
+  const state = keyState.userId === user?.id ? keyState : SIGNED_OUT;
 
   const encryptData = async (data: string): Promise<string> => {
-    // Simple encryption using Web Crypto API
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(data);
-    
-    // Generate a key from user ID (in production, use a proper key derivation)
-    const keyMaterial = await crypto.subtle.importKey(
-      'raw',
-      encoder.encode(user?.id || 'default-key'),
-      { name: 'PBKDF2' },
-      false,
-      ['deriveKey']
-    );
-    
-    const key = await crypto.subtle.deriveKey(
-      {
-        name: 'PBKDF2',
-        salt: encoder.encode('mindpal-salt'),
-        iterations: 100000,
-        hash: 'SHA-256',
-      },
-      keyMaterial,
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['encrypt']
-    );
-    
-    const iv = crypto.getRandomValues(new Uint8Array(12));
-    const encrypted = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
-      key,
-      dataBuffer
-    );
-    
-    // Combine IV and encrypted data
-    const combined = new Uint8Array(iv.length + encrypted.byteLength);
-    combined.set(iv);
-    combined.set(new Uint8Array(encrypted), iv.length);
-    
-    return btoa(String.fromCharCode(...combined));
+    const current = getKeyState();
+    if (!user || current.userId !== user.id) throw new EncryptionLockedError();
+
+    // The user-id key is only for reading old rows: anyone who knows the id
+    // could read what it encrypts, so nothing is written until a passphrase is set
+    if (current.status === 'unlocked' && current.dataKey) {
+      return encryptWithKey(current.dataKey, data);
+    }
+    throw new EncryptionLockedError();
   };
 
-  const decryptData = async (encryptedData: string): Promise<string> => {
+  const decryptData = useCallback(async (encryptedData: string): Promise<string> => {
     try {
-      const combined = new Uint8Array(
-        atob(encryptedData)
-          .split('')
-          .map(char => char.charCodeAt(0))
-      );
-      
-      const iv = combined.slice(0, 12);
-      const encrypted = combined.slice(12);
-      
-      const encoder = new TextEncoder();
-      const keyMaterial = await crypto.subtle.importKey(
-        'raw',
-        encoder.encode(user?.id || 'default-key'),
-        { name: 'PBKDF2' },
-        false,
-        ['deriveKey']
-      );
-      
-      const key = await crypto.subtle.deriveKey(
-        {
-          name: 'PBKDF2',
-          salt: encoder.encode('mindpal-salt'),
-          iterations: 100000,
-          hash: 'SHA-256',
-        },
-        keyMaterial,
-        { name: 'AES-GCM', length: 256 },
-        false,
-        ['decrypt']
-      );
-      
-      const decrypted = await crypto.subtle.decrypt(
-        { name: 'AES-GCM', iv },
-        key,
-        encrypted
-      );
-      
-      return new TextDecoder().decode(decrypted);
+      if (!user) return '';
+      if (isLegacyCiphertext(encryptedData)) {
+        return await decryptWithKey(await deriveLegacyKey(user.id), encryptedData);
+      }
+      const current = getKeyState();
+      if (current.userId !== user.id || !current.dataKey) return '';
+      return await decryptWithKey(current.dataKey, encryptedData);
     } catch (error) {
       console.error('Decryption failed:', error);
       return '';
     }
+  }, [user]);
+
+  const saveRecord = async (changes: Partial<KeyRecord>): Promise<boolean> => {
+    if (!user) return false;
+
+    const { error } = await supabase
+      .from('encryption_keys')
+      .update(changes)
+      .eq('user_id', user.id);
+
+    if (error) {
+      const isJWTError = await handleSupabaseError(error);
+      if (!isJWTError) throw error;
+      return false;
+    }
+    return true;
+  };
+
+  const requireConnection = () => {
+    if (isSupabaseConfigured() && isConnectedToSupabase) return true;
+    toast.error(t('encryption.offline'));
+    return false;
+  };
+
+  // Creates the data key and returns the recovery code to show the user once
+  const setupPassphrase = async (passphrase: string): Promise<string | null> => {
+    if (!user || state.status !== 'legacy' || !requireConnection()) return null;
+
+    try {
+      const dataKey = await generateDataKey();
+      const recoveryCode = generateRecoveryCode();
+      const kdf_salt = generateSalt();
+      const recovery_salt = generateSalt();
+      const [passphraseKey, recoveryKey] = await Promise.all([
+        deriveWrappingKey(passphrase, kdf_salt, PBKDF2_ITERATIONS),
+        deriveWrappingKey(normalizeRecoveryCode(recoveryCode), recovery_salt, PBKDF2_ITERATIONS),
+      ]);
+      const record: KeyRecord = {
+        user_id: user.id,
+        kdf_salt,
+        kdf_iterations: PBKDF2_ITERATIONS,
+        wrapped_key: await wrapDataKey(dataKey, passphraseKey),
+        recovery_salt,
+        recovery_wrapped_key: await wrapDataKey(dataKey, recoveryKey),
+      };
+
+      const { error } = await supabase.from('encryption_keys').insert([record]);
+      if (error) {
+        if (error.code === '23505') {
+          // Set up from another device in the meantime
+          toast.error(t('encryption.alreadySet'));
+          loadKeyRecord();
+          return null;
+        }
+        const isJWTError = await handleSupabaseError(error);
+        if (!isJWTError) throw error;
+        return null;
+      }
+
+      writeCachedRecord(user.id, record);
+      // Keep only a non-extractable copy in memory
+      unlockWith(record, await unwrapDataKey(record.wrapped_key, passphraseKey));
+      return recoveryCode;
+    } catch (error) {
+      console.error('Error setting up encryption:', error);
+      toast.error(t('encryption.setupFailed'));
+      return null;
+    }
+  };
+
+  const unlock = async (passphrase: string): Promise<boolean> => {
+    const record = state.record;
+    if (!record) return false;
+
+    try {
+      const wrappingKey = await deriveWrappingKey(passphrase, record.kdf_salt, record.kdf_iterations);
+      unlockWith(record, await unwrapDataKey(record.wrapped_key, wrappingKey));
+      return true;
+    } catch {
+      toast.error(t('encryption.wrongPassphrase'));
+      return false;
+    }
+  };
+
+  const lock = () => {
+    if (!user || state.status !== 'unlocked') return;
+    setKeyState({ ...state, status: 'locked', dataKey: null });
+  };
+
+  // Unwraps an extractable copy of the data key for re-wrapping
+  const unwrapForRewrap = async (secret: string, salt: string, wrapped: string, iterations: number) => {
+    try {
+      return await unwrapDataKey(wrapped, await deriveWrappingKey(secret, salt, iterations), true);
+    } catch {
+      return null;
+    }
+  };
+
+  const changePassphrase = async (currentPassphrase: string, nextPassphrase: string): Promise<boolean> => {
+    const record = state.record;
+    if (!user || !record || !requireConnection()) return false;
+
+    try {
+      const dataKey = await unwrapForRewrap(currentPassphrase, record.kdf_salt, record.wrapped_key, record.kdf_iterations);
+      if (!dataKey) {
+        toast.error(t('encryption.wrongCurrentPassphrase'));
+        return false;
+      }
+
+      const kdf_salt = generateSalt();
+      const passphraseKey = await deriveWrappingKey(nextPassphrase, kdf_salt, PBKDF2_ITERATIONS);
+      const changes = { kdf_salt, kdf_iterations: PBKDF2_ITERATIONS, wrapped_key: await wrapDataKey(dataKey, passphraseKey) };
+      if (!(await saveRecord(changes))) return false;
+
+      const updated = { ...record, ...changes };
+      writeCachedRecord(user.id, updated);
+      unlockWith(updated, await unwrapDataKey(updated.wrapped_key, passphraseKey));
+      toast.success(t('encryption.passphraseChanged'));
+      return true;
+    } catch (error) {
+      console.error('Error changing passphrase:', error);
+      toast.error(t('encryption.changeFailed'));
+      return false;
+    }
+  };
+
+  // Sets a new passphrase using the recovery code. The code is used up:
+  // a fresh one is returned to show the user.
+  const recoverWithCode = async (code: string, nextPassphrase: string): Promise<string | null> => {
+    const record = state.record;
+    const normalized = normalizeRecoveryCode(code);
+    if (!user || !record || !requireConnection()) return null;
+    if (!isValidRecoveryCode(normalized)) {
+      toast.error(t('encryption.notRecoveryCode'));
+      return null;
+    }
+
+    try {
+      const dataKey = await unwrapForRewrap(normalized, record.recovery_salt, record.recovery_wrapped_key, record.kdf_iterations);
+      if (!dataKey) {
+        toast.error(t('encryption.wrongRecoveryCode'));
+        return null;
+      }
+
+      const recoveryCode = generateRecoveryCode();
+      const kdf_salt = generateSalt();
+      const recovery_salt = generateSalt();
+      const [passphraseKey, recoveryKey] = await Promise.all([
+        deriveWrappingKey(nextPassphrase, kdf_salt, PBKDF2_ITERATIONS),
+        deriveWrappingKey(normalizeRecoveryCode(recoveryCode), recovery_salt, PBKDF2_ITERATIONS),
+      ]);
+      const changes = {
+        kdf_salt,
+        kdf_iterations: PBKDF2_ITERATIONS,
+        wrapped_key: await wrapDataKey(dataKey, passphraseKey),
+        recovery_salt,
+        recovery_wrapped_key: await wrapDataKey(dataKey, recoveryKey),
+      };
+      if (!(await saveRecord(changes))) return null;
+
+      const updated = { ...record, ...changes };
+      writeCachedRecord(user.id, updated);
+      unlockWith(updated, await unwrapDataKey(updated.wrapped_key, passphraseKey));
+      return recoveryCode;
+    } catch (error) {
+      console.error('Error recovering encryption key:', error);
+      toast.error(t('encryption.recoverFailed'));
+      return null;
+    }
+  };
+
+  // Replaces the recovery code, e.g. if the old one may have been seen
+  const regenerateRecoveryCode = async (passphrase: string): Promise<string | null> => {
+    const record = state.record;
+    if (!user || !record || !requireConnection()) return null;
+
+    try {
+      const dataKey = await unwrapForRewrap(passphrase, record.kdf_salt, record.wrapped_key, record.kdf_iterations);
+      if (!dataKey) {
+        toast.error(t('encryption.wrongPassphrase'));
+        return null;
+      }
+
+      const recoveryCode = generateRecoveryCode();
+      const recovery_salt = generateSalt();
+      const recoveryKey = await deriveWrappingKey(normalizeRecoveryCode(recoveryCode), recovery_salt, record.kdf_iterations);
+      const changes = { recovery_salt, recovery_wrapped_key: await wrapDataKey(dataKey, recoveryKey) };
+      if (!(await saveRecord(changes))) return null;
+
+      const updated = { ...record, ...changes };
+      writeCachedRecord(user.id, updated);
+      setKeyState({ ...getKeyState(), record: updated });
+      return recoveryCode;
+    } catch (error) {
+      console.error('Error replacing recovery code:', error);
+      toast.error(t('encryption.newCodeFailed'));
+      return null;
+    }
   };
 
   const storeEncryptedData = async (dataType: string, data: string) => {
@@ -97,7 +395,7 @@ export function useEncryption() {
 
     try {
       const encryptedContent = await encryptData(data);
-      
+
       const { error } = await supabase
         .from('encrypted_data')
         .insert([{
@@ -112,7 +410,8 @@ export function useEncryption() {
         return;
       }
     } catch (error) {
-      console.error('Error storing encrypted data:', error);
+      // Being locked is expected; callers decide whether it matters
+      if (!(error instanceof EncryptionLockedError)) console.error('Error storing encrypted data:', error);
       throw error;
     }
   };
@@ -145,9 +444,16 @@ export function useEncryption() {
   };
 
   return {
+    keyStatus: state.status,
     encryptData,
     decryptData,
     storeEncryptedData,
     retrieveEncryptedData,
+    setupPassphrase,
+    unlock,
+    lock,
+    changePassphrase,
+    recoverWithCode,
+    regenerateRecoveryCode,
   };
-}
\ No newline at end of file
+}
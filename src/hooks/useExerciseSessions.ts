@@ -0,0 +1,42 @@
+import { useOfflineCollection } from './useOfflineCollection';
+import type { ExerciseId } from '../lib/exercises';
+import { t } from '../lib/i18n';
+import toast from 'react-hot-toast';
+
+export interface ExerciseSession {
+  id: string;
+  exercise_id: ExerciseId;
+  duration_seconds: number;
+  completed: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewExerciseSession = Pick<ExerciseSession, 'exercise_id' | 'duration_seconds' | 'completed'>;
+
+// Enough to sit alongside the recent mood entries
+const SESSION_HISTORY_LIMIT = 30;
+
+export function useExerciseSessions() {
+  const { rows: sessions, loading, insertRow } = useOfflineCollection<ExerciseSession>({
+    table: 'exercise_sessions',
+    limit: SESSION_HISTORY_LIMIT,
+    loadErrorMessage: 'exercises.loadFailed',
+  });
+
+  const logSession = async (session: NewExerciseSession): Promise<ExerciseSession | null> => {
+    try {
+      return await insertRow(session);
+    } catch (error) {
+      console.error('Error logging exercise session:', error);
+      toast.error(t('exercises.saveFailed'));
+      return null;
+    }
+  };
+
+  return {
+    sessions,
+    loading,
+    logSession,
+  };
+}
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  formatDate as formatDateIn,
+  formatNumber as formatNumberIn,
+  getLocale,
+  localeDirection,
+  subscribeLocale,
+  t as translate,
+} from '../lib/i18n';
+import type { MessageKey, MessageParams } from '../lib/i18n';
+
+// Re-renders the calling component when the language changes
+export function useI18n() {
+  const [locale, setLocaleState] = useState(getLocale);
+
+  useEffect(() => subscribeLocale(setLocaleState), []);
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(key, params, locale),
+    [locale]
+  );
+  const formatDate = useCallback(
+    (date: Date | number | string, pattern: string) => formatDateIn(date, pattern, locale),
+    [locale]
+  );
+  const formatNumber = useCallback((value: number) => formatNumberIn(value, locale), [locale]);
+
+  return { t, locale, dir: localeDirection(locale), formatDate, formatNumber };
+}
@@ -0,0 +1,149 @@
+import { useEffect, useRef, useState } from 'react';
+import { useOfflineCollection } from './useOfflineCollection';
+import type { OfflineRow } from './useOfflineCollection';
+import { useEncryption } from './useEncryption';
+import { parseContent, serializeContent } from '../lib/journal';
+import type { JournalContent } from '../lib/journal';
+import { t } from '../lib/i18n';
+import toast from 'react-hot-toast';
+
+// As stored: only the date and mood link are readable by the server
+interface JournalRow extends OfflineRow {
+  entry_date: string;
+  mood_entry_id: string | null;
+  encrypted_content: string;
+}
+
+export interface JournalEntry extends JournalContent {
+  id: string;
+  entry_date: string;
+  mood_entry_id: string | null;
+  created_at: string;
+  updated_at: string;
+  // The ciphertext couldn't be decrypted on this device
+  locked: boolean;
+}
+
+export type NewJournalEntry = JournalContent & Pick<JournalEntry, 'entry_date' | 'mood_entry_id'>;
+
+interface DecryptedRow {
+  ciphertext: string;
+  content: JournalContent | null;
+}
+
+const byEntryDate = (a: JournalRow, b: JournalRow) =>
+  b.entry_date.localeCompare(a.entry_date) || b.created_at.localeCompare(a.created_at);
+
+export function useJournal() {
+  const { encryptData, decryptData, keyStatus } = useEncryption();
+  const { rows, loading, insertRow, updateRow, deleteRow } = useOfflineCollection<JournalRow>({
+    table: 'journal_entries',
+    compare: byEntryDate,
+    loadErrorMessage: 'journal.loadFailed',
+  });
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [decrypting, setDecrypting] = useState(false);
+  // Decrypted content by row id, so unchanged rows aren't decrypted again
+  const decrypted = useRef(new Map<string, DecryptedRow>());
+
+  // Locking (or unlocking) changes what can be read, so start over
+  useEffect(() => {
+    decrypted.current.clear();
+  }, [keyStatus]);
+
+  // keyStatus changes what decryptData can read, so it reruns on that too
+  useEffect(() => {
+    let cancelled = false;
+
+    const decryptRows = async () => {
+      // Entries that couldn't be read are retried, e.g. once the key is unlocked
+      const stale = rows.filter(row => {
+        const cached = decrypted.current.get(row.id);
+        return !cached?.content || cached.ciphertext !== row.encrypted_content;
+      });
+      if (stale.length > 0) {
+        setDecrypting(true);
+        await Promise.all(stale.map(async row => {
+          const plaintext = await decryptData(row.encrypted_content);
+          decrypted.current.set(row.id, {
+            ciphertext: row.encrypted_content,
+            content: plaintext ? parseContent(plaintext) : null,
+          });
+        }));
+      }
+      if (cancelled) return;
+
+      setEntries(rows.map(row => {
+        const content = decrypted.current.get(row.id)?.content;
+        return {
+          id: row.id,
+          entry_date: row.entry_date,
+          mood_entry_id: row.mood_entry_id,
+          created_at: row.created_at,
+          updated_at: row.updated_at,
+          title: content?.title ?? '',
+          body: content?.body ?? '',
+          prompt: content?.prompt ?? null,
+          locked: !content,
+        };
+      }));
+      setDecrypting(false);
+    };
+
+    decryptRows();
+    return () => {
+      cancelled = true;
+    };
+  }, [rows, keyStatus, decryptData]);
+
+  const addEntry = async ({ entry_date, mood_entry_id, ...content }: NewJournalEntry): Promise<boolean> => {
+    try {
+      const encrypted_content = await encryptData(serializeContent(content));
+      return !!(await insertRow({ entry_date, mood_entry_id, encrypted_content }));
+    } catch (error) {
+      console.error('Error saving journal entry:', error);
+      toast.error(t('journal.saveFailed'));
+      return false;
+    }
+  };
+
+  const updateEntry = async (entryId: string, updates: Partial<NewJournalEntry>): Promise<boolean> => {
+    const current = entries.find(entry => entry.id === entryId);
+    if (!current || current.locked) return false;
+
+    try {
+      const { entry_date, mood_entry_id, ...content } = { ...current, ...updates };
+      const encrypted_content = await encryptData(serializeContent({
+        title: content.title,
+        body: content.body,
+        prompt: content.prompt,
+      }));
+      return !!(await updateRow(entryId, { entry_date, mood_entry_id, encrypted_content }));
+    } catch (error) {
+      console.error('Error updating journal entry:', error);
+      toast.error(t('journal.updateFailed'));
+      return false;
+    }
+  };
+
+  const deleteEntry = async (entryId: string): Promise<boolean> => {
+    try {
+      await deleteRow(entryId);
+      decrypted.current.delete(entryId);
+      return true;
+    } catch (error) {
+      console.error('Error deleting journal entry:', error);
+      toast.error(t('journal.deleteFailed'));
+      return false;
+    }
+  };
+
+  return {
+    entries,
+    keyStatus,
+    loading: loading || decrypting,
+    addEntry,
+    updateEntry,
+    deleteEntry,
+  };
+}
@@ -0,0 +1,237 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { useNetworkStatus } from './useNetworkStatus';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { extractMemoryFacts, formatMemoryPrompt, rankMemoryFacts } from '../lib/memory';
+import { mayShare } from '../lib/consent';
+import type { MemoryCategory, MemoryFact } from '../lib/memory';
+import { t } from '../lib/i18n';
+import toast from 'react-hot-toast';
+
+// Chats untouched for this long count as finished even if the tab was closed
+const STALE_SESSION_MS = 30 * 60 * 1000;
+
+export function useMemory() {
+  const { user, handleSupabaseError } = useAuth();
+  const { withRetry, isConnectedToSupabase } = useNetworkStatus();
+  const [facts, setFacts] = useState<MemoryFact[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadFacts = useCallback(async () => {
+    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const data = await withRetry(async () => {
+        const { data, error } = await supabase
+          .from('memory_facts')
+          .select('id, content, category, session_id, created_at, updated_at')
+          .eq('user_id', user.id)
+          .order('updated_at', { ascending: false });
+
+        if (error) {
+          const isJWTError = await handleSupabaseError(error);
+          if (!isJWTError) throw error;
+          return null;
+        }
+
+        return data;
+      }, 1, 2000);
+
+      setFacts(data || []);
+    } catch (error) {
+      console.error('Error loading memory:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, handleSupabaseError, withRetry, isConnectedToSupabase]);
+
+  const updateFact = async (factId: string, updates: { content?: string; category?: MemoryCategory }) => {
+    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) {
+      toast.error(t('memory.updateOffline'));
+      return;
+    }
+
+    try {
+      const data = await withRetry(async () => {
+        const { data, error } = await supabase
+          .from('memory_facts')
+          .update(updates)
+          .eq('id', factId)
+          .eq('user_id', user.id)
+          .select('id, content, category, session_id, created_at, updated_at')
+          .single();
+
+        if (error) {
+          const isJWTError = await handleSupabaseError(error);
+          if (!isJWTError) throw error;
+          return null;
+        }
+
+        return data;
+      }, 1, 2000);
+
+      if (data) {
+        setFacts(prev => prev.map(f => f.id === factId ? data : f));
+        toast.success(t('memory.updated'));
+      }
+    } catch (error) {
+      console.error('Error updating memory:', error);
+      toast.error(t('memory.updateFailed'));
+    }
+  };
+
+  const deleteFact = async (factId: string) => {
+    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) {
+      toast.error(t('memory.deleteOffline'));
+      return;
+    }
+
+    try {
+      await withRetry(async () => {
+        const { error } = await supabase
+          .from('memory_facts')
+          .delete()
+          .eq('id', factId)
+          .eq('user_id', user.id);
+
+        if (error) {
+          const isJWTError = await handleSupabaseError(error);
+          if (!isJWTError) throw error;
+        }
+      }, 1, 2000);
+
+      setFacts(prev => prev.filter(f => f.id !== factId));
+      toast.success(t('memory.deleted'));
+    } catch (error) {
+      console.error('Error deleting memory:', error);
+      toast.error(t('memory.deleteFailed'));
+    }
+  };
+
+  const clearAllFacts = async () => {
+    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) {
+      toast.error(t('memory.clearOffline'));
+      return;
+    }
+
+    try {
+      await withRetry(async () => {
+        const { error } = await supabase
+          .from('memory_facts')
+          .delete()
+          .eq('user_id', user.id);
+
+        if (error) {
+          const isJWTError = await handleSupabaseError(error);
+          if (!isJWTError) throw error;
+        }
+      }, 1, 2000);
+
+      setFacts([]);
+      toast.success(t('memory.cleared'));
+    } catch (error) {
+      console.error('Error clearing memory:', error);
+      toast.error(t('memory.clearFailed'));
+    }
+  };
+
+  // Turns a finished chat session into stored facts. Runs in the background,
+  // so failures are logged rather than shown.
+  const summarizeSession = useCallback(async (sessionId: string) => {
+    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) return;
+    // Left unsummarised, so turning data sharing on later catches up
+    if (!mayShare(user.id, 'memory_extraction')) return;
+
+    try {
+      const { data: messages, error } = await supabase
+        .from('chat_messages')
+        .select('message_type, content, created_at')
+        .eq('session_id', sessionId)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      if (messages && messages.some(m => m.message_type === 'user')) {
+        const transcript = messages
+          .map(m => `${m.message_type === 'user' ? 'User' : 'AI'}: ${m.content}`)
+          .join('\n');
+
+        const extracted = await extractMemoryFacts(
+          transcript,
+          facts.map(f => f.content),
+          new Date(messages[0].created_at)
+        );
+        // No AI provider right now - leave the session for a later attempt
+        if (extracted === null) return;
+
+        if (extracted.length > 0) {
+          const { data: inserted, error: insertError } = await supabase
+            .from('memory_facts')
+            .insert(extracted.map(fact => ({ ...fact, user_id: user.id, session_id: sessionId })))
+            .select('id, content, category, session_id, created_at, updated_at');
+
+          if (insertError) throw insertError;
+          setFacts(prev => [...(inserted || []), ...prev]);
+        }
+      }
+
+      await supabase
+        .from('chat_sessions')
+        .update({ memory_summarized_at: new Date().toISOString() })
+        .eq('id', sessionId)
+        .eq('user_id', user.id);
+    } catch (error) {
+      console.warn('Failed to update memory from session:', error);
+    }
+  }, [user, isConnectedToSupabase, facts]);
+
+  // Catches up on chats that were left without being closed properly
+  const summarizeStaleSessions = useCallback(async (excludeSessionId?: string | null) => {
+    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) return;
+    if (!mayShare(user.id, 'memory_extraction')) return;
+
+    const { data, error } = await supabase
+      .from('chat_sessions')
+      .select('id')
+      .eq('user_id', user.id)
+      .is('memory_summarized_at', null)
+      .lt('updated_at', new Date(Date.now() - STALE_SESSION_MS).toISOString())
+      .order('updated_at', { ascending: false })
+      .limit(3);
+
+    if (error) {
+      console.warn('Failed to check for unsummarised chats:', error);
+      return;
+    }
+
+    for (const session of data || []) {
+      if (session.id !== excludeSessionId) {
+        await summarizeSession(session.id);
+      }
+    }
+  }, [user, isConnectedToSupabase, summarizeSession]);
+
+  // Prompt section with the facts most relevant to what the user just said
+  const getMemoryPrompt = useCallback((query: string): string =>
+    formatMemoryPrompt(rankMemoryFacts(facts, query)),
+  [facts]);
+
+  useEffect(() => {
+    loadFacts();
+  }, [loadFacts]);
+
+  return {
+    facts,
+    loading,
+    updateFact,
+    deleteFact,
+    clearAllFacts,
+    summarizeSession,
+    summarizeStaleSessions,
+    getMemoryPrompt,
+  };
+}
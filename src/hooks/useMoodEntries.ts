@@ -0,0 +1,81 @@
+import { useOfflineCollection } from './useOfflineCollection';
+import { t } from '../lib/i18n';
+import toast from 'react-hot-toast';
+
+export interface MoodEntry {
+  id: string;
+  mood: number;
+  emoji: string;
+  notes: string | null;
+  // Optional check-in detail, each rated 1-10
+  energy: number | null;
+  anxiety: number | null;
+  sleep_quality: number | null;
+  tags: string[];
+  activities: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+type CheckInFields = 'energy' | 'anxiety' | 'sleep_quality' | 'tags' | 'activities';
+
+// Quick logs (e.g. by voice) only need the mood; check-in fields default to empty
+export type NewMoodEntry = Pick<MoodEntry, 'mood' | 'emoji' | 'notes'> & Partial<Pick<MoodEntry, CheckInFields>>;
+
+// How much history the mood screens work with
+const MOOD_HISTORY_LIMIT = 30;
+
+export function useMoodEntries() {
+  const { rows: entries, loading, reload, insertRow, updateRow, deleteRow } = useOfflineCollection<MoodEntry>({
+    table: 'mood_entries',
+    limit: MOOD_HISTORY_LIMIT,
+    loadErrorMessage: 'mood.loadFailed',
+  });
+
+  const addEntry = async (entry: NewMoodEntry): Promise<MoodEntry | null> => {
+    try {
+      return await insertRow({
+        energy: null,
+        anxiety: null,
+        sleep_quality: null,
+        tags: [],
+        activities: [],
+        ...entry,
+      });
+    } catch (error) {
+      console.error('Error saving mood:', error);
+      toast.error(t('mood.saveFailed'));
+      return null;
+    }
+  };
+
+  const updateEntry = async (entryId: string, updates: Partial<NewMoodEntry>): Promise<MoodEntry | null> => {
+    try {
+      return await updateRow(entryId, updates);
+    } catch (error) {
+      console.error('Error updating mood entry:', error);
+      toast.error(t('mood.updateFailed'));
+      return null;
+    }
+  };
+
+  const deleteEntry = async (entryId: string): Promise<boolean> => {
+    try {
+      await deleteRow(entryId);
+      return true;
+    } catch (error) {
+      console.error('Error deleting mood entry:', error);
+      toast.error(t('mood.deleteFailed'));
+      return false;
+    }
+  };
+
+  return {
+    entries,
+    loading,
+    reloadEntries: reload,
+    addEntry,
+    updateEntry,
+    deleteEntry,
+  };
+}
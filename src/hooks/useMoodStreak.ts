@@ -1,119 +1,61 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useAuth } from './useAuth';
 import { useNetworkStatus } from './useNetworkStatus';
+import { useProfile } from './useProfile';
+import { useSettings } from './useSettings';
 import { supabase } from '../lib/supabase';
+import { readCachedRows } from '../lib/offline';
+import type { CachedRow } from '../lib/offline';
+import { calculateStreak, freezesLeft, nextMilestone, pruneFreezeDays, streakEmoji } from '../lib/streaks';
+import { t } from '../lib/i18n';
+import toast from 'react-hot-toast';
 
 interface MoodEntry {
   id: string;
   mood: number;
   emoji: string;
   notes: string | null;
+  energy: number | null;
+  anxiety: number | null;
+  sleep_quality: number | null;
+  tags: string[] | null;
+  activities: string[] | null;
   created_at: string;
 }
 
 export function useMoodStreak() {
   const { user, handleSupabaseError } = useAuth();
   const { isSupabaseConnected, withRetry } = useNetworkStatus();
-  const [currentStreak, setCurrentStreak] = useState(0);
-  const [longestStreak, setLongestStreak] = useState(0);
+  const { timezone } = useProfile();
+  const { settings, updateSettings } = useSettings();
   const [loading, setLoading] = useState(true);
-  const [lastEntryDate, setLastEntryDate] = useState<string | null>(null);
+  // The last year of entries, newest first; also feeds mood analytics
+  const [entries, setEntries] = useState<MoodEntry[]>([]);
   
   // Use refs to prevent infinite re-renders
   const loadingRef = useRef(false);
   const subscriptionRef = useRef<any>(null);
 
-  const calculateStreak = useCallback((entries: MoodEntry[]) => {
-    if (!entries || entries.length === 0) {
-      return { current: 0, longest: 0, lastEntry: null };
-    }
-
-    // Sort entries by date (newest first)
-    const sortedEntries = entries.sort((a, b) => 
-      new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-    );
-
-    // Group entries by date (ignore time)
-    const entriesByDate = new Map<string, MoodEntry[]>();
-    sortedEntries.forEach(entry => {
-      const dateKey = new Date(entry.created_at).toISOString().split('T')[0];
-      if (!entriesByDate.has(dateKey)) {
-        entriesByDate.set(dateKey, []);
-      }
-      entriesByDate.get(dateKey)!.push(entry);
-    });
-
-    const uniqueDates = Array.from(entriesByDate.keys()).sort((a, b) => 
-      new Date(b).getTime() - new Date(a).getTime()
-    );
-
-    // Calculate current streak
-    let currentStreak = 0;
-    const today = new Date().toISOString().split('T')[0];
-    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-
-    if (uniqueDates.length > 0) {
-      const mostRecentDate = uniqueDates[0];
-      
-      if (mostRecentDate === today || mostRecentDate === yesterday) {
-        let checkDate = new Date(mostRecentDate);
-        
-        for (let i = 0; i < uniqueDates.length; i++) {
-          const entryDate = uniqueDates[i];
-          const expectedDate = checkDate.toISOString().split('T')[0];
-          
-          if (entryDate === expectedDate) {
-            currentStreak++;
-            checkDate = new Date(checkDate.getTime() - 24 * 60 * 60 * 1000);
-          } else {
-            break;
-          }
-        }
-      }
-    }
-
-    // Calculate longest streak
-    let longestStreak = 0;
-    let tempStreak = 0;
-    
-    if (uniqueDates.length > 0) {
-      tempStreak = 1;
-      
-      for (let i = 1; i < uniqueDates.length; i++) {
-        const currentDate = new Date(uniqueDates[i]);
-        const previousDate = new Date(uniqueDates[i - 1]);
-        const dayDifference = Math.floor(
-          (previousDate.getTime() - currentDate.getTime()) / (24 * 60 * 60 * 1000)
-        );
-        
-        if (dayDifference === 1) {
-          tempStreak++;
-        } else {
-          longestStreak = Math.max(longestStreak, tempStreak);
-          tempStreak = 1;
-        }
-      }
-      
-      longestStreak = Math.max(longestStreak, tempStreak);
-    }
-
-    const lastEntry = sortedEntries.length > 0 ? sortedEntries[0].created_at : null;
-
-    return {
-      current: currentStreak,
-      longest: longestStreak,
-      lastEntry
-    };
-  }, []);
-
   const loadMoodStreak = useCallback(async () => {
     // Prevent multiple simultaneous loads
-    if (loadingRef.current || !user || !isSupabaseConnected) {
+    if (loadingRef.current || !user) {
       if (!user) {
         setLoading(false);
-        setCurrentStreak(0);
-        setLongestStreak(0);
-        setLastEntryDate(null);
+        setEntries([]);
+      }
+      return;
+    }
+
+    // Offline, the device cache holds the recent entries, which is enough
+    // for the running streak
+    if (!isSupabaseConnected) {
+      try {
+        const cached = await readCachedRows<MoodEntry & CachedRow>('mood_entries', user.id);
+        setEntries(cached.sort((a, b) => b.created_at.localeCompare(a.created_at)));
+      } catch (error) {
+        console.warn('Failed to read offline mood entries:', error);
+      } finally {
+        setLoading(false);
       }
       return;
     }
@@ -128,7 +70,7 @@ export function useMoodStreak() {
       const data = await withRetry(async () => {
         const { data, error } = await supabase
           .from('mood_entries')
-          .select('id, mood, emoji, notes, created_at')
+          .select('id, mood, emoji, notes, energy, anxiety, sleep_quality, tags, activities, created_at')
           .eq('user_id', user.id)
           .gte('created_at', oneYearAgo.toISOString())
           .order('created_at', { ascending: false });
@@ -142,37 +84,18 @@ export function useMoodStreak() {
         return data;
       }, 3, 1000);
 
-      if (data) {
-        const streakData = calculateStreak(data);
-        setCurrentStreak(streakData.current);
-        setLongestStreak(streakData.longest);
-        setLastEntryDate(streakData.lastEntry);
-      } else {
-        setCurrentStreak(0);
-        setLongestStreak(0);
-        setLastEntryDate(null);
-      }
+      setEntries(data ?? []);
     } catch (error) {
       console.error('Error loading mood streak:', error);
-      setCurrentStreak(0);
-      setLongestStreak(0);
-      setLastEntryDate(null);
     } finally {
       setLoading(false);
       loadingRef.current = false;
     }
-  }, [user, isSupabaseConnected, withRetry, handleSupabaseError, calculateStreak]);
+  }, [user, isSupabaseConnected, withRetry, handleSupabaseError]);
 
   // Load streak data when component mounts or user changes
   useEffect(() => {
-    if (user && isSupabaseConnected) {
-      loadMoodStreak();
-    } else if (!user) {
-      setLoading(false);
-      setCurrentStreak(0);
-      setLongestStreak(0);
-      setLastEntryDate(null);
-    }
+    loadMoodStreak();
   }, [user, isSupabaseConnected]); // Removed loadMoodStreak from deps to prevent infinite loop
 
   // Set up real-time subscription for mood entries
@@ -217,65 +140,79 @@ export function useMoodStreak() {
     };
   }, [user, isSupabaseConnected]); // Removed loadMoodStreak from deps
 
+  // Derived rather than stored so a change of time zone or freeze days
+  // applies straight away
+  const streak = useMemo(
+    () => calculateStreak(entries.map(entry => entry.created_at), {
+      timeZone: timezone,
+      freezeDays: settings.streak_freeze_days,
+    }),
+    [entries, timezone, settings.streak_freeze_days]
+  );
+
   const getStreakStatus = useCallback(() => {
-    if (!lastEntryDate) {
-      return {
-        status: 'none',
-        message: 'Start your mood tracking journey!',
-        color: 'text-gray-500 dark:text-gray-400'
-      };
+    switch (streak.status) {
+      case 'current':
+        return {
+          status: streak.status,
+          message: t('streak.current'),
+          color: 'text-green-600 dark:text-green-400'
+        };
+      case 'frozen':
+        return {
+          status: streak.status,
+          message: t('streak.frozen'),
+          color: 'text-blue-600 dark:text-blue-400'
+        };
+      case 'pending':
+        return {
+          status: streak.status,
+          message: t('streak.pending'),
+          color: 'text-yellow-600 dark:text-yellow-400'
+        };
+      case 'broken':
+        return {
+          status: streak.status,
+          message: t('streak.broken'),
+          color: 'text-red-600 dark:text-red-400'
+        };
+      default:
+        return {
+          status: streak.status,
+          message: t('streak.none'),
+          color: 'text-gray-500 dark:text-gray-400'
+        };
     }
+  }, [streak]);
 
-    const lastEntry = new Date(lastEntryDate);
-    const today = new Date();
-    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
-    
-    const lastEntryDateString = lastEntry.toISOString().split('T')[0];
-    const todayString = today.toISOString().split('T')[0];
-    const yesterdayString = yesterday.toISOString().split('T')[0];
+  const getDaysUntilMilestone = useCallback(() => nextMilestone(streak.current), [streak]);
 
-    if (lastEntryDateString === todayString) {
-      return {
-        status: 'current',
-        message: 'Great! You logged your mood today.',
-        color: 'text-green-600 dark:text-green-400'
-      };
-    } else if (lastEntryDateString === yesterdayString) {
-      return {
-        status: 'yesterday',
-        message: 'Log your mood today to continue your streak!',
-        color: 'text-yellow-600 dark:text-yellow-400'
-      };
-    } else {
-      return {
-        status: 'broken',
-        message: 'Your streak was broken. Start a new one today!',
-        color: 'text-red-600 dark:text-red-400'
-      };
-    }
-  }, [lastEntryDate]);
+  const getStreakEmoji = useCallback(() => streakEmoji(streak.current), [streak]);
 
-  const getDaysUntilMilestone = useCallback(() => {
-    const milestones = [7, 14, 30, 60, 100, 365];
-    const nextMilestone = milestones.find(milestone => milestone > currentStreak);
-    
-    if (nextMilestone) {
-      return {
-        days: nextMilestone - currentStreak,
-        milestone: nextMilestone
-      };
+  const remainingFreezes = freezesLeft(settings.streak_freeze_days, streak.today);
+
+  // Marks today as a day off; only useful before anything is logged
+  const freezeToday = useCallback(async () => {
+    if (streak.status !== 'pending') return;
+    if (remainingFreezes === 0) {
+      toast.error(t('streak.noFreezesLeft'));
+      return;
     }
-    
-    return null;
-  }, [currentStreak]);
 
-  const getStreakEmoji = useCallback(() => {
-    if (currentStreak === 0) return '🌱';
-    if (currentStreak < 7) return '🔥';
-    if (currentStreak < 30) return '⚡';
-    if (currentStreak < 100) return '🏆';
-    return '👑';
-  }, [currentStreak]);
+    await updateSettings({
+      streak_freeze_days: pruneFreezeDays([...settings.streak_freeze_days, streak.today], streak.today),
+    }, { quiet: true });
+    toast.success(t('streak.frozenToast'));
+  }, [streak, remainingFreezes, settings.streak_freeze_days, updateSettings]);
+
+  const unfreezeToday = useCallback(async () => {
+    if (!settings.streak_freeze_days.includes(streak.today)) return;
+
+    await updateSettings({
+      streak_freeze_days: settings.streak_freeze_days.filter(day => day !== streak.today),
+    }, { quiet: true });
+    toast.success(t('streak.unfrozenToast'));
+  }, [streak, settings.streak_freeze_days, updateSettings]);
 
   // Manual refresh function that can be called externally
   const refreshStreak = useCallback(() => {
@@ -285,13 +222,18 @@ export function useMoodStreak() {
   }, [loadMoodStreak]);
 
   return {
-    currentStreak,
-    longestStreak,
+    currentStreak: streak.current,
+    longestStreak: streak.longest,
     loading,
-    lastEntryDate,
+    lastEntryDate: streak.lastEntryDate,
+    status: streak.status,
+    freezesLeft: remainingFreezes,
+    entries,
     getStreakStatus,
     getDaysUntilMilestone,
     getStreakEmoji,
+    freezeToday,
+    unfreezeToday,
     refreshStreak
   };
 }
\ No newline at end of file
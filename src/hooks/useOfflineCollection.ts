@@ -0,0 +1,184 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from './useAuth';
+import { useNetworkStatus } from './useNetworkStatus';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { createLocalId, readCachedRows, reconcileServerRows, recordLocalWrite, subscribeOffline } from '../lib/offline';
+import type { CachedRow, OfflineTable } from '../lib/offline';
+import { t } from '../lib/i18n';
+import type { MessageKey } from '../lib/i18n';
+import toast from 'react-hot-toast';
+
+export interface OfflineRow {
+  id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface CollectionOptions<T> {
+  table: OfflineTable;
+  // Newest first unless a comparator is given
+  compare?: (a: T, b: T) => number;
+  // Server-side cap; pruning of the cache is limited to the fetched window
+  limit?: number;
+  loadErrorMessage: MessageKey;
+}
+
+const newestFirst = (a: OfflineRow, b: OfflineRow) => b.created_at.localeCompare(a.created_at);
+
+// Local-first list of the user's rows in one table. Reads come from the
+// IndexedDB cache straight away and are refreshed from Supabase when
+// connected; writes apply locally and go through the offline outbox, which
+// useOfflineSync replays.
+export function useOfflineCollection<T extends OfflineRow>({
+  table,
+  compare = newestFirst,
+  limit,
+  loadErrorMessage,
+}: CollectionOptions<T>) {
+  const { user, handleSupabaseError } = useAuth();
+  const { withRetry, isConnectedToSupabase } = useNetworkStatus();
+  const [rows, setRows] = useState<T[]>([]);
+  const [loading, setLoading] = useState(true);
+  const rowsRef = useRef<T[]>([]);
+
+  const show = useCallback((next: T[]) => {
+    const sorted = [...next].sort(compare);
+    const visible = limit ? sorted.slice(0, limit) : sorted;
+    rowsRef.current = visible;
+    setRows(visible);
+  }, [compare, limit]);
+
+  const reload = useCallback(async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    let showedCache = false;
+    try {
+      const cached = await readCachedRows<T & CachedRow>(table, user.id);
+      if (cached.length > 0) {
+        show(cached);
+        showedCache = true;
+        setLoading(false);
+      }
+    } catch (error) {
+      console.warn(`Failed to read offline ${table}:`, error);
+    }
+
+    if (!isSupabaseConfigured() || !isConnectedToSupabase) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const data = await withRetry(async () => {
+        let query = supabase
+          .from(table)
+          .select('*')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false });
+        if (limit) query = query.limit(limit);
+
+        const { data, error } = await query;
+
+        if (error) {
+          const isJWTError = await handleSupabaseError(error);
+          if (!isJWTError) throw error;
+          return null;
+        }
+
+        return data as (T & CachedRow)[];
+      }, 1, 2000);
+
+      if (data) {
+        // With a limit, only rows inside the fetched window can be known stale
+        const oldest = data.length === limit ? data[data.length - 1].created_at : null;
+        show(await reconcileServerRows(table, user.id, data,
+          row => !oldest || String(row.created_at) >= oldest));
+      }
+    } catch (error) {
+      console.error(`Error loading ${table}:`, error);
+      if (!showedCache) toast.error(t(loadErrorMessage));
+    } finally {
+      setLoading(false);
+    }
+  }, [user, handleSupabaseError, withRetry, isConnectedToSupabase, table, limit, show, loadErrorMessage]);
+
+  const insertRow = useCallback(async (fields: Omit<T, keyof OfflineRow>): Promise<T | null> => {
+    if (!user) return null;
+
+    const now = new Date().toISOString();
+    const row = { ...fields, id: createLocalId(), user_id: user.id, created_at: now, updated_at: now } as unknown as T;
+    show([row, ...rowsRef.current]);
+
+    await recordLocalWrite({
+      table,
+      userId: user.id,
+      op: 'insert',
+      rowId: row.id,
+      row: row as unknown as CachedRow,
+      changes: row as unknown as Record<string, unknown>,
+    });
+    return row;
+  }, [user, table, show]);
+
+  const updateRow = useCallback(async (id: string, changes: Partial<Omit<T, keyof OfflineRow>>): Promise<T | null> => {
+    const current = rowsRef.current.find(row => row.id === id);
+    if (!user || !current) return null;
+
+    const updated = { ...current, ...changes, updated_at: new Date().toISOString() };
+    show(rowsRef.current.map(row => row.id === id ? updated : row));
+
+    const base: Record<string, unknown> = {};
+    Object.keys(changes).forEach(key => {
+      base[key] = current[key as keyof T];
+    });
+
+    await recordLocalWrite({
+      table,
+      userId: user.id,
+      op: 'update',
+      rowId: id,
+      row: updated as unknown as CachedRow,
+      changes: changes as Record<string, unknown>,
+      base,
+    });
+    return updated;
+  }, [user, table, show]);
+
+  const deleteRow = useCallback(async (id: string) => {
+    if (!user) return;
+
+    show(rowsRef.current.filter(row => row.id !== id));
+    await recordLocalWrite({ table, userId: user.id, op: 'delete', rowId: id, changes: {} });
+  }, [user, table, show]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Pick up writes made through another instance of this hook from the
+  // cache, and server state once queued writes (from any screen) have synced
+  const reloadRef = useRef(reload);
+  reloadRef.current = reload;
+  useEffect(() => subscribeOffline(event => {
+    if (!user || !event.tables.includes(table)) return;
+    if (event.type === 'synced') {
+      reloadRef.current();
+    } else {
+      readCachedRows<T & CachedRow>(table, user.id)
+        .then(show)
+        .catch(error => console.warn(`Failed to read offline ${table}:`, error));
+    }
+  }), [user, table, show]);
+
+  return {
+    rows,
+    loading,
+    reload,
+    insertRow,
+    updateRow,
+    deleteRow,
+  };
+}
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from './useAuth';
+import { useNetworkStatus } from './useNetworkStatus';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { countPendingWrites, isOfflineStoreSupported, replayOutbox, subscribeOffline } from '../lib/offline';
+import type { SyncResult } from '../lib/offline';
+import { t } from '../lib/i18n';
+import toast from 'react-hot-toast';
+
+const describeConflicts = (result: SyncResult) => {
+  const overridden = result.conflicts.filter(c => c.reason === 'newer_remote_edit').length;
+  const deleted = result.conflicts.filter(c => c.reason === 'deleted_remotely').length;
+  const parts: string[] = [];
+  if (overridden > 0) {
+    parts.push(t('sync.editedElsewhere', { count: overridden }));
+  }
+  if (deleted > 0) {
+    parts.push(t('sync.deletedElsewhere', { count: deleted }));
+  }
+  return parts.join(' ');
+};
+
+// Replays writes queued while offline. Mounted once, in Layout.
+export function useOfflineSync() {
+  const { user } = useAuth();
+  const { withRetry, isConnectedToSupabase } = useNetworkStatus();
+  const [pendingCount, setPendingCount] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+
+  const refreshPendingCount = useCallback(async () => {
+    if (!user || !isOfflineStoreSupported()) return;
+    try {
+      setPendingCount(await countPendingWrites(user.id));
+    } catch (error) {
+      console.warn('Failed to read offline queue:', error);
+    }
+  }, [user]);
+
+  const syncNow = useCallback(async (announce: boolean = false) => {
+    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase || !isOfflineStoreSupported()) return;
+
+    try {
+      setSyncing(true);
+      const result = await replayOutbox(user.id, withRetry);
+
+      if (result.conflicts.length > 0) {
+        toast(describeConflicts(result), { icon: '🔄', duration: 6000 });
+      }
+      if (result.dropped > 0) {
+        toast.error(t('sync.dropped', { count: result.dropped }));
+      }
+      if (announce && result.synced > 0 && result.conflicts.length === 0) {
+        toast.success(t('sync.synced', { count: result.synced }));
+      }
+    } catch (error) {
+      console.warn('Offline sync failed:', error);
+    } finally {
+      setSyncing(false);
+      refreshPendingCount();
+    }
+  }, [user, isConnectedToSupabase, withRetry, refreshPendingCount]);
+
+  // New local writes go out straight away when connected
+  const syncRef = useRef(syncNow);
+  syncRef.current = syncNow;
+  useEffect(() => {
+    refreshPendingCount();
+    return subscribeOffline(event => {
+      refreshPendingCount();
+      if (event.type === 'local_change') {
+        syncRef.current();
+      }
+    });
+  }, [refreshPendingCount]);
+
+  // Catch up when the connection comes back
+  useEffect(() => {
+    if (isConnectedToSupabase) {
+      syncNow(true);
+    }
+  }, [isConnectedToSupabase, syncNow]);
+
+  return {
+    pendingCount,
+    syncing,
+    syncNow,
+  };
+}
@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { useNetworkStatus } from './useNetworkStatus';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+
+export interface Profile {
+  full_name: string | null;
+  timezone: string;
+  phone: string | null;
+}
+
+// The browser's zone stands in until the user picks one (the column defaults to UTC)
+const getBrowserTimezone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+export function useProfile() {
+  const { user, handleSupabaseError } = useAuth();
+  const { withRetry, isConnectedToSupabase } = useNetworkStatus();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadProfile = useCallback(async () => {
+    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const data = await withRetry(async () => {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('full_name, timezone, phone')
+          .eq('id', user.id)
+          .maybeSingle();
+
+        if (error) {
+          const isJWTError = await handleSupabaseError(error);
+          if (!isJWTError) throw error;
+          return null;
+        }
+
+        return data;
+      }, 1, 2000);
+
+      setProfile(data ? {
+        full_name: data.full_name,
+        timezone: data.timezone || 'UTC',
+        phone: data.phone,
+      } : null);
+    } catch (error) {
+      console.error('Error loading profile:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, handleSupabaseError, withRetry, isConnectedToSupabase]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const timezone = profile?.timezone && profile.timezone !== 'UTC'
+    ? profile.timezone
+    : getBrowserTimezone();
+
+  return {
+    profile,
+    timezone,
+    loading,
+    reload: loadProfile,
+  };
+}
@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from './useAuth';
+import { useNetworkStatus } from './useNetworkStatus';
+import { useSettings } from './useSettings';
+import { useProfile } from './useProfile';
+import { useTasks } from './useTasks';
+import { useMoodEntries } from './useMoodEntries';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import {
+  collectDueReminders,
+  getNotificationPermission,
+  registerReminderWorker,
+  showSystemNotification,
+  toZoned,
+} from '../lib/reminders';
+import type { Reminder } from '../lib/reminders';
+import toast from 'react-hot-toast';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// Keys delivered on this device, so reloads and offline spells don't repeat them
+const DELIVERED_KEY = 'mindpal_delivered_reminders';
+const MAX_DELIVERED = 200;
+
+const readDelivered = (userId: string): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DELIVERED_KEY) || '{}');
+    return Array.isArray(stored[userId]) ? stored[userId] : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeDelivered = (userId: string, keys: string[]) => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DELIVERED_KEY) || '{}');
+    stored[userId] = keys.slice(-MAX_DELIVERED);
+    localStorage.setItem(DELIVERED_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.warn('Failed to remember delivered reminders:', error);
+  }
+};
+
+// Schedules task, mood and daily-summary reminders from the user's settings.
+// Mounted once, in Layout. Each occurrence is claimed in notification_log
+// before it is shown, so several open devices don't all fire it.
+export function useReminders() {
+  const { user } = useAuth();
+  const { isConnectedToSupabase } = useNetworkStatus();
+  const { settings, loading: settingsLoading } = useSettings();
+  const { timezone, loading: profileLoading } = useProfile();
+  const { topLevelTasks: tasks, loading: tasksLoading } = useTasks();
+  const { entries, loading: entriesLoading } = useMoodEntries();
+  const ready = !settingsLoading && !profileLoading && !tasksLoading && !entriesLoading;
+  const navigate = useNavigate();
+  const checking = useRef(false);
+
+  // false when another device already delivered it
+  const claimReminder = useCallback(async (reminder: Reminder): Promise<boolean> => {
+    if (!user || !isSupabaseConfigured() || !isConnectedToSupabase) return true;
+
+    const { error } = await supabase.from('notification_log').insert([{
+      user_id: user.id,
+      kind: reminder.kind,
+      reminder_key: reminder.key,
+      scheduled_for: reminder.fire_at.toISOString(),
+    }]);
+
+    if (error) {
+      if (error.code === '23505') return false;
+      // Still remind; the log is only there to avoid duplicates
+      console.warn('Failed to log reminder:', error);
+    }
+    return true;
+  }, [user, isConnectedToSupabase]);
+
+  const deliver = useCallback(async (reminder: Reminder) => {
+    toast(`${reminder.title}: ${reminder.body}`, {
+      id: reminder.key,
+      icon: reminder.kind === 'mood_reminder' ? '💭' : '⏰',
+      duration: 8000,
+    });
+
+    // The toast covers a visible tab; a hidden one needs the system notification
+    if (document.visibilityState === 'hidden') {
+      try {
+        await showSystemNotification(reminder);
+      } catch (error) {
+        console.warn('Failed to show notification:', error);
+      }
+    }
+  }, []);
+
+  const checkReminders = useCallback(async () => {
+    // Half-loaded data would fire a mood reminder for a day that has an entry
+    if (!user || !ready || checking.current) return;
+    checking.current = true;
+
+    try {
+      const now = new Date();
+      const due = collectDueReminders({
+        tasks,
+        moodDates: new Set(entries.map(entry => toZoned(new Date(entry.created_at), timezone).date)),
+        preferences: settings,
+        timeZone: timezone,
+        now,
+      });
+
+      const delivered = readDelivered(user.id);
+      const fresh = due.filter(reminder => !delivered.includes(reminder.key));
+
+      for (const reminder of fresh) {
+        if (await claimReminder(reminder)) {
+          await deliver(reminder);
+        }
+        delivered.push(reminder.key);
+      }
+
+      if (fresh.length > 0) {
+        writeDelivered(user.id, delivered);
+      }
+    } catch (error) {
+      console.warn('Reminder check failed:', error);
+    } finally {
+      checking.current = false;
+    }
+  }, [user, ready, tasks, entries, settings, timezone, claimReminder, deliver]);
+
+  // Re-check whenever the inputs change, and every minute for the clock
+  useEffect(() => {
+    if (!user) return;
+    checkReminders();
+    const interval = setInterval(checkReminders, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user, checkReminders]);
+
+  // Tabs are throttled in the background, so catch up on return
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') checkReminders();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [checkReminders]);
+
+  // Notification clicks are routed in-app by the service worker
+  useEffect(() => {
+    if (getNotificationPermission() === 'granted') {
+      registerReminderWorker();
+    }
+    if (!('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'reminder-navigate' && typeof event.data.url === 'string') {
+        navigate(event.data.url);
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [navigate]);
+}
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useAuth } from './useAuth';
+import { useNetworkStatus } from './useNetworkStatus';
+import { useSettings } from './useSettings';
+import { useProfile } from './useProfile';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { assessMessageSafety, getCrisisRegion } from '../lib/safety';
+import { mayShare } from '../lib/consent';
+import type { SafetyAssessment, SafetySource } from '../lib/safety';
+
+interface SafetyEvent {
+  user_id: string;
+  source: SafetySource;
+  risk_level: 'elevated' | 'high';
+  categories: string[];
+  detection_method: 'rules' | 'llm';
+  created_at: string;
+}
+
+// Events flagged while offline wait here until the server is reachable
+const PENDING_EVENTS_KEY = 'mindpal_pending_safety_events';
+
+const readPendingEvents = (): SafetyEvent[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_EVENTS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writePendingEvents = (events: SafetyEvent[]) => {
+  if (events.length > 0) {
+    localStorage.setItem(PENDING_EVENTS_KEY, JSON.stringify(events));
+  } else {
+    localStorage.removeItem(PENDING_EVENTS_KEY);
+  }
+};
+
+export function useSafety() {
+  const { user } = useAuth();
+  const { isOnline, isConnectedToSupabase } = useNetworkStatus();
+  const { settings } = useSettings();
+  const { timezone } = useProfile();
+
+  const region = useMemo(
+    () => getCrisisRegion(timezone, settings.language),
+    [timezone, settings.language]
+  );
+
+  const insertEvents = useCallback(async (events: SafetyEvent[]): Promise<boolean> => {
+    if (!isSupabaseConfigured() || !isConnectedToSupabase) return false;
+
+    const { error } = await supabase.from('safety_events').insert(events);
+    if (error) {
+      console.warn('Failed to log safety event:', error);
+      return false;
+    }
+    return true;
+  }, [isConnectedToSupabase]);
+
+  const logSafetyEvent = useCallback(async (assessment: SafetyAssessment, source: SafetySource) => {
+    if (!user || assessment.level === 'none') return;
+
+    const event: SafetyEvent = {
+      user_id: user.id,
+      source,
+      risk_level: assessment.level,
+      categories: assessment.categories,
+      detection_method: assessment.method,
+      created_at: new Date().toISOString(),
+    };
+
+    if (!(await insertEvents([event]))) {
+      writePendingEvents([...readPendingEvents(), event]);
+    }
+  }, [user, insertEvents]);
+
+  // Classifies a user message and records anything flagged. Only the risk
+  // level and categories are stored, never the message itself.
+  const checkMessage = useCallback(async (text: string, source: SafetySource): Promise<SafetyAssessment> => {
+    const useClassifier = isOnline && !!user && mayShare(user.id, 'safety_classifier');
+    const assessment = await assessMessageSafety(text, { useClassifier });
+    if (assessment.level !== 'none') {
+      logSafetyEvent(assessment, source);
+    }
+    return assessment;
+  }, [isOnline, user, logSafetyEvent]);
+
+  useEffect(() => {
+    if (!user || !isConnectedToSupabase) return;
+
+    const pending = readPendingEvents().filter(e => e.user_id === user.id);
+    if (pending.length === 0) return;
+
+    insertEvents(pending).then((saved) => {
+      if (saved) {
+        writePendingEvents(readPendingEvents().filter(e => e.user_id !== user.id));
+      }
+    });
+  }, [user, isConnectedToSupabase, insertEvents]);
+
+  return {
+    region,
+    checkMessage,
+    logSafetyEvent,
+  };
+}
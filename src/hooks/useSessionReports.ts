@@ -2,9 +2,15 @@ import { useState, useCallback } from 'react';
 import { useAuth } from './useAuth';
 import { useNetworkStatus } from './useNetworkStatus';
 import { supabase } from '../lib/supabase';
+import { mayStore } from '../lib/consent';
+import { getLLMProvider } from '../lib/llm';
+import { RATING_LABELS, REPORT_JSON_SHAPE, REPORT_SCHEMA_VERSION, ReportValidationError, parseReportResponse, validateReport } from '../lib/reports';
+import type { AIReport, ReportEngagement } from '../lib/reports';
+import { formatDate, t } from '../lib/i18n';
+import type { MessageKey } from '../lib/i18n';
 import toast from 'react-hot-toast';
 
-interface SessionReport {
+export interface SessionReport {
   id: string;
   user_id: string;
   video_session_id: string;
@@ -19,27 +25,8 @@ interface SessionReport {
     session_config: any;
     analytics_events: any[];
   };
-  insights: {
-    session_quality: 'excellent' | 'good' | 'fair' | 'brief';
-    engagement_level: 'high' | 'medium' | 'low';
-    technical_issues: number;
-    interaction_count: number;
-  };
-  recommendations: string[];
-  mood_analysis: {
-    overall_sentiment: string;
-    stress_indicators: string;
-    engagement_quality: string;
-    emotional_state: string;
-    confidence_score: number;
-  };
-  engagement_metrics: {
-    total_interactions: number;
-    session_completion_rate: number;
-    average_response_time: string;
-    user_satisfaction_score: number;
-    ai_response_quality: number;
-  };
+  report: AIReport & { engagement: ReportEngagement };
+  schema_version: number;
   generated_at: string;
   created_at: string;
 }
@@ -54,16 +41,22 @@ interface SessionAnalytics {
   created_at: string;
 }
 
-// Gemini AI Report Generation
-const generateAIReport = async (sessionData: any, analyticsEvents: any[]): Promise<any> => {
-  try {
-    const geminiApiKey = import.meta.env.VITE_GEMINI_API_KEY;
-    
-    if (!geminiApiKey) {
-      console.warn('Gemini API key not configured, using fallback report generation');
-      return generateFallbackReport(sessionData, analyticsEvents);
-    }
+// Counts that come straight from the session data rather than the model
+const measureSession = (sessionData: any, analyticsEvents: any[]) => ({
+  technical_issues: analyticsEvents.filter(e => e.event_type === 'technical_issue').length,
+  interaction_count: analyticsEvents.filter(e => e.event_type === 'interaction').length,
+  completion_rate: sessionData.ended_at ? 100 : 0,
+});
+
+// AI Report Generation through the configured LLM provider
+const generateAIReport = async (sessionData: any, analyticsEvents: any[]): Promise<AIReport> => {
+  const provider = getLLMProvider();
+  if (!provider) {
+    console.warn('AI provider not configured, using fallback report generation');
+    return generateFallbackReport(sessionData, analyticsEvents);
+  }
 
+  try {
     const prompt = `Analyze this video therapy session data and provide a comprehensive mental health report in JSON format:
 
 Session Data:
@@ -77,98 +70,90 @@ ${analyticsEvents.map(event => `- ${event.event_type}: ${JSON.stringify(event.ev
 
 Please provide a JSON response with the following structure:
 {
-  "insights": {
-    "session_quality": "excellent|good|fair|brief",
-    "engagement_level": "high|medium|low",
-    "technical_issues": number,
-    "interaction_count": number
-  },
-  "recommendations": ["array", "of", "personalized", "recommendations"],
-  "mood_analysis": {
-    "overall_sentiment": "positive|neutral|negative",
-    "stress_indicators": "low|medium|high",
-    "engagement_quality": "excellent|good|fair|poor",
-    "emotional_state": "stable|improving|concerning",
-    "confidence_score": 0.85
-  },
-  "engagement_metrics": {
-    "total_interactions": number,
-    "session_completion_rate": percentage,
-    "average_response_time": "2.3s",
-    "user_satisfaction_score": 4.2,
-    "ai_response_quality": 4.5
-  }
+  ${REPORT_JSON_SHAPE},
+  "session_quality": "excellent" | "good" | "fair" | "brief",
+  "engagement_level": "high" | "medium" | "low",
+  "engagement_quality": "excellent" | "good" | "fair" | "poor"
 }
 
 Base your analysis on psychological principles and provide actionable mental health insights.`;
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: prompt }] }]
-        })
-      }
-    );
-    
-    if (!response.ok) {
-      throw new Error('Failed to get AI analysis from Gemini');
-    }
-    
-    const data = await response.json();
-    const aiResponse = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    
-    // Extract JSON from the response
-    const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const aiAnalysis = JSON.parse(jsonMatch[0]);
-      return aiAnalysis;
-    }
-    
-    throw new Error('Could not parse AI analysis');
+    const aiResponse = await provider.generate({
+      messages: [{ role: 'user', content: prompt }],
+      json: true,
+    });
+
+    const report = parseReportResponse(aiResponse, { source: 'video_session', method: 'llm' });
+    // Counts are measured, so they win over whatever the model estimated
+    return { ...report, engagement: { ...report.engagement!, ...measureSession(sessionData, analyticsEvents) } };
   } catch (error) {
-    console.error('Gemini AI analysis failed:', error);
+    if (error instanceof ReportValidationError) {
+      console.error(`${provider.name} returned an unusable report:`, error.issues);
+    } else {
+      console.error(`${provider.name} AI analysis failed:`, error);
+    }
     return generateFallbackReport(sessionData, analyticsEvents);
   }
 };
 
-// Fallback report generation when Gemini is not available
-const generateFallbackReport = (sessionData: any, analyticsEvents: any[]): any => {
+// Fallback report generation when no AI provider is available. Only reports
+// what can be measured; mood fields stay at neutral defaults with low confidence.
+const generateFallbackReport = (sessionData: any, analyticsEvents: any[]): AIReport => {
   const duration = sessionData.duration_seconds || 0;
   const eventCount = analyticsEvents.length;
-  
+
   return {
-    insights: {
-      session_quality: duration > 1800 ? 'excellent' : duration > 900 ? 'good' : duration > 300 ? 'fair' : 'brief',
-      engagement_level: eventCount > 10 ? 'high' : eventCount > 5 ? 'medium' : 'low',
-      technical_issues: analyticsEvents.filter(e => e.event_type === 'technical_issue').length,
-      interaction_count: analyticsEvents.filter(e => e.event_type === 'interaction').length
+    schema_version: REPORT_SCHEMA_VERSION,
+    source: 'video_session',
+    method: 'heuristic',
+    generated_at: new Date().toISOString(),
+    mood: {
+      overall: 'neutral',
+      stress_level: 'low',
+      emotional_state: 'stable',
+      sentiment_score: null,
+      emotions: [],
     },
+    summary: '',
+    key_concerns: [],
+    positive_indicators: [],
     recommendations: [
       duration < 300 ? 'Consider longer sessions for more meaningful conversations' : 'Great session length for effective mental health support',
       'Continue regular video sessions for consistent mental health support',
       'Consider combining video sessions with mood tracking for better insights',
       eventCount < 3 ? 'Try to engage more actively during sessions for better outcomes' : 'Excellent engagement during the session'
     ],
-    mood_analysis: {
-      overall_sentiment: 'positive',
-      stress_indicators: 'low',
+    confidence: 0.3,
+    engagement: {
+      session_quality: duration > 1800 ? 'excellent' : duration > 900 ? 'good' : duration > 300 ? 'fair' : 'brief',
+      engagement_level: eventCount > 10 ? 'high' : eventCount > 5 ? 'medium' : 'low',
       engagement_quality: eventCount > 5 ? 'good' : 'fair',
-      emotional_state: 'stable',
-      confidence_score: 0.75
+      ...measureSession(sessionData, analyticsEvents),
+      average_response_time: null,
+      user_satisfaction_score: null,
+      ai_response_quality: null,
     },
-    engagement_metrics: {
-      total_interactions: analyticsEvents.filter(e => e.event_type === 'interaction').length,
-      session_completion_rate: sessionData.ended_at ? 100 : 0,
-      average_response_time: '2.3s',
-      user_satisfaction_score: 4.0,
-      ai_response_quality: 4.2
-    }
+    repairs: [],
   };
 };
 
+// Rows from before the report column existed are upgraded on read, so they
+// still display if the migration hasn't run yet. Unreadable rows are skipped.
+const toSessionReport = (row: any): SessionReport | null => {
+  try {
+    const report = validateReport(row.report ?? row, {
+      source: 'video_session',
+      method: 'heuristic',
+      generatedAt: row.report ? undefined : row.generated_at,
+    });
+    if (!report.engagement) return null;
+    return { ...row, report: report as SessionReport['report'], schema_version: report.schema_version };
+  } catch (error) {
+    console.warn(`Skipping unreadable session report ${row.id}:`, error);
+    return null;
+  }
+};
+
 export function useSessionReports() {
   const { user, handleSupabaseError } = useAuth();
   const { withRetry, isConnectedToSupabase } = useNetworkStatus();
@@ -179,13 +164,13 @@ export function useSessionReports() {
 
   const generateSessionReport = useCallback(async (videoSessionId: string): Promise<SessionReport | null> => {
     if (!user || !isConnectedToSupabase) {
-      toast.error('Cannot generate report - no connection to server');
+      toast.error(t('reports.offline'));
       return null;
     }
 
     try {
       setGenerating(true);
-      toast.loading('Generating AI-powered session report...', { id: 'generating-report' });
+      toast.loading(t('reports.generating'), { id: 'generating-report' });
 
       // Get session data
       const { data: sessionData, error: sessionError } = await supabase
@@ -211,7 +196,7 @@ export function useSessionReports() {
         console.warn('Failed to load analytics data:', analyticsError);
       }
 
-      // Generate AI analysis using Gemini
+      // Generate AI analysis using the configured provider
       const aiAnalysis = await generateAIReport(sessionData, analyticsData || []);
 
       // Build report data
@@ -236,10 +221,8 @@ export function useSessionReports() {
           video_session_id: videoSessionId,
           report_type: 'post_session',
           report_data: reportData,
-          insights: aiAnalysis.insights,
-          recommendations: aiAnalysis.recommendations,
-          mood_analysis: aiAnalysis.mood_analysis,
-          engagement_metrics: aiAnalysis.engagement_metrics
+          report: aiAnalysis,
+          schema_version: aiAnalysis.schema_version
         }])
         .select()
         .single();
@@ -248,15 +231,18 @@ export function useSessionReports() {
         throw insertError;
       }
 
-      const report = newReport as SessionReport;
+      const report = toSessionReport(newReport);
+      if (!report) {
+        throw new Error('Saved report could not be read back');
+      }
       setReports(prev => [report, ...prev]);
       setCurrentReport(report);
       
-      toast.success('AI session report generated successfully! 🎉', { id: 'generating-report' });
+      toast.success(t('reports.generated'), { id: 'generating-report' });
       return report;
     } catch (error) {
       console.error('Error generating session report:', error);
-      toast.error('Failed to generate session report', { id: 'generating-report' });
+      toast.error(t('reports.generateFailed'), { id: 'generating-report' });
     } finally {
       setGenerating(false);
     }
@@ -270,6 +256,7 @@ export function useSessionReports() {
     eventData: any
   ): Promise<void> => {
     if (!user || !isConnectedToSupabase) return;
+    if (!mayStore(user.id, 'session_analytics')) return;
 
     try {
       await withRetry(async () => {
@@ -316,10 +303,10 @@ export function useSessionReports() {
         return data;
       });
 
-      setReports((data as SessionReport[]) || []);
+      setReports((data || []).map(toSessionReport).filter((r): r is SessionReport => r !== null));
     } catch (error) {
       console.error('Error loading session reports:', error);
-      toast.error('Failed to load session reports');
+      toast.error(t('reports.loadFailed'));
     } finally {
       setLoading(false);
     }
@@ -346,7 +333,7 @@ export function useSessionReports() {
         return data;
       });
 
-      return data as SessionReport;
+      return data ? toSessionReport(data) : null;
     } catch (error) {
       console.error('Error fetching report:', error);
       return null;
@@ -355,9 +342,14 @@ export function useSessionReports() {
 
   const shareReport = useCallback(async (report: SessionReport): Promise<void> => {
     try {
+      const { engagement } = report.report;
       const shareData = {
-        title: `MindPal Video Session Report - ${new Date(report.generated_at).toLocaleDateString()}`,
-        text: `Session Quality: ${report.insights.session_quality}\nDuration: ${report.report_data.duration_formatted}\nEngagement: ${report.insights.engagement_level}`,
+        title: t('reports.shareTitle', { date: formatDate(report.generated_at, 'P') }),
+        text: [
+          `${t('reports.quality')}: ${t(RATING_LABELS[engagement.session_quality])}`,
+          `${t('reports.duration')}: ${report.report_data.duration_formatted}`,
+          `${t('reports.engagement')}: ${t(RATING_LABELS[engagement.engagement_level])}`,
+        ].join('\n'),
         url: window.location.href,
       };
 
@@ -365,13 +357,13 @@ export function useSessionReports() {
         await navigator.share(shareData);
       } else {
         // Fallback: copy to clipboard
-        const reportText = `${shareData.title}\n\n${shareData.text}\n\nGenerated by MindPal AI Companion`;
+        const reportText = `${shareData.title}\n\n${shareData.text}\n\n${t('reports.generatedBy')}`;
         await navigator.clipboard.writeText(reportText);
-        toast.success('Report details copied to clipboard!');
+        toast.success(t('reports.copied'));
       }
     } catch (error) {
       console.error('Error sharing report:', error);
-      toast.error('Failed to share report');
+      toast.error(t('reports.shareFailed'));
     }
   }, []);
 
@@ -386,32 +378,36 @@ export function useSessionReports() {
         filename = `mindpal-session-report-${report.id}.json`;
         mimeType = 'application/json';
       } else {
-        content = `MindPal Video Session Report
-Generated: ${new Date(report.generated_at).toLocaleString()}
-
-Session Details:
-- Duration: ${report.report_data.duration_formatted}
-- Quality: ${report.insights.session_quality}
-- Engagement Level: ${report.insights.engagement_level}
-- Technical Issues: ${report.insights.technical_issues}
-- Interactions: ${report.insights.interaction_count}
-
-Mood Analysis:
-- Overall Sentiment: ${report.mood_analysis.overall_sentiment}
-- Stress Indicators: ${report.mood_analysis.stress_indicators}
-- Emotional State: ${report.mood_analysis.emotional_state}
-- Confidence Score: ${(report.mood_analysis.confidence_score * 100).toFixed(0)}%
-
-Engagement Metrics:
-- Total Interactions: ${report.engagement_metrics.total_interactions}
-- Session Completion: ${report.engagement_metrics.session_completion_rate}%
-- User Satisfaction: ${report.engagement_metrics.user_satisfaction_score}/5
-- AI Response Quality: ${report.engagement_metrics.ai_response_quality}/5
-
-Recommendations:
-${report.recommendations.map((rec, index) => `${index + 1}. ${rec}`).join('\n')}
-
-Generated by MindPal AI Companion`;
+        const { engagement, mood } = report.report;
+        const line = (label: MessageKey, value: string | number) => `- ${t(label)}: ${value}`;
+        const notAvailable = t('reports.notAvailable');
+        content = [
+          t('reports.title'),
+          t('reports.generatedAt', { date: formatDate(report.generated_at, 'PPp') }),
+          '',
+          `${t('reports.sessionDetails')}:`,
+          line('reports.duration', report.report_data.duration_formatted),
+          line('reports.quality', t(RATING_LABELS[engagement.session_quality])),
+          line('reports.engagementLevel', t(RATING_LABELS[engagement.engagement_level])),
+          line('reports.technicalIssues', engagement.technical_issues),
+          line('reports.interactions', engagement.interaction_count),
+          '',
+          `${t('reports.moodAnalysis')}:`,
+          line('reports.overallSentiment', t(RATING_LABELS[mood.overall])),
+          line('reports.stressIndicators', t(RATING_LABELS[mood.stress_level])),
+          line('reports.emotionalState', mood.emotional_state ? t(RATING_LABELS[mood.emotional_state]) : notAvailable),
+          line('reports.confidenceScore', `${(report.report.confidence * 100).toFixed(0)}%`),
+          '',
+          `${t('reports.engagementMetrics')}:`,
+          line('reports.completionRate', `${engagement.completion_rate}%`),
+          line('reports.userSatisfaction', `${engagement.user_satisfaction_score ?? notAvailable}/5`),
+          line('reports.aiQuality', `${engagement.ai_response_quality ?? notAvailable}/5`),
+          '',
+          `${t('reports.recommendations')}:`,
+          ...report.report.recommendations.map((rec, index) => `${index + 1}. ${rec}`),
+          '',
+          t('reports.generatedBy'),
+        ].join('\n');
         filename = `mindpal-session-report-${report.id}.txt`;
         mimeType = 'text/plain';
       }
@@ -426,10 +422,10 @@ Generated by MindPal AI Companion`;
       document.body.removeChild(link);
       URL.revokeObjectURL(url);
 
-      toast.success(`Report exported as ${format.toUpperCase()}`);
+      toast.success(t('reports.exported', { format: format.toUpperCase() }));
     } catch (error) {
       console.error('Error exporting report:', error);
-      toast.error('Failed to export report');
+      toast.error(t('reports.exportFailed'));
     }
   }, []);
 
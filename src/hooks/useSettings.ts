@@ -2,6 +2,9 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from './useAuth';
 import { useNetworkStatus } from './useNetworkStatus';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { readCachedRows, reconcileServerRows, recordLocalWrite, subscribeOffline } from '../lib/offline';
+import { setConsent } from '../lib/consent';
+import { setLocale, t } from '../lib/i18n';
 import toast from 'react-hot-toast';
 
 export interface UserSettings {
@@ -12,10 +15,19 @@ export interface UserSettings {
   task_reminders: boolean;
   mood_reminders: boolean;
   daily_summary: boolean;
+  // Reminder times and quiet hours are HH:MM in the profile's time zone
+  mood_reminder_time: string;
+  daily_summary_time: string;
+  quiet_hours_enabled: boolean;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
   email_notifications: boolean;
   data_sharing: boolean;
   analytics: boolean;
   voice_recordings: boolean;
+  save_conversations: boolean;
+  // Days off that keep the mood streak alive, YYYY-MM-DD in the profile's zone
+  streak_freeze_days: string[];
 }
 
 const defaultSettings: UserSettings = {
@@ -26,12 +38,40 @@ const defaultSettings: UserSettings = {
   task_reminders: true,
   mood_reminders: true,
   daily_summary: true,
+  mood_reminder_time: '20:00',
+  daily_summary_time: '09:00',
+  quiet_hours_enabled: true,
+  quiet_hours_start: '22:00',
+  quiet_hours_end: '08:00',
   email_notifications: false,
   data_sharing: false,
   analytics: true,
   voice_recordings: true,
+  save_conversations: false, // VoiceAI chats stay private unless opted in
+  streak_freeze_days: [],
 };
 
+const toUserSettings = (data: Partial<UserSettings>): UserSettings => ({
+  theme: data.theme || 'dark',
+  language: data.language || 'en',
+  voice_speed: data.voice_speed || 'normal',
+  ai_personality: data.ai_personality || 'supportive',
+  task_reminders: data.task_reminders ?? true,
+  mood_reminders: data.mood_reminders ?? true,
+  daily_summary: data.daily_summary ?? true,
+  mood_reminder_time: data.mood_reminder_time || '20:00',
+  daily_summary_time: data.daily_summary_time || '09:00',
+  quiet_hours_enabled: data.quiet_hours_enabled ?? true,
+  quiet_hours_start: data.quiet_hours_start || '22:00',
+  quiet_hours_end: data.quiet_hours_end || '08:00',
+  email_notifications: data.email_notifications ?? false,
+  data_sharing: data.data_sharing ?? false,
+  analytics: data.analytics ?? true,
+  voice_recordings: data.voice_recordings ?? true,
+  save_conversations: data.save_conversations ?? false,
+  streak_freeze_days: data.streak_freeze_days ?? [],
+});
+
 export function useSettings() {
   const { user, handleSupabaseError } = useAuth();
   const { withRetry, isConnectedToSupabase } = useNetworkStatus();
@@ -72,9 +112,21 @@ export function useSettings() {
       return;
     }
 
-    // If not connected to Supabase, use current settings
+    // If not connected to Supabase, use the copy saved on this device
     if (!isConnectedToSupabase) {
-      applyTheme(settings.theme);
+      try {
+        const [cached] = await readCachedRows('user_settings', user.id);
+        if (cached) {
+          const cachedSettings = toUserSettings(cached as Partial<UserSettings>);
+          setSettings(cachedSettings);
+          applyTheme(cachedSettings.theme);
+        } else {
+          applyTheme(settings.theme);
+        }
+      } catch (error) {
+        console.warn('Failed to read offline settings:', error);
+        applyTheme(settings.theme);
+      }
       setLoading(false);
       return;
     }
@@ -104,19 +156,14 @@ export function useSettings() {
       }, 1, 2000); // Single retry with longer delay
 
       if (data) {
-        const loadedSettings: UserSettings = {
-          theme: data.theme || 'dark',
-          language: data.language || 'en',
-          voice_speed: data.voice_speed || 'normal',
-          ai_personality: data.ai_personality || 'supportive',
-          task_reminders: data.task_reminders ?? true,
-          mood_reminders: data.mood_reminders ?? true,
-          daily_summary: data.daily_summary ?? true,
-          email_notifications: data.email_notifications ?? false,
-          data_sharing: data.data_sharing ?? false,
-          analytics: data.analytics ?? true,
-          voice_recordings: data.voice_recordings ?? true,
-        };
+        // A change made offline that hasn't synced yet beats the server copy
+        let current = data;
+        try {
+          [current] = await reconcileServerRows('user_settings', user.id, [data]);
+        } catch (error) {
+          console.warn('Failed to cache settings offline:', error);
+        }
+        const loadedSettings = toUserSettings(current);
         setSettings(loadedSettings);
         applyTheme(loadedSettings.theme);
       } else {
@@ -138,7 +185,7 @@ export function useSettings() {
       // Only show error toast with cooldown to prevent spam
       if (isConnectedToSupabase && isSupabaseConfigured()) {
         if (error.message?.includes('Network connection failed')) {
-          showErrorToast('Unable to connect to server. Using default settings.');
+          showErrorToast(t('settings.loadFailed'));
         }
       }
     } finally {
@@ -192,7 +239,7 @@ export function useSettings() {
       // Only show error with cooldown
       if (isConnectedToSupabase && isSupabaseConfigured()) {
         if (error.message?.includes('Network connection failed')) {
-          showErrorToast('Unable to connect to server. Settings saved locally.');
+          showErrorToast(t('settings.createFailed'));
         }
       }
     } finally {
@@ -200,7 +247,8 @@ export function useSettings() {
     }
   };
 
-  const updateSettings = async (newSettings: Partial<UserSettings>) => {
+  // quiet skips the confirmation toast, for changes made outside the settings screen
+  const updateSettings = async (newSettings: Partial<UserSettings>, { quiet = false }: { quiet?: boolean } = {}) => {
     const updatedSettings = { ...settings, ...newSettings };
     
     // Apply theme immediately for better UX
@@ -214,51 +262,42 @@ export function useSettings() {
     // If no user or Supabase not configured, only save locally
     if (!user || !isSupabaseConfigured()) {
       if (!isSupabaseConfigured()) {
-        toast.success('Settings saved locally (Supabase not configured)');
+        toast.success(t('settings.savedLocally'));
       } else {
-        toast.error('Please sign in to save settings');
+        toast.error(t('settings.signInToSave'));
       }
       return;
     }
 
-    if (!isConnectedToSupabase) {
-      // Don't show error for offline saves
-      return;
-    }
+    // Saved on the device first; useOfflineSync sends it to the server now or
+    // once the connection is back
+    const base: Record<string, unknown> = {};
+    (Object.keys(newSettings) as (keyof UserSettings)[]).forEach(key => {
+      base[key] = settings[key];
+    });
 
     try {
       setSaving(true);
-      
-      await withRetry(async () => {
-        const { error } = await supabase
-          .from('user_settings')
-          .upsert([{ 
-            user_id: user.id, 
-            ...updatedSettings,
-            updated_at: new Date().toISOString()
-          }], {
-            onConflict: 'user_id'
-          });
+      await recordLocalWrite({
+        table: 'user_settings',
+        userId: user.id,
+        op: 'upsert',
+        rowId: user.id,
+        row: { ...updatedSettings, user_id: user.id },
+        changes: newSettings,
+        base,
+      });
 
-        if (error) {
-          if (error.message?.includes('fetch') || 
-              error.message?.includes('network') ||
-              error.message?.includes('timeout')) {
-            throw new Error('Network connection failed');
-          }
-          
-          const isJWTError = await handleSupabaseError(error);
-          if (!isJWTError) throw error;
-          return;
+      if (!quiet) {
+        if (isConnectedToSupabase) {
+          toast.success(t('settings.saved'));
+        } else {
+          toast.success(t('settings.savedOffline'));
         }
-      }, 1, 2000);
-      
-      toast.success('Settings saved successfully!');
-    } catch (error: any) {
+      }
+    } catch (error) {
       console.error('Error updating settings:', error);
-      
-      // Don't show error toast for settings updates to prevent spam
-      // Settings are already saved locally, so user experience isn't affected
+      // Settings are already applied locally, so user experience isn't affected
     } finally {
       setSaving(false);
     }
@@ -268,6 +307,39 @@ export function useSettings() {
     loadSettings();
   }, [user]); // Removed loadSettings from deps to prevent infinite loop
 
+  // Other screens (and the reminder engine in Layout) keep their own copy, so
+  // pick up changes saved anywhere in the app from the device cache
+  useEffect(() => {
+    if (!user) return;
+    return subscribeOffline(event => {
+      if (event.type !== 'local_change' || !event.tables.includes('user_settings')) return;
+      readCachedRows('user_settings', user.id)
+        .then(([cached]) => {
+          if (cached) setSettings(toUserSettings(cached as Partial<UserSettings>));
+        })
+        .catch(error => console.warn('Failed to read offline settings:', error));
+    });
+  }, [user]);
+
+  // Write paths check the privacy toggles through lib/consent rather than
+  // loading settings themselves
+  useEffect(() => {
+    if (!user || loading) return;
+    setConsent(user.id, {
+      analytics: settings.analytics,
+      voice_recordings: settings.voice_recordings,
+      save_conversations: settings.save_conversations,
+      data_sharing: settings.data_sharing,
+    });
+  }, [user, loading, settings.analytics, settings.voice_recordings, settings.save_conversations, settings.data_sharing]);
+
+  // The whole UI follows the language setting; languages without a catalog
+  // fall back to English
+  useEffect(() => {
+    if (!user || loading) return;
+    setLocale(settings.language);
+  }, [user, loading, settings.language]);
+
   // Listen for system theme changes when auto mode is enabled
   useEffect(() => {
     if (settings.theme === 'auto') {
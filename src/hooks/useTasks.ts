@@ -0,0 +1,221 @@
+import { useMemo } from 'react';
+import { useOfflineCollection } from './useOfflineCollection';
+import { useProfile } from './useProfile';
+import { nextOccurrence } from '../lib/tasks';
+import { t } from '../lib/i18n';
+import toast from 'react-hot-toast';
+
+export interface Task {
+  id: string;
+  title: string;
+  description: string | null;
+  completed: boolean;
+  completed_at: string | null;
+  priority: 'low' | 'medium' | 'high';
+  category: string;
+  due_date: string | null;
+  reminder_enabled: boolean;
+  reminder_time: string | null;
+  // Set on subtasks; subtasks are ordered by position
+  parent_id: string | null;
+  position: number;
+  estimate_minutes: number | null;
+  // RRULE, only on top-level tasks
+  recurrence: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewTask = Pick<Task, 'title' | 'description' | 'priority' | 'category' | 'due_date'> &
+  Partial<Pick<Task, 'reminder_enabled' | 'reminder_time' | 'recurrence' | 'parent_id' | 'position' | 'estimate_minutes'>>;
+
+export type NewSubtask = Pick<Task, 'title'> & Partial<Pick<Task, 'estimate_minutes'>>;
+
+export type TaskUpdate = Partial<Omit<NewTask, 'parent_id'>>;
+
+export interface ToggleResult {
+  task: Task;
+  // The next task in the series when a recurring task was completed
+  next: Task | null;
+}
+
+const byPosition = (a: Task, b: Task) => a.position - b.position || a.created_at.localeCompare(b.created_at);
+
+export function useTasks() {
+  const { timezone } = useProfile();
+  const { rows: tasks, loading, reload, insertRow, updateRow, deleteRow } = useOfflineCollection<Task>({
+    table: 'tasks',
+    loadErrorMessage: 'tasks.loadFailed',
+  });
+
+  const subtasksByParent = useMemo(() => {
+    const map = new Map<string, Task[]>();
+    tasks.forEach(task => {
+      if (!task.parent_id) return;
+      map.set(task.parent_id, [...(map.get(task.parent_id) ?? []), task]);
+    });
+    map.forEach(list => list.sort(byPosition));
+    return map;
+  }, [tasks]);
+
+  const topLevelTasks = useMemo(() => tasks.filter(task => !task.parent_id), [tasks]);
+
+  const getSubtasks = (taskId: string): Task[] => subtasksByParent.get(taskId) ?? [];
+
+  const addTask = async (task: NewTask): Promise<Task | null> => {
+    try {
+      return await insertRow({
+        reminder_enabled: false,
+        reminder_time: null,
+        recurrence: null,
+        parent_id: null,
+        position: 0,
+        estimate_minutes: null,
+        ...task,
+        completed: false,
+        completed_at: null,
+      });
+    } catch (error) {
+      console.error('Error adding task:', error);
+      toast.error(t('tasks.addFailed'));
+      return null;
+    }
+  };
+
+  // Appends steps to a task in the given order
+  const addSubtasks = async (parent: Task, subtasks: NewSubtask[]): Promise<Task[]> => {
+    const siblings = getSubtasks(parent.id);
+    const start = siblings.length > 0 ? siblings[siblings.length - 1].position + 1 : 0;
+    const created: Task[] = [];
+
+    for (const [index, subtask] of subtasks.entries()) {
+      const task = await addTask({
+        title: subtask.title,
+        description: null,
+        priority: parent.priority,
+        category: parent.category,
+        due_date: null,
+        parent_id: parent.id,
+        position: start + index,
+        estimate_minutes: subtask.estimate_minutes ?? null,
+      });
+      if (!task) break;
+      created.push(task);
+    }
+    return created;
+  };
+
+  const addSubtask = async (parent: Task, title: string): Promise<Task | null> =>
+    (await addSubtasks(parent, [{ title }]))[0] ?? null;
+
+  const updateTask = async (taskId: string, updates: TaskUpdate): Promise<Task | null> => {
+    try {
+      return await updateRow(taskId, updates);
+    } catch (error) {
+      console.error('Error updating task:', error);
+      toast.error(t('tasks.updateFailed'));
+      return null;
+    }
+  };
+
+  // Completing a recurring task creates the next one with fresh subtasks and
+  // hands the rule over to it, so un-ticking and re-ticking doesn't repeat it
+  const createNextOccurrence = async (task: Task): Promise<Task | null> => {
+    const current = task.due_date ? new Date(task.due_date) : new Date();
+    const next = nextOccurrence(task.recurrence, current, { timeZone: timezone, after: new Date() });
+    if (!next) return null;
+
+    const shift = next.date.getTime() - current.getTime();
+    const created = await insertRow({
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      category: task.category,
+      due_date: next.date.toISOString(),
+      reminder_enabled: task.reminder_enabled,
+      reminder_time: task.reminder_time
+        ? new Date(new Date(task.reminder_time).getTime() + shift).toISOString()
+        : null,
+      recurrence: next.rule,
+      parent_id: null,
+      position: 0,
+      estimate_minutes: task.estimate_minutes,
+      completed: false,
+      completed_at: null,
+    });
+    if (!created) return null;
+
+    for (const subtask of getSubtasks(task.id)) {
+      await insertRow({
+        title: subtask.title,
+        description: subtask.description,
+        priority: subtask.priority,
+        category: subtask.category,
+        due_date: null,
+        reminder_enabled: false,
+        reminder_time: null,
+        recurrence: null,
+        parent_id: created.id,
+        position: subtask.position,
+        estimate_minutes: subtask.estimate_minutes,
+        completed: false,
+        completed_at: null,
+      });
+    }
+
+    await updateRow(task.id, { recurrence: null });
+    return created;
+  };
+
+  const toggleTask = async (taskId: string): Promise<ToggleResult | null> => {
+    const current = tasks.find(task => task.id === taskId);
+    if (!current) return null;
+
+    try {
+      const completed = !current.completed;
+      const task = await updateRow(taskId, {
+        completed,
+        completed_at: completed ? new Date().toISOString() : null,
+      });
+      if (!task) return null;
+
+      const next = completed && task.recurrence && !task.parent_id
+        ? await createNextOccurrence(task)
+        : null;
+      return { task, next };
+    } catch (error) {
+      console.error('Error updating task:', error);
+      toast.error(t('tasks.updateFailed'));
+      return null;
+    }
+  };
+
+  const deleteTask = async (taskId: string): Promise<boolean> => {
+    try {
+      // The database cascades to subtasks; drop them locally too
+      for (const subtask of getSubtasks(taskId)) {
+        await deleteRow(subtask.id);
+      }
+      await deleteRow(taskId);
+      return true;
+    } catch (error) {
+      console.error('Error deleting task:', error);
+      toast.error(t('tasks.deleteFailed'));
+      return false;
+    }
+  };
+
+  return {
+    tasks,
+    topLevelTasks,
+    getSubtasks,
+    loading,
+    reloadTasks: reload,
+    addTask,
+    addSubtask,
+    addSubtasks,
+    updateTask,
+    toggleTask,
+    deleteTask,
+  };
+}
@@ -3,6 +3,7 @@ import { useAuth } from './useAuth';
 import { useNetworkStatus } from './useNetworkStatus';
 import { useSessionReports } from './useSessionReports';
 import { supabase } from '../lib/supabase';
+import { t } from '../lib/i18n';
 import toast from 'react-hot-toast';
 
 interface TavusSession {
@@ -15,6 +16,8 @@ interface TavusConfig {
   replica_id: string;
   max_session_duration?: number;
   callback_url?: string;
+  // Extra instructions for the replica, e.g. the safety protocol
+  conversational_context?: string;
 }
 
 export function useTavusVideo() {
@@ -71,7 +74,7 @@ export function useTavusVideo() {
       return stream;
     } catch (error) {
       console.error('Error accessing local media:', error);
-      toast.error('Failed to access camera/microphone');
+      toast.error(t('video.mediaFailed'));
       return null;
     }
   }, []);
@@ -107,7 +110,7 @@ export function useTavusVideo() {
       }
 
       if (!sessions || sessions.length === 0) {
-        toast.info('No lingering sessions found in database');
+        toast.info(t('video.noLingering'));
         return true;
       }
 
@@ -146,11 +149,11 @@ export function useTavusVideo() {
         }
       }
 
-      toast.success(`Cleared ${sessions.length} lingering session(s)`);
+      toast.success(t('video.cleared', { count: sessions.length }));
       return true;
     } catch (error) {
       console.error('Error force ending lingering sessions:', error);
-      toast.error('Failed to clear lingering sessions');
+      toast.error(t('video.clearFailed'));
       return false;
     } finally {
       setIsForceEndingSession(false);
@@ -160,12 +163,12 @@ export function useTavusVideo() {
   // Tavus API calls
   const createSession = useCallback(async (config: TavusConfig): Promise<TavusSession | null> => {
     if (!tavusApiKey) {
-      toast.error('Tavus API key not configured');
+      toast.error(t('video.noApiKey'));
       return null;
     }
 
     if (!isOnline) {
-      toast.error('Internet connection required for video sessions');
+      toast.error(t('video.offline'));
       return null;
     }
 
@@ -182,6 +185,7 @@ export function useTavusVideo() {
         body: JSON.stringify({
           replica_id: config.replica_id,
           callback_url: config.callback_url,
+          conversational_context: config.conversational_context,
           properties: {
             max_call_duration: config.max_session_duration || 3600,
           },
@@ -197,12 +201,12 @@ export function useTavusVideo() {
           try {
             const parsedError = JSON.parse(errorData);
             if (parsedError.message && parsedError.message.includes('maximum concurrent conversations')) {
-              errorMessage = 'You already have an active video session. Please end your current session before starting a new one, or try again in a few minutes if you believe no session is active.';
+              errorMessage = t('video.alreadyActive');
             }
           } catch (parseError) {
             // If we can't parse the error, check if it contains the concurrent conversations message
             if (errorData.includes('maximum concurrent conversations')) {
-              errorMessage = 'You already have an active video session. Please end your current session before starting a new one, or try again in a few minutes if you believe no session is active.';
+              errorMessage = t('video.alreadyActive');
             }
           }
         }
@@ -222,7 +226,7 @@ export function useTavusVideo() {
       return session;
     } catch (error) {
       console.error('Error creating Tavus session:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to create video session';
+      const errorMessage = error instanceof Error ? error.message : t('video.createFailed');
       setError(errorMessage);
       toast.error(errorMessage);
       return null;
@@ -231,9 +235,13 @@ export function useTavusVideo() {
     }
   }, [tavusApiKey, isOnline]);
 
-  const startSession = useCallback(async (replicaId: string, maxSessionDuration?: number): Promise<boolean> => {
+  const startSession = useCallback(async (
+    replicaId: string,
+    maxSessionDuration?: number,
+    conversationalContext?: string
+  ): Promise<boolean> => {
     if (!user) {
-      toast.error('Please sign in to start a video session');
+      toast.error(t('video.signIn'));
       return false;
     }
 
@@ -248,6 +256,7 @@ export function useTavusVideo() {
       const session = await createSession({
         replica_id: replicaId,
         max_session_duration: maxSessionDuration || 3600,
+        conversational_context: conversationalContext,
       });
 
       if (!session) {
@@ -302,11 +311,11 @@ export function useTavusVideo() {
 
       setIsSessionActive(true);
       startTimer();
-      toast.success('Video session started!');
+      toast.success(t('video.started'));
       return true;
     } catch (error) {
       console.error('Error starting session:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to start video session';
+      const errorMessage = error instanceof Error ? error.message : t('video.startFailed');
       setError(errorMessage);
       toast.error(errorMessage);
       stopLocalVideo();
@@ -381,10 +390,10 @@ export function useTavusVideo() {
       setCurrentVideoSessionId(null);
       setError(null);
       
-      toast.success('Video session ended');
+      toast.success(t('video.ended'));
     } catch (error) {
       console.error('Error ending session:', error);
-      toast.error('Failed to properly end session');
+      toast.error(t('video.endFailed'));
     } finally {
       setIsLoading(false);
     }
@@ -1,6 +1,7 @@
 import { useState, useCallback, useRef } from 'react';
 import { useSettings } from './useSettings';
 import { useNetworkStatus } from './useNetworkStatus';
+import { t } from '../lib/i18n';
 import toast from 'react-hot-toast';
 
 interface VoiceConfig {
@@ -27,6 +28,9 @@ export function useVoice() {
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recognitionRef = useRef<any>(null);
+  const speechQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const speechGenerationRef = useRef(0);
+  const finishPlaybackRef = useRef<(() => void) | null>(null);
 
   const elevenLabsApiKey = import.meta.env.VITE_ELEVENLABS_API_KEY;
 
@@ -38,103 +42,166 @@ export function useVoice() {
     }
   }, [settings.voice_speed]);
 
-  const textToSpeech = useCallback(async (text: string): Promise<void> => {
-    if (!elevenLabsApiKey) {
-      toast.error('ElevenLabs API key not configured');
-      return;
-    }
-
-    if (!isOnline) {
-      toast.error('Internet connection required for text-to-speech');
-      return;
-    }
+  const synthesizeSpeech = useCallback(async (text: string): Promise<Blob> => {
+    const response = await fetch(
+      `https://api.elevenlabs.io/v1/text-to-speech/${DEFAULT_VOICE_CONFIG.voiceId}`,
+      {
+        method: 'POST',
+        headers: {
+          'Accept': 'audio/mpeg',
+          'Content-Type': 'application/json',
+          'xi-api-key': elevenLabsApiKey,
+        },
+        body: JSON.stringify({
+          text: text,
+          model_id: 'eleven_monolingual_v1',
+          voice_settings: {
+            stability: DEFAULT_VOICE_CONFIG.stability,
+            similarity_boost: DEFAULT_VOICE_CONFIG.similarityBoost,
+            style: DEFAULT_VOICE_CONFIG.style,
+            use_speaker_boost: DEFAULT_VOICE_CONFIG.useSpeakerBoost,
+          },
+        }),
+      }
+    );
 
-    if (!text.trim()) {
-      return;
+    if (!response.ok) {
+      throw new Error(`ElevenLabs API error: ${response.status}`);
     }
 
-    try {
-      setIsPlaying(true);
+    return response.blob();
+  }, [elevenLabsApiKey]);
 
-      const response = await fetch(
-        `https://api.elevenlabs.io/v1/text-to-speech/${DEFAULT_VOICE_CONFIG.voiceId}`,
-        {
-          method: 'POST',
-          headers: {
-            'Accept': 'audio/mpeg',
-            'Content-Type': 'application/json',
-            'xi-api-key': elevenLabsApiKey,
-          },
-          body: JSON.stringify({
-            text: text,
-            model_id: 'eleven_monolingual_v1',
-            voice_settings: {
-              stability: DEFAULT_VOICE_CONFIG.stability,
-              similarity_boost: DEFAULT_VOICE_CONFIG.similarityBoost,
-              style: DEFAULT_VOICE_CONFIG.style,
-              use_speaker_boost: DEFAULT_VOICE_CONFIG.useSpeakerBoost,
-            },
-          }),
-        }
-      );
+  // Plays the clip and returns once playback has started; `finished` settles
+  // when it ends, fails or is stopped
+  const playAudio = useCallback(async (audioBlob: Blob): Promise<{ finished: Promise<void> }> => {
+    const audioUrl = URL.createObjectURL(audioBlob);
 
-      if (!response.ok) {
-        throw new Error(`ElevenLabs API error: ${response.status}`);
-      }
-
-      const audioBlob = await response.blob();
-      const audioUrl = URL.createObjectURL(audioBlob);
+    // Stop any currently playing audio
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current = null;
+    }
+    finishPlaybackRef.current?.();
 
-      // Stop any currently playing audio
-      if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current = null;
-      }
+    const audio = new Audio(audioUrl);
+    audioRef.current = audio;
 
-      const audio = new Audio(audioUrl);
-      audioRef.current = audio;
+    // Apply voice speed setting
+    audio.playbackRate = getVoiceSpeed();
 
-      // Apply voice speed setting
-      audio.playbackRate = getVoiceSpeed();
+    const finished = new Promise<void>((resolve) => {
+      const finish = () => {
+        if (finishPlaybackRef.current === finish) finishPlaybackRef.current = null;
+        URL.revokeObjectURL(audioUrl);
+        resolve();
+      };
+      finishPlaybackRef.current = finish;
 
       audio.onended = () => {
         setIsPlaying(false);
-        URL.revokeObjectURL(audioUrl);
         audioRef.current = null;
+        finish();
       };
 
       audio.onerror = () => {
         setIsPlaying(false);
-        URL.revokeObjectURL(audioUrl);
         audioRef.current = null;
-        toast.error('Failed to play audio');
+        toast.error(t('voice.playFailed'));
+        finish();
       };
+    });
 
+    setIsPlaying(true);
+    try {
       await audio.play();
+    } catch (error) {
+      finishPlaybackRef.current?.();
+      throw error;
+    }
+    return { finished };
+  }, [getVoiceSpeed]);
+
+  const textToSpeech = useCallback(async (text: string): Promise<void> => {
+    if (!elevenLabsApiKey) {
+      toast.error(t('voice.noApiKey'));
+      return;
+    }
+
+    if (!isOnline) {
+      toast.error(t('voice.speechOffline'));
+      return;
+    }
+
+    if (!text.trim()) {
+      return;
+    }
+
+    try {
+      setIsPlaying(true);
+      await playAudio(await synthesizeSpeech(text));
     } catch (error) {
       console.error('Text-to-speech error:', error);
       setIsPlaying(false);
-      toast.error('Failed to generate speech');
+      toast.error(t('voice.speechFailed'));
+    }
+  }, [elevenLabsApiKey, isOnline, synthesizeSpeech, playAudio]);
+
+  // Queues text to be spoken after anything already queued. Audio is fetched
+  // straight away so the next sentence is ready when the previous one ends.
+  const speakQueued = useCallback((text: string): Promise<void> => {
+    if (!elevenLabsApiKey || !isOnline || !text.trim()) {
+      return speechQueueRef.current;
     }
-  }, [elevenLabsApiKey, isOnline, getVoiceSpeed]);
+
+    const generation = speechGenerationRef.current;
+    const audioPromise = synthesizeSpeech(text).catch((error) => {
+      console.error('Text-to-speech error:', error);
+      return null;
+    });
+
+    const next = speechQueueRef.current.then(async () => {
+      const audioBlob = await audioPromise;
+      // Skip anything queued before the last stopSpeech()
+      if (!audioBlob || generation !== speechGenerationRef.current) return;
+
+      try {
+        const { finished } = await playAudio(audioBlob);
+        await finished;
+      } catch (error) {
+        console.error('Audio playback error:', error);
+        setIsPlaying(false);
+      }
+    });
+
+    speechQueueRef.current = next;
+    return next;
+  }, [elevenLabsApiKey, isOnline, synthesizeSpeech, playAudio]);
+
+  // Resolves once everything queued with speakQueued has been spoken
+  const waitForSpeechQueue = useCallback(() => speechQueueRef.current, []);
 
   const stopSpeech = useCallback(() => {
+    speechGenerationRef.current += 1;
+    speechQueueRef.current = Promise.resolve();
+
     if (audioRef.current) {
       audioRef.current.pause();
       audioRef.current = null;
       setIsPlaying(false);
     }
+    finishPlaybackRef.current?.();
   }, []);
 
   const startSpeechRecognition = useCallback((): Promise<string> => {
     return new Promise((resolve, reject) => {
       if (!isOnline) {
-        reject(new Error('Internet connection required for speech recognition'));
+        reject(new Error(t('voice.recognitionOffline')));
         return;
       }
 
       if (!('webkitSpeechRecognition' in window) && !('SpeechRecognition' in window)) {
-        reject(new Error('Speech recognition not supported in this browser'));
+        reject(new Error(t('voice.recognitionUnsupported')));
         return;
       }
 
@@ -149,7 +216,7 @@ export function useVoice() {
 
       recognition.onstart = () => {
         setIsRecording(true);
-        toast.success('Listening... Speak now!');
+        toast.success(t('voice.listening'));
       };
 
       recognition.onresult = (event) => {
@@ -161,32 +228,32 @@ export function useVoice() {
       recognition.onerror = (event) => {
         setIsRecording(false);
         
-        let errorMessage = 'Speech recognition failed';
+        let errorMessage = t('voice.recognitionFailed');
         
         switch (event.error) {
           case 'network':
-            errorMessage = 'Network error: Please check your internet connection and try again';
+            errorMessage = t('voice.errorNetwork');
             break;
           case 'not-allowed':
-            errorMessage = 'Microphone access denied. Please allow microphone permissions and try again';
+            errorMessage = t('voice.errorNotAllowed');
             break;
           case 'no-speech':
-            errorMessage = 'No speech detected. Please speak clearly and try again';
+            errorMessage = t('voice.errorNoSpeech');
             break;
           case 'audio-capture':
-            errorMessage = 'Microphone not found or not working. Please check your microphone';
+            errorMessage = t('voice.errorAudioCapture');
             break;
           case 'service-not-allowed':
-            errorMessage = 'Speech recognition service not available. Please try again later';
+            errorMessage = t('voice.errorService');
             break;
           case 'bad-grammar':
-            errorMessage = 'Speech recognition grammar error. Please try speaking again';
+            errorMessage = t('voice.errorGrammar');
             break;
           case 'language-not-supported':
-            errorMessage = 'Language not supported by speech recognition';
+            errorMessage = t('voice.errorLanguage');
             break;
           default:
-            errorMessage = `Speech recognition error: ${event.error}`;
+            errorMessage = t('voice.errorOther', { error: event.error });
         }
         
         reject(new Error(errorMessage));
@@ -214,7 +281,7 @@ export function useVoice() {
       const transcript = await startSpeechRecognition();
       
       if (!transcript.trim()) {
-        throw new Error('No speech detected');
+        throw new Error(t('voice.errorNoSpeech'));
       }
 
       return transcript;
@@ -232,6 +299,8 @@ export function useVoice() {
 
   return {
     textToSpeech,
+    speakQueued,
+    waitForSpeechQueue,
     stopSpeech,
     startSpeechRecognition,
     stopSpeechRecognition,
@@ -0,0 +1,77 @@
+import type { MessageKey } from '../i18n';
+import { STREAK_MILESTONES } from '../streaks';
+import type { AchievementDefinition, AchievementMetric } from './types';
+
+interface Ladder {
+  metric: AchievementMetric;
+  emoji: string;
+  steps: { target: number; title: MessageKey }[];
+  // Pluralised on the step's target
+  description: MessageKey;
+}
+
+// Each ladder becomes one achievement per step, with ids like "tasks_completed:10"
+const LADDERS: Ladder[] = [
+  {
+    metric: 'tasks_completed',
+    emoji: '✅',
+    steps: [
+      { target: 1, title: 'achievements.firstStep' },
+      { target: 10, title: 'achievements.gettingThingsDone' },
+      { target: 50, title: 'achievements.taskTamer' },
+      { target: 100, title: 'achievements.centurion' },
+      { target: 500, title: 'achievements.unstoppable' },
+    ],
+    description: 'achievements.describeTasks',
+  },
+  {
+    metric: 'mood_checkins',
+    emoji: '💜',
+    steps: [
+      { target: 1, title: 'achievements.checkingIn' },
+      { target: 10, title: 'achievements.selfAware' },
+      { target: 50, title: 'achievements.moodMapper' },
+      { target: 100, title: 'achievements.innerCompass' },
+      { target: 365, title: 'achievements.yearOfFeelings' },
+    ],
+    description: 'achievements.describeCheckIns',
+  },
+  {
+    metric: 'mood_streak',
+    emoji: '🔥',
+    // Same milestones the streak card counts down to
+    steps: STREAK_MILESTONES.map(target => ({ target, title: 'achievements.streak' as const })),
+    description: 'achievements.describeStreak',
+  },
+  {
+    metric: 'chat_sessions',
+    emoji: '💬',
+    steps: [
+      { target: 1, title: 'achievements.helloThere' },
+      { target: 10, title: 'achievements.goodListener' },
+      { target: 50, title: 'achievements.deepTalker' },
+    ],
+    description: 'achievements.describeChats',
+  },
+  {
+    metric: 'video_sessions',
+    emoji: '🎥',
+    steps: [
+      { target: 1, title: 'achievements.faceToFace' },
+      { target: 5, title: 'achievements.regularVisitor' },
+      { target: 20, title: 'achievements.trustedCompanion' },
+    ],
+    description: 'achievements.describeVideos',
+  },
+];
+
+export const ACHIEVEMENTS: AchievementDefinition[] = LADDERS.flatMap(ladder =>
+  ladder.steps.map(step => ({
+    id: `${ladder.metric}:${step.target}`,
+    title: step.title,
+    description: ladder.description,
+    emoji: ladder.emoji,
+    metric: ladder.metric,
+    target: step.target,
+  }))
+);
@@ -0,0 +1,8 @@
+export type {
+  AchievementDefinition,
+  AchievementMetric,
+  AchievementProgress,
+  AchievementStats,
+} from './types';
+export { ACHIEVEMENTS } from './definitions';
+export { evaluateAchievements, findNewUnlocks, nextAchievements } from './progress';
@@ -0,0 +1,36 @@
+import { ACHIEVEMENTS } from './definitions';
+import type { AchievementDefinition, AchievementProgress, AchievementStats } from './types';
+
+// Progress on every achievement. Stored unlocks stay unlocked even if the
+// count later drops, e.g. after deleting tasks or a broken streak.
+export const evaluateAchievements = (
+  stats: AchievementStats,
+  unlockedAt: Record<string, string>,
+  definitions: AchievementDefinition[] = ACHIEVEMENTS
+): AchievementProgress[] =>
+  definitions.map(definition => {
+    const current = stats[definition.metric];
+    const stored = unlockedAt[definition.id] ?? null;
+    return {
+      definition,
+      current,
+      progress: stored ? 1 : Math.min(1, current / definition.target),
+      unlocked: stored !== null || current >= definition.target,
+      unlockedAt: stored,
+    };
+  });
+
+// Reached now but not stored yet
+export const findNewUnlocks = (progress: AchievementProgress[]): AchievementDefinition[] =>
+  progress.filter(p => p.unlocked && !p.unlockedAt).map(p => p.definition);
+
+// The locked achievement closest to being reached for each metric
+export const nextAchievements = (progress: AchievementProgress[]): AchievementProgress[] => {
+  const next = new Map<string, AchievementProgress>();
+  progress.forEach(p => {
+    if (p.unlocked) return;
+    const current = next.get(p.definition.metric);
+    if (!current || p.definition.target < current.definition.target) next.set(p.definition.metric, p);
+  });
+  return Array.from(next.values()).sort((a, b) => b.progress - a.progress);
+};
@@ -0,0 +1,32 @@
+import type { MessageKey } from '../i18n';
+
+// What an achievement counts. Each maps to one number in AchievementStats.
+export type AchievementMetric =
+  | 'tasks_completed'
+  | 'mood_checkins'
+  | 'mood_streak'
+  | 'chat_sessions'
+  | 'video_sessions';
+
+export type AchievementStats = Record<AchievementMetric, number>;
+
+export interface AchievementDefinition {
+  // Stable key stored in user_achievements; never rename a shipped one
+  id: string;
+  // Rendered with { count: target }
+  title: MessageKey;
+  description: MessageKey;
+  emoji: string;
+  metric: AchievementMetric;
+  target: number;
+}
+
+export interface AchievementProgress {
+  definition: AchievementDefinition;
+  current: number;
+  // 0-1, capped at 1 once reached
+  progress: number;
+  unlocked: boolean;
+  // When it was first stored as unlocked, if it has been
+  unlockedAt: string | null;
+}
@@ -0,0 +1,82 @@
+import type { MessageKey } from './i18n';
+import type { OfflineTable } from './offline';
+
+// The privacy toggles in UserSettings, and which data each one allows us to
+// keep or send. Every write of optional data asks mayStore first, and every
+// optional call that sends user text to an outside AI provider asks mayShare.
+
+export type ConsentKey = 'analytics' | 'voice_recordings' | 'save_conversations' | 'data_sharing';
+
+export type ConsentSettings = Record<ConsentKey, boolean>;
+
+export type DataUse =
+  // Video session events in session_analytics
+  | 'session_analytics'
+  // Typed chat messages in chat_messages
+  | 'chat_message'
+  // Spoken messages, and the replies to them, in chat_messages
+  | 'voice_transcript'
+  // The encrypted copy of user messages in encrypted_data
+  | 'encrypted_copy'
+  // Messages the rules find worrying, sent to the LLM for a second opinion
+  | 'safety_classifier'
+  // Saved chat transcripts, sent to the LLM to pick out facts to remember
+  | 'memory_extraction';
+
+// Each use needs all of these toggles on. Replies, speech, video and
+// translation send user text to their providers (LLM, ElevenLabs, Tavus,
+// Lingo) because those features can't work without it; data_sharing gates the
+// extra LLM calls on top of that.
+const REQUIRED_CONSENT: Record<DataUse, ConsentKey[]> = {
+  session_analytics: ['analytics'],
+  chat_message: ['save_conversations'],
+  voice_transcript: ['save_conversations', 'voice_recordings'],
+  encrypted_copy: ['save_conversations'],
+  safety_classifier: ['data_sharing'],
+  memory_extraction: ['save_conversations', 'data_sharing'],
+};
+
+export const permits = (consent: ConsentSettings, use: DataUse): boolean =>
+  REQUIRED_CONSENT[use].every(key => consent[key]);
+
+export interface ConsentPurge {
+  key: ConsentKey;
+  title: MessageKey;
+  description: MessageKey;
+  // Cached tables to refresh once the purge has run
+  tables: OfflineTable[];
+}
+
+// What turning a toggle off can delete, for the prompt in Settings
+export const CONSENT_PURGES: Partial<Record<ConsentKey, ConsentPurge>> = {
+  analytics: {
+    key: 'analytics',
+    title: 'consent.analyticsTitle',
+    description: 'consent.analyticsDescription',
+    tables: [],
+  },
+  voice_recordings: {
+    key: 'voice_recordings',
+    title: 'consent.voiceTitle',
+    description: 'consent.voiceDescription',
+    tables: ['chat_sessions', 'chat_messages'],
+  },
+};
+
+// Loaded by useSettings and shared by every hook that writes. Until the
+// settings have loaded nothing optional is written.
+let current: { userId: string; consent: ConsentSettings } | null = null;
+
+export const setConsent = (userId: string, consent: ConsentSettings) => {
+  current = { userId, consent };
+};
+
+export const getConsent = (userId: string): ConsentSettings | null =>
+  current?.userId === userId ? current.consent : null;
+
+export const mayStore = (userId: string, use: DataUse): boolean => {
+  const consent = getConsent(userId);
+  return !!consent && permits(consent, use);
+};
+
+export const mayShare = mayStore;
@@ -0,0 +1,82 @@
+import type { MessageKey } from './i18n';
+import type { OfflineTable } from './offline';
+
+export type DeletionScope = 'chats' | 'mood' | 'video' | 'account';
+
+export interface DeletionRequest {
+  id: string;
+  scope: DeletionScope;
+  status: 'pending' | 'cancelled' | 'completed';
+  requested_at: string;
+  execute_after: string;
+  completed_at: string | null;
+}
+
+export interface DeletionScopeInfo {
+  scope: DeletionScope;
+  title: MessageKey;
+  description: MessageKey;
+  // Shown once the deletion has run
+  done: MessageKey;
+  // Typed by the user to confirm; checked again by request_data_deletion,
+  // so it stays in English
+  phrase: string;
+  grace: { unit: 'hours' | 'days'; count: number };
+  // Cached tables the wipe empties; their local rows and queued writes are
+  // dropped once it has run
+  tables: OfflineTable[];
+  // Cached tables the wipe changes, to refresh once it has run
+  refresh: OfflineTable[];
+}
+
+// Grace periods and phrases must match the clean_slate migration
+export const DELETION_SCOPES: Record<DeletionScope, DeletionScopeInfo> = {
+  chats: {
+    scope: 'chats',
+    title: 'deletion.chatsTitle',
+    description: 'deletion.chatsDescription',
+    done: 'deletion.chatsDone',
+    phrase: 'DELETE CHATS',
+    grace: { unit: 'hours', count: 24 },
+    tables: ['chat_sessions', 'chat_messages'],
+    refresh: [],
+  },
+  mood: {
+    scope: 'mood',
+    title: 'deletion.moodTitle',
+    description: 'deletion.moodDescription',
+    done: 'deletion.moodDone',
+    phrase: 'DELETE MOOD HISTORY',
+    grace: { unit: 'hours', count: 24 },
+    tables: ['mood_entries'],
+    refresh: ['user_settings', 'journal_entries'],
+  },
+  video: {
+    scope: 'video',
+    title: 'deletion.videoTitle',
+    description: 'deletion.videoDescription',
+    done: 'deletion.videoDone',
+    phrase: 'DELETE VIDEO SESSIONS',
+    grace: { unit: 'hours', count: 24 },
+    tables: [],
+    refresh: [],
+  },
+  account: {
+    scope: 'account',
+    title: 'deletion.accountTitle',
+    description: 'deletion.accountDescription',
+    done: 'deletion.accountDone',
+    phrase: 'DELETE MY ACCOUNT',
+    grace: { unit: 'days', count: 7 },
+    tables: [],
+    refresh: [],
+  },
+};
+
+export const WIPE_SCOPES: DeletionScope[] = ['chats', 'mood', 'video'];
+
+export const matchesDeletionPhrase = (scope: DeletionScope, typed: string): boolean =>
+  typed.trim().toUpperCase() === DELETION_SCOPES[scope].phrase;
+
+export const isDeletionDue = (request: DeletionRequest, now = new Date()): boolean =>
+  request.status === 'pending' && new Date(request.execute_after) <= now;
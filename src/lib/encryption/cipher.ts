@@ -0,0 +1,23 @@
+import { IV_BYTES, joinIv, randomBytes, splitIv } from './encoding';
+
+// Values encrypted with the data key carry this prefix; legacy values
+// (user-id derived key) are bare base64
+const CIPHER_PREFIX = 'v2:';
+
+export const isLegacyCiphertext = (value: string): boolean => !value.startsWith(CIPHER_PREFIX);
+
+const encryptRaw = async (key: CryptoKey, plaintext: string): Promise<string> => {
+  const iv = randomBytes(IV_BYTES);
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return joinIv(iv, encrypted);
+};
+
+export const encryptWithKey = async (key: CryptoKey, plaintext: string): Promise<string> =>
+  CIPHER_PREFIX + (await encryptRaw(key, plaintext));
+
+// Throws if the key doesn't match the value
+export const decryptWithKey = async (key: CryptoKey, value: string): Promise<string> => {
+  const { iv, payload } = splitIv(isLegacyCiphertext(value) ? value : value.slice(CIPHER_PREFIX.length));
+  const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, payload);
+  return new TextDecoder().decode(decrypted);
+};
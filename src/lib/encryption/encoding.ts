@@ -0,0 +1,29 @@
+export const IV_BYTES = 12;
+
+// Built a byte at a time; spreading long values into fromCharCode overflows
+// the call stack
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+// AES-GCM output is stored with its IV in front
+export const joinIv = (iv: Uint8Array, payload: ArrayBuffer): string => {
+  const combined = new Uint8Array(iv.length + payload.byteLength);
+  combined.set(iv);
+  combined.set(new Uint8Array(payload), iv.length);
+  return toBase64(combined);
+};
+
+export const splitIv = (value: string): { iv: Uint8Array; payload: Uint8Array } => {
+  const combined = fromBase64(value);
+  return { iv: combined.slice(0, IV_BYTES), payload: combined.slice(IV_BYTES) };
+};
+
+export const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
@@ -0,0 +1,20 @@
+export type { KeyRecord, KeyState, KeyStatus } from './types';
+export { fromBase64, toBase64 } from './encoding';
+export {
+  PBKDF2_ITERATIONS,
+  deriveLegacyKey,
+  deriveWrappingKey,
+  generateDataKey,
+  generateSalt,
+  unwrapDataKey,
+  wrapDataKey,
+} from './keys';
+export { decryptWithKey, encryptWithKey, isLegacyCiphertext } from './cipher';
+export {
+  RECOVERY_CODE_LENGTH,
+  generateRecoveryCode,
+  isValidRecoveryCode,
+  normalizeRecoveryCode,
+} from './recovery';
+export { MIN_PASSPHRASE_LENGTH, passphraseProblem } from './passphrase';
+export { EncryptionLockedError, getKeyState, setKeyState, subscribeKeyState } from './session';
@@ -0,0 +1,76 @@
+import { IV_BYTES, fromBase64, joinIv, randomBytes, splitIv, toBase64 } from './encoding';
+
+// OWASP's current recommendation for PBKDF2-HMAC-SHA256. Stored with each
+// record so it can be raised later without breaking existing passphrases.
+export const PBKDF2_ITERATIONS = 600000;
+
+const SALT_BYTES = 16;
+const DATA_KEY_ALGORITHM = { name: 'AES-GCM', length: 256 } as const;
+
+export const generateSalt = (): string => toBase64(randomBytes(SALT_BYTES));
+
+const pbkdf2 = async (
+  secret: string,
+  salt: Uint8Array,
+  iterations: number,
+  usages: KeyUsage[]
+): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'PBKDF2' },
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    DATA_KEY_ALGORITHM,
+    false,
+    usages
+  );
+};
+
+// Key that wraps the data key, from the passphrase or recovery code
+export const deriveWrappingKey = (secret: string, salt: string, iterations: number): Promise<CryptoKey> =>
+  pbkdf2(secret, fromBase64(salt), iterations, ['wrapKey', 'unwrapKey']);
+
+// Extractable only so it can be wrapped; the copy kept in memory after
+// unlocking is not
+export const generateDataKey = (): Promise<CryptoKey> =>
+  crypto.subtle.generateKey(DATA_KEY_ALGORITHM, true, ['encrypt', 'decrypt']);
+
+export const wrapDataKey = async (dataKey: CryptoKey, wrappingKey: CryptoKey): Promise<string> => {
+  const iv = randomBytes(IV_BYTES);
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+  return joinIv(iv, wrapped);
+};
+
+// Rejects when the wrapping key is wrong: AES-GCM's tag check fails
+export const unwrapDataKey = (wrapped: string, wrappingKey: CryptoKey, extractable = false): Promise<CryptoKey> => {
+  const { iv, payload } = splitIv(wrapped);
+  return crypto.subtle.unwrapKey(
+    'raw',
+    payload,
+    wrappingKey,
+    { name: 'AES-GCM', iv },
+    DATA_KEY_ALGORITHM,
+    extractable,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const legacyKeys = new Map<string, Promise<CryptoKey>>();
+
+// The key everything was encrypted with before passphrases: derived from the
+// user id and a fixed salt. Only kept to read and re-encrypt old rows.
+export const deriveLegacyKey = (userId: string): Promise<CryptoKey> => {
+  const cached = legacyKeys.get(userId);
+  if (cached) return cached;
+
+  const key = pbkdf2(userId, new TextEncoder().encode('mindpal-salt'), 100000, ['decrypt']);
+  // Don't keep a failed derivation around
+  key.catch(() => legacyKeys.delete(userId));
+  legacyKeys.set(userId, key);
+  return key;
+};
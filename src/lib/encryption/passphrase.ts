@@ -0,0 +1,13 @@
+import { t } from '../i18n';
+
+export const MIN_PASSPHRASE_LENGTH = 10;
+
+// Why a new passphrase can't be used, or null if it can
+export const passphraseProblem = (passphrase: string, confirmation: string): string | null => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return t('encryption.tooShort', { count: MIN_PASSPHRASE_LENGTH });
+  }
+  if (new Set(passphrase).size < 4) return t('encryption.tooSimple');
+  if (passphrase !== confirmation) return t('encryption.mismatch');
+  return null;
+};
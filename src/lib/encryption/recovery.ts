@@ -0,0 +1,25 @@
+// Crockford base32: no I, L, O or U, so codes survive being read aloud or
+// copied by hand
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const GROUPS = 6;
+const GROUP_LENGTH = 4;
+export const RECOVERY_CODE_LENGTH = GROUPS * GROUP_LENGTH;
+
+// 24 characters of 5 bits each: 120 bits. 32 divides 256, so masking random
+// bytes keeps every character equally likely.
+export const generateRecoveryCode = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_LENGTH));
+  const chars = Array.from(bytes, byte => ALPHABET[byte & 31]).join('');
+  return chars.match(new RegExp(`.{${GROUP_LENGTH}}`, 'g'))!.join('-');
+};
+
+// Accepts lower case, missing or extra separators and the usual look-alikes
+export const normalizeRecoveryCode = (input: string): string =>
+  input
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+
+export const isValidRecoveryCode = (normalized: string): boolean =>
+  normalized.length === RECOVERY_CODE_LENGTH && Array.from(normalized).every(char => ALPHABET.includes(char));
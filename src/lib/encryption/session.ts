@@ -0,0 +1,30 @@
+import type { KeyState } from './types';
+
+// The unlocked key is shared by every screen for the rest of the session
+// and is dropped on reload or sign-out; it is never written to storage
+let state: KeyState = { userId: null, status: 'loading', record: null, dataKey: null };
+
+const listeners = new Set<(state: KeyState) => void>();
+
+export const getKeyState = (): KeyState => state;
+
+export const setKeyState = (next: KeyState) => {
+  state = next;
+  listeners.forEach(listener => listener(state));
+};
+
+export const subscribeKeyState = (listener: (state: KeyState) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Thrown when something needs the data key while it is locked, or before a
+// passphrase has been set up
+export class EncryptionLockedError extends Error {
+  constructor() {
+    super('Encryption key is locked');
+    this.name = 'EncryptionLockedError';
+  }
+}
@@ -0,0 +1,26 @@
+// One row per user in encryption_keys. The data key that encrypts journal
+// entries and encrypted_data is stored twice, wrapped by a key derived from
+// the passphrase and by one derived from the recovery code. Both wrapping
+// keys come from secrets that never leave the device.
+export interface KeyRecord {
+  user_id: string;
+  kdf_salt: string;
+  kdf_iterations: number;
+  wrapped_key: string;
+  recovery_salt: string;
+  recovery_wrapped_key: string;
+  updated_at?: string;
+}
+
+// legacy: no passphrase set yet. Old rows are read with the user-id derived
+// key, but nothing new can be encrypted until one is set.
+// locked: a passphrase is set but hasn't been entered this session
+export type KeyStatus = 'loading' | 'legacy' | 'locked' | 'unlocked';
+
+export interface KeyState {
+  userId: string | null;
+  status: KeyStatus;
+  record: KeyRecord | null;
+  // Non-extractable, so it can encrypt and decrypt but never be read out
+  dataKey: CryptoKey | null;
+}
@@ -0,0 +1,57 @@
+import type { ExerciseDefinition, ExerciseId } from './types';
+
+export const EXERCISES: ExerciseDefinition[] = [
+  {
+    id: 'box_breathing',
+    title: 'exercises.boxTitle',
+    summary: 'exercises.boxSummary',
+    instructions: 'exercises.boxInstructions',
+    steps: [
+      { label: 'exercises.breatheIn', seconds: 4, motion: 'inhale' },
+      { label: 'exercises.hold', seconds: 4, motion: 'hold' },
+      { label: 'exercises.breatheOut', seconds: 4, motion: 'exhale' },
+      { label: 'exercises.hold', seconds: 4, motion: 'hold' },
+    ],
+    rounds: 4,
+    selfPaced: false,
+  },
+  {
+    id: 'breathing_4_7_8',
+    title: 'exercises.fourSevenEightTitle',
+    summary: 'exercises.fourSevenEightSummary',
+    instructions: 'exercises.fourSevenEightInstructions',
+    steps: [
+      { label: 'exercises.breatheIn', narration: 'exercises.breatheInNose', seconds: 4, motion: 'inhale' },
+      { label: 'exercises.hold', seconds: 7, motion: 'hold' },
+      { label: 'exercises.breatheOut', narration: 'exercises.breatheOutMouth', seconds: 8, motion: 'exhale' },
+    ],
+    rounds: 4,
+    selfPaced: false,
+  },
+  {
+    id: 'grounding_54321',
+    title: 'exercises.groundingTitle',
+    summary: 'exercises.groundingSummary',
+    instructions: 'exercises.groundingInstructions',
+    steps: [
+      { label: 'exercises.see', narration: 'exercises.seeNarration', detail: 'exercises.seeDetail', seconds: 30, motion: 'focus' },
+      { label: 'exercises.feel', narration: 'exercises.feelNarration', detail: 'exercises.feelDetail', seconds: 30, motion: 'focus' },
+      { label: 'exercises.hear', narration: 'exercises.hearNarration', detail: 'exercises.hearDetail', seconds: 25, motion: 'focus' },
+      { label: 'exercises.smell', narration: 'exercises.smellNarration', detail: 'exercises.smellDetail', seconds: 20, motion: 'focus' },
+      { label: 'exercises.taste', narration: 'exercises.tasteNarration', detail: 'exercises.tasteDetail', seconds: 15, motion: 'focus' },
+    ],
+    rounds: 1,
+    selfPaced: true,
+  },
+];
+
+export const getExercise = (id: string): ExerciseDefinition | undefined =>
+  EXERCISES.find(exercise => exercise.id === id);
+
+// Links the wellbeing suggestions in mood reports to something to try
+export const exerciseForRecommendation = (recommendation: string): ExerciseId | null => {
+  const text = recommendation.toLowerCase();
+  if (text.includes('breathing')) return 'box_breathing';
+  if (text.includes('mindfulness') || text.includes('meditation')) return 'grounding_54321';
+  return null;
+};
@@ -0,0 +1,9 @@
+export type {
+  ExerciseDefinition,
+  ExerciseId,
+  ExercisePosition,
+  ExerciseStep,
+  StepMotion,
+} from './types';
+export { EXERCISES, exerciseForRecommendation, getExercise } from './definitions';
+export { positionAt, roundSeconds, stepStart, totalSeconds } from './timeline';
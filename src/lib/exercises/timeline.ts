@@ -0,0 +1,35 @@
+import type { ExerciseDefinition, ExercisePosition } from './types';
+
+export const roundSeconds = (exercise: ExerciseDefinition): number =>
+  exercise.steps.reduce((sum, step) => sum + step.seconds, 0);
+
+export const totalSeconds = (exercise: ExerciseDefinition): number =>
+  roundSeconds(exercise) * exercise.rounds;
+
+// Position after `seconds` of a session that ran without skipping ahead
+export const positionAt = (exercise: ExerciseDefinition, seconds: number): ExercisePosition => {
+  const total = totalSeconds(exercise);
+  if (seconds >= total) {
+    const last = exercise.steps.length - 1;
+    return {
+      round: exercise.rounds - 1,
+      stepIndex: last,
+      step: exercise.steps[last],
+      elapsed: exercise.steps[last].seconds,
+      finished: true,
+    };
+  }
+
+  const round = Math.floor(seconds / roundSeconds(exercise));
+  let remaining = seconds - round * roundSeconds(exercise);
+  let stepIndex = 0;
+  while (remaining >= exercise.steps[stepIndex].seconds) {
+    remaining -= exercise.steps[stepIndex].seconds;
+    stepIndex++;
+  }
+  return { round, stepIndex, step: exercise.steps[stepIndex], elapsed: remaining, finished: false };
+};
+
+// Seconds from the start of the session to the start of a step
+export const stepStart = (exercise: ExerciseDefinition, round: number, stepIndex: number): number =>
+  round * roundSeconds(exercise) + exercise.steps.slice(0, stepIndex).reduce((sum, step) => sum + step.seconds, 0);
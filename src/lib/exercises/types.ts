@@ -0,0 +1,38 @@
+import type { MessageKey } from '../i18n';
+
+export type ExerciseId = 'box_breathing' | 'breathing_4_7_8' | 'grounding_54321';
+
+// How the pacing animation should move during a step
+export type StepMotion = 'inhale' | 'hold' | 'exhale' | 'focus';
+
+export interface ExerciseStep {
+  label: MessageKey;
+  // Spoken when narration is on; defaults to the label
+  narration?: MessageKey;
+  detail?: MessageKey;
+  seconds: number;
+  motion: StepMotion;
+}
+
+export interface ExerciseDefinition {
+  id: ExerciseId;
+  title: MessageKey;
+  summary: MessageKey;
+  // Shown before starting
+  instructions: MessageKey;
+  // One round; breathing exercises repeat it
+  steps: ExerciseStep[];
+  rounds: number;
+  // Steps the user can finish early, e.g. while naming things they can see
+  selfPaced: boolean;
+}
+
+// Where the timeline is at a moment in the session
+export interface ExercisePosition {
+  round: number;
+  stepIndex: number;
+  step: ExerciseStep;
+  // Seconds into the current step
+  elapsed: number;
+  finished: boolean;
+}
@@ -0,0 +1,49 @@
+import { toCsv } from './csv';
+import type { ArchiveFile, TableExport } from './types';
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+interface ArchiveMeta {
+  userId: string;
+  email: string | null;
+  generatedAt: Date;
+}
+
+const README = `MindPal data export
+
+This archive holds everything MindPal stores about your account.
+
+  manifest.json   what was exported, row counts and any tables that couldn't be read
+  json/<table>.json   each table as JSON, with nested values kept intact
+  csv/<table>.csv     the same rows as CSV for spreadsheets; nested values are JSON text
+
+Journal entries and other private data are included decrypted, so keep this
+file somewhere safe.
+`;
+
+// Lays out the export as JSON and CSV per table plus a manifest and readme
+export const buildArchiveFiles = (tables: TableExport[], meta: ArchiveMeta): ArchiveFile[] => {
+  const manifest = {
+    format_version: EXPORT_FORMAT_VERSION,
+    generated_at: meta.generatedAt.toISOString(),
+    user_id: meta.userId,
+    email: meta.email,
+    tables: tables.map(({ table, rows, error }) => ({
+      table: table.table,
+      description: table.description,
+      row_count: rows.length,
+      files: error ? [] : [`json/${table.table}.json`, `csv/${table.table}.csv`],
+      ...(error ? { error } : {}),
+    })),
+  };
+
+  const files: ArchiveFile[] = [
+    { path: 'manifest.json', content: JSON.stringify(manifest, null, 2) },
+    { path: 'README.txt', content: README },
+  ];
+  tables.filter(({ error }) => !error).forEach(({ table, rows }) => {
+    files.push({ path: `json/${table.table}.json`, content: JSON.stringify(rows, null, 2) });
+    files.push({ path: `csv/${table.table}.csv`, content: toCsv(rows) });
+  });
+  return files;
+};
@@ -0,0 +1,24 @@
+import type { ExportRow } from './types';
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const safe = typeof value === 'string' && FORMULA_START.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+// RFC 4180 CSV. Columns are the union of every row's keys in first-seen
+// order; nested values (arrays, JSON columns) are written as JSON.
+export const toCsv = (rows: ExportRow[]): string => {
+  const columns: string[] = [];
+  rows.forEach(row => Object.keys(row).forEach(key => {
+    if (!columns.includes(key)) columns.push(key);
+  }));
+
+  const lines = [columns.map(formatCell).join(',')];
+  rows.forEach(row => lines.push(columns.map(column => formatCell(row[column])).join(',')));
+  return lines.join('\r\n') + '\r\n';
+};
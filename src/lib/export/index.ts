@@ -0,0 +1,12 @@
+export type {
+  ArchiveFile,
+  ExportDecryption,
+  ExportProgress,
+  ExportRow,
+  ExportTable,
+  TableExport,
+} from './types';
+export { EXPORT_TABLES } from './tables';
+export { toCsv } from './csv';
+export { createZip, crc32 } from './zip';
+export { EXPORT_FORMAT_VERSION, buildArchiveFiles } from './archive';
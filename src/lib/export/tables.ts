@@ -0,0 +1,26 @@
+import type { ExportTable } from './types';
+
+// Every table holding the user's data. Tables that don't exist in a given
+// deployment are noted in the manifest rather than failing the export.
+export const EXPORT_TABLES: ExportTable[] = [
+  { table: 'profiles', owner: 'id', orderBy: 'id', description: 'Your profile: name, phone and time zone' },
+  { table: 'user_settings', owner: 'user_id', orderBy: 'id', description: 'App preferences, reminders and privacy choices' },
+  { table: 'tasks', owner: 'user_id', orderBy: 'id', description: 'Tasks and their due dates' },
+  { table: 'notification_log', owner: 'user_id', orderBy: 'id', description: 'Reminders already delivered' },
+  { table: 'mood_entries', owner: 'user_id', orderBy: 'id', description: 'Mood check-ins with ratings, tags and notes' },
+  { table: 'mood_analytics', owner: 'user_id', orderBy: 'id', description: 'Mood analyses of your conversations' },
+  { table: 'journal_entries', owner: 'user_id', orderBy: 'id', description: 'Journal entries, decrypted', decrypt: 'journal' },
+  { table: 'exercise_sessions', owner: 'user_id', orderBy: 'id', description: 'Breathing and grounding sessions' },
+  { table: 'chat_sessions', owner: 'user_id', orderBy: 'id', description: 'Voice AI conversations' },
+  { table: 'chat_messages', owner: 'user_id', orderBy: 'id', description: 'Messages in those conversations' },
+  { table: 'voice_sessions', owner: 'user_id', orderBy: 'id', description: 'Voice session history' },
+  { table: 'memory_facts', owner: 'user_id', orderBy: 'id', description: 'Facts MindPal remembers about you' },
+  { table: 'video_sessions', owner: 'user_id', orderBy: 'id', description: 'Video consultations' },
+  { table: 'session_analytics', owner: 'user_id', orderBy: 'id', description: 'Events recorded during video sessions' },
+  { table: 'session_reports', owner: 'user_id', orderBy: 'id', description: 'Reports generated after video sessions' },
+  { table: 'safety_events', owner: 'user_id', orderBy: 'id', description: 'Times crisis support was shown' },
+  { table: 'user_achievements', owner: 'user_id', orderBy: 'id', description: 'Achievements you have unlocked' },
+  { table: 'data_deletion_requests', owner: 'user_id', orderBy: 'id', description: 'Data deletions you have scheduled or cancelled' },
+  { table: 'encrypted_data', owner: 'user_id', orderBy: 'id', description: 'Encrypted private data, decrypted', decrypt: 'encrypted_data' },
+  { table: 'encryption_keys', owner: 'user_id', orderBy: 'user_id', description: 'Your wrapped encryption key (unreadable without your passphrase)' },
+];
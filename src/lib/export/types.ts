@@ -0,0 +1,34 @@
+// How a table's values are decrypted for the export, if at all
+export type ExportDecryption = 'encrypted_data' | 'journal';
+
+export interface ExportTable {
+  table: string;
+  // Column holding the owner's id
+  owner: 'id' | 'user_id';
+  // Stable order so pages don't overlap
+  orderBy: string;
+  description: string;
+  decrypt?: ExportDecryption;
+}
+
+export type ExportRow = Record<string, unknown>;
+
+export interface TableExport {
+  table: ExportTable;
+  rows: ExportRow[];
+  // Set when the table couldn't be read; the archive records it and goes on
+  error?: string;
+}
+
+export interface ExportProgress {
+  stage: 'fetching' | 'decrypting' | 'packaging';
+  // Table being fetched or decrypted
+  table?: string;
+  completed: number;
+  total: number;
+}
+
+export interface ArchiveFile {
+  path: string;
+  content: string | Uint8Array;
+}
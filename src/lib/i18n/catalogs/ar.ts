@@ -0,0 +1,1422 @@
+import type { Catalog } from '../types';
+
+export const ar: Catalog = {
+  // Shared
+  'common.cancel': 'إلغاء',
+  'common.clear': 'مسح',
+  'common.retry': 'إعادة المحاولة',
+  'common.retrying': 'جارٍ إعادة المحاولة...',
+  'common.checking': 'جارٍ التحقق...',
+  'common.saving': 'جارٍ الحفظ...',
+  'common.connected': 'متصل',
+  'common.offline': 'غير متصل',
+  'common.actionFailed': 'تعذّر إتمام هذا الإجراء',
+  'common.listSeparator': '، ',
+  'common.close': 'إغلاق',
+
+  // Sign in
+  'auth.sessionExpired': 'انتهت صلاحية جلستك. يُرجى تسجيل الدخول مجددًا.',
+  'auth.tagline': 'رفيقك الذكي للذاكرة والصحة النفسية والمساعدة الصوتية',
+  'auth.email': 'البريد الإلكتروني',
+  'auth.emailPlaceholder': 'أدخل بريدك الإلكتروني',
+  'auth.password': 'كلمة المرور',
+  'auth.passwordPlaceholder': 'أدخل كلمة المرور',
+  'auth.emailRequired': 'البريد الإلكتروني مطلوب',
+  'auth.emailInvalid': 'يرجى إدخال بريد إلكتروني صالح',
+  'auth.passwordRequired': 'كلمة المرور مطلوبة',
+  'auth.passwordTooShort': {
+    one: 'يجب ألا تقل كلمة المرور عن حرف واحد',
+    two: 'يجب ألا تقل كلمة المرور عن حرفين',
+    few: 'يجب ألا تقل كلمة المرور عن {count} أحرف',
+    many: 'يجب ألا تقل كلمة المرور عن {count} حرفًا',
+    other: 'يجب ألا تقل كلمة المرور عن {count} حرف',
+  },
+  'auth.notConfigured': 'التطبيق غير مُعدّ. يرجى التحقق من متغيرات البيئة.',
+  'auth.needsConnection': 'يلزم الاتصال بالإنترنت لتسجيل الدخول',
+  'auth.serverUnreachable': 'تعذّر الاتصال بخادم المصادقة',
+  'auth.accountCreated': 'تم إنشاء الحساب! يرجى التحقق من بريدك الإلكتروني لتأكيده. 🎉',
+  'auth.welcomeBack': 'مرحبًا بعودتك! ✨',
+  'auth.unexpectedError': 'حدث خطأ غير متوقع',
+  'auth.networkError': 'خطأ في الشبكة. يرجى التحقق من اتصالك والمحاولة مرة أخرى.',
+  'auth.bannerNotConfigured': 'التطبيق غير مُعدّ - يرجى التحقق من متغيرات البيئة',
+  'auth.bannerOffline': 'لا يوجد اتصال بالإنترنت - تسجيل الدخول غير متاح',
+  'auth.bannerServer': 'مشكلات في الاتصال بالخادم - يرجى المحاولة لاحقًا',
+  'auth.processing': 'جارٍ المعالجة...',
+  'auth.unavailable': 'غير متاح',
+  'auth.createAccount': 'إنشاء حساب',
+  'auth.signIn': 'تسجيل الدخول',
+  'auth.haveAccount': 'لديك حساب بالفعل؟ سجّل الدخول',
+  'auth.needAccount': 'ليس لديك حساب؟ أنشئ حسابًا',
+  'auth.ready': 'جاهز لتسجيل الدخول',
+  'auth.unavailableStatus': 'تسجيل الدخول غير متاح',
+
+  // Navigation
+  'nav.dashboard': 'لوحة التحكم',
+  'nav.tasks': 'المهام',
+  'nav.mood': 'المزاج',
+  'nav.journal': 'اليوميات',
+  'nav.voice': 'المساعد الصوتي',
+  'nav.video': 'الفيديو',
+  'nav.exercises': 'التمارين',
+  'nav.settings': 'الإعدادات',
+
+  // Layout
+  'layout.welcome': 'مرحبًا، {name}',
+  'layout.signOut': 'تسجيل الخروج',
+  'layout.signedOut': 'تم تسجيل الخروج بنجاح ✨',
+  'layout.signOutError': 'حدث خطأ أثناء تسجيل الخروج، لكن تم إخراجك من هذا الجهاز',
+  'layout.syncing': 'جارٍ المزامنة...',
+  'layout.unsynced': {
+    zero: 'لا تغييرات بانتظار المزامنة',
+    one: 'تغيير واحد بانتظار المزامنة',
+    two: 'تغييران بانتظار المزامنة',
+    few: '{count} تغييرات بانتظار المزامنة',
+    many: '{count} تغييرًا بانتظار المزامنة',
+    other: '{count} تغيير بانتظار المزامنة',
+  },
+  'layout.checkingConnection': 'جارٍ التحقق من الاتصال...',
+  'layout.connectionRestored': 'عاد الاتصال! 🎉',
+  'layout.stillOffline': 'ما زالت هناك مشكلة في الاتصال. يرجى التحقق من اتصالك بالإنترنت.',
+  'layout.connectionCheckFailed': 'تعذّر التحقق من الاتصال',
+  'layout.configTitle': 'الإعداد مطلوب',
+  'layout.configMessage': 'متغيرات بيئة Supabase غير مضبوطة. يرجى التحقق من ملف .env.',
+  'layout.offlineTitle': 'لا يوجد اتصال بالإنترنت',
+  'layout.offlineMessage': 'المهام والمزاج والمحادثات والإعدادات محفوظة على هذا الجهاز وستتم مزامنتها عند عودة الاتصال.',
+  'layout.serverTitle': 'مشكلة في الاتصال بالخادم',
+  'layout.serverMessage': 'نواجه صعوبة في الاتصال بخوادمنا. تتم إعادة المحاولة تلقائيًا...',
+  'layout.details': 'التفاصيل',
+  'layout.configuration': 'الإعداد: {status}',
+  'layout.internet': 'الإنترنت: {status}',
+  'layout.database': 'قاعدة البيانات: {status}',
+  'layout.ok': 'سليم',
+  'layout.missing': 'مفقود',
+  'layout.disconnected': 'غير متصل',
+  'layout.deletionTitle': 'الحساب مجدول للحذف',
+  'layout.deletionMessage': 'سيتم حذف حسابك وجميع بياناته في {date}.',
+  'layout.keepAccount': 'الإبقاء على حسابي',
+
+  // Dashboard
+  'dashboard.welcomeBack': 'أهلًا بعودتك!',
+  'dashboard.welcomeToast': 'مرحبًا بك في MindPal! 🎉',
+  'dashboard.canceledToast': 'تم إلغاء الإجراء. يمكنك المحاولة مرة أخرى في أي وقت.',
+  'dashboard.loadError': 'تعذّر تحميل بعض البيانات. حاول تحديث الصفحة.',
+  'dashboard.badge': 'شارة',
+  'dashboard.dataIssues': 'مشكلة في تحميل البيانات',
+  'dashboard.dataIssuesMessage': '{error} سيستمر التطبيق في العمل بشكل طبيعي.',
+  'dashboard.offlineTitle': 'تعمل دون اتصال',
+  'dashboard.offlineMessage': 'قد تكون بعض الميزات محدودة. ستتم مزامنة البيانات عند عودة الاتصال.',
+  'dashboard.tasksCompleted': 'المهام المنجزة',
+  'dashboard.completionRate': 'نسبة الإنجاز {rate}%',
+  'dashboard.todayMood': 'مزاج اليوم',
+  'dashboard.notLogged': 'لم يُسجَّل',
+  'dashboard.feelingGreat': 'شعور رائع!',
+  'dashboard.logMood': 'سجّل مزاجك',
+  'dashboard.chatSessions': 'جلسات المحادثة',
+  'dashboard.aiConversations': 'محادثات الذكاء الاصطناعي',
+  'dashboard.streakTitle': {
+    zero: '🔥 لا توجد سلسلة مزاج بعد',
+    one: '🔥 سلسلة مزاج ليوم واحد!',
+    two: '🔥 سلسلة مزاج ليومين!',
+    few: '🔥 سلسلة مزاج لـ {count} أيام!',
+    many: '🔥 سلسلة مزاج لـ {count} يومًا!',
+    other: '🔥 سلسلة مزاج لـ {count} يوم!',
+  },
+  'dashboard.quickActions': 'إجراءات سريعة',
+  'dashboard.voiceChat': 'محادثة صوتية',
+  'dashboard.voiceChatHint': 'تحدّث مع رفيقك الذكي',
+  'dashboard.moodCheck': 'فحص المزاج',
+  'dashboard.moodCheckHint': 'سجّل مشاعرك',
+  'dashboard.addTask': 'إضافة مهمة',
+  'dashboard.addTaskHint': 'أنشئ تذكيرًا جديدًا',
+  'dashboard.builtOnBolt': 'مبني على Bolt',
+
+  // Tasks
+  'tasks.title': 'مدير المهام',
+  'tasks.subtitle': 'ابقَ منظمًا مع إدارة مهام تناسب ADHD',
+  'tasks.summary': 'الإجمالي {total} • المنجز {completed}',
+  'tasks.overdueCount': {
+    zero: 'لا مهام متأخرة',
+    one: 'مهمة واحدة متأخرة',
+    two: 'مهمتان متأخرتان',
+    few: '{count} مهام متأخرة',
+    many: '{count} مهمة متأخرة',
+    other: '{count} مهمة متأخرة',
+  },
+  'tasks.add': 'إضافة مهمة',
+  'tasks.search': 'ابحث في المهام...',
+  'tasks.filterAll': 'كل المهام',
+  'tasks.filterPending': 'قيد الانتظار',
+  'tasks.filterCompleted': 'منجزة',
+  'tasks.filterOverdue': 'متأخرة',
+  'tasks.fieldTitle': 'عنوان المهمة *',
+  'tasks.fieldTitlePlaceholder': 'ما الذي يجب إنجازه؟',
+  'tasks.fieldPriority': 'الأولوية',
+  'tasks.fieldDescription': 'الوصف',
+  'tasks.fieldDescriptionPlaceholder': 'أضف تفاصيل أكثر...',
+  'tasks.fieldCategory': 'الفئة',
+  'tasks.fieldCategoryPlaceholder': 'شخصي، عمل، صحة...',
+  'tasks.fieldDue': 'تاريخ الاستحقاق',
+  'tasks.fieldReminder': 'التذكير',
+  'tasks.fieldRepeat': 'التكرار',
+  'tasks.priorityLow': 'أولوية منخفضة',
+  'tasks.priorityMedium': 'أولوية متوسطة',
+  'tasks.priorityHigh': 'أولوية عالية',
+  'tasks.badgeLow': 'منخفضة',
+  'tasks.badgeMedium': 'متوسطة',
+  'tasks.badgeHigh': 'عالية',
+  'tasks.overdueTag': '(متأخرة)',
+  'tasks.steps': '{done}/{total} خطوات',
+  'tasks.addSteps': 'إضافة خطوات',
+  'tasks.timeLeft': 'متبقٍ {time}',
+  'tasks.breakDown': 'قسّمها إلى خطوات',
+  'tasks.breakDownHint': 'اقترح خطوات صغيرة لهذه المهمة',
+  'tasks.breakDownUnavailable': 'يتطلب اتصالًا ومزوّد ذكاء اصطناعي',
+  'tasks.edit': 'تعديل المهمة',
+  'tasks.delete': 'حذف المهمة',
+  'tasks.emptyAll': 'لا توجد مهام بعد',
+  'tasks.emptyPending': 'لا توجد مهام قيد الانتظار',
+  'tasks.emptyCompleted': 'لا توجد مهام منجزة',
+  'tasks.emptyOverdue': 'لا توجد مهام متأخرة',
+  'tasks.emptyAllHint': 'ابدأ بإضافة مهمتك الأولى!',
+  'tasks.emptyFilteredHint': 'جرّب تغيير عامل التصفية.',
+  'tasks.added': 'تمت إضافة المهمة! 📝',
+  'tasks.completed': 'أُنجزت المهمة! 🎉',
+  'tasks.completedNext': 'أُنجزت المهمة! 🎉 الموعد التالي {date}',
+  'tasks.markedIncomplete': 'تم تعليم المهمة كغير منجزة',
+  'tasks.stepsAdded': {
+    zero: 'لم تُضف أي خطوات',
+    one: 'أُضيفت خطوة واحدة ✨',
+    two: 'أُضيفت خطوتان ✨',
+    few: 'أُضيفت {count} خطوات ✨',
+    many: 'أُضيفت {count} خطوة ✨',
+    other: 'أُضيفت {count} خطوة ✨',
+  },
+  'tasks.updated': 'تم تحديث المهمة',
+  'tasks.deleted': 'تم حذف المهمة',
+  'tasks.addFailed': 'تعذّرت إضافة المهمة',
+  'tasks.updateFailed': 'تعذّر تحديث المهمة',
+  'tasks.deleteFailed': 'تعذّر حذف المهمة',
+  'tasks.loadFailed': 'تعذّر تحميل المهام',
+
+  // Mood
+  'mood.title': 'متتبع المزاج',
+  'mood.subtitle': 'تابع رحلة صحتك العاطفية',
+  'mood.viewTrack': 'تسجيل',
+  'mood.viewInsights': 'رؤى',
+  'mood.prompt': 'كيف تشعر اليوم؟',
+  'mood.level1': 'سيئ جدًا',
+  'mood.level2': 'حزين',
+  'mood.level3': 'سيئ',
+  'mood.level4': 'مقبول',
+  'mood.level5': 'جيد',
+  'mood.level6': 'جيد جدًا',
+  'mood.level7': 'رائع',
+  'mood.level8': 'مذهل',
+  'mood.level9': 'ممتاز',
+  'mood.level10': 'مثالي',
+  'mood.scaleLow': 'سيئ جدًا (1)',
+  'mood.scaleHigh': 'مثالي (10)',
+  'mood.notesLabel': 'بماذا تفكر؟ (اختياري)',
+  'mood.notesPlaceholder': 'شارك أفكارك أو مشاعرك أو ما ميّز يومك...',
+  'mood.details': 'الطاقة والقلق والنوم والأنشطة',
+  'mood.activitiesLabel': 'ماذا كنت تفعل؟',
+  'mood.activityPlaceholder': 'أضف نشاطًا...',
+  'mood.tagsLabel': 'الوسوم',
+  'mood.tagPlaceholder': 'أضف وسمًا، مثل موعد نهائي أو عطلة...',
+  'mood.removeTag': 'إزالة {tag}',
+  'mood.addTag': 'إضافة',
+  'mood.save': 'حفظ المزاج',
+  'mood.energy': 'الطاقة',
+  'mood.anxiety': 'القلق',
+  'mood.sleepQuality': 'جودة النوم',
+  'mood.energyLow': 'مُنهَك',
+  'mood.energyHigh': 'مفعم بالطاقة',
+  'mood.anxietyLow': 'هادئ',
+  'mood.anxietyHigh': 'قلق جدًا',
+  'mood.sleepQualityLow': 'مضطرب',
+  'mood.sleepQualityHigh': 'مريح',
+  'mood.rate': 'قيّم',
+  'mood.weeklyAverage': 'المتوسط الأسبوعي',
+  'mood.entriesThisMonth': 'إدخالات هذا الشهر',
+  'mood.currentStreak': 'السلسلة الحالية',
+  'mood.bestStreak': 'أفضل سلسلة',
+  'mood.days': {
+    zero: '{count} يوم',
+    one: 'يوم واحد',
+    two: 'يومان',
+    few: '{count} أيام',
+    many: '{count} يومًا',
+    other: '{count} يوم',
+  },
+  'mood.freezeHint': 'اليوم المجمّد يحافظ على سلسلتك دون إدخال',
+  'mood.takeDayOff': {
+    zero: 'خذ اليوم إجازة (لم يتبقَّ شيء هذا الشهر)',
+    one: 'خذ اليوم إجازة (تبقّت واحدة هذا الشهر)',
+    two: 'خذ اليوم إجازة (تبقّت اثنتان هذا الشهر)',
+    few: 'خذ اليوم إجازة (تبقّت {count} هذا الشهر)',
+    many: 'خذ اليوم إجازة (تبقّت {count} هذا الشهر)',
+    other: 'خذ اليوم إجازة (تبقّت {count} هذا الشهر)',
+  },
+  'mood.undoFreeze': 'إلغاء التجميد',
+  'mood.toMilestone': {
+    one: 'يوم واحد حتى تبلغ {milestone} يومًا!',
+    two: 'يومان حتى تبلغ {milestone} يومًا!',
+    few: '{count} أيام حتى تبلغ {milestone} يومًا!',
+    many: '{count} يومًا حتى تبلغ {milestone} يومًا!',
+    other: '{count} يوم حتى تبلغ {milestone} يومًا!',
+  },
+  'mood.streakAmazing': {
+    one: 'رائع! سلسلة ليوم واحد!',
+    two: 'رائع! سلسلة ليومين!',
+    few: 'رائع! سلسلة لـ {count} أيام!',
+    many: 'رائع! سلسلة لـ {count} يومًا!',
+    other: 'رائع! سلسلة لـ {count} يوم!',
+  },
+  'mood.onlyToMilestone': {
+    one: 'يوم واحد فقط حتى محطة {milestone} يومًا!',
+    two: 'يومان فقط حتى محطة {milestone} يومًا!',
+    few: '{count} أيام فقط حتى محطة {milestone} يومًا!',
+    many: '{count} يومًا فقط حتى محطة {milestone} يومًا!',
+    other: '{count} يوم فقط حتى محطة {milestone} يومًا!',
+  },
+  'mood.recent': 'الإدخالات الأخيرة',
+  'mood.exercise': 'تمرين',
+  'mood.stoppedEarly': '(توقف مبكرًا)',
+  'mood.editNotes': 'تعديل الملاحظات',
+  'mood.deleteEntry': 'حذف الإدخال',
+  'mood.showWith': 'عرض الإدخالات التي تحتوي {label}',
+  'mood.empty': 'لا توجد إدخالات مزاج بعد. ابدأ بتتبع مشاعرك!',
+  'mood.emptyFiltered': 'لا توجد إدخالات حديثة تحتوي {labels}.',
+  'mood.saved': 'تم حفظ المزاج! 🎉',
+  'mood.updated': 'تم تحديث إدخال المزاج',
+  'mood.deleted': 'تم حذف إدخال المزاج',
+  'mood.saveFailed': 'تعذّر حفظ إدخال المزاج',
+  'mood.updateFailed': 'تعذّر تحديث إدخال المزاج',
+  'mood.deleteFailed': 'تعذّر حذف إدخال المزاج',
+  'mood.loadFailed': 'تعذّر تحميل سجل المزاج',
+
+  // Mood streaks
+  'streak.keepItUp': 'أنت تبني عادة رائعة في تتبع المزاج. واصل!',
+  'streak.current': 'رائع! لقد سجّلت مزاجك اليوم.',
+  'streak.frozen': 'سلسلتك مجمّدة اليوم. استمتع بإجازتك!',
+  'streak.pending': 'سجّل مزاجك اليوم لتحافظ على سلسلتك!',
+  'streak.broken': 'انقطعت سلسلتك. ابدأ من جديد اليوم!',
+  'streak.none': 'ابدأ رحلة تتبع مزاجك!',
+  'streak.noFreezesLeft': 'لم يتبقَّ لك أي تجميد للسلسلة هذا الشهر',
+  'streak.frozenToast': 'تم تجميد السلسلة لليوم ❄️',
+  'streak.unfrozenToast': 'تم إلغاء تجميد السلسلة',
+
+  // Settings
+  'settings.title': 'الإعدادات',
+  'settings.subtitle': 'خصّص تجربتك مع MindPal',
+  'settings.tabProfile': 'الملف الشخصي',
+  'settings.tabPreferences': 'التفضيلات',
+  'settings.tabNotifications': 'الإشعارات',
+  'settings.tabPrivacy': 'الخصوصية',
+  'settings.tabEncryption': 'التشفير',
+  'settings.tabMemory': 'الذاكرة',
+  'settings.tabImport': 'الاستيراد',
+  'settings.email': 'البريد الإلكتروني',
+  'settings.fullName': 'الاسم الكامل',
+  'settings.fullNamePlaceholder': 'أدخل اسمك الكامل',
+  'settings.phone': 'رقم الهاتف',
+  'settings.timezone': 'المنطقة الزمنية',
+  'settings.tzIndia': 'توقيت الهند الرسمي',
+  'settings.tzEastern': 'التوقيت الشرقي',
+  'settings.tzCentral': 'التوقيت المركزي',
+  'settings.tzMountain': 'توقيت المناطق الجبلية',
+  'settings.tzPacific': 'توقيت المحيط الهادئ',
+  'settings.saveProfile': 'حفظ الملف الشخصي',
+  'settings.profileSaved': 'تم حفظ الملف الشخصي!',
+  'settings.profileSaveFailed': 'تعذّر حفظ الملف الشخصي',
+  'settings.signInToSaveProfile': 'سجّل الدخول لحفظ ملفك الشخصي',
+  'settings.theme': 'المظهر',
+  'settings.themeLight': 'فاتح',
+  'settings.themeDark': 'داكن',
+  'settings.themeAuto': 'تلقائي',
+  'settings.language': 'اللغة',
+  'settings.languageAiOnly': '{language} (ردود الذكاء الاصطناعي فقط)',
+  'settings.languageHint': 'اللغات المعلّمة بـ "ردود الذكاء الاصطناعي فقط" تترجم ردود المساعد؛ ويبقى باقي التطبيق بالإنجليزية.',
+  'settings.voiceSpeed': 'سرعة صوت المساعد',
+  'settings.speedSlow': 'بطيئة',
+  'settings.speedNormal': 'عادية',
+  'settings.speedFast': 'سريعة',
+  'settings.personality': 'شخصية المساعد',
+  'settings.personalitySupportive': 'داعم ومهتم',
+  'settings.personalityProfessional': 'مهني',
+  'settings.personalityFriendly': 'ودود وعفوي',
+  'settings.personalityMotivational': 'محفّز',
+  'settings.savePreferences': 'حفظ التفضيلات',
+  'settings.preferencesSaved': 'تم حفظ التفضيلات!',
+  'settings.reminders': 'التذكيرات',
+  'settings.taskReminders': 'تذكيرات المهام',
+  'settings.taskRemindersHint': 'تنبيه في وقت التذكير المحدد لكل مهمة',
+  'settings.moodCheckIn': 'متابعة المزاج',
+  'settings.moodCheckInHint': 'تذكير يومي إذا لم تسجّل مزاجك',
+  'settings.dailySummary': 'الملخص اليومي',
+  'settings.dailySummaryHint': 'مهام اليوم وأي مهام متأخرة',
+  'settings.quietHours': 'ساعات الهدوء',
+  'settings.holdOvernight': 'تأجيل التذكيرات ليلًا',
+  'settings.holdOvernightHint': 'التذكيرات التي تقع في ساعات الهدوء تصل عند انتهائها ({zone})',
+  'settings.deviceTimeZone': 'المنطقة الزمنية لجهازك',
+  'settings.to': 'إلى',
+  'settings.browserNotifications': 'إشعارات المتصفح',
+  'settings.notificationsGranted': 'مفعّلة. ستصل التذكيرات حتى عندما يكون MindPal في علامة تبويب بالخلفية.',
+  'settings.notificationsDenied': 'محظورة في هذا المتصفح. ستظهر التذكيرات داخل التطبيق فقط.',
+  'settings.notificationsUnsupported': 'هذا المتصفح لا يدعم الإشعارات. ستظهر التذكيرات داخل التطبيق.',
+  'settings.notificationsDefault': 'تظهر التذكيرات داخل التطبيق. اسمح بالإشعارات لتصلك أيضًا عندما يكون MindPal في الخلفية.',
+  'settings.allow': 'السماح',
+  'settings.notificationsEnabled': 'تم تفعيل إشعارات المتصفح',
+  'settings.notificationsBlocked': 'الإشعارات محظورة - اسمح بها من إعدادات المتصفح',
+  'settings.notificationsFailed': 'تعذّر تفعيل إشعارات المتصفح',
+  'settings.dataPrivacy': 'البيانات والخصوصية',
+  'settings.dataSharing': 'مشاركة البيانات',
+  'settings.dataSharingHint': 'السماح بطلبات ذكاء اصطناعي إضافية ترسل رسائلك إلى مزوّد الذكاء الاصطناعي: فحص أمان ثانٍ للرسائل المقلقة، وتذكّر حقائق من المحادثات المحفوظة',
+  'settings.analytics': 'التحليلات',
+  'settings.analyticsHint': 'تسجيل أحداث جلسات الفيديو التي تعتمد عليها تقارير جلساتك',
+  'settings.voiceRecordings': 'التسجيلات الصوتية',
+  'settings.voiceRecordingsHint': 'الاحتفاظ بنصوص ما تقوله للمساعد الصوتي ونسخ مشفّرة من رسائلك',
+  'settings.saveConversations': 'حفظ المحادثات',
+  'settings.saveConversationsHint': 'الاحتفاظ بمحادثات المساعد الصوتي لتتمكن من متابعتها لاحقًا',
+  'settings.encryptedNotice': '🔒 تُشفَّر جميع البيانات الحساسة قبل حفظها. خصوصيتك أولويتنا.',
+  'settings.savePrivacy': 'حفظ إعدادات الخصوصية',
+  'settings.privacySaved': 'تم حفظ إعدادات الخصوصية!',
+  'settings.saved': 'تم حفظ الإعدادات!',
+  'settings.savedOffline': 'الإعدادات محفوظة على هذا الجهاز - ستتم مزامنتها عند الاتصال',
+  'settings.savedLocally': 'تم حفظ الإعدادات محليًا (Supabase غير مُعدّ)',
+  'settings.signInToSave': 'سجّل الدخول لحفظ الإعدادات',
+  'settings.loadFailed': 'تعذّر الاتصال بالخادم. يتم استخدام الإعدادات الافتراضية.',
+  'settings.createFailed': 'تعذّر الاتصال بالخادم. تم حفظ الإعدادات محليًا.',
+  // Mood analytics
+  'analytics.range30d': '30 يومًا',
+  'analytics.range90d': '3 أشهر',
+  'analytics.range180d': '6 أشهر',
+  'analytics.range365d': 'سنة',
+  'analytics.daily': 'يومي',
+  'analytics.weekly': 'أسبوعي',
+  'analytics.monthly': 'شهري',
+  'analytics.filterLabel': 'التصفية حسب الوسم أو النشاط',
+  'analytics.allEntries': 'كل الإدخالات',
+  'analytics.averageMood': 'متوسط المزاج',
+  'analytics.entries': 'الإدخالات',
+  'analytics.onDays': {
+    zero: 'في {count} يوم',
+    one: 'في يوم واحد',
+    two: 'في يومين',
+    few: 'في {count} أيام',
+    many: 'في {count} يومًا',
+    other: 'في {count} يوم',
+  },
+  'analytics.trend': 'الاتجاه خلال الفترة',
+  'analytics.steady': 'مستقر',
+  'analytics.empty': 'لا توجد إدخالات مزاج في هذه الفترة بعد.',
+  'analytics.overTime': 'المزاج عبر الوقت',
+  'analytics.average': 'المتوسط',
+  'analytics.movingAverageDay': {
+    one: 'متوسط متحرك ليوم واحد',
+    two: 'متوسط متحرك ليومين',
+    few: 'متوسط متحرك لـ{count} أيام',
+    many: 'متوسط متحرك لـ{count} يومًا',
+    other: 'متوسط متحرك لـ{count} يوم',
+  },
+  'analytics.movingAverageWeek': {
+    one: 'متوسط متحرك لأسبوع واحد',
+    two: 'متوسط متحرك لأسبوعين',
+    few: 'متوسط متحرك لـ{count} أسابيع',
+    many: 'متوسط متحرك لـ{count} أسبوعًا',
+    other: 'متوسط متحرك لـ{count} أسبوع',
+  },
+  'analytics.movingAverageMonth': {
+    one: 'متوسط متحرك لشهر واحد',
+    two: 'متوسط متحرك لشهرين',
+    few: 'متوسط متحرك لـ{count} أشهر',
+    many: 'متوسط متحرك لـ{count} شهرًا',
+    other: 'متوسط متحرك لـ{count} شهر',
+  },
+  'analytics.weekOf': 'أسبوع {date}',
+  'analytics.bucketEntries': {
+    zero: '{date}: {average}/10 ({count} إدخال)',
+    one: '{date}: {average}/10 (إدخال واحد)',
+    two: '{date}: {average}/10 (إدخالان)',
+    few: '{date}: {average}/10 ({count} إدخالات)',
+    many: '{date}: {average}/10 ({count} إدخالًا)',
+    other: '{date}: {average}/10 ({count} إدخال)',
+  },
+  'analytics.byWeekday': 'حسب يوم الأسبوع',
+  'analytics.byTimeOfDay': 'حسب وقت اليوم',
+  'analytics.mon': 'الإثنين',
+  'analytics.tue': 'الثلاثاء',
+  'analytics.wed': 'الأربعاء',
+  'analytics.thu': 'الخميس',
+  'analytics.fri': 'الجمعة',
+  'analytics.sat': 'السبت',
+  'analytics.sun': 'الأحد',
+  'analytics.morning': 'الصباح',
+  'analytics.afternoon': 'بعد الظهر',
+  'analytics.evening': 'المساء',
+  'analytics.night': 'الليل',
+  'analytics.checkIns': 'متوسطات التسجيلات',
+  'analytics.checkInsHint': 'من التسجيلات التي قيّمتها فيها. القلق الأقل أفضل.',
+  'analytics.tagsTitle': 'الوسوم والأنشطة',
+  'analytics.tagsHint': 'متوسط المزاج مع كل منها، والفرق عن الإدخالات التي لا تتضمنه.',
+  'analytics.activities': 'الأنشطة',
+  'analytics.tags': 'الوسوم',
+  'analytics.addToCompare': 'أضفها إلى بعض التسجيلات لمقارنتها.',
+  'analytics.correlationsTitle': 'ما الذي يرافق مزاجك',
+  'analytics.correlationsHint': 'بناءً على الأيام التي سجّلت فيها مزاجك. وجود صلة لا يعني أن أحدهما سبب الآخر.',
+  'analytics.tasksTitle': 'المهام المكتملة',
+  'analytics.tasksActivity': 'المهام المكتملة',
+  'analytics.chatsTitle': 'نشاط المحادثات',
+  'analytics.chatsActivity': 'رسائل المحادثة',
+  'analytics.loadingActivity': 'جارٍ تحميل النشاط...',
+  'analytics.daysWith': 'أيام معه',
+  'analytics.daysWithout': 'أيام بدونه',
+  'analytics.needMoreDays': 'سجّل مزاجك في {count} أيام على الأقل لترى علاقته بـ{activity}.',
+  'analytics.noVariation': 'لا يوجد تفاوت كافٍ في {activity} بعد للمقارنة.',
+  'analytics.noLink': 'لا يبدو أن مزاجك يتغير مع {activity}.',
+  'analytics.linkHigher': 'هناك صلة {strength}: يميل مزاجك إلى الارتفاع في الأيام التي تكثر فيها {activity}.',
+  'analytics.linkLower': 'هناك صلة {strength}: يميل مزاجك إلى الانخفاض في الأيام التي تكثر فيها {activity}.',
+  'analytics.strengthWeak': 'ضعيفة',
+  'analytics.strengthModerate': 'متوسطة',
+  'analytics.strengthStrong': 'قوية',
+
+  // Achievements
+  'achievements.title': 'الإنجازات',
+  'achievements.earned': '{unlocked} من {total} محققة',
+  'achievements.showAll': 'عرض كل الشارات',
+  'achievements.hide': 'إخفاء الشارات',
+  'achievements.unlocked': {
+    one: 'تم فتح إنجاز',
+    two: 'تم فتح إنجازين',
+    few: 'تم فتح {count} إنجازات',
+    many: 'تم فتح {count} إنجازًا',
+    other: 'تم فتح {count} إنجاز',
+  },
+  'achievements.nice': 'رائع!',
+  'achievements.firstStep': 'الخطوة الأولى',
+  'achievements.gettingThingsDone': 'إنجاز الأمور',
+  'achievements.taskTamer': 'مروّض المهام',
+  'achievements.centurion': 'المئوي',
+  'achievements.unstoppable': 'لا يمكن إيقافك',
+  'achievements.checkingIn': 'أول تسجيل',
+  'achievements.selfAware': 'واعٍ بذاتك',
+  'achievements.moodMapper': 'راسم خريطة المزاج',
+  'achievements.innerCompass': 'البوصلة الداخلية',
+  'achievements.yearOfFeelings': 'عام من المشاعر',
+  'achievements.streak': {
+    one: 'سلسلة يوم واحد',
+    two: 'سلسلة يومين',
+    few: 'سلسلة {count} أيام',
+    many: 'سلسلة {count} يومًا',
+    other: 'سلسلة {count} يوم',
+  },
+  'achievements.helloThere': 'مرحبًا',
+  'achievements.goodListener': 'مستمع جيد',
+  'achievements.deepTalker': 'محاور عميق',
+  'achievements.faceToFace': 'وجهًا لوجه',
+  'achievements.regularVisitor': 'زائر دائم',
+  'achievements.trustedCompanion': 'رفيق موثوق',
+  'achievements.describeTasks': {
+    one: 'أكمل مهمة واحدة',
+    two: 'أكمل مهمتين',
+    few: 'أكمل {count} مهام',
+    many: 'أكمل {count} مهمة',
+    other: 'أكمل {count} مهمة',
+  },
+  'achievements.describeCheckIns': {
+    one: 'سجّل مزاجك مرة واحدة',
+    two: 'سجّل مزاجك مرتين',
+    few: 'سجّل مزاجك {count} مرات',
+    many: 'سجّل مزاجك {count} مرة',
+    other: 'سجّل مزاجك {count} مرة',
+  },
+  'achievements.describeStreak': {
+    one: 'سجّل مزاجك يومًا واحدًا',
+    two: 'سجّل مزاجك يومين متتاليين',
+    few: 'سجّل مزاجك {count} أيام متتالية',
+    many: 'سجّل مزاجك {count} يومًا متتاليًا',
+    other: 'سجّل مزاجك {count} يوم متتالٍ',
+  },
+  'achievements.describeChats': {
+    one: 'ابدأ محادثة واحدة',
+    two: 'ابدأ محادثتين',
+    few: 'ابدأ {count} محادثات',
+    many: 'ابدأ {count} محادثة',
+    other: 'ابدأ {count} محادثة',
+  },
+  'achievements.describeVideos': {
+    one: 'أجرِ جلسة فيديو واحدة',
+    two: 'أجرِ جلستي فيديو',
+    few: 'أجرِ {count} جلسات فيديو',
+    many: 'أجرِ {count} جلسة فيديو',
+    other: 'أجرِ {count} جلسة فيديو',
+  },
+
+  // Task editing, quick add and breakdown
+  'tasks.titlePlaceholder': 'عنوان المهمة',
+  'tasks.save': 'حفظ',
+  'tasks.quickAddPlaceholder': 'إضافة سريعة: "{example}"',
+  'tasks.quickAddButton': 'إضافة',
+  'tasks.quickAddNoTitle': 'أضف عنوانًا',
+  'tasks.renameStep': 'انقر لإعادة التسمية',
+  'tasks.deleteStep': 'حذف الخطوة',
+  'tasks.addStepPlaceholder': 'أضف خطوة...',
+  'tasks.estimateMinutes': '{minutes} د',
+  'tasks.estimateHours': '{hours} س',
+  'tasks.estimateHoursMinutes': '{hours} س {minutes} د',
+  'breakdown.title': 'الخطوات المقترحة',
+  'breakdown.total': '· حوالي {time}',
+  'breakdown.loading': 'جارٍ التقسيم...',
+  'breakdown.minutes': 'الدقائق',
+  'breakdown.minutesShort': 'د',
+  'breakdown.moveUp': 'نقل لأعلى',
+  'breakdown.moveDown': 'نقل لأسفل',
+  'breakdown.remove': 'إزالة الخطوة',
+  'breakdown.addStep': 'أضف خطوة',
+  'breakdown.adding': 'جارٍ الإضافة...',
+  'breakdown.accept': 'أضف هذه الخطوات',
+  'breakdown.retry': 'حاول مرة أخرى',
+  'breakdown.discard': 'تجاهل',
+  'breakdown.notConfigured': 'الذكاء الاصطناعي غير مُعد، لذا لا يمكن تقسيم المهام',
+  'breakdown.noSteps': 'لم نتمكن من اقتراح خطوات لهذه المهمة - جرّب إضافة وصف',
+  'breakdown.failed': 'تعذّر تقسيم المهمة',
+
+  // Repeating tasks
+  'recurrence.none': 'لا تتكرر',
+  'recurrence.custom': 'مخصص (RRULE)',
+  'recurrence.hint': 'FREQ (DAILY, WEEKLY, MONTHLY, YEARLY) مع INTERVAL أو BYDAY أو COUNT أو UNTIL اختياريًا',
+  'recurrence.unsupported': 'هذه القاعدة غير مدعومة',
+  'recurrence.presetDaily': 'كل يوم',
+  'recurrence.presetWeekdays': 'كل يوم عمل',
+  'recurrence.presetWeekly': 'كل أسبوع',
+  'recurrence.presetBiweekly': 'كل أسبوعين',
+  'recurrence.presetMonthly': 'كل شهر',
+  'recurrence.everyDay': { one: 'كل يوم', two: 'كل يومين', few: 'كل {count} أيام', many: 'كل {count} يومًا', other: 'كل {count} يوم' },
+  'recurrence.everyWeek': {
+    one: 'كل أسبوع',
+    two: 'كل أسبوعين',
+    few: 'كل {count} أسابيع',
+    many: 'كل {count} أسبوعًا',
+    other: 'كل {count} أسبوع',
+  },
+  'recurrence.everyMonth': { one: 'كل شهر', two: 'كل شهرين', few: 'كل {count} أشهر', many: 'كل {count} شهرًا', other: 'كل {count} شهر' },
+  'recurrence.everyYear': { one: 'كل سنة', two: 'كل سنتين', few: 'كل {count} سنوات', many: 'كل {count} سنة', other: 'كل {count} سنة' },
+  'recurrence.onDays': '{rule} أيام {days}',
+  'recurrence.timesLeft': {
+    one: '{rule}، تبقّت مرة واحدة',
+    two: '{rule}، تبقّت مرتان',
+    few: '{rule}، تبقّت {count} مرات',
+    many: '{rule}، تبقّت {count} مرة',
+    other: '{rule}، تبقّت {count} مرة',
+  },
+  'recurrence.until': '{rule}، حتى {date}',
+
+  // Reminders
+  'reminders.taskTitle': 'تذكير بمهمة',
+  'reminders.taskDue': '{title} - موعدها {date}',
+  'reminders.moodTitle': 'كيف تشعر؟',
+  'reminders.moodBody': 'لم تسجّل مزاجك اليوم. تسجيل سريع يستغرق بضع ثوانٍ.',
+  'reminders.summaryTitle': 'يومك في لمحة',
+  'reminders.dueToday': {
+    one: 'مهمة واحدة مستحقة اليوم',
+    two: 'مهمتان مستحقتان اليوم',
+    few: '{count} مهام مستحقة اليوم',
+    many: '{count} مهمة مستحقة اليوم',
+    other: '{count} مهمة مستحقة اليوم',
+  },
+  'reminders.nothingDue': 'لا شيء مستحق اليوم',
+  'reminders.overdue': '{count} متأخرة',
+  'reminders.open': '{count} مفتوحة إجمالًا',
+  'reminders.summaryBody': '{parts}.',
+
+  // Chat sessions
+  'chat.loadFailed': 'تعذّر تحميل جلسات المحادثة',
+  'chat.messagesFailed': 'تعذّر تحميل الرسائل',
+  'chat.created': 'تم إنشاء جلسة محادثة جديدة!',
+  'chat.createFailed': 'تعذّر إنشاء جلسة جديدة',
+  'chat.saveFailed': 'تعذّر حفظ الرسالة',
+  'chat.deleted': 'تم حذف جلسة المحادثة',
+  'chat.deleteFailed': 'تعذّر حذف الجلسة',
+  'chat.renamed': 'تم تحديث عنوان الجلسة',
+  'chat.renameFailed': 'تعذّر تحديث العنوان',
+  'chat.reportOffline': 'لا يمكن إنشاء التقرير - لا يوجد اتصال بالخادم',
+  'chat.reportReady': 'تم إنشاء تقرير المزاج!',
+  'chat.reportFailed': 'تعذّر إنشاء تقرير المزاج',
+  'chat.linkCopied': 'تم نسخ رابط المحادثة إلى الحافظة!',
+  'chat.shareFailed': 'تعذّرت مشاركة الجلسة',
+  'chat.savedChats': 'المحادثات المحفوظة',
+  'chat.noSavedChats': 'لا توجد محادثات محفوظة بعد. ستظهر محادثتك التالية هنا.',
+  'chat.saveTitle': 'حفظ العنوان',
+  'chat.rename': 'إعادة التسمية',
+  'chat.delete': 'حذف',
+  'chat.keep': 'إبقاء',
+  'chat.confirmDelete': 'حذف هذه المحادثة؟',
+
+  // Voice
+  'voice.playFailed': 'تعذّر تشغيل الصوت',
+  'voice.noApiKey': 'مفتاح ElevenLabs API غير مُعد',
+  'voice.speechOffline': 'يتطلب تحويل النص إلى كلام اتصالًا بالإنترنت',
+  'voice.speechFailed': 'تعذّر إنشاء الكلام',
+  'voice.listening': 'جارٍ الاستماع... تحدّث الآن!',
+  'voice.recognitionOffline': 'يتطلب التعرف على الكلام اتصالًا بالإنترنت',
+  'voice.recognitionUnsupported': 'هذا المتصفح لا يدعم التعرف على الكلام',
+  'voice.recognitionFailed': 'فشل التعرف على الكلام',
+  'voice.errorNetwork': 'خطأ في الشبكة: تحقق من اتصالك بالإنترنت وحاول مرة أخرى',
+  'voice.errorNotAllowed': 'تم رفض الوصول إلى الميكروفون. اسمح بأذونات الميكروفون وحاول مرة أخرى',
+  'voice.errorNoSpeech': 'لم يُكتشف أي كلام. تحدّث بوضوح وحاول مرة أخرى',
+  'voice.errorAudioCapture': 'الميكروفون غير موجود أو لا يعمل. تحقق من الميكروفون',
+  'voice.errorService': 'خدمة التعرف على الكلام غير متاحة. حاول لاحقًا',
+  'voice.errorGrammar': 'خطأ في قواعد التعرف على الكلام. حاول التحدث مرة أخرى',
+  'voice.errorLanguage': 'اللغة غير مدعومة في التعرف على الكلام',
+  'voice.errorOther': 'خطأ في التعرف على الكلام: {error}',
+  'voice.title': 'الرفيق الصوتي الذكي',
+  'voice.subtitlePrivate': 'محادثات صوتية خاصة (لا تُحفَظ)',
+  'voice.subtitleSaved': 'تُحفَظ المحادثات في حسابك',
+  'voice.subtitleTypedSaved': 'تُحفَظ الرسائل المكتوبة في حسابك، وتبقى المنطوقة خاصة',
+  'voice.savingOn': 'يتم حفظ المحادثات - انقر للوضع الخاص',
+  'voice.savingOff': 'الوضع الخاص - انقر لحفظ المحادثات',
+  'voice.autoSpeakOn': 'النطق التلقائي مفعّل',
+  'voice.autoSpeakOff': 'النطق التلقائي معطّل',
+  'voice.ready': 'الصوت جاهز',
+  'voice.newChat': 'محادثة جديدة',
+  'voice.continuousOn': 'وضع الصوت المستمر مفعّل',
+  'voice.continuousOff': 'وضع الصوت المستمر متوقف',
+  'voice.startVoiceChat': 'بدء المحادثة الصوتية',
+  'voice.stopVoiceChat': 'إيقاف المحادثة الصوتية',
+  'voice.noInternet': 'لا يوجد اتصال بالإنترنت',
+  'voice.noInternetHint': 'التعرّف على الصوت والمحادثة الذكية غير متاحين دون اتصال بالإنترنت.',
+  'voice.limited': 'ميزات الصوت محدودة',
+  'voice.limitedHint': 'مفتاح ElevenLabs غير مُعدّ. ميزات تحويل النص إلى كلام غير متاحة.',
+  'voice.emptySaved': 'ابدأ محادثة! ستُحفَظ لتتمكن من متابعتها لاحقًا.',
+  'voice.emptyPrivate': 'ابدأ محادثة خاصة! لا تُحفَظ الرسائل.',
+  'voice.aiOffline': 'تتطلب ميزات الذكاء الاصطناعي اتصالًا بالإنترنت',
+  'voice.undo': 'تراجع',
+  'voice.undone': 'تم التراجع',
+  'voice.stop': 'إيقاف',
+  'voice.speak': 'نطق',
+  'voice.responding': 'الذكاء الاصطناعي يرد...',
+  'voice.thinking': 'الذكاء الاصطناعي يفكر...',
+  'voice.stopGenerating': 'إيقاف التوليد',
+  'voice.placeholder': 'اكتب رسالة، أو "remind me to..." / "log my mood as..."',
+  'voice.placeholderOffline': 'دون اتصال - لا يزال بإمكانك إضافة مهام أو تسجيل مزاجك',
+  'voice.send': 'إرسال',
+  'voice.voiceUnavailable': 'تتطلب ميزات الصوت اتصالًا بالإنترنت ومفتاح API',
+  'voice.startVoice': 'بدء محادثة صوتية',
+  'voice.listeningShort': 'جارٍ الاستماع...',
+  'voice.voice': 'صوت',
+  'voice.generateReport': 'إنشاء تقرير مزاج بالذكاء الاصطناعي',
+  'voice.report': 'تقرير',
+  'voice.clearConversation': 'مسح المحادثة',
+  'voice.reportTitle': 'تقرير تحليل المزاج من الذكاء الاصطناعي',
+  'voice.overallMood': 'المزاج العام:',
+  'voice.stressLevel': 'مستوى التوتر:',
+  'voice.emotions': 'المشاعر المكتشفة:',
+  'voice.weekCheckIns': 'تسجيلاتك هذا الأسبوع:',
+  'voice.weekAverage': {
+    one: 'تسجيل واحد، متوسط المزاج {mood}/10',
+    two: 'تسجيلان، متوسط المزاج {mood}/10',
+    few: '{count} تسجيلات، متوسط المزاج {mood}/10',
+    many: '{count} تسجيلًا، متوسط المزاج {mood}/10',
+    other: '{count} تسجيل، متوسط المزاج {mood}/10',
+  },
+  'voice.weekEnergy': 'الطاقة {value}',
+  'voice.weekAnxiety': 'القلق {value}',
+  'voice.weekSleep': 'النوم {value}',
+  'voice.mostLogged': 'الأكثر تسجيلًا: {items}',
+  'voice.summary': 'الملخص:',
+  'voice.keyConcerns': 'المخاوف الرئيسية:',
+  'voice.positiveIndicators': 'المؤشرات الإيجابية:',
+  'voice.recommendations': 'توصيات الذكاء الاصطناعي:',
+  'voice.none': 'لا يوجد',
+  'voice.tryIt': 'جرّبه',
+  'voice.confidence': '{percent}٪',
+  'voice.confidenceOffline': '{percent}٪ (تحليل الكلمات المفتاحية دون اتصال)',
+  'voice.copyReport': 'نسخ التقرير',
+  'voice.reportCopied': 'تم نسخ التقرير إلى الحافظة!',
+  'voice.privacyTitle': 'الخصوصية أولًا:',
+  'voice.privacySaved': 'الحفظ مفعّل، لذا تُخزَّن محادثاتك في حسابك ويمكن حذفها من الشريط الجانبي في أي وقت. عد إلى الوضع الخاص لإيقاف الحفظ.',
+  'voice.privacyPrivate': 'محادثاتك الصوتية خاصة تمامًا ولا تُحفَظ في أي قاعدة بيانات. تبقى فقط بيانات مؤقتة للجلسة في الذاكرة كسياق أثناء محادثتك الحالية.',
+  'voice.poweredBy': 'توليد الصوت بتقنية ElevenLabs.',
+  'voice.replyCutOff': 'انقطع الرد - يرجى المحاولة مرة أخرى',
+  'voice.taskAdded': 'تمت إضافة المهمة',
+  'voice.moodLogged': 'تم تسجيل المزاج',
+  'voice.taskRemoved': 'تمت إزالة المهمة',
+  'voice.moodRemoved': 'تمت إزالة تسجيل المزاج',
+  'voice.commandFailedSpoken': 'عذرًا، لم أتمكن من حفظ ذلك.',
+  'voice.commandFailed': 'عذرًا، لم أتمكن من حفظ ذلك. يرجى المحاولة مرة أخرى.',
+  'voice.sendOffline': 'تعذّر إرسال الرسالة - لا يوجد اتصال بالإنترنت',
+  'voice.replyGenerated': 'تم إنشاء رد الذكاء الاصطناعي!',
+  'voice.requestFailed': 'تعذّرت معالجة طلبك',
+  'voice.replyCancelled': 'تم إلغاء الرد',
+  'voice.featuresOffline': 'تتطلب ميزات الصوت اتصالًا بالإنترنت',
+  'voice.inputFailed': 'فشل الإدخال الصوتي',
+  'voice.newConversation': 'بدأت محادثة جديدة',
+  'voice.nothingToAnalyze': 'لا توجد محادثة لتحليلها',
+  'voice.reportGenerated': 'تم إنشاء تقرير الذكاء الاصطناعي بنجاح!',
+  'voice.reportGeneratedOffline': 'تم إنشاء التقرير بتحليل دون اتصال',
+  'voice.speechUnavailable': 'تحويل النص إلى كلام غير متاح',
+  'voice.conversationCleared': 'تم مسح المحادثة',
+
+  // Voice commands
+  'intents.loggedMood': 'سجّلتُ مزاجك {mood} من 10 ({label}).',
+  'intents.loggedMoodWithNote': 'سجّلتُ مزاجك {mood} من 10 ({label}) مع الملاحظة «{note}».',
+  'intents.addedTask': 'أضفتُ «{title}» إلى مهامك.',
+  'intents.addedTaskFor': 'أضفتُ «{title}» إلى مهامك ليوم {when}.',
+  'intents.addedReminder': 'أضفتُ «{title}» إلى مهامك ليوم {when} وسأذكّرك حينها.',
+
+  // Video
+  'video.mediaFailed': 'تعذّر الوصول إلى الكاميرا أو الميكروفون',
+  'video.noLingering': 'لا توجد جلسات عالقة في قاعدة البيانات',
+  'video.cleared': {
+    one: 'تم إنهاء جلسة عالقة واحدة',
+    two: 'تم إنهاء جلستين عالقتين',
+    few: 'تم إنهاء {count} جلسات عالقة',
+    many: 'تم إنهاء {count} جلسة عالقة',
+    other: 'تم إنهاء {count} جلسة عالقة',
+  },
+  'video.clearFailed': 'تعذّر إنهاء الجلسات العالقة',
+  'video.noApiKey': 'مفتاح Tavus API غير مُعد',
+  'video.offline': 'تتطلب جلسات الفيديو اتصالًا بالإنترنت',
+  'video.alreadyActive': 'لديك جلسة فيديو نشطة بالفعل. أنهِ جلستك الحالية قبل بدء جلسة جديدة، أو حاول مرة أخرى بعد بضع دقائق إن كنت تعتقد أنه لا توجد جلسة نشطة.',
+  'video.createFailed': 'تعذّر إنشاء جلسة الفيديو',
+  'video.signIn': 'سجّل الدخول لبدء جلسة فيديو',
+  'video.started': 'بدأت جلسة الفيديو!',
+  'video.startFailed': 'تعذّر بدء جلسة الفيديو',
+  'video.ended': 'انتهت جلسة الفيديو',
+  'video.endFailed': 'تعذّر إنهاء الجلسة بشكل صحيح',
+  'video.title': 'استشارة وجهًا لوجه مع الذكاء الاصطناعي',
+  'video.subtitle': 'أجرِ محادثة فيديو شخصية مع رفيقك الذكي للصحة النفسية',
+  'video.connectionRequired': 'يلزم الاتصال',
+  'video.connectionRequiredHint': 'تتطلب استشارة الفيديو اتصالًا ثابتًا بالإنترنت',
+  'video.accessRequired': 'يلزم الوصول إلى الكاميرا والميكروفون',
+  'video.permissionDenied': 'تم رفض الوصول إلى الكاميرا والميكروفون. يرجى منح الأذونات لاستخدام استشارة الفيديو.',
+  'video.noDevices': 'لم يتم العثور على كاميرا أو ميكروفون. يرجى توصيل كاميرا وميكروفون لاستخدام استشارة الفيديو.',
+  'video.noDevicesToast': 'لم يتم اكتشاف كاميرا أو ميكروفون',
+  'video.devicesBusy': 'الكاميرا أو الميكروفون قيد الاستخدام من تطبيق آخر.',
+  'video.devicesBusyToast': 'الكاميرا أو الميكروفون قيد الاستخدام من تطبيق آخر',
+  'video.devicesUnavailable': 'تعذّر الوصول إلى الكاميرا والميكروفون. يرجى التحقق من إعدادات جهازك.',
+  'video.devicesUnavailableToast': 'تعذّر الوصول إلى الكاميرا أو الميكروفون',
+  'video.accessGranted': 'تم منح الوصول إلى الكاميرا والميكروفون!',
+  'video.serverUnreachable': 'تعذّر الاتصال بالخادم',
+  'video.openedInWindow': 'تم فتح استشارة الفيديو في نافذة جديدة!',
+  'video.popupBlocked': 'تم حظر النافذة المنبثقة! يرجى السماح بالنوافذ المنبثقة والمحاولة مرة أخرى، أو انقر على الرابط أدناه.',
+  'video.sessionCleared': 'تم مسح الجلسة. يمكنك الآن بدء جلسة جديدة.',
+  'video.sessionClearFailed': 'تعذّر مسح الجلسة. يرجى المحاولة مرة أخرى.',
+  'video.supportiveDescription': 'متعاطف ومتفهّم',
+  'video.professionalDescription': 'أسلوب سريري ومنظّم',
+  'video.friendlyDescription': 'دافئ وحواري',
+  'video.motivationalDescription': 'ملهم ومشجّع',
+  'video.tryAgain': 'حاول مرة أخرى',
+  'video.sessionActive': 'الجلسة نشطة',
+  'video.runningElsewhere': 'استشارتك مع الذكاء الاصطناعي تعمل في نافذة منفصلة',
+  'video.openWindow': 'فتح نافذة الجلسة',
+  'video.openWindowHint': 'إذا لم تُفتح النافذة تلقائيًا، فانقر على الزر أعلاه',
+  'video.connectedToTavus': 'متصل بـ Tavus',
+  'video.ready': 'الرفيق الذكي جاهز',
+  'video.readyHint': 'ابدأ جلسة لبدء استشارة الفيديو',
+  'video.opensInWindow': 'ستُفتح الجلسة في نافذة جديدة',
+  'video.externalWindow': 'نافذة خارجية',
+  'video.cameraRequired': 'يلزم الوصول إلى الكاميرا',
+  'video.cameraOff': 'إيقاف الكاميرا',
+  'video.cameraOn': 'تشغيل الكاميرا',
+  'video.microphoneRequired': 'يلزم الوصول إلى الميكروفون',
+  'video.mute': 'كتم الميكروفون',
+  'video.unmute': 'إلغاء كتم الميكروفون',
+  'video.endSession': 'إنهاء الجلسة',
+  'video.startSession': 'بدء الجلسة',
+  'video.starting': 'جارٍ البدء...',
+  'video.sessionInfo': 'معلومات الجلسة',
+  'video.maxDuration': 'المدة القصوى:',
+  'video.minutes': {
+    one: 'دقيقة واحدة',
+    two: 'دقيقتان',
+    few: '{count} دقائق',
+    many: '{count} دقيقة',
+    other: '{count} دقيقة',
+  },
+  'video.timeLeft': 'الوقت المتبقي:',
+  'video.status': 'الحالة:',
+  'video.statusActive': 'نشطة (نافذة خارجية)',
+  'video.statusInactive': 'غير نشطة',
+  'video.urgentHelp': 'تحتاج إلى مساعدة عاجلة؟',
+  'video.notCrisisService': 'الذكاء الاصطناعي ليس خدمة أزمات. إذا كنت تفكر في إيذاء نفسك، فتحدّث إلى شخص الآن.',
+  'video.crisisResources': 'موارد الأزمات',
+  'video.tipsTitle': 'نصائح لجلسات أفضل',
+  'video.tipWindow': 'ستُفتح الجلسة في نافذة أو علامة تبويب جديدة',
+  'video.tipLighting': 'احرص على إضاءة جيدة لوجهك',
+  'video.tipHeadphones': 'استخدم سماعات الرأس لجودة صوت أفضل',
+  'video.tipQuiet': 'اختر مكانًا هادئًا وخاصًا',
+  'video.tipSpeakClearly': 'تحدّث بوضوح وبسرعة عادية',
+  'video.tipOpen': 'كن منفتحًا وصادقًا مع الذكاء الاصطناعي',
+  'video.sessionError': 'خطأ في الجلسة',
+  'video.clearSession': 'مسح الجلسة',
+  'video.clearing': 'جارٍ المسح...',
+  'video.allowAccess': 'لاستخدام استشارة الفيديو، يرجى السماح بالوصول إلى الكاميرا والميكروفون.',
+  'video.howToEnable': 'كيفية تفعيل الأذونات:',
+  'video.permissionStepIcon': 'ابحث عن رمز الكاميرا أو الميكروفون في شريط العنوان بالمتصفح',
+  'video.permissionStepAllow': 'انقر عليه واختر "سماح"',
+  'video.permissionStepSettings': 'أو انتقل إلى إعدادات المتصفح وفعّل الكاميرا والميكروفون لهذا الموقع',
+  'video.permissionStepRefresh': 'حدّث الصفحة إذا لزم الأمر',
+
+  // Crisis resources
+  'crisis.title': 'لست مضطرًا لمواجهة هذا وحدك',
+  'crisis.intro': 'يبدو أن الأمور صعبة جدًا الآن. قد يساعدك التحدث إلى شخص مدرَّب، وهذه الخدمات مجانية وسرية.',
+  'crisis.immediateDanger': 'إذا كنت في خطر داهم، فاتصل بالرقم {number} الآن.',
+  'crisis.localEmergencyNumber': 'رقم الطوارئ المحلي',
+  'crisis.call': 'اتصل بـ {number}',
+  'crisis.text': 'راسل {number}',
+  'crisis.website': 'الموقع الإلكتروني',
+  'crisis.showingFor': 'نعرض خدمات {region} بناءً على منطقتك الزمنية. لست هناك الآن؟',
+  'crisis.findHelpline': 'ابحث عن خط مساعدة في بلدك',
+  'crisis.understand': 'فهمت',
+  'crisis.regionUs': 'الولايات المتحدة',
+  'crisis.regionCa': 'كندا',
+  'crisis.regionGb': 'المملكة المتحدة',
+  'crisis.regionIe': 'أيرلندا',
+  'crisis.regionIn': 'الهند',
+  'crisis.regionAu': 'أستراليا',
+  'crisis.regionNz': 'نيوزيلندا',
+  'crisis.regionEs': 'إسبانيا',
+  'crisis.regionMx': 'المكسيك',
+  'crisis.regionIntl': 'دولي',
+  'crisis.us988': 'دعم مجاني وسري على مدار الساعة عبر الاتصال أو الرسائل',
+  'crisis.usCrisisTextLine': 'أرسل HOME للتواصل مع مستشار أزمات مدرَّب',
+  'crisis.ca988': 'اتصل أو راسل في أي وقت، بالإنجليزية أو الفرنسية',
+  'crisis.ukSamaritans': 'اتصال مجاني على مدار الساعة، مهما كان ما تمر به',
+  'crisis.ukShout': 'أرسل SHOUT لتحصل على دعم مجاني وسري على مدار الساعة',
+  'crisis.ieSamaritans': 'اتصال مجاني على مدار الساعة',
+  'crisis.ieTextAboutIt': 'أرسل HELLO لتحصل على دعم مجاني على مدار الساعة',
+  'crisis.inTeleManas': 'خط وطني مجاني للصحة النفسية، على مدار الساعة وبلغات عديدة',
+  'crisis.auLifeline': 'دعم في الأزمات ووقاية من الانتحار على مدار الساعة',
+  'crisis.nz1737': 'اتصل أو راسل 1737 للتحدث مع مستشار مدرَّب',
+  'crisis.es024': 'دعم مجاني على مدار 24 ساعة لمن تراودهم أفكار انتحارية',
+  'crisis.mxLineaDeLaVida': 'دعم عاطفي مجاني على مدار 24 ساعة',
+  'crisis.intlFindAHelpline': 'خطوط مساعدة مجانية وسرية في بلدك',
+
+  // Session reports
+  'reports.title': 'تقرير جلسة الفيديو',
+  'reports.generatedAt': 'أُنشئ في {date}',
+  'reports.generatedBy': 'أنشأه رفيق الذكاء الاصطناعي MindPal',
+  'reports.shareTitle': 'تقرير جلسة فيديو MindPal - {date}',
+  'reports.notAvailable': 'غير متاح',
+  'reports.sessionDetails': 'تفاصيل الجلسة',
+  'reports.duration': 'المدة',
+  'reports.quality': 'الجودة',
+  'reports.engagement': 'التفاعل',
+  'reports.engagementLevel': 'مستوى التفاعل',
+  'reports.technicalIssues': 'المشكلات التقنية',
+  'reports.interactions': 'التفاعلات',
+  'reports.moodAnalysis': 'تحليل المزاج',
+  'reports.overallSentiment': 'الشعور العام',
+  'reports.stressIndicators': 'مؤشرات التوتر',
+  'reports.emotionalState': 'الحالة العاطفية',
+  'reports.confidenceScore': 'درجة الثقة',
+  'reports.engagementMetrics': 'مقاييس التفاعل',
+  'reports.completionRate': 'نسبة الإكمال',
+  'reports.userSatisfaction': 'رضا المستخدم',
+  'reports.aiQuality': 'جودة الذكاء الاصطناعي',
+  'reports.recommendations': 'التوصيات',
+  'reports.share': 'مشاركة التقرير',
+  'reports.exportJson': 'تصدير بصيغة JSON',
+  'reports.exportText': 'تصدير كنص',
+  'reports.overview': 'نظرة عامة على الجلسة',
+  'reports.notAssessed': 'لم يُقيَّم',
+  'reports.heuristic': 'مُقدَّر من بيانات الجلسة دون تحليل بالذكاء الاصطناعي.',
+  'reports.totalInteractions': 'إجمالي التفاعلات',
+  'reports.technicalPerformance': 'الأداء التقني',
+  'reports.avgResponseTime': 'متوسط وقت الاستجابة',
+  'reports.analyticsEvents': 'أحداث التحليلات',
+  'reports.timeline': 'الخط الزمني للجلسة',
+  'reports.started': 'البدء:',
+  'reports.ended': 'الانتهاء:',
+  'reports.reportGenerated': 'إنشاء التقرير:',
+  'reports.ratingPositive': 'إيجابي',
+  'reports.ratingNeutral': 'محايد',
+  'reports.ratingNegative': 'سلبي',
+  'reports.ratingLow': 'منخفض',
+  'reports.ratingMedium': 'متوسط',
+  'reports.ratingHigh': 'مرتفع',
+  'reports.ratingImproving': 'في تحسّن',
+  'reports.ratingStable': 'مستقر',
+  'reports.ratingConcerning': 'مقلق',
+  'reports.ratingExcellent': 'ممتاز',
+  'reports.ratingGood': 'جيد',
+  'reports.ratingFair': 'مقبول',
+  'reports.ratingBrief': 'قصير',
+  'reports.ratingPoor': 'ضعيف',
+  'reports.offline': 'لا يمكن إنشاء التقرير - لا يوجد اتصال بالخادم',
+  'reports.generating': 'جارٍ إنشاء تقرير الجلسة بالذكاء الاصطناعي...',
+  'reports.generated': 'تم إنشاء تقرير الجلسة بنجاح! 🎉',
+  'reports.generateFailed': 'تعذّر إنشاء تقرير الجلسة',
+  'reports.loadFailed': 'تعذّر تحميل تقارير الجلسات',
+  'reports.copied': 'تم نسخ تفاصيل التقرير إلى الحافظة!',
+  'reports.shareFailed': 'تعذّرت مشاركة التقرير',
+  'reports.exported': 'تم تصدير التقرير بصيغة {format}',
+  'reports.exportFailed': 'تعذّر تصدير التقرير',
+
+  // Journal
+  'journal.saveFailed': 'تعذّر حفظ إدخال اليوميات',
+  'journal.updateFailed': 'تعذّر تحديث إدخال اليوميات',
+  'journal.deleteFailed': 'تعذّر حذف إدخال اليوميات',
+  'journal.loadFailed': 'تعذّر تحميل اليوميات',
+  'journal.title': 'اليوميات',
+  'journal.privateIntro': 'خاص ومشفّر. أنت وحدك من يستطيع قراءة ما تكتبه هنا.',
+  'journal.setPassphraseIntro': 'عيّن عبارة مرور لتبدأ الكتابة. ستُشفَّر المدخلات بعدها بمفتاح لا يملكه أحد سواك.',
+  'journal.legacyWarning': 'مدخلاتك القديمة محمية بمفتاح أضعف. عيّن عبارة مرور لإعادة تشفيرها وكتابة مدخلات جديدة.',
+  'journal.setPassphrase': 'تعيين عبارة المرور',
+  'journal.newEntry': 'مدخل جديد',
+  'journal.newEntryTitle': 'مدخل جديد',
+  'journal.search': 'ابحث في مدخلاتك',
+  'journal.list': 'قائمة',
+  'journal.calendar': 'تقويم',
+  'journal.showAllDays': 'عرض كل الأيام',
+  'journal.lockedEntry': 'مدخل مقفل',
+  'journal.untitled': 'بلا عنوان',
+  'journal.linkedMood': 'تسجيل مزاج مرتبط',
+  'journal.editEntry': 'تعديل المدخل',
+  'journal.deleteEntry': 'حذف المدخل',
+  'journal.confirmDelete': 'حذف؟',
+  'journal.unlockToRead': 'افتح القفل بعبارة المرور لقراءة هذا المدخل.',
+  'journal.cannotDecrypt': 'لا يمكن فك تشفير هذا المدخل على هذا الجهاز.',
+  'journal.showLess': 'عرض أقل',
+  'journal.readMore': 'قراءة المزيد',
+  'journal.empty': 'يومياتك فارغة. اكتب أول مدخل.',
+  'journal.noMatches': 'لا توجد مدخلات تطابق "{query}".',
+  'journal.noEntriesOnDay': 'لا توجد مدخلات في هذا اليوم.',
+  'journal.entryCount': {
+    zero: 'لا مدخلات',
+    one: 'مدخل واحد',
+    two: 'مدخلان',
+    few: '{count} مدخلات',
+    many: '{count} مدخلًا',
+    other: '{count} مدخل',
+  },
+  'journal.previousMonth': 'الشهر السابق',
+  'journal.nextMonth': 'الشهر التالي',
+  'journal.removePrompt': 'إزالة الاقتراح',
+  'journal.promptsHint': 'تحتاج إلى نقطة بداية؟',
+  'journal.titlePlaceholder': 'العنوان (اختياري)',
+  'journal.formatBold': 'غامق',
+  'journal.formatItalic': 'مائل',
+  'journal.formatHeading': 'عنوان رئيسي',
+  'journal.formatList': 'قائمة',
+  'journal.formatQuote': 'اقتباس',
+  'journal.write': 'كتابة',
+  'journal.preview': 'معاينة',
+  'journal.nothingYet': 'لم تكتب شيئًا بعد.',
+  'journal.bodyPlaceholder': 'اكتب بحرية. أنت وحدك من يستطيع قراءة هذا.',
+  'journal.linkMood': 'ربط بتسجيل مزاج',
+  'journal.noMoodsOnDay': 'لا توجد تسجيلات مزاج في هذا اليوم.',
+  'journal.notLinked': 'غير مرتبط',
+  'journal.linkedCheckIn': 'تسجيل مرتبط',
+  'journal.moodAt': '{mood}/10 في {time}',
+  'journal.encryptedNote': 'يُشفَّر على هذا الجهاز قبل حفظه',
+  'journal.save': 'حفظ',
+  'journal.saved': 'تم حفظ المدخل',
+  'journal.updated': 'تم تحديث المدخل',
+  'journal.deleted': 'تم حذف المدخل',
+  'journal.promptGeneral1': 'ما الذي يشغل معظم تفكيرك اليوم؟',
+  'journal.promptGeneral2': 'صف لحظة صغيرة من اليوم تريد أن تتذكرها.',
+  'journal.promptGeneral3': 'ما الذي تودّ أن تتخلّى عنه قبل الغد؟',
+  'journal.promptGeneral4': 'ماذا تعلّمت عن نفسك هذا الأسبوع؟',
+  'journal.promptGeneral5': 'من الذي أحدث فرقًا في يومك، وكيف؟',
+  'journal.promptGeneral6': 'ما الذي تتطلّع إليه، ولو قليلًا؟',
+  'journal.promptGeneral7': 'لو كان لليوم عنوان، فماذا سيكون؟',
+  'journal.promptGeneral8': 'ما الشيء الواحد الذي يمكنك فعله غدًا لتعتني بنفسك؟',
+  'journal.promptLow1': 'ما أثقل ما تشعر به الآن؟ اكتبه دون أن تحكم عليه.',
+  'journal.promptLow2': 'ماذا كنت ستقول لصديق يشعر كما تشعر اليوم؟',
+  'journal.promptLow3': 'اذكر شيئًا واحدًا ساعدك على تجاوز اليوم، مهما كان صغيرًا.',
+  'journal.promptLow4': 'ما أكثر ما تحتاجه الآن، ومن يمكنه مساعدتك فيه؟',
+  'journal.promptLow5': 'أيّ من مخاوف اليوم تحت سيطرتك، وأيّها ليس كذلك؟',
+  'journal.promptHigh1': 'ما الذي سار على ما يرام اليوم، وما دورك فيه؟',
+  'journal.promptHigh2': 'ما ثلاثة أشياء تشعر بالامتنان لها الآن؟',
+  'journal.promptHigh3': 'كيف يمكنك أن تحمل بعض طاقة اليوم إلى الغد؟',
+  'journal.promptHigh4': 'ما الذي تفخر به هذا الأسبوع؟',
+
+  // Exercises
+  'exercises.loadFailed': 'تعذّر تحميل سجل التمارين',
+  'exercises.saveFailed': 'تعذّر حفظ جلسة التمرين',
+  'exercises.title': 'تنفّس واهدأ',
+  'exercises.subtitle': 'تمارين موجّهة قصيرة لتلك اللحظات التي تشعر فيها بأن الأمور أكثر من طاقتك',
+  'exercises.all': 'كل التمارين',
+  'exercises.about': 'حوالي {duration}',
+  'exercises.seconds': { one: '{count} ث', other: '{count} ث' },
+  'exercises.minutes': { one: '{count} د', other: '{count} د' },
+  'exercises.recent': 'الجلسات الأخيرة',
+  'exercises.empty': 'لا توجد جلسات بعد. اختر تمرينًا أعلاه للبدء.',
+  'exercises.saved': 'حُفظت الجلسة في سجل مزاجك',
+  'exercises.round': 'الجولة {round} من {total}',
+  'exercises.step': 'الخطوة {step} من {total}',
+  'exercises.narrationOn': 'تشغيل الإرشاد الصوتي',
+  'exercises.narrationOff': 'إيقاف الإرشاد الصوتي',
+  'exercises.narrationUnavailable': 'يحتاج الإرشاد الصوتي إلى إعداد الصوت واتصال بالإنترنت',
+  'exercises.pause': 'إيقاف مؤقت',
+  'exercises.resume': 'استئناف',
+  'exercises.next': 'التالي',
+  'exercises.stop': 'إيقاف',
+  'exercises.wellDone': 'أحسنت',
+  'exercises.wellDoneSpoken': 'أحسنت.',
+  'exercises.completed': {
+    one: 'أكملت {title} في دقيقة واحدة.',
+    two: 'أكملت {title} في دقيقتين.',
+    few: 'أكملت {title} في {count} دقائق.',
+    many: 'أكملت {title} في {count} دقيقة.',
+    other: 'أكملت {title} في {count} دقيقة.',
+  },
+  'exercises.logMood': 'سجّل شعورك',
+  'exercises.goAgain': 'مرة أخرى',
+  'exercises.done': 'تم',
+  'exercises.boxTitle': 'التنفس المربّع',
+  'exercises.boxSummary': 'أربع عدّات متساوية لتثبيت أنفاسك وتهدئة ذهنك.',
+  'exercises.boxInstructions': 'اجلس براحة. اتبع المربّع: شهيق، ثم حبس، ثم زفير، ثم حبس مجددًا، أربع ثوانٍ لكل منها.',
+  'exercises.fourSevenEightTitle': 'تنفّس 4-7-8',
+  'exercises.fourSevenEightSummary': 'زفير طويل وبطيء يساعد جسمك على الدخول في وضع الراحة.',
+  'exercises.fourSevenEightInstructions': 'خذ شهيقًا هادئًا من أنفك لمدة 4، واحبسه لمدة 7، ثم أخرج الزفير كاملًا من فمك لمدة 8.',
+  'exercises.groundingTitle': 'التأريض 5-4-3-2-1',
+  'exercises.groundingSummary': 'استخدم حواسك للعودة إلى اللحظة الحاضرة حين تشتد مشاعرك.',
+  'exercises.groundingInstructions': 'خذ وقتك مع كل حاسة. سمِّ الأشياء بصوت عالٍ أو في ذهنك، ثم انتقل حين تكون مستعدًا.',
+  'exercises.breatheIn': 'شهيق',
+  'exercises.hold': 'احبس',
+  'exercises.breatheOut': 'زفير',
+  'exercises.breatheInNose': 'خذ شهيقًا من أنفك',
+  'exercises.breatheOutMouth': 'أخرج الزفير ببطء من فمك',
+  'exercises.see': '5 أشياء تراها',
+  'exercises.seeNarration': 'انظر حولك وسمِّ خمسة أشياء تراها',
+  'exercises.seeDetail': 'لاحظ الألوان والأشكال والضوء والظل.',
+  'exercises.feel': '4 أشياء تشعر بها',
+  'exercises.feelNarration': 'الآن لاحظ أربعة أشياء تشعر بها',
+  'exercises.feelDetail': 'قدماك على الأرض، الكرسي، الهواء على بشرتك.',
+  'exercises.hear': '3 أشياء تسمعها',
+  'exercises.hearNarration': 'أنصت إلى ثلاثة أشياء تسمعها',
+  'exercises.hearDetail': 'أصوات قريبة وبعيدة، حتى الخافتة منها.',
+  'exercises.smell': 'شيئان تشمّهما',
+  'exercises.smellNarration': 'ابحث عن شيئين تشمّهما',
+  'exercises.smellDetail': 'أو رائحتين تحبهما، إن لم تلاحظ شيئًا.',
+  'exercises.taste': 'شيء واحد تتذوقه',
+  'exercises.tasteNarration': 'لاحظ شيئًا واحدًا تتذوقه',
+  'exercises.tasteDetail': 'ثم خذ نفسًا عميقًا وبطيئًا.',
+
+  // Offline sync
+  'sync.dropped': {
+    one: 'تعذّر حفظ تغيير واحد أُجري دون اتصال',
+    two: 'تعذّر حفظ تغييرين أُجريا دون اتصال',
+    few: 'تعذّر حفظ {count} تغييرات أُجريت دون اتصال',
+    many: 'تعذّر حفظ {count} تغييرًا أُجري دون اتصال',
+    other: 'تعذّر حفظ {count} تغيير أُجري دون اتصال',
+  },
+  'sync.synced': {
+    one: 'تمت مزامنة تغيير واحد أُجري دون اتصال',
+    two: 'تمت مزامنة تغييرين أُجريا دون اتصال',
+    few: 'تمت مزامنة {count} تغييرات أُجريت دون اتصال',
+    many: 'تمت مزامنة {count} تغييرًا أُجري دون اتصال',
+    other: 'تمت مزامنة {count} تغيير أُجري دون اتصال',
+  },
+  'sync.editedElsewhere': {
+    one: 'عُدّل عنصر واحد مؤخرًا على جهاز آخر، لذا أُبقي على تلك التعديلات.',
+    two: 'عُدّل عنصران مؤخرًا على جهاز آخر، لذا أُبقي على تلك التعديلات.',
+    few: 'عُدّلت {count} عناصر مؤخرًا على جهاز آخر، لذا أُبقي على تلك التعديلات.',
+    many: 'عُدّل {count} عنصرًا مؤخرًا على جهاز آخر، لذا أُبقي على تلك التعديلات.',
+    other: 'عُدّل {count} عنصر مؤخرًا على جهاز آخر، لذا أُبقي على تلك التعديلات.',
+  },
+  'sync.deletedElsewhere': {
+    one: 'حُذف عنصر واحد على جهاز آخر.',
+    two: 'حُذف عنصران على جهاز آخر.',
+    few: 'حُذفت {count} عناصر على جهاز آخر.',
+    many: 'حُذف {count} عنصرًا على جهاز آخر.',
+    other: 'حُذف {count} عنصر على جهاز آخر.',
+  },
+
+  // Encryption
+  'encryption.setupTitle': 'احمِ بياناتك الخاصة',
+  'encryption.setupIntro': 'عيّن عبارة مرور لتشفير يومياتك وبياناتك الخاصة بمفتاح لا يملكه أحد سواك. يُعاد تشفير الإدخالات الحالية تلقائيًا. نحن لا نرى عبارة مرورك أبدًا، لذا لا يمكننا استعادتها - ستحصل بدلًا من ذلك على رمز استرداد.',
+  'encryption.newPassphrase': {
+    one: 'عبارة مرور جديدة (حرف واحد على الأقل)',
+    two: 'عبارة مرور جديدة (حرفان على الأقل)',
+    few: 'عبارة مرور جديدة ({count} أحرف على الأقل)',
+    many: 'عبارة مرور جديدة ({count} حرفًا على الأقل)',
+    other: 'عبارة مرور جديدة ({count} حرف على الأقل)',
+  },
+  'encryption.confirmPassphrase': 'أكّد عبارة المرور الجديدة',
+  'encryption.currentPassphrase': 'عبارة المرور الحالية',
+  'encryption.settingUp': 'جارٍ الإعداد...',
+  'encryption.setPassphrase': 'تعيين عبارة المرور',
+  'encryption.unlockedTitle': 'التشفير مفعّل وغير مقفل',
+  'encryption.unlockedHint': 'يبقى مفتاحك غير مقفل حتى تقفله أو تسجّل الخروج أو تعيد تحميل الصفحة.',
+  'encryption.lockNow': 'اقفل الآن',
+  'encryption.changePassphrase': 'تغيير عبارة المرور',
+  'encryption.newCodeTitle': 'رمز استرداد جديد',
+  'encryption.newCodeHint': 'فقدت رمز الاسترداد أو تظن أن أحدًا رآه؟ أنشئ رمزًا جديدًا؛ سيتوقف الرمز القديم عن العمل.',
+  'encryption.creating': 'جارٍ الإنشاء...',
+  'encryption.createCode': 'إنشاء رمز جديد',
+  'encryption.enterPassphrase': 'أدخل عبارة المرور',
+  'encryption.lockedHint': 'بياناتك الخاصة مقفلة على هذا الجهاز.',
+  'encryption.passphrase': 'عبارة المرور',
+  'encryption.unlock': 'فتح القفل',
+  'encryption.unlocking': 'جارٍ فتح القفل...',
+  'encryption.forgotPassphrase': 'هل نسيت عبارة المرور؟',
+  'encryption.useRecoveryCode': 'استخدم رمز الاسترداد',
+  'encryption.recoverHint': 'أدخل الرمز الذي حفظته واختر عبارة مرور جديدة.',
+  'encryption.recovering': 'جارٍ الاسترداد...',
+  'encryption.setNewPassphrase': 'تعيين عبارة مرور جديدة',
+  'encryption.backToPassphrase': 'العودة إلى عبارة المرور',
+  'encryption.saveCode': 'احفظ رمز الاسترداد',
+  'encryption.saveCodeHint': 'إذا نسيت عبارة المرور، فهذا الرمز هو الطريقة الوحيدة للعودة إلى يومياتك. لا يمكننا إعادة تعيينها لك، ولن يُعرض الرمز مرة أخرى.',
+  'encryption.copy': 'نسخ',
+  'encryption.download': 'تنزيل',
+  'encryption.codeSaved': 'حفظتُ رمز الاسترداد في مكان آمن',
+  'encryption.done': 'تم',
+  'encryption.codeCopied': 'تم نسخ رمز الاسترداد',
+  'encryption.codeCopyFailed': 'تعذّر النسخ - اكتب الرمز بدلًا من ذلك',
+  'encryption.codeFileTitle': 'رمز استرداد MindPal',
+  'encryption.codeFileHint': 'استخدمه لتعيين عبارة مرور جديدة إذا نسيت عبارتك. احتفظ به في مكان آمن.',
+  'encryption.tooShort': {
+    one: 'استخدم حرفًا واحدًا على الأقل',
+    two: 'استخدم حرفين على الأقل',
+    few: 'استخدم {count} أحرف على الأقل',
+    many: 'استخدم {count} حرفًا على الأقل',
+    other: 'استخدم {count} حرف على الأقل',
+  },
+  'encryption.tooSimple': 'استخدم مزيجًا من أحرف مختلفة',
+  'encryption.mismatch': 'عبارتا المرور غير متطابقتين',
+  'encryption.offline': 'اتصل بالإنترنت لتغيير إعدادات التشفير',
+  'encryption.alreadySet': 'تم تعيين عبارة مرور بالفعل. افتح القفل بها بدلًا من ذلك.',
+  'encryption.setupFailed': 'تعذّر إعداد التشفير',
+  'encryption.wrongPassphrase': 'عبارة المرور هذه غير صحيحة',
+  'encryption.wrongCurrentPassphrase': 'عبارة المرور الحالية غير صحيحة',
+  'encryption.passphraseChanged': 'تم تغيير عبارة المرور',
+  'encryption.changeFailed': 'تعذّر تغيير عبارة المرور',
+  'encryption.notRecoveryCode': 'لا يبدو هذا رمز استرداد',
+  'encryption.wrongRecoveryCode': 'رمز الاسترداد هذا غير صحيح',
+  'encryption.recoverFailed': 'تعذّرت استعادة مفتاحك',
+  'encryption.newCodeFailed': 'تعذّر إنشاء رمز استرداد جديد',
+
+  // Memory
+  'memory.title': 'ما يتذكره MindPal',
+  'memory.intro': 'عندما تنتهي محادثة محفوظة مع المساعد الصوتي وتكون مشاركة البيانات مفعّلة، يحتفظ MindPal ببعض الحقائق الأساسية لتبدو المحادثات القادمة متصلة. يمكنك تصحيح أو حذف أي شيء هنا.',
+  'memory.savingOff': 'حفظ المحادثات متوقف، لذا لا تُنشأ ذكريات جديدة.',
+  'memory.empty': 'لا شيء محفوظ في الذاكرة بعد.',
+  'memory.categoryPerson': 'الأشخاص',
+  'memory.categoryEvent': 'الأحداث',
+  'memory.categoryPreference': 'التفضيلات',
+  'memory.categoryGoal': 'الأهداف',
+  'memory.categoryHealth': 'العافية',
+  'memory.categoryOther': 'أخرى',
+  'memory.save': 'حفظ',
+  'memory.edit': 'تعديل',
+  'memory.forget': 'انسَ هذا',
+  'memory.confirmClear': {
+    one: 'نسيان الذكرى الوحيدة؟',
+    two: 'نسيان الذكريين؟',
+    few: 'نسيان الذكريات الـ{count} كلها؟',
+    many: 'نسيان كل الذكريات الـ{count}؟',
+    other: 'نسيان كل الذكريات الـ{count}؟',
+  },
+  'memory.forgetAll': 'انسَ كل شيء',
+  'memory.updated': 'تم تحديث الذكرى',
+  'memory.deleted': 'تم حذف الذكرى',
+  'memory.cleared': 'تم مسح كل الذكريات',
+  'memory.updateOffline': 'لا يمكن تحديث الذكرى - لا يوجد اتصال بالخادم',
+  'memory.deleteOffline': 'لا يمكن حذف الذكرى - لا يوجد اتصال بالخادم',
+  'memory.clearOffline': 'لا يمكن مسح الذاكرة - لا يوجد اتصال بالخادم',
+  'memory.updateFailed': 'تعذّر تحديث الذكرى',
+  'memory.deleteFailed': 'تعذّر حذف الذكرى',
+  'memory.clearFailed': 'تعذّر مسح الذاكرة',
+
+  // Data export
+  'export.title': 'بياناتك',
+  'export.intro': 'نزّل كل ما يخزنه MindPal عنك كأرشيف ZIP، مع JSON وCSV لكل نوع من البيانات. يُجهَّز على هذا الجهاز؛ وتُضمَّن البيانات الخاصة بعد فك تشفيرها.',
+  'export.locked': 'مفتاح التشفير مقفل، لذا ستُصدَّر إدخالات اليوميات مشفّرة.',
+  'export.unlockFirst': 'افتح قفله أولًا',
+  'export.fetching': 'جارٍ جلب {table}...',
+  'export.decrypting': 'جارٍ فك تشفير {table}...',
+  'export.packaging': 'جارٍ تجميع {table}...',
+  'export.archive': 'الأرشيف',
+  'export.progress': '{completed} من {total}',
+  'export.download': 'تنزيل بياناتي',
+  'export.offline': 'اتصل بالإنترنت لتنزيل بياناتك',
+  'export.done': 'تم تنزيل بياناتك',
+  'export.partial': {
+    one: 'تم تصدير البيانات. تعذّرت قراءة جدول واحد - راجع manifest.json',
+    two: 'تم تصدير البيانات. تعذّرت قراءة جدولين - راجع manifest.json',
+    few: 'تم تصدير البيانات. تعذّرت قراءة {count} جداول - راجع manifest.json',
+    many: 'تم تصدير البيانات. تعذّرت قراءة {count} جدولًا - راجع manifest.json',
+    other: 'تم تصدير البيانات. تعذّرت قراءة {count} جدول - راجع manifest.json',
+  },
+  'export.failed': 'تعذّر تصدير بياناتك',
+
+  // Data import
+  'import.title': 'الاستيراد من تطبيقات أخرى',
+  'import.intro': 'اجلب سجل المزاج والمهام من ملف تصدير تطبيق آخر. سترى معاينة أولًا؛ ولن يُحفظ شيء حتى تؤكد. تُقرأ التواريخ التي بلا منطقة زمنية بالمنطقة الزمنية لملفك الشخصي.',
+  'import.daylio': 'Daylio',
+  'import.daylioDescription': 'ملف CSV مُصدَّر بأعمدة التاريخ والوقت والمزاج والأنشطة والملاحظة',
+  'import.moodCsv': 'متتبع مزاج آخر',
+  'import.moodCsvDescription': 'أي ملف CSV فيه تاريخ وتقييم للمزاج؛ أنت تختار الأعمدة',
+  'import.todoist': 'Todoist',
+  'import.todoistDescription': 'ملف CSV مُصدَّر لمشروع، مع المهام الفرعية',
+  'import.taskCsv': 'قائمة مهام أخرى',
+  'import.taskCsvDescription': 'أي ملف CSV فيه عنوان مهمة؛ أنت تختار الأعمدة',
+  'import.ics': 'التقويم (ICS)',
+  'import.icsDescription': 'المهام والأحداث من ملف ‎.ics',
+  'import.fieldDate': 'التاريخ',
+  'import.fieldTime': 'الوقت',
+  'import.fieldMood': 'المزاج',
+  'import.fieldActivities': 'الأنشطة',
+  'import.fieldNote': 'الملاحظة',
+  'import.fieldTitle': 'العنوان',
+  'import.fieldDescription': 'الوصف',
+  'import.fieldDue': 'تاريخ الاستحقاق',
+  'import.fieldPriority': 'الأولوية',
+  'import.fieldCompleted': 'مكتملة',
+  'import.fieldCategory': 'الفئة',
+  'import.kindMood': 'المزاج',
+  'import.kindTask': 'المهام',
+  'import.chooseFile': 'اختر ملف {type}',
+  'import.chooseAnother': 'اختر ملفًا آخر ({name})',
+  'import.matchColumns': 'طابِق أعمدتك',
+  'import.notInFile': 'غير موجود في هذا الملف',
+  'import.moodRatings': 'تقييمات المزاج',
+  'import.scale': 'من 1 إلى {max}',
+  'import.chooseColumn': 'اختر عمودًا لـ{fields}.',
+  'import.reading': 'جارٍ القراءة...',
+  'import.readingFile': 'جارٍ قراءة {name}...',
+  'import.preview': 'معاينة الاستيراد',
+  'import.ready': '{count} جاهزة',
+  'import.duplicates': '{count} موجودة في MindPal',
+  'import.unreadable': '{count} تتعذّر قراءتها',
+  'import.line': 'السطر {line}',
+  'import.item': 'العنصر {line}',
+  'import.moodRow': '{mood}/10 في {date}',
+  'import.due': 'موعدها {date}',
+  'import.done': 'منجزة',
+  'import.statusError': 'خطأ',
+  'import.statusDuplicate': 'مكررة',
+  'import.statusReady': 'جاهزة',
+  'import.more': 'و{count} أخرى',
+  'import.skipDuplicates': 'تخطَّ الصفوف الموجودة في MindPal',
+  'import.importing': 'جارٍ الاستيراد...',
+  'import.progress': '{done} من {total}',
+  'import.importEntries': {
+    one: 'استيراد إدخال واحد',
+    two: 'استيراد إدخالين',
+    few: 'استيراد {count} إدخالات',
+    many: 'استيراد {count} إدخالًا',
+    other: 'استيراد {count} إدخال',
+  },
+  'import.importTasks': {
+    one: 'استيراد مهمة واحدة',
+    two: 'استيراد مهمتين',
+    few: 'استيراد {count} مهام',
+    many: 'استيراد {count} مهمة',
+    other: 'استيراد {count} مهمة',
+  },
+  'import.imported': 'تم استيراد {inserted} من {total}',
+  'import.skipped': {
+    zero: 'لم يُتخطَّ أي صف.',
+    one: 'تم تخطي صف واحد لأنه مكرر أو غير مقروء.',
+    two: 'تم تخطي صفين لأنهما مكرران أو غير مقروءين.',
+    few: 'تم تخطي {count} صفوف لأنها مكررة أو غير مقروءة.',
+    many: 'تم تخطي {count} صفًا لأنها مكررة أو غير مقروءة.',
+    other: 'تم تخطي {count} صف لأنها مكررة أو غير مقروءة.',
+  },
+  'import.failedRows': 'تعذّر حفظ هذه الصفوف:',
+  'import.another': 'استيراد ملف آخر',
+  'import.offline': 'اتصل بالإنترنت لاستيراد البيانات',
+  'import.readFailed': 'تعذّرت قراءة الملف',
+  'import.stopped': 'توقف الاستيراد قبل أن ينتهي',
+  'import.parentFailed': 'تعذّر استيراد المهمة الأصلية لها',
+  'import.interrupted': 'لم يُستورد: انقطع الاستيراد',
+  'import.importedMoods': {
+    one: 'تم استيراد إدخال مزاج واحد',
+    two: 'تم استيراد إدخالي مزاج',
+    few: 'تم استيراد {count} إدخالات مزاج',
+    many: 'تم استيراد {count} إدخال مزاج',
+    other: 'تم استيراد {count} إدخال مزاج',
+  },
+  'import.importedTasks': {
+    one: 'تم استيراد مهمة واحدة',
+    two: 'تم استيراد مهمتين',
+    few: 'تم استيراد {count} مهام',
+    many: 'تم استيراد {count} مهمة',
+    other: 'تم استيراد {count} مهمة',
+  },
+  'import.notDaylio': 'لا يبدو هذا ملف تصدير من Daylio (لا يوجد عمود full_date)',
+  'import.unrecognisedDate': 'تاريخ غير معروف "{value}"',
+  'import.missingDate': 'التاريخ مفقود',
+  'import.unrecognisedMood': 'مزاج غير معروف "{value}"',
+  'import.missingMood': 'المزاج مفقود',
+  'import.unreadableDue': 'تعذّرت قراءة تاريخ الاستحقاق "{value}"، لذا تم تركه',
+  'import.notTodoist': 'لا يبدو هذا ملف تصدير من Todoist (لا يوجد عمودا TYPE وCONTENT)',
+  'import.missingTaskName': 'اسم المهمة مفقود',
+  'import.nestedTooDeep': 'متداخلة لأكثر من مستوى، لذا أُضيفت إلى المهمة الرئيسية',
+  'import.missingTitle': 'العنوان مفقود',
+  'import.unknownPriority': 'أولوية غير معروفة "{value}"، لذا جُعلت متوسطة',
+  'import.noIcsItems': 'لم يُعثر على مهام أو أحداث في هذا الملف',
+  'import.cancelledItem': 'ملغاة، لذا لم تُستورد',
+  'import.unsupportedRepeat': 'قاعدة التكرار غير مدعومة، لذا استُوردت كمهمة لمرة واحدة',
+
+  // Data deletion
+  'deletion.title': 'حذف البيانات',
+  'deletion.intro': 'تنتظر عمليات الحذف فترة سماح قبل تنفيذها، لتتمكن من تغيير رأيك. نزّل بياناتك أولًا إن أردت نسخة منها.',
+  'deletion.chatsTitle': 'حذف كل المحادثات',
+  'deletion.chatsDescription': 'كل محادثة وجلسة صوتية مع المساعد، وتحليلات المزاج الخاصة بها، والحقائق التي تعلّمها MindPal منها.',
+  'deletion.chatsDone': 'تم حذف كل المحادثات',
+  'deletion.moodTitle': 'حذف سجل المزاج',
+  'deletion.moodDescription': 'كل تسجيلات المزاج وتحليلاته. تبقى إدخالات اليوميات، دون روابطها بالمزاج.',
+  'deletion.moodDone': 'تم حذف سجل المزاج',
+  'deletion.videoTitle': 'حذف جلسات الفيديو والتقارير',
+  'deletion.videoDescription': 'كل استشارة فيديو مع البيانات المسجّلة خلالها والتقارير التي أُنشئت بعدها.',
+  'deletion.videoDone': 'تم حذف جلسات الفيديو والتقارير',
+  'deletion.accountTitle': 'حذف حسابي',
+  'deletion.accountDescription': 'ملفك الشخصي وتسجيل دخولك وكل ما يخزنه MindPal عنك. لا يمكن التراجع عن ذلك بعد تنفيذه.',
+  'deletion.accountDone': 'تم حذف حسابك وكل بياناته',
+  'deletion.hours': {
+    one: 'ساعة واحدة',
+    two: 'ساعتين',
+    few: '{count} ساعات',
+    many: '{count} ساعة',
+    other: '{count} ساعة',
+  },
+  'deletion.days': {
+    one: 'يوم واحد',
+    two: 'يومين',
+    few: '{count} أيام',
+    many: '{count} يومًا',
+    other: '{count} يوم',
+  },
+  'deletion.scheduledFor': 'مجدول في {date}',
+  'deletion.delete': 'حذف',
+  'deletion.runsAfter': 'يُنفَّذ بعد {grace} من التأكيد',
+  'deletion.confirmTitle': '{title}؟',
+  'deletion.runsIn': 'سيُنفَّذ خلال {grace}. حتى ذلك الحين يمكنك إلغاؤه من هنا.',
+  'deletion.runsInAccount': 'سيُنفَّذ خلال {grace}. حتى ذلك الحين يمكنك إلغاؤه من هنا أو من الشريط الذي يظهر أثناء تسجيل دخولك.',
+  'deletion.typeToConfirm': 'اكتب {phrase} للتأكيد',
+  'deletion.keep': 'احتفظ ببياناتي',
+  'deletion.scheduling': 'جارٍ الجدولة...',
+  'deletion.schedule': 'جدولة الحذف',
+  'deletion.offline': 'اتصل بالإنترنت لحذف البيانات',
+  'deletion.scheduled': 'مجدول في {date}. يمكنك الإلغاء حتى ذلك الحين.',
+  'deletion.cancelled': 'تم إلغاء الحذف',
+  'deletion.scheduleFailed': 'تعذّرت جدولة الحذف',
+  'deletion.cancelFailed': 'تعذّر إلغاء الحذف',
+
+  // Turning off a privacy toggle
+  'consent.analyticsTitle': 'حذف التحليلات المجمّعة؟',
+  'consent.analyticsDescription': 'أحداث جلسات الفيديو المسجّلة حتى الآن. تبقى تقارير الجلسات التي أنشأتها من قبل.',
+  'consent.voiceTitle': 'حذف النصوص الصوتية المحفوظة؟',
+  'consent.voiceDescription': 'الرسائل المحفوظة التي قلتها للمساعد، والنسخ المشفّرة من رسائلك.',
+  'consent.stopped': 'لن يُخزَّن أي شيء جديد من الآن. يمكنك أيضًا حذف ما حُفظ من قبل.',
+  'consent.permanent': '{description} لا يمكن التراجع عن ذلك.',
+  'consent.keep': 'احتفظ بها',
+  'consent.deleting': 'جارٍ الحذف...',
+  'consent.deleteNow': 'احذف الآن',
+  'consent.offline': 'اتصل بالإنترنت لحذف هذه البيانات',
+  'consent.deleted': {
+    one: 'تم حذف سجل واحد',
+    two: 'تم حذف سجلين',
+    few: 'تم حذف {count} سجلات',
+    many: 'تم حذف {count} سجلًا',
+    other: 'تم حذف {count} سجل',
+  },
+  'consent.nothing': 'لا يوجد ما يُحذف',
+  'consent.failed': 'تعذّر حذف البيانات',
+};
@@ -0,0 +1,1155 @@
+import type { Message } from '../types';
+
+// The source catalog: every other locale translates these keys
+export const en = {
+  // Shared
+  'common.cancel': 'Cancel',
+  'common.clear': 'Clear',
+  'common.retry': 'Retry',
+  'common.retrying': 'Retrying...',
+  'common.checking': 'Checking...',
+  'common.saving': 'Saving...',
+  'common.connected': 'Connected',
+  'common.offline': 'Offline',
+  'common.actionFailed': 'Failed to perform action',
+  'common.listSeparator': ', ',
+  'common.close': 'Close',
+
+  // Sign in
+  'auth.sessionExpired': 'Your session has expired. Please sign in again.',
+  'auth.tagline': 'Your AI companion for memory, mental health, and voice assistance',
+  'auth.email': 'Email Address',
+  'auth.emailPlaceholder': 'Enter your email',
+  'auth.password': 'Password',
+  'auth.passwordPlaceholder': 'Enter your password',
+  'auth.emailRequired': 'Email is required',
+  'auth.emailInvalid': 'Please enter a valid email address',
+  'auth.passwordRequired': 'Password is required',
+  'auth.passwordTooShort': {
+    one: 'Password must be at least {count} character long',
+    other: 'Password must be at least {count} characters long',
+  },
+  'auth.notConfigured': 'Application not configured. Please check environment variables.',
+  'auth.needsConnection': 'Internet connection required for authentication',
+  'auth.serverUnreachable': 'Unable to connect to authentication server',
+  'auth.accountCreated': 'Account created successfully! Please check your email for verification. 🎉',
+  'auth.welcomeBack': 'Welcome back! ✨',
+  'auth.unexpectedError': 'An unexpected error occurred',
+  'auth.networkError': 'Network error. Please check your connection and try again.',
+  'auth.bannerNotConfigured': 'Application not configured - Please check environment variables',
+  'auth.bannerOffline': 'No internet connection - Authentication unavailable',
+  'auth.bannerServer': 'Server connection issues - Please try again later',
+  'auth.processing': 'Processing...',
+  'auth.unavailable': 'Unavailable',
+  'auth.createAccount': 'Create Account',
+  'auth.signIn': 'Sign In',
+  'auth.haveAccount': 'Already have an account? Sign in',
+  'auth.needAccount': "Don't have an account? Sign up",
+  'auth.ready': 'Ready to authenticate',
+  'auth.unavailableStatus': 'Authentication unavailable',
+
+  // Navigation
+  'nav.dashboard': 'Dashboard',
+  'nav.tasks': 'Tasks',
+  'nav.mood': 'Mood',
+  'nav.journal': 'Journal',
+  'nav.voice': 'Voice AI',
+  'nav.video': 'Video',
+  'nav.exercises': 'Exercises',
+  'nav.settings': 'Settings',
+
+  // Layout
+  'layout.welcome': 'Welcome, {name}',
+  'layout.signOut': 'Sign out',
+  'layout.signedOut': 'Signed out successfully ✨',
+  'layout.signOutError': 'Error signing out, but you have been logged out locally',
+  'layout.syncing': 'Syncing...',
+  'layout.unsynced': { one: '{count} unsynced', other: '{count} unsynced' },
+  'layout.checkingConnection': 'Checking connection...',
+  'layout.connectionRestored': 'Connection restored! 🎉',
+  'layout.stillOffline': 'Still having connection issues. Please check your internet connection.',
+  'layout.connectionCheckFailed': 'Connection check failed',
+  'layout.configTitle': 'Configuration Required',
+  'layout.configMessage': 'Supabase environment variables are not configured. Please check your .env file.',
+  'layout.offlineTitle': 'No Internet Connection',
+  'layout.offlineMessage': 'Tasks, moods, chats and settings are saved on this device and will sync when you reconnect.',
+  'layout.serverTitle': 'Server Connection Issues',
+  'layout.serverMessage': 'Having trouble connecting to our servers. Retrying automatically...',
+  'layout.details': 'Details',
+  'layout.configuration': 'Configuration: {status}',
+  'layout.internet': 'Internet: {status}',
+  'layout.database': 'Database: {status}',
+  'layout.ok': 'OK',
+  'layout.missing': 'Missing',
+  'layout.disconnected': 'Disconnected',
+  'layout.deletionTitle': 'Account Scheduled for Deletion',
+  'layout.deletionMessage': 'Your account and all its data will be deleted on {date}.',
+  'layout.keepAccount': 'Keep my account',
+
+  // Dashboard
+  'dashboard.welcomeBack': 'Welcome back!',
+  'dashboard.welcomeToast': 'Welcome to MindPal! 🎉',
+  'dashboard.canceledToast': 'Action was canceled. You can try again anytime.',
+  'dashboard.loadError': 'Unable to load some data. Please try refreshing the page.',
+  'dashboard.badge': 'Badge',
+  'dashboard.dataIssues': 'Data Loading Issues',
+  'dashboard.dataIssuesMessage': '{error} The app will continue to work normally.',
+  'dashboard.offlineTitle': 'Working Offline',
+  'dashboard.offlineMessage': 'Some features may be limited. Data will sync when connection is restored.',
+  'dashboard.tasksCompleted': 'Tasks Completed',
+  'dashboard.completionRate': '{rate}% completion rate',
+  'dashboard.todayMood': "Today's Mood",
+  'dashboard.notLogged': 'Not logged',
+  'dashboard.feelingGreat': 'Feeling great!',
+  'dashboard.logMood': 'Log your mood',
+  'dashboard.chatSessions': 'Chat Sessions',
+  'dashboard.aiConversations': 'AI conversations',
+  'dashboard.streakTitle': { one: '🔥 {count} Day Mood Streak!', other: '🔥 {count} Day Mood Streak!' },
+  'dashboard.quickActions': 'Quick Actions',
+  'dashboard.voiceChat': 'Voice Chat',
+  'dashboard.voiceChatHint': 'Talk to your AI companion',
+  'dashboard.moodCheck': 'Mood Check',
+  'dashboard.moodCheckHint': 'Log your emotions',
+  'dashboard.addTask': 'Add Task',
+  'dashboard.addTaskHint': 'Create a new reminder',
+  'dashboard.builtOnBolt': 'Built on Bolt',
+
+  // Tasks
+  'tasks.title': 'Task Manager',
+  'tasks.subtitle': 'Stay organized with ADHD-friendly task management',
+  'tasks.summary': '{total} total • {completed} completed',
+  'tasks.overdueCount': { one: '{count} overdue', other: '{count} overdue' },
+  'tasks.add': 'Add Task',
+  'tasks.search': 'Search tasks...',
+  'tasks.filterAll': 'All Tasks',
+  'tasks.filterPending': 'Pending',
+  'tasks.filterCompleted': 'Completed',
+  'tasks.filterOverdue': 'Overdue',
+  'tasks.fieldTitle': 'Task Title *',
+  'tasks.fieldTitlePlaceholder': 'What needs to be done?',
+  'tasks.fieldPriority': 'Priority',
+  'tasks.fieldDescription': 'Description',
+  'tasks.fieldDescriptionPlaceholder': 'Add more details...',
+  'tasks.fieldCategory': 'Category',
+  'tasks.fieldCategoryPlaceholder': 'personal, work, health...',
+  'tasks.fieldDue': 'Due Date',
+  'tasks.fieldReminder': 'Remind Me',
+  'tasks.fieldRepeat': 'Repeat',
+  'tasks.priorityLow': 'Low Priority',
+  'tasks.priorityMedium': 'Medium Priority',
+  'tasks.priorityHigh': 'High Priority',
+  'tasks.badgeLow': 'low',
+  'tasks.badgeMedium': 'medium',
+  'tasks.badgeHigh': 'high',
+  'tasks.overdueTag': '(Overdue)',
+  'tasks.steps': '{done}/{total} steps',
+  'tasks.addSteps': 'Add steps',
+  'tasks.timeLeft': '{time} left',
+  'tasks.breakDown': 'Break it down',
+  'tasks.breakDownHint': 'Suggest small steps for this task',
+  'tasks.breakDownUnavailable': 'Needs a connection and an AI provider',
+  'tasks.edit': 'Edit task',
+  'tasks.delete': 'Delete task',
+  'tasks.emptyAll': 'No tasks yet',
+  'tasks.emptyPending': 'No pending tasks',
+  'tasks.emptyCompleted': 'No completed tasks',
+  'tasks.emptyOverdue': 'No overdue tasks',
+  'tasks.emptyAllHint': 'Start by adding your first task!',
+  'tasks.emptyFilteredHint': 'Try switching to a different filter.',
+  'tasks.added': 'Task added successfully! 📝',
+  'tasks.completed': 'Task completed! 🎉',
+  'tasks.completedNext': 'Task completed! 🎉 Next one is due {date}',
+  'tasks.markedIncomplete': 'Task marked incomplete',
+  'tasks.stepsAdded': { one: 'Added {count} step ✨', other: 'Added {count} steps ✨' },
+  'tasks.updated': 'Task updated',
+  'tasks.deleted': 'Task deleted',
+  'tasks.addFailed': 'Failed to add task',
+  'tasks.updateFailed': 'Failed to update task',
+  'tasks.deleteFailed': 'Failed to delete task',
+  'tasks.loadFailed': 'Failed to load tasks',
+
+  // Mood
+  'mood.title': 'Mood Tracker',
+  'mood.subtitle': 'Track your emotional wellness journey',
+  'mood.viewTrack': 'Track',
+  'mood.viewInsights': 'Insights',
+  'mood.prompt': 'How are you feeling today?',
+  'mood.level1': 'Terrible',
+  'mood.level2': 'Sad',
+  'mood.level3': 'Poor',
+  'mood.level4': 'Fair',
+  'mood.level5': 'Good',
+  'mood.level6': 'Great',
+  'mood.level7': 'Wonderful',
+  'mood.level8': 'Amazing',
+  'mood.level9': 'Fantastic',
+  'mood.level10': 'Perfect',
+  'mood.scaleLow': 'Terrible (1)',
+  'mood.scaleHigh': 'Perfect (10)',
+  'mood.notesLabel': "What's on your mind? (optional)",
+  'mood.notesPlaceholder': 'Share your thoughts, feelings, or what made your day special...',
+  'mood.details': 'Energy, anxiety, sleep and activities',
+  'mood.activitiesLabel': 'What have you been doing?',
+  'mood.activityPlaceholder': 'Add an activity...',
+  'mood.tagsLabel': 'Tags',
+  'mood.tagPlaceholder': 'Add a tag, e.g. deadline or weekend...',
+  'mood.removeTag': 'Remove {tag}',
+  'mood.addTag': 'Add',
+  'mood.save': 'Save Mood Entry',
+  'mood.energy': 'Energy',
+  'mood.anxiety': 'Anxiety',
+  'mood.sleepQuality': 'Sleep quality',
+  'mood.energyLow': 'Drained',
+  'mood.energyHigh': 'Energised',
+  'mood.anxietyLow': 'Calm',
+  'mood.anxietyHigh': 'Very anxious',
+  'mood.sleepQualityLow': 'Restless',
+  'mood.sleepQualityHigh': 'Restful',
+  'mood.rate': 'Rate',
+  'mood.weeklyAverage': 'Weekly Average',
+  'mood.entriesThisMonth': 'Entries This Month',
+  'mood.currentStreak': 'Current Streak',
+  'mood.bestStreak': 'Best Streak',
+  'mood.days': { one: '{count} day', other: '{count} days' },
+  'mood.freezeHint': 'A frozen day keeps your streak without logging',
+  'mood.takeDayOff': { one: 'Take today off ({count} left this month)', other: 'Take today off ({count} left this month)' },
+  'mood.undoFreeze': 'Undo freeze',
+  'mood.toMilestone': { one: '{count} day to reach {milestone} days!', other: '{count} days to reach {milestone} days!' },
+  'mood.streakAmazing': { one: 'Amazing! {count} day streak!', other: 'Amazing! {count} day streak!' },
+  'mood.onlyToMilestone': {
+    one: 'Only {count} more day to reach your {milestone}-day milestone!',
+    other: 'Only {count} more days to reach your {milestone}-day milestone!',
+  },
+  'mood.recent': 'Recent Entries',
+  'mood.exercise': 'Exercise',
+  'mood.stoppedEarly': '(stopped early)',
+  'mood.editNotes': 'Edit notes',
+  'mood.deleteEntry': 'Delete entry',
+  'mood.showWith': 'Show entries with {label}',
+  'mood.empty': 'No mood entries yet. Start tracking your emotions!',
+  'mood.emptyFiltered': 'No recent entries with {labels}.',
+  'mood.saved': 'Mood saved! 🎉',
+  'mood.updated': 'Mood entry updated',
+  'mood.deleted': 'Mood entry deleted',
+  'mood.saveFailed': 'Failed to save mood entry',
+  'mood.updateFailed': 'Failed to update mood entry',
+  'mood.deleteFailed': 'Failed to delete mood entry',
+  'mood.loadFailed': 'Failed to load mood history',
+
+  // Mood streaks
+  'streak.keepItUp': "You're building a great habit of tracking your mood. Keep it up!",
+  'streak.current': 'Great! You logged your mood today.',
+  'streak.frozen': 'Streak frozen for today. Enjoy your day off!',
+  'streak.pending': 'Log your mood today to continue your streak!',
+  'streak.broken': 'Your streak was broken. Start a new one today!',
+  'streak.none': 'Start your mood tracking journey!',
+  'streak.noFreezesLeft': 'No streak freezes left this month',
+  'streak.frozenToast': 'Streak frozen for today ❄️',
+  'streak.unfrozenToast': 'Streak freeze removed',
+
+  // Settings
+  'settings.title': 'Settings',
+  'settings.subtitle': 'Customize your MindPal experience',
+  'settings.tabProfile': 'Profile',
+  'settings.tabPreferences': 'Preferences',
+  'settings.tabNotifications': 'Notifications',
+  'settings.tabPrivacy': 'Privacy',
+  'settings.tabEncryption': 'Encryption',
+  'settings.tabMemory': 'Memory',
+  'settings.tabImport': 'Import',
+  'settings.email': 'Email Address',
+  'settings.fullName': 'Full Name',
+  'settings.fullNamePlaceholder': 'Enter your full name',
+  'settings.phone': 'Phone Number',
+  'settings.timezone': 'Timezone',
+  'settings.tzIndia': 'India Standard Time',
+  'settings.tzEastern': 'Eastern Time',
+  'settings.tzCentral': 'Central Time',
+  'settings.tzMountain': 'Mountain Time',
+  'settings.tzPacific': 'Pacific Time',
+  'settings.saveProfile': 'Save Profile',
+  'settings.profileSaved': 'Profile saved successfully!',
+  'settings.profileSaveFailed': 'Failed to save profile',
+  'settings.signInToSaveProfile': 'Please sign in to save profile',
+  'settings.theme': 'Theme',
+  'settings.themeLight': 'Light',
+  'settings.themeDark': 'Dark',
+  'settings.themeAuto': 'Auto',
+  'settings.language': 'Language',
+  'settings.languageAiOnly': '{language} (AI replies only)',
+  'settings.languageHint': 'Languages marked "AI replies only" translate the assistant; the rest of the app stays in English.',
+  'settings.voiceSpeed': 'AI Voice Speed',
+  'settings.speedSlow': 'Slow',
+  'settings.speedNormal': 'Normal',
+  'settings.speedFast': 'Fast',
+  'settings.personality': 'AI Personality',
+  'settings.personalitySupportive': 'Supportive & Caring',
+  'settings.personalityProfessional': 'Professional',
+  'settings.personalityFriendly': 'Friendly & Casual',
+  'settings.personalityMotivational': 'Motivational',
+  'settings.savePreferences': 'Save Preferences',
+  'settings.preferencesSaved': 'Preferences saved!',
+  'settings.reminders': 'Reminders',
+  'settings.taskReminders': 'Task Reminders',
+  'settings.taskRemindersHint': 'Remind me at the time set on each task',
+  'settings.moodCheckIn': 'Mood Check-in',
+  'settings.moodCheckInHint': "A daily nudge if you haven't logged your mood yet",
+  'settings.dailySummary': 'Daily Summary',
+  'settings.dailySummaryHint': 'Tasks due today and anything overdue',
+  'settings.quietHours': 'Quiet Hours',
+  'settings.holdOvernight': 'Hold reminders overnight',
+  'settings.holdOvernightHint': 'Reminders due in quiet hours arrive when they end ({zone})',
+  'settings.deviceTimeZone': 'your device time zone',
+  'settings.to': 'to',
+  'settings.browserNotifications': 'Browser Notifications',
+  'settings.notificationsGranted': 'Enabled. Reminders also reach you when MindPal is in a background tab.',
+  'settings.notificationsDenied': 'Blocked in this browser. Reminders will only show inside the app.',
+  'settings.notificationsUnsupported': 'This browser does not support notifications. Reminders will show inside the app.',
+  'settings.notificationsDefault': 'Reminders show inside the app. Allow notifications to get them while MindPal is in the background.',
+  'settings.allow': 'Allow',
+  'settings.notificationsEnabled': 'Browser notifications enabled',
+  'settings.notificationsBlocked': 'Notifications are blocked - allow them in your browser settings',
+  'settings.notificationsFailed': 'Failed to enable browser notifications',
+  'settings.dataPrivacy': 'Data & Privacy',
+  'settings.dataSharing': 'Data Sharing',
+  'settings.dataSharingHint': 'Allow extra AI calls that send your messages to the AI provider: a second safety check on worrying messages, and remembering facts from saved chats',
+  'settings.analytics': 'Analytics',
+  'settings.analyticsHint': 'Record video session events used in your session reports',
+  'settings.voiceRecordings': 'Voice Recordings',
+  'settings.voiceRecordingsHint': 'Keep transcripts of what you say to the Voice AI, and encrypted copies of your messages',
+  'settings.saveConversations': 'Save Conversations',
+  'settings.saveConversationsHint': 'Keep Voice AI chats so you can resume them later',
+  'settings.encryptedNotice': '🔒 All sensitive data is encrypted before storage. Your privacy is our priority.',
+  'settings.savePrivacy': 'Save Privacy Settings',
+  'settings.privacySaved': 'Privacy settings saved!',
+  'settings.saved': 'Settings saved successfully!',
+  'settings.savedOffline': 'Settings saved on this device - they will sync when you are back online',
+  'settings.savedLocally': 'Settings saved locally (Supabase not configured)',
+  'settings.signInToSave': 'Please sign in to save settings',
+  'settings.loadFailed': 'Unable to connect to server. Using default settings.',
+  'settings.createFailed': 'Unable to connect to server. Settings saved locally.',
+  // Mood analytics
+  'analytics.range30d': '30 days',
+  'analytics.range90d': '3 months',
+  'analytics.range180d': '6 months',
+  'analytics.range365d': '1 year',
+  'analytics.daily': 'Daily',
+  'analytics.weekly': 'Weekly',
+  'analytics.monthly': 'Monthly',
+  'analytics.filterLabel': 'Filter by tag or activity',
+  'analytics.allEntries': 'All entries',
+  'analytics.averageMood': 'Average mood',
+  'analytics.entries': 'Entries',
+  'analytics.onDays': { one: 'on {count} day', other: 'on {count} days' },
+  'analytics.trend': 'Trend over the period',
+  'analytics.steady': 'Steady',
+  'analytics.empty': 'No mood entries in this period yet.',
+  'analytics.overTime': 'Mood over time',
+  'analytics.average': 'Average',
+  'analytics.movingAverageDay': { one: '{count}-day moving average', other: '{count}-day moving average' },
+  'analytics.movingAverageWeek': { one: '{count}-week moving average', other: '{count}-week moving average' },
+  'analytics.movingAverageMonth': { one: '{count}-month moving average', other: '{count}-month moving average' },
+  'analytics.weekOf': 'Week of {date}',
+  'analytics.bucketEntries': { one: '{date}: {average}/10 ({count} entry)', other: '{date}: {average}/10 ({count} entries)' },
+  'analytics.byWeekday': 'By day of week',
+  'analytics.byTimeOfDay': 'By time of day',
+  'analytics.mon': 'Mon',
+  'analytics.tue': 'Tue',
+  'analytics.wed': 'Wed',
+  'analytics.thu': 'Thu',
+  'analytics.fri': 'Fri',
+  'analytics.sat': 'Sat',
+  'analytics.sun': 'Sun',
+  'analytics.morning': 'Morning',
+  'analytics.afternoon': 'Afternoon',
+  'analytics.evening': 'Evening',
+  'analytics.night': 'Night',
+  'analytics.checkIns': 'Check-in averages',
+  'analytics.checkInsHint': 'From check-ins where you rated them. Lower anxiety is better.',
+  'analytics.tagsTitle': 'Tags and activities',
+  'analytics.tagsHint': 'Average mood with each, and the difference from entries without it.',
+  'analytics.activities': 'Activities',
+  'analytics.tags': 'Tags',
+  'analytics.addToCompare': 'Add these to a few check-ins to compare them.',
+  'analytics.correlationsTitle': 'What goes with your mood',
+  'analytics.correlationsHint': "Based on days you logged a mood. A link doesn't mean one causes the other.",
+  'analytics.tasksTitle': 'Completed tasks',
+  'analytics.tasksActivity': 'completed tasks',
+  'analytics.chatsTitle': 'Chat activity',
+  'analytics.chatsActivity': 'chat messages',
+  'analytics.loadingActivity': 'Loading activity...',
+  'analytics.daysWith': 'Days with',
+  'analytics.daysWithout': 'Days without',
+  'analytics.needMoreDays': 'Log your mood on at least {count} days to see how it relates to {activity}.',
+  'analytics.noVariation': 'Not enough variation in {activity} yet to compare.',
+  'analytics.noLink': "Your mood doesn't seem to move with {activity}.",
+  'analytics.linkHigher': "There's a {strength} link: your mood tends to be higher on days with more {activity}.",
+  'analytics.linkLower': "There's a {strength} link: your mood tends to be lower on days with more {activity}.",
+  'analytics.strengthWeak': 'weak',
+  'analytics.strengthModerate': 'moderate',
+  'analytics.strengthStrong': 'strong',
+
+  // Achievements
+  'achievements.title': 'Achievements',
+  'achievements.earned': '{unlocked} of {total} earned',
+  'achievements.showAll': 'Show all badges',
+  'achievements.hide': 'Hide badges',
+  'achievements.unlocked': { one: 'Achievement unlocked', other: '{count} achievements unlocked' },
+  'achievements.nice': 'Nice!',
+  'achievements.firstStep': 'First Step',
+  'achievements.gettingThingsDone': 'Getting Things Done',
+  'achievements.taskTamer': 'Task Tamer',
+  'achievements.centurion': 'Centurion',
+  'achievements.unstoppable': 'Unstoppable',
+  'achievements.checkingIn': 'Checking In',
+  'achievements.selfAware': 'Self-Aware',
+  'achievements.moodMapper': 'Mood Mapper',
+  'achievements.innerCompass': 'Inner Compass',
+  'achievements.yearOfFeelings': 'A Year of Feelings',
+  'achievements.streak': { one: '{count}-Day Streak', other: '{count}-Day Streak' },
+  'achievements.helloThere': 'Hello There',
+  'achievements.goodListener': 'Good Listener',
+  'achievements.deepTalker': 'Deep Talker',
+  'achievements.faceToFace': 'Face to Face',
+  'achievements.regularVisitor': 'Regular Visitor',
+  'achievements.trustedCompanion': 'Trusted Companion',
+  'achievements.describeTasks': { one: 'Complete {count} task', other: 'Complete {count} tasks' },
+  'achievements.describeCheckIns': { one: 'Log your mood {count} time', other: 'Log your mood {count} times' },
+  'achievements.describeStreak': { one: 'Log your mood {count} day in a row', other: 'Log your mood {count} days in a row' },
+  'achievements.describeChats': { one: 'Start {count} chat session', other: 'Start {count} chat sessions' },
+  'achievements.describeVideos': { one: 'Have {count} video session', other: 'Have {count} video sessions' },
+
+  // Task editing, quick add and breakdown
+  'tasks.titlePlaceholder': 'Task title',
+  'tasks.save': 'Save',
+  'tasks.quickAddPlaceholder': 'Quick add: "{example}"',
+  'tasks.quickAddButton': 'Add',
+  'tasks.quickAddNoTitle': 'Add a title',
+  'tasks.renameStep': 'Click to rename',
+  'tasks.deleteStep': 'Delete step',
+  'tasks.addStepPlaceholder': 'Add a step...',
+  'tasks.estimateMinutes': '{minutes} min',
+  'tasks.estimateHours': '{hours} h',
+  'tasks.estimateHoursMinutes': '{hours} h {minutes} min',
+  'breakdown.title': 'Suggested steps',
+  'breakdown.total': '· about {time}',
+  'breakdown.loading': 'Breaking it down...',
+  'breakdown.minutes': 'Minutes',
+  'breakdown.minutesShort': 'min',
+  'breakdown.moveUp': 'Move up',
+  'breakdown.moveDown': 'Move down',
+  'breakdown.remove': 'Remove step',
+  'breakdown.addStep': 'Add a step',
+  'breakdown.adding': 'Adding...',
+  'breakdown.accept': 'Add these steps',
+  'breakdown.retry': 'Try again',
+  'breakdown.discard': 'Discard',
+  'breakdown.notConfigured': "AI is not configured, so tasks can't be broken down",
+  'breakdown.noSteps': "Couldn't come up with steps for this task - try adding a description",
+  'breakdown.failed': 'Failed to break down task',
+
+  // Repeating tasks
+  'recurrence.none': 'Does not repeat',
+  'recurrence.custom': 'Custom (RRULE)',
+  'recurrence.hint': 'FREQ (DAILY, WEEKLY, MONTHLY, YEARLY) with optional INTERVAL, BYDAY, COUNT or UNTIL',
+  'recurrence.unsupported': "This rule isn't supported",
+  'recurrence.presetDaily': 'Every day',
+  'recurrence.presetWeekdays': 'Every weekday',
+  'recurrence.presetWeekly': 'Every week',
+  'recurrence.presetBiweekly': 'Every 2 weeks',
+  'recurrence.presetMonthly': 'Every month',
+  'recurrence.everyDay': { one: 'Every day', other: 'Every {count} days' },
+  'recurrence.everyWeek': { one: 'Every week', other: 'Every {count} weeks' },
+  'recurrence.everyMonth': { one: 'Every month', other: 'Every {count} months' },
+  'recurrence.everyYear': { one: 'Every year', other: 'Every {count} years' },
+  'recurrence.onDays': '{rule} on {days}',
+  'recurrence.timesLeft': { one: '{rule}, {count} time left', other: '{rule}, {count} times left' },
+  'recurrence.until': '{rule}, until {date}',
+
+  // Reminders
+  'reminders.taskTitle': 'Task reminder',
+  'reminders.taskDue': '{title} - due {date}',
+  'reminders.moodTitle': 'How are you feeling?',
+  'reminders.moodBody': "You haven't checked in today. A quick mood entry takes a few seconds.",
+  'reminders.summaryTitle': 'Your day at a glance',
+  'reminders.dueToday': { one: '{count} task due today', other: '{count} tasks due today' },
+  'reminders.nothingDue': 'Nothing due today',
+  'reminders.overdue': '{count} overdue',
+  'reminders.open': '{count} open in total',
+  'reminders.summaryBody': '{parts}.',
+
+  // Chat sessions
+  'chat.loadFailed': 'Failed to load chat sessions',
+  'chat.messagesFailed': 'Failed to load messages',
+  'chat.created': 'New chat session created!',
+  'chat.createFailed': 'Failed to create new session',
+  'chat.saveFailed': 'Failed to save message',
+  'chat.deleted': 'Chat session deleted',
+  'chat.deleteFailed': 'Failed to delete session',
+  'chat.renamed': 'Session title updated',
+  'chat.renameFailed': 'Failed to update title',
+  'chat.reportOffline': 'Cannot generate report - no connection to server',
+  'chat.reportReady': 'Mood report generated!',
+  'chat.reportFailed': 'Failed to generate mood report',
+  'chat.linkCopied': 'Chat link copied to clipboard!',
+  'chat.shareFailed': 'Failed to share session',
+  'chat.savedChats': 'Saved Chats',
+  'chat.noSavedChats': 'No saved chats yet. Your next conversation will appear here.',
+  'chat.saveTitle': 'Save title',
+  'chat.rename': 'Rename',
+  'chat.delete': 'Delete',
+  'chat.keep': 'Keep',
+  'chat.confirmDelete': 'Delete this chat?',
+
+  // Voice
+  'voice.playFailed': 'Failed to play audio',
+  'voice.noApiKey': 'ElevenLabs API key not configured',
+  'voice.speechOffline': 'Internet connection required for text-to-speech',
+  'voice.speechFailed': 'Failed to generate speech',
+  'voice.listening': 'Listening... Speak now!',
+  'voice.recognitionOffline': 'Internet connection required for speech recognition',
+  'voice.recognitionUnsupported': 'Speech recognition not supported in this browser',
+  'voice.recognitionFailed': 'Speech recognition failed',
+  'voice.errorNetwork': 'Network error: Please check your internet connection and try again',
+  'voice.errorNotAllowed': 'Microphone access denied. Please allow microphone permissions and try again',
+  'voice.errorNoSpeech': 'No speech detected. Please speak clearly and try again',
+  'voice.errorAudioCapture': 'Microphone not found or not working. Please check your microphone',
+  'voice.errorService': 'Speech recognition service not available. Please try again later',
+  'voice.errorGrammar': 'Speech recognition grammar error. Please try speaking again',
+  'voice.errorLanguage': 'Language not supported by speech recognition',
+  'voice.errorOther': 'Speech recognition error: {error}',
+  'voice.title': 'Voice AI Companion',
+  'voice.subtitlePrivate': 'Private voice conversations (not saved)',
+  'voice.subtitleSaved': 'Conversations are saved to your account',
+  'voice.subtitleTypedSaved': 'Typed messages are saved to your account; spoken ones stay private',
+  'voice.savingOn': 'Saving conversations - click for private mode',
+  'voice.savingOff': 'Private mode - click to save conversations',
+  'voice.autoSpeakOn': 'Auto-speak enabled',
+  'voice.autoSpeakOff': 'Auto-speak disabled',
+  'voice.ready': 'Voice Ready',
+  'voice.newChat': 'New Chat',
+  'voice.continuousOn': 'Continuous Voice Mode ON',
+  'voice.continuousOff': 'Continuous Voice Mode OFF',
+  'voice.startVoiceChat': 'Start Voice Chat',
+  'voice.stopVoiceChat': 'Stop Voice Chat',
+  'voice.noInternet': 'No Internet Connection',
+  'voice.noInternetHint': 'Voice recognition and AI chat are unavailable without internet access.',
+  'voice.limited': 'Voice Features Limited',
+  'voice.limitedHint': 'ElevenLabs API key not configured. Text-to-speech features unavailable.',
+  'voice.emptySaved': 'Start a conversation! It will be saved so you can pick it up later.',
+  'voice.emptyPrivate': 'Start a private conversation! Messages are not saved.',
+  'voice.aiOffline': 'Internet connection required for AI features',
+  'voice.undo': 'Undo',
+  'voice.undone': 'Undone',
+  'voice.stop': 'Stop',
+  'voice.speak': 'Speak',
+  'voice.responding': 'AI is responding...',
+  'voice.thinking': 'AI is thinking...',
+  'voice.stopGenerating': 'Stop generating',
+  'voice.placeholder': 'Type a message, or "remind me to..." / "log my mood as..."',
+  'voice.placeholderOffline': 'Offline - you can still add tasks or log your mood',
+  'voice.send': 'Send',
+  'voice.voiceUnavailable': 'Voice features require internet connection and API key',
+  'voice.startVoice': 'Start voice conversation',
+  'voice.listeningShort': 'Listening...',
+  'voice.voice': 'Voice',
+  'voice.generateReport': 'Generate AI mood report',
+  'voice.report': 'Report',
+  'voice.clearConversation': 'Clear conversation',
+  'voice.reportTitle': 'AI-Generated Mood Analysis Report',
+  'voice.overallMood': 'Overall Mood:',
+  'voice.stressLevel': 'Stress Level:',
+  'voice.emotions': 'Detected Emotions:',
+  'voice.weekCheckIns': 'Your Check-ins This Week:',
+  'voice.weekAverage': { one: '{count} entry, average mood {mood}/10', other: '{count} entries, average mood {mood}/10' },
+  'voice.weekEnergy': 'energy {value}',
+  'voice.weekAnxiety': 'anxiety {value}',
+  'voice.weekSleep': 'sleep {value}',
+  'voice.mostLogged': 'Most logged: {items}',
+  'voice.summary': 'Summary:',
+  'voice.keyConcerns': 'Key Concerns:',
+  'voice.positiveIndicators': 'Positive Indicators:',
+  'voice.recommendations': 'AI Recommendations:',
+  'voice.none': 'None',
+  'voice.tryIt': 'Try it',
+  'voice.confidence': '{percent}%',
+  'voice.confidenceOffline': '{percent}% (offline keyword analysis)',
+  'voice.copyReport': 'Copy Report',
+  'voice.reportCopied': 'Report copied to clipboard!',
+  'voice.privacyTitle': 'Privacy First:',
+  'voice.privacySaved': 'Saving is on, so your conversations are stored in your account and can be deleted from the sidebar at any time. Switch back to private mode to stop saving.',
+  'voice.privacyPrivate': 'Your voice conversations are completely private and not saved to any database. Only temporary session data is kept in memory for context during your current conversation.',
+  'voice.poweredBy': 'Voice synthesis powered by ElevenLabs.',
+  'voice.replyCutOff': 'The reply was cut off - please try again',
+  'voice.taskAdded': 'Task added',
+  'voice.moodLogged': 'Mood logged',
+  'voice.taskRemoved': 'Task removed',
+  'voice.moodRemoved': 'Mood entry removed',
+  'voice.commandFailedSpoken': "Sorry, I couldn't save that.",
+  'voice.commandFailed': "Sorry, I couldn't save that. Please try again.",
+  'voice.sendOffline': 'Cannot send message - no internet connection',
+  'voice.replyGenerated': 'AI response generated!',
+  'voice.requestFailed': 'Failed to process your request',
+  'voice.replyCancelled': 'Response cancelled',
+  'voice.featuresOffline': 'Voice features require an internet connection',
+  'voice.inputFailed': 'Voice input failed',
+  'voice.newConversation': 'New conversation started',
+  'voice.nothingToAnalyze': 'No conversation to analyze',
+  'voice.reportGenerated': 'AI report generated successfully!',
+  'voice.reportGeneratedOffline': 'Report generated with offline analysis',
+  'voice.speechUnavailable': 'Text-to-speech not available',
+  'voice.conversationCleared': 'Conversation cleared',
+
+  // Voice commands
+  'intents.loggedMood': 'Logged your mood as {mood} out of 10 ({label}).',
+  'intents.loggedMoodWithNote': 'Logged your mood as {mood} out of 10 ({label}), with the note "{note}".',
+  'intents.addedTask': 'Added "{title}" to your tasks.',
+  'intents.addedTaskFor': 'Added "{title}" to your tasks for {when}.',
+  'intents.addedReminder': 'Added "{title}" to your tasks for {when} and I\'ll remind you then.',
+
+  // Video
+  'video.mediaFailed': 'Failed to access camera/microphone',
+  'video.noLingering': 'No lingering sessions found in database',
+  'video.cleared': { one: 'Cleared {count} lingering session', other: 'Cleared {count} lingering sessions' },
+  'video.clearFailed': 'Failed to clear lingering sessions',
+  'video.noApiKey': 'Tavus API key not configured',
+  'video.offline': 'Internet connection required for video sessions',
+  'video.alreadyActive': 'You already have an active video session. Please end your current session before starting a new one, or try again in a few minutes if you believe no session is active.',
+  'video.createFailed': 'Failed to create video session',
+  'video.signIn': 'Please sign in to start a video session',
+  'video.started': 'Video session started!',
+  'video.startFailed': 'Failed to start video session',
+  'video.ended': 'Video session ended',
+  'video.endFailed': 'Failed to properly end session',
+  'video.title': 'Face-to-Face AI Consultation',
+  'video.subtitle': 'Have a personal video conversation with your AI mental health companion',
+  'video.connectionRequired': 'Connection Required',
+  'video.connectionRequiredHint': 'Video consultation requires a stable internet connection',
+  'video.accessRequired': 'Camera & Microphone Access Required',
+  'video.permissionDenied': 'Camera and microphone access denied. Please allow permissions to use video consultation.',
+  'video.noDevices': 'No camera or microphone found. Please connect a camera and microphone to use video consultation.',
+  'video.noDevicesToast': 'No camera or microphone detected',
+  'video.devicesBusy': 'Camera or microphone is already in use by another application.',
+  'video.devicesBusyToast': 'Camera/microphone in use by another app',
+  'video.devicesUnavailable': 'Unable to access camera and microphone. Please check your device settings.',
+  'video.devicesUnavailableToast': 'Unable to access camera/microphone',
+  'video.accessGranted': 'Camera and microphone access granted!',
+  'video.serverUnreachable': 'Unable to connect to server',
+  'video.openedInWindow': 'Video consultation opened in new window!',
+  'video.popupBlocked': 'Popup blocked! Please allow popups and try again, or click the link below.',
+  'video.sessionCleared': 'Session cleared successfully. You can now start a new session.',
+  'video.sessionClearFailed': 'Failed to clear session. Please try again.',
+  'video.supportiveDescription': 'Empathetic and understanding',
+  'video.professionalDescription': 'Clinical and structured approach',
+  'video.friendlyDescription': 'Warm and conversational',
+  'video.motivationalDescription': 'Inspiring and encouraging',
+  'video.tryAgain': 'Try Again',
+  'video.sessionActive': 'Session Active',
+  'video.runningElsewhere': 'Your AI consultation is running in a separate window',
+  'video.openWindow': 'Open Session Window',
+  'video.openWindowHint': "If the window didn't open automatically, click the button above",
+  'video.connectedToTavus': 'Connected to Tavus',
+  'video.ready': 'AI Companion Ready',
+  'video.readyHint': 'Start a session to begin video consultation',
+  'video.opensInWindow': 'Session will open in a new window',
+  'video.externalWindow': 'External Window',
+  'video.cameraRequired': 'Camera access required',
+  'video.cameraOff': 'Turn off camera',
+  'video.cameraOn': 'Turn on camera',
+  'video.microphoneRequired': 'Microphone access required',
+  'video.mute': 'Mute microphone',
+  'video.unmute': 'Unmute microphone',
+  'video.endSession': 'End Session',
+  'video.startSession': 'Start Session',
+  'video.starting': 'Starting...',
+  'video.sessionInfo': 'Session Info',
+  'video.maxDuration': 'Max Duration:',
+  'video.minutes': { one: '{count} minute', other: '{count} minutes' },
+  'video.timeLeft': 'Time Left:',
+  'video.status': 'Status:',
+  'video.statusActive': 'Active (External Window)',
+  'video.statusInactive': 'Inactive',
+  'video.urgentHelp': 'Need urgent help?',
+  'video.notCrisisService': 'The AI is not a crisis service. If you are thinking about harming yourself, talk to a person now.',
+  'video.crisisResources': 'Crisis resources',
+  'video.tipsTitle': 'Tips for Better Sessions',
+  'video.tipWindow': 'Session will open in a new window/tab',
+  'video.tipLighting': 'Ensure good lighting on your face',
+  'video.tipHeadphones': 'Use headphones for better audio quality',
+  'video.tipQuiet': 'Find a quiet, private space',
+  'video.tipSpeakClearly': 'Speak clearly and at normal pace',
+  'video.tipOpen': 'Be open and honest with the AI',
+  'video.sessionError': 'Session Error',
+  'video.clearSession': 'Clear Session',
+  'video.clearing': 'Clearing...',
+  'video.allowAccess': 'To use video consultation, please allow access to your camera and microphone.',
+  'video.howToEnable': 'How to enable permissions:',
+  'video.permissionStepIcon': "Look for the camera/microphone icon in your browser's address bar",
+  'video.permissionStepAllow': 'Click on it and select "Allow"',
+  'video.permissionStepSettings': 'Or go to your browser settings and enable camera/microphone for this site',
+  'video.permissionStepRefresh': 'Refresh the page if needed',
+
+  // Crisis resources
+  'crisis.title': "You don't have to face this alone",
+  'crisis.intro': 'It sounds like things are really hard right now. Talking to a trained person can help, and these services are free and confidential.',
+  'crisis.immediateDanger': 'If you are in immediate danger, call {number} now.',
+  'crisis.localEmergencyNumber': 'your local emergency number',
+  'crisis.call': 'Call {number}',
+  'crisis.text': 'Text {number}',
+  'crisis.website': 'Website',
+  'crisis.showingFor': 'Showing services for {region} based on your timezone. Not there right now?',
+  'crisis.findHelpline': 'Find a helpline in your country',
+  'crisis.understand': 'I understand',
+  'crisis.regionUs': 'United States',
+  'crisis.regionCa': 'Canada',
+  'crisis.regionGb': 'United Kingdom',
+  'crisis.regionIe': 'Ireland',
+  'crisis.regionIn': 'India',
+  'crisis.regionAu': 'Australia',
+  'crisis.regionNz': 'New Zealand',
+  'crisis.regionEs': 'Spain',
+  'crisis.regionMx': 'Mexico',
+  'crisis.regionIntl': 'International',
+  'crisis.us988': 'Free, confidential support 24/7 by call or text',
+  'crisis.usCrisisTextLine': 'Text HOME to reach a trained crisis counselor',
+  'crisis.ca988': 'Call or text any time, in English or French',
+  'crisis.ukSamaritans': 'Free to call 24/7, whatever you are going through',
+  'crisis.ukShout': 'Text SHOUT for free, confidential support 24/7',
+  'crisis.ieSamaritans': 'Free to call 24/7',
+  'crisis.ieTextAboutIt': 'Text HELLO for free support 24/7',
+  'crisis.inTeleManas': 'Free national mental health helpline, 24/7 in many languages',
+  'crisis.auLifeline': 'Crisis support and suicide prevention 24/7',
+  'crisis.nz1737': 'Call or text 1737 to talk with a trained counsellor',
+  'crisis.es024': 'Free 24-hour support for suicidal thoughts',
+  'crisis.mxLineaDeLaVida': 'Free emotional support 24 hours a day',
+  'crisis.intlFindAHelpline': 'Free, confidential helplines in your country',
+
+  // Session reports
+  'reports.title': 'Video Session Report',
+  'reports.generatedAt': 'Generated {date}',
+  'reports.generatedBy': 'Generated by MindPal AI Companion',
+  'reports.shareTitle': 'MindPal Video Session Report - {date}',
+  'reports.notAvailable': 'N/A',
+  'reports.sessionDetails': 'Session Details',
+  'reports.duration': 'Duration',
+  'reports.quality': 'Quality',
+  'reports.engagement': 'Engagement',
+  'reports.engagementLevel': 'Engagement Level',
+  'reports.technicalIssues': 'Technical Issues',
+  'reports.interactions': 'Interactions',
+  'reports.moodAnalysis': 'Mood Analysis',
+  'reports.overallSentiment': 'Overall Sentiment',
+  'reports.stressIndicators': 'Stress Indicators',
+  'reports.emotionalState': 'Emotional State',
+  'reports.confidenceScore': 'Confidence Score',
+  'reports.engagementMetrics': 'Engagement Metrics',
+  'reports.completionRate': 'Completion Rate',
+  'reports.userSatisfaction': 'User Satisfaction',
+  'reports.aiQuality': 'AI Quality',
+  'reports.recommendations': 'Recommendations',
+  'reports.share': 'Share Report',
+  'reports.exportJson': 'Export as JSON',
+  'reports.exportText': 'Export as Text',
+  'reports.overview': 'Session Overview',
+  'reports.notAssessed': 'Not assessed',
+  'reports.heuristic': 'Estimated from session data without AI analysis.',
+  'reports.totalInteractions': 'Total Interactions',
+  'reports.technicalPerformance': 'Technical Performance',
+  'reports.avgResponseTime': 'Avg Response Time',
+  'reports.analyticsEvents': 'Analytics Events',
+  'reports.timeline': 'Session Timeline',
+  'reports.started': 'Started:',
+  'reports.ended': 'Ended:',
+  'reports.reportGenerated': 'Report Generated:',
+  'reports.ratingPositive': 'Positive',
+  'reports.ratingNeutral': 'Neutral',
+  'reports.ratingNegative': 'Negative',
+  'reports.ratingLow': 'Low',
+  'reports.ratingMedium': 'Medium',
+  'reports.ratingHigh': 'High',
+  'reports.ratingImproving': 'Improving',
+  'reports.ratingStable': 'Stable',
+  'reports.ratingConcerning': 'Concerning',
+  'reports.ratingExcellent': 'Excellent',
+  'reports.ratingGood': 'Good',
+  'reports.ratingFair': 'Fair',
+  'reports.ratingBrief': 'Brief',
+  'reports.ratingPoor': 'Poor',
+  'reports.offline': 'Cannot generate report - no connection to server',
+  'reports.generating': 'Generating AI-powered session report...',
+  'reports.generated': 'AI session report generated successfully! 🎉',
+  'reports.generateFailed': 'Failed to generate session report',
+  'reports.loadFailed': 'Failed to load session reports',
+  'reports.copied': 'Report details copied to clipboard!',
+  'reports.shareFailed': 'Failed to share report',
+  'reports.exported': 'Report exported as {format}',
+  'reports.exportFailed': 'Failed to export report',
+
+  // Journal
+  'journal.saveFailed': 'Failed to save journal entry',
+  'journal.updateFailed': 'Failed to update journal entry',
+  'journal.deleteFailed': 'Failed to delete journal entry',
+  'journal.loadFailed': 'Failed to load journal',
+  'journal.title': 'Journal',
+  'journal.privateIntro': 'Private and encrypted. Only you can read what you write here.',
+  'journal.setPassphraseIntro': 'Set a passphrase to start writing. Entries are then encrypted with a key only you hold.',
+  'journal.legacyWarning': 'Your older entries are protected by a weaker key. Set a passphrase to re-encrypt them and write new ones.',
+  'journal.setPassphrase': 'Set passphrase',
+  'journal.newEntry': 'New Entry',
+  'journal.newEntryTitle': 'New entry',
+  'journal.search': 'Search your entries',
+  'journal.list': 'List',
+  'journal.calendar': 'Calendar',
+  'journal.showAllDays': 'Show all days',
+  'journal.lockedEntry': 'Locked entry',
+  'journal.untitled': 'Untitled',
+  'journal.linkedMood': 'Linked mood check-in',
+  'journal.editEntry': 'Edit entry',
+  'journal.deleteEntry': 'Delete entry',
+  'journal.confirmDelete': 'Delete?',
+  'journal.unlockToRead': 'Unlock with your passphrase to read this entry.',
+  'journal.cannotDecrypt': "This entry can't be decrypted on this device.",
+  'journal.showLess': 'Show less',
+  'journal.readMore': 'Read more',
+  'journal.empty': 'Your journal is empty. Write your first entry.',
+  'journal.noMatches': 'No entries match "{query}".',
+  'journal.noEntriesOnDay': 'No entries on this day.',
+  'journal.entryCount': { one: '{count} entry', other: '{count} entries' },
+  'journal.previousMonth': 'Previous month',
+  'journal.nextMonth': 'Next month',
+  'journal.removePrompt': 'Remove prompt',
+  'journal.promptsHint': 'Need a starting point?',
+  'journal.titlePlaceholder': 'Title (optional)',
+  'journal.formatBold': 'Bold',
+  'journal.formatItalic': 'Italic',
+  'journal.formatHeading': 'Heading',
+  'journal.formatList': 'List',
+  'journal.formatQuote': 'Quote',
+  'journal.write': 'Write',
+  'journal.preview': 'Preview',
+  'journal.nothingYet': 'Nothing written yet.',
+  'journal.bodyPlaceholder': 'Write freely. Only you can read this.',
+  'journal.linkMood': 'Link to a mood check-in',
+  'journal.noMoodsOnDay': 'No mood check-ins on this day.',
+  'journal.notLinked': 'Not linked',
+  'journal.linkedCheckIn': 'Linked check-in',
+  'journal.moodAt': '{mood}/10 at {time}',
+  'journal.encryptedNote': 'Encrypted on this device before it is saved',
+  'journal.save': 'Save',
+  'journal.saved': 'Entry saved',
+  'journal.updated': 'Entry updated',
+  'journal.deleted': 'Entry deleted',
+  'journal.promptGeneral1': 'What is taking up most of your thoughts today?',
+  'journal.promptGeneral2': 'Describe one small moment from today you want to remember.',
+  'journal.promptGeneral3': 'What would you like to let go of before tomorrow?',
+  'journal.promptGeneral4': 'What did you learn about yourself this week?',
+  'journal.promptGeneral5': 'Who made a difference to your day, and how?',
+  'journal.promptGeneral6': 'What are you looking forward to, even a little?',
+  'journal.promptGeneral7': 'If today had a title, what would it be?',
+  'journal.promptGeneral8': 'What is one thing you can do tomorrow to look after yourself?',
+  'journal.promptLow1': 'What feels heaviest right now? Write it down without judging it.',
+  'journal.promptLow2': 'What would you say to a friend who felt the way you do today?',
+  'journal.promptLow3': 'Name one thing that got you through today, however small.',
+  'journal.promptLow4': 'What do you need most right now, and who could help with it?',
+  'journal.promptLow5': "Which of today's worries are in your control, and which aren't?",
+  'journal.promptHigh1': 'What went well today, and what part did you play in it?',
+  'journal.promptHigh2': 'What are three things you feel grateful for right now?',
+  'journal.promptHigh3': "How can you carry some of today's energy into tomorrow?",
+  'journal.promptHigh4': 'What are you proud of this week?',
+
+  // Exercises
+  'exercises.loadFailed': 'Failed to load exercise history',
+  'exercises.saveFailed': 'Failed to save exercise session',
+  'exercises.title': 'Breathe & Ground',
+  'exercises.subtitle': 'Short guided exercises for when things feel like too much',
+  'exercises.all': 'All exercises',
+  'exercises.about': 'About {duration}',
+  'exercises.seconds': { one: '{count} sec', other: '{count} sec' },
+  'exercises.minutes': { one: '{count} min', other: '{count} min' },
+  'exercises.recent': 'Recent Sessions',
+  'exercises.empty': 'No sessions yet. Pick an exercise above to begin.',
+  'exercises.saved': 'Session saved to your mood history',
+  'exercises.round': 'Round {round} of {total}',
+  'exercises.step': 'Step {step} of {total}',
+  'exercises.narrationOn': 'Turn narration on',
+  'exercises.narrationOff': 'Turn narration off',
+  'exercises.narrationUnavailable': 'Narration needs voice to be set up and a connection',
+  'exercises.pause': 'Pause',
+  'exercises.resume': 'Resume',
+  'exercises.next': 'Next',
+  'exercises.stop': 'Stop',
+  'exercises.wellDone': 'Well done',
+  'exercises.wellDoneSpoken': 'Well done.',
+  'exercises.completed': { one: 'You completed {title} in {count} min.', other: 'You completed {title} in {count} min.' },
+  'exercises.logMood': 'Log how you feel',
+  'exercises.goAgain': 'Go again',
+  'exercises.done': 'Done',
+  'exercises.boxTitle': 'Box Breathing',
+  'exercises.boxSummary': 'Four equal counts to steady your breath and settle your mind.',
+  'exercises.boxInstructions': 'Sit comfortably. Follow the square: breathe in, hold, breathe out and hold again, four seconds each.',
+  'exercises.fourSevenEightTitle': '4-7-8 Breathing',
+  'exercises.fourSevenEightSummary': 'A long, slow exhale that helps your body switch into rest mode.',
+  'exercises.fourSevenEightInstructions': 'Breathe in quietly through your nose for 4, hold for 7, then breathe out fully through your mouth for 8.',
+  'exercises.groundingTitle': '5-4-3-2-1 Grounding',
+  'exercises.groundingSummary': 'Use your senses to come back to the present when feelings run high.',
+  'exercises.groundingInstructions': 'Take your time with each sense. Name things out loud or in your head, then move on when you are ready.',
+  'exercises.breatheIn': 'Breathe in',
+  'exercises.hold': 'Hold',
+  'exercises.breatheOut': 'Breathe out',
+  'exercises.breatheInNose': 'Breathe in through your nose',
+  'exercises.breatheOutMouth': 'Breathe out slowly through your mouth',
+  'exercises.see': '5 things you can see',
+  'exercises.seeNarration': 'Look around and name five things you can see',
+  'exercises.seeDetail': 'Notice colours, shapes, light and shadow.',
+  'exercises.feel': '4 things you can feel',
+  'exercises.feelNarration': 'Now notice four things you can feel',
+  'exercises.feelDetail': 'Your feet on the floor, the chair, the air on your skin.',
+  'exercises.hear': '3 things you can hear',
+  'exercises.hearNarration': 'Listen for three things you can hear',
+  'exercises.hearDetail': 'Near and far sounds, even quiet ones.',
+  'exercises.smell': '2 things you can smell',
+  'exercises.smellNarration': 'Find two things you can smell',
+  'exercises.smellDetail': 'Or two smells you like, if nothing stands out.',
+  'exercises.taste': '1 thing you can taste',
+  'exercises.tasteNarration': 'Notice one thing you can taste',
+  'exercises.tasteDetail': 'Then take one slow, deep breath.',
+
+  // Offline sync
+  'sync.dropped': { one: '{count} offline change could not be saved', other: '{count} offline changes could not be saved' },
+  'sync.synced': { one: 'Synced {count} offline change', other: 'Synced {count} offline changes' },
+  'sync.editedElsewhere': {
+    one: '{count} item was edited more recently on another device, so those edits were kept.',
+    other: '{count} items were edited more recently on another device, so those edits were kept.',
+  },
+  'sync.deletedElsewhere': {
+    one: '{count} item was deleted on another device.',
+    other: '{count} items were deleted on another device.',
+  },
+
+  // Encryption
+  'encryption.setupTitle': 'Protect your private data',
+  'encryption.setupIntro': "Set a passphrase to encrypt your journal and private data with a key only you hold. Existing entries are re-encrypted automatically. We never see your passphrase, so we can't recover it - you'll get a recovery code instead.",
+  'encryption.newPassphrase': { one: 'New passphrase (at least {count} character)', other: 'New passphrase (at least {count} characters)' },
+  'encryption.confirmPassphrase': 'Confirm new passphrase',
+  'encryption.currentPassphrase': 'Current passphrase',
+  'encryption.settingUp': 'Setting up...',
+  'encryption.setPassphrase': 'Set passphrase',
+  'encryption.unlockedTitle': 'Encryption is on and unlocked',
+  'encryption.unlockedHint': 'Your key stays unlocked until you lock it, sign out or reload the page.',
+  'encryption.lockNow': 'Lock now',
+  'encryption.changePassphrase': 'Change passphrase',
+  'encryption.newCodeTitle': 'New recovery code',
+  'encryption.newCodeHint': 'Lost your recovery code, or think someone else has seen it? Create a new one; the old code stops working.',
+  'encryption.creating': 'Creating...',
+  'encryption.createCode': 'Create new code',
+  'encryption.enterPassphrase': 'Enter your passphrase',
+  'encryption.lockedHint': 'Your private data is locked on this device.',
+  'encryption.passphrase': 'Passphrase',
+  'encryption.unlock': 'Unlock',
+  'encryption.unlocking': 'Unlocking...',
+  'encryption.forgotPassphrase': 'Forgot your passphrase?',
+  'encryption.useRecoveryCode': 'Use your recovery code',
+  'encryption.recoverHint': 'Enter the code you saved and choose a new passphrase.',
+  'encryption.recovering': 'Recovering...',
+  'encryption.setNewPassphrase': 'Set new passphrase',
+  'encryption.backToPassphrase': 'Back to passphrase',
+  'encryption.saveCode': 'Save your recovery code',
+  'encryption.saveCodeHint': "If you forget your passphrase, this code is the only way back into your journal. We can't reset it for you, and it won't be shown again.",
+  'encryption.copy': 'Copy',
+  'encryption.download': 'Download',
+  'encryption.codeSaved': "I've saved my recovery code somewhere safe",
+  'encryption.done': 'Done',
+  'encryption.codeCopied': 'Recovery code copied',
+  'encryption.codeCopyFailed': "Couldn't copy - write the code down instead",
+  'encryption.codeFileTitle': 'MindPal recovery code',
+  'encryption.codeFileHint': 'Use this to set a new passphrase if you forget yours. Keep it somewhere safe.',
+  'encryption.tooShort': { one: 'Use at least {count} character', other: 'Use at least {count} characters' },
+  'encryption.tooSimple': 'Use a mix of different characters',
+  'encryption.mismatch': "The passphrases don't match",
+  'encryption.offline': 'Connect to the internet to change your encryption settings',
+  'encryption.alreadySet': 'A passphrase has already been set. Unlock with it instead.',
+  'encryption.setupFailed': 'Failed to set up encryption',
+  'encryption.wrongPassphrase': 'That passphrase is not correct',
+  'encryption.wrongCurrentPassphrase': 'Your current passphrase is not correct',
+  'encryption.passphraseChanged': 'Passphrase changed',
+  'encryption.changeFailed': 'Failed to change passphrase',
+  'encryption.notRecoveryCode': "That doesn't look like a recovery code",
+  'encryption.wrongRecoveryCode': 'That recovery code is not correct',
+  'encryption.recoverFailed': 'Failed to recover your key',
+  'encryption.newCodeFailed': 'Failed to create a new recovery code',
+
+  // Memory
+  'memory.title': 'What MindPal Remembers',
+  'memory.intro': 'When a saved Voice AI chat ends and Data Sharing is on, MindPal keeps a few key facts so future conversations feel continuous. You can correct or remove anything here.',
+  'memory.savingOff': 'Conversation saving is off, so no new memories are being created.',
+  'memory.empty': 'Nothing remembered yet.',
+  'memory.categoryPerson': 'People',
+  'memory.categoryEvent': 'Events',
+  'memory.categoryPreference': 'Preferences',
+  'memory.categoryGoal': 'Goals',
+  'memory.categoryHealth': 'Wellbeing',
+  'memory.categoryOther': 'Other',
+  'memory.save': 'Save',
+  'memory.edit': 'Edit',
+  'memory.forget': 'Forget this',
+  'memory.confirmClear': { one: 'Forget {count} memory?', other: 'Forget all {count} memories?' },
+  'memory.forgetAll': 'Forget everything',
+  'memory.updated': 'Memory updated',
+  'memory.deleted': 'Memory deleted',
+  'memory.cleared': 'All memories cleared',
+  'memory.updateOffline': 'Cannot update memory - no connection to server',
+  'memory.deleteOffline': 'Cannot delete memory - no connection to server',
+  'memory.clearOffline': 'Cannot clear memory - no connection to server',
+  'memory.updateFailed': 'Failed to update memory',
+  'memory.deleteFailed': 'Failed to delete memory',
+  'memory.clearFailed': 'Failed to clear memory',
+
+  // Data export
+  'export.title': 'Your Data',
+  'export.intro': 'Download everything MindPal stores about you as a ZIP archive, with JSON and CSV for each kind of data. It is put together on this device; private data is included decrypted.',
+  'export.locked': 'Your encryption key is locked, so journal entries would be exported encrypted.',
+  'export.unlockFirst': 'Unlock it first',
+  'export.fetching': 'Fetching {table}...',
+  'export.decrypting': 'Decrypting {table}...',
+  'export.packaging': 'Packaging {table}...',
+  'export.archive': 'archive',
+  'export.progress': '{completed} of {total}',
+  'export.download': 'Download my data',
+  'export.offline': 'Connect to the internet to download your data',
+  'export.done': 'Your data has been downloaded',
+  'export.partial': {
+    one: "Data exported. {count} table couldn't be read - see manifest.json",
+    other: "Data exported. {count} tables couldn't be read - see manifest.json",
+  },
+  'export.failed': 'Failed to export your data',
+
+  // Data import
+  'import.title': 'Import from other apps',
+  'import.intro': "Bring in mood history and tasks from another app's export. You'll see a preview first; nothing is saved until you confirm. Dates without a time zone are read in your profile's time zone.",
+  'import.daylio': 'Daylio',
+  'import.daylioDescription': 'CSV export with date, time, mood, activities and note columns',
+  'import.moodCsv': 'Other mood tracker',
+  'import.moodCsvDescription': 'Any CSV with a date and a mood rating; you choose the columns',
+  'import.todoist': 'Todoist',
+  'import.todoistDescription': 'Project CSV export, including subtasks',
+  'import.taskCsv': 'Other task list',
+  'import.taskCsvDescription': 'Any CSV with a task title; you choose the columns',
+  'import.ics': 'Calendar (ICS)',
+  'import.icsDescription': 'To-dos and events from an .ics file',
+  'import.fieldDate': 'Date',
+  'import.fieldTime': 'Time',
+  'import.fieldMood': 'Mood',
+  'import.fieldActivities': 'Activities',
+  'import.fieldNote': 'Note',
+  'import.fieldTitle': 'Title',
+  'import.fieldDescription': 'Description',
+  'import.fieldDue': 'Due date',
+  'import.fieldPriority': 'Priority',
+  'import.fieldCompleted': 'Completed',
+  'import.fieldCategory': 'Category',
+  'import.kindMood': 'Moods',
+  'import.kindTask': 'Tasks',
+  'import.chooseFile': 'Choose {type} file',
+  'import.chooseAnother': 'Choose another file ({name})',
+  'import.matchColumns': 'Match your columns',
+  'import.notInFile': 'Not in this file',
+  'import.moodRatings': 'Mood ratings',
+  'import.scale': '1 to {max}',
+  'import.chooseColumn': 'Choose a column for {fields}.',
+  'import.reading': 'Reading...',
+  'import.readingFile': 'Reading {name}...',
+  'import.preview': 'Preview import',
+  'import.ready': '{count} ready',
+  'import.duplicates': '{count} already in MindPal',
+  'import.unreadable': "{count} can't be read",
+  'import.line': 'Line {line}',
+  'import.item': 'Item {line}',
+  'import.moodRow': '{mood}/10 on {date}',
+  'import.due': 'due {date}',
+  'import.done': 'done',
+  'import.statusError': 'Error',
+  'import.statusDuplicate': 'Duplicate',
+  'import.statusReady': 'Ready',
+  'import.more': 'and {count} more',
+  'import.skipDuplicates': 'Skip rows already in MindPal',
+  'import.importing': 'Importing...',
+  'import.progress': '{done} of {total}',
+  'import.importEntries': { one: 'Import {count} entry', other: 'Import {count} entries' },
+  'import.importTasks': { one: 'Import {count} task', other: 'Import {count} tasks' },
+  'import.imported': 'Imported {inserted} of {total}',
+  'import.skipped': {
+    one: '{count} row was skipped as a duplicate or unreadable.',
+    other: '{count} rows were skipped as duplicates or unreadable.',
+  },
+  'import.failedRows': 'These rows could not be saved:',
+  'import.another': 'Import another file',
+  'import.offline': 'Connect to the internet to import data',
+  'import.readFailed': 'Failed to read the file',
+  'import.stopped': 'Import stopped before it finished',
+  'import.parentFailed': 'Its parent task could not be imported',
+  'import.interrupted': 'Not imported: the import was interrupted',
+  'import.importedMoods': { one: 'Imported {count} mood entry', other: 'Imported {count} mood entries' },
+  'import.importedTasks': { one: 'Imported {count} task', other: 'Imported {count} tasks' },
+  'import.notDaylio': 'This does not look like a Daylio export (no full_date column)',
+  'import.unrecognisedDate': 'Unrecognised date "{value}"',
+  'import.missingDate': 'Missing date',
+  'import.unrecognisedMood': 'Unrecognised mood "{value}"',
+  'import.missingMood': 'Missing mood',
+  'import.unreadableDue': 'Couldn\'t read the due date "{value}", so it was left off',
+  'import.notTodoist': 'This does not look like a Todoist export (no TYPE and CONTENT columns)',
+  'import.missingTaskName': 'Missing task name',
+  'import.nestedTooDeep': 'Nested more than one level deep, so added to the top-level task',
+  'import.missingTitle': 'Missing title',
+  'import.unknownPriority': 'Unknown priority "{value}", so it was set to medium',
+  'import.noIcsItems': 'No to-dos or events found in this file',
+  'import.cancelledItem': 'Cancelled, so not imported',
+  'import.unsupportedRepeat': 'Repeat rule not supported, so imported as a one-off task',
+
+  // Data deletion
+  'deletion.title': 'Delete Data',
+  'deletion.intro': 'Deletions wait out a grace period before they run, so you can change your mind. Download your data first if you want a copy.',
+  'deletion.chatsTitle': 'Delete all chats',
+  'deletion.chatsDescription': 'Every Voice AI conversation and voice session, their mood analyses, and facts MindPal learned from them.',
+  'deletion.chatsDone': 'Deleted all chats',
+  'deletion.moodTitle': 'Delete mood history',
+  'deletion.moodDescription': 'All mood check-ins and mood analyses. Journal entries stay, without their mood links.',
+  'deletion.moodDone': 'Deleted mood history',
+  'deletion.videoTitle': 'Delete video sessions and reports',
+  'deletion.videoDescription': 'Every video consultation with the analytics recorded during it and the reports generated after.',
+  'deletion.videoDone': 'Deleted video sessions and reports',
+  'deletion.accountTitle': 'Delete my account',
+  'deletion.accountDescription': 'Your profile, sign-in and everything MindPal stores about you. This cannot be undone once it runs.',
+  'deletion.accountDone': 'Your account and all its data have been deleted',
+  'deletion.hours': { one: '{count} hour', other: '{count} hours' },
+  'deletion.days': { one: '{count} day', other: '{count} days' },
+  'deletion.scheduledFor': 'Scheduled for {date}',
+  'deletion.delete': 'Delete',
+  'deletion.runsAfter': 'Runs {grace} after you confirm',
+  'deletion.confirmTitle': '{title}?',
+  'deletion.runsIn': 'This runs in {grace}. Until then you can cancel it here.',
+  'deletion.runsInAccount': 'This runs in {grace}. Until then you can cancel it here or from the banner shown while you are signed in.',
+  'deletion.typeToConfirm': 'Type {phrase} to confirm',
+  'deletion.keep': 'Keep my data',
+  'deletion.scheduling': 'Scheduling...',
+  'deletion.schedule': 'Schedule deletion',
+  'deletion.offline': 'Connect to the internet to delete data',
+  'deletion.scheduled': 'Scheduled for {date}. You can cancel until then.',
+  'deletion.cancelled': 'Deletion cancelled',
+  'deletion.scheduleFailed': 'Failed to schedule deletion',
+  'deletion.cancelFailed': 'Failed to cancel deletion',
+
+  // Turning off a privacy toggle
+  'consent.analyticsTitle': 'Delete collected analytics?',
+  'consent.analyticsDescription': 'Video session events recorded so far. Session reports you already generated are kept.',
+  'consent.voiceTitle': 'Delete stored voice transcripts?',
+  'consent.voiceDescription': 'Saved messages you spoke to the assistant, and the encrypted copies of your messages.',
+  'consent.stopped': 'Nothing new is stored from now on. You can also delete what was kept before.',
+  'consent.permanent': "{description} This can't be undone.",
+  'consent.keep': 'Keep it',
+  'consent.deleting': 'Deleting...',
+  'consent.deleteNow': 'Delete now',
+  'consent.offline': 'Connect to the internet to delete this data',
+  'consent.deleted': { one: 'Deleted {count} record', other: 'Deleted {count} records' },
+  'consent.nothing': 'Nothing to delete',
+  'consent.failed': 'Failed to delete the data',
+} satisfies Record<string, Message>;
@@ -0,0 +1,1166 @@
+import type { Catalog } from '../types';
+
+export const es: Catalog = {
+  // Shared
+  'common.cancel': 'Cancelar',
+  'common.clear': 'Borrar',
+  'common.retry': 'Reintentar',
+  'common.retrying': 'Reintentando...',
+  'common.checking': 'Comprobando...',
+  'common.saving': 'Guardando...',
+  'common.connected': 'Conectado',
+  'common.offline': 'Sin conexión',
+  'common.actionFailed': 'No se pudo realizar la acción',
+  'common.listSeparator': ', ',
+  'common.close': 'Cerrar',
+
+  // Sign in
+  'auth.sessionExpired': 'Tu sesión ha caducado. Vuelve a iniciar sesión.',
+  'auth.tagline': 'Tu compañero de IA para la memoria, la salud mental y la asistencia por voz',
+  'auth.email': 'Correo electrónico',
+  'auth.emailPlaceholder': 'Introduce tu correo',
+  'auth.password': 'Contraseña',
+  'auth.passwordPlaceholder': 'Introduce tu contraseña',
+  'auth.emailRequired': 'El correo es obligatorio',
+  'auth.emailInvalid': 'Introduce un correo válido',
+  'auth.passwordRequired': 'La contraseña es obligatoria',
+  'auth.passwordTooShort': {
+    one: 'La contraseña debe tener al menos {count} carácter',
+    other: 'La contraseña debe tener al menos {count} caracteres',
+  },
+  'auth.notConfigured': 'La aplicación no está configurada. Revisa las variables de entorno.',
+  'auth.needsConnection': 'Se necesita conexión a internet para iniciar sesión',
+  'auth.serverUnreachable': 'No se puede conectar con el servidor de autenticación',
+  'auth.accountCreated': '¡Cuenta creada! Revisa tu correo para verificarla. 🎉',
+  'auth.welcomeBack': '¡Bienvenido de nuevo! ✨',
+  'auth.unexpectedError': 'Se produjo un error inesperado',
+  'auth.networkError': 'Error de red. Revisa tu conexión e inténtalo de nuevo.',
+  'auth.bannerNotConfigured': 'Aplicación sin configurar - Revisa las variables de entorno',
+  'auth.bannerOffline': 'Sin conexión a internet - No se puede iniciar sesión',
+  'auth.bannerServer': 'Problemas de conexión con el servidor - Inténtalo más tarde',
+  'auth.processing': 'Procesando...',
+  'auth.unavailable': 'No disponible',
+  'auth.createAccount': 'Crear cuenta',
+  'auth.signIn': 'Iniciar sesión',
+  'auth.haveAccount': '¿Ya tienes cuenta? Inicia sesión',
+  'auth.needAccount': '¿No tienes cuenta? Regístrate',
+  'auth.ready': 'Listo para iniciar sesión',
+  'auth.unavailableStatus': 'Inicio de sesión no disponible',
+
+  // Navigation
+  'nav.dashboard': 'Inicio',
+  'nav.tasks': 'Tareas',
+  'nav.mood': 'Ánimo',
+  'nav.journal': 'Diario',
+  'nav.voice': 'IA de voz',
+  'nav.video': 'Vídeo',
+  'nav.exercises': 'Ejercicios',
+  'nav.settings': 'Ajustes',
+
+  // Layout
+  'layout.welcome': 'Hola, {name}',
+  'layout.signOut': 'Cerrar sesión',
+  'layout.signedOut': 'Sesión cerrada ✨',
+  'layout.signOutError': 'Error al cerrar sesión, pero se ha cerrado en este dispositivo',
+  'layout.syncing': 'Sincronizando...',
+  'layout.unsynced': { one: '{count} sin sincronizar', other: '{count} sin sincronizar' },
+  'layout.checkingConnection': 'Comprobando la conexión...',
+  'layout.connectionRestored': '¡Conexión restablecida! 🎉',
+  'layout.stillOffline': 'Sigue habiendo problemas de conexión. Comprueba tu conexión a internet.',
+  'layout.connectionCheckFailed': 'No se pudo comprobar la conexión',
+  'layout.configTitle': 'Falta configuración',
+  'layout.configMessage': 'Las variables de entorno de Supabase no están configuradas. Revisa tu archivo .env.',
+  'layout.offlineTitle': 'Sin conexión a internet',
+  'layout.offlineMessage': 'Las tareas, estados de ánimo, chats y ajustes se guardan en este dispositivo y se sincronizarán al volver a conectarte.',
+  'layout.serverTitle': 'Problemas con el servidor',
+  'layout.serverMessage': 'Tenemos problemas para conectar con nuestros servidores. Reintentando automáticamente...',
+  'layout.details': 'Detalles',
+  'layout.configuration': 'Configuración: {status}',
+  'layout.internet': 'Internet: {status}',
+  'layout.database': 'Base de datos: {status}',
+  'layout.ok': 'Correcta',
+  'layout.missing': 'Falta',
+  'layout.disconnected': 'Desconectada',
+  'layout.deletionTitle': 'Cuenta programada para eliminarse',
+  'layout.deletionMessage': 'Tu cuenta y todos sus datos se eliminarán el {date}.',
+  'layout.keepAccount': 'Conservar mi cuenta',
+
+  // Dashboard
+  'dashboard.welcomeBack': '¡Hola de nuevo!',
+  'dashboard.welcomeToast': '¡Te damos la bienvenida a MindPal! 🎉',
+  'dashboard.canceledToast': 'Se canceló la acción. Puedes volver a intentarlo cuando quieras.',
+  'dashboard.loadError': 'No se pudieron cargar algunos datos. Prueba a recargar la página.',
+  'dashboard.badge': 'Insignia',
+  'dashboard.dataIssues': 'Problemas al cargar datos',
+  'dashboard.dataIssuesMessage': '{error} La aplicación seguirá funcionando con normalidad.',
+  'dashboard.offlineTitle': 'Trabajando sin conexión',
+  'dashboard.offlineMessage': 'Algunas funciones pueden estar limitadas. Los datos se sincronizarán cuando vuelva la conexión.',
+  'dashboard.tasksCompleted': 'Tareas completadas',
+  'dashboard.completionRate': '{rate} % completado',
+  'dashboard.todayMood': 'Ánimo de hoy',
+  'dashboard.notLogged': 'Sin registrar',
+  'dashboard.feelingGreat': '¡Te sientes genial!',
+  'dashboard.logMood': 'Registra tu ánimo',
+  'dashboard.chatSessions': 'Conversaciones',
+  'dashboard.aiConversations': 'Conversaciones con la IA',
+  'dashboard.streakTitle': { one: '🔥 ¡Racha de ánimo de {count} día!', other: '🔥 ¡Racha de ánimo de {count} días!' },
+  'dashboard.quickActions': 'Acciones rápidas',
+  'dashboard.voiceChat': 'Chat de voz',
+  'dashboard.voiceChatHint': 'Habla con tu compañero de IA',
+  'dashboard.moodCheck': 'Registro de ánimo',
+  'dashboard.moodCheckHint': 'Anota cómo te sientes',
+  'dashboard.addTask': 'Añadir tarea',
+  'dashboard.addTaskHint': 'Crea un nuevo recordatorio',
+  'dashboard.builtOnBolt': 'Creado con Bolt',
+
+  // Tasks
+  'tasks.title': 'Gestor de tareas',
+  'tasks.subtitle': 'Mantén el orden con una gestión de tareas pensada para el TDAH',
+  'tasks.summary': '{total} en total • {completed} completadas',
+  'tasks.overdueCount': { one: '{count} vencida', other: '{count} vencidas' },
+  'tasks.add': 'Añadir tarea',
+  'tasks.search': 'Buscar tareas...',
+  'tasks.filterAll': 'Todas las tareas',
+  'tasks.filterPending': 'Pendientes',
+  'tasks.filterCompleted': 'Completadas',
+  'tasks.filterOverdue': 'Vencidas',
+  'tasks.fieldTitle': 'Título de la tarea *',
+  'tasks.fieldTitlePlaceholder': '¿Qué hay que hacer?',
+  'tasks.fieldPriority': 'Prioridad',
+  'tasks.fieldDescription': 'Descripción',
+  'tasks.fieldDescriptionPlaceholder': 'Añade más detalles...',
+  'tasks.fieldCategory': 'Categoría',
+  'tasks.fieldCategoryPlaceholder': 'personal, trabajo, salud...',
+  'tasks.fieldDue': 'Fecha límite',
+  'tasks.fieldReminder': 'Recordármelo',
+  'tasks.fieldRepeat': 'Repetir',
+  'tasks.priorityLow': 'Prioridad baja',
+  'tasks.priorityMedium': 'Prioridad media',
+  'tasks.priorityHigh': 'Prioridad alta',
+  'tasks.badgeLow': 'baja',
+  'tasks.badgeMedium': 'media',
+  'tasks.badgeHigh': 'alta',
+  'tasks.overdueTag': '(Vencida)',
+  'tasks.steps': '{done}/{total} pasos',
+  'tasks.addSteps': 'Añadir pasos',
+  'tasks.timeLeft': 'quedan {time}',
+  'tasks.breakDown': 'Dividir en pasos',
+  'tasks.breakDownHint': 'Sugerir pasos pequeños para esta tarea',
+  'tasks.breakDownUnavailable': 'Necesita conexión y un proveedor de IA',
+  'tasks.edit': 'Editar tarea',
+  'tasks.delete': 'Eliminar tarea',
+  'tasks.emptyAll': 'Aún no hay tareas',
+  'tasks.emptyPending': 'No hay tareas pendientes',
+  'tasks.emptyCompleted': 'No hay tareas completadas',
+  'tasks.emptyOverdue': 'No hay tareas vencidas',
+  'tasks.emptyAllHint': '¡Empieza añadiendo tu primera tarea!',
+  'tasks.emptyFilteredHint': 'Prueba con otro filtro.',
+  'tasks.added': '¡Tarea añadida! 📝',
+  'tasks.completed': '¡Tarea completada! 🎉',
+  'tasks.completedNext': '¡Tarea completada! 🎉 La próxima vence el {date}',
+  'tasks.markedIncomplete': 'Tarea marcada como pendiente',
+  'tasks.stepsAdded': { one: 'Se añadió {count} paso ✨', other: 'Se añadieron {count} pasos ✨' },
+  'tasks.updated': 'Tarea actualizada',
+  'tasks.deleted': 'Tarea eliminada',
+  'tasks.addFailed': 'No se pudo añadir la tarea',
+  'tasks.updateFailed': 'No se pudo actualizar la tarea',
+  'tasks.deleteFailed': 'No se pudo eliminar la tarea',
+  'tasks.loadFailed': 'No se pudieron cargar las tareas',
+
+  // Mood
+  'mood.title': 'Registro de ánimo',
+  'mood.subtitle': 'Sigue tu camino de bienestar emocional',
+  'mood.viewTrack': 'Registrar',
+  'mood.viewInsights': 'Análisis',
+  'mood.prompt': '¿Cómo te sientes hoy?',
+  'mood.level1': 'Fatal',
+  'mood.level2': 'Triste',
+  'mood.level3': 'Mal',
+  'mood.level4': 'Regular',
+  'mood.level5': 'Bien',
+  'mood.level6': 'Muy bien',
+  'mood.level7': 'Estupendo',
+  'mood.level8': 'Increíble',
+  'mood.level9': 'Fantástico',
+  'mood.level10': 'Perfecto',
+  'mood.scaleLow': 'Fatal (1)',
+  'mood.scaleHigh': 'Perfecto (10)',
+  'mood.notesLabel': '¿Qué tienes en mente? (opcional)',
+  'mood.notesPlaceholder': 'Comparte tus pensamientos, sentimientos o lo que hizo especial tu día...',
+  'mood.details': 'Energía, ansiedad, sueño y actividades',
+  'mood.activitiesLabel': '¿Qué has estado haciendo?',
+  'mood.activityPlaceholder': 'Añade una actividad...',
+  'mood.tagsLabel': 'Etiquetas',
+  'mood.tagPlaceholder': 'Añade una etiqueta, p. ej. entrega o fin de semana...',
+  'mood.removeTag': 'Quitar {tag}',
+  'mood.addTag': 'Añadir',
+  'mood.save': 'Guardar registro',
+  'mood.energy': 'Energía',
+  'mood.anxiety': 'Ansiedad',
+  'mood.sleepQuality': 'Calidad del sueño',
+  'mood.energyLow': 'Agotado',
+  'mood.energyHigh': 'Con energía',
+  'mood.anxietyLow': 'Tranquilo',
+  'mood.anxietyHigh': 'Muy ansioso',
+  'mood.sleepQualityLow': 'Inquieto',
+  'mood.sleepQualityHigh': 'Reparador',
+  'mood.rate': 'Valorar',
+  'mood.weeklyAverage': 'Media semanal',
+  'mood.entriesThisMonth': 'Registros este mes',
+  'mood.currentStreak': 'Racha actual',
+  'mood.bestStreak': 'Mejor racha',
+  'mood.days': { one: '{count} día', other: '{count} días' },
+  'mood.freezeHint': 'Un día congelado mantiene tu racha sin registrar',
+  'mood.takeDayOff': {
+    one: 'Tomarme hoy libre (queda {count} este mes)',
+    other: 'Tomarme hoy libre (quedan {count} este mes)',
+  },
+  'mood.undoFreeze': 'Deshacer congelación',
+  'mood.toMilestone': {
+    one: '¡Falta {count} día para llegar a {milestone} días!',
+    other: '¡Faltan {count} días para llegar a {milestone} días!',
+  },
+  'mood.streakAmazing': { one: '¡Increíble! ¡Racha de {count} día!', other: '¡Increíble! ¡Racha de {count} días!' },
+  'mood.onlyToMilestone': {
+    one: '¡Solo falta {count} día para tu meta de {milestone} días!',
+    other: '¡Solo faltan {count} días para tu meta de {milestone} días!',
+  },
+  'mood.recent': 'Registros recientes',
+  'mood.exercise': 'Ejercicio',
+  'mood.stoppedEarly': '(sin terminar)',
+  'mood.editNotes': 'Editar notas',
+  'mood.deleteEntry': 'Eliminar registro',
+  'mood.showWith': 'Ver registros con {label}',
+  'mood.empty': 'Aún no hay registros de ánimo. ¡Empieza a anotar tus emociones!',
+  'mood.emptyFiltered': 'No hay registros recientes con {labels}.',
+  'mood.saved': '¡Ánimo guardado! 🎉',
+  'mood.updated': 'Registro actualizado',
+  'mood.deleted': 'Registro eliminado',
+  'mood.saveFailed': 'No se pudo guardar el registro',
+  'mood.updateFailed': 'No se pudo actualizar el registro',
+  'mood.deleteFailed': 'No se pudo eliminar el registro',
+  'mood.loadFailed': 'No se pudo cargar el historial de ánimo',
+
+  // Mood streaks
+  'streak.keepItUp': 'Estás creando un gran hábito registrando tu ánimo. ¡Sigue así!',
+  'streak.current': '¡Genial! Hoy ya registraste tu ánimo.',
+  'streak.frozen': 'Racha congelada por hoy. ¡Disfruta tu día libre!',
+  'streak.pending': '¡Registra tu ánimo hoy para mantener la racha!',
+  'streak.broken': 'Tu racha se rompió. ¡Empieza una nueva hoy!',
+  'streak.none': '¡Empieza a registrar tu ánimo!',
+  'streak.noFreezesLeft': 'No te quedan congelaciones este mes',
+  'streak.frozenToast': 'Racha congelada por hoy ❄️',
+  'streak.unfrozenToast': 'Congelación eliminada',
+
+  // Settings
+  'settings.title': 'Ajustes',
+  'settings.subtitle': 'Personaliza tu experiencia en MindPal',
+  'settings.tabProfile': 'Perfil',
+  'settings.tabPreferences': 'Preferencias',
+  'settings.tabNotifications': 'Notificaciones',
+  'settings.tabPrivacy': 'Privacidad',
+  'settings.tabEncryption': 'Cifrado',
+  'settings.tabMemory': 'Memoria',
+  'settings.tabImport': 'Importar',
+  'settings.email': 'Correo electrónico',
+  'settings.fullName': 'Nombre completo',
+  'settings.fullNamePlaceholder': 'Escribe tu nombre completo',
+  'settings.phone': 'Teléfono',
+  'settings.timezone': 'Zona horaria',
+  'settings.tzIndia': 'Hora estándar de la India',
+  'settings.tzEastern': 'Hora del Este',
+  'settings.tzCentral': 'Hora del Centro',
+  'settings.tzMountain': 'Hora de las Montañas',
+  'settings.tzPacific': 'Hora del Pacífico',
+  'settings.saveProfile': 'Guardar perfil',
+  'settings.profileSaved': '¡Perfil guardado!',
+  'settings.profileSaveFailed': 'No se pudo guardar el perfil',
+  'settings.signInToSaveProfile': 'Inicia sesión para guardar tu perfil',
+  'settings.theme': 'Tema',
+  'settings.themeLight': 'Claro',
+  'settings.themeDark': 'Oscuro',
+  'settings.themeAuto': 'Automático',
+  'settings.language': 'Idioma',
+  'settings.languageAiOnly': '{language} (solo respuestas de la IA)',
+  'settings.languageHint': 'Los idiomas marcados como «solo respuestas de la IA» traducen al asistente; el resto de la aplicación se muestra en inglés.',
+  'settings.voiceSpeed': 'Velocidad de voz de la IA',
+  'settings.speedSlow': 'Lenta',
+  'settings.speedNormal': 'Normal',
+  'settings.speedFast': 'Rápida',
+  'settings.personality': 'Personalidad de la IA',
+  'settings.personalitySupportive': 'Comprensiva y atenta',
+  'settings.personalityProfessional': 'Profesional',
+  'settings.personalityFriendly': 'Cercana e informal',
+  'settings.personalityMotivational': 'Motivadora',
+  'settings.savePreferences': 'Guardar preferencias',
+  'settings.preferencesSaved': '¡Preferencias guardadas!',
+  'settings.reminders': 'Recordatorios',
+  'settings.taskReminders': 'Recordatorios de tareas',
+  'settings.taskRemindersHint': 'Avisarme a la hora indicada en cada tarea',
+  'settings.moodCheckIn': 'Registro de ánimo',
+  'settings.moodCheckInHint': 'Un aviso diario si aún no has registrado tu ánimo',
+  'settings.dailySummary': 'Resumen diario',
+  'settings.dailySummaryHint': 'Tareas para hoy y todo lo vencido',
+  'settings.quietHours': 'Horas de silencio',
+  'settings.holdOvernight': 'Retener recordatorios por la noche',
+  'settings.holdOvernightHint': 'Los recordatorios de las horas de silencio llegan cuando terminan ({zone})',
+  'settings.deviceTimeZone': 'la zona horaria de tu dispositivo',
+  'settings.to': 'a',
+  'settings.browserNotifications': 'Notificaciones del navegador',
+  'settings.notificationsGranted': 'Activadas. Los recordatorios también te llegan cuando MindPal está en una pestaña en segundo plano.',
+  'settings.notificationsDenied': 'Bloqueadas en este navegador. Los recordatorios solo se mostrarán dentro de la aplicación.',
+  'settings.notificationsUnsupported': 'Este navegador no admite notificaciones. Los recordatorios se mostrarán dentro de la aplicación.',
+  'settings.notificationsDefault': 'Los recordatorios se muestran dentro de la aplicación. Permite las notificaciones para recibirlos con MindPal en segundo plano.',
+  'settings.allow': 'Permitir',
+  'settings.notificationsEnabled': 'Notificaciones del navegador activadas',
+  'settings.notificationsBlocked': 'Las notificaciones están bloqueadas: permítelas en los ajustes del navegador',
+  'settings.notificationsFailed': 'No se pudieron activar las notificaciones del navegador',
+  'settings.dataPrivacy': 'Datos y privacidad',
+  'settings.dataSharing': 'Compartir datos',
+  'settings.dataSharingHint': 'Permitir llamadas adicionales que envían tus mensajes al proveedor de IA: una segunda comprobación de seguridad de los mensajes preocupantes y recordar datos de los chats guardados',
+  'settings.analytics': 'Analítica',
+  'settings.analyticsHint': 'Registrar eventos de las sesiones de vídeo que se usan en tus informes',
+  'settings.voiceRecordings': 'Grabaciones de voz',
+  'settings.voiceRecordingsHint': 'Guardar las transcripciones de lo que dices a la IA de voz y copias cifradas de tus mensajes',
+  'settings.saveConversations': 'Guardar conversaciones',
+  'settings.saveConversationsHint': 'Conservar los chats con la IA de voz para retomarlos más tarde',
+  'settings.encryptedNotice': '🔒 Todos los datos sensibles se cifran antes de guardarse. Tu privacidad es nuestra prioridad.',
+  'settings.savePrivacy': 'Guardar ajustes de privacidad',
+  'settings.privacySaved': '¡Ajustes de privacidad guardados!',
+  'settings.saved': '¡Ajustes guardados!',
+  'settings.savedOffline': 'Ajustes guardados en este dispositivo; se sincronizarán cuando vuelvas a estar en línea',
+  'settings.savedLocally': 'Ajustes guardados localmente (Supabase no está configurado)',
+  'settings.signInToSave': 'Inicia sesión para guardar los ajustes',
+  'settings.loadFailed': 'No se puede conectar con el servidor. Se usan los ajustes predeterminados.',
+  'settings.createFailed': 'No se puede conectar con el servidor. Ajustes guardados localmente.',
+  // Mood analytics
+  'analytics.range30d': '30 días',
+  'analytics.range90d': '3 meses',
+  'analytics.range180d': '6 meses',
+  'analytics.range365d': '1 año',
+  'analytics.daily': 'Diario',
+  'analytics.weekly': 'Semanal',
+  'analytics.monthly': 'Mensual',
+  'analytics.filterLabel': 'Filtrar por etiqueta o actividad',
+  'analytics.allEntries': 'Todas las entradas',
+  'analytics.averageMood': 'Ánimo medio',
+  'analytics.entries': 'Entradas',
+  'analytics.onDays': { one: 'en {count} día', other: 'en {count} días' },
+  'analytics.trend': 'Tendencia del periodo',
+  'analytics.steady': 'Estable',
+  'analytics.empty': 'Todavía no hay entradas de ánimo en este periodo.',
+  'analytics.overTime': 'Ánimo a lo largo del tiempo',
+  'analytics.average': 'Media',
+  'analytics.movingAverageDay': { one: 'Media móvil de {count} día', other: 'Media móvil de {count} días' },
+  'analytics.movingAverageWeek': { one: 'Media móvil de {count} semana', other: 'Media móvil de {count} semanas' },
+  'analytics.movingAverageMonth': { one: 'Media móvil de {count} mes', other: 'Media móvil de {count} meses' },
+  'analytics.weekOf': 'Semana del {date}',
+  'analytics.bucketEntries': { one: '{date}: {average}/10 ({count} entrada)', other: '{date}: {average}/10 ({count} entradas)' },
+  'analytics.byWeekday': 'Por día de la semana',
+  'analytics.byTimeOfDay': 'Por momento del día',
+  'analytics.mon': 'lun',
+  'analytics.tue': 'mar',
+  'analytics.wed': 'mié',
+  'analytics.thu': 'jue',
+  'analytics.fri': 'vie',
+  'analytics.sat': 'sáb',
+  'analytics.sun': 'dom',
+  'analytics.morning': 'Mañana',
+  'analytics.afternoon': 'Tarde',
+  'analytics.evening': 'Atardecer',
+  'analytics.night': 'Noche',
+  'analytics.checkIns': 'Medias de los registros',
+  'analytics.checkInsHint': 'De los registros en los que los valoraste. Menos ansiedad es mejor.',
+  'analytics.tagsTitle': 'Etiquetas y actividades',
+  'analytics.tagsHint': 'Ánimo medio con cada una y la diferencia con las entradas que no la tienen.',
+  'analytics.activities': 'Actividades',
+  'analytics.tags': 'Etiquetas',
+  'analytics.addToCompare': 'Añádelas a algunos registros para compararlas.',
+  'analytics.correlationsTitle': 'Qué acompaña a tu ánimo',
+  'analytics.correlationsHint': 'Basado en los días en que registraste tu ánimo. Que haya relación no significa que una cosa cause la otra.',
+  'analytics.tasksTitle': 'Tareas completadas',
+  'analytics.tasksActivity': 'tareas completadas',
+  'analytics.chatsTitle': 'Actividad de chat',
+  'analytics.chatsActivity': 'mensajes de chat',
+  'analytics.loadingActivity': 'Cargando actividad...',
+  'analytics.daysWith': 'Días con',
+  'analytics.daysWithout': 'Días sin',
+  'analytics.needMoreDays': 'Registra tu ánimo al menos {count} días para ver cómo se relaciona con {activity}.',
+  'analytics.noVariation': 'Todavía no hay suficiente variación en {activity} para comparar.',
+  'analytics.noLink': 'Tu ánimo no parece cambiar con {activity}.',
+  'analytics.linkHigher': 'Hay una relación {strength}: tu ánimo suele ser más alto los días con más {activity}.',
+  'analytics.linkLower': 'Hay una relación {strength}: tu ánimo suele ser más bajo los días con más {activity}.',
+  'analytics.strengthWeak': 'débil',
+  'analytics.strengthModerate': 'moderada',
+  'analytics.strengthStrong': 'fuerte',
+
+  // Achievements
+  'achievements.title': 'Logros',
+  'achievements.earned': '{unlocked} de {total} conseguidos',
+  'achievements.showAll': 'Ver todas las insignias',
+  'achievements.hide': 'Ocultar insignias',
+  'achievements.unlocked': { one: 'Logro desbloqueado', other: '{count} logros desbloqueados' },
+  'achievements.nice': '¡Genial!',
+  'achievements.firstStep': 'Primer paso',
+  'achievements.gettingThingsDone': 'Manos a la obra',
+  'achievements.taskTamer': 'Domador de tareas',
+  'achievements.centurion': 'Centurión',
+  'achievements.unstoppable': 'Imparable',
+  'achievements.checkingIn': 'Primer registro',
+  'achievements.selfAware': 'Autoconsciente',
+  'achievements.moodMapper': 'Cartógrafo del ánimo',
+  'achievements.innerCompass': 'Brújula interior',
+  'achievements.yearOfFeelings': 'Un año de emociones',
+  'achievements.streak': { one: 'Racha de {count} día', other: 'Racha de {count} días' },
+  'achievements.helloThere': '¡Hola!',
+  'achievements.goodListener': 'Buen oyente',
+  'achievements.deepTalker': 'Conversador profundo',
+  'achievements.faceToFace': 'Cara a cara',
+  'achievements.regularVisitor': 'Visitante habitual',
+  'achievements.trustedCompanion': 'Compañía de confianza',
+  'achievements.describeTasks': { one: 'Completa {count} tarea', other: 'Completa {count} tareas' },
+  'achievements.describeCheckIns': { one: 'Registra tu ánimo {count} vez', other: 'Registra tu ánimo {count} veces' },
+  'achievements.describeStreak': { one: 'Registra tu ánimo {count} día seguido', other: 'Registra tu ánimo {count} días seguidos' },
+  'achievements.describeChats': { one: 'Inicia {count} sesión de chat', other: 'Inicia {count} sesiones de chat' },
+  'achievements.describeVideos': { one: 'Ten {count} sesión de vídeo', other: 'Ten {count} sesiones de vídeo' },
+
+  // Task editing, quick add and breakdown
+  'tasks.titlePlaceholder': 'Título de la tarea',
+  'tasks.save': 'Guardar',
+  'tasks.quickAddPlaceholder': 'Añadir rápido: "{example}"',
+  'tasks.quickAddButton': 'Añadir',
+  'tasks.quickAddNoTitle': 'Añade un título',
+  'tasks.renameStep': 'Haz clic para renombrar',
+  'tasks.deleteStep': 'Eliminar paso',
+  'tasks.addStepPlaceholder': 'Añadir un paso...',
+  'tasks.estimateMinutes': '{minutes} min',
+  'tasks.estimateHours': '{hours} h',
+  'tasks.estimateHoursMinutes': '{hours} h {minutes} min',
+  'breakdown.title': 'Pasos sugeridos',
+  'breakdown.total': '· unos {time}',
+  'breakdown.loading': 'Dividiendo la tarea...',
+  'breakdown.minutes': 'Minutos',
+  'breakdown.minutesShort': 'min',
+  'breakdown.moveUp': 'Subir',
+  'breakdown.moveDown': 'Bajar',
+  'breakdown.remove': 'Quitar paso',
+  'breakdown.addStep': 'Añadir un paso',
+  'breakdown.adding': 'Añadiendo...',
+  'breakdown.accept': 'Añadir estos pasos',
+  'breakdown.retry': 'Intentar de nuevo',
+  'breakdown.discard': 'Descartar',
+  'breakdown.notConfigured': 'La IA no está configurada, así que no se pueden dividir las tareas',
+  'breakdown.noSteps': 'No se nos ocurrieron pasos para esta tarea; prueba a añadir una descripción',
+  'breakdown.failed': 'No se pudo dividir la tarea',
+
+  // Repeating tasks
+  'recurrence.none': 'No se repite',
+  'recurrence.custom': 'Personalizado (RRULE)',
+  'recurrence.hint': 'FREQ (DAILY, WEEKLY, MONTHLY, YEARLY) con INTERVAL, BYDAY, COUNT o UNTIL opcionales',
+  'recurrence.unsupported': 'Esta regla no es compatible',
+  'recurrence.presetDaily': 'Cada día',
+  'recurrence.presetWeekdays': 'Cada día laborable',
+  'recurrence.presetWeekly': 'Cada semana',
+  'recurrence.presetBiweekly': 'Cada 2 semanas',
+  'recurrence.presetMonthly': 'Cada mes',
+  'recurrence.everyDay': { one: 'Cada día', other: 'Cada {count} días' },
+  'recurrence.everyWeek': { one: 'Cada semana', other: 'Cada {count} semanas' },
+  'recurrence.everyMonth': { one: 'Cada mes', other: 'Cada {count} meses' },
+  'recurrence.everyYear': { one: 'Cada año', other: 'Cada {count} años' },
+  'recurrence.onDays': '{rule} los {days}',
+  'recurrence.timesLeft': { one: '{rule}, queda {count} vez', other: '{rule}, quedan {count} veces' },
+  'recurrence.until': '{rule}, hasta el {date}',
+
+  // Reminders
+  'reminders.taskTitle': 'Recordatorio de tarea',
+  'reminders.taskDue': '{title} - vence el {date}',
+  'reminders.moodTitle': '¿Cómo te sientes?',
+  'reminders.moodBody': 'Hoy todavía no has registrado tu ánimo. Una entrada rápida lleva unos segundos.',
+  'reminders.summaryTitle': 'Tu día de un vistazo',
+  'reminders.dueToday': { one: '{count} tarea vence hoy', other: '{count} tareas vencen hoy' },
+  'reminders.nothingDue': 'Nada vence hoy',
+  'reminders.overdue': '{count} atrasadas',
+  'reminders.open': '{count} pendientes en total',
+  'reminders.summaryBody': '{parts}.',
+
+  // Chat sessions
+  'chat.loadFailed': 'No se pudieron cargar las sesiones de chat',
+  'chat.messagesFailed': 'No se pudieron cargar los mensajes',
+  'chat.created': '¡Nueva sesión de chat creada!',
+  'chat.createFailed': 'No se pudo crear la sesión',
+  'chat.saveFailed': 'No se pudo guardar el mensaje',
+  'chat.deleted': 'Sesión de chat eliminada',
+  'chat.deleteFailed': 'No se pudo eliminar la sesión',
+  'chat.renamed': 'Título de la sesión actualizado',
+  'chat.renameFailed': 'No se pudo actualizar el título',
+  'chat.reportOffline': 'No se puede generar el informe: no hay conexión con el servidor',
+  'chat.reportReady': '¡Informe de ánimo generado!',
+  'chat.reportFailed': 'No se pudo generar el informe de ánimo',
+  'chat.linkCopied': '¡Enlace del chat copiado al portapapeles!',
+  'chat.shareFailed': 'No se pudo compartir la sesión',
+  'chat.savedChats': 'Chats guardados',
+  'chat.noSavedChats': 'Aún no hay chats guardados. Tu próxima conversación aparecerá aquí.',
+  'chat.saveTitle': 'Guardar título',
+  'chat.rename': 'Cambiar nombre',
+  'chat.delete': 'Eliminar',
+  'chat.keep': 'Conservar',
+  'chat.confirmDelete': '¿Eliminar este chat?',
+
+  // Voice
+  'voice.playFailed': 'No se pudo reproducir el audio',
+  'voice.noApiKey': 'La clave de API de ElevenLabs no está configurada',
+  'voice.speechOffline': 'Se necesita conexión a internet para la síntesis de voz',
+  'voice.speechFailed': 'No se pudo generar la voz',
+  'voice.listening': 'Escuchando... ¡Habla ahora!',
+  'voice.recognitionOffline': 'Se necesita conexión a internet para el reconocimiento de voz',
+  'voice.recognitionUnsupported': 'Este navegador no admite el reconocimiento de voz',
+  'voice.recognitionFailed': 'Falló el reconocimiento de voz',
+  'voice.errorNetwork': 'Error de red: comprueba tu conexión a internet e inténtalo de nuevo',
+  'voice.errorNotAllowed': 'Acceso al micrófono denegado. Permite el micrófono e inténtalo de nuevo',
+  'voice.errorNoSpeech': 'No se detectó voz. Habla con claridad e inténtalo de nuevo',
+  'voice.errorAudioCapture': 'No se encontró el micrófono o no funciona. Compruébalo',
+  'voice.errorService': 'El servicio de reconocimiento de voz no está disponible. Inténtalo más tarde',
+  'voice.errorGrammar': 'Error de gramática del reconocimiento de voz. Vuelve a intentarlo',
+  'voice.errorLanguage': 'El reconocimiento de voz no admite este idioma',
+  'voice.errorOther': 'Error de reconocimiento de voz: {error}',
+  'voice.title': 'Compañero de voz con IA',
+  'voice.subtitlePrivate': 'Conversaciones de voz privadas (no se guardan)',
+  'voice.subtitleSaved': 'Las conversaciones se guardan en tu cuenta',
+  'voice.subtitleTypedSaved': 'Los mensajes escritos se guardan en tu cuenta; los hablados siguen siendo privados',
+  'voice.savingOn': 'Guardando conversaciones - pulsa para el modo privado',
+  'voice.savingOff': 'Modo privado - pulsa para guardar las conversaciones',
+  'voice.autoSpeakOn': 'Lectura automática activada',
+  'voice.autoSpeakOff': 'Lectura automática desactivada',
+  'voice.ready': 'Voz lista',
+  'voice.newChat': 'Nuevo chat',
+  'voice.continuousOn': 'Modo de voz continuo ACTIVADO',
+  'voice.continuousOff': 'Modo de voz continuo DESACTIVADO',
+  'voice.startVoiceChat': 'Iniciar chat de voz',
+  'voice.stopVoiceChat': 'Detener chat de voz',
+  'voice.noInternet': 'Sin conexión a internet',
+  'voice.noInternetHint': 'El reconocimiento de voz y el chat con IA no están disponibles sin internet.',
+  'voice.limited': 'Funciones de voz limitadas',
+  'voice.limitedHint': 'La clave de API de ElevenLabs no está configurada. La lectura en voz alta no está disponible.',
+  'voice.emptySaved': '¡Empieza una conversación! Se guardará para que puedas retomarla más tarde.',
+  'voice.emptyPrivate': '¡Empieza una conversación privada! Los mensajes no se guardan.',
+  'voice.aiOffline': 'Las funciones de IA necesitan conexión a internet',
+  'voice.undo': 'Deshacer',
+  'voice.undone': 'Deshecho',
+  'voice.stop': 'Detener',
+  'voice.speak': 'Leer en voz alta',
+  'voice.responding': 'La IA está respondiendo...',
+  'voice.thinking': 'La IA está pensando...',
+  'voice.stopGenerating': 'Dejar de generar',
+  'voice.placeholder': 'Escribe un mensaje, o "remind me to..." / "log my mood as..."',
+  'voice.placeholderOffline': 'Sin conexión - aún puedes añadir tareas o registrar tu ánimo',
+  'voice.send': 'Enviar',
+  'voice.voiceUnavailable': 'Las funciones de voz necesitan conexión a internet y una clave de API',
+  'voice.startVoice': 'Iniciar conversación de voz',
+  'voice.listeningShort': 'Escuchando...',
+  'voice.voice': 'Voz',
+  'voice.generateReport': 'Generar informe de ánimo con IA',
+  'voice.report': 'Informe',
+  'voice.clearConversation': 'Borrar conversación',
+  'voice.reportTitle': 'Informe de análisis del ánimo generado por IA',
+  'voice.overallMood': 'Ánimo general:',
+  'voice.stressLevel': 'Nivel de estrés:',
+  'voice.emotions': 'Emociones detectadas:',
+  'voice.weekCheckIns': 'Tus registros de esta semana:',
+  'voice.weekAverage': { one: '{count} registro, ánimo medio {mood}/10', other: '{count} registros, ánimo medio {mood}/10' },
+  'voice.weekEnergy': 'energía {value}',
+  'voice.weekAnxiety': 'ansiedad {value}',
+  'voice.weekSleep': 'sueño {value}',
+  'voice.mostLogged': 'Lo más registrado: {items}',
+  'voice.summary': 'Resumen:',
+  'voice.keyConcerns': 'Preocupaciones principales:',
+  'voice.positiveIndicators': 'Indicadores positivos:',
+  'voice.recommendations': 'Recomendaciones de la IA:',
+  'voice.none': 'Ninguna',
+  'voice.tryIt': 'Probar',
+  'voice.confidence': '{percent} %',
+  'voice.confidenceOffline': '{percent} % (análisis de palabras clave sin conexión)',
+  'voice.copyReport': 'Copiar informe',
+  'voice.reportCopied': '¡Informe copiado al portapapeles!',
+  'voice.privacyTitle': 'Privacidad ante todo:',
+  'voice.privacySaved': 'El guardado está activado, así que tus conversaciones se almacenan en tu cuenta y puedes eliminarlas desde la barra lateral cuando quieras. Vuelve al modo privado para dejar de guardarlas.',
+  'voice.privacyPrivate': 'Tus conversaciones de voz son totalmente privadas y no se guardan en ninguna base de datos. Solo se mantienen en memoria datos temporales de la sesión como contexto durante la conversación actual.',
+  'voice.poweredBy': 'Síntesis de voz con tecnología de ElevenLabs.',
+  'voice.replyCutOff': 'La respuesta se cortó - inténtalo de nuevo',
+  'voice.taskAdded': 'Tarea añadida',
+  'voice.moodLogged': 'Ánimo registrado',
+  'voice.taskRemoved': 'Tarea eliminada',
+  'voice.moodRemoved': 'Registro de ánimo eliminado',
+  'voice.commandFailedSpoken': 'Lo siento, no pude guardarlo.',
+  'voice.commandFailed': 'Lo siento, no pude guardarlo. Inténtalo de nuevo.',
+  'voice.sendOffline': 'No se puede enviar el mensaje - sin conexión a internet',
+  'voice.replyGenerated': '¡Respuesta de la IA generada!',
+  'voice.requestFailed': 'No se pudo procesar tu solicitud',
+  'voice.replyCancelled': 'Respuesta cancelada',
+  'voice.featuresOffline': 'Las funciones de voz necesitan conexión a internet',
+  'voice.inputFailed': 'Falló la entrada de voz',
+  'voice.newConversation': 'Nueva conversación iniciada',
+  'voice.nothingToAnalyze': 'No hay conversación que analizar',
+  'voice.reportGenerated': '¡Informe de IA generado!',
+  'voice.reportGeneratedOffline': 'Informe generado con análisis sin conexión',
+  'voice.speechUnavailable': 'La lectura en voz alta no está disponible',
+  'voice.conversationCleared': 'Conversación borrada',
+
+  // Voice commands
+  'intents.loggedMood': 'He registrado tu ánimo como {mood} de 10 ({label}).',
+  'intents.loggedMoodWithNote': 'He registrado tu ánimo como {mood} de 10 ({label}), con la nota «{note}».',
+  'intents.addedTask': 'He añadido «{title}» a tus tareas.',
+  'intents.addedTaskFor': 'He añadido «{title}» a tus tareas para el {when}.',
+  'intents.addedReminder': 'He añadido «{title}» a tus tareas para el {when} y te lo recordaré entonces.',
+
+  // Video
+  'video.mediaFailed': 'No se pudo acceder a la cámara o al micrófono',
+  'video.noLingering': 'No hay sesiones abiertas en la base de datos',
+  'video.cleared': { one: 'Se cerró {count} sesión abierta', other: 'Se cerraron {count} sesiones abiertas' },
+  'video.clearFailed': 'No se pudieron cerrar las sesiones abiertas',
+  'video.noApiKey': 'La clave de API de Tavus no está configurada',
+  'video.offline': 'Se necesita conexión a internet para las sesiones de vídeo',
+  'video.alreadyActive': 'Ya tienes una sesión de vídeo activa. Termina la sesión actual antes de empezar otra, o vuelve a intentarlo en unos minutos si crees que no hay ninguna activa.',
+  'video.createFailed': 'No se pudo crear la sesión de vídeo',
+  'video.signIn': 'Inicia sesión para empezar una sesión de vídeo',
+  'video.started': '¡Sesión de vídeo iniciada!',
+  'video.startFailed': 'No se pudo iniciar la sesión de vídeo',
+  'video.ended': 'Sesión de vídeo terminada',
+  'video.endFailed': 'No se pudo terminar la sesión correctamente',
+  'video.title': 'Consulta cara a cara con la IA',
+  'video.subtitle': 'Ten una conversación por vídeo con tu compañero de IA para la salud mental',
+  'video.connectionRequired': 'Se necesita conexión',
+  'video.connectionRequiredHint': 'La consulta por vídeo necesita una conexión a internet estable',
+  'video.accessRequired': 'Se necesita acceso a la cámara y el micrófono',
+  'video.permissionDenied': 'Se denegó el acceso a la cámara y el micrófono. Concede los permisos para usar la consulta por vídeo.',
+  'video.noDevices': 'No se encontró cámara ni micrófono. Conecta una cámara y un micrófono para usar la consulta por vídeo.',
+  'video.noDevicesToast': 'No se detectó cámara ni micrófono',
+  'video.devicesBusy': 'Otra aplicación ya está usando la cámara o el micrófono.',
+  'video.devicesBusyToast': 'Cámara o micrófono en uso por otra aplicación',
+  'video.devicesUnavailable': 'No se puede acceder a la cámara ni al micrófono. Revisa los ajustes del dispositivo.',
+  'video.devicesUnavailableToast': 'No se puede acceder a la cámara o el micrófono',
+  'video.accessGranted': '¡Acceso a la cámara y el micrófono concedido!',
+  'video.serverUnreachable': 'No se puede conectar con el servidor',
+  'video.openedInWindow': '¡La consulta por vídeo se abrió en una ventana nueva!',
+  'video.popupBlocked': '¡Ventana emergente bloqueada! Permite las ventanas emergentes e inténtalo de nuevo, o pulsa el enlace de abajo.',
+  'video.sessionCleared': 'Sesión eliminada. Ya puedes empezar una nueva.',
+  'video.sessionClearFailed': 'No se pudo eliminar la sesión. Inténtalo de nuevo.',
+  'video.supportiveDescription': 'Empático y comprensivo',
+  'video.professionalDescription': 'Enfoque clínico y estructurado',
+  'video.friendlyDescription': 'Cercano y conversador',
+  'video.motivationalDescription': 'Inspirador y alentador',
+  'video.tryAgain': 'Reintentar',
+  'video.sessionActive': 'Sesión activa',
+  'video.runningElsewhere': 'Tu consulta con la IA se está ejecutando en otra ventana',
+  'video.openWindow': 'Abrir ventana de la sesión',
+  'video.openWindowHint': 'Si la ventana no se abrió sola, pulsa el botón de arriba',
+  'video.connectedToTavus': 'Conectado a Tavus',
+  'video.ready': 'Compañero de IA listo',
+  'video.readyHint': 'Inicia una sesión para empezar la consulta por vídeo',
+  'video.opensInWindow': 'La sesión se abrirá en una ventana nueva',
+  'video.externalWindow': 'Ventana externa',
+  'video.cameraRequired': 'Se necesita acceso a la cámara',
+  'video.cameraOff': 'Apagar cámara',
+  'video.cameraOn': 'Encender cámara',
+  'video.microphoneRequired': 'Se necesita acceso al micrófono',
+  'video.mute': 'Silenciar micrófono',
+  'video.unmute': 'Activar micrófono',
+  'video.endSession': 'Terminar sesión',
+  'video.startSession': 'Iniciar sesión',
+  'video.starting': 'Iniciando...',
+  'video.sessionInfo': 'Información de la sesión',
+  'video.maxDuration': 'Duración máxima:',
+  'video.minutes': { one: '{count} minuto', other: '{count} minutos' },
+  'video.timeLeft': 'Tiempo restante:',
+  'video.status': 'Estado:',
+  'video.statusActive': 'Activa (ventana externa)',
+  'video.statusInactive': 'Inactiva',
+  'video.urgentHelp': '¿Necesitas ayuda urgente?',
+  'video.notCrisisService': 'La IA no es un servicio de crisis. Si estás pensando en hacerte daño, habla con una persona ahora.',
+  'video.crisisResources': 'Recursos de crisis',
+  'video.tipsTitle': 'Consejos para mejores sesiones',
+  'video.tipWindow': 'La sesión se abrirá en una ventana o pestaña nueva',
+  'video.tipLighting': 'Procura tener buena luz en la cara',
+  'video.tipHeadphones': 'Usa auriculares para oír mejor',
+  'video.tipQuiet': 'Busca un lugar tranquilo y privado',
+  'video.tipSpeakClearly': 'Habla con claridad y a ritmo normal',
+  'video.tipOpen': 'Sé abierto y sincero con la IA',
+  'video.sessionError': 'Error de la sesión',
+  'video.clearSession': 'Eliminar sesión',
+  'video.clearing': 'Eliminando...',
+  'video.allowAccess': 'Para usar la consulta por vídeo, permite el acceso a la cámara y el micrófono.',
+  'video.howToEnable': 'Cómo conceder los permisos:',
+  'video.permissionStepIcon': 'Busca el icono de cámara o micrófono en la barra de direcciones del navegador',
+  'video.permissionStepAllow': 'Pulsa sobre él y elige «Permitir»',
+  'video.permissionStepSettings': 'O ve a los ajustes del navegador y activa la cámara y el micrófono para este sitio',
+  'video.permissionStepRefresh': 'Recarga la página si hace falta',
+
+  // Crisis resources
+  'crisis.title': 'No tienes que afrontar esto solo',
+  'crisis.intro': 'Parece que ahora mismo las cosas son muy difíciles. Hablar con una persona formada puede ayudar, y estos servicios son gratuitos y confidenciales.',
+  'crisis.immediateDanger': 'Si estás en peligro inmediato, llama ahora al {number}.',
+  'crisis.localEmergencyNumber': 'tu número de emergencias local',
+  'crisis.call': 'Llamar al {number}',
+  'crisis.text': 'Enviar SMS al {number}',
+  'crisis.website': 'Sitio web',
+  'crisis.showingFor': 'Mostrando servicios de {region} según tu zona horaria. ¿No estás allí ahora?',
+  'crisis.findHelpline': 'Busca una línea de ayuda en tu país',
+  'crisis.understand': 'Entendido',
+  'crisis.regionUs': 'Estados Unidos',
+  'crisis.regionCa': 'Canadá',
+  'crisis.regionGb': 'Reino Unido',
+  'crisis.regionIe': 'Irlanda',
+  'crisis.regionIn': 'India',
+  'crisis.regionAu': 'Australia',
+  'crisis.regionNz': 'Nueva Zelanda',
+  'crisis.regionEs': 'España',
+  'crisis.regionMx': 'México',
+  'crisis.regionIntl': 'Internacional',
+  'crisis.us988': 'Apoyo gratuito y confidencial 24/7 por llamada o mensaje',
+  'crisis.usCrisisTextLine': 'Envía HOME para hablar con un consejero de crisis formado',
+  'crisis.ca988': 'Llama o envía un mensaje en cualquier momento, en inglés o francés',
+  'crisis.ukSamaritans': 'Llamada gratuita 24/7, pases por lo que pases',
+  'crisis.ukShout': 'Envía SHOUT para recibir apoyo gratuito y confidencial 24/7',
+  'crisis.ieSamaritans': 'Llamada gratuita 24/7',
+  'crisis.ieTextAboutIt': 'Envía HELLO para recibir apoyo gratuito 24/7',
+  'crisis.inTeleManas': 'Línea nacional gratuita de salud mental, 24/7 en muchos idiomas',
+  'crisis.auLifeline': 'Apoyo en crisis y prevención del suicidio 24/7',
+  'crisis.nz1737': 'Llama o envía un mensaje al 1737 para hablar con un consejero formado',
+  'crisis.es024': 'Atención a la conducta suicida, gratuita y 24 horas',
+  'crisis.mxLineaDeLaVida': 'Apoyo emocional gratuito las 24 horas',
+  'crisis.intlFindAHelpline': 'Líneas de ayuda gratuitas y confidenciales en tu país',
+
+  // Session reports
+  'reports.title': 'Informe de la sesión de vídeo',
+  'reports.generatedAt': 'Generado el {date}',
+  'reports.generatedBy': 'Generado por MindPal, tu compañero de IA',
+  'reports.shareTitle': 'Informe de sesión de vídeo de MindPal - {date}',
+  'reports.notAvailable': 'N/D',
+  'reports.sessionDetails': 'Detalles de la sesión',
+  'reports.duration': 'Duración',
+  'reports.quality': 'Calidad',
+  'reports.engagement': 'Participación',
+  'reports.engagementLevel': 'Nivel de participación',
+  'reports.technicalIssues': 'Problemas técnicos',
+  'reports.interactions': 'Interacciones',
+  'reports.moodAnalysis': 'Análisis del ánimo',
+  'reports.overallSentiment': 'Sentimiento general',
+  'reports.stressIndicators': 'Indicadores de estrés',
+  'reports.emotionalState': 'Estado emocional',
+  'reports.confidenceScore': 'Nivel de confianza',
+  'reports.engagementMetrics': 'Métricas de participación',
+  'reports.completionRate': 'Tasa de finalización',
+  'reports.userSatisfaction': 'Satisfacción del usuario',
+  'reports.aiQuality': 'Calidad de la IA',
+  'reports.recommendations': 'Recomendaciones',
+  'reports.share': 'Compartir informe',
+  'reports.exportJson': 'Exportar como JSON',
+  'reports.exportText': 'Exportar como texto',
+  'reports.overview': 'Resumen de la sesión',
+  'reports.notAssessed': 'Sin evaluar',
+  'reports.heuristic': 'Estimado a partir de los datos de la sesión, sin análisis de IA.',
+  'reports.totalInteractions': 'Interacciones totales',
+  'reports.technicalPerformance': 'Rendimiento técnico',
+  'reports.avgResponseTime': 'Tiempo medio de respuesta',
+  'reports.analyticsEvents': 'Eventos de análisis',
+  'reports.timeline': 'Cronología de la sesión',
+  'reports.started': 'Inicio:',
+  'reports.ended': 'Fin:',
+  'reports.reportGenerated': 'Informe generado:',
+  'reports.ratingPositive': 'Positivo',
+  'reports.ratingNeutral': 'Neutral',
+  'reports.ratingNegative': 'Negativo',
+  'reports.ratingLow': 'Bajo',
+  'reports.ratingMedium': 'Medio',
+  'reports.ratingHigh': 'Alto',
+  'reports.ratingImproving': 'Mejorando',
+  'reports.ratingStable': 'Estable',
+  'reports.ratingConcerning': 'Preocupante',
+  'reports.ratingExcellent': 'Excelente',
+  'reports.ratingGood': 'Buena',
+  'reports.ratingFair': 'Regular',
+  'reports.ratingBrief': 'Breve',
+  'reports.ratingPoor': 'Mala',
+  'reports.offline': 'No se puede generar el informe: sin conexión con el servidor',
+  'reports.generating': 'Generando el informe de la sesión con IA...',
+  'reports.generated': '¡Informe de la sesión generado! 🎉',
+  'reports.generateFailed': 'No se pudo generar el informe de la sesión',
+  'reports.loadFailed': 'No se pudieron cargar los informes de sesión',
+  'reports.copied': '¡Detalles del informe copiados al portapapeles!',
+  'reports.shareFailed': 'No se pudo compartir el informe',
+  'reports.exported': 'Informe exportado como {format}',
+  'reports.exportFailed': 'No se pudo exportar el informe',
+
+  // Journal
+  'journal.saveFailed': 'No se pudo guardar la entrada del diario',
+  'journal.updateFailed': 'No se pudo actualizar la entrada del diario',
+  'journal.deleteFailed': 'No se pudo eliminar la entrada del diario',
+  'journal.loadFailed': 'No se pudo cargar el diario',
+  'journal.title': 'Diario',
+  'journal.privateIntro': 'Privado y cifrado. Solo tú puedes leer lo que escribes aquí.',
+  'journal.setPassphraseIntro': 'Crea una frase de contraseña para empezar a escribir. Tus entradas se cifrarán con una clave que solo tú tienes.',
+  'journal.legacyWarning': 'Tus entradas antiguas están protegidas con una clave más débil. Crea una frase de contraseña para volver a cifrarlas y escribir otras nuevas.',
+  'journal.setPassphrase': 'Crear frase de contraseña',
+  'journal.newEntry': 'Nueva entrada',
+  'journal.newEntryTitle': 'Nueva entrada',
+  'journal.search': 'Busca en tus entradas',
+  'journal.list': 'Lista',
+  'journal.calendar': 'Calendario',
+  'journal.showAllDays': 'Mostrar todos los días',
+  'journal.lockedEntry': 'Entrada bloqueada',
+  'journal.untitled': 'Sin título',
+  'journal.linkedMood': 'Registro de ánimo vinculado',
+  'journal.editEntry': 'Editar entrada',
+  'journal.deleteEntry': 'Eliminar entrada',
+  'journal.confirmDelete': '¿Eliminar?',
+  'journal.unlockToRead': 'Desbloquea con tu frase de contraseña para leer esta entrada.',
+  'journal.cannotDecrypt': 'Esta entrada no se puede descifrar en este dispositivo.',
+  'journal.showLess': 'Ver menos',
+  'journal.readMore': 'Leer más',
+  'journal.empty': 'Tu diario está vacío. Escribe tu primera entrada.',
+  'journal.noMatches': 'Ninguna entrada coincide con «{query}».',
+  'journal.noEntriesOnDay': 'No hay entradas este día.',
+  'journal.entryCount': { one: '{count} entrada', other: '{count} entradas' },
+  'journal.previousMonth': 'Mes anterior',
+  'journal.nextMonth': 'Mes siguiente',
+  'journal.removePrompt': 'Quitar sugerencia',
+  'journal.promptsHint': '¿Necesitas un punto de partida?',
+  'journal.titlePlaceholder': 'Título (opcional)',
+  'journal.formatBold': 'Negrita',
+  'journal.formatItalic': 'Cursiva',
+  'journal.formatHeading': 'Encabezado',
+  'journal.formatList': 'Lista',
+  'journal.formatQuote': 'Cita',
+  'journal.write': 'Escribir',
+  'journal.preview': 'Vista previa',
+  'journal.nothingYet': 'Aún no has escrito nada.',
+  'journal.bodyPlaceholder': 'Escribe libremente. Solo tú puedes leerlo.',
+  'journal.linkMood': 'Vincular a un registro de ánimo',
+  'journal.noMoodsOnDay': 'No hay registros de ánimo este día.',
+  'journal.notLinked': 'Sin vincular',
+  'journal.linkedCheckIn': 'Registro vinculado',
+  'journal.moodAt': '{mood}/10 a las {time}',
+  'journal.encryptedNote': 'Se cifra en este dispositivo antes de guardarse',
+  'journal.save': 'Guardar',
+  'journal.saved': 'Entrada guardada',
+  'journal.updated': 'Entrada actualizada',
+  'journal.deleted': 'Entrada eliminada',
+  'journal.promptGeneral1': '¿Qué ocupa la mayor parte de tus pensamientos hoy?',
+  'journal.promptGeneral2': 'Describe un pequeño momento de hoy que quieras recordar.',
+  'journal.promptGeneral3': '¿Qué te gustaría dejar ir antes de mañana?',
+  'journal.promptGeneral4': '¿Qué aprendiste sobre ti esta semana?',
+  'journal.promptGeneral5': '¿Quién marcó la diferencia en tu día y cómo?',
+  'journal.promptGeneral6': '¿Qué esperas con ilusión, aunque sea un poco?',
+  'journal.promptGeneral7': 'Si hoy tuviera un título, ¿cuál sería?',
+  'journal.promptGeneral8': '¿Qué es algo que puedes hacer mañana para cuidarte?',
+  'journal.promptLow1': '¿Qué es lo que más te pesa ahora mismo? Escríbelo sin juzgarlo.',
+  'journal.promptLow2': '¿Qué le dirías a un amigo que se sintiera como tú hoy?',
+  'journal.promptLow3': 'Nombra una cosa que te ayudó a pasar el día, por pequeña que sea.',
+  'journal.promptLow4': '¿Qué necesitas más ahora mismo y quién podría ayudarte?',
+  'journal.promptLow5': '¿Cuáles de las preocupaciones de hoy están en tus manos y cuáles no?',
+  'journal.promptHigh1': '¿Qué salió bien hoy y qué papel tuviste en ello?',
+  'journal.promptHigh2': '¿Cuáles son tres cosas por las que te sientes agradecido ahora mismo?',
+  'journal.promptHigh3': '¿Cómo puedes llevar algo de la energía de hoy a mañana?',
+  'journal.promptHigh4': '¿De qué te sientes orgulloso esta semana?',
+
+  // Exercises
+  'exercises.loadFailed': 'No se pudo cargar el historial de ejercicios',
+  'exercises.saveFailed': 'No se pudo guardar la sesión de ejercicio',
+  'exercises.title': 'Respira y conecta',
+  'exercises.subtitle': 'Ejercicios guiados breves para cuando todo se vuelve demasiado',
+  'exercises.all': 'Todos los ejercicios',
+  'exercises.about': 'Unos {duration}',
+  'exercises.seconds': { one: '{count} s', other: '{count} s' },
+  'exercises.minutes': { one: '{count} min', other: '{count} min' },
+  'exercises.recent': 'Sesiones recientes',
+  'exercises.empty': 'Aún no hay sesiones. Elige un ejercicio para empezar.',
+  'exercises.saved': 'Sesión guardada en tu historial de ánimo',
+  'exercises.round': 'Ronda {round} de {total}',
+  'exercises.step': 'Paso {step} de {total}',
+  'exercises.narrationOn': 'Activar la narración',
+  'exercises.narrationOff': 'Desactivar la narración',
+  'exercises.narrationUnavailable': 'La narración necesita la voz configurada y conexión',
+  'exercises.pause': 'Pausar',
+  'exercises.resume': 'Reanudar',
+  'exercises.next': 'Siguiente',
+  'exercises.stop': 'Detener',
+  'exercises.wellDone': 'Bien hecho',
+  'exercises.wellDoneSpoken': 'Bien hecho.',
+  'exercises.completed': { one: 'Has completado {title} en {count} min.', other: 'Has completado {title} en {count} min.' },
+  'exercises.logMood': 'Registra cómo te sientes',
+  'exercises.goAgain': 'Repetir',
+  'exercises.done': 'Listo',
+  'exercises.boxTitle': 'Respiración cuadrada',
+  'exercises.boxSummary': 'Cuatro tiempos iguales para estabilizar la respiración y calmar la mente.',
+  'exercises.boxInstructions': 'Siéntate cómodamente. Sigue el cuadrado: inhala, retén, exhala y vuelve a retener, cuatro segundos cada vez.',
+  'exercises.fourSevenEightTitle': 'Respiración 4-7-8',
+  'exercises.fourSevenEightSummary': 'Una exhalación larga y lenta que ayuda a tu cuerpo a entrar en modo descanso.',
+  'exercises.fourSevenEightInstructions': 'Inhala en silencio por la nariz contando 4, retén 7 y exhala por completo por la boca contando 8.',
+  'exercises.groundingTitle': 'Anclaje 5-4-3-2-1',
+  'exercises.groundingSummary': 'Usa tus sentidos para volver al presente cuando las emociones se desbordan.',
+  'exercises.groundingInstructions': 'Tómate tu tiempo con cada sentido. Nombra las cosas en voz alta o mentalmente y sigue cuando estés listo.',
+  'exercises.breatheIn': 'Inhala',
+  'exercises.hold': 'Retén',
+  'exercises.breatheOut': 'Exhala',
+  'exercises.breatheInNose': 'Inhala por la nariz',
+  'exercises.breatheOutMouth': 'Exhala despacio por la boca',
+  'exercises.see': '5 cosas que puedes ver',
+  'exercises.seeNarration': 'Mira a tu alrededor y nombra cinco cosas que puedas ver',
+  'exercises.seeDetail': 'Fíjate en colores, formas, luces y sombras.',
+  'exercises.feel': '4 cosas que puedes sentir',
+  'exercises.feelNarration': 'Ahora fíjate en cuatro cosas que puedas sentir',
+  'exercises.feelDetail': 'Tus pies en el suelo, la silla, el aire en tu piel.',
+  'exercises.hear': '3 cosas que puedes oír',
+  'exercises.hearNarration': 'Escucha tres cosas que puedas oír',
+  'exercises.hearDetail': 'Sonidos cercanos y lejanos, incluso los más suaves.',
+  'exercises.smell': '2 cosas que puedes oler',
+  'exercises.smellNarration': 'Encuentra dos cosas que puedas oler',
+  'exercises.smellDetail': 'O dos olores que te gusten, si no notas ninguno.',
+  'exercises.taste': '1 cosa que puedes saborear',
+  'exercises.tasteNarration': 'Fíjate en una cosa que puedas saborear',
+  'exercises.tasteDetail': 'Después respira lenta y profundamente.',
+
+  // Offline sync
+  'sync.dropped': {
+    one: 'No se pudo guardar {count} cambio hecho sin conexión',
+    other: 'No se pudieron guardar {count} cambios hechos sin conexión',
+  },
+  'sync.synced': { one: 'Sincronizado {count} cambio sin conexión', other: 'Sincronizados {count} cambios sin conexión' },
+  'sync.editedElsewhere': {
+    one: '{count} elemento se editó más tarde en otro dispositivo, así que se conservaron esos cambios.',
+    other: '{count} elementos se editaron más tarde en otro dispositivo, así que se conservaron esos cambios.',
+  },
+  'sync.deletedElsewhere': {
+    one: '{count} elemento se eliminó en otro dispositivo.',
+    other: '{count} elementos se eliminaron en otro dispositivo.',
+  },
+
+  // Encryption
+  'encryption.setupTitle': 'Protege tus datos privados',
+  'encryption.setupIntro': 'Elige una frase de contraseña para cifrar tu diario y tus datos privados con una clave que solo tú tienes. Las entradas existentes se vuelven a cifrar automáticamente. Nunca vemos tu frase, así que no podemos recuperarla; a cambio recibirás un código de recuperación.',
+  'encryption.newPassphrase': {
+    one: 'Nueva frase de contraseña (al menos {count} carácter)',
+    other: 'Nueva frase de contraseña (al menos {count} caracteres)',
+  },
+  'encryption.confirmPassphrase': 'Confirma la nueva frase de contraseña',
+  'encryption.currentPassphrase': 'Frase de contraseña actual',
+  'encryption.settingUp': 'Configurando...',
+  'encryption.setPassphrase': 'Guardar frase de contraseña',
+  'encryption.unlockedTitle': 'El cifrado está activado y desbloqueado',
+  'encryption.unlockedHint': 'Tu clave sigue desbloqueada hasta que la bloquees, cierres sesión o recargues la página.',
+  'encryption.lockNow': 'Bloquear ahora',
+  'encryption.changePassphrase': 'Cambiar frase de contraseña',
+  'encryption.newCodeTitle': 'Nuevo código de recuperación',
+  'encryption.newCodeHint': '¿Perdiste tu código de recuperación o crees que alguien lo ha visto? Crea uno nuevo; el anterior dejará de funcionar.',
+  'encryption.creating': 'Creando...',
+  'encryption.createCode': 'Crear código nuevo',
+  'encryption.enterPassphrase': 'Introduce tu frase de contraseña',
+  'encryption.lockedHint': 'Tus datos privados están bloqueados en este dispositivo.',
+  'encryption.passphrase': 'Frase de contraseña',
+  'encryption.unlock': 'Desbloquear',
+  'encryption.unlocking': 'Desbloqueando...',
+  'encryption.forgotPassphrase': '¿Olvidaste tu frase de contraseña?',
+  'encryption.useRecoveryCode': 'Usa tu código de recuperación',
+  'encryption.recoverHint': 'Introduce el código que guardaste y elige una nueva frase de contraseña.',
+  'encryption.recovering': 'Recuperando...',
+  'encryption.setNewPassphrase': 'Establecer nueva frase de contraseña',
+  'encryption.backToPassphrase': 'Volver a la frase de contraseña',
+  'encryption.saveCode': 'Guarda tu código de recuperación',
+  'encryption.saveCodeHint': 'Si olvidas tu frase de contraseña, este código es la única forma de volver a tu diario. No podemos restablecerla por ti y no se volverá a mostrar.',
+  'encryption.copy': 'Copiar',
+  'encryption.download': 'Descargar',
+  'encryption.codeSaved': 'He guardado mi código de recuperación en un lugar seguro',
+  'encryption.done': 'Listo',
+  'encryption.codeCopied': 'Código de recuperación copiado',
+  'encryption.codeCopyFailed': 'No se pudo copiar; anota el código',
+  'encryption.codeFileTitle': 'Código de recuperación de MindPal',
+  'encryption.codeFileHint': 'Úsalo para establecer una nueva frase de contraseña si olvidas la tuya. Guárdalo en un lugar seguro.',
+  'encryption.tooShort': { one: 'Usa al menos {count} carácter', other: 'Usa al menos {count} caracteres' },
+  'encryption.tooSimple': 'Usa una mezcla de caracteres distintos',
+  'encryption.mismatch': 'Las frases de contraseña no coinciden',
+  'encryption.offline': 'Conéctate a internet para cambiar los ajustes de cifrado',
+  'encryption.alreadySet': 'Ya hay una frase de contraseña. Desbloquea con ella.',
+  'encryption.setupFailed': 'No se pudo configurar el cifrado',
+  'encryption.wrongPassphrase': 'Esa frase de contraseña no es correcta',
+  'encryption.wrongCurrentPassphrase': 'Tu frase de contraseña actual no es correcta',
+  'encryption.passphraseChanged': 'Frase de contraseña cambiada',
+  'encryption.changeFailed': 'No se pudo cambiar la frase de contraseña',
+  'encryption.notRecoveryCode': 'Eso no parece un código de recuperación',
+  'encryption.wrongRecoveryCode': 'Ese código de recuperación no es correcto',
+  'encryption.recoverFailed': 'No se pudo recuperar tu clave',
+  'encryption.newCodeFailed': 'No se pudo crear un nuevo código de recuperación',
+
+  // Memory
+  'memory.title': 'Lo que MindPal recuerda',
+  'memory.intro': 'Cuando termina un chat guardado con la IA de voz y Compartir datos está activado, MindPal conserva algunos datos clave para que las próximas conversaciones tengan continuidad. Aquí puedes corregir o borrar cualquier cosa.',
+  'memory.savingOff': 'El guardado de conversaciones está desactivado, así que no se crean recuerdos nuevos.',
+  'memory.empty': 'Todavía no hay nada recordado.',
+  'memory.categoryPerson': 'Personas',
+  'memory.categoryEvent': 'Eventos',
+  'memory.categoryPreference': 'Preferencias',
+  'memory.categoryGoal': 'Metas',
+  'memory.categoryHealth': 'Bienestar',
+  'memory.categoryOther': 'Otros',
+  'memory.save': 'Guardar',
+  'memory.edit': 'Editar',
+  'memory.forget': 'Olvidar esto',
+  'memory.confirmClear': { one: '¿Olvidar {count} recuerdo?', other: '¿Olvidar los {count} recuerdos?' },
+  'memory.forgetAll': 'Olvidarlo todo',
+  'memory.updated': 'Recuerdo actualizado',
+  'memory.deleted': 'Recuerdo eliminado',
+  'memory.cleared': 'Se han borrado todos los recuerdos',
+  'memory.updateOffline': 'No se puede actualizar el recuerdo: sin conexión con el servidor',
+  'memory.deleteOffline': 'No se puede eliminar el recuerdo: sin conexión con el servidor',
+  'memory.clearOffline': 'No se pueden borrar los recuerdos: sin conexión con el servidor',
+  'memory.updateFailed': 'No se pudo actualizar el recuerdo',
+  'memory.deleteFailed': 'No se pudo eliminar el recuerdo',
+  'memory.clearFailed': 'No se pudieron borrar los recuerdos',
+
+  // Data export
+  'export.title': 'Tus datos',
+  'export.intro': 'Descarga todo lo que MindPal guarda sobre ti en un archivo ZIP, con JSON y CSV para cada tipo de dato. Se prepara en este dispositivo; los datos privados se incluyen descifrados.',
+  'export.locked': 'Tu clave de cifrado está bloqueada, así que las entradas del diario se exportarían cifradas.',
+  'export.unlockFirst': 'Desbloquéala primero',
+  'export.fetching': 'Obteniendo {table}...',
+  'export.decrypting': 'Descifrando {table}...',
+  'export.packaging': 'Empaquetando {table}...',
+  'export.archive': 'archivo',
+  'export.progress': '{completed} de {total}',
+  'export.download': 'Descargar mis datos',
+  'export.offline': 'Conéctate a internet para descargar tus datos',
+  'export.done': 'Tus datos se han descargado',
+  'export.partial': {
+    one: 'Datos exportados. No se pudo leer {count} tabla; consulta manifest.json',
+    other: 'Datos exportados. No se pudieron leer {count} tablas; consulta manifest.json',
+  },
+  'export.failed': 'No se pudieron exportar tus datos',
+
+  // Data import
+  'import.title': 'Importar desde otras apps',
+  'import.intro': 'Trae tu historial de ánimo y tus tareas desde la exportación de otra app. Primero verás una vista previa; no se guarda nada hasta que confirmes. Las fechas sin zona horaria se leen en la zona horaria de tu perfil.',
+  'import.daylio': 'Daylio',
+  'import.daylioDescription': 'Exportación CSV con columnas de fecha, hora, ánimo, actividades y nota',
+  'import.moodCsv': 'Otro registro de ánimo',
+  'import.moodCsvDescription': 'Cualquier CSV con una fecha y una valoración de ánimo; tú eliges las columnas',
+  'import.todoist': 'Todoist',
+  'import.todoistDescription': 'Exportación CSV de un proyecto, con subtareas',
+  'import.taskCsv': 'Otra lista de tareas',
+  'import.taskCsvDescription': 'Cualquier CSV con un título de tarea; tú eliges las columnas',
+  'import.ics': 'Calendario (ICS)',
+  'import.icsDescription': 'Tareas y eventos de un archivo .ics',
+  'import.fieldDate': 'Fecha',
+  'import.fieldTime': 'Hora',
+  'import.fieldMood': 'Ánimo',
+  'import.fieldActivities': 'Actividades',
+  'import.fieldNote': 'Nota',
+  'import.fieldTitle': 'Título',
+  'import.fieldDescription': 'Descripción',
+  'import.fieldDue': 'Fecha límite',
+  'import.fieldPriority': 'Prioridad',
+  'import.fieldCompleted': 'Completada',
+  'import.fieldCategory': 'Categoría',
+  'import.kindMood': 'Ánimo',
+  'import.kindTask': 'Tareas',
+  'import.chooseFile': 'Elegir archivo {type}',
+  'import.chooseAnother': 'Elegir otro archivo ({name})',
+  'import.matchColumns': 'Relaciona tus columnas',
+  'import.notInFile': 'No está en este archivo',
+  'import.moodRatings': 'Valoraciones de ánimo',
+  'import.scale': 'De 1 a {max}',
+  'import.chooseColumn': 'Elige una columna para {fields}.',
+  'import.reading': 'Leyendo...',
+  'import.readingFile': 'Leyendo {name}...',
+  'import.preview': 'Vista previa',
+  'import.ready': '{count} listas',
+  'import.duplicates': '{count} ya están en MindPal',
+  'import.unreadable': '{count} no se pueden leer',
+  'import.line': 'Línea {line}',
+  'import.item': 'Elemento {line}',
+  'import.moodRow': '{mood}/10 el {date}',
+  'import.due': 'vence el {date}',
+  'import.done': 'hecha',
+  'import.statusError': 'Error',
+  'import.statusDuplicate': 'Duplicada',
+  'import.statusReady': 'Lista',
+  'import.more': 'y {count} más',
+  'import.skipDuplicates': 'Omitir filas que ya están en MindPal',
+  'import.importing': 'Importando...',
+  'import.progress': '{done} de {total}',
+  'import.importEntries': { one: 'Importar {count} entrada', other: 'Importar {count} entradas' },
+  'import.importTasks': { one: 'Importar {count} tarea', other: 'Importar {count} tareas' },
+  'import.imported': 'Importadas {inserted} de {total}',
+  'import.skipped': {
+    one: 'Se omitió {count} fila por estar duplicada o ser ilegible.',
+    other: 'Se omitieron {count} filas por estar duplicadas o ser ilegibles.',
+  },
+  'import.failedRows': 'Estas filas no se pudieron guardar:',
+  'import.another': 'Importar otro archivo',
+  'import.offline': 'Conéctate a internet para importar datos',
+  'import.readFailed': 'No se pudo leer el archivo',
+  'import.stopped': 'La importación se detuvo antes de terminar',
+  'import.parentFailed': 'No se pudo importar su tarea principal',
+  'import.interrupted': 'No importada: la importación se interrumpió',
+  'import.importedMoods': { one: 'Importada {count} entrada de ánimo', other: 'Importadas {count} entradas de ánimo' },
+  'import.importedTasks': { one: 'Importada {count} tarea', other: 'Importadas {count} tareas' },
+  'import.notDaylio': 'No parece una exportación de Daylio (falta la columna full_date)',
+  'import.unrecognisedDate': 'Fecha no reconocida "{value}"',
+  'import.missingDate': 'Falta la fecha',
+  'import.unrecognisedMood': 'Estado de ánimo no reconocido "{value}"',
+  'import.missingMood': 'Falta el estado de ánimo',
+  'import.unreadableDue': 'No se pudo leer la fecha límite "{value}", así que se omitió',
+  'import.notTodoist': 'No parece una exportación de Todoist (faltan las columnas TYPE y CONTENT)',
+  'import.missingTaskName': 'Falta el nombre de la tarea',
+  'import.nestedTooDeep': 'Anidada a más de un nivel, así que se añadió a la tarea principal',
+  'import.missingTitle': 'Falta el título',
+  'import.unknownPriority': 'Prioridad desconocida "{value}", así que se puso en media',
+  'import.noIcsItems': 'No se encontraron tareas ni eventos en este archivo',
+  'import.cancelledItem': 'Cancelada, así que no se importó',
+  'import.unsupportedRepeat': 'Regla de repetición no compatible, así que se importó como tarea única',
+
+  // Data deletion
+  'deletion.title': 'Eliminar datos',
+  'deletion.intro': 'Las eliminaciones esperan un periodo de gracia antes de ejecutarse, por si cambias de opinión. Descarga tus datos antes si quieres una copia.',
+  'deletion.chatsTitle': 'Eliminar todos los chats',
+  'deletion.chatsDescription': 'Todas las conversaciones y sesiones de voz con la IA, sus análisis de ánimo y lo que MindPal aprendió de ellas.',
+  'deletion.chatsDone': 'Se eliminaron todos los chats',
+  'deletion.moodTitle': 'Eliminar el historial de ánimo',
+  'deletion.moodDescription': 'Todos los registros y análisis de ánimo. Las entradas del diario se conservan, sin su vínculo al ánimo.',
+  'deletion.moodDone': 'Se eliminó el historial de ánimo',
+  'deletion.videoTitle': 'Eliminar sesiones de vídeo e informes',
+  'deletion.videoDescription': 'Todas las consultas por vídeo, con los datos registrados durante ellas y los informes generados después.',
+  'deletion.videoDone': 'Se eliminaron las sesiones de vídeo y los informes',
+  'deletion.accountTitle': 'Eliminar mi cuenta',
+  'deletion.accountDescription': 'Tu perfil, tu acceso y todo lo que MindPal guarda sobre ti. No se puede deshacer una vez ejecutado.',
+  'deletion.accountDone': 'Tu cuenta y todos sus datos se han eliminado',
+  'deletion.hours': { one: '{count} hora', other: '{count} horas' },
+  'deletion.days': { one: '{count} día', other: '{count} días' },
+  'deletion.scheduledFor': 'Programado para el {date}',
+  'deletion.delete': 'Eliminar',
+  'deletion.runsAfter': 'Se ejecuta {grace} después de confirmar',
+  'deletion.confirmTitle': '¿{title}?',
+  'deletion.runsIn': 'Se ejecutará dentro de {grace}. Hasta entonces puedes cancelarlo aquí.',
+  'deletion.runsInAccount': 'Se ejecutará dentro de {grace}. Hasta entonces puedes cancelarlo aquí o desde el aviso que verás mientras tengas la sesión iniciada.',
+  'deletion.typeToConfirm': 'Escribe {phrase} para confirmar',
+  'deletion.keep': 'Conservar mis datos',
+  'deletion.scheduling': 'Programando...',
+  'deletion.schedule': 'Programar eliminación',
+  'deletion.offline': 'Conéctate a internet para eliminar datos',
+  'deletion.scheduled': 'Programado para el {date}. Puedes cancelarlo hasta entonces.',
+  'deletion.cancelled': 'Eliminación cancelada',
+  'deletion.scheduleFailed': 'No se pudo programar la eliminación',
+  'deletion.cancelFailed': 'No se pudo cancelar la eliminación',
+
+  // Turning off a privacy toggle
+  'consent.analyticsTitle': '¿Eliminar los datos de análisis recogidos?',
+  'consent.analyticsDescription': 'Los eventos de las sesiones de vídeo registrados hasta ahora. Los informes de sesión que ya generaste se conservan.',
+  'consent.voiceTitle': '¿Eliminar las transcripciones de voz guardadas?',
+  'consent.voiceDescription': 'Los mensajes que le dijiste al asistente y las copias cifradas de tus mensajes.',
+  'consent.stopped': 'A partir de ahora no se guarda nada nuevo. También puedes eliminar lo que se guardó antes.',
+  'consent.permanent': '{description} No se puede deshacer.',
+  'consent.keep': 'Conservarlo',
+  'consent.deleting': 'Eliminando...',
+  'consent.deleteNow': 'Eliminar ahora',
+  'consent.offline': 'Conéctate a internet para eliminar estos datos',
+  'consent.deleted': { one: 'Se eliminó {count} registro', other: 'Se eliminaron {count} registros' },
+  'consent.nothing': 'No hay nada que eliminar',
+  'consent.failed': 'No se pudieron eliminar los datos',
+};
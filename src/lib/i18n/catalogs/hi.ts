@@ -0,0 +1,1154 @@
+import type { Catalog } from '../types';
+
+export const hi: Catalog = {
+  // Shared
+  'common.cancel': 'रद्द करें',
+  'common.clear': 'हटाएँ',
+  'common.retry': 'फिर से कोशिश करें',
+  'common.retrying': 'फिर से कोशिश हो रही है...',
+  'common.checking': 'जाँच हो रही है...',
+  'common.saving': 'सेव हो रहा है...',
+  'common.connected': 'कनेक्टेड',
+  'common.offline': 'ऑफ़लाइन',
+  'common.actionFailed': 'यह काम नहीं हो सका',
+  'common.listSeparator': ', ',
+  'common.close': 'बंद करें',
+
+  // Sign in
+  'auth.sessionExpired': 'आपका सेशन समाप्त हो गया है। कृपया फिर से साइन इन करें।',
+  'auth.tagline': 'याददाश्त, मानसिक स्वास्थ्य और वॉइस सहायता के लिए आपका AI साथी',
+  'auth.email': 'ईमेल पता',
+  'auth.emailPlaceholder': 'अपना ईमेल दर्ज करें',
+  'auth.password': 'पासवर्ड',
+  'auth.passwordPlaceholder': 'अपना पासवर्ड दर्ज करें',
+  'auth.emailRequired': 'ईमेल ज़रूरी है',
+  'auth.emailInvalid': 'कृपया मान्य ईमेल पता दर्ज करें',
+  'auth.passwordRequired': 'पासवर्ड ज़रूरी है',
+  'auth.passwordTooShort': {
+    one: 'पासवर्ड कम से कम {count} अक्षर का होना चाहिए',
+    other: 'पासवर्ड कम से कम {count} अक्षरों का होना चाहिए',
+  },
+  'auth.notConfigured': 'ऐप्लिकेशन कॉन्फ़िगर नहीं है। कृपया एनवायरनमेंट वेरिएबल जाँचें।',
+  'auth.needsConnection': 'प्रमाणीकरण के लिए इंटरनेट कनेक्शन ज़रूरी है',
+  'auth.serverUnreachable': 'प्रमाणीकरण सर्वर से कनेक्ट नहीं हो पा रहा',
+  'auth.accountCreated': 'खाता बन गया! सत्यापन के लिए कृपया अपना ईमेल देखें। 🎉',
+  'auth.welcomeBack': 'वापसी पर स्वागत है! ✨',
+  'auth.unexpectedError': 'एक अनपेक्षित त्रुटि हुई',
+  'auth.networkError': 'नेटवर्क त्रुटि। कृपया अपना कनेक्शन जाँचकर फिर से कोशिश करें।',
+  'auth.bannerNotConfigured': 'ऐप्लिकेशन कॉन्फ़िगर नहीं है - कृपया एनवायरनमेंट वेरिएबल जाँचें',
+  'auth.bannerOffline': 'इंटरनेट कनेक्शन नहीं है - प्रमाणीकरण उपलब्ध नहीं',
+  'auth.bannerServer': 'सर्वर कनेक्शन में समस्या - कृपया बाद में कोशिश करें',
+  'auth.processing': 'प्रोसेस हो रहा है...',
+  'auth.unavailable': 'उपलब्ध नहीं',
+  'auth.createAccount': 'खाता बनाएँ',
+  'auth.signIn': 'साइन इन करें',
+  'auth.haveAccount': 'पहले से खाता है? साइन इन करें',
+  'auth.needAccount': 'खाता नहीं है? साइन अप करें',
+  'auth.ready': 'प्रमाणीकरण के लिए तैयार',
+  'auth.unavailableStatus': 'प्रमाणीकरण उपलब्ध नहीं',
+
+  // Navigation
+  'nav.dashboard': 'डैशबोर्ड',
+  'nav.tasks': 'काम',
+  'nav.mood': 'मूड',
+  'nav.journal': 'डायरी',
+  'nav.voice': 'वॉइस AI',
+  'nav.video': 'वीडियो',
+  'nav.exercises': 'अभ्यास',
+  'nav.settings': 'सेटिंग्स',
+
+  // Layout
+  'layout.welcome': 'स्वागत है, {name}',
+  'layout.signOut': 'साइन आउट',
+  'layout.signedOut': 'आप साइन आउट हो गए ✨',
+  'layout.signOutError': 'साइन आउट में गड़बड़ी हुई, लेकिन इस डिवाइस से आप लॉग आउट हो गए हैं',
+  'layout.syncing': 'सिंक हो रहा है...',
+  'layout.unsynced': { one: '{count} सिंक बाकी', other: '{count} सिंक बाकी' },
+  'layout.checkingConnection': 'कनेक्शन जाँचा जा रहा है...',
+  'layout.connectionRestored': 'कनेक्शन वापस आ गया! 🎉',
+  'layout.stillOffline': 'कनेक्शन में अब भी दिक्कत है। कृपया अपना इंटरनेट कनेक्शन जाँचें।',
+  'layout.connectionCheckFailed': 'कनेक्शन की जाँच नहीं हो सकी',
+  'layout.configTitle': 'कॉन्फ़िगरेशन ज़रूरी है',
+  'layout.configMessage': 'Supabase के एनवायरनमेंट वेरिएबल सेट नहीं हैं। कृपया अपनी .env फ़ाइल जाँचें।',
+  'layout.offlineTitle': 'इंटरनेट कनेक्शन नहीं है',
+  'layout.offlineMessage': 'काम, मूड, चैट और सेटिंग्स इस डिवाइस पर सेव हैं और दोबारा कनेक्ट होने पर सिंक हो जाएँगे।',
+  'layout.serverTitle': 'सर्वर से कनेक्शन में दिक्कत',
+  'layout.serverMessage': 'हमारे सर्वर से जुड़ने में दिक्कत हो रही है। अपने आप फिर से कोशिश हो रही है...',
+  'layout.details': 'विवरण',
+  'layout.configuration': 'कॉन्फ़िगरेशन: {status}',
+  'layout.internet': 'इंटरनेट: {status}',
+  'layout.database': 'डेटाबेस: {status}',
+  'layout.ok': 'ठीक है',
+  'layout.missing': 'मौजूद नहीं',
+  'layout.disconnected': 'डिस्कनेक्टेड',
+  'layout.deletionTitle': 'खाता हटाने के लिए तय है',
+  'layout.deletionMessage': 'आपका खाता और उसका सारा डेटा {date} को हटा दिया जाएगा।',
+  'layout.keepAccount': 'मेरा खाता रखें',
+
+  // Dashboard
+  'dashboard.welcomeBack': 'फिर से स्वागत है!',
+  'dashboard.welcomeToast': 'MindPal में आपका स्वागत है! 🎉',
+  'dashboard.canceledToast': 'यह काम रद्द हो गया। आप कभी भी फिर से कोशिश कर सकते हैं।',
+  'dashboard.loadError': 'कुछ डेटा लोड नहीं हो सका। कृपया पेज रीफ़्रेश करके देखें।',
+  'dashboard.badge': 'बैज',
+  'dashboard.dataIssues': 'डेटा लोड करने में दिक्कत',
+  'dashboard.dataIssuesMessage': '{error} ऐप सामान्य रूप से काम करता रहेगा।',
+  'dashboard.offlineTitle': 'ऑफ़लाइन काम हो रहा है',
+  'dashboard.offlineMessage': 'कुछ सुविधाएँ सीमित हो सकती हैं। कनेक्शन लौटने पर डेटा सिंक हो जाएगा।',
+  'dashboard.tasksCompleted': 'पूरे हुए काम',
+  'dashboard.completionRate': '{rate}% पूरा',
+  'dashboard.todayMood': 'आज का मूड',
+  'dashboard.notLogged': 'दर्ज नहीं',
+  'dashboard.feelingGreat': 'बहुत बढ़िया!',
+  'dashboard.logMood': 'अपना मूड दर्ज करें',
+  'dashboard.chatSessions': 'चैट सेशन',
+  'dashboard.aiConversations': 'AI से बातचीत',
+  'dashboard.streakTitle': { one: '🔥 {count} दिन की मूड स्ट्रीक!', other: '🔥 {count} दिन की मूड स्ट्रीक!' },
+  'dashboard.quickActions': 'फटाफट काम',
+  'dashboard.voiceChat': 'वॉइस चैट',
+  'dashboard.voiceChatHint': 'अपने AI साथी से बात करें',
+  'dashboard.moodCheck': 'मूड चेक',
+  'dashboard.moodCheckHint': 'अपनी भावनाएँ दर्ज करें',
+  'dashboard.addTask': 'काम जोड़ें',
+  'dashboard.addTaskHint': 'नया रिमाइंडर बनाएँ',
+  'dashboard.builtOnBolt': 'Bolt पर बना',
+
+  // Tasks
+  'tasks.title': 'टास्क मैनेजर',
+  'tasks.subtitle': 'ADHD के अनुकूल टास्क मैनेजमेंट से व्यवस्थित रहें',
+  'tasks.summary': 'कुल {total} • {completed} पूरे',
+  'tasks.overdueCount': { one: '{count} की तारीख़ निकल गई', other: '{count} की तारीख़ निकल गई' },
+  'tasks.add': 'काम जोड़ें',
+  'tasks.search': 'काम खोजें...',
+  'tasks.filterAll': 'सभी काम',
+  'tasks.filterPending': 'बाकी',
+  'tasks.filterCompleted': 'पूरे',
+  'tasks.filterOverdue': 'तारीख़ निकल चुकी',
+  'tasks.fieldTitle': 'काम का नाम *',
+  'tasks.fieldTitlePlaceholder': 'क्या करना है?',
+  'tasks.fieldPriority': 'प्राथमिकता',
+  'tasks.fieldDescription': 'विवरण',
+  'tasks.fieldDescriptionPlaceholder': 'और जानकारी जोड़ें...',
+  'tasks.fieldCategory': 'श्रेणी',
+  'tasks.fieldCategoryPlaceholder': 'निजी, काम, सेहत...',
+  'tasks.fieldDue': 'आख़िरी तारीख़',
+  'tasks.fieldReminder': 'याद दिलाएँ',
+  'tasks.fieldRepeat': 'दोहराएँ',
+  'tasks.priorityLow': 'कम प्राथमिकता',
+  'tasks.priorityMedium': 'मध्यम प्राथमिकता',
+  'tasks.priorityHigh': 'ऊँची प्राथमिकता',
+  'tasks.badgeLow': 'कम',
+  'tasks.badgeMedium': 'मध्यम',
+  'tasks.badgeHigh': 'ऊँची',
+  'tasks.overdueTag': '(तारीख़ निकल गई)',
+  'tasks.steps': '{done}/{total} कदम',
+  'tasks.addSteps': 'कदम जोड़ें',
+  'tasks.timeLeft': '{time} बाकी',
+  'tasks.breakDown': 'छोटे कदमों में बाँटें',
+  'tasks.breakDownHint': 'इस काम के लिए छोटे कदम सुझाएँ',
+  'tasks.breakDownUnavailable': 'इसके लिए कनेक्शन और AI प्रोवाइडर चाहिए',
+  'tasks.edit': 'काम बदलें',
+  'tasks.delete': 'काम हटाएँ',
+  'tasks.emptyAll': 'अभी कोई काम नहीं है',
+  'tasks.emptyPending': 'कोई बाकी काम नहीं',
+  'tasks.emptyCompleted': 'कोई पूरा हुआ काम नहीं',
+  'tasks.emptyOverdue': 'किसी काम की तारीख़ नहीं निकली',
+  'tasks.emptyAllHint': 'अपना पहला काम जोड़कर शुरुआत करें!',
+  'tasks.emptyFilteredHint': 'कोई दूसरा फ़िल्टर आज़माएँ।',
+  'tasks.added': 'काम जुड़ गया! 📝',
+  'tasks.completed': 'काम पूरा हुआ! 🎉',
+  'tasks.completedNext': 'काम पूरा हुआ! 🎉 अगला {date} को है',
+  'tasks.markedIncomplete': 'काम को अधूरा चिह्नित किया गया',
+  'tasks.stepsAdded': { one: '{count} कदम जोड़ा गया ✨', other: '{count} कदम जोड़े गए ✨' },
+  'tasks.updated': 'काम अपडेट हो गया',
+  'tasks.deleted': 'काम हटा दिया गया',
+  'tasks.addFailed': 'काम नहीं जुड़ सका',
+  'tasks.updateFailed': 'काम अपडेट नहीं हो सका',
+  'tasks.deleteFailed': 'काम नहीं हट सका',
+  'tasks.loadFailed': 'काम लोड नहीं हो सके',
+
+  // Mood
+  'mood.title': 'मूड ट्रैकर',
+  'mood.subtitle': 'अपनी भावनात्मक सेहत का सफ़र दर्ज करें',
+  'mood.viewTrack': 'दर्ज करें',
+  'mood.viewInsights': 'विश्लेषण',
+  'mood.prompt': 'आज आप कैसा महसूस कर रहे हैं?',
+  'mood.level1': 'बहुत बुरा',
+  'mood.level2': 'उदास',
+  'mood.level3': 'ख़राब',
+  'mood.level4': 'ठीक-ठाक',
+  'mood.level5': 'अच्छा',
+  'mood.level6': 'बहुत अच्छा',
+  'mood.level7': 'शानदार',
+  'mood.level8': 'कमाल',
+  'mood.level9': 'ज़बरदस्त',
+  'mood.level10': 'बेहतरीन',
+  'mood.scaleLow': 'बहुत बुरा (1)',
+  'mood.scaleHigh': 'बेहतरीन (10)',
+  'mood.notesLabel': 'मन में क्या है? (वैकल्पिक)',
+  'mood.notesPlaceholder': 'अपने विचार, भावनाएँ या आज के दिन की ख़ास बात लिखें...',
+  'mood.details': 'ऊर्जा, चिंता, नींद और गतिविधियाँ',
+  'mood.activitiesLabel': 'आप क्या कर रहे थे?',
+  'mood.activityPlaceholder': 'कोई गतिविधि जोड़ें...',
+  'mood.tagsLabel': 'टैग',
+  'mood.tagPlaceholder': 'कोई टैग जोड़ें, जैसे डेडलाइन या वीकेंड...',
+  'mood.removeTag': '{tag} हटाएँ',
+  'mood.addTag': 'जोड़ें',
+  'mood.save': 'मूड सेव करें',
+  'mood.energy': 'ऊर्जा',
+  'mood.anxiety': 'चिंता',
+  'mood.sleepQuality': 'नींद की गुणवत्ता',
+  'mood.energyLow': 'थका हुआ',
+  'mood.energyHigh': 'ऊर्जावान',
+  'mood.anxietyLow': 'शांत',
+  'mood.anxietyHigh': 'बहुत चिंतित',
+  'mood.sleepQualityLow': 'बेचैन',
+  'mood.sleepQualityHigh': 'आरामदायक',
+  'mood.rate': 'रेट करें',
+  'mood.weeklyAverage': 'हफ़्ते का औसत',
+  'mood.entriesThisMonth': 'इस महीने की एंट्री',
+  'mood.currentStreak': 'मौजूदा स्ट्रीक',
+  'mood.bestStreak': 'सबसे लंबी स्ट्रीक',
+  'mood.days': { one: '{count} दिन', other: '{count} दिन' },
+  'mood.freezeHint': 'फ़्रीज़ किया गया दिन बिना एंट्री के आपकी स्ट्रीक बनाए रखता है',
+  'mood.takeDayOff': { one: 'आज छुट्टी लें (इस महीने {count} बाकी)', other: 'आज छुट्टी लें (इस महीने {count} बाकी)' },
+  'mood.undoFreeze': 'फ़्रीज़ हटाएँ',
+  'mood.toMilestone': { one: '{milestone} दिन तक पहुँचने में {count} दिन बाकी!', other: '{milestone} दिन तक पहुँचने में {count} दिन बाकी!' },
+  'mood.streakAmazing': { one: 'कमाल! {count} दिन की स्ट्रीक!', other: 'कमाल! {count} दिन की स्ट्रीक!' },
+  'mood.onlyToMilestone': {
+    one: '{milestone} दिन के पड़ाव तक बस {count} दिन और!',
+    other: '{milestone} दिन के पड़ाव तक बस {count} दिन और!',
+  },
+  'mood.recent': 'हाल की एंट्री',
+  'mood.exercise': 'अभ्यास',
+  'mood.stoppedEarly': '(बीच में रोका)',
+  'mood.editNotes': 'नोट बदलें',
+  'mood.deleteEntry': 'एंट्री हटाएँ',
+  'mood.showWith': '{label} वाली एंट्री दिखाएँ',
+  'mood.empty': 'अभी कोई मूड एंट्री नहीं है। अपनी भावनाएँ दर्ज करना शुरू करें!',
+  'mood.emptyFiltered': '{labels} वाली कोई हाल की एंट्री नहीं।',
+  'mood.saved': 'मूड सेव हो गया! 🎉',
+  'mood.updated': 'मूड एंट्री अपडेट हो गई',
+  'mood.deleted': 'मूड एंट्री हटा दी गई',
+  'mood.saveFailed': 'मूड एंट्री सेव नहीं हो सकी',
+  'mood.updateFailed': 'मूड एंट्री अपडेट नहीं हो सकी',
+  'mood.deleteFailed': 'मूड एंट्री नहीं हट सकी',
+  'mood.loadFailed': 'मूड इतिहास लोड नहीं हो सका',
+
+  // Mood streaks
+  'streak.keepItUp': 'आप मूड दर्ज करने की अच्छी आदत बना रहे हैं। ऐसे ही जारी रखें!',
+  'streak.current': 'बढ़िया! आज आपने अपना मूड दर्ज कर लिया।',
+  'streak.frozen': 'आज के लिए स्ट्रीक फ़्रीज़ है। छुट्टी का मज़ा लें!',
+  'streak.pending': 'स्ट्रीक जारी रखने के लिए आज अपना मूड दर्ज करें!',
+  'streak.broken': 'आपकी स्ट्रीक टूट गई। आज नई शुरुआत करें!',
+  'streak.none': 'अपना मूड दर्ज करने का सफ़र शुरू करें!',
+  'streak.noFreezesLeft': 'इस महीने कोई स्ट्रीक फ़्रीज़ बाकी नहीं है',
+  'streak.frozenToast': 'आज के लिए स्ट्रीक फ़्रीज़ हो गई ❄️',
+  'streak.unfrozenToast': 'स्ट्रीक फ़्रीज़ हटा दिया गया',
+
+  // Settings
+  'settings.title': 'सेटिंग्स',
+  'settings.subtitle': 'MindPal को अपने हिसाब से बनाएँ',
+  'settings.tabProfile': 'प्रोफ़ाइल',
+  'settings.tabPreferences': 'पसंद',
+  'settings.tabNotifications': 'सूचनाएँ',
+  'settings.tabPrivacy': 'गोपनीयता',
+  'settings.tabEncryption': 'एन्क्रिप्शन',
+  'settings.tabMemory': 'याददाश्त',
+  'settings.tabImport': 'इंपोर्ट',
+  'settings.email': 'ईमेल पता',
+  'settings.fullName': 'पूरा नाम',
+  'settings.fullNamePlaceholder': 'अपना पूरा नाम लिखें',
+  'settings.phone': 'फ़ोन नंबर',
+  'settings.timezone': 'टाइम ज़ोन',
+  'settings.tzIndia': 'भारतीय मानक समय',
+  'settings.tzEastern': 'ईस्टर्न टाइम',
+  'settings.tzCentral': 'सेंट्रल टाइम',
+  'settings.tzMountain': 'माउंटेन टाइम',
+  'settings.tzPacific': 'पैसिफ़िक टाइम',
+  'settings.saveProfile': 'प्रोफ़ाइल सेव करें',
+  'settings.profileSaved': 'प्रोफ़ाइल सेव हो गई!',
+  'settings.profileSaveFailed': 'प्रोफ़ाइल सेव नहीं हो सकी',
+  'settings.signInToSaveProfile': 'प्रोफ़ाइल सेव करने के लिए साइन इन करें',
+  'settings.theme': 'थीम',
+  'settings.themeLight': 'लाइट',
+  'settings.themeDark': 'डार्क',
+  'settings.themeAuto': 'अपने आप',
+  'settings.language': 'भाषा',
+  'settings.languageAiOnly': '{language} (सिर्फ़ AI जवाब)',
+  'settings.languageHint': '"सिर्फ़ AI जवाब" वाली भाषाओं में सहायक के जवाब अनुवाद होते हैं; बाकी ऐप अंग्रेज़ी में रहता है।',
+  'settings.voiceSpeed': 'AI आवाज़ की रफ़्तार',
+  'settings.speedSlow': 'धीमी',
+  'settings.speedNormal': 'सामान्य',
+  'settings.speedFast': 'तेज़',
+  'settings.personality': 'AI का स्वभाव',
+  'settings.personalitySupportive': 'सहयोगी और परवाह करने वाला',
+  'settings.personalityProfessional': 'पेशेवर',
+  'settings.personalityFriendly': 'दोस्ताना और सहज',
+  'settings.personalityMotivational': 'प्रेरक',
+  'settings.savePreferences': 'पसंद सेव करें',
+  'settings.preferencesSaved': 'पसंद सेव हो गई!',
+  'settings.reminders': 'रिमाइंडर',
+  'settings.taskReminders': 'काम के रिमाइंडर',
+  'settings.taskRemindersHint': 'हर काम पर तय समय पर याद दिलाएँ',
+  'settings.moodCheckIn': 'मूड चेक-इन',
+  'settings.moodCheckInHint': 'अगर आपने मूड दर्ज नहीं किया है तो रोज़ एक याद',
+  'settings.dailySummary': 'रोज़ का सारांश',
+  'settings.dailySummaryHint': 'आज के काम और जिनकी तारीख़ निकल गई',
+  'settings.quietHours': 'शांत समय',
+  'settings.holdOvernight': 'रात में रिमाइंडर रोकें',
+  'settings.holdOvernightHint': 'शांत समय में आने वाले रिमाइंडर उसके ख़त्म होने पर आएँगे ({zone})',
+  'settings.deviceTimeZone': 'आपके डिवाइस का टाइम ज़ोन',
+  'settings.to': 'से',
+  'settings.browserNotifications': 'ब्राउज़र सूचनाएँ',
+  'settings.notificationsGranted': 'चालू हैं। MindPal बैकग्राउंड टैब में होने पर भी रिमाइंडर आएँगे।',
+  'settings.notificationsDenied': 'इस ब्राउज़र में बंद हैं। रिमाइंडर सिर्फ़ ऐप के अंदर दिखेंगे।',
+  'settings.notificationsUnsupported': 'यह ब्राउज़र सूचनाएँ सपोर्ट नहीं करता। रिमाइंडर ऐप के अंदर दिखेंगे।',
+  'settings.notificationsDefault': 'रिमाइंडर ऐप के अंदर दिखते हैं। MindPal बैकग्राउंड में होने पर भी पाने के लिए सूचनाओं की अनुमति दें।',
+  'settings.allow': 'अनुमति दें',
+  'settings.notificationsEnabled': 'ब्राउज़र सूचनाएँ चालू हो गईं',
+  'settings.notificationsBlocked': 'सूचनाएँ बंद हैं - ब्राउज़र सेटिंग्स में इन्हें अनुमति दें',
+  'settings.notificationsFailed': 'ब्राउज़र सूचनाएँ चालू नहीं हो सकीं',
+  'settings.dataPrivacy': 'डेटा और गोपनीयता',
+  'settings.dataSharing': 'डेटा शेयर करना',
+  'settings.dataSharingHint': 'ऐसी अतिरिक्त AI कॉल की अनुमति दें जो आपके संदेश AI प्रदाता को भेजती हैं: चिंताजनक संदेशों की दूसरी सुरक्षा जाँच, और सेव की गई चैट से बातें याद रखना',
+  'settings.analytics': 'एनालिटिक्स',
+  'settings.analyticsHint': 'वीडियो सेशन की घटनाएँ दर्ज करें, जो आपकी सेशन रिपोर्ट में काम आती हैं',
+  'settings.voiceRecordings': 'वॉइस रिकॉर्डिंग',
+  'settings.voiceRecordingsHint': 'वॉइस AI से कही बातों की ट्रांसक्रिप्ट और आपके संदेशों की एन्क्रिप्टेड कॉपी रखें',
+  'settings.saveConversations': 'बातचीत सेव करें',
+  'settings.saveConversationsHint': 'वॉइस AI चैट रखें ताकि बाद में उन्हें जारी रख सकें',
+  'settings.encryptedNotice': '🔒 सारा संवेदनशील डेटा सेव होने से पहले एन्क्रिप्ट होता है। आपकी गोपनीयता हमारी प्राथमिकता है।',
+  'settings.savePrivacy': 'गोपनीयता सेटिंग्स सेव करें',
+  'settings.privacySaved': 'गोपनीयता सेटिंग्स सेव हो गईं!',
+  'settings.saved': 'सेटिंग्स सेव हो गईं!',
+  'settings.savedOffline': 'सेटिंग्स इस डिवाइस पर सेव हैं - ऑनलाइन होने पर सिंक हो जाएँगी',
+  'settings.savedLocally': 'सेटिंग्स डिवाइस पर सेव हुईं (Supabase कॉन्फ़िगर नहीं है)',
+  'settings.signInToSave': 'सेटिंग्स सेव करने के लिए साइन इन करें',
+  'settings.loadFailed': 'सर्वर से कनेक्ट नहीं हो सका। डिफ़ॉल्ट सेटिंग्स इस्तेमाल हो रही हैं।',
+  'settings.createFailed': 'सर्वर से कनेक्ट नहीं हो सका। सेटिंग्स डिवाइस पर सेव हुईं।',
+  // Mood analytics
+  'analytics.range30d': '30 दिन',
+  'analytics.range90d': '3 महीने',
+  'analytics.range180d': '6 महीने',
+  'analytics.range365d': '1 साल',
+  'analytics.daily': 'रोज़ाना',
+  'analytics.weekly': 'साप्ताहिक',
+  'analytics.monthly': 'मासिक',
+  'analytics.filterLabel': 'टैग या गतिविधि से फ़िल्टर करें',
+  'analytics.allEntries': 'सभी एंट्री',
+  'analytics.averageMood': 'औसत मूड',
+  'analytics.entries': 'एंट्री',
+  'analytics.onDays': { one: '{count} दिन में', other: '{count} दिनों में' },
+  'analytics.trend': 'इस अवधि का रुझान',
+  'analytics.steady': 'स्थिर',
+  'analytics.empty': 'इस अवधि में अभी कोई मूड एंट्री नहीं है।',
+  'analytics.overTime': 'समय के साथ मूड',
+  'analytics.average': 'औसत',
+  'analytics.movingAverageDay': { one: '{count} दिन का मूविंग औसत', other: '{count} दिनों का मूविंग औसत' },
+  'analytics.movingAverageWeek': { one: '{count} हफ़्ते का मूविंग औसत', other: '{count} हफ़्तों का मूविंग औसत' },
+  'analytics.movingAverageMonth': { one: '{count} महीने का मूविंग औसत', other: '{count} महीनों का मूविंग औसत' },
+  'analytics.weekOf': '{date} वाला हफ़्ता',
+  'analytics.bucketEntries': { one: '{date}: {average}/10 ({count} एंट्री)', other: '{date}: {average}/10 ({count} एंट्री)' },
+  'analytics.byWeekday': 'हफ़्ते के दिन के हिसाब से',
+  'analytics.byTimeOfDay': 'दिन के समय के हिसाब से',
+  'analytics.mon': 'सोम',
+  'analytics.tue': 'मंगल',
+  'analytics.wed': 'बुध',
+  'analytics.thu': 'गुरु',
+  'analytics.fri': 'शुक्र',
+  'analytics.sat': 'शनि',
+  'analytics.sun': 'रवि',
+  'analytics.morning': 'सुबह',
+  'analytics.afternoon': 'दोपहर',
+  'analytics.evening': 'शाम',
+  'analytics.night': 'रात',
+  'analytics.checkIns': 'चेक-इन औसत',
+  'analytics.checkInsHint': 'उन चेक-इन से जिनमें आपने इन्हें रेट किया। कम चिंता बेहतर है।',
+  'analytics.tagsTitle': 'टैग और गतिविधियाँ',
+  'analytics.tagsHint': 'हर एक के साथ औसत मूड, और उसके बिना वाली एंट्री से अंतर।',
+  'analytics.activities': 'गतिविधियाँ',
+  'analytics.tags': 'टैग',
+  'analytics.addToCompare': 'तुलना के लिए इन्हें कुछ चेक-इन में जोड़ें।',
+  'analytics.correlationsTitle': 'आपके मूड के साथ क्या जुड़ा है',
+  'analytics.correlationsHint': 'उन दिनों पर आधारित जब आपने मूड दर्ज किया। संबंध का मतलब यह नहीं कि एक दूसरे की वजह है।',
+  'analytics.tasksTitle': 'पूरे किए गए काम',
+  'analytics.tasksActivity': 'पूरे किए गए काम',
+  'analytics.chatsTitle': 'चैट गतिविधि',
+  'analytics.chatsActivity': 'चैट संदेश',
+  'analytics.loadingActivity': 'गतिविधि लोड हो रही है...',
+  'analytics.daysWith': 'इसके साथ वाले दिन',
+  'analytics.daysWithout': 'इसके बिना वाले दिन',
+  'analytics.needMoreDays': 'यह देखने के लिए कि मूड का {activity} से क्या संबंध है, कम से कम {count} दिन मूड दर्ज करें।',
+  'analytics.noVariation': 'तुलना के लिए {activity} में अभी पर्याप्त बदलाव नहीं है।',
+  'analytics.noLink': 'आपका मूड {activity} के साथ बदलता हुआ नहीं दिखता।',
+  'analytics.linkHigher': '{strength} संबंध है: जिन दिनों {activity} ज़्यादा होते हैं, उन दिनों आपका मूड अक्सर बेहतर रहता है।',
+  'analytics.linkLower': '{strength} संबंध है: जिन दिनों {activity} ज़्यादा होते हैं, उन दिनों आपका मूड अक्सर कम रहता है।',
+  'analytics.strengthWeak': 'कमज़ोर',
+  'analytics.strengthModerate': 'मध्यम',
+  'analytics.strengthStrong': 'मज़बूत',
+
+  // Achievements
+  'achievements.title': 'उपलब्धियाँ',
+  'achievements.earned': '{total} में से {unlocked} हासिल',
+  'achievements.showAll': 'सभी बैज दिखाएँ',
+  'achievements.hide': 'बैज छिपाएँ',
+  'achievements.unlocked': { one: 'उपलब्धि हासिल हुई', other: '{count} उपलब्धियाँ हासिल हुईं' },
+  'achievements.nice': 'बढ़िया!',
+  'achievements.firstStep': 'पहला कदम',
+  'achievements.gettingThingsDone': 'काम पूरे हो रहे हैं',
+  'achievements.taskTamer': 'काम का उस्ताद',
+  'achievements.centurion': 'शतक',
+  'achievements.unstoppable': 'अजेय',
+  'achievements.checkingIn': 'पहला चेक-इन',
+  'achievements.selfAware': 'आत्म-जागरूक',
+  'achievements.moodMapper': 'मूड मैपर',
+  'achievements.innerCompass': 'भीतरी कम्पास',
+  'achievements.yearOfFeelings': 'भावनाओं का एक साल',
+  'achievements.streak': { one: '{count} दिन की स्ट्रीक', other: '{count} दिन की स्ट्रीक' },
+  'achievements.helloThere': 'नमस्ते',
+  'achievements.goodListener': 'अच्छा श्रोता',
+  'achievements.deepTalker': 'गहरी बातचीत',
+  'achievements.faceToFace': 'आमने-सामने',
+  'achievements.regularVisitor': 'नियमित मुलाक़ाती',
+  'achievements.trustedCompanion': 'भरोसेमंद साथी',
+  'achievements.describeTasks': { one: '{count} काम पूरा करें', other: '{count} काम पूरे करें' },
+  'achievements.describeCheckIns': { one: '{count} बार अपना मूड दर्ज करें', other: '{count} बार अपना मूड दर्ज करें' },
+  'achievements.describeStreak': { one: 'लगातार {count} दिन अपना मूड दर्ज करें', other: 'लगातार {count} दिन अपना मूड दर्ज करें' },
+  'achievements.describeChats': { one: '{count} चैट सेशन शुरू करें', other: '{count} चैट सेशन शुरू करें' },
+  'achievements.describeVideos': { one: '{count} वीडियो सेशन करें', other: '{count} वीडियो सेशन करें' },
+
+  // Task editing, quick add and breakdown
+  'tasks.titlePlaceholder': 'काम का शीर्षक',
+  'tasks.save': 'सेव करें',
+  'tasks.quickAddPlaceholder': 'झटपट जोड़ें: "{example}"',
+  'tasks.quickAddButton': 'जोड़ें',
+  'tasks.quickAddNoTitle': 'शीर्षक जोड़ें',
+  'tasks.renameStep': 'नाम बदलने के लिए क्लिक करें',
+  'tasks.deleteStep': 'कदम हटाएँ',
+  'tasks.addStepPlaceholder': 'एक कदम जोड़ें...',
+  'tasks.estimateMinutes': '{minutes} मिनट',
+  'tasks.estimateHours': '{hours} घंटे',
+  'tasks.estimateHoursMinutes': '{hours} घंटे {minutes} मिनट',
+  'breakdown.title': 'सुझाए गए कदम',
+  'breakdown.total': '· लगभग {time}',
+  'breakdown.loading': 'छोटे हिस्सों में बाँटा जा रहा है...',
+  'breakdown.minutes': 'मिनट',
+  'breakdown.minutesShort': 'मिनट',
+  'breakdown.moveUp': 'ऊपर ले जाएँ',
+  'breakdown.moveDown': 'नीचे ले जाएँ',
+  'breakdown.remove': 'कदम हटाएँ',
+  'breakdown.addStep': 'एक कदम जोड़ें',
+  'breakdown.adding': 'जोड़ा जा रहा है...',
+  'breakdown.accept': 'ये कदम जोड़ें',
+  'breakdown.retry': 'फिर से कोशिश करें',
+  'breakdown.discard': 'छोड़ें',
+  'breakdown.notConfigured': 'AI कॉन्फ़िगर नहीं है, इसलिए कामों को बाँटा नहीं जा सकता',
+  'breakdown.noSteps': 'इस काम के लिए कदम नहीं सूझे - कोई विवरण जोड़कर देखें',
+  'breakdown.failed': 'काम को बाँटा नहीं जा सका',
+
+  // Repeating tasks
+  'recurrence.none': 'दोहराया नहीं जाता',
+  'recurrence.custom': 'कस्टम (RRULE)',
+  'recurrence.hint': 'FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), साथ में वैकल्पिक INTERVAL, BYDAY, COUNT या UNTIL',
+  'recurrence.unsupported': 'यह नियम समर्थित नहीं है',
+  'recurrence.presetDaily': 'हर दिन',
+  'recurrence.presetWeekdays': 'हर कार्यदिवस',
+  'recurrence.presetWeekly': 'हर हफ़्ते',
+  'recurrence.presetBiweekly': 'हर 2 हफ़्ते',
+  'recurrence.presetMonthly': 'हर महीने',
+  'recurrence.everyDay': { one: 'हर दिन', other: 'हर {count} दिन' },
+  'recurrence.everyWeek': { one: 'हर हफ़्ते', other: 'हर {count} हफ़्ते' },
+  'recurrence.everyMonth': { one: 'हर महीने', other: 'हर {count} महीने' },
+  'recurrence.everyYear': { one: 'हर साल', other: 'हर {count} साल' },
+  'recurrence.onDays': '{rule}, {days} को',
+  'recurrence.timesLeft': { one: '{rule}, {count} बार बाकी', other: '{rule}, {count} बार बाकी' },
+  'recurrence.until': '{rule}, {date} तक',
+
+  // Reminders
+  'reminders.taskTitle': 'काम का रिमाइंडर',
+  'reminders.taskDue': '{title} - {date} तक',
+  'reminders.moodTitle': 'आप कैसा महसूस कर रहे हैं?',
+  'reminders.moodBody': 'आज आपने चेक-इन नहीं किया। मूड दर्ज करने में बस कुछ सेकंड लगते हैं।',
+  'reminders.summaryTitle': 'एक नज़र में आपका दिन',
+  'reminders.dueToday': { one: 'आज {count} काम बाकी है', other: 'आज {count} काम बाकी हैं' },
+  'reminders.nothingDue': 'आज कुछ बाकी नहीं',
+  'reminders.overdue': '{count} समय से पीछे',
+  'reminders.open': 'कुल {count} खुले',
+  'reminders.summaryBody': '{parts}।',
+
+  // Chat sessions
+  'chat.loadFailed': 'चैट सेशन लोड नहीं हो सके',
+  'chat.messagesFailed': 'संदेश लोड नहीं हो सके',
+  'chat.created': 'नया चैट सेशन बन गया!',
+  'chat.createFailed': 'नया सेशन नहीं बन सका',
+  'chat.saveFailed': 'संदेश सेव नहीं हो सका',
+  'chat.deleted': 'चैट सेशन हटाया गया',
+  'chat.deleteFailed': 'सेशन हटाया नहीं जा सका',
+  'chat.renamed': 'सेशन का शीर्षक अपडेट हुआ',
+  'chat.renameFailed': 'शीर्षक अपडेट नहीं हो सका',
+  'chat.reportOffline': 'रिपोर्ट नहीं बन सकती - सर्वर से कनेक्शन नहीं है',
+  'chat.reportReady': 'मूड रिपोर्ट तैयार है!',
+  'chat.reportFailed': 'मूड रिपोर्ट नहीं बन सकी',
+  'chat.linkCopied': 'चैट लिंक क्लिपबोर्ड पर कॉपी हुआ!',
+  'chat.shareFailed': 'सेशन शेयर नहीं हो सका',
+  'chat.savedChats': 'सहेजी गई चैट',
+  'chat.noSavedChats': 'अभी कोई सहेजी गई चैट नहीं है। आपकी अगली बातचीत यहाँ दिखेगी।',
+  'chat.saveTitle': 'शीर्षक सहेजें',
+  'chat.rename': 'नाम बदलें',
+  'chat.delete': 'हटाएँ',
+  'chat.keep': 'रखें',
+  'chat.confirmDelete': 'यह चैट हटाएँ?',
+
+  // Voice
+  'voice.playFailed': 'ऑडियो नहीं चल सका',
+  'voice.noApiKey': 'ElevenLabs API कुंजी कॉन्फ़िगर नहीं है',
+  'voice.speechOffline': 'टेक्स्ट-टू-स्पीच के लिए इंटरनेट कनेक्शन ज़रूरी है',
+  'voice.speechFailed': 'आवाज़ नहीं बन सकी',
+  'voice.listening': 'सुन रहे हैं... अब बोलिए!',
+  'voice.recognitionOffline': 'बोली पहचान के लिए इंटरनेट कनेक्शन ज़रूरी है',
+  'voice.recognitionUnsupported': 'यह ब्राउज़र बोली पहचान का समर्थन नहीं करता',
+  'voice.recognitionFailed': 'बोली पहचान विफल रही',
+  'voice.errorNetwork': 'नेटवर्क त्रुटि: अपना इंटरनेट कनेक्शन जाँचें और फिर से कोशिश करें',
+  'voice.errorNotAllowed': 'माइक्रोफ़ोन की अनुमति नहीं मिली। अनुमति दें और फिर से कोशिश करें',
+  'voice.errorNoSpeech': 'कोई आवाज़ नहीं सुनाई दी। साफ़ बोलें और फिर से कोशिश करें',
+  'voice.errorAudioCapture': 'माइक्रोफ़ोन नहीं मिला या काम नहीं कर रहा। अपना माइक्रोफ़ोन जाँचें',
+  'voice.errorService': 'बोली पहचान सेवा उपलब्ध नहीं है। बाद में फिर कोशिश करें',
+  'voice.errorGrammar': 'बोली पहचान में व्याकरण त्रुटि। फिर से बोलकर देखें',
+  'voice.errorLanguage': 'बोली पहचान इस भाषा का समर्थन नहीं करती',
+  'voice.errorOther': 'बोली पहचान त्रुटि: {error}',
+  'voice.title': 'वॉइस AI साथी',
+  'voice.subtitlePrivate': 'निजी वॉइस बातचीत (सहेजी नहीं जाती)',
+  'voice.subtitleSaved': 'बातचीत आपके खाते में सहेजी जाती है',
+  'voice.subtitleTypedSaved': 'टाइप किए संदेश आपके खाते में सहेजे जाते हैं; बोले गए निजी रहते हैं',
+  'voice.savingOn': 'बातचीत सहेजी जा रही है - निजी मोड के लिए क्लिक करें',
+  'voice.savingOff': 'निजी मोड - बातचीत सहेजने के लिए क्लिक करें',
+  'voice.autoSpeakOn': 'ऑटो-स्पीक चालू',
+  'voice.autoSpeakOff': 'ऑटो-स्पीक बंद',
+  'voice.ready': 'वॉइस तैयार',
+  'voice.newChat': 'नई चैट',
+  'voice.continuousOn': 'लगातार वॉइस मोड चालू',
+  'voice.continuousOff': 'लगातार वॉइस मोड बंद',
+  'voice.startVoiceChat': 'वॉइस चैट शुरू करें',
+  'voice.stopVoiceChat': 'वॉइस चैट रोकें',
+  'voice.noInternet': 'इंटरनेट कनेक्शन नहीं है',
+  'voice.noInternetHint': 'इंटरनेट के बिना वॉइस पहचान और AI चैट उपलब्ध नहीं हैं।',
+  'voice.limited': 'वॉइस सुविधाएँ सीमित हैं',
+  'voice.limitedHint': 'ElevenLabs API कुंजी कॉन्फ़िगर नहीं है। टेक्स्ट-टू-स्पीच उपलब्ध नहीं है।',
+  'voice.emptySaved': 'बातचीत शुरू करें! इसे सहेजा जाएगा ताकि आप बाद में जारी रख सकें।',
+  'voice.emptyPrivate': 'निजी बातचीत शुरू करें! संदेश सहेजे नहीं जाते।',
+  'voice.aiOffline': 'AI सुविधाओं के लिए इंटरनेट कनेक्शन ज़रूरी है',
+  'voice.undo': 'पूर्ववत करें',
+  'voice.undone': 'पूर्ववत किया गया',
+  'voice.stop': 'रोकें',
+  'voice.speak': 'बोलें',
+  'voice.responding': 'AI जवाब दे रहा है...',
+  'voice.thinking': 'AI सोच रहा है...',
+  'voice.stopGenerating': 'जनरेट करना रोकें',
+  'voice.placeholder': 'संदेश लिखें, या "remind me to..." / "log my mood as..."',
+  'voice.placeholderOffline': 'ऑफ़लाइन - आप अब भी कार्य जोड़ सकते हैं या मूड दर्ज कर सकते हैं',
+  'voice.send': 'भेजें',
+  'voice.voiceUnavailable': 'वॉइस सुविधाओं के लिए इंटरनेट कनेक्शन और API कुंजी ज़रूरी है',
+  'voice.startVoice': 'वॉइस बातचीत शुरू करें',
+  'voice.listeningShort': 'सुन रहा है...',
+  'voice.voice': 'वॉइस',
+  'voice.generateReport': 'AI मूड रिपोर्ट बनाएँ',
+  'voice.report': 'रिपोर्ट',
+  'voice.clearConversation': 'बातचीत साफ़ करें',
+  'voice.reportTitle': 'AI द्वारा बनाई गई मूड विश्लेषण रिपोर्ट',
+  'voice.overallMood': 'कुल मूड:',
+  'voice.stressLevel': 'तनाव स्तर:',
+  'voice.emotions': 'पहचानी गई भावनाएँ:',
+  'voice.weekCheckIns': 'इस हफ़्ते के आपके चेक-इन:',
+  'voice.weekAverage': { one: '{count} प्रविष्टि, औसत मूड {mood}/10', other: '{count} प्रविष्टियाँ, औसत मूड {mood}/10' },
+  'voice.weekEnergy': 'ऊर्जा {value}',
+  'voice.weekAnxiety': 'चिंता {value}',
+  'voice.weekSleep': 'नींद {value}',
+  'voice.mostLogged': 'सबसे ज़्यादा दर्ज: {items}',
+  'voice.summary': 'सारांश:',
+  'voice.keyConcerns': 'मुख्य चिंताएँ:',
+  'voice.positiveIndicators': 'सकारात्मक संकेत:',
+  'voice.recommendations': 'AI के सुझाव:',
+  'voice.none': 'कोई नहीं',
+  'voice.tryIt': 'आज़माएँ',
+  'voice.confidence': '{percent}%',
+  'voice.confidenceOffline': '{percent}% (ऑफ़लाइन कीवर्ड विश्लेषण)',
+  'voice.copyReport': 'रिपोर्ट कॉपी करें',
+  'voice.reportCopied': 'रिपोर्ट क्लिपबोर्ड पर कॉपी हो गई!',
+  'voice.privacyTitle': 'गोपनीयता सबसे पहले:',
+  'voice.privacySaved': 'सहेजना चालू है, इसलिए आपकी बातचीत आपके खाते में रखी जाती है और साइडबार से कभी भी हटाई जा सकती है। सहेजना रोकने के लिए निजी मोड पर लौटें।',
+  'voice.privacyPrivate': 'आपकी वॉइस बातचीत पूरी तरह निजी है और किसी डेटाबेस में सहेजी नहीं जाती। मौजूदा बातचीत के दौरान संदर्भ के लिए केवल अस्थायी सत्र डेटा मेमोरी में रहता है।',
+  'voice.poweredBy': 'वॉइस सिंथेसिस ElevenLabs द्वारा संचालित।',
+  'voice.replyCutOff': 'जवाब बीच में कट गया - कृपया फिर से कोशिश करें',
+  'voice.taskAdded': 'कार्य जोड़ा गया',
+  'voice.moodLogged': 'मूड दर्ज किया गया',
+  'voice.taskRemoved': 'कार्य हटाया गया',
+  'voice.moodRemoved': 'मूड प्रविष्टि हटाई गई',
+  'voice.commandFailedSpoken': 'माफ़ कीजिए, मैं इसे सहेज नहीं सका।',
+  'voice.commandFailed': 'माफ़ कीजिए, मैं इसे सहेज नहीं सका। कृपया फिर से कोशिश करें।',
+  'voice.sendOffline': 'संदेश नहीं भेजा जा सकता - इंटरनेट कनेक्शन नहीं है',
+  'voice.replyGenerated': 'AI जवाब तैयार!',
+  'voice.requestFailed': 'आपका अनुरोध प्रोसेस नहीं हो सका',
+  'voice.replyCancelled': 'जवाब रद्द किया गया',
+  'voice.featuresOffline': 'वॉइस सुविधाओं के लिए इंटरनेट कनेक्शन ज़रूरी है',
+  'voice.inputFailed': 'वॉइस इनपुट विफल रहा',
+  'voice.newConversation': 'नई बातचीत शुरू हुई',
+  'voice.nothingToAnalyze': 'विश्लेषण के लिए कोई बातचीत नहीं',
+  'voice.reportGenerated': 'AI रिपोर्ट तैयार हो गई!',
+  'voice.reportGeneratedOffline': 'ऑफ़लाइन विश्लेषण से रिपोर्ट बनाई गई',
+  'voice.speechUnavailable': 'टेक्स्ट-टू-स्पीच उपलब्ध नहीं है',
+  'voice.conversationCleared': 'बातचीत साफ़ की गई',
+
+  // Voice commands
+  'intents.loggedMood': 'आपका मूड 10 में से {mood} ({label}) दर्ज कर दिया।',
+  'intents.loggedMoodWithNote': 'आपका मूड 10 में से {mood} ({label}) दर्ज कर दिया, इस नोट के साथ: "{note}"।',
+  'intents.addedTask': '"{title}" आपके कामों में जोड़ दिया।',
+  'intents.addedTaskFor': '"{title}" को {when} के लिए आपके कामों में जोड़ दिया।',
+  'intents.addedReminder': '"{title}" को {when} के लिए आपके कामों में जोड़ दिया, और तब मैं आपको याद दिला दूँगा।',
+
+  // Video
+  'video.mediaFailed': 'कैमरा/माइक्रोफ़ोन तक पहुँच नहीं मिली',
+  'video.noLingering': 'डेटाबेस में कोई अधूरा सेशन नहीं मिला',
+  'video.cleared': { one: '{count} अधूरा सेशन बंद किया', other: '{count} अधूरे सेशन बंद किए' },
+  'video.clearFailed': 'अधूरे सेशन बंद नहीं हो सके',
+  'video.noApiKey': 'Tavus API कुंजी कॉन्फ़िगर नहीं है',
+  'video.offline': 'वीडियो सेशन के लिए इंटरनेट कनेक्शन ज़रूरी है',
+  'video.alreadyActive': 'आपका एक वीडियो सेशन पहले से चल रहा है। नया शुरू करने से पहले मौजूदा सेशन खत्म करें, या अगर आपको लगता है कि कोई सेशन नहीं चल रहा तो कुछ मिनट बाद फिर कोशिश करें।',
+  'video.createFailed': 'वीडियो सेशन नहीं बन सका',
+  'video.signIn': 'वीडियो सेशन शुरू करने के लिए साइन इन करें',
+  'video.started': 'वीडियो सेशन शुरू हुआ!',
+  'video.startFailed': 'वीडियो सेशन शुरू नहीं हो सका',
+  'video.ended': 'वीडियो सेशन खत्म हुआ',
+  'video.endFailed': 'सेशन ठीक से खत्म नहीं हो सका',
+  'video.title': 'आमने-सामने AI परामर्श',
+  'video.subtitle': 'अपने AI मानसिक स्वास्थ्य साथी के साथ निजी वीडियो बातचीत करें',
+  'video.connectionRequired': 'कनेक्शन ज़रूरी है',
+  'video.connectionRequiredHint': 'वीडियो परामर्श के लिए स्थिर इंटरनेट कनेक्शन ज़रूरी है',
+  'video.accessRequired': 'कैमरा और माइक्रोफ़ोन की अनुमति ज़रूरी है',
+  'video.permissionDenied': 'कैमरा और माइक्रोफ़ोन की अनुमति नहीं मिली। वीडियो परामर्श के लिए कृपया अनुमति दें।',
+  'video.noDevices': 'कोई कैमरा या माइक्रोफ़ोन नहीं मिला। वीडियो परामर्श के लिए कृपया कैमरा और माइक्रोफ़ोन जोड़ें।',
+  'video.noDevicesToast': 'कोई कैमरा या माइक्रोफ़ोन नहीं मिला',
+  'video.devicesBusy': 'कैमरा या माइक्रोफ़ोन पहले से किसी दूसरे ऐप्लिकेशन में इस्तेमाल हो रहा है।',
+  'video.devicesBusyToast': 'कैमरा/माइक्रोफ़ोन किसी दूसरे ऐप में इस्तेमाल हो रहा है',
+  'video.devicesUnavailable': 'कैमरा और माइक्रोफ़ोन तक पहुँच नहीं हो पा रही। कृपया डिवाइस सेटिंग्स जाँचें।',
+  'video.devicesUnavailableToast': 'कैमरा/माइक्रोफ़ोन तक पहुँच नहीं हो पा रही',
+  'video.accessGranted': 'कैमरा और माइक्रोफ़ोन की अनुमति मिल गई!',
+  'video.serverUnreachable': 'सर्वर से कनेक्ट नहीं हो पा रहा',
+  'video.openedInWindow': 'वीडियो परामर्श नई विंडो में खुल गया!',
+  'video.popupBlocked': 'पॉपअप ब्लॉक हो गया! कृपया पॉपअप की अनुमति देकर फिर से कोशिश करें, या नीचे दिए लिंक पर क्लिक करें।',
+  'video.sessionCleared': 'सत्र साफ़ हो गया। अब आप नया सत्र शुरू कर सकते हैं।',
+  'video.sessionClearFailed': 'सत्र साफ़ नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'video.supportiveDescription': 'सहानुभूतिपूर्ण और समझदार',
+  'video.professionalDescription': 'नैदानिक और व्यवस्थित तरीका',
+  'video.friendlyDescription': 'गर्मजोशी भरा और बातचीत वाला',
+  'video.motivationalDescription': 'प्रेरक और उत्साह बढ़ाने वाला',
+  'video.tryAgain': 'फिर से कोशिश करें',
+  'video.sessionActive': 'सत्र सक्रिय है',
+  'video.runningElsewhere': 'आपका AI परामर्श एक अलग विंडो में चल रहा है',
+  'video.openWindow': 'सत्र विंडो खोलें',
+  'video.openWindowHint': 'अगर विंडो अपने-आप नहीं खुली, तो ऊपर वाले बटन पर क्लिक करें',
+  'video.connectedToTavus': 'Tavus से जुड़ा है',
+  'video.ready': 'AI साथी तैयार है',
+  'video.readyHint': 'वीडियो परामर्श शुरू करने के लिए सत्र शुरू करें',
+  'video.opensInWindow': 'सत्र एक नई विंडो में खुलेगा',
+  'video.externalWindow': 'बाहरी विंडो',
+  'video.cameraRequired': 'कैमरा की अनुमति ज़रूरी है',
+  'video.cameraOff': 'कैमरा बंद करें',
+  'video.cameraOn': 'कैमरा चालू करें',
+  'video.microphoneRequired': 'माइक्रोफ़ोन की अनुमति ज़रूरी है',
+  'video.mute': 'माइक्रोफ़ोन म्यूट करें',
+  'video.unmute': 'माइक्रोफ़ोन अनम्यूट करें',
+  'video.endSession': 'सत्र समाप्त करें',
+  'video.startSession': 'सत्र शुरू करें',
+  'video.starting': 'शुरू हो रहा है...',
+  'video.sessionInfo': 'सत्र की जानकारी',
+  'video.maxDuration': 'अधिकतम अवधि:',
+  'video.minutes': { one: '{count} मिनट', other: '{count} मिनट' },
+  'video.timeLeft': 'बचा समय:',
+  'video.status': 'स्थिति:',
+  'video.statusActive': 'सक्रिय (बाहरी विंडो)',
+  'video.statusInactive': 'निष्क्रिय',
+  'video.urgentHelp': 'तुरंत मदद चाहिए?',
+  'video.notCrisisService': 'AI कोई संकट सेवा नहीं है। अगर आप ख़ुद को नुकसान पहुँचाने के बारे में सोच रहे हैं, तो अभी किसी इंसान से बात करें।',
+  'video.crisisResources': 'संकट सहायता संसाधन',
+  'video.tipsTitle': 'बेहतर सत्रों के लिए सुझाव',
+  'video.tipWindow': 'सत्र एक नई विंडो/टैब में खुलेगा',
+  'video.tipLighting': 'अपने चेहरे पर अच्छी रोशनी रखें',
+  'video.tipHeadphones': 'बेहतर आवाज़ के लिए हेडफ़ोन इस्तेमाल करें',
+  'video.tipQuiet': 'कोई शांत, निजी जगह चुनें',
+  'video.tipSpeakClearly': 'साफ़ और सामान्य गति से बोलें',
+  'video.tipOpen': 'AI के साथ खुलकर और ईमानदारी से बात करें',
+  'video.sessionError': 'सत्र त्रुटि',
+  'video.clearSession': 'सत्र साफ़ करें',
+  'video.clearing': 'साफ़ हो रहा है...',
+  'video.allowAccess': 'वीडियो परामर्श के लिए कृपया अपने कैमरा और माइक्रोफ़ोन की अनुमति दें।',
+  'video.howToEnable': 'अनुमति कैसे दें:',
+  'video.permissionStepIcon': 'अपने ब्राउज़र के एड्रेस बार में कैमरा/माइक्रोफ़ोन आइकन देखें',
+  'video.permissionStepAllow': 'उस पर क्लिक करें और "Allow" चुनें',
+  'video.permissionStepSettings': 'या ब्राउज़र सेटिंग्स में जाकर इस साइट के लिए कैमरा/माइक्रोफ़ोन चालू करें',
+  'video.permissionStepRefresh': 'ज़रूरत हो तो पेज रीफ़्रेश करें',
+
+  // Crisis resources
+  'crisis.title': 'आपको इसका सामना अकेले नहीं करना है',
+  'crisis.intro': 'लगता है कि अभी चीज़ें सच में बहुत मुश्किल हैं। किसी प्रशिक्षित व्यक्ति से बात करने से मदद मिल सकती है, और ये सेवाएँ मुफ़्त और गोपनीय हैं।',
+  'crisis.immediateDanger': 'अगर आप तुरंत खतरे में हैं, तो अभी {number} पर कॉल करें।',
+  'crisis.localEmergencyNumber': 'अपने स्थानीय आपातकालीन नंबर',
+  'crisis.call': '{number} पर कॉल करें',
+  'crisis.text': '{number} पर मैसेज करें',
+  'crisis.website': 'वेबसाइट',
+  'crisis.showingFor': 'आपके टाइमज़ोन के आधार पर {region} की सेवाएँ दिखाई जा रही हैं। अभी वहाँ नहीं हैं?',
+  'crisis.findHelpline': 'अपने देश की हेल्पलाइन खोजें',
+  'crisis.understand': 'मैं समझता/समझती हूँ',
+  'crisis.regionUs': 'अमेरिका',
+  'crisis.regionCa': 'कनाडा',
+  'crisis.regionGb': 'यूनाइटेड किंगडम',
+  'crisis.regionIe': 'आयरलैंड',
+  'crisis.regionIn': 'भारत',
+  'crisis.regionAu': 'ऑस्ट्रेलिया',
+  'crisis.regionNz': 'न्यूज़ीलैंड',
+  'crisis.regionEs': 'स्पेन',
+  'crisis.regionMx': 'मेक्सिको',
+  'crisis.regionIntl': 'अंतरराष्ट्रीय',
+  'crisis.us988': 'कॉल या मैसेज से 24/7 मुफ़्त, गोपनीय सहायता',
+  'crisis.usCrisisTextLine': 'प्रशिक्षित संकट परामर्शदाता से बात करने के लिए HOME लिखकर भेजें',
+  'crisis.ca988': 'किसी भी समय अंग्रेज़ी या फ़्रेंच में कॉल या मैसेज करें',
+  'crisis.ukSamaritans': 'आप जिस भी दौर से गुज़र रहे हों, 24/7 मुफ़्त कॉल करें',
+  'crisis.ukShout': '24/7 मुफ़्त, गोपनीय सहायता के लिए SHOUT लिखकर भेजें',
+  'crisis.ieSamaritans': '24/7 मुफ़्त कॉल',
+  'crisis.ieTextAboutIt': '24/7 मुफ़्त सहायता के लिए HELLO लिखकर भेजें',
+  'crisis.inTeleManas': 'मुफ़्त राष्ट्रीय मानसिक स्वास्थ्य हेल्पलाइन, कई भाषाओं में 24/7',
+  'crisis.auLifeline': '24/7 संकट सहायता और आत्महत्या रोकथाम',
+  'crisis.nz1737': 'प्रशिक्षित परामर्शदाता से बात करने के लिए 1737 पर कॉल या मैसेज करें',
+  'crisis.es024': 'आत्महत्या के विचारों के लिए 24 घंटे मुफ़्त सहायता',
+  'crisis.mxLineaDeLaVida': '24 घंटे मुफ़्त भावनात्मक सहायता',
+  'crisis.intlFindAHelpline': 'आपके देश में मुफ़्त, गोपनीय हेल्पलाइन',
+
+  // Session reports
+  'reports.title': 'वीडियो सेशन रिपोर्ट',
+  'reports.generatedAt': '{date} को बनाई गई',
+  'reports.generatedBy': 'MindPal AI साथी द्वारा बनाई गई',
+  'reports.shareTitle': 'MindPal वीडियो सेशन रिपोर्ट - {date}',
+  'reports.notAvailable': 'उपलब्ध नहीं',
+  'reports.sessionDetails': 'सेशन का विवरण',
+  'reports.duration': 'अवधि',
+  'reports.quality': 'गुणवत्ता',
+  'reports.engagement': 'भागीदारी',
+  'reports.engagementLevel': 'भागीदारी का स्तर',
+  'reports.technicalIssues': 'तकनीकी समस्याएँ',
+  'reports.interactions': 'बातचीत',
+  'reports.moodAnalysis': 'मूड विश्लेषण',
+  'reports.overallSentiment': 'कुल मिलाकर भावना',
+  'reports.stressIndicators': 'तनाव के संकेत',
+  'reports.emotionalState': 'भावनात्मक स्थिति',
+  'reports.confidenceScore': 'विश्वास स्कोर',
+  'reports.engagementMetrics': 'भागीदारी के आँकड़े',
+  'reports.completionRate': 'पूरा होने की दर',
+  'reports.userSatisfaction': 'उपयोगकर्ता संतुष्टि',
+  'reports.aiQuality': 'AI गुणवत्ता',
+  'reports.recommendations': 'सुझाव',
+  'reports.share': 'रिपोर्ट साझा करें',
+  'reports.exportJson': 'JSON के रूप में एक्सपोर्ट करें',
+  'reports.exportText': 'टेक्स्ट के रूप में एक्सपोर्ट करें',
+  'reports.overview': 'सेशन का सारांश',
+  'reports.notAssessed': 'आकलन नहीं हुआ',
+  'reports.heuristic': 'AI विश्लेषण के बिना, सेशन के डेटा से अनुमानित।',
+  'reports.totalInteractions': 'कुल बातचीत',
+  'reports.technicalPerformance': 'तकनीकी प्रदर्शन',
+  'reports.avgResponseTime': 'औसत जवाब समय',
+  'reports.analyticsEvents': 'एनालिटिक्स इवेंट',
+  'reports.timeline': 'सेशन की समयरेखा',
+  'reports.started': 'शुरू:',
+  'reports.ended': 'समाप्त:',
+  'reports.reportGenerated': 'रिपोर्ट बनी:',
+  'reports.ratingPositive': 'सकारात्मक',
+  'reports.ratingNeutral': 'तटस्थ',
+  'reports.ratingNegative': 'नकारात्मक',
+  'reports.ratingLow': 'कम',
+  'reports.ratingMedium': 'मध्यम',
+  'reports.ratingHigh': 'अधिक',
+  'reports.ratingImproving': 'सुधर रही है',
+  'reports.ratingStable': 'स्थिर',
+  'reports.ratingConcerning': 'चिंताजनक',
+  'reports.ratingExcellent': 'उत्कृष्ट',
+  'reports.ratingGood': 'अच्छी',
+  'reports.ratingFair': 'ठीक-ठाक',
+  'reports.ratingBrief': 'संक्षिप्त',
+  'reports.ratingPoor': 'खराब',
+  'reports.offline': 'रिपोर्ट नहीं बन सकती - सर्वर से कनेक्शन नहीं है',
+  'reports.generating': 'AI से सेशन रिपोर्ट बन रही है...',
+  'reports.generated': 'सेशन रिपोर्ट तैयार है! 🎉',
+  'reports.generateFailed': 'सेशन रिपोर्ट नहीं बन सकी',
+  'reports.loadFailed': 'सेशन रिपोर्ट लोड नहीं हो सकीं',
+  'reports.copied': 'रिपोर्ट का विवरण क्लिपबोर्ड पर कॉपी हो गया!',
+  'reports.shareFailed': 'रिपोर्ट साझा नहीं हो सकी',
+  'reports.exported': 'रिपोर्ट {format} के रूप में एक्सपोर्ट हो गई',
+  'reports.exportFailed': 'रिपोर्ट एक्सपोर्ट नहीं हो सकी',
+
+  // Journal
+  'journal.saveFailed': 'जर्नल एंट्री सेव नहीं हो सकी',
+  'journal.updateFailed': 'जर्नल एंट्री अपडेट नहीं हो सकी',
+  'journal.deleteFailed': 'जर्नल एंट्री हटाई नहीं जा सकी',
+  'journal.loadFailed': 'जर्नल लोड नहीं हो सका',
+  'journal.title': 'जर्नल',
+  'journal.privateIntro': 'निजी और एन्क्रिप्टेड। यहाँ आप जो लिखते हैं, उसे सिर्फ़ आप पढ़ सकते हैं।',
+  'journal.setPassphraseIntro': 'लिखना शुरू करने के लिए पासफ़्रेज़ सेट करें। फिर प्रविष्टियाँ ऐसी कुंजी से एन्क्रिप्ट होंगी जो सिर्फ़ आपके पास है।',
+  'journal.legacyWarning': 'आपकी पुरानी प्रविष्टियाँ कमज़ोर कुंजी से सुरक्षित हैं। उन्हें दोबारा एन्क्रिप्ट करने और नई लिखने के लिए पासफ़्रेज़ सेट करें।',
+  'journal.setPassphrase': 'पासफ़्रेज़ सेट करें',
+  'journal.newEntry': 'नई प्रविष्टि',
+  'journal.newEntryTitle': 'नई प्रविष्टि',
+  'journal.search': 'अपनी प्रविष्टियाँ खोजें',
+  'journal.list': 'सूची',
+  'journal.calendar': 'कैलेंडर',
+  'journal.showAllDays': 'सभी दिन दिखाएँ',
+  'journal.lockedEntry': 'लॉक की गई प्रविष्टि',
+  'journal.untitled': 'बिना शीर्षक',
+  'journal.linkedMood': 'जुड़ा हुआ मूड चेक-इन',
+  'journal.editEntry': 'प्रविष्टि संपादित करें',
+  'journal.deleteEntry': 'प्रविष्टि हटाएँ',
+  'journal.confirmDelete': 'हटाएँ?',
+  'journal.unlockToRead': 'यह प्रविष्टि पढ़ने के लिए अपने पासफ़्रेज़ से अनलॉक करें।',
+  'journal.cannotDecrypt': 'यह प्रविष्टि इस डिवाइस पर डिक्रिप्ट नहीं हो सकती।',
+  'journal.showLess': 'कम दिखाएँ',
+  'journal.readMore': 'और पढ़ें',
+  'journal.empty': 'आपका जर्नल खाली है। अपनी पहली प्रविष्टि लिखें।',
+  'journal.noMatches': '"{query}" से कोई प्रविष्टि मेल नहीं खाती।',
+  'journal.noEntriesOnDay': 'इस दिन कोई प्रविष्टि नहीं है।',
+  'journal.entryCount': { one: '{count} प्रविष्टि', other: '{count} प्रविष्टियाँ' },
+  'journal.previousMonth': 'पिछला महीना',
+  'journal.nextMonth': 'अगला महीना',
+  'journal.removePrompt': 'संकेत हटाएँ',
+  'journal.promptsHint': 'शुरुआत के लिए कुछ चाहिए?',
+  'journal.titlePlaceholder': 'शीर्षक (वैकल्पिक)',
+  'journal.formatBold': 'बोल्ड',
+  'journal.formatItalic': 'इटैलिक',
+  'journal.formatHeading': 'शीर्षक',
+  'journal.formatList': 'सूची',
+  'journal.formatQuote': 'उद्धरण',
+  'journal.write': 'लिखें',
+  'journal.preview': 'पूर्वावलोकन',
+  'journal.nothingYet': 'अभी तक कुछ नहीं लिखा।',
+  'journal.bodyPlaceholder': 'खुलकर लिखें। इसे सिर्फ़ आप पढ़ सकते हैं।',
+  'journal.linkMood': 'मूड चेक-इन से जोड़ें',
+  'journal.noMoodsOnDay': 'इस दिन कोई मूड चेक-इन नहीं है।',
+  'journal.notLinked': 'जुड़ा नहीं',
+  'journal.linkedCheckIn': 'जुड़ा हुआ चेक-इन',
+  'journal.moodAt': '{time} पर {mood}/10',
+  'journal.encryptedNote': 'सहेजने से पहले इस डिवाइस पर एन्क्रिप्ट किया जाता है',
+  'journal.save': 'सहेजें',
+  'journal.saved': 'प्रविष्टि सहेजी गई',
+  'journal.updated': 'प्रविष्टि अपडेट की गई',
+  'journal.deleted': 'प्रविष्टि हटाई गई',
+  'journal.promptGeneral1': 'आज आपके मन में सबसे ज़्यादा क्या चल रहा है?',
+  'journal.promptGeneral2': 'आज का कोई छोटा-सा पल लिखें जिसे आप याद रखना चाहते हैं।',
+  'journal.promptGeneral3': 'कल से पहले आप क्या छोड़ देना चाहेंगे?',
+  'journal.promptGeneral4': 'इस हफ़्ते आपने अपने बारे में क्या सीखा?',
+  'journal.promptGeneral5': 'आपके दिन में किसने फ़र्क डाला, और कैसे?',
+  'journal.promptGeneral6': 'आप किस बात का इंतज़ार कर रहे हैं, चाहे थोड़ा ही?',
+  'journal.promptGeneral7': 'अगर आज के दिन का कोई शीर्षक होता, तो वह क्या होता?',
+  'journal.promptGeneral8': 'कल अपना ख़याल रखने के लिए आप कौन-सी एक चीज़ कर सकते हैं?',
+  'journal.promptLow1': 'इस समय सबसे भारी क्या लग रहा है? बिना परखे उसे लिख दें।',
+  'journal.promptLow2': 'जो दोस्त आज आपकी तरह महसूस करता, उससे आप क्या कहते?',
+  'journal.promptLow3': 'एक चीज़ बताइए जिसने आज आपको संभाला, चाहे वह कितनी भी छोटी हो।',
+  'journal.promptLow4': 'इस समय आपको सबसे ज़्यादा किस चीज़ की ज़रूरत है, और उसमें कौन मदद कर सकता है?',
+  'journal.promptLow5': 'आज की कौन-सी चिंताएँ आपके बस में हैं, और कौन-सी नहीं?',
+  'journal.promptHigh1': 'आज क्या अच्छा हुआ, और उसमें आपकी क्या भूमिका थी?',
+  'journal.promptHigh2': 'ऐसी तीन चीज़ें कौन-सी हैं जिनके लिए आप इस समय आभारी हैं?',
+  'journal.promptHigh3': 'आज की कुछ ऊर्जा आप कल तक कैसे ले जा सकते हैं?',
+  'journal.promptHigh4': 'इस हफ़्ते आपको किस बात पर गर्व है?',
+
+  // Exercises
+  'exercises.loadFailed': 'अभ्यास इतिहास लोड नहीं हो सका',
+  'exercises.saveFailed': 'अभ्यास सेशन सहेजा नहीं जा सका',
+  'exercises.title': 'साँस लें और संभलें',
+  'exercises.subtitle': 'छोटे निर्देशित अभ्यास, जब सब कुछ बहुत ज़्यादा लगे',
+  'exercises.all': 'सभी अभ्यास',
+  'exercises.about': 'लगभग {duration}',
+  'exercises.seconds': { one: '{count} सेकंड', other: '{count} सेकंड' },
+  'exercises.minutes': { one: '{count} मिनट', other: '{count} मिनट' },
+  'exercises.recent': 'हाल के सेशन',
+  'exercises.empty': 'अभी कोई सेशन नहीं है। शुरू करने के लिए ऊपर कोई अभ्यास चुनें।',
+  'exercises.saved': 'सेशन आपके मूड इतिहास में सहेजा गया',
+  'exercises.round': '{total} में से राउंड {round}',
+  'exercises.step': '{total} में से चरण {step}',
+  'exercises.narrationOn': 'आवाज़ में निर्देश चालू करें',
+  'exercises.narrationOff': 'आवाज़ में निर्देश बंद करें',
+  'exercises.narrationUnavailable': 'आवाज़ में निर्देशों के लिए वॉइस सेटअप और कनेक्शन ज़रूरी है',
+  'exercises.pause': 'रोकें',
+  'exercises.resume': 'फिर शुरू करें',
+  'exercises.next': 'अगला',
+  'exercises.stop': 'बंद करें',
+  'exercises.wellDone': 'बहुत बढ़िया',
+  'exercises.wellDoneSpoken': 'बहुत बढ़िया।',
+  'exercises.completed': { one: 'आपने {title} {count} मिनट में पूरा किया।', other: 'आपने {title} {count} मिनट में पूरा किया।' },
+  'exercises.logMood': 'दर्ज करें कि आप कैसा महसूस कर रहे हैं',
+  'exercises.goAgain': 'फिर से करें',
+  'exercises.done': 'हो गया',
+  'exercises.boxTitle': 'बॉक्स ब्रीदिंग',
+  'exercises.boxSummary': 'चार बराबर गिनतियाँ, जो साँस को स्थिर और मन को शांत करती हैं।',
+  'exercises.boxInstructions': 'आराम से बैठें। चौकोर का पालन करें: साँस लें, रोकें, छोड़ें और फिर रोकें, हर बार चार सेकंड।',
+  'exercises.fourSevenEightTitle': '4-7-8 ब्रीदिंग',
+  'exercises.fourSevenEightSummary': 'लंबी, धीमी साँस छोड़ना, जो शरीर को आराम की अवस्था में लाने में मदद करता है।',
+  'exercises.fourSevenEightInstructions': 'नाक से धीरे से 4 तक साँस लें, 7 तक रोकें, फिर मुँह से 8 तक पूरी साँस छोड़ें।',
+  'exercises.groundingTitle': '5-4-3-2-1 ग्राउंडिंग',
+  'exercises.groundingSummary': 'जब भावनाएँ उफान पर हों, तो अपनी इंद्रियों से वर्तमान में लौटें।',
+  'exercises.groundingInstructions': 'हर इंद्रिय के साथ समय लें। चीज़ों के नाम ज़ोर से या मन में लें, फिर तैयार होने पर आगे बढ़ें।',
+  'exercises.breatheIn': 'साँस लें',
+  'exercises.hold': 'रोकें',
+  'exercises.breatheOut': 'साँस छोड़ें',
+  'exercises.breatheInNose': 'नाक से साँस लें',
+  'exercises.breatheOutMouth': 'मुँह से धीरे-धीरे साँस छोड़ें',
+  'exercises.see': '5 चीज़ें जो आप देख सकते हैं',
+  'exercises.seeNarration': 'चारों ओर देखें और पाँच चीज़ों के नाम लें जो आप देख सकते हैं',
+  'exercises.seeDetail': 'रंग, आकार, रोशनी और छाया पर ध्यान दें।',
+  'exercises.feel': '4 चीज़ें जो आप महसूस कर सकते हैं',
+  'exercises.feelNarration': 'अब चार चीज़ों पर ध्यान दें जो आप महसूस कर सकते हैं',
+  'exercises.feelDetail': 'ज़मीन पर आपके पैर, कुर्सी, त्वचा पर हवा।',
+  'exercises.hear': '3 चीज़ें जो आप सुन सकते हैं',
+  'exercises.hearNarration': 'तीन चीज़ें सुनें जो आपको सुनाई दे रही हैं',
+  'exercises.hearDetail': 'पास और दूर की आवाज़ें, धीमी आवाज़ें भी।',
+  'exercises.smell': '2 चीज़ें जिनकी गंध आप ले सकते हैं',
+  'exercises.smellNarration': 'दो चीज़ें खोजें जिनकी गंध आप ले सकते हैं',
+  'exercises.smellDetail': 'या अगर कुछ खास न लगे, तो दो गंध जो आपको पसंद हों।',
+  'exercises.taste': '1 चीज़ जिसका स्वाद आप ले सकते हैं',
+  'exercises.tasteNarration': 'एक चीज़ पर ध्यान दें जिसका स्वाद आप ले सकते हैं',
+  'exercises.tasteDetail': 'फिर एक धीमी, गहरी साँस लें।',
+
+  // Offline sync
+  'sync.dropped': { one: '{count} ऑफ़लाइन बदलाव सेव नहीं हो सका', other: '{count} ऑफ़लाइन बदलाव सेव नहीं हो सके' },
+  'sync.synced': { one: '{count} ऑफ़लाइन बदलाव सिंक हुआ', other: '{count} ऑफ़लाइन बदलाव सिंक हुए' },
+  'sync.editedElsewhere': {
+    one: '{count} आइटम को दूसरे डिवाइस पर बाद में बदला गया था, इसलिए वही बदलाव रखे गए।',
+    other: '{count} आइटम को दूसरे डिवाइस पर बाद में बदला गया था, इसलिए वही बदलाव रखे गए।',
+  },
+  'sync.deletedElsewhere': {
+    one: '{count} आइटम दूसरे डिवाइस पर हटा दिया गया।',
+    other: '{count} आइटम दूसरे डिवाइस पर हटा दिए गए।',
+  },
+
+  // Encryption
+  'encryption.setupTitle': 'अपने निजी डेटा को सुरक्षित करें',
+  'encryption.setupIntro': 'पासफ़्रेज़ सेट करें ताकि आपकी जर्नल और निजी डेटा ऐसी कुंजी से एन्क्रिप्ट हों जो सिर्फ़ आपके पास है। मौजूदा एंट्री अपने आप फिर से एन्क्रिप्ट हो जाती हैं। हम आपका पासफ़्रेज़ कभी नहीं देखते, इसलिए उसे वापस नहीं ला सकते - इसके बदले आपको एक रिकवरी कोड मिलेगा।',
+  'encryption.newPassphrase': { one: 'नया पासफ़्रेज़ (कम से कम {count} अक्षर)', other: 'नया पासफ़्रेज़ (कम से कम {count} अक्षर)' },
+  'encryption.confirmPassphrase': 'नए पासफ़्रेज़ की पुष्टि करें',
+  'encryption.currentPassphrase': 'मौजूदा पासफ़्रेज़',
+  'encryption.settingUp': 'सेट किया जा रहा है...',
+  'encryption.setPassphrase': 'पासफ़्रेज़ सेट करें',
+  'encryption.unlockedTitle': 'एन्क्रिप्शन चालू और अनलॉक है',
+  'encryption.unlockedHint': 'आपकी कुंजी तब तक अनलॉक रहती है जब तक आप उसे लॉक न करें, साइन आउट न करें या पेज रीलोड न करें।',
+  'encryption.lockNow': 'अभी लॉक करें',
+  'encryption.changePassphrase': 'पासफ़्रेज़ बदलें',
+  'encryption.newCodeTitle': 'नया रिकवरी कोड',
+  'encryption.newCodeHint': 'रिकवरी कोड खो गया, या लगता है किसी और ने देख लिया? नया बनाएँ; पुराना कोड काम करना बंद कर देगा।',
+  'encryption.creating': 'बनाया जा रहा है...',
+  'encryption.createCode': 'नया कोड बनाएँ',
+  'encryption.enterPassphrase': 'अपना पासफ़्रेज़ डालें',
+  'encryption.lockedHint': 'इस डिवाइस पर आपका निजी डेटा लॉक है।',
+  'encryption.passphrase': 'पासफ़्रेज़',
+  'encryption.unlock': 'अनलॉक करें',
+  'encryption.unlocking': 'अनलॉक हो रहा है...',
+  'encryption.forgotPassphrase': 'पासफ़्रेज़ भूल गए?',
+  'encryption.useRecoveryCode': 'अपने रिकवरी कोड का इस्तेमाल करें',
+  'encryption.recoverHint': 'सहेजा हुआ कोड डालें और नया पासफ़्रेज़ चुनें।',
+  'encryption.recovering': 'रिकवर हो रहा है...',
+  'encryption.setNewPassphrase': 'नया पासफ़्रेज़ सेट करें',
+  'encryption.backToPassphrase': 'पासफ़्रेज़ पर वापस जाएँ',
+  'encryption.saveCode': 'अपना रिकवरी कोड सहेजें',
+  'encryption.saveCodeHint': 'अगर आप अपना पासफ़्रेज़ भूल जाते हैं, तो यही कोड आपकी जर्नल तक वापस पहुँचने का एकमात्र तरीका है। हम इसे आपके लिए रीसेट नहीं कर सकते, और यह दोबारा नहीं दिखाया जाएगा।',
+  'encryption.copy': 'कॉपी करें',
+  'encryption.download': 'डाउनलोड करें',
+  'encryption.codeSaved': 'मैंने अपना रिकवरी कोड किसी सुरक्षित जगह सहेज लिया है',
+  'encryption.done': 'हो गया',
+  'encryption.codeCopied': 'रिकवरी कोड कॉपी हो गया',
+  'encryption.codeCopyFailed': 'कॉपी नहीं हो सका - इसके बजाय कोड लिख लें',
+  'encryption.codeFileTitle': 'MindPal रिकवरी कोड',
+  'encryption.codeFileHint': 'अगर आप अपना पासफ़्रेज़ भूल जाएँ, तो नया सेट करने के लिए इसका इस्तेमाल करें। इसे किसी सुरक्षित जगह रखें।',
+  'encryption.tooShort': { one: 'कम से कम {count} अक्षर इस्तेमाल करें', other: 'कम से कम {count} अक्षर इस्तेमाल करें' },
+  'encryption.tooSimple': 'अलग-अलग अक्षरों का मेल इस्तेमाल करें',
+  'encryption.mismatch': 'पासफ़्रेज़ मेल नहीं खाते',
+  'encryption.offline': 'एन्क्रिप्शन सेटिंग्स बदलने के लिए इंटरनेट से कनेक्ट करें',
+  'encryption.alreadySet': 'पासफ़्रेज़ पहले ही सेट है। उसी से अनलॉक करें।',
+  'encryption.setupFailed': 'एन्क्रिप्शन सेट नहीं हो सका',
+  'encryption.wrongPassphrase': 'यह पासफ़्रेज़ सही नहीं है',
+  'encryption.wrongCurrentPassphrase': 'आपका मौजूदा पासफ़्रेज़ सही नहीं है',
+  'encryption.passphraseChanged': 'पासफ़्रेज़ बदल गया',
+  'encryption.changeFailed': 'पासफ़्रेज़ नहीं बदल सका',
+  'encryption.notRecoveryCode': 'यह रिकवरी कोड जैसा नहीं लगता',
+  'encryption.wrongRecoveryCode': 'यह रिकवरी कोड सही नहीं है',
+  'encryption.recoverFailed': 'आपकी कुंजी वापस नहीं मिल सकी',
+  'encryption.newCodeFailed': 'नया रिकवरी कोड नहीं बन सका',
+
+  // Memory
+  'memory.title': 'MindPal क्या याद रखता है',
+  'memory.intro': 'जब कोई सेव की गई Voice AI चैट खत्म होती है और डेटा शेयर करना चालू है, MindPal कुछ मुख्य बातें याद रखता है ताकि आगे की बातचीत जुड़ी हुई लगे। आप यहाँ कुछ भी सुधार या हटा सकते हैं।',
+  'memory.savingOff': 'बातचीत सेव करना बंद है, इसलिए नई यादें नहीं बन रहीं।',
+  'memory.empty': 'अभी कुछ याद नहीं रखा गया।',
+  'memory.categoryPerson': 'लोग',
+  'memory.categoryEvent': 'घटनाएँ',
+  'memory.categoryPreference': 'पसंद',
+  'memory.categoryGoal': 'लक्ष्य',
+  'memory.categoryHealth': 'सेहत',
+  'memory.categoryOther': 'अन्य',
+  'memory.save': 'सेव करें',
+  'memory.edit': 'संपादित करें',
+  'memory.forget': 'इसे भूल जाएँ',
+  'memory.confirmClear': { one: '{count} याद भूल जाएँ?', other: 'सभी {count} यादें भूल जाएँ?' },
+  'memory.forgetAll': 'सब कुछ भूल जाएँ',
+  'memory.updated': 'याद अपडेट हो गई',
+  'memory.deleted': 'याद हटा दी गई',
+  'memory.cleared': 'सारी यादें मिटा दी गईं',
+  'memory.updateOffline': 'याद अपडेट नहीं हो सकती - सर्वर से कनेक्शन नहीं है',
+  'memory.deleteOffline': 'याद हटाई नहीं जा सकती - सर्वर से कनेक्शन नहीं है',
+  'memory.clearOffline': 'यादें मिटाई नहीं जा सकतीं - सर्वर से कनेक्शन नहीं है',
+  'memory.updateFailed': 'याद अपडेट नहीं हो सकी',
+  'memory.deleteFailed': 'याद हटाई नहीं जा सकी',
+  'memory.clearFailed': 'यादें मिटाई नहीं जा सकीं',
+
+  // Data export
+  'export.title': 'आपका डेटा',
+  'export.intro': 'MindPal आपके बारे में जो कुछ रखता है, सब ZIP आर्काइव में डाउनलोड करें, हर तरह के डेटा के लिए JSON और CSV के साथ। यह इसी डिवाइस पर तैयार होता है; निजी डेटा डिक्रिप्ट करके शामिल किया जाता है।',
+  'export.locked': 'आपकी एन्क्रिप्शन कुंजी लॉक है, इसलिए जर्नल एंट्री एन्क्रिप्टेड रूप में एक्सपोर्ट होंगी।',
+  'export.unlockFirst': 'पहले इसे अनलॉक करें',
+  'export.fetching': '{table} लाया जा रहा है...',
+  'export.decrypting': '{table} डिक्रिप्ट किया जा रहा है...',
+  'export.packaging': '{table} पैक किया जा रहा है...',
+  'export.archive': 'आर्काइव',
+  'export.progress': '{total} में से {completed}',
+  'export.download': 'मेरा डेटा डाउनलोड करें',
+  'export.offline': 'अपना डेटा डाउनलोड करने के लिए इंटरनेट से जुड़ें',
+  'export.done': 'आपका डेटा डाउनलोड हो गया',
+  'export.partial': {
+    one: 'डेटा एक्सपोर्ट हो गया। {count} टेबल पढ़ी नहीं जा सकी - manifest.json देखें',
+    other: 'डेटा एक्सपोर्ट हो गया। {count} टेबल पढ़ी नहीं जा सकीं - manifest.json देखें',
+  },
+  'export.failed': 'आपका डेटा एक्सपोर्ट नहीं हो सका',
+
+  // Data import
+  'import.title': 'दूसरे ऐप्स से इम्पोर्ट करें',
+  'import.intro': 'किसी दूसरे ऐप के एक्सपोर्ट से मूड इतिहास और काम लाएँ। पहले आपको प्रीव्यू दिखेगा; पुष्टि करने तक कुछ सेव नहीं होता। बिना टाइम ज़ोन वाली तारीखें आपकी प्रोफ़ाइल के टाइम ज़ोन में पढ़ी जाती हैं।',
+  'import.daylio': 'Daylio',
+  'import.daylioDescription': 'तारीख, समय, मूड, गतिविधियों और नोट के कॉलम वाला CSV एक्सपोर्ट',
+  'import.moodCsv': 'कोई दूसरा मूड ट्रैकर',
+  'import.moodCsvDescription': 'तारीख और मूड रेटिंग वाली कोई भी CSV; कॉलम आप चुनते हैं',
+  'import.todoist': 'Todoist',
+  'import.todoistDescription': 'प्रोजेक्ट का CSV एक्सपोर्ट, सब-टास्क के साथ',
+  'import.taskCsv': 'कोई दूसरी काम सूची',
+  'import.taskCsvDescription': 'काम के शीर्षक वाली कोई भी CSV; कॉलम आप चुनते हैं',
+  'import.ics': 'कैलेंडर (ICS)',
+  'import.icsDescription': '.ics फ़ाइल से टू-डू और इवेंट',
+  'import.fieldDate': 'तारीख',
+  'import.fieldTime': 'समय',
+  'import.fieldMood': 'मूड',
+  'import.fieldActivities': 'गतिविधियाँ',
+  'import.fieldNote': 'नोट',
+  'import.fieldTitle': 'शीर्षक',
+  'import.fieldDescription': 'विवरण',
+  'import.fieldDue': 'नियत तारीख',
+  'import.fieldPriority': 'प्राथमिकता',
+  'import.fieldCompleted': 'पूरा हुआ',
+  'import.fieldCategory': 'श्रेणी',
+  'import.kindMood': 'मूड',
+  'import.kindTask': 'काम',
+  'import.chooseFile': '{type} फ़ाइल चुनें',
+  'import.chooseAnother': 'दूसरी फ़ाइल चुनें ({name})',
+  'import.matchColumns': 'अपने कॉलम मिलाएँ',
+  'import.notInFile': 'इस फ़ाइल में नहीं',
+  'import.moodRatings': 'मूड रेटिंग',
+  'import.scale': '1 से {max}',
+  'import.chooseColumn': '{fields} के लिए कॉलम चुनें।',
+  'import.reading': 'पढ़ा जा रहा है...',
+  'import.readingFile': '{name} पढ़ा जा रहा है...',
+  'import.preview': 'इम्पोर्ट का प्रीव्यू',
+  'import.ready': '{count} तैयार',
+  'import.duplicates': '{count} पहले से MindPal में',
+  'import.unreadable': '{count} पढ़े नहीं जा सकते',
+  'import.line': 'पंक्ति {line}',
+  'import.item': 'आइटम {line}',
+  'import.moodRow': '{date} को {mood}/10',
+  'import.due': '{date} तक',
+  'import.done': 'पूरा',
+  'import.statusError': 'त्रुटि',
+  'import.statusDuplicate': 'डुप्लिकेट',
+  'import.statusReady': 'तैयार',
+  'import.more': 'और {count}',
+  'import.skipDuplicates': 'जो पंक्तियाँ पहले से MindPal में हैं, उन्हें छोड़ें',
+  'import.importing': 'इम्पोर्ट हो रहा है...',
+  'import.progress': '{total} में से {done}',
+  'import.importEntries': { one: '{count} एंट्री इम्पोर्ट करें', other: '{count} एंट्री इम्पोर्ट करें' },
+  'import.importTasks': { one: '{count} काम इम्पोर्ट करें', other: '{count} काम इम्पोर्ट करें' },
+  'import.imported': '{total} में से {inserted} इम्पोर्ट हुए',
+  'import.skipped': {
+    one: '{count} पंक्ति डुप्लिकेट या अपठनीय होने के कारण छोड़ी गई।',
+    other: '{count} पंक्तियाँ डुप्लिकेट या अपठनीय होने के कारण छोड़ी गईं।',
+  },
+  'import.failedRows': 'ये पंक्तियाँ सेव नहीं हो सकीं:',
+  'import.another': 'दूसरी फ़ाइल इम्पोर्ट करें',
+  'import.offline': 'डेटा इम्पोर्ट करने के लिए इंटरनेट से कनेक्ट करें',
+  'import.readFailed': 'फ़ाइल पढ़ी नहीं जा सकी',
+  'import.stopped': 'इम्पोर्ट पूरा होने से पहले रुक गया',
+  'import.parentFailed': 'इसका मुख्य काम इम्पोर्ट नहीं हो सका',
+  'import.interrupted': 'इम्पोर्ट नहीं हुआ: इम्पोर्ट बीच में रुक गया',
+  'import.importedMoods': { one: '{count} मूड एंट्री इम्पोर्ट हुई', other: '{count} मूड एंट्री इम्पोर्ट हुईं' },
+  'import.importedTasks': { one: '{count} काम इम्पोर्ट हुआ', other: '{count} काम इम्पोर्ट हुए' },
+  'import.notDaylio': 'यह Daylio एक्सपोर्ट नहीं लगता (full_date कॉलम नहीं है)',
+  'import.unrecognisedDate': 'अपरिचित तारीख "{value}"',
+  'import.missingDate': 'तारीख नहीं है',
+  'import.unrecognisedMood': 'अपरिचित मूड "{value}"',
+  'import.missingMood': 'मूड नहीं है',
+  'import.unreadableDue': 'नियत तारीख "{value}" पढ़ी नहीं जा सकी, इसलिए छोड़ दी गई',
+  'import.notTodoist': 'यह Todoist एक्सपोर्ट नहीं लगता (TYPE और CONTENT कॉलम नहीं हैं)',
+  'import.missingTaskName': 'कार्य का नाम नहीं है',
+  'import.nestedTooDeep': 'एक से अधिक स्तर गहरा है, इसलिए मुख्य कार्य में जोड़ा गया',
+  'import.missingTitle': 'शीर्षक नहीं है',
+  'import.unknownPriority': 'अज्ञात प्राथमिकता "{value}", इसलिए मध्यम रखी गई',
+  'import.noIcsItems': 'इस फ़ाइल में कोई कार्य या इवेंट नहीं मिला',
+  'import.cancelledItem': 'रद्द है, इसलिए इम्पोर्ट नहीं किया गया',
+  'import.unsupportedRepeat': 'दोहराने का नियम समर्थित नहीं है, इसलिए एक बार के कार्य के रूप में इम्पोर्ट किया गया',
+
+  // Data deletion
+  'deletion.title': 'डेटा हटाएँ',
+  'deletion.intro': 'हटाने से पहले एक छूट अवधि रहती है, ताकि आप अपना मन बदल सकें। अगर आपको कॉपी चाहिए तो पहले अपना डेटा डाउनलोड कर लें।',
+  'deletion.chatsTitle': 'सभी चैट हटाएँ',
+  'deletion.chatsDescription': 'हर Voice AI बातचीत और वॉइस सेशन, उनके मूड विश्लेषण, और उनसे MindPal ने जो बातें सीखीं।',
+  'deletion.chatsDone': 'सभी चैट हटा दी गईं',
+  'deletion.moodTitle': 'मूड इतिहास हटाएँ',
+  'deletion.moodDescription': 'सभी मूड चेक-इन और मूड विश्लेषण। जर्नल एंट्री बनी रहती हैं, बस उनके मूड लिंक हट जाते हैं।',
+  'deletion.moodDone': 'मूड इतिहास हटा दिया गया',
+  'deletion.videoTitle': 'वीडियो सेशन और रिपोर्ट हटाएँ',
+  'deletion.videoDescription': 'हर वीडियो परामर्श, उसके दौरान दर्ज किए गए विश्लेषण और बाद में बनी रिपोर्ट।',
+  'deletion.videoDone': 'वीडियो सेशन और रिपोर्ट हटा दी गईं',
+  'deletion.accountTitle': 'मेरा अकाउंट हटाएँ',
+  'deletion.accountDescription': 'आपकी प्रोफ़ाइल, साइन-इन और MindPal आपके बारे में जो कुछ रखता है। एक बार चलने के बाद इसे वापस नहीं किया जा सकता।',
+  'deletion.accountDone': 'आपका अकाउंट और उसका सारा डेटा हटा दिया गया है',
+  'deletion.hours': { one: '{count} घंटे', other: '{count} घंटे' },
+  'deletion.days': { one: '{count} दिन', other: '{count} दिन' },
+  'deletion.scheduledFor': '{date} के लिए तय',
+  'deletion.delete': 'हटाएँ',
+  'deletion.runsAfter': 'पुष्टि के {grace} बाद चलेगा',
+  'deletion.confirmTitle': '{title}?',
+  'deletion.runsIn': 'यह {grace} में चलेगा। तब तक आप इसे यहाँ रद्द कर सकते हैं।',
+  'deletion.runsInAccount': 'यह {grace} में चलेगा। तब तक आप इसे यहाँ या साइन इन रहते दिखने वाले बैनर से रद्द कर सकते हैं।',
+  'deletion.typeToConfirm': 'पुष्टि के लिए {phrase} टाइप करें',
+  'deletion.keep': 'मेरा डेटा रखें',
+  'deletion.scheduling': 'तय किया जा रहा है...',
+  'deletion.schedule': 'हटाना तय करें',
+  'deletion.offline': 'डेटा हटाने के लिए इंटरनेट से कनेक्ट करें',
+  'deletion.scheduled': '{date} के लिए तय। तब तक आप इसे रद्द कर सकते हैं।',
+  'deletion.cancelled': 'हटाना रद्द किया गया',
+  'deletion.scheduleFailed': 'हटाना तय नहीं हो सका',
+  'deletion.cancelFailed': 'हटाना रद्द नहीं हो सका',
+
+  // Turning off a privacy toggle
+  'consent.analyticsTitle': 'इकट्ठा किए गए एनालिटिक्स हटाएँ?',
+  'consent.analyticsDescription': 'अब तक दर्ज हुए वीडियो सेशन इवेंट। जो सेशन रिपोर्ट आप पहले बना चुके हैं, वे बनी रहेंगी।',
+  'consent.voiceTitle': 'सेव किए गए वॉइस ट्रांसक्रिप्ट हटाएँ?',
+  'consent.voiceDescription': 'असिस्टेंट से बोले गए सेव संदेश, और आपके संदेशों की एन्क्रिप्टेड कॉपियाँ।',
+  'consent.stopped': 'अब से कुछ नया सेव नहीं होगा। आप पहले रखा गया डेटा भी हटा सकते हैं।',
+  'consent.permanent': '{description} इसे वापस नहीं किया जा सकता।',
+  'consent.keep': 'रहने दें',
+  'consent.deleting': 'हटाया जा रहा है...',
+  'consent.deleteNow': 'अभी हटाएँ',
+  'consent.offline': 'यह डेटा हटाने के लिए इंटरनेट से कनेक्ट करें',
+  'consent.deleted': { one: '{count} रिकॉर्ड हटाया गया', other: '{count} रिकॉर्ड हटाए गए' },
+  'consent.nothing': 'हटाने के लिए कुछ नहीं है',
+  'consent.failed': 'डेटा हटाया नहीं जा सका',
+};
@@ -0,0 +1,14 @@
+import { format } from 'date-fns';
+import type { Locale as DateLocale } from 'date-fns';
+import { ar, enUS, es, hi } from 'date-fns/locale';
+import { getLocale } from './locale';
+import type { Locale } from './types';
+
+const DATE_LOCALES: Record<Locale, DateLocale> = { en: enUS, es, hi, ar };
+
+export const dateLocaleFor = (locale: Locale = getLocale()): DateLocale => DATE_LOCALES[locale];
+
+// date-fns format in the current locale. Prefer the localized tokens (P, PP,
+// PPPP, p) over spelled-out patterns so word order follows the language.
+export const formatDate = (date: Date | number | string, pattern: string, locale: Locale = getLocale()): string =>
+  format(typeof date === 'string' ? new Date(date) : date, pattern, { locale: DATE_LOCALES[locale] });
@@ -0,0 +1,21 @@
+export type {
+  Catalog,
+  LanguageOption,
+  Locale,
+  Message,
+  MessageKey,
+  MessageParams,
+  PluralMessage,
+  TextDirection,
+} from './types';
+export { dateLocaleFor, formatDate } from './dates';
+export {
+  getLocale,
+  LANGUAGES,
+  LOCALES,
+  localeDirection,
+  resolveLocale,
+  setLocale,
+  subscribeLocale,
+} from './locale';
+export { formatNumber, t } from './translate';
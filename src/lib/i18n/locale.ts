@@ -0,0 +1,79 @@
+import type { LanguageOption, Locale, TextDirection } from './types';
+
+export const LOCALES: Locale[] = ['en', 'es', 'hi', 'ar'];
+
+const RTL_LOCALES: Locale[] = ['ar'];
+
+// Everything the language setting offers, in the order of the picker
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en', nativeName: 'English', hasCatalog: true },
+  { code: 'es', nativeName: 'Español', hasCatalog: true },
+  { code: 'hi', nativeName: 'हिन्दी', hasCatalog: true },
+  { code: 'ar', nativeName: 'العربية', hasCatalog: true },
+  { code: 'fr', nativeName: 'Français', hasCatalog: false },
+  { code: 'de', nativeName: 'Deutsch', hasCatalog: false },
+  { code: 'it', nativeName: 'Italiano', hasCatalog: false },
+  { code: 'pt', nativeName: 'Português', hasCatalog: false },
+  { code: 'ru', nativeName: 'Русский', hasCatalog: false },
+  { code: 'zh', nativeName: '中文（简体）', hasCatalog: false },
+  { code: 'ja', nativeName: '日本語', hasCatalog: false },
+  { code: 'ko', nativeName: '한국어', hasCatalog: false },
+];
+
+// Remembers the last locale so the sign-in screen and the first render
+// after reload don't flash English
+const LOCALE_KEY = 'mindpal_locale';
+
+// A language code or browser tag ("es-MX") to a shipped locale
+export const resolveLocale = (language?: string | null): Locale => {
+  const base = language?.toLowerCase().split('-')[0];
+  return LOCALES.find(locale => locale === base) ?? 'en';
+};
+
+export const localeDirection = (locale: Locale): TextDirection =>
+  RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr';
+
+const readInitialLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_KEY);
+    if (stored) return resolveLocale(stored);
+  } catch {
+    // Storage can be blocked; fall through to the browser language
+  }
+  return typeof navigator !== 'undefined' ? resolveLocale(navigator.language) : 'en';
+};
+
+const applyToDocument = (locale: Locale) => {
+  if (typeof document === 'undefined') return;
+  document.documentElement.lang = locale;
+  document.documentElement.dir = localeDirection(locale);
+};
+
+let current: Locale = readInitialLocale();
+applyToDocument(current);
+
+const listeners = new Set<(locale: Locale) => void>();
+
+export const getLocale = (): Locale => current;
+
+// Takes the language setting as stored, which may have no catalog
+export const setLocale = (language: string) => {
+  const next = resolveLocale(language);
+  try {
+    localStorage.setItem(LOCALE_KEY, next);
+  } catch {
+    // Only the next reload is affected
+  }
+  if (next === current) return;
+
+  current = next;
+  applyToDocument(next);
+  listeners.forEach(listener => listener(next));
+};
+
+export const subscribeLocale = (listener: (locale: Locale) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
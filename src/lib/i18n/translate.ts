@@ -0,0 +1,44 @@
+import { ar } from './catalogs/ar';
+import { en } from './catalogs/en';
+import { es } from './catalogs/es';
+import { hi } from './catalogs/hi';
+import { getLocale } from './locale';
+import type { Catalog, Locale, Message, MessageKey, MessageParams } from './types';
+
+const CATALOGS: Record<Locale, Catalog> = { en, es, hi, ar };
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+const numberFormats = new Map<Locale, Intl.NumberFormat>();
+
+const pluralRulesFor = (locale: Locale) => {
+  if (!pluralRules.has(locale)) pluralRules.set(locale, new Intl.PluralRules(locale));
+  return pluralRules.get(locale)!;
+};
+
+export const formatNumber = (value: number, locale: Locale = getLocale()): string => {
+  if (!numberFormats.has(locale)) numberFormats.set(locale, new Intl.NumberFormat(locale));
+  return numberFormats.get(locale)!.format(value);
+};
+
+const pickForm = (message: Message, locale: Locale, count: number | undefined): string => {
+  if (typeof message === 'string') return message;
+  // Exact zero reads better as its own sentence where a catalog has one
+  if (count === 0 && message.zero) return message.zero;
+  if (count === undefined) return message.other;
+  return message[pluralRulesFor(locale).select(count)] ?? message.other;
+};
+
+// "{name}" placeholders; numbers are written with the locale's digits
+const interpolate = (text: string, params: MessageParams, locale: Locale): string =>
+  text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value, locale) : value;
+  });
+
+// Plural messages choose their form from params.count
+export const t = (key: MessageKey, params: MessageParams = {}, locale: Locale = getLocale()): string => {
+  const message = CATALOGS[locale][key] ?? en[key] ?? key;
+  const count = typeof params.count === 'number' ? params.count : undefined;
+  return interpolate(pickForm(message, locale, count), params, locale);
+};
@@ -0,0 +1,27 @@
+import type { en } from './catalogs/en';
+
+// Locales with a full UI catalog. Other languages in settings still get AI
+// replies translated, with the UI in English.
+export type Locale = 'en' | 'es' | 'hi' | 'ar';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+// Forms picked with Intl.PluralRules; `other` is the fallback for each
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+
+// Every shipped locale translates every key
+export type Catalog = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+export interface LanguageOption {
+  code: string;
+  // Written in the language itself, so it can be found from any locale
+  nativeName: string;
+  // Whether the UI is translated, or only the AI's replies
+  hasCatalog: boolean;
+}
@@ -0,0 +1,75 @@
+export interface CsvRow {
+  // File line the row starts on, 1-based
+  line: number;
+  cells: string[];
+}
+
+// RFC 4180 CSV: quoted fields may hold commas, quotes ("") and newlines.
+// Blank lines are dropped.
+export const parseCsv = (text: string): CsvRow[] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim() !== '')) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+        line++;
+      }
+      endRow();
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRow();
+
+  return rows;
+};
+
+export interface CsvTable {
+  headers: string[];
+  records: { line: number; values: Record<string, string> }[];
+}
+
+// First row as headers, each later row keyed by them
+export const readCsvTable = (text: string): CsvTable => {
+  const [headerRow, ...rows] = parseCsv(text);
+  const headers = (headerRow?.cells ?? []).map(header => header.trim());
+  return {
+    headers,
+    records: rows.map(({ line, cells }) => ({
+      line,
+      values: Object.fromEntries(headers.map((header, column) => [header, (cells[column] ?? '').trim()])),
+    })),
+  };
+};
@@ -0,0 +1,105 @@
+import { fromZoned } from '../reminders';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// YYYY-MM-DD, or null if the parts don't make a real date
+const toDay = (year: number, month: number, day: number): string | null => {
+  if (year < 100) year += 2000;
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// '20:30', '8:30 PM', '8pm', '20:30:15' to minutes since midnight
+export const parseTimeOfDay = (value: string | null | undefined): number | null => {
+  const match = /^(\d{1,2})(?::(\d{2}))?(?::\d{2}(?:\.\d+)?)?\s*([ap]\.?m\.?)?$/i.exec(value?.trim() ?? '');
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.[0].toLowerCase();
+  if (!match[2] && !meridiem) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+interface ParsedDay {
+  date: string;
+  // Time of day found in the same value, if any
+  minutes: number | null;
+}
+
+// Splits a trailing time off a date value
+const splitTime = (value: string): { date: string; minutes: number | null } | null => {
+  const match = /^(.*?)(?:[ T,]+(\d{1,2}(?::\d{2}){0,2}(?:\.\d+)?\s*(?:[ap]\.?m\.?)?))?$/i.exec(value);
+  if (!match) return null;
+  if (!match[2]) return { date: match[1], minutes: null };
+  const minutes = parseTimeOfDay(match[2]);
+  return minutes === null ? null : { date: match[1], minutes };
+};
+
+// Numeric and month-name dates. Slash dates are month-first unless the
+// first number can only be a day; dotted dates (31.12.2024) are day-first.
+const parseDay = (value: string): ParsedDay | null => {
+  const split = splitTime(value.trim());
+  if (!split) return null;
+  const text = split.date.trim().replace(/^(mon|tue|wed|thu|fri|sat|sun)[a-z]*,?\s+/i, '');
+
+  let match = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/.exec(text);
+  if (match) {
+    const date = toDay(+match[1], +match[2], +match[3]);
+    return date ? { date, minutes: split.minutes } : null;
+  }
+
+  match = /^(\d{1,2})([/.-])(\d{1,2})\2(\d{2}|\d{4})$/.exec(text);
+  if (match) {
+    const [first, second] = [+match[1], +match[3]];
+    const dayFirst = match[2] === '.' || first > 12;
+    const date = dayFirst ? toDay(+match[4], second, first) : toDay(+match[4], first, second);
+    return date ? { date, minutes: split.minutes } : null;
+  }
+
+  // "May 1, 2024" and "1 May 2024"
+  match = /^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i.exec(text)
+    ?? /^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]+)\.?,?\s+(\d{4})$/i.exec(text);
+  if (match) {
+    const [monthName, day] = /^\d/.test(match[1]) ? [match[2], match[1]] : [match[1], match[2]];
+    const month = MONTHS.indexOf(monthName.slice(0, 3).toLowerCase()) + 1;
+    const date = month > 0 ? toDay(+match[3], month, +day) : null;
+    return date ? { date, minutes: split.minutes } : null;
+  }
+
+  return null;
+};
+
+// Reads a date (and optional separate time) from an export. Values with an
+// explicit offset or Z are exact instants; everything else is wall-clock
+// time in `timeZone`, at `defaultMinutes` when no time is given. Returns a
+// UTC ISO string, or null if the value isn't a date we understand.
+export const parseImportDate = (
+  dateValue: string,
+  timeValue: string | null | undefined,
+  timeZone: string,
+  defaultMinutes: number
+): string | null => {
+  const value = dateValue.trim();
+  if (!value) return null;
+
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+    const instant = new Date(value);
+    return isNaN(instant.getTime()) ? null : instant.toISOString();
+  }
+
+  const day = parseDay(value);
+  if (!day) return null;
+
+  const separateTime = timeValue?.trim() ? parseTimeOfDay(timeValue) : null;
+  if (timeValue?.trim() && separateTime === null) return null;
+  const minutes = separateTime ?? day.minutes ?? defaultMinutes;
+  return fromZoned(day.date, minutes, timeZone).toISOString();
+};
@@ -0,0 +1,24 @@
+import type { ImportRow, MoodRecord, TaskRecord } from './types';
+
+// Exports rarely keep seconds, so moods match to the minute
+export const moodKey = (entry: Pick<MoodRecord, 'created_at' | 'mood'>): string =>
+  `${new Date(entry.created_at).toISOString().slice(0, 16)}|${entry.mood}`;
+
+export const taskKey = (task: Pick<TaskRecord, 'title' | 'due_date'>): string =>
+  `${task.title.trim().toLowerCase().replace(/\s+/g, ' ')}|${task.due_date ? new Date(task.due_date).toISOString().slice(0, 10) : ''}`;
+
+// Flags rows already in `existing`, or repeated earlier in the same file
+export const markDuplicates = <T>(
+  rows: ImportRow<T>[],
+  existing: Set<string>,
+  keyOf: (record: T) => string
+): ImportRow<T>[] => {
+  const seen = new Set(existing);
+  return rows.map(row => {
+    if (!row.record) return row;
+    const key = keyOf(row.record);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { ...row, duplicate };
+  });
+};
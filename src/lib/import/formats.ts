@@ -0,0 +1,79 @@
+import type { ColumnMapping, ImportFieldInfo, ImportFormat, ImportFormatInfo, ImportKind } from './types';
+
+export const IMPORT_FORMATS: Record<ImportFormat, ImportFormatInfo> = {
+  daylio: {
+    format: 'daylio',
+    kind: 'mood',
+    label: 'import.daylio',
+    description: 'import.daylioDescription',
+    accept: '.csv',
+    mapped: false,
+  },
+  mood_csv: {
+    format: 'mood_csv',
+    kind: 'mood',
+    label: 'import.moodCsv',
+    description: 'import.moodCsvDescription',
+    accept: '.csv',
+    mapped: true,
+  },
+  todoist: {
+    format: 'todoist',
+    kind: 'task',
+    label: 'import.todoist',
+    description: 'import.todoistDescription',
+    accept: '.csv',
+    mapped: false,
+  },
+  task_csv: {
+    format: 'task_csv',
+    kind: 'task',
+    label: 'import.taskCsv',
+    description: 'import.taskCsvDescription',
+    accept: '.csv',
+    mapped: true,
+  },
+  ics: {
+    format: 'ics',
+    kind: 'task',
+    label: 'import.ics',
+    description: 'import.icsDescription',
+    accept: '.ics,.ical',
+    mapped: false,
+  },
+};
+
+export const IMPORT_FIELDS: Record<ImportKind, ImportFieldInfo[]> = {
+  mood: [
+    { key: 'date', label: 'import.fieldDate', required: true, aliases: ['date', 'full_date', 'day', 'when', 'datetime', 'timestamp', 'created', 'created_at'] },
+    { key: 'time', label: 'import.fieldTime', required: false, aliases: ['time', 'hour'] },
+    { key: 'mood', label: 'import.fieldMood', required: true, aliases: ['mood', 'rating', 'score', 'feeling', 'value'] },
+    { key: 'activities', label: 'import.fieldActivities', required: false, aliases: ['activities', 'activity', 'tags', 'labels'] },
+    { key: 'note', label: 'import.fieldNote', required: false, aliases: ['note', 'notes', 'comment', 'comments', 'journal', 'description'] },
+  ],
+  task: [
+    { key: 'title', label: 'import.fieldTitle', required: true, aliases: ['title', 'task', 'name', 'content', 'summary', 'subject'] },
+    { key: 'description', label: 'import.fieldDescription', required: false, aliases: ['description', 'notes', 'note', 'details', 'body'] },
+    { key: 'due', label: 'import.fieldDue', required: false, aliases: ['due', 'due_date', 'due date', 'deadline', 'date'] },
+    { key: 'priority', label: 'import.fieldPriority', required: false, aliases: ['priority', 'importance'] },
+    { key: 'completed', label: 'import.fieldCompleted', required: false, aliases: ['completed', 'done', 'status', 'checked', 'complete'] },
+    { key: 'category', label: 'import.fieldCategory', required: false, aliases: ['category', 'project', 'list', 'folder', 'label', 'labels'] },
+  ],
+};
+
+// Picks a column for each field from header names, each column used once
+export const guessMapping = (kind: ImportKind, headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+  for (const field of IMPORT_FIELDS[kind]) {
+    const header = headers.find(h => !used.has(h) && field.aliases.includes(h.trim().toLowerCase()));
+    if (header) {
+      mapping[field.key] = header;
+      used.add(header);
+    }
+  }
+  return mapping;
+};
+
+export const missingFields = (kind: ImportKind, mapping: ColumnMapping): ImportFieldInfo[] =>
+  IMPORT_FIELDS[kind].filter(field => field.required && !mapping[field.key]);
@@ -0,0 +1,110 @@
+import { fromZoned } from '../reminders';
+
+export interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface IcsItem {
+  type: 'VTODO' | 'VEVENT';
+  // Position in the file, 1-based, for error messages
+  index: number;
+  properties: Record<string, IcsProperty[]>;
+}
+
+// RFC 5545 text escapes
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+const parseLine = (line: string): { name: string; property: IcsProperty } | null => {
+  // The value starts at the first colon outside a quoted parameter
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), property: { params, value: line.slice(colon + 1) } };
+};
+
+// To-dos and events, with their properties. Nested components such as
+// alarms are skipped.
+export const parseIcs = (text: string): IcsItem[] => {
+  // Long lines are folded onto continuation lines starting with whitespace
+  const lines = text.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const items: IcsItem[] = [];
+  let current: IcsItem | null = null;
+  let depth = 0;
+
+  for (const line of lines) {
+    const parsed = parseLine(line.trim());
+    if (!parsed) continue;
+    const { name, property } = parsed;
+    const component = property.value.trim().toUpperCase();
+
+    if (name === 'BEGIN') {
+      if (current) depth++;
+      else if (component === 'VTODO' || component === 'VEVENT') {
+        current = { type: component, index: items.length + 1, properties: {} };
+      }
+    } else if (name === 'END') {
+      if (current && depth > 0) depth--;
+      else if (current && component === current.type) {
+        items.push(current);
+        current = null;
+      }
+    } else if (current && depth === 0) {
+      (current.properties[name] ??= []).push(property);
+    }
+  }
+
+  return items;
+};
+
+export const icsText = (item: IcsItem, name: string): string | null => {
+  const value = item.properties[name]?.[0]?.value;
+  return value === undefined ? null : unescapeText(value).trim() || null;
+};
+
+export const icsList = (item: IcsItem, name: string): string[] =>
+  (item.properties[name] ?? []).flatMap(property =>
+    property.value.split(/(?<!\\),/).map(part => unescapeText(part).trim()).filter(Boolean)
+  );
+
+export interface IcsDate {
+  iso: string;
+  // VALUE=DATE, i.e. a whole day rather than a moment
+  allDay: boolean;
+}
+
+// UTC (Z), TZID-qualified and floating date-times, and all-day dates. Floating
+// values and all-day dates use `timeZone`; all-day dates at `allDayMinutes`.
+export const icsDate = (item: IcsItem, name: string, timeZone: string, allDayMinutes: number): IcsDate | null => {
+  const property = item.properties[name]?.[0];
+  if (!property) return null;
+
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(property.value.trim());
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s = '00', utc] = match;
+  const date = `${y}-${mo}-${d}`;
+
+  if (h === undefined) {
+    return { iso: fromZoned(date, allDayMinutes, timeZone).toISOString(), allDay: true };
+  }
+  if (utc) {
+    return { iso: new Date(`${date}T${h}:${mi}:${s}Z`).toISOString(), allDay: false };
+  }
+  const zone = property.params.TZID || timeZone;
+  return { iso: fromZoned(date, +h * 60 + +mi, zone).toISOString(), allDay: false };
+};
@@ -0,0 +1,22 @@
+export type {
+  ColumnMapping,
+  ImportFailure,
+  ImportField,
+  ImportFieldInfo,
+  ImportFormat,
+  ImportFormatInfo,
+  ImportKind,
+  ImportOptions,
+  ImportPreview,
+  ImportResult,
+  ImportRow,
+  MoodRecord,
+  TaskRecord,
+} from './types';
+export { parseCsv, readCsvTable } from './csv';
+export { parseImportDate, parseTimeOfDay } from './dates';
+export { IMPORT_FIELDS, IMPORT_FORMATS, guessMapping, missingFields } from './formats';
+export { parseIcs } from './ics';
+export { parseMoodValue, readMoodRows, splitActivities } from './mood';
+export { parseRepeatPhrase, readTaskRows } from './tasks';
+export { markDuplicates, moodKey, taskKey } from './duplicates';
@@ -0,0 +1,100 @@
+import { t } from '../i18n';
+import { MOOD_SCALE, getMoodStep } from '../moodScale';
+import { addTag } from '../moodTags';
+import { readCsvTable } from './csv';
+import { parseImportDate } from './dates';
+import type { ColumnMapping, ImportOptions, ImportRow, MoodRecord } from './types';
+
+// Daylio's default five moods, as points on a 1-5 scale
+const DAYLIO_MOODS: Record<string, number> = { awful: 1, bad: 2, meh: 3, good: 4, rad: 5 };
+
+// Mood check-ins without a time are placed at midday
+const MIDDAY = 12 * 60;
+
+const DAYLIO_MAPPING: ColumnMapping = {
+  date: 'full_date',
+  time: 'time',
+  mood: 'mood',
+  activities: 'activities',
+  note: 'note',
+};
+
+const fromFivePoint = (value: number) => Math.round(1 + ((value - 1) * 9) / 4);
+
+// Numbers on the file's scale, Daylio's mood names, or our own labels and
+// emoji. null for anything else, e.g. a custom Daylio mood.
+export const parseMoodValue = (raw: string, scale: 5 | 10 = 10): number | null => {
+  const value = raw.trim().toLowerCase();
+  if (!value) return null;
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const number = Number(value);
+    if (number < 1 || number > scale) return null;
+    return scale === 5 ? fromFivePoint(number) : Math.round(number);
+  }
+  if (value in DAYLIO_MOODS) return fromFivePoint(DAYLIO_MOODS[value]);
+
+  const step = MOOD_SCALE.find(s => s.label.toLowerCase() === value || s.emoji === raw.trim());
+  return step?.mood ?? null;
+};
+
+// Activities come separated by " | " (Daylio), commas or semicolons
+export const splitActivities = (value: string): string[] =>
+  value.split(/\s*[|,;]\s*/).reduce<string[]>((tags, part) => addTag(tags, part), []);
+
+// Daylio notes may carry HTML line breaks and entities
+const cleanNote = (value: string): string =>
+  value
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/[ \t]*\n[ \t]*/g, '\n')
+    .trim();
+
+export const readMoodRows = (text: string, format: 'daylio' | 'mood_csv', options: ImportOptions): ImportRow<MoodRecord>[] => {
+  const { headers, records } = readCsvTable(text);
+  const mapping = format === 'daylio' ? DAYLIO_MAPPING : options.mapping ?? {};
+  const scale = format === 'daylio' ? 10 : options.moodScale ?? 10;
+
+  if (format === 'daylio' && !headers.includes('full_date')) {
+    return [{ line: 1, record: null, error: t('import.notDaylio'), warning: null, duplicate: false }];
+  }
+
+  return records.map(({ line, values }) => {
+    const cell = (field: keyof ColumnMapping) => {
+      const header = mapping[field];
+      return header ? values[header] ?? '' : '';
+    };
+    const row: ImportRow<MoodRecord> = { line, record: null, error: null, warning: null, duplicate: false };
+
+    const createdAt = parseImportDate(cell('date'), cell('time') || null, options.timeZone, MIDDAY);
+    if (!createdAt) {
+      row.error = cell('date') ? t('import.unrecognisedDate', { value: cell('date') }) : t('import.missingDate');
+      return row;
+    }
+
+    const mood = parseMoodValue(cell('mood'), scale);
+    if (mood === null) {
+      row.error = cell('mood') ? t('import.unrecognisedMood', { value: cell('mood') }) : t('import.missingMood');
+      return row;
+    }
+
+    const noteTitle = format === 'daylio' ? cleanNote(values.note_title ?? '') : '';
+    const note = cleanNote(cell('note'));
+    const notes = [noteTitle, note].filter(Boolean).join('\n\n') || null;
+
+    row.record = {
+      mood,
+      emoji: getMoodStep(mood).emoji,
+      notes,
+      tags: [],
+      activities: splitActivities(cell('activities')),
+      created_at: createdAt,
+    };
+    return row;
+  });
+};
@@ -0,0 +1,236 @@
+import { t } from '../i18n';
+import { formatRecurrence, parseQuickAdd, parseRecurrence, WEEKDAY_CODES } from '../tasks';
+import type { RecurrenceFrequency, TaskPriority } from '../tasks';
+import { readCsvTable } from './csv';
+import { parseImportDate } from './dates';
+import { icsDate, icsList, icsText, parseIcs } from './ics';
+import type { ColumnMapping, ImportOptions, ImportRow, TaskRecord } from './types';
+
+// Days without a time are due at the end of the day, as in quick add
+const END_OF_DAY = 23 * 60 + 59;
+
+const DEFAULT_CATEGORY = 'personal';
+
+const PRIORITY_WORDS: Record<string, TaskPriority> = {
+  high: 'high', urgent: 'high', important: 'high', p1: 'high', '1': 'high', '!!!': 'high',
+  medium: 'medium', normal: 'medium', med: 'medium', p2: 'medium', '2': 'medium', '!!': 'medium',
+  low: 'low', p3: 'low', p4: 'low', '3': 'low', '!': 'low',
+};
+
+// Todoist's CSV uses the API numbers: 4 is its p1. 1 means no priority,
+// which is our default.
+const TODOIST_PRIORITIES: Record<string, TaskPriority> = { '4': 'high', '3': 'medium', '2': 'low' };
+
+const TRUTHY = ['true', 'yes', 'y', '1', 'x', 'done', 'completed', 'complete', 'checked'];
+
+const newRow = (line: number): ImportRow<TaskRecord> => ({ line, record: null, error: null, warning: null, duplicate: false });
+
+const baseTask = (title: string): TaskRecord => ({
+  title,
+  description: null,
+  priority: 'medium',
+  category: DEFAULT_CATEGORY,
+  due_date: null,
+  completed: false,
+  completed_at: null,
+  recurrence: null,
+  parent_line: null,
+  position: 0,
+});
+
+const cleanCategory = (value: string | null | undefined): string =>
+  value?.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, 30) || DEFAULT_CATEGORY;
+
+const FREQUENCY_WORDS: Record<string, RecurrenceFrequency> = {
+  day: 'DAILY', daily: 'DAILY',
+  week: 'WEEKLY', weekly: 'WEEKLY',
+  month: 'MONTHLY', monthly: 'MONTHLY',
+  year: 'YEARLY', yearly: 'YEARLY', annually: 'YEARLY',
+};
+
+// "every day", "every 2 weeks", "every other month", "every weekday",
+// "every mon, fri", "daily". Anything fancier returns null.
+export const parseRepeatPhrase = (value: string): string | null => {
+  const text = value.trim().toLowerCase().replace(/\s+at\s+.*$/, '');
+  if (FREQUENCY_WORDS[text] && !/^(day|week|month|year)$/.test(text)) {
+    return formatRecurrence({ freq: FREQUENCY_WORDS[text], interval: 1, byDay: [], count: null, until: null });
+  }
+
+  const match = /^every\s+(?:(other|\d+)\s+)?(.+)$/.exec(text);
+  if (!match) return null;
+  const interval = match[1] === 'other' ? 2 : match[1] ? Number(match[1]) : 1;
+  const unit = match[2].replace(/s$/, '');
+
+  if (FREQUENCY_WORDS[unit]) {
+    return formatRecurrence({ freq: FREQUENCY_WORDS[unit], interval, byDay: [], count: null, until: null });
+  }
+  if (unit === 'weekday' || unit === 'workday') {
+    return formatRecurrence({ freq: 'WEEKLY', interval, byDay: [1, 2, 3, 4, 5], count: null, until: null });
+  }
+
+  const days = match[2].split(/\s*(?:,|and)\s*/).map(day => WEEKDAY_CODES.indexOf(day.slice(0, 2).toUpperCase() as typeof WEEKDAY_CODES[number]));
+  if (days.length === 0 || days.some(day => day < 0)) return null;
+  return formatRecurrence({ freq: 'WEEKLY', interval, byDay: Array.from(new Set(days)).sort(), count: null, until: null });
+};
+
+// Exact dates first, then repeat phrases, then quick add's natural language
+// ("tomorrow", "fri 5pm")
+const readDue = (value: string, options: ImportOptions, row: ImportRow<TaskRecord>, task: TaskRecord) => {
+  if (!value) return;
+
+  const exact = parseImportDate(value, null, options.timeZone, END_OF_DAY);
+  if (exact) {
+    task.due_date = exact;
+    return;
+  }
+
+  const repeat = parseRepeatPhrase(value);
+  if (repeat) {
+    task.recurrence = repeat;
+    return;
+  }
+
+  const parsed = parseQuickAdd(value, { timeZone: options.timeZone });
+  if (parsed.due_date && !parsed.title) {
+    task.due_date = parsed.due_date;
+    return;
+  }
+
+  row.warning = t('import.unreadableDue', { value });
+};
+
+const readTodoist = (text: string, options: ImportOptions): ImportRow<TaskRecord>[] => {
+  const { headers, records } = readCsvTable(text);
+  if (!headers.includes('TYPE') || !headers.includes('CONTENT')) {
+    return [{ ...newRow(1), error: t('import.notTodoist') }];
+  }
+
+  const rows: ImportRow<TaskRecord>[] = [];
+  // The latest top-level task, for indented subtasks
+  let parent: ImportRow<TaskRecord> | null = null;
+  let siblings = 0;
+
+  for (const { line, values } of records) {
+    // Sections and comments aren't tasks
+    if (values.TYPE !== 'task') continue;
+    const row = newRow(line);
+    rows.push(row);
+
+    const label = /(?:^|\s)@([\p{L}\p{N}_-]+)/u.exec(values.CONTENT)?.[1];
+    const title = values.CONTENT.replace(/(^|\s)@[\p{L}\p{N}_-]+/gu, '').replace(/^\*\s+/, '').trim();
+    if (!title) {
+      row.error = t('import.missingTaskName');
+      continue;
+    }
+
+    const task = baseTask(title);
+    task.description = values.DESCRIPTION || null;
+    task.priority = TODOIST_PRIORITIES[values.PRIORITY] ?? 'medium';
+    if (label) task.category = cleanCategory(label);
+    readDue(values.DATE, { ...options, timeZone: values.TIMEZONE || options.timeZone }, row, task);
+
+    // We keep one level of subtasks; deeper ones join the top-level task
+    const indent = Number(values.INDENT) || 1;
+    if (indent > 1 && parent?.record) {
+      task.parent_line = parent.line;
+      task.position = siblings++;
+      task.recurrence = null;
+      if (indent > 2) row.warning = t('import.nestedTooDeep');
+    } else {
+      parent = row;
+      siblings = 0;
+    }
+    row.record = task;
+  }
+
+  return rows;
+};
+
+const readMappedCsv = (text: string, options: ImportOptions): ImportRow<TaskRecord>[] => {
+  const mapping = options.mapping ?? {};
+  return readCsvTable(text).records.map(({ line, values }) => {
+    const cell = (field: keyof ColumnMapping) => {
+      const header = mapping[field];
+      return header ? values[header] ?? '' : '';
+    };
+    const row = newRow(line);
+
+    if (!cell('title')) {
+      row.error = t('import.missingTitle');
+      return row;
+    }
+
+    const task = baseTask(cell('title'));
+    task.description = cell('description') || null;
+    task.category = cleanCategory(cell('category'));
+    const priority = cell('priority').toLowerCase();
+    if (priority) {
+      if (PRIORITY_WORDS[priority]) task.priority = PRIORITY_WORDS[priority];
+      else row.warning = t('import.unknownPriority', { value: cell('priority') });
+    }
+    task.completed = TRUTHY.includes(cell('completed').toLowerCase());
+    readDue(cell('due'), options, row, task);
+
+    row.record = task;
+    return row;
+  });
+};
+
+// RFC 5545 priorities: 1-4 high, 5 medium, 6-9 low, 0 undefined
+const icsPriority = (value: string | null): TaskPriority => {
+  const priority = Number(value);
+  if (!priority) return 'medium';
+  return priority <= 4 ? 'high' : priority === 5 ? 'medium' : 'low';
+};
+
+const readIcs = (text: string, options: ImportOptions): ImportRow<TaskRecord>[] => {
+  const items = parseIcs(text);
+  if (items.length === 0) {
+    return [{ ...newRow(1), error: t('import.noIcsItems') }];
+  }
+
+  return items.map(item => {
+    const row = newRow(item.index);
+    const title = icsText(item, 'SUMMARY');
+    if (!title) {
+      row.error = t('import.missingTitle');
+      return row;
+    }
+
+    const status = icsText(item, 'STATUS')?.toUpperCase();
+    if (status === 'CANCELLED') {
+      row.error = t('import.cancelledItem');
+      return row;
+    }
+
+    const task = baseTask(title);
+    task.description = icsText(item, 'DESCRIPTION');
+    task.priority = icsPriority(icsText(item, 'PRIORITY'));
+    task.category = cleanCategory(icsList(item, 'CATEGORIES')[0]);
+
+    const due = item.type === 'VTODO'
+      ? icsDate(item, 'DUE', options.timeZone, END_OF_DAY) ?? icsDate(item, 'DTSTART', options.timeZone, END_OF_DAY)
+      : icsDate(item, 'DTSTART', options.timeZone, END_OF_DAY);
+    task.due_date = due?.iso ?? null;
+
+    const completed = icsDate(item, 'COMPLETED', options.timeZone, END_OF_DAY);
+    task.completed = status === 'COMPLETED' || !!completed;
+    task.completed_at = task.completed ? completed?.iso ?? null : null;
+
+    const rrule = icsText(item, 'RRULE');
+    if (rrule) {
+      const rule = parseRecurrence(rrule);
+      if (rule) task.recurrence = formatRecurrence(rule);
+      else row.warning = t('import.unsupportedRepeat');
+    }
+
+    row.record = task;
+    return row;
+  });
+};
+
+export const readTaskRows = (text: string, format: 'todoist' | 'task_csv' | 'ics', options: ImportOptions): ImportRow<TaskRecord>[] => {
+  if (format === 'todoist') return readTodoist(text, options);
+  if (format === 'ics') return readIcs(text, options);
+  return readMappedCsv(text, options);
+};
@@ -0,0 +1,86 @@
+import type { MessageKey } from '../i18n';
+
+export type ImportKind = 'mood' | 'task';
+
+export type ImportFormat = 'daylio' | 'mood_csv' | 'todoist' | 'task_csv' | 'ics';
+
+export interface ImportFormatInfo {
+  format: ImportFormat;
+  kind: ImportKind;
+  label: MessageKey;
+  description: MessageKey;
+  accept: string;
+  // Whether the user picks which column holds which field
+  mapped: boolean;
+}
+
+export type MoodField = 'date' | 'time' | 'mood' | 'activities' | 'note';
+export type TaskField = 'title' | 'description' | 'due' | 'priority' | 'completed' | 'category';
+export type ImportField = MoodField | TaskField;
+
+export interface ImportFieldInfo {
+  key: ImportField;
+  label: MessageKey;
+  required: boolean;
+  // Lower-case header names guessed to hold this field
+  aliases: string[];
+}
+
+// Field to header name; unmapped fields are left out
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportOptions {
+  // Dates without an offset are read as wall-clock time in this zone
+  timeZone: string;
+  mapping?: ColumnMapping;
+  // Range of numeric moods in the file; 1-5 is stretched onto 1-10
+  moodScale?: 5 | 10;
+}
+
+export interface MoodRecord {
+  mood: number;
+  emoji: string;
+  notes: string | null;
+  tags: string[];
+  activities: string[];
+  created_at: string;
+}
+
+export interface TaskRecord {
+  title: string;
+  description: string | null;
+  priority: 'low' | 'medium' | 'high';
+  category: string;
+  due_date: string | null;
+  completed: boolean;
+  completed_at: string | null;
+  recurrence: string | null;
+  // Line of the parent task in the same file, for subtasks
+  parent_line: number | null;
+  position: number;
+}
+
+export interface ImportRow<T> {
+  // 1-based line (CSV) or item number (ICS) for error messages
+  line: number;
+  record: T | null;
+  error: string | null;
+  // Imported anyway, but something was dropped or guessed
+  warning: string | null;
+  duplicate: boolean;
+}
+
+export type ImportPreview =
+  | { kind: 'mood'; format: ImportFormat; rows: ImportRow<MoodRecord>[] }
+  | { kind: 'task'; format: ImportFormat; rows: ImportRow<TaskRecord>[] };
+
+export interface ImportFailure {
+  line: number;
+  message: string;
+}
+
+export interface ImportResult {
+  inserted: number;
+  skipped: number;
+  failed: ImportFailure[];
+}
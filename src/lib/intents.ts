@@ -0,0 +1,131 @@
+import { parseQuickAdd } from './tasks';
+import type { TaskPriority } from './tasks';
+import { getMoodStep, moodLabelKey } from './moodScale';
+import { formatDate, t } from './i18n';
+import { toZoned } from './reminders';
+
+// Commands recognised in VoiceAI chat and voice input. Matching is local
+// and rule-based so it works offline and never sends the command anywhere.
+
+export interface TaskIntent {
+  type: 'create_task';
+  title: string;
+  priority: TaskPriority | null;
+  category: string | null;
+  due_date: string | null;
+  // false when only a day was given
+  has_time: boolean;
+  // "remind me to ..." with a time sets a reminder at the due time
+  reminder_time: string | null;
+}
+
+export interface MoodIntent {
+  type: 'log_mood';
+  mood: number;
+  emoji: string;
+  notes: string | null;
+}
+
+export type Intent = TaskIntent | MoodIntent;
+
+export interface IntentOptions {
+  timeZone: string;
+  now?: Date;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const NUMBER = '(10|[1-9]|one|two|three|four|five|six|seven|eight|nine|ten)\\b';
+const OUT_OF_TEN = '(?:\\s*(?:\\/|out\\s+of|on\\s+ten)\\s*(?:10|ten)?)?';
+const NOTE = '(?:\\s*[,.;:\\-]?\\s*(?:and\\s+|because\\s+|since\\s+)?(.*))?';
+
+const MOOD_PATTERNS = [
+  // "log my mood as 6, feeling tired", "record mood 4/10"
+  new RegExp(`^(?:please\\s+)?(?:log|record|set|track|save|add)\\s+(?:my\\s+|a\\s+)?mood(?:\\s+entry)?\\s*(?:as|at|to|of|:)?\\s*${NUMBER}${OUT_OF_TEN}${NOTE}$`, 'i'),
+  // "my mood is 7 today"
+  new RegExp(`^(?:my\\s+)?mood\\s*(?:is|=|:)?\\s*${NUMBER}${OUT_OF_TEN}${NOTE}$`, 'i'),
+  // "I'm a 3 out of 10, rough day" - needs "out of 10" to avoid false positives
+  new RegExp(`^(?:i'?m|i\\s+am|feeling|i\\s+feel)\\s+(?:like\\s+)?(?:a\\s+|about\\s+|around\\s+)?${NUMBER}\\s*(?:\\/|out\\s+of)\\s*(?:10|ten)${NOTE}$`, 'i'),
+];
+
+// "Remind me why..." or "remind me what we said" is conversation, so the
+// reminder phrasing needs "to" and a day or time before it becomes a task
+const TASK_PATTERNS: { pattern: RegExp; reminder: boolean }[] = [
+  { pattern: /^(?:please\s+|hey\s+)?(?:can\s+you\s+|could\s+you\s+)?remind\s+me\s+to\s+(.+)$/i, reminder: true },
+  { pattern: /^(?:please\s+)?(?:can\s+you\s+|could\s+you\s+)?(?:add|put)\s+(.+?)\s+(?:to|on)\s+my\s+(?:task|to-?do)s?(?:\s+list)?(.*)$/i, reminder: false },
+  { pattern: /^(?:please\s+)?(?:can\s+you\s+|could\s+you\s+)?(?:add|create|make|set\s+up)\s+(?:a\s+)?(?:new\s+)?(?:task|to-?do)\s*(?:to\s+|for\s+|called\s+|:\s*)?(.+)$/i, reminder: false },
+];
+
+const toNumber = (value: string) => NUMBER_WORDS[value.toLowerCase()] ?? Number(value);
+
+const cleanNote = (note: string | undefined): string | null => {
+  const text = note?.trim().replace(/[.!]+$/, '').trim();
+  if (!text) return null;
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+const detectMood = (text: string): MoodIntent | null => {
+  for (const pattern of MOOD_PATTERNS) {
+    const match = pattern.exec(text);
+    if (!match) continue;
+
+    const mood = toNumber(match[1]);
+    if (!Number.isInteger(mood) || mood < 1 || mood > 10) return null;
+    return { type: 'log_mood', mood, emoji: getMoodStep(mood).emoji, notes: cleanNote(match[2]) };
+  }
+  return null;
+};
+
+const detectTask = (text: string, options: IntentOptions): TaskIntent | null => {
+  for (const { pattern, reminder } of TASK_PATTERNS) {
+    const match = pattern.exec(text);
+    if (!match) continue;
+
+    // The list phrasing can carry a date after "my list" too
+    const body = `${match[1]} ${match[2] ?? ''}`.replace(/[.?]+\s*$/, '').trim();
+    const parsed = parseQuickAdd(body, options);
+    if (!parsed.title) return null;
+    if (reminder && !parsed.due_date) return null;
+
+    return {
+      type: 'create_task',
+      title: parsed.title.charAt(0).toUpperCase() + parsed.title.slice(1),
+      priority: parsed.priority,
+      category: parsed.category,
+      due_date: parsed.due_date,
+      has_time: parsed.has_time,
+      reminder_time: reminder && parsed.has_time ? parsed.due_date : null,
+    };
+  }
+  return null;
+};
+
+export const detectIntent = (input: string, options: IntentOptions): Intent | null => {
+  const text = input.trim().replace(/\s+/g, ' ');
+  if (!text || text.length > 300) return null;
+  return detectMood(text) ?? detectTask(text, options);
+};
+
+// The weekday, and time if one was given, on the profile zone's wall clock
+const formatWhen = (iso: string, hasTime: boolean, timeZone: string) => {
+  const { date, minutes } = toZoned(new Date(iso), timeZone);
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = new Date(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+  return formatDate(wallClock, hasTime ? 'EEEE p' : 'EEEE');
+};
+
+// What VoiceAI says back after carrying out a command
+export const describeIntent = (intent: Intent, timeZone: string): string => {
+  if (intent.type === 'log_mood') {
+    const params = { mood: intent.mood, label: t(moodLabelKey(intent.mood)).toLocaleLowerCase() };
+    return intent.notes
+      ? t('intents.loggedMoodWithNote', { ...params, note: intent.notes })
+      : t('intents.loggedMood', params);
+  }
+
+  if (!intent.due_date) return t('intents.addedTask', { title: intent.title });
+  const when = formatWhen(intent.due_date, intent.has_time, timeZone);
+  return t(intent.reminder_time ? 'intents.addedReminder' : 'intents.addedTaskFor', { title: intent.title, when });
+};
@@ -0,0 +1,26 @@
+// Month maths on "YYYY-MM" and "YYYY-MM-DD" strings, matching entry_date
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const monthOf = (date: string): string => date.slice(0, 7);
+
+export const shiftMonth = (month: string, delta: number): string => {
+  const [year, index] = month.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, index - 1 + delta, 1));
+  return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}`;
+};
+
+// Weeks of the month starting on Sunday; null pads the first and last week
+export const monthGrid = (month: string): (string | null)[][] => {
+  const [year, index] = month.split('-').map(Number);
+  const leading = new Date(Date.UTC(year, index - 1, 1)).getUTCDay();
+  const days = new Date(Date.UTC(year, index, 0)).getUTCDate();
+
+  const cells: (string | null)[] = Array(leading).fill(null);
+  for (let day = 1; day <= days; day++) cells.push(`${month}-${pad(day)}`);
+  while (cells.length % 7 !== 0) cells.push(null);
+
+  const weeks: (string | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) weeks.push(cells.slice(i, i + 7));
+  return weeks;
+};
@@ -0,0 +1,27 @@
+import type { JournalContent } from './types';
+
+// Bumped if the encrypted payload ever changes shape
+const CONTENT_VERSION = 1;
+
+export const EMPTY_CONTENT: JournalContent = { title: '', body: '', prompt: null };
+
+export const serializeContent = (content: JournalContent): string =>
+  JSON.stringify({ v: CONTENT_VERSION, ...content });
+
+// Decrypted payloads are trusted no further than their shape; anything that
+// isn't a version 1 object is treated as a plain-text body
+export const parseContent = (plaintext: string): JournalContent => {
+  try {
+    const parsed = JSON.parse(plaintext);
+    if (parsed && typeof parsed === 'object' && parsed.v === CONTENT_VERSION) {
+      return {
+        title: typeof parsed.title === 'string' ? parsed.title : '',
+        body: typeof parsed.body === 'string' ? parsed.body : '',
+        prompt: typeof parsed.prompt === 'string' ? parsed.prompt : null,
+      };
+    }
+  } catch {
+    // Fall through to plain text
+  }
+  return { ...EMPTY_CONTENT, body: plaintext };
+};
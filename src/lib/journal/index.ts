@@ -0,0 +1,13 @@
+export type {
+  InlineSpan,
+  JournalContent,
+  RichTextBlock,
+  RichTextFormat,
+  SearchableEntry,
+  TextEdit,
+} from './types';
+export { EMPTY_CONTENT, parseContent, serializeContent } from './content';
+export { applyFormat, parseInline, parseRichText, toPlainText } from './richText';
+export { promptsFor } from './prompts';
+export { searchEntries, snippetFor } from './search';
+export { monthGrid, monthOf, shiftMonth } from './calendar';
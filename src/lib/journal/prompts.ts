@@ -0,0 +1,44 @@
+import type { MessageKey } from '../i18n';
+
+// Writing prompts, chosen to suit the mood the user logged that day
+const GENERAL_PROMPTS: MessageKey[] = [
+  'journal.promptGeneral1',
+  'journal.promptGeneral2',
+  'journal.promptGeneral3',
+  'journal.promptGeneral4',
+  'journal.promptGeneral5',
+  'journal.promptGeneral6',
+  'journal.promptGeneral7',
+  'journal.promptGeneral8',
+];
+
+const LOW_MOOD_PROMPTS: MessageKey[] = [
+  'journal.promptLow1',
+  'journal.promptLow2',
+  'journal.promptLow3',
+  'journal.promptLow4',
+  'journal.promptLow5',
+];
+
+const HIGH_MOOD_PROMPTS: MessageKey[] = [
+  'journal.promptHigh1',
+  'journal.promptHigh2',
+  'journal.promptHigh3',
+  'journal.promptHigh4',
+];
+
+// Cheap string hash so the same day always offers the same prompts
+const hash = (value: string): number =>
+  Array.from(value).reduce((total, char) => (total * 31 + char.charCodeAt(0)) >>> 0, 7);
+
+export const promptsFor = (mood: number | null, seed: string, count = 3): MessageKey[] => {
+  const tailored = mood == null ? [] : mood <= 4 ? LOW_MOOD_PROMPTS : mood >= 7 ? HIGH_MOOD_PROMPTS : [];
+  const start = hash(seed);
+
+  // One tailored prompt leads, then a daily rotation through the general ones
+  const picked = tailored.length > 0 ? [tailored[start % tailored.length]] : [];
+  for (let i = 0; i < GENERAL_PROMPTS.length && picked.length < count; i++) {
+    picked.push(GENERAL_PROMPTS[(start + i) % GENERAL_PROMPTS.length]);
+  }
+  return picked;
+};
@@ -0,0 +1,116 @@
+import type { InlineSpan, RichTextBlock, RichTextFormat, TextEdit } from './types';
+
+const LINE_PREFIXES: Partial<Record<RichTextFormat, string>> = {
+  heading: '# ',
+  list: '- ',
+  quote: '> ',
+};
+
+const INLINE_MARKERS: Partial<Record<RichTextFormat, string>> = {
+  bold: '**',
+  italic: '*',
+};
+
+const BLOCK_PREFIX = /^(#{1,3} |[-*] |> )/;
+const INLINE_TOKEN = /(\*\*[^*\n]+\*\*|\*[^*\n]+\*)/g;
+
+export const parseInline = (text: string): InlineSpan[] =>
+  text
+    .split(INLINE_TOKEN)
+    .filter(part => part !== '')
+    .map(part => {
+      if (/^\*\*[^*\n]+\*\*$/.test(part)) return { text: part.slice(2, -2), bold: true, italic: false };
+      if (/^\*[^*\n]+\*$/.test(part)) return { text: part.slice(1, -1), bold: false, italic: true };
+      return { text: part, bold: false, italic: false };
+    });
+
+// Blocks are line based: consecutive list items form one list and
+// consecutive plain lines one paragraph; blank lines separate paragraphs
+export const parseRichText = (body: string): RichTextBlock[] => {
+  const blocks: RichTextBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', spans: parseInline(paragraph.join('\n')) });
+    paragraph = [];
+  };
+
+  body.split('\n').forEach(line => {
+    const heading = line.match(/^#{1,3} (.*)$/);
+    const item = line.match(/^[-*] (.*)$/);
+    const quote = line.match(/^> ?(.*)$/);
+
+    if (heading || item || quote || line.trim() === '') flushParagraph();
+
+    if (heading) {
+      blocks.push({ type: 'heading', spans: parseInline(heading[1]) });
+    } else if (item) {
+      const last = blocks[blocks.length - 1];
+      if (last?.type === 'list') last.items.push(parseInline(item[1]));
+      else blocks.push({ type: 'list', items: [parseInline(item[1])] });
+    } else if (quote) {
+      blocks.push({ type: 'quote', spans: parseInline(quote[1]) });
+    } else if (line.trim() !== '') {
+      paragraph.push(line);
+    }
+  });
+  flushParagraph();
+
+  return blocks;
+};
+
+// The words without any formatting, for previews and search
+export const toPlainText = (body: string): string =>
+  body
+    .split('\n')
+    .map(line => line.replace(BLOCK_PREFIX, '').replace(INLINE_TOKEN, token => token.replace(/^\*+|\*+$/g, '')))
+    .filter(line => line.trim() !== '')
+    .join(' ');
+
+const toggleInline = ({ text, selectionStart, selectionEnd }: TextEdit, marker: string): TextEdit => {
+  const before = text.slice(0, selectionStart);
+  const after = text.slice(selectionEnd);
+  // Bold markers also end in "*", so only unwrap an exact match
+  const wrapped = before.endsWith(marker) && after.startsWith(marker)
+    && !(marker === '*' && before.endsWith('**') && after.startsWith('**'));
+
+  if (wrapped) {
+    return {
+      text: before.slice(0, -marker.length) + text.slice(selectionStart, selectionEnd) + after.slice(marker.length),
+      selectionStart: selectionStart - marker.length,
+      selectionEnd: selectionEnd - marker.length,
+    };
+  }
+  return {
+    text: before + marker + text.slice(selectionStart, selectionEnd) + marker + after,
+    selectionStart: selectionStart + marker.length,
+    selectionEnd: selectionEnd + marker.length,
+  };
+};
+
+const toggleLinePrefix = ({ text, selectionStart, selectionEnd }: TextEdit, prefix: string): TextEdit => {
+  const lineStart = text.lastIndexOf('\n', selectionStart - 1) + 1;
+  const nextBreak = text.indexOf('\n', selectionEnd);
+  const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+  const lines = text.slice(lineStart, lineEnd).split('\n');
+
+  // Remove the prefix if every line already has it, otherwise add it in
+  // place of any other block prefix
+  const removing = lines.every(line => line.startsWith(prefix));
+  const changed = lines.map(line => (removing ? line.slice(prefix.length) : prefix + line.replace(BLOCK_PREFIX, '')));
+  const replaced = changed.join('\n');
+  const firstDelta = changed[0].length - lines[0].length;
+
+  return {
+    text: text.slice(0, lineStart) + replaced + text.slice(lineEnd),
+    selectionStart: Math.max(lineStart, selectionStart + firstDelta),
+    selectionEnd: selectionEnd + (replaced.length - (lineEnd - lineStart)),
+  };
+};
+
+// Applies a toolbar action to the editor text; applying it again undoes it
+export const applyFormat = (edit: TextEdit, format: RichTextFormat): TextEdit => {
+  const marker = INLINE_MARKERS[format];
+  if (marker) return toggleInline(edit, marker);
+  return toggleLinePrefix(edit, LINE_PREFIXES[format]!);
+};
@@ -0,0 +1,35 @@
+import { toPlainText } from './richText';
+import type { SearchableEntry } from './types';
+
+const SNIPPET_RADIUS = 60;
+
+const searchTerms = (query: string): string[] =>
+  query.toLowerCase().split(/\s+/).filter(Boolean);
+
+// Entries are only readable on the device, so search runs over the
+// decrypted entries in memory. Every word in the query has to appear.
+export const searchEntries = <T extends SearchableEntry>(entries: T[], query: string): T[] => {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return entries;
+
+  return entries.filter(entry => {
+    const haystack = [entry.title, toPlainText(entry.body), entry.prompt ?? '', entry.entry_date]
+      .join(' ')
+      .toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+// A stretch of the body around the first match, or its opening otherwise
+export const snippetFor = (body: string, query: string): string => {
+  const plain = toPlainText(body);
+  const lower = plain.toLowerCase();
+  const index = searchTerms(query)
+    .map(term => lower.indexOf(term))
+    .filter(position => position >= 0)
+    .sort((a, b) => a - b)[0] ?? 0;
+
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(plain.length, index + SNIPPET_RADIUS * 2);
+  return `${start > 0 ? '…' : ''}${plain.slice(start, end).trim()}${end < plain.length ? '…' : ''}`;
+};
@@ -0,0 +1,31 @@
+// What gets encrypted for each entry. The server only stores the date,
+// the optional mood link and the ciphertext of this object.
+export interface JournalContent {
+  title: string;
+  // Lightweight markdown: **bold**, *italic*, "# " headings, "- " lists, "> " quotes
+  body: string;
+  // The prompt the entry was written against, if any
+  prompt: string | null;
+}
+
+export type RichTextFormat = 'bold' | 'italic' | 'heading' | 'list' | 'quote';
+
+export interface InlineSpan {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+export type RichTextBlock =
+  | { type: 'paragraph' | 'heading' | 'quote'; spans: InlineSpan[] }
+  | { type: 'list'; items: InlineSpan[][] };
+
+export interface TextEdit {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+export interface SearchableEntry extends JournalContent {
+  entry_date: string;
+}
@@ -0,0 +1,93 @@
+import { describeHttpError, fetchWithTimeout } from './http';
+import { parseStreamChunk, readServerSentEvents } from './sse';
+import type { LLMProvider, LLMProviderConfig, LLMRequest } from './types';
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
+
+// Gemini takes the system prompt separately and calls the assistant role "model"
+const buildGeminiBody = (request: LLMRequest) => {
+  const systemText = request.messages
+    .filter(m => m.role === 'system')
+    .map(m => m.content)
+    .join('\n\n');
+
+  return {
+    ...(systemText && { systemInstruction: { parts: [{ text: systemText }] } }),
+    contents: request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: m.content }],
+      })),
+    generationConfig: {
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.maxTokens !== undefined && { maxOutputTokens: request.maxTokens }),
+      ...(request.json && { responseMimeType: 'application/json' }),
+    },
+  };
+};
+
+interface GeminiChunk {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+const extractText = (data: GeminiChunk | null): string =>
+  data?.candidates?.[0]?.content?.parts?.map(p => p.text || '').join('') || '';
+
+export const createGeminiProvider = (config: LLMProviderConfig = {}): LLMProvider => {
+  const model = config.model || DEFAULT_GEMINI_MODEL;
+  const baseUrl = config.baseUrl || GEMINI_BASE_URL;
+
+  const post = (method: 'generateContent' | 'streamGenerateContent', request: LLMRequest) => {
+    if (!config.apiKey) {
+      throw new Error('Gemini API key not configured');
+    }
+
+    return fetchWithTimeout(
+      `${baseUrl}/models/${model}:${method}${method === 'streamGenerateContent' ? '?alt=sse' : ''}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': config.apiKey,
+        },
+        body: JSON.stringify(buildGeminiBody(request)),
+      },
+      config.timeoutMs,
+      request.signal
+    );
+  };
+
+  return {
+    name: 'gemini',
+    model,
+    isConfigured: () => !!config.apiKey,
+    generate: async (request) => {
+      const response = await post('generateContent', request);
+
+      if (!response.ok) {
+        throw await describeHttpError('Gemini', response);
+      }
+
+      return extractText(await response.json());
+    },
+    stream: async (request, onToken) => {
+      const response = await post('streamGenerateContent', request);
+
+      if (!response.ok) {
+        throw await describeHttpError('Gemini', response);
+      }
+
+      let fullText = '';
+      await readServerSentEvents(response, (data) => {
+        const delta = extractText(parseStreamChunk<GeminiChunk>(data));
+        if (delta) {
+          fullText += delta;
+          onToken(delta);
+        }
+      });
+      return fullText;
+    },
+  };
+};
@@ -0,0 +1,43 @@
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Fetch with a timeout that also honours a caller-supplied abort signal. The
+// timeout covers the wait for response headers; the caller's signal stays
+// attached so it can still cancel a streamed body afterwards.
+export const fetchWithTimeout = async (
+  url: string,
+  options: RequestInit,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+
+  if (signal) {
+    if (signal.aborted) controller.abort();
+    signal.addEventListener('abort', onAbort);
+  }
+
+  try {
+    return await fetch(url, { ...options, signal: controller.signal });
+  } catch (error) {
+    signal?.removeEventListener('abort', onAbort);
+    if (error instanceof Error && error.name === 'AbortError' && !signal?.aborted) {
+      throw new Error('AI request timed out - please try again');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+// Read the error body without letting a second failure hide the first one
+export const describeHttpError = async (provider: string, response: Response): Promise<Error> => {
+  let detail = '';
+  try {
+    detail = (await response.text()).slice(0, 300);
+  } catch {
+    // Body unavailable
+  }
+  return new Error(`${provider} API error: ${response.status}${detail ? ` - ${detail}` : ''}`);
+};
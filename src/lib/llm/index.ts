@@ -0,0 +1,68 @@
+import { createGeminiProvider } from './gemini';
+import { createLocalProvider, createOpenAIProvider } from './openai';
+import type { LLMProvider, LLMProviderName } from './types';
+
+export type { LLMMessage, LLMProvider, LLMProviderConfig, LLMProviderName, LLMRequest } from './types';
+export { createGeminiProvider } from './gemini';
+export { createLocalProvider, createOpenAIProvider } from './openai';
+
+// Treat the placeholder values from .env.example as missing
+const readEnv = (value: string | undefined): string | undefined => {
+  if (!value || value.startsWith('your_')) return undefined;
+  return value;
+};
+
+const env = {
+  provider: readEnv(import.meta.env.VITE_LLM_PROVIDER) as LLMProviderName | undefined,
+  geminiApiKey: readEnv(import.meta.env.VITE_GEMINI_API_KEY),
+  geminiModel: readEnv(import.meta.env.VITE_GEMINI_MODEL),
+  openaiApiKey: readEnv(import.meta.env.VITE_OPENAI_API_KEY),
+  openaiModel: readEnv(import.meta.env.VITE_OPENAI_MODEL),
+  localUrl: readEnv(import.meta.env.VITE_LOCAL_LLM_URL),
+  localModel: readEnv(import.meta.env.VITE_LOCAL_LLM_MODEL),
+  localApiKey: readEnv(import.meta.env.VITE_LOCAL_LLM_API_KEY),
+};
+
+const createProvider = (name: LLMProviderName): LLMProvider => {
+  switch (name) {
+    case 'openai':
+      return createOpenAIProvider({ apiKey: env.openaiApiKey, model: env.openaiModel });
+    case 'local':
+      return createLocalProvider({ baseUrl: env.localUrl, model: env.localModel, apiKey: env.localApiKey });
+    case 'gemini':
+    default:
+      return createGeminiProvider({ apiKey: env.geminiApiKey, model: env.geminiModel });
+  }
+};
+
+// Explicit VITE_LLM_PROVIDER wins; otherwise use the first provider with credentials
+const resolveProviderName = (): LLMProviderName | null => {
+  if (env.provider === 'gemini' || env.provider === 'openai' || env.provider === 'local') {
+    return env.provider;
+  }
+  if (env.provider) {
+    console.warn(`Unknown VITE_LLM_PROVIDER "${env.provider}", falling back to auto-detection`);
+  }
+
+  if (env.geminiApiKey) return 'gemini';
+  if (env.openaiApiKey) return 'openai';
+  if (env.localUrl) return 'local';
+  return null;
+};
+
+let activeProvider: LLMProvider | null | undefined;
+
+export const getLLMProvider = (): LLMProvider | null => {
+  if (activeProvider === undefined) {
+    const name = resolveProviderName();
+    activeProvider = name ? createProvider(name) : null;
+  }
+  return activeProvider && activeProvider.isConfigured() ? activeProvider : null;
+};
+
+// Lets tests and dev tooling point every call site at a stub provider
+export const setLLMProvider = (provider: LLMProvider | null) => {
+  activeProvider = provider;
+};
+
+export const isLLMConfigured = (): boolean => getLLMProvider() !== null;
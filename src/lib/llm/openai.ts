@@ -0,0 +1,105 @@
+import { describeHttpError, fetchWithTimeout } from './http';
+import { parseStreamChunk, readServerSentEvents } from './sse';
+import type { LLMProvider, LLMProviderConfig, LLMProviderName, LLMRequest } from './types';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string } }[];
+}
+
+const buildChatBody = (model: string, request: LLMRequest, supportsJsonMode: boolean, stream = false) => ({
+  model,
+  messages: request.messages,
+  ...(stream && { stream: true }),
+  ...(request.temperature !== undefined && { temperature: request.temperature }),
+  ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+  ...(request.json && supportsJsonMode && { response_format: { type: 'json_object' } }),
+});
+
+// Shared implementation for OpenAI and any server exposing the same
+// /chat/completions API (Ollama, LM Studio, llama.cpp, a local test stub)
+const createChatCompletionsProvider = (
+  name: LLMProviderName,
+  label: string,
+  model: string,
+  baseUrl: string,
+  config: LLMProviderConfig,
+  requiresApiKey: boolean
+): LLMProvider => {
+  const post = (request: LLMRequest, stream: boolean) => {
+    if (requiresApiKey && !config.apiKey) {
+      throw new Error(`${label} API key not configured`);
+    }
+
+    return fetchWithTimeout(
+      `${baseUrl.replace(/\/$/, '')}/chat/completions`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+        },
+        body: JSON.stringify(buildChatBody(model, request, requiresApiKey, stream)),
+      },
+      config.timeoutMs,
+      request.signal
+    );
+  };
+
+  return {
+    name,
+    model,
+    isConfigured: () => (requiresApiKey ? !!config.apiKey : !!baseUrl),
+    generate: async (request) => {
+      const response = await post(request, false);
+
+      if (!response.ok) {
+        throw await describeHttpError(label, response);
+      }
+
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content || '';
+    },
+    stream: async (request, onToken) => {
+      const response = await post(request, true);
+
+      if (!response.ok) {
+        throw await describeHttpError(label, response);
+      }
+
+      let fullText = '';
+      await readServerSentEvents(response, (data) => {
+        const delta = parseStreamChunk<ChatCompletionChunk>(data)?.choices?.[0]?.delta?.content;
+        if (delta) {
+          fullText += delta;
+          onToken(delta);
+        }
+      });
+      return fullText;
+    },
+  };
+};
+
+export const createOpenAIProvider = (config: LLMProviderConfig = {}): LLMProvider =>
+  createChatCompletionsProvider(
+    'openai',
+    'OpenAI',
+    config.model || DEFAULT_OPENAI_MODEL,
+    config.baseUrl || OPENAI_BASE_URL,
+    config,
+    true
+  );
+
+export const createLocalProvider = (config: LLMProviderConfig = {}): LLMProvider =>
+  createChatCompletionsProvider(
+    'local',
+    'Local LLM',
+    config.model || DEFAULT_LOCAL_MODEL,
+    config.baseUrl || DEFAULT_LOCAL_BASE_URL,
+    config,
+    false
+  );
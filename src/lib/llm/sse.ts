@@ -0,0 +1,58 @@
+// Minimal server-sent events reader for streaming completions. Calls onData
+// with the payload of every `data:` field and stops at the OpenAI-style
+// `[DONE]` sentinel or when the body ends.
+export const readServerSentEvents = async (
+  response: Response,
+  onData: (data: string) => void
+): Promise<void> => {
+  if (!response.body) {
+    throw new Error('Streaming not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const processEvent = (rawEvent: string): boolean => {
+    const data = rawEvent
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n');
+
+    if (!data) return true;
+    if (data.trim() === '[DONE]') return false;
+    onData(data);
+    return true;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || '';
+
+      for (const event of events) {
+        if (!processEvent(event)) return;
+      }
+    }
+
+    if (buffer.trim()) {
+      processEvent(buffer);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+};
+
+export const parseStreamChunk = <T>(data: string): T | null => {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    console.warn('Skipping malformed stream chunk:', data.slice(0, 100));
+    return null;
+  }
+};
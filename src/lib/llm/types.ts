@@ -0,0 +1,32 @@
+export type LLMProviderName = 'gemini' | 'openai' | 'local';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the provider for a JSON object response where the API supports it
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  isConfigured: () => boolean;
+  generate: (request: LLMRequest) => Promise<string>;
+  // Streams the reply, calling onToken with each new chunk of text, and
+  // resolves with the full reply once the stream ends
+  stream: (request: LLMRequest, onToken: (delta: string) => void) => Promise<string>;
+}
+
+export interface LLMProviderConfig {
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+}
@@ -0,0 +1,151 @@
+import { getLLMProvider } from './llm';
+
+export type MemoryCategory = 'person' | 'event' | 'preference' | 'goal' | 'health' | 'other';
+
+export const MEMORY_CATEGORIES: MemoryCategory[] = ['person', 'event', 'preference', 'goal', 'health', 'other'];
+
+export interface MemoryFact {
+  id: string;
+  content: string;
+  category: MemoryCategory;
+  session_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExtractedFact {
+  content: string;
+  category: MemoryCategory;
+}
+
+const MAX_FACTS_PER_SESSION = 10;
+
+const EXTRACTION_PROMPT = `You maintain the long-term memory of a supportive mental health companion.
+Read the conversation and list durable facts about the user that would help in future conversations:
+people in their life (with names), upcoming events and dates, goals, preferences, and ongoing health or wellbeing context.
+
+Rules:
+- One short, self-contained sentence per fact, written in the third person ("User's sister is called Priya")
+- Resolve relative dates against the conversation date and include the actual date
+- Skip small talk, anything only true for this moment, and facts already known
+- Never record crisis details or anything the user asked you to forget
+- At most ${MAX_FACTS_PER_SESSION} facts
+
+Return only JSON: {"facts": [{"content": "...", "category": "${MEMORY_CATEGORIES.join('" | "')}"}]}`;
+
+const normaliseFact = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+// Summarises a finished conversation into new facts. Returns null when no AI
+// provider is available so the session can be retried later.
+export const extractMemoryFacts = async (
+  transcript: string,
+  existingFacts: string[],
+  conversationDate: Date = new Date()
+): Promise<ExtractedFact[] | null> => {
+  const provider = getLLMProvider();
+  if (!provider) return null;
+
+  const known = existingFacts.length > 0
+    ? `\n\nAlready known (do not repeat):\n${existingFacts.map(f => `- ${f}`).join('\n')}`
+    : '';
+
+  const response = await provider.generate({
+    messages: [
+      { role: 'system', content: EXTRACTION_PROMPT + known },
+      { role: 'user', content: `Conversation date: ${conversationDate.toDateString()}\n\n${transcript}` },
+    ],
+    temperature: 0.2,
+    json: true,
+  });
+
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return [];
+
+  const data = JSON.parse(jsonMatch[0]);
+  if (!Array.isArray(data.facts)) return [];
+
+  const seen = new Set(existingFacts.map(normaliseFact));
+  const facts: ExtractedFact[] = [];
+
+  for (const fact of data.facts) {
+    const content = typeof fact?.content === 'string' ? fact.content.trim() : '';
+    const key = normaliseFact(content);
+    if (!content || seen.has(key)) continue;
+
+    seen.add(key);
+    facts.push({
+      content: content.slice(0, 300),
+      category: MEMORY_CATEGORIES.includes(fact.category) ? fact.category : 'other',
+    });
+  }
+
+  return facts.slice(0, MAX_FACTS_PER_SESSION);
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'do', 'for', 'from', 'has', 'have', 'i', 'im', 'in',
+  'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'them', 'they', 'this', 'to',
+  'user', 'users', 'was', 'we', 'what', 'when', 'with', 'you', 'your', 'about', 'just', 'really', 'feel', 'feeling',
+]);
+
+const tokenize = (text: string): string[] =>
+  normaliseFact(text)
+    .split(' ')
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    // Cheap stemming so "exams" matches "exam" and "worried" matches "worry"
+    .map(word => word.replace(/(ing|ed|es|s)$/, '') || word);
+
+// Ranks facts by keyword overlap with the query, weighting rare words higher,
+// with recency as a tiebreaker. Falls back to the most recent facts so the
+// companion still has some context on short messages like "hi".
+export const rankMemoryFacts = <T extends { content: string; updated_at: string }>(
+  facts: T[],
+  query: string,
+  limit: number = 6
+): T[] => {
+  if (facts.length === 0) return [];
+
+  const factTokens = facts.map(fact => new Set(tokenize(fact.content)));
+  const documentFrequency = new Map<string, number>();
+  factTokens.forEach(tokens => tokens.forEach(token => {
+    documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+  }));
+
+  const queryTokens = new Set(tokenize(query));
+  const newest = Math.max(...facts.map(f => new Date(f.updated_at).getTime()));
+
+  const scored = facts.map((fact, index) => {
+    let score = 0;
+    queryTokens.forEach(token => {
+      if (factTokens[index].has(token)) {
+        score += Math.log(1 + facts.length / (documentFrequency.get(token) || 1));
+      }
+    });
+    const ageDays = (newest - new Date(fact.updated_at).getTime()) / 86400000;
+    return { fact, score, recency: 1 / (1 + ageDays) };
+  });
+
+  const relevant = scored
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score || b.recency - a.recency)
+    .slice(0, limit);
+
+  if (relevant.length >= Math.min(3, limit)) {
+    return relevant.map(s => s.fact);
+  }
+
+  const recent = scored
+    .filter(s => s.score === 0)
+    .sort((a, b) => b.recency - a.recency)
+    .slice(0, Math.min(3, limit) - relevant.length);
+
+  return [...relevant, ...recent].map(s => s.fact);
+};
+
+export const formatMemoryPrompt = (facts: { content: string }[]): string => {
+  if (facts.length === 0) return '';
+  return `Things you remember about the user from earlier conversations (use them naturally, don't list them back):\n${facts
+    .map(f => `- ${f.content}`)
+    .join('\n')}`;
+};
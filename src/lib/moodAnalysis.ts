@@ -0,0 +1,236 @@
+import { getLLMProvider } from './llm';
+import { REPORT_JSON_SHAPE, REPORT_SCHEMA_VERSION, ReportValidationError, parseReportResponse } from './reports';
+import type { AIReport, OverallMood, ReportSource, StressLevel } from './reports';
+
+// Valence from -3 to 3, loosely following AFINN. Kept to words that come up
+// in wellbeing conversations rather than general-purpose coverage.
+const VALENCE: Record<string, number> = {
+  happy: 3, joy: 3, joyful: 3, great: 3, excellent: 3, wonderful: 3, amazing: 3, fantastic: 3, love: 3, loved: 3,
+  excited: 3, thrilled: 3, grateful: 2, thankful: 2, proud: 2, good: 2, glad: 2, calm: 2, relaxed: 2, peaceful: 2,
+  hopeful: 2, confident: 2, motivated: 2, better: 2, nice: 2, fun: 2, enjoy: 2, enjoyed: 2, content: 2, rested: 2,
+  optimistic: 2, productive: 2, accomplished: 2, safe: 1, okay: 1, ok: 1, fine: 1, relieved: 2, energized: 2,
+  sad: -2, unhappy: -2, down: -1, low: -1, lonely: -2, alone: -1, isolated: -2, miserable: -3, depressed: -3,
+  hopeless: -3, worthless: -3, empty: -2, numb: -2, awful: -3, terrible: -3, horrible: -3, bad: -2, worse: -2,
+  worst: -3, angry: -2, furious: -3, mad: -2, annoyed: -1, frustrated: -2, irritated: -1, hate: -3, upset: -2,
+  anxious: -2, worried: -2, worry: -2, nervous: -2, scared: -2, afraid: -2, panic: -3, panicking: -3, fear: -2,
+  stressed: -2, stress: -2, overwhelmed: -3, pressure: -1, exhausted: -2, tired: -1, drained: -2, burnout: -3,
+  cry: -2, crying: -2, cried: -2, hurt: -2, guilty: -2, ashamed: -2, struggling: -2, struggle: -2, lost: -1,
+  sick: -2, pain: -2, failing: -2, failed: -2, rejected: -2,
+};
+
+const EMOTIONS: Record<string, string[]> = {
+  happiness: ['happy', 'joy', 'joyful', 'glad', 'great', 'wonderful', 'amazing', 'fantastic', 'fun', 'enjoy', 'enjoyed'],
+  excitement: ['excited', 'thrilled', 'energized', 'motivated'],
+  gratitude: ['grateful', 'thankful'],
+  calm: ['calm', 'relaxed', 'peaceful', 'content', 'rested', 'relieved'],
+  pride: ['proud', 'accomplished', 'confident', 'productive'],
+  hope: ['hopeful', 'optimistic', 'better'],
+  sadness: ['sad', 'unhappy', 'down', 'miserable', 'depressed', 'cry', 'crying', 'cried', 'empty', 'hurt'],
+  loneliness: ['lonely', 'alone', 'isolated'],
+  anger: ['angry', 'furious', 'mad', 'annoyed', 'frustrated', 'irritated', 'hate'],
+  stress: ['stressed', 'stress', 'overwhelmed', 'pressure'],
+  anxiety: ['anxious', 'worried', 'worry', 'nervous', 'scared', 'afraid', 'panic', 'panicking', 'fear'],
+  exhaustion: ['exhausted', 'tired', 'drained', 'burnout'],
+  guilt: ['guilty', 'ashamed'],
+  hopelessness: ['hopeless', 'worthless', 'numb'],
+};
+
+const STRESS_WORDS = new Set([
+  'stress', 'stressed', 'pressure', 'overwhelmed', 'busy', 'deadline', 'deadlines', 'exhausted', 'burnout',
+  'panic', 'panicking', 'anxious', 'exam', 'exams', 'drained', 'tired', 'overworked',
+]);
+
+const NEGATORS = new Set([
+  'not', 'no', 'never', 'none', 'nothing', 'nobody', 'neither', 'nor', 'hardly', 'barely', 'without',
+  'dont', 'doesnt', 'didnt', 'isnt', 'arent', 'wasnt', 'werent', 'cant', 'cannot', 'couldnt', 'wont',
+  'wouldnt', 'shouldnt', 'aint', 'havent', 'hasnt', 'hadnt',
+]);
+
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5, really: 1.4, so: 1.4, extremely: 1.8, incredibly: 1.8, super: 1.5, totally: 1.5, completely: 1.6,
+  absolutely: 1.6, deeply: 1.6, truly: 1.4, too: 1.3, quite: 1.2,
+  slightly: 0.5, somewhat: 0.6, little: 0.6, bit: 0.6, kinda: 0.7, kind: 0.7, sort: 0.7, mildly: 0.5,
+};
+
+// Same damping VADER uses: "not happy" is negative, but less so than "sad"
+const NEGATION_FACTOR = -0.74;
+const NEGATION_WINDOW = 3;
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[’‘`]/g, "'")
+    .replace(/n't\b/g, 'nt')
+    .replace(/'/g, '')
+    .split(/[^a-z0-9!]+/)
+    .filter(Boolean);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const buildRecommendations = (mood: OverallMood, stress: StressLevel, emotions: string[]) => {
+  const recommendations: string[] = [];
+  if (mood === 'negative') {
+    recommendations.push('Consider practicing mindfulness or meditation');
+    recommendations.push('Reach out to friends or family for support');
+  }
+  if (stress === 'high' || stress === 'medium') {
+    recommendations.push('Take regular breaks throughout your day');
+    recommendations.push('Try deep breathing exercises');
+  }
+  if (emotions.includes('loneliness')) {
+    recommendations.push('Plan a small moment of connection, like a call or a walk with someone');
+  }
+  if (emotions.includes('exhaustion')) {
+    recommendations.push('Protect your sleep and keep a consistent bedtime');
+  }
+  if (mood === 'positive' && recommendations.length === 0) {
+    recommendations.push('Note what went well today so you can come back to it');
+  }
+  return recommendations;
+};
+
+// Rule-based fallback that works offline: lexicon valence with negation,
+// intensifiers, "but" clauses and exclamation emphasis
+export const analyzeMoodWithLexicon = (text: string, source: ReportSource = 'mood'): AIReport => {
+  // Sentences are scored separately so negation never crosses a full stop
+  const sentences = text.split(/[.?\n]+/).map(tokenize).filter(tokens => tokens.length > 0);
+
+  let total = 0;
+  let hits = 0;
+  let wordCount = 0;
+  let stressCount = 0;
+  const emotionCounts = new Map<string, number>();
+
+  for (const tokens of sentences) {
+    const butIndex = tokens.lastIndexOf('but');
+
+    tokens.forEach((token, index) => {
+      if (token === '!') return;
+      wordCount++;
+
+      const word = token.replace(/!+$/, '');
+      let negated = false;
+      for (let i = Math.max(0, index - NEGATION_WINDOW); i < index; i++) {
+        if (NEGATORS.has(tokens[i])) negated = true;
+      }
+
+      if (STRESS_WORDS.has(word) && !negated) stressCount++;
+
+      const valence = VALENCE[word];
+      if (valence === undefined) return;
+
+      let score = valence;
+      const modifier = INTENSIFIERS[tokens[index - 1]];
+      if (modifier) score *= modifier;
+      if (negated) score *= NEGATION_FACTOR;
+      // "I was tired but happy" - the clause after "but" carries the feeling
+      if (butIndex >= 0) score *= index > butIndex ? 1.5 : 0.5;
+      if (token.endsWith('!')) score *= 1.2;
+
+      total += score;
+      hits++;
+
+      if (!negated) {
+        for (const [emotion, words] of Object.entries(EMOTIONS)) {
+          if (words.includes(word)) {
+            emotionCounts.set(emotion, (emotionCounts.get(emotion) || 0) + 1);
+          }
+        }
+      }
+    });
+  }
+
+  // Squash to -1..1 so long conversations don't saturate immediately
+  const sentiment_score = hits > 0 ? total / Math.sqrt(total * total + 15) : 0;
+
+  const overall_mood: OverallMood =
+    sentiment_score > 0.15 ? 'positive' : sentiment_score < -0.15 ? 'negative' : 'neutral';
+
+  const stressRatio = wordCount > 0 ? stressCount / wordCount : 0;
+  const stress_level: StressLevel =
+    stressCount > 3 || (stressCount > 2 && stressRatio > 0.05) ? 'high' : stressCount > 1 ? 'medium' : 'low';
+
+  const emotions = Array.from(emotionCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 4)
+    .map(([emotion]) => emotion);
+
+  // More sentiment-bearing words and a clearer signal give more confidence,
+  // but a word list never gets close to certainty
+  const coverage = Math.min(1, hits / 8);
+  const confidence = Number(clamp(0.2 + 0.35 * coverage + 0.2 * Math.abs(sentiment_score), 0.2, 0.75).toFixed(2));
+
+  const summary = hits === 0
+    ? 'There was not enough emotional language in this conversation to judge your mood with confidence.'
+    : `Based on your conversation, you seem to be feeling ${overall_mood} with a ${stress_level} stress level.${
+      emotions.length > 0 ? ` Main emotions detected: ${emotions.join(', ')}.` : ''
+    }`;
+
+  return {
+    schema_version: REPORT_SCHEMA_VERSION,
+    source,
+    method: 'lexicon',
+    generated_at: new Date().toISOString(),
+    mood: {
+      overall: overall_mood,
+      stress_level,
+      emotional_state: null,
+      sentiment_score: Number(sentiment_score.toFixed(3)),
+      emotions,
+    },
+    summary,
+    key_concerns: [],
+    positive_indicators: [],
+    recommendations: buildRecommendations(overall_mood, stress_level, emotions),
+    confidence,
+    engagement: null,
+    repairs: [],
+  };
+};
+
+const MOOD_PROMPT = `You are a careful, supportive mental health assistant. Analyse the emotional state expressed in the user's messages.
+
+Return only JSON with this structure:
+{
+  ${REPORT_JSON_SHAPE}
+}
+
+Pay attention to negation, sarcasm and mixed feelings. Use a lower confidence when the messages are short or ambiguous.`;
+
+// Returns null when no provider is configured or the reply can't be used
+export const analyzeMoodWithLLM = async (text: string, source: ReportSource = 'mood'): Promise<AIReport | null> => {
+  const provider = getLLMProvider();
+  if (!provider) return null;
+
+  try {
+    const response = await provider.generate({
+      messages: [
+        { role: 'system', content: MOOD_PROMPT },
+        { role: 'user', content: text },
+      ],
+      temperature: 0.2,
+      json: true,
+    });
+
+    return parseReportResponse(response, { source, method: 'llm' });
+  } catch (error) {
+    if (error instanceof ReportValidationError) {
+      console.warn('LLM mood analysis was unusable, using lexicon fallback:', error.issues);
+    } else {
+      console.warn('LLM mood analysis failed, using lexicon fallback:', error);
+    }
+    return null;
+  }
+};
+
+// Prefers the LLM and falls back to the lexicon model when it is unavailable
+export const analyzeMood = async (
+  text: string,
+  { useLLM = true, source = 'mood' }: { useLLM?: boolean; source?: ReportSource } = {}
+): Promise<AIReport> => {
+  if (useLLM && text.trim()) {
+    const analysis = await analyzeMoodWithLLM(text, source);
+    if (analysis) return analysis;
+  }
+  return analyzeMoodWithLexicon(text, source);
+};
@@ -0,0 +1,44 @@
+import { rankTags } from '../moodTags';
+import type { CheckInSummary, MoodSample, TagImpact } from './types';
+
+type LabelField = 'tags' | 'activities';
+type RatingField = 'mood' | 'energy' | 'anxiety' | 'sleep_quality';
+
+// Labels seen fewer times than this are left out of comparisons
+const MIN_LABEL_COUNT = 2;
+
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+export const averageRating = (entries: MoodSample[], field: RatingField): number | null =>
+  mean(entries.flatMap(entry => typeof entry[field] === 'number' ? [entry[field] as number] : []));
+
+// Entries that carry every one of the given labels, in either field
+export const filterByLabels = <T extends MoodSample>(entries: T[], labels: string[]): T[] =>
+  labels.length === 0
+    ? entries
+    : entries.filter(entry => labels.every(label =>
+        (entry.tags ?? []).includes(label) || (entry.activities ?? []).includes(label)
+      ));
+
+// Average mood for each tag or activity, compared with entries without it
+export const labelImpact = (entries: MoodSample[], field: LabelField): TagImpact[] =>
+  rankTags(entries.map(entry => entry[field]))
+    .map(tag => {
+      const moods = entries.filter(entry => (entry[field] ?? []).includes(tag)).map(entry => entry.mood);
+      const others = mean(entries.filter(entry => !(entry[field] ?? []).includes(tag)).map(entry => entry.mood));
+      const average = mean(moods)!;
+      return { tag, average, count: moods.length, difference: others === null ? null : average - others };
+    })
+    .filter(impact => impact.count >= MIN_LABEL_COUNT)
+    .sort((a, b) => (b.difference ?? 0) - (a.difference ?? 0));
+
+export const summarizeCheckIns = (entries: MoodSample[]): CheckInSummary => ({
+  entries: entries.length,
+  mood: averageRating(entries, 'mood'),
+  energy: averageRating(entries, 'energy'),
+  anxiety: averageRating(entries, 'anxiety'),
+  sleep_quality: averageRating(entries, 'sleep_quality'),
+  topTags: rankTags(entries.map(entry => entry.tags)).slice(0, 5),
+  topActivities: rankTags(entries.map(entry => entry.activities)).slice(0, 5),
+});
@@ -0,0 +1,85 @@
+import { t } from '../i18n';
+import type { MessageKey } from '../i18n';
+import { toZoned } from '../reminders';
+import type { Correlation, CorrelationStrength } from './types';
+
+// Below this many logged days a coefficient is mostly noise
+const MIN_DAYS = 7;
+
+// Count of timestamps per calendar day in the user's zone
+export const dailyCounts = (timestamps: string[], timeZone: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  timestamps.forEach(timestamp => {
+    const { date } = toZoned(new Date(timestamp), timeZone);
+    counts.set(date, (counts.get(date) ?? 0) + 1);
+  });
+  return counts;
+};
+
+const pearson = (xs: number[], ys: number[]): number | null => {
+  const n = xs.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+  // No variation on one side (e.g. never any activity) means no signal
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+const strengthOf = (coefficient: number | null): CorrelationStrength => {
+  const size = Math.abs(coefficient ?? 0);
+  if (size >= 0.5) return 'strong';
+  if (size >= 0.3) return 'moderate';
+  if (size >= 0.1) return 'weak';
+  return 'none';
+};
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+// Relates the daily mood average to how much of an activity happened that
+// day, over the days that have a mood entry
+export const correlateWithMood = (
+  moodByDay: Map<string, number>,
+  activityByDay: Map<string, number>
+): Correlation => {
+  const days = Array.from(moodByDay.keys());
+  const moods = days.map(day => moodByDay.get(day)!);
+  const activity = days.map(day => activityByDay.get(day) ?? 0);
+
+  const coefficient = days.length >= MIN_DAYS ? pearson(activity, moods) : null;
+  return {
+    coefficient,
+    strength: strengthOf(coefficient),
+    days: days.length,
+    withActivity: mean(moods.filter((_, i) => activity[i] > 0)),
+    withoutActivity: mean(moods.filter((_, i) => activity[i] === 0)),
+  };
+};
+
+const STRENGTH_LABELS: Record<Exclude<CorrelationStrength, 'none'>, MessageKey> = {
+  weak: 'analytics.strengthWeak',
+  moderate: 'analytics.strengthModerate',
+  strong: 'analytics.strengthStrong',
+};
+
+// `activity` is already translated, e.g. "completed tasks"
+export const describeCorrelation = (correlation: Correlation, activity: string): string => {
+  if (correlation.coefficient === null) {
+    return correlation.days < MIN_DAYS
+      ? t('analytics.needMoreDays', { count: MIN_DAYS, activity })
+      : t('analytics.noVariation', { activity });
+  }
+  if (correlation.strength === 'none') {
+    return t('analytics.noLink', { activity });
+  }
+  const strength = t(STRENGTH_LABELS[correlation.strength]);
+  return t(correlation.coefficient > 0 ? 'analytics.linkHigher' : 'analytics.linkLower', { strength, activity });
+};
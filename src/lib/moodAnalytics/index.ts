@@ -0,0 +1,14 @@
+export type {
+  CheckInSummary,
+  Correlation,
+  CorrelationStrength,
+  Granularity,
+  MoodBucket,
+  MoodSample,
+  PatternBucket,
+  TagImpact,
+} from './types';
+export { bucketMoods, dailyAverages, movingAverage, trendDelta } from './series';
+export { dayOfWeekPattern, timeOfDayPattern } from './patterns';
+export { correlateWithMood, dailyCounts, describeCorrelation } from './correlations';
+export { averageRating, filterByLabels, labelImpact, summarizeCheckIns } from './checkIns';
@@ -0,0 +1,43 @@
+import type { MessageKey } from '../i18n';
+import { toZoned } from '../reminders';
+import type { MoodSample, PatternBucket } from './types';
+
+const DAY_LABELS: MessageKey[] = [
+  'analytics.mon', 'analytics.tue', 'analytics.wed', 'analytics.thu', 'analytics.fri', 'analytics.sat', 'analytics.sun',
+];
+
+// Hour ranges in local time; night wraps past midnight
+const TIME_SLOTS: { label: MessageKey; from: number; to: number }[] = [
+  { label: 'analytics.morning', from: 5, to: 12 },
+  { label: 'analytics.afternoon', from: 12, to: 17 },
+  { label: 'analytics.evening', from: 17, to: 22 },
+  { label: 'analytics.night', from: 22, to: 5 },
+];
+
+const summarise = (label: MessageKey, moods: number[]): PatternBucket => ({
+  label,
+  average: moods.length > 0 ? moods.reduce((sum, mood) => sum + mood, 0) / moods.length : null,
+  count: moods.length,
+});
+
+export const dayOfWeekPattern = (entries: MoodSample[], timeZone: string): PatternBucket[] => {
+  const moods: number[][] = DAY_LABELS.map(() => []);
+  entries.forEach(entry => {
+    const { date } = toZoned(new Date(entry.created_at), timeZone);
+    const day = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+    moods[day].push(entry.mood);
+  });
+  return DAY_LABELS.map((label, index) => summarise(label, moods[index]));
+};
+
+export const timeOfDayPattern = (entries: MoodSample[], timeZone: string): PatternBucket[] => {
+  const moods: number[][] = TIME_SLOTS.map(() => []);
+  entries.forEach(entry => {
+    const hour = Math.floor(toZoned(new Date(entry.created_at), timeZone).minutes / 60);
+    const slot = TIME_SLOTS.findIndex(({ from, to }) =>
+      from < to ? hour >= from && hour < to : hour >= from || hour < to
+    );
+    moods[slot].push(entry.mood);
+  });
+  return TIME_SLOTS.map(({ label }, index) => summarise(label, moods[index]));
+};
@@ -0,0 +1,79 @@
+import { addDays, toZoned } from '../reminders';
+import type { Granularity, MoodBucket, MoodSample } from './types';
+
+const weekday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// Weeks start on Monday
+const bucketStart = (date: string, granularity: Granularity): string => {
+  if (granularity === 'day') return date;
+  if (granularity === 'month') return `${date.slice(0, 7)}-01`;
+  return addDays(date, -((weekday(date) + 6) % 7));
+};
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+// Mean mood per calendar day in the user's zone
+export const dailyAverages = (entries: MoodSample[], timeZone: string): Map<string, number> => {
+  const byDay = new Map<string, number[]>();
+  entries.forEach(entry => {
+    const { date } = toZoned(new Date(entry.created_at), timeZone);
+    byDay.set(date, [...(byDay.get(date) ?? []), entry.mood]);
+  });
+
+  const averages = new Map<string, number>();
+  byDay.forEach((moods, date) => averages.set(date, average(moods)!));
+  return averages;
+};
+
+interface BucketOptions {
+  granularity: Granularity;
+  // Inclusive calendar range, YYYY-MM-DD
+  from: string;
+  to: string;
+  timeZone: string;
+}
+
+// One bucket per day, week or month in the range, including empty ones so
+// gaps show on the chart. Each entry counts once, however many fall on a day.
+export const bucketMoods = (
+  entries: MoodSample[],
+  { granularity, from, to, timeZone }: BucketOptions
+): MoodBucket[] => {
+  const moods = new Map<string, number[]>();
+  entries.forEach(entry => {
+    const { date } = toZoned(new Date(entry.created_at), timeZone);
+    if (date < from || date > to) return;
+    const key = bucketStart(date, granularity);
+    moods.set(key, [...(moods.get(key) ?? []), entry.mood]);
+  });
+
+  const buckets: MoodBucket[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    const start = bucketStart(day, granularity);
+    if (buckets.length > 0 && buckets[buckets.length - 1].start === start) continue;
+    const values = moods.get(start) ?? [];
+    buckets.push({ start, average: average(values), count: values.length });
+  }
+  return buckets;
+};
+
+// Trailing average over the last `window` buckets, skipping empty ones.
+// Null until the window holds at least one value.
+export const movingAverage = (buckets: MoodBucket[], window: number): (number | null)[] =>
+  buckets.map((_, index) => {
+    const values = buckets
+      .slice(Math.max(0, index - window + 1), index + 1)
+      .map(bucket => bucket.average)
+      .filter((value): value is number => value !== null);
+    return average(values);
+  });
+
+// Difference between the mean of the later and earlier halves of the
+// range; positive means mood has been rising
+export const trendDelta = (buckets: MoodBucket[]): number | null => {
+  const middle = Math.floor(buckets.length / 2);
+  const earlier = average(buckets.slice(0, middle).flatMap(b => b.average === null ? [] : [b.average]));
+  const later = average(buckets.slice(middle).flatMap(b => b.average === null ? [] : [b.average]));
+  return earlier === null || later === null ? null : later - earlier;
+};
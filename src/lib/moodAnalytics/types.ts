@@ -0,0 +1,59 @@
+import type { MessageKey } from '../i18n';
+
+export type Granularity = 'day' | 'week' | 'month';
+
+// The fields analytics need from a mood entry. Check-in fields are
+// optional: older entries and quick logs only have the overall mood.
+export interface MoodSample {
+  mood: number;
+  created_at: string;
+  energy?: number | null;
+  anxiety?: number | null;
+  sleep_quality?: number | null;
+  tags?: string[] | null;
+  activities?: string[] | null;
+}
+
+export interface MoodBucket {
+  // First calendar day of the bucket, YYYY-MM-DD
+  start: string;
+  average: number | null;
+  count: number;
+}
+
+export interface PatternBucket {
+  label: MessageKey;
+  average: number | null;
+  count: number;
+}
+
+export type CorrelationStrength = 'none' | 'weak' | 'moderate' | 'strong';
+
+export interface Correlation {
+  // Pearson coefficient, null when there are too few days to say anything
+  coefficient: number | null;
+  strength: CorrelationStrength;
+  // Days with a mood entry that went into the figure
+  days: number;
+  // Average mood on days with and without the activity
+  withActivity: number | null;
+  withoutActivity: number | null;
+}
+
+export interface TagImpact {
+  tag: string;
+  average: number;
+  count: number;
+  // Difference from the average mood of entries without this label
+  difference: number | null;
+}
+
+export interface CheckInSummary {
+  entries: number;
+  mood: number | null;
+  energy: number | null;
+  anxiety: number | null;
+  sleep_quality: number | null;
+  topTags: string[];
+  topActivities: string[];
+}
@@ -0,0 +1,30 @@
+import type { MessageKey } from './i18n';
+
+// The 1-10 mood scale shared by the mood tracker and voice mood logging
+export const MOOD_SCALE = [
+  { emoji: '😭', mood: 1, label: 'Terrible' },
+  { emoji: '😢', mood: 2, label: 'Sad' },
+  { emoji: '😐', mood: 3, label: 'Poor' },
+  { emoji: '🙂', mood: 4, label: 'Fair' },
+  { emoji: '😊', mood: 5, label: 'Good' },
+  { emoji: '😄', mood: 6, label: 'Great' },
+  { emoji: '😍', mood: 7, label: 'Wonderful' },
+  { emoji: '🤩', mood: 8, label: 'Amazing' },
+  { emoji: '🥳', mood: 9, label: 'Fantastic' },
+  { emoji: '🌟', mood: 10, label: 'Perfect' },
+];
+
+export const getMoodStep = (mood: number) =>
+  MOOD_SCALE.find(step => step.mood === Math.round(mood)) ?? MOOD_SCALE[4];
+
+// The scale's labels above stay English for matching imported files
+export const moodLabelKey = (mood: number) => `mood.level${getMoodStep(mood).mood}` as MessageKey;
+
+// Optional 1-10 ratings recorded alongside the overall mood
+export const CHECK_IN_DIMENSIONS = [
+  { key: 'energy', label: 'mood.energy', low: 'mood.energyLow', high: 'mood.energyHigh' },
+  { key: 'anxiety', label: 'mood.anxiety', low: 'mood.anxietyLow', high: 'mood.anxietyHigh' },
+  { key: 'sleep_quality', label: 'mood.sleepQuality', low: 'mood.sleepQualityLow', high: 'mood.sleepQualityHigh' },
+] as const satisfies readonly { key: string; label: MessageKey; low: MessageKey; high: MessageKey }[];
+
+export type CheckInDimension = typeof CHECK_IN_DIMENSIONS[number]['key'];
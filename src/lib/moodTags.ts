@@ -0,0 +1,34 @@
+// Tags and activities on mood entries are free text chosen by the user.
+// They are stored normalised so "Work" and "work " count as one label.
+
+export const MAX_TAG_LENGTH = 30;
+
+// Offered before the user has any activities of their own
+export const DEFAULT_ACTIVITIES = [
+  'exercise',
+  'work',
+  'family',
+  'friends',
+  'outdoors',
+  'hobbies',
+  'screen time',
+  'rest',
+];
+
+export const normalizeTag = (value: string): string =>
+  value.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH).trim();
+
+export const addTag = (tags: string[], value: string): string[] => {
+  const tag = normalizeTag(value);
+  return !tag || tags.includes(tag) ? tags : [...tags, tag];
+};
+
+export const toggleTag = (tags: string[], tag: string): string[] =>
+  tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag];
+
+// Every label used across the given lists, most used first
+export const rankTags = (lists: (string[] | null | undefined)[]): string[] => {
+  const counts = new Map<string, number>();
+  lists.forEach(list => list?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+};
@@ -0,0 +1,112 @@
+import type { CachedRow, OfflineTable } from './types';
+
+const DB_NAME = 'mindpal-offline';
+const DB_VERSION = 1;
+
+export const RECORDS_STORE = 'records';
+export const OUTBOX_STORE = 'outbox';
+
+interface StoredRecord {
+  table: OfflineTable;
+  id: string;
+  user_id: string;
+  row: CachedRow;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isOfflineStoreSupported = () => typeof indexedDB !== 'undefined';
+
+export const openOfflineDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(RECORDS_STORE)) {
+        const records = db.createObjectStore(RECORDS_STORE, { keyPath: ['table', 'id'] });
+        records.createIndex('owner', ['table', 'user_id']);
+      }
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true });
+        outbox.createIndex('user_id', 'user_id');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Settings rows are keyed by user rather than by their own id
+export const rowKey = (table: OfflineTable, row: CachedRow) =>
+  String(table === 'user_settings' ? row.user_id : row.id);
+
+export const readCachedRows = async <T extends CachedRow>(table: OfflineTable, userId: string): Promise<T[]> => {
+  const db = await openOfflineDB();
+  const index = db.transaction(RECORDS_STORE).objectStore(RECORDS_STORE).index('owner');
+  const records = await requestToPromise(index.getAll([table, userId])) as StoredRecord[];
+  return records.map(record => record.row as T);
+};
+
+export const putCachedRows = async (table: OfflineTable, userId: string, rows: CachedRow[]): Promise<void> => {
+  if (rows.length === 0) return;
+
+  const db = await openOfflineDB();
+  const transaction = db.transaction(RECORDS_STORE, 'readwrite');
+  const store = transaction.objectStore(RECORDS_STORE);
+  rows.forEach(row => store.put({ table, id: rowKey(table, row), user_id: userId, row } as StoredRecord));
+  await transactionDone(transaction);
+};
+
+export const deleteCachedRows = async (table: OfflineTable, ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+
+  const db = await openOfflineDB();
+  const transaction = db.transaction(RECORDS_STORE, 'readwrite');
+  const store = transaction.objectStore(RECORDS_STORE);
+  ids.forEach(id => store.delete([table, id]));
+  await transactionDone(transaction);
+};
+
+// Removes everything stored for a user, e.g. on sign-out
+export const clearOfflineData = async (userId: string): Promise<void> => {
+  const db = await openOfflineDB();
+  const transaction = db.transaction([RECORDS_STORE, OUTBOX_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+
+  const records = transaction.objectStore(RECORDS_STORE);
+  const cursorRequest = records.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    if ((cursor.value as StoredRecord).user_id === userId) cursor.delete();
+    cursor.continue();
+  };
+
+  const outbox = transaction.objectStore(OUTBOX_STORE);
+  const keys = await requestToPromise(outbox.index('user_id').getAllKeys(userId));
+  keys.forEach(key => outbox.delete(key));
+
+  await done;
+};
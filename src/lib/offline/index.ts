@@ -0,0 +1,16 @@
+export type {
+  CachedRow,
+  OfflineTable,
+  OutboxEntry,
+  OutboxOperation,
+  SyncConflict,
+  SyncResult,
+} from './types';
+export type { OfflineEvent, RetryRunner } from './sync';
+export { clearOfflineData, isOfflineStoreSupported, readCachedRows } from './db';
+export { mergeRemoteEdit } from './merge';
+export { countPendingWrites, purgeWipedRows, reconcileServerRows, recordLocalWrite } from './store';
+export { notifyOffline, replayOutbox, subscribeOffline } from './sync';
+
+// Ids are made on the device so rows created offline keep them after syncing
+export const createLocalId = (): string => crypto.randomUUID();
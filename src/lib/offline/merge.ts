@@ -0,0 +1,41 @@
+import type { OutboxEntry } from './types';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+// Postgres and the browser format the same timestamp differently
+// ("+00:00" vs "Z", microseconds), so compare those as instants
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a === 'string' && typeof b === 'string' && ISO_DATE.test(a) && ISO_DATE.test(b)) {
+    return Date.parse(a) === Date.parse(b);
+  }
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+};
+
+// Three-way merge of a queued edit with the row as it is on the server now.
+// Fields only we changed are sent; fields only the other device changed are
+// left alone; when both changed the same field, the later edit wins.
+export const mergeRemoteEdit = (
+  entry: Pick<OutboxEntry, 'changes' | 'base' | 'queued_at'>,
+  remote: Record<string, unknown>
+): { changes: Record<string, unknown>; conflictFields: string[] } => {
+  const changes: Record<string, unknown> = {};
+  const conflictFields: string[] = [];
+  const remoteEditedAt = typeof remote.updated_at === 'string' ? Date.parse(remote.updated_at) : NaN;
+
+  for (const [field, value] of Object.entries(entry.changes)) {
+    // The server sets these itself
+    if (field === 'updated_at' || field === 'created_at') continue;
+    if (sameValue(remote[field], value)) continue;
+
+    const remoteChanged = entry.base !== null && field in entry.base && !sameValue(remote[field], entry.base[field]);
+    if (remoteChanged && remoteEditedAt > Date.parse(entry.queued_at)) {
+      conflictFields.push(field);
+      continue;
+    }
+
+    changes[field] = value;
+  }
+
+  return { changes, conflictFields };
+};
@@ -0,0 +1,71 @@
+import { OUTBOX_STORE, openOfflineDB, requestToPromise, transactionDone } from './db';
+import type { OutboxEntry } from './types';
+
+export type NewOutboxEntry = Omit<OutboxEntry, 'seq' | 'attempts' | 'queued_at'>;
+
+// The entry currently being sent. It must not be folded together with new
+// writes, or the replay would delete it and lose them.
+let inFlightSeq: number | null = null;
+
+export const setInFlight = (seq: number | null) => {
+  inFlightSeq = seq;
+};
+
+const readOutbox = async (store: IDBObjectStore, userId: string): Promise<OutboxEntry[]> => {
+  const entries = await requestToPromise(store.index('user_id').getAll(userId)) as OutboxEntry[];
+  return entries.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+};
+
+// Adds a write to the outbox, folding it into an earlier pending write for
+// the same row where possible so a row edited five times offline syncs once
+export const enqueueWrite = async (write: NewOutboxEntry): Promise<void> => {
+  const db = await openOfflineDB();
+  const transaction = db.transaction(OUTBOX_STORE, 'readwrite');
+  const done = transactionDone(transaction);
+  const store = transaction.objectStore(OUTBOX_STORE);
+
+  const pending = (await readOutbox(store, write.user_id))
+    .filter(entry => entry.table === write.table && entry.row_id === write.row_id && entry.seq !== inFlightSeq)
+    .pop();
+
+  const entry: OutboxEntry = { ...write, attempts: 0, queued_at: new Date().toISOString() };
+
+  if (!pending) {
+    store.add(entry);
+  } else if (write.op === 'delete') {
+    store.delete(pending.seq!);
+    // A row created offline and deleted again never needs to reach the server
+    if (pending.op !== 'insert') store.add(entry);
+  } else if (pending.op === 'delete') {
+    store.add(entry);
+  } else {
+    store.put({
+      ...pending,
+      changes: { ...pending.changes, ...write.changes },
+      // The oldest known value is the real base for the merge
+      base: pending.base || write.base ? { ...write.base, ...pending.base } : null,
+      queued_at: entry.queued_at,
+    });
+  }
+
+  await done;
+};
+
+export const getOutbox = async (userId: string): Promise<OutboxEntry[]> => {
+  const db = await openOfflineDB();
+  return readOutbox(db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE), userId);
+};
+
+export const removeOutboxEntry = async (seq: number): Promise<void> => {
+  const db = await openOfflineDB();
+  const transaction = db.transaction(OUTBOX_STORE, 'readwrite');
+  transaction.objectStore(OUTBOX_STORE).delete(seq);
+  await transactionDone(transaction);
+};
+
+export const saveOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+  const db = await openOfflineDB();
+  const transaction = db.transaction(OUTBOX_STORE, 'readwrite');
+  transaction.objectStore(OUTBOX_STORE).put(entry);
+  await transactionDone(transaction);
+};
@@ -0,0 +1,85 @@
+import { deleteCachedRows, putCachedRows, readCachedRows, rowKey } from './db';
+import { enqueueWrite, getOutbox, removeOutboxEntry } from './queue';
+import { notifyOffline } from './sync';
+import type { CachedRow, OfflineTable, OutboxEntry, OutboxOperation } from './types';
+
+interface LocalWrite {
+  table: OfflineTable;
+  userId: string;
+  op: OutboxOperation;
+  rowId: string;
+  // The row as it should now look locally; omitted for deletes
+  row?: CachedRow;
+  changes: Record<string, unknown>;
+  base?: Record<string, unknown> | null;
+}
+
+// Applies a write to the local cache right away and queues it for Supabase
+export const recordLocalWrite = async ({ table, userId, op, rowId, row, changes, base = null }: LocalWrite) => {
+  if (op === 'delete') {
+    await deleteCachedRows(table, [rowId]);
+  } else if (row) {
+    await putCachedRows(table, userId, [row]);
+  }
+
+  await enqueueWrite({ user_id: userId, table, op, row_id: rowId, changes, base });
+  notifyOffline({ type: 'local_change', tables: [table] });
+};
+
+// Stores fresh server rows in the cache and returns what the UI should show:
+// the server's rows, except where a queued local write hasn't synced yet.
+// `inScope` limits pruning to the rows the query could have returned, e.g.
+// one chat's messages, so a partial fetch doesn't wipe the rest of the cache.
+export const reconcileServerRows = async <T extends CachedRow>(
+  table: OfflineTable,
+  userId: string,
+  serverRows: T[],
+  inScope: (row: CachedRow) => boolean = () => true
+): Promise<T[]> => {
+  const [cached, outbox] = await Promise.all([readCachedRows<T>(table, userId), getOutbox(userId)]);
+  const pending = new Set(outbox.filter(entry => entry.table === table).map(entry => entry.row_id));
+  const serverIds = new Set(serverRows.map(row => rowKey(table, row)));
+
+  const fresh = serverRows.filter(row => !pending.has(rowKey(table, row)));
+  const stale = cached
+    .filter(row => inScope(row) && !serverIds.has(rowKey(table, row)) && !pending.has(rowKey(table, row)))
+    .map(row => rowKey(table, row));
+
+  await putCachedRows(table, userId, fresh);
+  await deleteCachedRows(table, stale);
+
+  const local = cached.filter(row => inScope(row) && pending.has(rowKey(table, row)));
+  return [...fresh, ...local];
+};
+
+export const countPendingWrites = async (userId: string): Promise<number> =>
+  (await getOutbox(userId)).length;
+
+// When the change was made: a queued insert carries the row's own created_at,
+// which stays put when later edits are folded into it
+const writtenAt = (entry: OutboxEntry) =>
+  Date.parse(String(entry.op === 'insert' && entry.changes.created_at ? entry.changes.created_at : entry.queued_at));
+
+// After a data wipe: drops queued writes made before it, so they can't
+// re-create wiped rows, and the cached rows of those tables. Writes made after
+// the wipe stay queued, along with their cached rows.
+export const purgeWipedRows = async (userId: string, tables: OfflineTable[], wipedAt: string) => {
+  const cutoff = Date.parse(wipedAt);
+  const outbox = (await getOutbox(userId)).filter(entry => tables.includes(entry.table));
+
+  const kept = new Set<string>();
+  for (const entry of outbox) {
+    if (writtenAt(entry) < cutoff) {
+      await removeOutboxEntry(entry.seq!);
+    } else {
+      kept.add(`${entry.table}:${entry.row_id}`);
+    }
+  }
+
+  for (const table of tables) {
+    const cached = await readCachedRows(table, userId);
+    await deleteCachedRows(table, cached
+      .map(row => rowKey(table, row))
+      .filter(key => !kept.has(`${table}:${key}`)));
+  }
+};
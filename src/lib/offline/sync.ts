@@ -0,0 +1,153 @@
+import { supabase } from '../supabase';
+import { mergeRemoteEdit } from './merge';
+import { getOutbox, removeOutboxEntry, saveOutboxEntry, setInFlight } from './queue';
+import type { OfflineTable, OutboxEntry, SyncConflict, SyncResult } from './types';
+
+// Matches useNetworkStatus().withRetry
+export type RetryRunner = <T>(operation: () => Promise<T>, maxRetries?: number, baseDelay?: number) => Promise<T>;
+
+export interface OfflineEvent {
+  // local_change: a write was queued; synced: queued writes reached the server
+  type: 'local_change' | 'synced';
+  tables: OfflineTable[];
+}
+
+// Entries the server keeps rejecting (constraint or permission errors) are
+// dropped after this many attempts so they can't block the queue forever
+const MAX_ATTEMPTS = 5;
+
+const listeners = new Set<(event: OfflineEvent) => void>();
+
+export const subscribeOffline = (listener: (event: OfflineEvent) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const notifyOffline = (event: OfflineEvent) => {
+  listeners.forEach(listener => listener(event));
+};
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+
+// Failures worth retrying later rather than counting against the entry
+const isConnectionError = (error: unknown) => {
+  if (!navigator.onLine) return true;
+  const message = errorMessage(error);
+  return /fetch|network|timeout|aborted|JWT|PGRST301/i.test(message) ||
+    (error instanceof Error && error.name === 'AbortError');
+};
+
+const applyEntry = async (entry: OutboxEntry): Promise<SyncConflict | null> => {
+  const { table, row_id: rowId, user_id: userId } = entry;
+
+  if (entry.op === 'insert') {
+    // Upsert so a replay after a lost response doesn't fail on the duplicate id
+    const { error } = await supabase.from(table).upsert([{ ...entry.changes, user_id: userId }], { onConflict: 'id' });
+    if (error) throw error;
+    return null;
+  }
+
+  if (entry.op === 'delete') {
+    const { error } = await supabase.from(table).delete().eq('id', rowId).eq('user_id', userId);
+    if (error) throw error;
+    return null;
+  }
+
+  const keyColumn = entry.op === 'upsert' ? 'user_id' : 'id';
+  const { data: remote, error: fetchError } = await supabase
+    .from(table)
+    .select('*')
+    .eq(keyColumn, rowId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (fetchError) throw fetchError;
+
+  if (!remote) {
+    if (entry.op === 'upsert') {
+      const { error } = await supabase.from(table).upsert([{ ...entry.changes, user_id: userId }], { onConflict: 'user_id' });
+      if (error) throw error;
+      return null;
+    }
+    return { table, row_id: rowId, fields: Object.keys(entry.changes), reason: 'deleted_remotely' };
+  }
+
+  const { changes, conflictFields } = mergeRemoteEdit(entry, remote);
+
+  if (Object.keys(changes).length > 0) {
+    let query = supabase.from(table).update(changes).eq(keyColumn, rowId).eq('user_id', userId);
+    // Only apply the merge to the version it was computed against
+    if (typeof remote.updated_at === 'string') {
+      query = query.eq('updated_at', remote.updated_at);
+    }
+    const { data, error } = await query.select(keyColumn);
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      // Edited again in the meantime - withRetry runs the merge again
+      throw new Error(`Row ${rowId} changed during sync`);
+    }
+  }
+
+  return conflictFields.length > 0
+    ? { table, row_id: rowId, fields: conflictFields, reason: 'newer_remote_edit' }
+    : null;
+};
+
+const runReplay = async (userId: string, runner: RetryRunner): Promise<SyncResult> => {
+  const result: SyncResult = { synced: 0, conflicts: [], dropped: 0, interrupted: false };
+  const touched = new Set<OfflineTable>();
+
+  for (const entry of await getOutbox(userId)) {
+    setInFlight(entry.seq!);
+    try {
+      const conflict = await runner(() => applyEntry(entry), 2, 1000);
+      if (conflict) result.conflicts.push(conflict);
+      await removeOutboxEntry(entry.seq!);
+      result.synced++;
+      touched.add(entry.table);
+    } catch (error) {
+      if (isConnectionError(error)) {
+        // Keep the rest in order for the next attempt
+        result.interrupted = true;
+        break;
+      }
+
+      const attempts = entry.attempts + 1;
+      if (attempts >= MAX_ATTEMPTS) {
+        console.error(`Dropping offline change to ${entry.table} after ${attempts} failed attempts:`, error);
+        await removeOutboxEntry(entry.seq!);
+        result.dropped++;
+        touched.add(entry.table);
+      } else {
+        console.warn(`Offline change to ${entry.table} was rejected, will retry:`, error);
+        await saveOutboxEntry({ ...entry, attempts, last_error: errorMessage(error) });
+      }
+    } finally {
+      setInFlight(null);
+    }
+  }
+
+  if (touched.size > 0) {
+    notifyOffline({ type: 'synced', tables: Array.from(touched) });
+  }
+  return result;
+};
+
+let currentReplay: Promise<SyncResult> | null = null;
+
+// Sends queued writes to Supabase in the order they were made. Calls made
+// while a replay is running wait for it and then pick up anything new.
+export const replayOutbox = async (userId: string, runner: RetryRunner): Promise<SyncResult> => {
+  while (currentReplay) {
+    await currentReplay.catch(() => undefined);
+  }
+
+  currentReplay = runReplay(userId, runner);
+  try {
+    return await currentReplay;
+  } finally {
+    currentReplay = null;
+  }
+};
@@ -0,0 +1,46 @@
+export type OfflineTable =
+  | 'tasks'
+  | 'mood_entries'
+  | 'user_settings'
+  | 'chat_sessions'
+  | 'chat_messages'
+  | 'exercise_sessions'
+  | 'journal_entries';
+
+export type CachedRow = Record<string, unknown> & { id?: string; user_id?: string };
+
+// insert and delete act on a row id; upsert is for one-row-per-user tables
+// (user_settings) and is keyed by user_id
+export type OutboxOperation = 'insert' | 'update' | 'upsert' | 'delete';
+
+export interface OutboxEntry {
+  seq?: number;
+  user_id: string;
+  table: OfflineTable;
+  op: OutboxOperation;
+  row_id: string;
+  // Full row for inserts, changed fields otherwise
+  changes: Record<string, unknown>;
+  // Values of the changed fields before this edit, for three-way merges
+  base: Record<string, unknown> | null;
+  queued_at: string;
+  attempts: number;
+  last_error?: string;
+}
+
+export interface SyncConflict {
+  table: OfflineTable;
+  row_id: string;
+  // Fields where another device's newer edit was kept over ours
+  fields: string[];
+  reason: 'newer_remote_edit' | 'deleted_remotely';
+}
+
+export interface SyncResult {
+  synced: number;
+  conflicts: SyncConflict[];
+  // Entries dropped after being rejected by the server too many times
+  dropped: number;
+  // True when replay stopped early because the connection failed
+  interrupted: boolean;
+}
@@ -0,0 +1,11 @@
+export type { Reminder, ReminderKind, ReminderPreferences, ReminderTask } from './types';
+export { MAX_LATENESS_MS, collectDueReminders, deferForQuietHours } from './schedule';
+export {
+  getNotificationPermission,
+  isNotificationSupported,
+  registerReminderWorker,
+  requestNotificationPermission,
+  showSystemNotification,
+} from './notifications';
+export { addDays, fromZoned, parseClock, toZoned } from './time';
+export type { ZonedMoment } from './time';
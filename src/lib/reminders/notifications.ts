@@ -0,0 +1,61 @@
+import type { Reminder } from './types';
+
+const WORKER_URL = '/reminder-sw.js';
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+export const isNotificationSupported = (): boolean =>
+  typeof window !== 'undefined' && 'Notification' in window;
+
+export const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+  isNotificationSupported() ? Notification.permission : 'unsupported';
+
+// The worker only handles notification clicks; it doesn't cache anything
+export const registerReminderWorker = (): Promise<ServiceWorkerRegistration | null> => {
+  if (!registration) {
+    registration = 'serviceWorker' in navigator
+      ? navigator.serviceWorker.register(WORKER_URL).catch(error => {
+          console.warn('Failed to register reminder service worker:', error);
+          return null;
+        })
+      : Promise.resolve(null);
+  }
+  return registration;
+};
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (!isNotificationSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+
+  const permission = await Notification.requestPermission();
+  if (permission === 'granted') {
+    await registerReminderWorker();
+  }
+  return permission;
+};
+
+export const showSystemNotification = async (reminder: Reminder): Promise<boolean> => {
+  if (getNotificationPermission() !== 'granted') return false;
+
+  const options: NotificationOptions = {
+    body: reminder.body,
+    tag: reminder.key,
+    icon: '/white_circle_360x360.svg',
+    data: { url: reminder.url },
+  };
+
+  const worker = await registerReminderWorker();
+  if (worker) {
+    await worker.showNotification(reminder.title, options);
+    return true;
+  }
+
+  // No service worker (e.g. some private windows): a page notification still
+  // shows, it just can't reopen a closed tab
+  const notification = new Notification(reminder.title, options);
+  notification.onclick = () => {
+    window.focus();
+    window.location.assign(reminder.url);
+  };
+  return true;
+};
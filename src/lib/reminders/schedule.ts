@@ -0,0 +1,145 @@
+import { getLocale, t } from '../i18n';
+import { addDays, fromZoned, isWithinWindow, parseClock, toZoned } from './time';
+import type { Reminder, ReminderPreferences, ReminderTask } from './types';
+
+// Reminders that were missed by more than this (app closed, device asleep)
+// are skipped rather than delivered late
+export const MAX_LATENESS_MS = 6 * 60 * 60 * 1000;
+
+const DEFAULT_MOOD_TIME = 20 * 60;
+const DEFAULT_SUMMARY_TIME = 9 * 60;
+
+export interface ReminderState {
+  tasks: ReminderTask[];
+  // Local (zoned) dates that already have a mood check-in
+  moodDates: Set<string>;
+  preferences: ReminderPreferences;
+  timeZone: string;
+  now: Date;
+}
+
+// Moves a time that falls inside quiet hours to the moment they end
+export const deferForQuietHours = (
+  instant: Date,
+  preferences: ReminderPreferences,
+  timeZone: string
+): Date => {
+  if (!preferences.quiet_hours_enabled) return instant;
+
+  const start = parseClock(preferences.quiet_hours_start);
+  const end = parseClock(preferences.quiet_hours_end);
+  if (start === null || end === null) return instant;
+
+  const local = toZoned(instant, timeZone);
+  if (!isWithinWindow(local.minutes, start, end)) return instant;
+
+  const endDate = local.minutes < end ? local.date : addDays(local.date, 1);
+  return fromZoned(endDate, end, timeZone);
+};
+
+const isDue = (fireAt: Date, now: Date) =>
+  fireAt.getTime() <= now.getTime() && now.getTime() - fireAt.getTime() <= MAX_LATENESS_MS;
+
+const taskReminders = ({ tasks, preferences, timeZone, now }: ReminderState): Reminder[] =>
+  tasks
+    .filter(task => task.reminder_enabled && task.reminder_time && !task.completed)
+    .flatMap(task => {
+      const scheduled = new Date(task.reminder_time!);
+      if (isNaN(scheduled.getTime())) return [];
+
+      const fireAt = deferForQuietHours(scheduled, preferences, timeZone);
+      if (!isDue(fireAt, now)) return [];
+
+      return [{
+        key: `task:${task.id}:${scheduled.toISOString()}`,
+        kind: 'task_reminder' as const,
+        title: t('reminders.taskTitle'),
+        body: task.due_date
+          ? t('reminders.taskDue', {
+            title: task.title,
+            date: new Date(task.due_date).toLocaleString(getLocale(), { timeZone, dateStyle: 'medium', timeStyle: 'short' }),
+          })
+          : task.title,
+        url: '/tasks',
+        fire_at: fireAt,
+      }];
+    });
+
+// Today's occurrence of a daily reminder, checking yesterday's as well in
+// case quiet hours pushed it past midnight
+const dailyOccurrence = (
+  state: ReminderState,
+  clock: string,
+  fallback: number
+): { date: string; fireAt: Date } | null => {
+  const { preferences, timeZone, now } = state;
+  const minutes = parseClock(clock) ?? fallback;
+  const today = toZoned(now, timeZone).date;
+
+  for (const date of [today, addDays(today, -1)]) {
+    const fireAt = deferForQuietHours(fromZoned(date, minutes, timeZone), preferences, timeZone);
+    if (isDue(fireAt, now)) return { date, fireAt };
+  }
+  return null;
+};
+
+const moodReminder = (state: ReminderState): Reminder | null => {
+  const occurrence = dailyOccurrence(state, state.preferences.mood_reminder_time, DEFAULT_MOOD_TIME);
+  if (!occurrence || state.moodDates.has(occurrence.date)) return null;
+
+  return {
+    key: `mood:${occurrence.date}`,
+    kind: 'mood_reminder',
+    title: t('reminders.moodTitle'),
+    body: t('reminders.moodBody'),
+    url: '/mood',
+    fire_at: occurrence.fireAt,
+  };
+};
+
+const dailySummary = (state: ReminderState): Reminder | null => {
+  const occurrence = dailyOccurrence(state, state.preferences.daily_summary_time, DEFAULT_SUMMARY_TIME);
+  if (!occurrence) return null;
+
+  const { tasks, timeZone, now } = state;
+  const open = tasks.filter(task => !task.completed);
+  const dueToday = open.filter(task => task.due_date && toZoned(new Date(task.due_date), timeZone).date === occurrence.date);
+  const overdue = open.filter(task => task.due_date && new Date(task.due_date).getTime() < now.getTime() &&
+    toZoned(new Date(task.due_date), timeZone).date < occurrence.date);
+
+  const parts = [
+    dueToday.length > 0 ? t('reminders.dueToday', { count: dueToday.length }) : t('reminders.nothingDue'),
+    overdue.length > 0 ? t('reminders.overdue', { count: overdue.length }) : null,
+    open.length > 0 ? t('reminders.open', { count: open.length }) : null,
+  ].filter(Boolean);
+
+  return {
+    key: `summary:${occurrence.date}`,
+    kind: 'daily_summary',
+    title: t('reminders.summaryTitle'),
+    body: t('reminders.summaryBody', { parts: parts.join(t('common.listSeparator')) }),
+    url: '/tasks',
+    fire_at: occurrence.fireAt,
+  };
+};
+
+// Everything that should fire right now under the user's settings. Callers
+// keep track of what they already delivered by reminder key.
+export const collectDueReminders = (state: ReminderState): Reminder[] => {
+  const { preferences } = state;
+  const due: Reminder[] = [];
+
+  if (preferences.task_reminders) {
+    due.push(...taskReminders(state));
+  }
+  if (preferences.mood_reminders) {
+    const reminder = moodReminder(state);
+    if (reminder) due.push(reminder);
+  }
+  if (preferences.daily_summary) {
+    const reminder = dailySummary(state);
+    if (reminder) due.push(reminder);
+  }
+
+  return due.sort((a, b) => a.fire_at.getTime() - b.fire_at.getTime());
+};
@@ -0,0 +1,87 @@
+// Wall-clock helpers for an IANA time zone, using Intl so no tz database ships
+// with the app
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface ZonedMoment {
+  // Calendar date in the zone, YYYY-MM-DD
+  date: string;
+  // Minutes since local midnight
+  minutes: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+    } catch {
+      // Unknown zone names fall back to UTC rather than breaking reminders
+      formatter = getFormatter('UTC');
+    }
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const toZoned = (instant: Date, timeZone: string): ZonedMoment => {
+  const parts: Record<string, string> = {};
+  getFormatter(timeZone).formatToParts(instant).forEach(part => {
+    parts[part.type] = part.value;
+  });
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+};
+
+// 'HH:MM' to minutes since midnight; null for anything else
+export const parseClock = (value: string | null | undefined): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value?.trim() ?? '');
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+export const addDays = (date: string, days: number): string => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+};
+
+// The instant a wall-clock time happens in the zone. Times skipped by a DST
+// change resolve to just after the gap.
+export const fromZoned = (date: string, minutes: number, timeZone: string): Date => {
+  const target = Date.parse(`${date}T00:00:00Z`) + minutes * 60000;
+  let guess = target;
+  for (let i = 0; i < 3; i++) {
+    const seen = toZoned(new Date(guess), timeZone);
+    const seenAt = Date.parse(`${seen.date}T00:00:00Z`) + seen.minutes * 60000;
+    if (seenAt === target) break;
+    guess += target - seenAt;
+  }
+  return new Date(guess);
+};
+
+// Quiet hours may wrap past midnight (22:00-08:00). Equal ends mean none.
+export const isWithinWindow = (minutes: number, start: number, end: number): boolean => {
+  if (start === end) return false;
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+};
+
+export const minutesUntilWindowEnd = (minutes: number, end: number): number =>
+  (end - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY;
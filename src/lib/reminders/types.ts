@@ -0,0 +1,34 @@
+export type ReminderKind = 'task_reminder' | 'mood_reminder' | 'daily_summary';
+
+export interface ReminderPreferences {
+  task_reminders: boolean;
+  mood_reminders: boolean;
+  daily_summary: boolean;
+  // Wall-clock times, HH:MM in the user's time zone
+  mood_reminder_time: string;
+  daily_summary_time: string;
+  quiet_hours_enabled: boolean;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+}
+
+export interface ReminderTask {
+  id: string;
+  title: string;
+  completed: boolean;
+  due_date: string | null;
+  reminder_enabled?: boolean | null;
+  reminder_time?: string | null;
+}
+
+export interface Reminder {
+  // Stable per occurrence, so each one is delivered once across devices
+  key: string;
+  kind: ReminderKind;
+  title: string;
+  body: string;
+  // App route opened from the notification
+  url: string;
+  // When it was meant to fire, after moving it out of quiet hours
+  fire_at: Date;
+}
@@ -0,0 +1,18 @@
+export type {
+  AIReport,
+  EmotionalState,
+  EngagementLevel,
+  EngagementQuality,
+  OverallMood,
+  ReportContext,
+  ReportEngagement,
+  ReportMethod,
+  ReportMood,
+  ReportSource,
+  SessionQuality,
+  StressLevel,
+} from './types';
+export type { ReportRating } from './labels';
+export { RATING_LABELS } from './labels';
+export { REPORT_SCHEMA_VERSION } from './types';
+export { ReportValidationError, REPORT_JSON_SHAPE, parseReportResponse, validateReport } from './schema';
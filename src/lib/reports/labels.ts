@@ -0,0 +1,22 @@
+import type { MessageKey } from '../i18n';
+import type { EmotionalState, EngagementLevel, EngagementQuality, OverallMood, SessionQuality, StressLevel } from './types';
+
+export type ReportRating = OverallMood | StressLevel | EmotionalState | SessionQuality | EngagementLevel | EngagementQuality;
+
+// Ratings are stored in English and translated when shown
+export const RATING_LABELS: Record<ReportRating, MessageKey> = {
+  positive: 'reports.ratingPositive',
+  neutral: 'reports.ratingNeutral',
+  negative: 'reports.ratingNegative',
+  low: 'reports.ratingLow',
+  medium: 'reports.ratingMedium',
+  high: 'reports.ratingHigh',
+  improving: 'reports.ratingImproving',
+  stable: 'reports.ratingStable',
+  concerning: 'reports.ratingConcerning',
+  excellent: 'reports.ratingExcellent',
+  good: 'reports.ratingGood',
+  fair: 'reports.ratingFair',
+  brief: 'reports.ratingBrief',
+  poor: 'reports.ratingPoor',
+};
@@ -0,0 +1,305 @@
+import {
+  EMOTIONAL_STATES,
+  ENGAGEMENT_LEVELS,
+  ENGAGEMENT_QUALITIES,
+  OVERALL_MOODS,
+  REPORT_SCHEMA_VERSION,
+  SESSION_QUALITIES,
+  STRESS_LEVELS,
+} from './types';
+import type { AIReport, ReportContext, ReportEngagement, ReportMethod, ReportSource } from './types';
+
+// Thrown when a report can't be repaired into the current schema. `issues`
+// lists every problem found, not just the first.
+export class ReportValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid AI report: ${issues.join('; ')}`);
+    this.name = 'ReportValidationError';
+    this.issues = issues;
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const REPORT_SOURCES: ReportSource[] = ['chat', 'video_session', 'mood'];
+const REPORT_METHODS: ReportMethod[] = ['llm', 'lexicon', 'heuristic'];
+
+const MAX_LIST_ITEMS = 8;
+const MAX_TEXT_LENGTH = 1000;
+
+// Words models use instead of the enum values we asked for
+const SYNONYMS: Record<string, string> = {
+  happy: 'positive', good: 'positive', upbeat: 'positive', optimistic: 'positive',
+  sad: 'negative', bad: 'negative', low: 'negative', distressed: 'negative',
+  mixed: 'neutral', balanced: 'neutral', ambivalent: 'neutral',
+  moderate: 'medium', mid: 'medium', elevated: 'medium',
+  minimal: 'low', none: 'low', mild: 'low',
+  severe: 'high', significant: 'high',
+  worsening: 'concerning', declining: 'concerning', 'at risk': 'concerning',
+  improved: 'improving', steady: 'stable',
+};
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+// First non-empty value among dotted paths, so legacy and current field names
+// can both be read: pick(raw, ['mood.overall', 'overall_mood'])
+const pick = (raw: UnknownRecord, paths: string[]): unknown => {
+  for (const path of paths) {
+    let value: unknown = raw;
+    for (const key of path.split('.')) {
+      value = isRecord(value) ? value[key] : undefined;
+    }
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+};
+
+class ReportReader {
+  repairs: string[] = [];
+  issues: string[] = [];
+
+  constructor(private raw: UnknownRecord) {}
+
+  enumValue<T extends string>(field: string, paths: string[], options: readonly T[], required = false): T | null {
+    const value = pick(this.raw, paths);
+    if (value === undefined) {
+      if (required) this.issues.push(`${field} is required`);
+      return null;
+    }
+    if (isOneOf(value, options)) return value;
+
+    if (typeof value === 'string') {
+      const normalised = value.trim().toLowerCase();
+      if (isOneOf(normalised, options)) {
+        return normalised;
+      }
+      const synonym = SYNONYMS[normalised];
+      if (isOneOf(synonym, options)) {
+        this.repairs.push(`${field}: mapped "${value}" to "${synonym}"`);
+        return synonym;
+      }
+      // "mostly positive" is fine, but an echoed template like
+      // "positive/negative/neutral" names several options and is rejected
+      const mentioned = options.filter(option => new RegExp(`\\b${option}\\b`).test(normalised));
+      if (mentioned.length === 1) {
+        this.repairs.push(`${field}: read "${value}" as "${mentioned[0]}"`);
+        return mentioned[0];
+      }
+    }
+
+    if (required) {
+      this.issues.push(`${field} must be one of ${options.join(', ')} (got ${JSON.stringify(value)})`);
+    } else {
+      this.repairs.push(`${field}: dropped unrecognised ${JSON.stringify(value)}`);
+    }
+    return null;
+  }
+
+  numberValue(field: string, paths: string[], min: number, max: number): number | null {
+    const value = pick(this.raw, paths);
+    if (value === undefined) return null;
+
+    let parsed = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+    if (!Number.isFinite(parsed)) {
+      this.repairs.push(`${field}: dropped non-numeric ${JSON.stringify(value)}`);
+      return null;
+    }
+
+    // Percentages for a 0-1 field ("85%" or 85)
+    if (max === 1 && parsed > 1 && parsed <= 100) {
+      this.repairs.push(`${field}: converted ${parsed} from a percentage`);
+      parsed /= 100;
+    }
+    if (parsed < min || parsed > max) {
+      this.repairs.push(`${field}: clamped ${parsed} to ${min}-${max}`);
+      parsed = Math.min(max, Math.max(min, parsed));
+    }
+    return parsed;
+  }
+
+  countValue(field: string, paths: string[]): number {
+    const value = this.numberValue(field, paths, 0, Number.MAX_SAFE_INTEGER);
+    return value === null ? 0 : Math.round(value);
+  }
+
+  textValue(field: string, paths: string[]): string {
+    const value = pick(this.raw, paths);
+    if (value === undefined) return '';
+    if (typeof value !== 'string') {
+      this.repairs.push(`${field}: dropped non-text value`);
+      return '';
+    }
+    return value.trim().slice(0, MAX_TEXT_LENGTH);
+  }
+
+  listValue(field: string, paths: string[], limit: number = MAX_LIST_ITEMS): string[] {
+    const value = pick(this.raw, paths);
+    if (value === undefined) return [];
+
+    let items: unknown[];
+    if (Array.isArray(value)) {
+      items = value;
+    } else if (typeof value === 'string') {
+      this.repairs.push(`${field}: split text into a list`);
+      items = value.split(/\n|;|•/);
+    } else {
+      this.repairs.push(`${field}: dropped non-list value`);
+      return [];
+    }
+
+    const seen = new Set<string>();
+    const list: string[] = [];
+    for (const item of items) {
+      if (typeof item !== 'string') continue;
+      const text = item.replace(/^\s*(?:[-*]|\d+[.)])\s*/, '').trim().slice(0, MAX_TEXT_LENGTH);
+      const key = text.toLowerCase();
+      if (!text || seen.has(key)) continue;
+      seen.add(key);
+      list.push(text);
+    }
+
+    if (list.length > limit) {
+      this.repairs.push(`${field}: kept the first ${limit} of ${list.length} items`);
+    }
+    return list.slice(0, limit);
+  }
+}
+
+const readEngagement = (reader: ReportReader): ReportEngagement | null => {
+  const session_quality = reader.enumValue('engagement.session_quality',
+    ['engagement.session_quality', 'insights.session_quality', 'session_quality'], SESSION_QUALITIES, true);
+  const engagement_level = reader.enumValue('engagement.engagement_level',
+    ['engagement.engagement_level', 'insights.engagement_level', 'engagement_level'], ENGAGEMENT_LEVELS, true);
+
+  if (!session_quality || !engagement_level) return null;
+
+  return {
+    session_quality,
+    engagement_level,
+    engagement_quality: reader.enumValue('engagement.engagement_quality',
+      ['engagement.engagement_quality', 'mood_analysis.engagement_quality', 'engagement_quality'], ENGAGEMENT_QUALITIES),
+    technical_issues: reader.countValue('engagement.technical_issues',
+      ['engagement.technical_issues', 'insights.technical_issues', 'technical_issues']),
+    interaction_count: reader.countValue('engagement.interaction_count',
+      ['engagement.interaction_count', 'insights.interaction_count', 'engagement_metrics.total_interactions', 'interaction_count']),
+    completion_rate: reader.numberValue('engagement.completion_rate',
+      ['engagement.completion_rate', 'engagement_metrics.session_completion_rate', 'session_completion_rate'], 0, 100) ?? 0,
+    average_response_time: reader.textValue('engagement.average_response_time',
+      ['engagement.average_response_time', 'engagement_metrics.average_response_time']) || null,
+    user_satisfaction_score: reader.numberValue('engagement.user_satisfaction_score',
+      ['engagement.user_satisfaction_score', 'engagement_metrics.user_satisfaction_score'], 0, 5),
+    ai_response_quality: reader.numberValue('engagement.ai_response_quality',
+      ['engagement.ai_response_quality', 'engagement_metrics.ai_response_quality'], 0, 5),
+  };
+};
+
+// Checks a report against the current schema, repairing what it safely can:
+// synonyms for enum values, percentages, out-of-range numbers, lists sent as
+// text and duplicate items. Accepts the pre-schema shapes too (the flat chat
+// report, MoodAnalysis and session_reports columns), so it doubles as the
+// upgrade path for old data. Throws ReportValidationError when a required
+// field is missing or unreadable.
+export const validateReport = (raw: unknown, context: ReportContext): AIReport => {
+  if (!isRecord(raw)) {
+    throw new ReportValidationError(['report must be a JSON object']);
+  }
+
+  const version = typeof raw.schema_version === 'number' ? raw.schema_version : 0;
+  if (version > REPORT_SCHEMA_VERSION) {
+    throw new ReportValidationError([`schema version ${version} is newer than this app supports`]);
+  }
+
+  const reader = new ReportReader(raw);
+
+  const sentiment_score = reader.numberValue('mood.sentiment_score',
+    ['mood.sentiment_score', 'sentiment_score'], -1, 1);
+  let overall = reader.enumValue('mood.overall',
+    ['mood.overall', 'overall_mood', 'mood_analysis.overall_sentiment', 'overall_sentiment'], OVERALL_MOODS);
+  if (!overall && sentiment_score !== null) {
+    overall = sentiment_score > 0.15 ? 'positive' : sentiment_score < -0.15 ? 'negative' : 'neutral';
+    reader.repairs.push(`mood.overall: derived "${overall}" from sentiment_score`);
+  }
+  if (!overall) {
+    reader.issues.push(`mood.overall must be one of ${OVERALL_MOODS.join(', ')}`);
+  }
+
+  const stress_level = reader.enumValue('mood.stress_level',
+    ['mood.stress_level', 'stress_level', 'mood_analysis.stress_indicators', 'stress_indicators'], STRESS_LEVELS, true);
+
+  const engagement = context.source === 'video_session' ? readEngagement(reader) : null;
+
+  const confidence = reader.numberValue('confidence',
+    ['confidence', 'confidence_score', 'mood_analysis.confidence_score'], 0, 1);
+
+  if (reader.issues.length > 0 || !overall || !stress_level) {
+    throw new ReportValidationError(reader.issues);
+  }
+
+  // Stored reports keep their own origin; fresh model output takes the caller's
+  const stored = version > 0;
+
+  return {
+    schema_version: REPORT_SCHEMA_VERSION,
+    source: stored && isOneOf(raw.source, REPORT_SOURCES) ? raw.source : context.source,
+    method: stored && isOneOf(raw.method, REPORT_METHODS) ? raw.method : context.method,
+    generated_at: context.generatedAt || (typeof raw.generated_at === 'string' ? raw.generated_at : new Date().toISOString()),
+    mood: {
+      overall,
+      stress_level,
+      emotional_state: reader.enumValue('mood.emotional_state',
+        ['mood.emotional_state', 'emotional_state', 'mood_analysis.emotional_state'], EMOTIONAL_STATES),
+      sentiment_score,
+      emotions: reader.listValue('mood.emotions', ['mood.emotions', 'emotions'], 6),
+    },
+    summary: reader.textValue('summary', ['summary']),
+    key_concerns: reader.listValue('key_concerns', ['key_concerns']),
+    positive_indicators: reader.listValue('positive_indicators', ['positive_indicators']),
+    recommendations: reader.listValue('recommendations', ['recommendations']),
+    // Models that skip the score get a middling one rather than false certainty
+    confidence: confidence ?? 0.5,
+    engagement,
+    repairs: [...(Array.isArray(raw.repairs) ? raw.repairs.filter((r): r is string => typeof r === 'string') : []), ...reader.repairs],
+  };
+};
+
+// Pulls the JSON object out of a model reply (code fences, chatter around it,
+// trailing commas) and validates it
+export const parseReportResponse = (response: string, context: ReportContext): AIReport => {
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new ReportValidationError(['response does not contain a JSON object']);
+  }
+
+  const json = response.slice(start, end + 1);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    try {
+      raw = JSON.parse(json.replace(/,\s*([}\]])/g, '$1'));
+    } catch {
+      throw new ReportValidationError(['response is not valid JSON']);
+    }
+  }
+
+  return validateReport(raw, context);
+};
+
+// Prompt fragment describing the fields every report shares
+export const REPORT_JSON_SHAPE = `"overall_mood": "${OVERALL_MOODS.join('" | "')}",
+  "stress_level": "${STRESS_LEVELS.join('" | "')}",
+  "emotional_state": "${EMOTIONAL_STATES.join('" | "')}",
+  "sentiment_score": number from -1 to 1,
+  "emotions": ["up to 6 specific emotions"],
+  "summary": "2-3 sentences addressed to the user",
+  "key_concerns": ["main concerns, may be empty"],
+  "positive_indicators": ["positive signs, may be empty"],
+  "recommendations": ["2-4 short, practical suggestions"],
+  "confidence": number from 0 to 1`;
@@ -0,0 +1,65 @@
+// Bump when the stored shape changes and add an upgrade step in schema.ts.
+// Rows written before the schema existed have no version and count as 0.
+export const REPORT_SCHEMA_VERSION = 1;
+
+export type ReportSource = 'chat' | 'video_session' | 'mood';
+
+// 'heuristic' reports are computed from session data when no AI is available
+export type ReportMethod = 'llm' | 'lexicon' | 'heuristic';
+
+export const OVERALL_MOODS = ['positive', 'neutral', 'negative'] as const;
+export const STRESS_LEVELS = ['low', 'medium', 'high'] as const;
+export const EMOTIONAL_STATES = ['improving', 'stable', 'concerning'] as const;
+export const SESSION_QUALITIES = ['excellent', 'good', 'fair', 'brief'] as const;
+export const ENGAGEMENT_LEVELS = ['high', 'medium', 'low'] as const;
+export const ENGAGEMENT_QUALITIES = ['excellent', 'good', 'fair', 'poor'] as const;
+
+export type OverallMood = typeof OVERALL_MOODS[number];
+export type StressLevel = typeof STRESS_LEVELS[number];
+export type EmotionalState = typeof EMOTIONAL_STATES[number];
+export type SessionQuality = typeof SESSION_QUALITIES[number];
+export type EngagementLevel = typeof ENGAGEMENT_LEVELS[number];
+export type EngagementQuality = typeof ENGAGEMENT_QUALITIES[number];
+
+export interface ReportMood {
+  overall: OverallMood;
+  stress_level: StressLevel;
+  emotional_state: EmotionalState | null;
+  sentiment_score: number | null; // -1 (very negative) to 1 (very positive)
+  emotions: string[];
+}
+
+// Only video session reports have engagement data
+export interface ReportEngagement {
+  session_quality: SessionQuality;
+  engagement_level: EngagementLevel;
+  engagement_quality: EngagementQuality | null;
+  technical_issues: number;
+  interaction_count: number;
+  completion_rate: number; // 0-100
+  average_response_time: string | null;
+  user_satisfaction_score: number | null; // 0-5
+  ai_response_quality: number | null; // 0-5
+}
+
+export interface AIReport {
+  schema_version: typeof REPORT_SCHEMA_VERSION;
+  source: ReportSource;
+  method: ReportMethod;
+  generated_at: string;
+  mood: ReportMood;
+  summary: string;
+  key_concerns: string[];
+  positive_indicators: string[];
+  recommendations: string[];
+  confidence: number; // 0-1
+  engagement: ReportEngagement | null;
+  // What validation had to fix, kept so bad model output can be spotted later
+  repairs: string[];
+}
+
+export interface ReportContext {
+  source: ReportSource;
+  method: ReportMethod;
+  generatedAt?: string;
+}
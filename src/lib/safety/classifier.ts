@@ -0,0 +1,58 @@
+import { getLLMProvider } from '../llm';
+import type { RiskLevel, SafetyAssessment, SafetyCategory } from './types';
+
+const CLASSIFIER_TIMEOUT_MS = 6000;
+
+const LEVELS: RiskLevel[] = ['none', 'elevated', 'high'];
+const CATEGORIES: SafetyCategory[] = ['suicidal_ideation', 'self_harm', 'harm_to_others', 'abuse', 'hopelessness'];
+
+const CLASSIFIER_PROMPT = `You are a safety classifier for a mental health companion app. Classify the risk in the user's message.
+
+Return only JSON: {"level": "none" | "elevated" | "high", "categories": [...]}
+Categories: ${CATEGORIES.join(', ')}.
+
+- "high": suicidal thoughts or plans, self-harm, intent to harm others, or immediate danger, even if indirect or phrased as a joke
+- "elevated": hopelessness, abuse disclosures or distress without immediate danger
+- "none": everything else, including figures of speech and discussing these topics in general`;
+
+// Returns null when no provider is configured or the call fails, so callers
+// can fall back to the rules engine result
+export const classifyWithLLM = async (text: string): Promise<SafetyAssessment | null> => {
+  const provider = getLLMProvider();
+  if (!provider) return null;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), CLASSIFIER_TIMEOUT_MS);
+
+  try {
+    const response = await provider.generate({
+      messages: [
+        { role: 'system', content: CLASSIFIER_PROMPT },
+        { role: 'user', content: text },
+      ],
+      temperature: 0,
+      maxTokens: 100,
+      json: true,
+      signal: controller.signal,
+    });
+
+    const jsonMatch = response.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return null;
+
+    const data = JSON.parse(jsonMatch[0]);
+    if (!LEVELS.includes(data.level)) return null;
+
+    return {
+      level: data.level,
+      categories: Array.isArray(data.categories)
+        ? data.categories.filter((c: string): c is SafetyCategory => CATEGORIES.includes(c as SafetyCategory))
+        : [],
+      method: 'llm',
+    };
+  } catch (error) {
+    console.warn('Safety classifier unavailable:', error);
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
@@ -0,0 +1,50 @@
+import { classifyWithLLM } from './classifier';
+import { assessWithRules } from './rules';
+import type { RiskLevel, SafetyAssessment, SafetyCategory } from './types';
+
+export type {
+  CrisisRegion,
+  CrisisResource,
+  RiskLevel,
+  SafetyAssessment,
+  SafetyCategory,
+  SafetySource,
+} from './types';
+export { assessWithRules } from './rules';
+export { classifyWithLLM } from './classifier';
+export { buildSafetyContext, getCrisisRegion } from './resources';
+
+const RISK_ORDER: Record<RiskLevel, number> = { none: 0, elevated: 1, high: 2 };
+
+interface AssessOptions {
+  // Ask the LLM classifier as well; leave off when offline
+  useClassifier?: boolean;
+}
+
+// The rules engine always runs and works offline. The LLM classifier is only
+// asked to confirm an "elevated" rules result, so ordinary messages don't wait
+// on a second LLM call, and it can only raise the level, never lower it.
+export const assessMessageSafety = async (
+  text: string,
+  { useClassifier = true }: AssessOptions = {}
+): Promise<SafetyAssessment> => {
+  const rules = assessWithRules(text);
+  if (rules.level !== 'elevated' || !useClassifier) {
+    return rules;
+  }
+
+  const llm = await classifyWithLLM(text);
+  if (!llm || RISK_ORDER[llm.level] <= RISK_ORDER[rules.level]) {
+    return rules;
+  }
+
+  return {
+    level: llm.level,
+    categories: Array.from(new Set<SafetyCategory>([...rules.categories, ...llm.categories])),
+    method: 'llm',
+  };
+};
+
+// Extra system prompt for replies that continue after an "elevated" result
+export const SAFETY_GUIDANCE =
+  'The user may be struggling. Respond with extra warmth, validate their feelings, gently check how safe they are, and mention that talking to someone they trust or a crisis line can help. Do not lecture.';
@@ -0,0 +1,129 @@
+import type { CrisisRegion } from './types';
+
+const REGIONS: Record<string, CrisisRegion> = {
+  US: {
+    code: 'US',
+    label: 'crisis.regionUs',
+    emergencyNumber: '911',
+    resources: [
+      { name: '988 Suicide & Crisis Lifeline', description: 'crisis.us988', phone: '988', sms: '988', url: 'https://988lifeline.org' },
+      { name: 'Crisis Text Line', description: 'crisis.usCrisisTextLine', sms: '741741', url: 'https://www.crisistextline.org' },
+    ],
+  },
+  CA: {
+    code: 'CA',
+    label: 'crisis.regionCa',
+    emergencyNumber: '911',
+    resources: [
+      { name: '9-8-8 Suicide Crisis Helpline', description: 'crisis.ca988', phone: '988', sms: '988', url: 'https://988.ca' },
+    ],
+  },
+  GB: {
+    code: 'GB',
+    label: 'crisis.regionGb',
+    emergencyNumber: '999',
+    resources: [
+      { name: 'Samaritans', description: 'crisis.ukSamaritans', phone: '116 123', url: 'https://www.samaritans.org' },
+      { name: 'Shout', description: 'crisis.ukShout', sms: '85258', url: 'https://giveusashout.org' },
+    ],
+  },
+  IE: {
+    code: 'IE',
+    label: 'crisis.regionIe',
+    emergencyNumber: '112',
+    resources: [
+      { name: 'Samaritans Ireland', description: 'crisis.ieSamaritans', phone: '116 123', url: 'https://www.samaritans.org/ireland' },
+      { name: 'Text About It', description: 'crisis.ieTextAboutIt', sms: '50808', url: 'https://text50808.ie' },
+    ],
+  },
+  IN: {
+    code: 'IN',
+    label: 'crisis.regionIn',
+    emergencyNumber: '112',
+    resources: [
+      { name: 'Tele-MANAS', description: 'crisis.inTeleManas', phone: '14416', url: 'https://telemanas.mohfw.gov.in' },
+    ],
+  },
+  AU: {
+    code: 'AU',
+    label: 'crisis.regionAu',
+    emergencyNumber: '000',
+    resources: [
+      { name: 'Lifeline', description: 'crisis.auLifeline', phone: '13 11 14', sms: '0477 13 11 14', url: 'https://www.lifeline.org.au' },
+    ],
+  },
+  NZ: {
+    code: 'NZ',
+    label: 'crisis.regionNz',
+    emergencyNumber: '111',
+    resources: [
+      { name: 'Need to talk? 1737', description: 'crisis.nz1737', phone: '1737', sms: '1737', url: 'https://1737.org.nz' },
+    ],
+  },
+  ES: {
+    code: 'ES',
+    label: 'crisis.regionEs',
+    emergencyNumber: '112',
+    resources: [
+      { name: 'Línea 024', description: 'crisis.es024', phone: '024', url: 'https://www.sanidad.gob.es/linea024' },
+    ],
+  },
+  MX: {
+    code: 'MX',
+    label: 'crisis.regionMx',
+    emergencyNumber: '911',
+    resources: [
+      { name: 'Línea de la Vida', description: 'crisis.mxLineaDeLaVida', phone: '800 911 2000' },
+    ],
+  },
+  INTL: {
+    code: 'INTL',
+    label: 'crisis.regionIntl',
+    emergencyNumber: 'your local emergency number',
+    resources: [
+      { name: 'Find A Helpline', description: 'crisis.intlFindAHelpline', url: 'https://findahelpline.com' },
+    ],
+  },
+};
+
+// Timezones are the best region hint we hold for a user; only zones with a
+// dedicated entry above are listed, everything else falls back to language
+const TIMEZONE_REGIONS: [RegExp, string][] = [
+  [/^America\/(Toronto|Vancouver|Edmonton|Winnipeg|Halifax|St_Johns|Regina|Montreal)$/, 'CA'],
+  [/^America\/(Mexico_City|Cancun|Merida|Monterrey|Tijuana|Chihuahua|Hermosillo|Mazatlan)$/, 'MX'],
+  [/^(America\/(New_York|Chicago|Denver|Los_Angeles|Phoenix|Anchorage|Detroit|Boise|Indiana\/.+|Kentucky\/.+)|Pacific\/Honolulu|US\/.+)$/, 'US'],
+  [/^Europe\/(London|Belfast)$/, 'GB'],
+  [/^Europe\/Dublin$/, 'IE'],
+  [/^Asia\/(Kolkata|Calcutta)$/, 'IN'],
+  [/^Australia\/.+$/, 'AU'],
+  [/^Pacific\/(Auckland|Chatham)$/, 'NZ'],
+  [/^(Europe\/Madrid|Atlantic\/Canary|Africa\/Ceuta)$/, 'ES'],
+];
+
+const LANGUAGE_REGIONS: Record<string, string> = {
+  hi: 'IN',
+};
+
+export const getCrisisRegion = (timezone?: string | null, language?: string | null): CrisisRegion => {
+  if (timezone) {
+    const match = TIMEZONE_REGIONS.find(([pattern]) => pattern.test(timezone));
+    if (match) return REGIONS[match[1]];
+  }
+
+  const byLanguage = language ? LANGUAGE_REGIONS[language.split('-')[0]] : undefined;
+  return byLanguage ? REGIONS[byLanguage] : REGIONS.INTL;
+};
+
+// Instructions for an AI agent we do not see the transcript of (Tavus)
+export const buildSafetyContext = (region: CrisisRegion): string => {
+  const contacts = region.resources
+    .map(r => `${r.name}${r.phone ? ` (call ${r.phone})` : ''}${r.sms ? ` (text ${r.sms})` : ''}${r.url ? ` ${r.url}` : ''}`)
+    .join('; ');
+
+  return [
+    'Safety protocol: if the user mentions suicide, self-harm, wanting to die, harming someone else or being in danger,',
+    'stop the current topic, respond calmly and with empathy, and do not offer methods or minimise their feelings.',
+    `Encourage them to contact ${contacts}.`,
+    `If they are in immediate danger, ask them to call ${region.emergencyNumber} now.`,
+  ].join(' ');
+};
@@ -0,0 +1,67 @@
+import type { RiskLevel, SafetyAssessment, SafetyCategory } from './types';
+
+interface SafetyRule {
+  category: SafetyCategory;
+  level: Exclude<RiskLevel, 'none'>;
+  pattern: RegExp;
+}
+
+// Deliberately broad: a false positive shows a helpline, a false negative can
+// miss someone in crisis. Patterns run against normalised lowercase text.
+const RULES: SafetyRule[] = [
+  { category: 'suicidal_ideation', level: 'high', pattern: /\b(suicide|suicidal)\b/ },
+  { category: 'suicidal_ideation', level: 'high', pattern: /\b(kill|killing|hang|hanging|shoot|shooting|drown|drowning)\s+my\s?self\b/ },
+  { category: 'suicidal_ideation', level: 'high', pattern: /\b(end|ending|take|taking)\s+(my|my own)\s+life\b/ },
+  { category: 'suicidal_ideation', level: 'high', pattern: /\b(want|wanted|wanna|ready)\s+(to\s+)?die\b/ },
+  { category: 'suicidal_ideation', level: 'high', pattern: /\b(dont|do not|no longer)\s+want\s+to\s+(live|be alive|exist|wake up)\b/ },
+  { category: 'suicidal_ideation', level: 'high', pattern: /\b(better off dead|wish i (was|were) dead|no reason to live)\b/ },
+  { category: 'suicidal_ideation', level: 'high', pattern: /\b(going to|gonna|want to)\s+end\s+(it|it all|everything)\b/ },
+  { category: 'suicidal_ideation', level: 'high', pattern: /\b(overdose|od on)\b/ },
+  { category: 'self_harm', level: 'high', pattern: /\b(cut|cutting|burn|burning|hurt|hurting|harm|harming|starve|starving)\s+my\s?self\b/ },
+  { category: 'self_harm', level: 'high', pattern: /\bself[\s-]?harm(ing)?\b/ },
+  { category: 'harm_to_others', level: 'high', pattern: /\b(going to|gonna|want to|plan to)\s+(kill|hurt|stab|shoot)\s+(him|her|them|someone|somebody|people|my)\b/ },
+  { category: 'abuse', level: 'elevated', pattern: /\b(hits|beats|chokes|hurts|abuses|threatens)\s+me\b/ },
+  { category: 'abuse', level: 'elevated', pattern: /\b(being|been|was|got)\s+(abused|assaulted|raped|molested)\b/ },
+  { category: 'abuse', level: 'elevated', pattern: /\b(afraid|scared)\s+(to go|of going)\s+home\b/ },
+  { category: 'hopelessness', level: 'elevated', pattern: /\b(hopeless|worthless)\b/ },
+  { category: 'hopelessness', level: 'elevated', pattern: /\b(cant|cannot)\s+(go on|take (it|this) anymore|keep going)\b/ },
+  { category: 'hopelessness', level: 'elevated', pattern: /\b(no way out|nothing to live for|give up on (life|everything))\b/ },
+  { category: 'hopelessness', level: 'elevated', pattern: /\b(nobody|no one) would (care|miss me|notice)\b/ },
+];
+
+// Common figures of speech that would otherwise match a rule above
+const FIGURES_OF_SPEECH = [
+  /\b(killing|kill) my\s?self (laughing|with laughter)\b/g,
+  /\bsuicide (squad|doors|prevention|awareness)\b/g,
+  /\b(dying|die) (to|for) (see|know|try|get|hear|meet)\b/g,
+];
+
+const normalise = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[’‘`]/g, "'")
+    .replace(/'/g, '')
+    .replace(/[^\p{L}\p{N}\s-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const assessWithRules = (text: string): SafetyAssessment => {
+  let normalised = normalise(text);
+  for (const figure of FIGURES_OF_SPEECH) {
+    normalised = normalised.replace(figure, ' ');
+  }
+
+  let level: RiskLevel = 'none';
+  const categories = new Set<SafetyCategory>();
+
+  for (const rule of RULES) {
+    if (rule.pattern.test(normalised)) {
+      categories.add(rule.category);
+      if (rule.level === 'high' || level === 'none') {
+        level = rule.level;
+      }
+    }
+  }
+
+  return { level, categories: Array.from(categories), method: 'rules' };
+};
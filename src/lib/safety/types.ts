@@ -0,0 +1,36 @@
+import type { MessageKey } from '../i18n';
+
+// "elevated" keeps the conversation going with extra care; "high" replaces the
+// normal AI reply with crisis resources
+export type RiskLevel = 'none' | 'elevated' | 'high';
+
+export type SafetyCategory =
+  | 'suicidal_ideation'
+  | 'self_harm'
+  | 'harm_to_others'
+  | 'abuse'
+  | 'hopelessness';
+
+export type SafetySource = 'chat' | 'voice' | 'video';
+
+export interface SafetyAssessment {
+  level: RiskLevel;
+  categories: SafetyCategory[];
+  method: 'rules' | 'llm';
+}
+
+export interface CrisisResource {
+  name: string;
+  description: MessageKey;
+  phone?: string;
+  sms?: string;
+  url?: string;
+}
+
+export interface CrisisRegion {
+  code: string;
+  label: MessageKey;
+  // Not a number for the international fallback
+  emergencyNumber: string;
+  resources: CrisisResource[];
+}
@@ -0,0 +1,43 @@
+// Sentence end followed by whitespace, so "3." in "3.5" or a trailing "." at
+// the end of a partial chunk never counts as a boundary
+const SENTENCE_BOUNDARY = /[.!?…]+["'”’)\]]*\s+|\n+/g;
+const MIN_SENTENCE_LENGTH = 12;
+
+export interface SentenceBuffer {
+  push: (text: string) => void;
+  flush: () => void;
+}
+
+// Collects streamed text and hands back complete sentences as soon as they
+// are available, e.g. to start text-to-speech before the reply has finished
+export const createSentenceBuffer = (onSentence: (sentence: string) => void): SentenceBuffer => {
+  let pending = '';
+
+  const emit = (sentence: string) => {
+    const trimmed = sentence.trim();
+    if (trimmed) onSentence(trimmed);
+  };
+
+  return {
+    push: (text: string) => {
+      pending += text;
+
+      let cut = 0;
+      SENTENCE_BOUNDARY.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = SENTENCE_BOUNDARY.exec(pending)) !== null) {
+        const end = match.index + match[0].length;
+        // Very short fragments ("Hi.", "Dr.") are merged into the next sentence
+        if (pending.slice(cut, end).trim().length >= MIN_SENTENCE_LENGTH) {
+          emit(pending.slice(cut, end));
+          cut = end;
+        }
+      }
+      pending = pending.slice(cut);
+    },
+    flush: () => {
+      emit(pending);
+      pending = '';
+    },
+  };
+};
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { calculateStreak } from './streaks';
+
+// Noon UTC on a date, far from any day boundary in the zones used below
+const noon = (date: string) => `${date}T12:00:00Z`;
+
+describe('calculateStreak', () => {
+  describe('day boundaries', () => {
+    it('puts an entry just after midnight in Kolkata on the next local day', () => {
+      // 00:30 IST on 10 March, still 9 March in UTC
+      const result = calculateStreak(['2026-03-09T19:00:00Z'], {
+        timeZone: 'Asia/Kolkata',
+        now: new Date('2026-03-10T05:00:00Z'),
+      });
+
+      expect(result.lastEntryDate).toBe('2026-03-10');
+      expect(result.today).toBe('2026-03-10');
+      expect(result.status).toBe('current');
+      expect(result.current).toBe(1);
+    });
+
+    it('counts late-evening entries in Kolkata on consecutive local days', () => {
+      const result = calculateStreak(['2026-03-08T17:00:00Z', '2026-03-09T17:00:00Z'], {
+        timeZone: 'Asia/Kolkata',
+        // 23:30 IST on 9 March
+        now: new Date('2026-03-09T18:00:00Z'),
+      });
+
+      expect(result.current).toBe(2);
+      expect(result.status).toBe('current');
+    });
+
+    it('keeps a late-evening entry in Los Angeles on the local day', () => {
+      // 23:30 PDT on 9 March is already 10 March in UTC
+      const result = calculateStreak(['2026-03-10T06:30:00Z'], {
+        timeZone: 'America/Los_Angeles',
+        now: new Date('2026-03-10T06:45:00Z'),
+      });
+
+      expect(result.lastEntryDate).toBe('2026-03-09');
+      expect(result.today).toBe('2026-03-09');
+      expect(result.status).toBe('current');
+    });
+
+    it('splits entries that share a UTC date across local days', () => {
+      // 17:00 and 23:30 PDT on 9 March, then 00:30 PDT on 10 March
+      const result = calculateStreak(['2026-03-10T00:00:00Z', '2026-03-10T06:30:00Z', '2026-03-10T07:30:00Z'], {
+        timeZone: 'America/Los_Angeles',
+        now: new Date('2026-03-10T20:00:00Z'),
+      });
+
+      expect(result.current).toBe(2);
+    });
+  });
+
+  describe('freeze days', () => {
+    const entries = ['2026-05-01', '2026-05-02', '2026-05-04', '2026-05-05'].map(noon);
+    const options = { timeZone: 'UTC', now: new Date(noon('2026-05-05')) };
+
+    it('bridges a gap without adding to the count', () => {
+      const result = calculateStreak(entries, { ...options, freezeDays: ['2026-05-03'] });
+
+      expect(result.current).toBe(4);
+      expect(result.longest).toBe(4);
+    });
+
+    it('breaks the streak at the gap without one', () => {
+      const result = calculateStreak(entries, options);
+
+      expect(result.current).toBe(2);
+      expect(result.longest).toBe(2);
+    });
+
+    it('needs every missed day frozen', () => {
+      const gapped = ['2026-05-01', '2026-05-04'].map(noon);
+      const result = calculateStreak(gapped, {
+        timeZone: 'UTC',
+        now: new Date(noon('2026-05-04')),
+        freezeDays: ['2026-05-02'],
+      });
+
+      expect(result.current).toBe(1);
+    });
+
+    it('reports a frozen today and keeps the streak alive', () => {
+      const result = calculateStreak(['2026-05-03', '2026-05-04'].map(noon), {
+        timeZone: 'UTC',
+        now: new Date(noon('2026-05-05')),
+        freezeDays: ['2026-05-05'],
+      });
+
+      expect(result.status).toBe('frozen');
+      expect(result.current).toBe(2);
+    });
+  });
+
+  describe('status for today', () => {
+    it('is pending when yesterday was logged but today is not yet', () => {
+      const result = calculateStreak(['2026-05-03', '2026-05-04'].map(noon), {
+        timeZone: 'UTC',
+        now: new Date(noon('2026-05-05')),
+      });
+
+      expect(result.status).toBe('pending');
+      expect(result.current).toBe(2);
+    });
+
+    it('is broken when the last entry is two days old', () => {
+      const result = calculateStreak(['2026-05-02', '2026-05-03'].map(noon), {
+        timeZone: 'UTC',
+        now: new Date(noon('2026-05-05')),
+      });
+
+      expect(result.status).toBe('broken');
+      expect(result.current).toBe(0);
+      expect(result.longest).toBe(2);
+    });
+
+    it('is none without entries', () => {
+      const result = calculateStreak([], { timeZone: 'UTC', now: new Date(noon('2026-05-05')) });
+
+      expect(result).toMatchObject({ current: 0, longest: 0, lastEntryDate: null, status: 'none' });
+    });
+  });
+
+  describe('longest streak', () => {
+    it('finds the longest earlier run', () => {
+      const entries = [
+        '2026-04-01', '2026-04-02', '2026-04-03',
+        '2026-04-10', '2026-04-11', '2026-04-12', '2026-04-13', '2026-04-14',
+        '2026-04-20', '2026-04-21',
+      ].map(noon);
+      const result = calculateStreak(entries, { timeZone: 'UTC', now: new Date(noon('2026-04-21')) });
+
+      expect(result.current).toBe(2);
+      expect(result.longest).toBe(5);
+    });
+
+    it('counts several entries on one day once', () => {
+      const entries = ['2026-04-01T08:00:00Z', '2026-04-01T20:00:00Z', noon('2026-04-02')];
+      const result = calculateStreak(entries, { timeZone: 'UTC', now: new Date(noon('2026-04-02')) });
+
+      expect(result.longest).toBe(2);
+    });
+
+    it('is never shorter than the current streak', () => {
+      const entries = ['2026-04-01', '2026-04-02', '2026-04-03'].map(noon);
+      const result = calculateStreak(entries, { timeZone: 'UTC', now: new Date(noon('2026-04-03')) });
+
+      expect(result.longest).toBe(result.current);
+      expect(result.longest).toBe(3);
+    });
+  });
+});
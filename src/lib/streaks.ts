@@ -0,0 +1,101 @@
+import { addDays, toZoned } from './reminders';
+
+// Streaks count calendar days in the user's own time zone, so an entry at
+// 11pm in Kolkata or California lands on the day the user saw on the clock.
+// Freeze days are days off the user set aside: they neither add to a streak
+// nor break it.
+
+export const STREAK_MILESTONES = [7, 14, 30, 60, 100, 365];
+export const MAX_FREEZES_PER_MONTH = 2;
+
+// pending: nothing logged today yet, but the streak is still alive
+export type StreakStatus = 'none' | 'current' | 'frozen' | 'pending' | 'broken';
+
+export interface StreakResult {
+  // Logged days in the running streak; freeze days bridge it but don't count
+  current: number;
+  longest: number;
+  // Calendar date of the latest entry, YYYY-MM-DD in the user's zone
+  lastEntryDate: string | null;
+  status: StreakStatus;
+  today: string;
+}
+
+interface StreakOptions {
+  timeZone: string;
+  now?: Date;
+  // YYYY-MM-DD dates in the user's zone
+  freezeDays?: string[];
+}
+
+export const calculateStreak = (
+  timestamps: string[],
+  { timeZone, now = new Date(), freezeDays = [] }: StreakOptions
+): StreakResult => {
+  const today = toZoned(now, timeZone).date;
+  const logged = new Set(timestamps.map(timestamp => toZoned(new Date(timestamp), timeZone).date));
+  const frozen = new Set(freezeDays.filter(day => !logged.has(day)));
+  const days = Array.from(logged).sort();
+
+  if (days.length === 0) {
+    return { current: 0, longest: 0, lastEntryDate: null, status: 'none', today };
+  }
+
+  // Longest run, letting frozen gaps join the runs either side
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < days.length; i++) {
+    let day = addDays(days[i - 1], 1);
+    while (day < days[i] && frozen.has(day)) day = addDays(day, 1);
+    run = day === days[i] ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  // Today only counts once logged; until then it can't break the streak
+  let current = 0;
+  let day = logged.has(today) ? today : addDays(today, -1);
+  const first = days[0];
+  while (day >= first) {
+    if (logged.has(day)) {
+      current++;
+    } else if (!frozen.has(day)) {
+      break;
+    }
+    day = addDays(day, -1);
+  }
+
+  let status: StreakStatus;
+  if (logged.has(today)) status = 'current';
+  else if (frozen.has(today)) status = 'frozen';
+  else status = current > 0 ? 'pending' : 'broken';
+
+  return {
+    current,
+    longest: Math.max(longest, current),
+    lastEntryDate: days[days.length - 1],
+    status,
+    today,
+  };
+};
+
+export const nextMilestone = (current: number): { days: number; milestone: number } | null => {
+  const milestone = STREAK_MILESTONES.find(m => m > current);
+  return milestone ? { days: milestone - current, milestone } : null;
+};
+
+export const streakEmoji = (current: number): string => {
+  if (current === 0) return '🌱';
+  if (current < 7) return '🔥';
+  if (current < 30) return '⚡';
+  if (current < 100) return '🏆';
+  return '👑';
+};
+
+// Freezes left in the calendar month of `day`
+export const freezesLeft = (freezeDays: string[], day: string): number =>
+  Math.max(0, MAX_FREEZES_PER_MONTH - freezeDays.filter(d => d.slice(0, 7) === day.slice(0, 7)).length);
+
+// Old freeze days no longer matter once they're outside the streak window;
+// keep the stored list from growing without bound
+export const pruneFreezeDays = (freezeDays: string[], today: string): string[] =>
+  freezeDays.filter(day => day >= addDays(today, -366)).sort();
@@ -0,0 +1,87 @@
+import { t } from '../i18n';
+import { getLLMProvider } from '../llm';
+
+export interface ProposedStep {
+  title: string;
+  // null when the model gave no usable estimate
+  estimate_minutes: number | null;
+}
+
+export interface BreakdownInput {
+  title: string;
+  description?: string | null;
+  // Steps the user already has, so the proposal doesn't repeat them
+  existingSteps?: string[];
+}
+
+const MAX_STEPS = 8;
+const MAX_ESTIMATE_MINUTES = 240;
+
+const BREAKDOWN_PROMPT = `You help people with ADHD start tasks that feel too big or vague.
+Break the task into small, concrete, physical next actions in the order they should be done.
+
+Rules:
+- Each step starts with a verb and is something that can be done in one sitting ("Find last year's P60 in the email inbox")
+- Keep the first step tiny, so it is easy to begin
+- Estimate realistic minutes per step; most steps should take 5 to 30 minutes
+- Between 3 and ${MAX_STEPS} steps; no step should just restate the task
+- Match the language the task is written in
+
+Return only JSON: {"steps": [{"title": "...", "minutes": 15}]}`;
+
+const toMinutes = (value: unknown): number | null => {
+  const minutes = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  if (!Number.isFinite(minutes) || minutes <= 0) return null;
+  return Math.min(Math.round(minutes), MAX_ESTIMATE_MINUTES);
+};
+
+// Proposes subtasks for a task. Returns null when no AI provider is
+// configured; throws when the provider fails.
+export const breakDownTask = async ({ title, description, existingSteps = [] }: BreakdownInput): Promise<ProposedStep[] | null> => {
+  const provider = getLLMProvider();
+  if (!provider) return null;
+
+  const details = [
+    `Task: ${title}`,
+    description ? `Details: ${description}` : null,
+    existingSteps.length > 0 ? `Steps already planned (do not repeat):\n${existingSteps.map(s => `- ${s}`).join('\n')}` : null,
+  ].filter(Boolean).join('\n\n');
+
+  const response = await provider.generate({
+    messages: [
+      { role: 'system', content: BREAKDOWN_PROMPT },
+      { role: 'user', content: details },
+    ],
+    temperature: 0.4,
+    json: true,
+  });
+
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return [];
+
+  const data = JSON.parse(jsonMatch[0]);
+  if (!Array.isArray(data.steps)) return [];
+
+  const seen = new Set(existingSteps.map(s => s.toLowerCase().trim()));
+  const steps: ProposedStep[] = [];
+
+  for (const step of data.steps) {
+    const stepTitle = typeof step === 'string' ? step.trim() : typeof step?.title === 'string' ? step.title.trim() : '';
+    if (!stepTitle || seen.has(stepTitle.toLowerCase())) continue;
+
+    seen.add(stepTitle.toLowerCase());
+    steps.push({
+      title: stepTitle.slice(0, 200),
+      estimate_minutes: toMinutes(step?.minutes ?? step?.estimate_minutes),
+    });
+  }
+
+  return steps.slice(0, MAX_STEPS);
+};
+
+export const formatEstimate = (minutes: number): string => {
+  if (minutes < 60) return t('tasks.estimateMinutes', { minutes });
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? t('tasks.estimateHoursMinutes', { hours, minutes: rest }) : t('tasks.estimateHours', { hours });
+};
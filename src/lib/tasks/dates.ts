@@ -0,0 +1,9 @@
+import { format } from 'date-fns';
+
+// datetime-local inputs work in local time without an offset; tasks store
+// UTC instants
+export const toLocalInput = (value: string | null): string =>
+  value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '';
+
+export const fromLocalInput = (value: string): string | null =>
+  value ? new Date(value).toISOString() : null;
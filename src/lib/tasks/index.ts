@@ -0,0 +1,14 @@
+export type { NextOccurrence, NextOccurrenceOptions, RecurrenceFrequency, RecurrenceRule } from './recurrence';
+export {
+  RECURRENCE_PRESETS,
+  WEEKDAY_CODES,
+  describeRecurrence,
+  formatRecurrence,
+  nextOccurrence,
+  parseRecurrence,
+} from './recurrence';
+export { fromLocalInput, toLocalInput } from './dates';
+export type { BreakdownInput, ProposedStep } from './breakdown';
+export { breakDownTask, formatEstimate } from './breakdown';
+export type { QuickAddOptions, QuickAddResult, TaskPriority } from './quickAdd';
+export { parseQuickAdd } from './quickAdd';
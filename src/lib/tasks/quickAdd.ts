@@ -0,0 +1,240 @@
+import { addDays, fromZoned, toZoned } from '../reminders';
+
+export type TaskPriority = 'low' | 'medium' | 'high';
+
+export interface QuickAddResult {
+  title: string;
+  priority: TaskPriority | null;
+  category: string | null;
+  // UTC instant, resolved in the user's time zone
+  due_date: string | null;
+  // Whether a time of day was given, or only a day
+  has_time: boolean;
+}
+
+export interface QuickAddOptions {
+  timeZone: string;
+  now?: Date;
+}
+
+// Days without a time are due at the end of the day
+const END_OF_DAY = 23 * 60 + 59;
+
+const PRIORITIES: Record<string, TaskPriority> = {
+  high: 'high', h: 'high', urgent: 'high', '!!': 'high',
+  medium: 'medium', med: 'medium', m: 'medium', normal: 'medium',
+  low: 'low', l: 'low',
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+// Short names are ordinary words too ("sun cream", "I sat with"), so they
+// only count after "on", "this" or "next"
+const WEEKDAY_PATTERN =
+  '(sunday|monday|tuesday|wednesday|thursday|friday|saturday|(?<=\\b(?:on|this|next)\\s+)(?:sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)\\b)';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = '(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+
+const PARTS_OF_DAY: Record<string, number> = {
+  morning: 9 * 60,
+  noon: 12 * 60,
+  midday: 12 * 60,
+  afternoon: 14 * 60,
+  evening: 18 * 60,
+  tonight: 20 * 60,
+  night: 20 * 60,
+  midnight: END_OF_DAY,
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Weekday (0 = Sunday) of a YYYY-MM-DD date
+const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+interface Draft {
+  text: string;
+  date: string | null;
+  minutes: number | null;
+  // Offset from now for "in 2 hours"
+  offsetMs: number | null;
+  // "at 9" could be morning or evening
+  ambiguousHour: boolean;
+}
+
+// Removes the first match of `pattern` and hands its groups to `apply`
+const take = (draft: Draft, pattern: RegExp, apply: (match: RegExpExecArray) => boolean | void) => {
+  const match = pattern.exec(draft.text);
+  if (!match) return;
+  if (apply(match) === false) return;
+  draft.text = `${draft.text.slice(0, match.index)} ${draft.text.slice(match.index + match[0].length)}`;
+};
+
+const parseTime = (hourText: string, minuteText: string | undefined, meridiem: string | undefined): number | null => {
+  let hours = Number(hourText);
+  const minutes = minuteText ? Number(minuteText) : 0;
+  if (minutes > 59) return null;
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    const pm = meridiem.toLowerCase().startsWith('p');
+    hours = (hours % 12) + (pm ? 12 : 0);
+  } else if (hours > 23) {
+    return null;
+  }
+  return hours * 60 + minutes;
+};
+
+// Parses quick-add text such as "call dentist tomorrow 3pm !high #health".
+// Supports !priority, #category, today/tonight/tomorrow, weekdays ("friday",
+// "on fri", "next mon"), "in 3 days", dates ("25 oct", "oct 25", "2026-10-25")
+// and times ("3pm", "15:30", "at 9", "noon", "evening").
+export const parseQuickAdd = (input: string, { timeZone, now = new Date() }: QuickAddOptions): QuickAddResult => {
+  const draft: Draft = { text: ` ${input} `, date: null, minutes: null, offsetMs: null, ambiguousHour: false };
+  const today = toZoned(now, timeZone);
+  let priority: TaskPriority | null = null;
+  let category: string | null = null;
+
+  take(draft, /\s!(!!|[a-z]+)(?=\s)/i, match => {
+    const value = PRIORITIES[match[1].toLowerCase()];
+    if (!value) return false;
+    priority = value;
+  });
+  if (!priority) {
+    take(draft, /\s(!{1,3})(?=\s)/, match => {
+      priority = match[1].length === 3 ? 'high' : match[1].length === 2 ? 'medium' : 'low';
+    });
+  }
+
+  take(draft, /\s#([\p{L}\p{N}_-]+)(?=\s)/u, match => {
+    category = match[1].toLowerCase();
+  });
+
+  // Relative offsets
+  take(draft, /\sin\s+(\d+|an?|one)\s+(minute|min|hour|hr|day|week|month)s?(?=\s)/i, match => {
+    const amount = /^\d+$/.test(match[1]) ? Number(match[1]) : 1;
+    const unit = match[2].toLowerCase();
+    if (unit.startsWith('min') || unit.startsWith('h')) {
+      draft.offsetMs = amount * (unit.startsWith('h') ? 60 : 1) * 60 * 1000;
+    } else if (unit === 'day') {
+      draft.date = addDays(today.date, amount);
+    } else if (unit === 'week') {
+      draft.date = addDays(today.date, amount * 7);
+    } else {
+      const [y, m, d] = today.date.split('-').map(Number);
+      const target = new Date(Date.UTC(y, m - 1 + amount, 1));
+      const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+      draft.date = `${target.getUTCFullYear()}-${pad(target.getUTCMonth() + 1)}-${pad(Math.min(d, lastDay))}`;
+    }
+  });
+
+  // Explicit dates
+  take(draft, /\s(?:on\s+)?(\d{4})-(\d{2})-(\d{2})(?=\s)/, match => {
+    draft.date = `${match[1]}-${match[2]}-${match[3]}`;
+  });
+  if (!draft.date) {
+    const resolveMonthDay = (monthText: string, dayText: string) => {
+      const month = MONTHS.indexOf(monthText.toLowerCase().slice(0, 3));
+      const day = Number(dayText);
+      if (month < 0 || day < 1 || day > 31) return false;
+      let year = Number(today.date.slice(0, 4));
+      // A date that has passed this year means next year
+      if (`${year}-${pad(month + 1)}-${pad(day)}` < today.date) year++;
+      draft.date = `${year}-${pad(month + 1)}-${pad(day)}`;
+    };
+    take(draft, new RegExp(`\\s(?:on\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?=\\s)`, 'i'),
+      match => resolveMonthDay(match[2], match[1]));
+    if (!draft.date) {
+      take(draft, new RegExp(`\\s(?:on\\s+)?${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?=\\s)`, 'i'),
+        match => resolveMonthDay(match[1], match[2]));
+    }
+  }
+
+  // Relative days
+  if (!draft.date) {
+    take(draft, /\s(?:the\s+)?day\s+after\s+tomorrow(?=\s)/i, () => {
+      draft.date = addDays(today.date, 2);
+    });
+  }
+  if (!draft.date) {
+    take(draft, /\s(today|tonight|tomorrow|tmrw|tmr|tomorow)(?=\s)/i, match => {
+      const word = match[1].toLowerCase();
+      draft.date = word === 'today' || word === 'tonight' ? today.date : addDays(today.date, 1);
+      if (word === 'tonight') draft.minutes = PARTS_OF_DAY.tonight;
+    });
+  }
+  if (!draft.date) {
+    take(draft, /\snext\s+week(?=\s)/i, () => {
+      // The coming Monday
+      draft.date = addDays(today.date, ((8 - weekdayOf(today.date)) % 7) || 7);
+    });
+  }
+  if (!draft.date) {
+    take(draft, new RegExp(`\\s(?:(on|this|next)\\s+)?${WEEKDAY_PATTERN}(?=\\s)`, 'i'), match => {
+      const target = WEEKDAYS.findIndex(day => day.startsWith(match[2].toLowerCase().slice(0, 3)));
+      let days = (target - weekdayOf(today.date) + 7) % 7;
+      // "next friday" on a Wednesday is Friday of next week
+      if (match[1]?.toLowerCase() === 'next') days += 7;
+      else if (days === 0 && match[1]?.toLowerCase() !== 'this') days = 7;
+      draft.date = addDays(today.date, days);
+    });
+  }
+
+  // Times of day
+  take(draft, /\s(?:at\s+|@\s*)?(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)(?=\s)/i, match => {
+    const minutes = parseTime(match[1], match[2], match[3]);
+    if (minutes === null) return false;
+    draft.minutes = minutes;
+  });
+  if (draft.minutes === null) {
+    take(draft, /\s(?:at\s+|@\s*)?([01]?\d|2[0-3]):([0-5]\d)(?=\s)/, match => {
+      draft.minutes = parseTime(match[1], match[2], undefined);
+    });
+  }
+  if (draft.minutes === null) {
+    // "at 3" means 3 o'clock during waking hours
+    take(draft, /\s(?:at|@)\s*(\d{1,2})(?=\s)/i, match => {
+      const hour = Number(match[1]);
+      if (hour < 1 || hour > 23) return false;
+      draft.minutes = (hour < 8 ? hour + 12 : hour) * 60;
+      draft.ambiguousHour = hour <= 12;
+    });
+  }
+  if (draft.minutes === null) {
+    take(draft, /\s(?:in\s+the\s+|this\s+|at\s+)?(morning|noon|midday|afternoon|evening|night|midnight)(?=\s)/i, match => {
+      draft.minutes = PARTS_OF_DAY[match[1].toLowerCase()];
+    });
+  }
+
+  let dueDate: Date | null = null;
+  if (draft.offsetMs !== null) {
+    dueDate = new Date(now.getTime() + draft.offsetMs);
+  } else if (draft.date || draft.minutes !== null) {
+    let date = draft.date ?? today.date;
+    // Without a day, "at 9" at 3pm means 9 tonight rather than tomorrow morning
+    if (!draft.date && draft.ambiguousHour && draft.minutes !== null && draft.minutes < 12 * 60 &&
+        draft.minutes <= today.minutes && draft.minutes + 12 * 60 > today.minutes) {
+      draft.minutes += 12 * 60;
+    }
+    // A time on its own means its next occurrence
+    if (!draft.date && draft.minutes !== null && draft.minutes <= today.minutes) {
+      date = addDays(date, 1);
+    }
+    dueDate = fromZoned(date, draft.minutes ?? END_OF_DAY, timeZone);
+  }
+
+  const title = draft.text
+    .replace(/\s+/g, ' ')
+    .trim()
+    // Connectives left dangling once a date was taken out
+    .replace(/\s+(?:on|at|by|due|for|from)$/i, '')
+    .replace(/^(?:on|at|by|due)\s+/i, '')
+    .trim();
+
+  return {
+    title,
+    priority,
+    category,
+    due_date: dueDate ? dueDate.toISOString() : null,
+    has_time: draft.offsetMs !== null || draft.minutes !== null,
+  };
+};
@@ -0,0 +1,222 @@
+import { formatDate, t } from '../i18n';
+import type { MessageKey } from '../i18n';
+import { addDays, fromZoned, toZoned } from '../reminders';
+
+// A small RRULE (RFC 5545) subset for repeating tasks: FREQ, INTERVAL, BYDAY
+// (weekly only), COUNT and UNTIL. Occurrences are computed on the wall clock of
+// the profile time zone, so "every day at 9" stays at 9 across DST changes and
+// doesn't depend on the zone the device happens to be in.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  // 0 = Sunday, as Date.getDay()
+  byDay: number[];
+  // Occurrences left including the current one
+  count: number | null;
+  until: Date | null;
+}
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+
+export const RECURRENCE_PRESETS = [
+  { value: 'FREQ=DAILY', label: 'recurrence.presetDaily' },
+  { value: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR', label: 'recurrence.presetWeekdays' },
+  { value: 'FREQ=WEEKLY', label: 'recurrence.presetWeekly' },
+  { value: 'FREQ=WEEKLY;INTERVAL=2', label: 'recurrence.presetBiweekly' },
+  { value: 'FREQ=MONTHLY', label: 'recurrence.presetMonthly' },
+] as const;
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+// Guards against rules that can never produce a later date
+const MAX_STEPS = 1000;
+
+const parseUntil = (value: string): Date | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) return null;
+  const [, y, mo, d, h = '23', mi = '59', s = '59', utc] = match;
+  const date = utc
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// null when the rule is missing, malformed or uses parts we don't support
+export const parseRecurrence = (value: string | null | undefined): RecurrenceRule | null => {
+  if (!value?.trim()) return null;
+
+  const rule: RecurrenceRule = { freq: 'DAILY', interval: 1, byDay: [], count: null, until: null };
+  let hasFreq = false;
+
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue;
+    const [rawKey, rawValue = ''] = part.split('=');
+    const key = rawKey.toUpperCase();
+    const val = rawValue.toUpperCase();
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(val as RecurrenceFrequency)) return null;
+        rule.freq = val as RecurrenceFrequency;
+        hasFreq = true;
+        break;
+      case 'INTERVAL': {
+        const interval = Number(val);
+        if (!Number.isInteger(interval) || interval < 1) return null;
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY': {
+        const days = val.split(',').map(code => WEEKDAY_CODES.indexOf(code as typeof WEEKDAY_CODES[number]));
+        if (days.some(day => day < 0)) return null;
+        rule.byDay = Array.from(new Set(days)).sort();
+        break;
+      }
+      case 'COUNT': {
+        const count = Number(val);
+        if (!Number.isInteger(count) || count < 1) return null;
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL':
+        rule.until = parseUntil(val);
+        if (!rule.until) return null;
+        break;
+      case 'WKST':
+        break;
+      default:
+        return null;
+    }
+  }
+
+  if (!hasFreq) return null;
+  // BYDAY is only meaningful for weekly rules in this subset
+  if (rule.byDay.length > 0 && rule.freq !== 'WEEKLY') return null;
+  return rule;
+};
+
+export const formatRecurrence = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.map(day => WEEKDAY_CODES[day]).join(',')}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  return parts.join(';');
+};
+
+// Calendar dates below are YYYY-MM-DD strings in the profile time zone
+const weekday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const addMonths = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1 + months, 1));
+  // 31 Jan + 1 month is the last day of February, not 3 March
+  const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(day, lastDay));
+  return next.toISOString().slice(0, 10);
+};
+
+const startOfWeek = (date: string) => addDays(date, -weekday(date));
+
+const weeksBetween = (a: string, b: string) =>
+  Math.round((Date.parse(startOfWeek(b)) - Date.parse(startOfWeek(a))) / (7 * 24 * 60 * 60 * 1000));
+
+const monthsBetween = (a: string, b: string) =>
+  (Number(b.slice(0, 4)) - Number(a.slice(0, 4))) * 12 + Number(b.slice(5, 7)) - Number(a.slice(5, 7));
+
+// The occurrence date after `from` in the series that `anchor` belongs to
+const step = (rule: RecurrenceRule, anchor: string, from: string): string => {
+  switch (rule.freq) {
+    case 'DAILY':
+      return addDays(from, rule.interval);
+    case 'WEEKLY': {
+      if (rule.byDay.length === 0) {
+        return addDays(from, 7 * rule.interval);
+      }
+      let next = from;
+      for (let i = 0; i < 7 * rule.interval + 7; i++) {
+        next = addDays(next, 1);
+        if (rule.byDay.includes(weekday(next)) && weeksBetween(anchor, next) % rule.interval === 0) {
+          return next;
+        }
+      }
+      return next;
+    }
+    case 'MONTHLY':
+      return addMonths(anchor, rule.interval * (Math.round(monthsBetween(anchor, from) / rule.interval) + 1));
+    case 'YEARLY':
+      return addMonths(anchor, 12 * rule.interval * (Math.round(monthsBetween(anchor, from) / (12 * rule.interval)) + 1));
+  }
+};
+
+export interface NextOccurrence {
+  date: Date;
+  // The rule to carry onto the next task (COUNT is decremented)
+  rule: string;
+}
+
+export interface NextOccurrenceOptions {
+  timeZone: string;
+  // Usually now
+  after?: Date;
+}
+
+// The first occurrence after `after`, so completing a task late doesn't leave
+// a pile of past-due copies. null once the series has ended.
+export const nextOccurrence = (
+  value: string | null | undefined,
+  current: Date,
+  { timeZone, after = current }: NextOccurrenceOptions
+): NextOccurrence | null => {
+  const rule = parseRecurrence(value);
+  if (!rule) return null;
+  if (rule.count !== null && rule.count <= 1) return null;
+
+  const anchor = toZoned(current, timeZone);
+  const at = (date: string) => fromZoned(date, anchor.minutes, timeZone);
+
+  let date = step(rule, anchor.date, anchor.date);
+  for (let i = 0; i < MAX_STEPS && at(date).getTime() <= after.getTime(); i++) {
+    date = step(rule, anchor.date, date);
+  }
+  const next = at(date);
+  if (next.getTime() <= after.getTime()) return null;
+  if (rule.until && next.getTime() > rule.until.getTime()) return null;
+
+  return {
+    date: next,
+    rule: formatRecurrence({ ...rule, count: rule.count !== null ? rule.count - 1 : null }),
+  };
+};
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, MessageKey> = {
+  DAILY: 'recurrence.everyDay',
+  WEEKLY: 'recurrence.everyWeek',
+  MONTHLY: 'recurrence.everyMonth',
+  YEARLY: 'recurrence.everyYear',
+};
+
+// Short weekday name in the current language; 4 January 2026 is a Sunday
+const dayName = (day: number) => formatDate(new Date(2026, 0, 4 + day), 'EEE');
+
+export const describeRecurrence = (value: string | null | undefined): string | null => {
+  const rule = parseRecurrence(value);
+  if (!rule) return null;
+
+  const preset = RECURRENCE_PRESETS.find(p => p.value === formatRecurrence(rule));
+  let text = preset ? t(preset.label) : t(FREQUENCY_LABELS[rule.freq], { count: rule.interval });
+
+  if (!preset && rule.byDay.length > 0) {
+    text = t('recurrence.onDays', { rule: text, days: rule.byDay.map(dayName).join(t('common.listSeparator')) });
+  }
+  if (rule.count !== null) {
+    text = t('recurrence.timesLeft', { rule: text, count: rule.count });
+  }
+  if (rule.until) {
+    text = t('recurrence.until', { rule: text, date: formatDate(rule.until, 'P') });
+  }
+  return text;
+};
@@ -0,0 +1,44 @@
+/*
+  # Opt-in saved Voice AI conversations
+
+  1. Changes
+    - Add save_conversations to user_settings (defaults to false so chats stay private)
+    - Keep chat_sessions.updated_at current so recently used chats sort first
+
+  2. Security
+    - Maintain existing RLS policies on chat_sessions and chat_messages
+*/
+
+-- Add save_conversations field to user_settings table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'save_conversations'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN save_conversations boolean DEFAULT false;
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS update_chat_sessions_updated_at ON chat_sessions;
+CREATE TRIGGER update_chat_sessions_updated_at
+  BEFORE UPDATE ON chat_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Function to bump the parent session when a message is added
+CREATE OR REPLACE FUNCTION touch_chat_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE chat_sessions SET updated_at = now() WHERE id = NEW.session_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_chat_session_trigger ON chat_messages;
+CREATE TRIGGER touch_chat_session_trigger
+  AFTER INSERT ON chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_chat_session();
+
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_updated_at ON chat_sessions(user_id, updated_at DESC);
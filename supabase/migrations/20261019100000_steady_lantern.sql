@@ -0,0 +1,40 @@
+/*
+  # Safety events
+
+  1. New Tables
+    - `safety_events`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `source` (text) - chat, voice or video
+      - `risk_level` (text) - elevated or high
+      - `categories` (text[]) - e.g. suicidal_ideation, self_harm
+      - `detection_method` (text) - rules engine or LLM classifier
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `safety_events`
+    - Users can only see and manage their own events
+    - Message content is never stored, only the classification
+*/
+
+CREATE TABLE IF NOT EXISTS safety_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  source text NOT NULL CHECK (source IN ('chat', 'voice', 'video')),
+  risk_level text NOT NULL CHECK (risk_level IN ('elevated', 'high')),
+  categories text[] DEFAULT '{}',
+  detection_method text NOT NULL CHECK (detection_method IN ('rules', 'llm')),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE safety_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own safety events"
+  ON safety_events
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_safety_events_user_id ON safety_events(user_id);
+CREATE INDEX IF NOT EXISTS idx_safety_events_created_at ON safety_events(created_at);
@@ -0,0 +1,62 @@
+/*
+  # Long-term conversation memory
+
+  1. New Tables
+    - `memory_facts`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `content` (text) - one remembered fact, e.g. "User's exam is on Friday 23 October"
+      - `category` (text) - person, event, preference, goal, health or other
+      - `session_id` (uuid, references chat_sessions) - conversation the fact came from
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Changes
+    - Add `memory_summarized_at` to chat_sessions so each finished chat is summarised once
+    - chat_sessions.updated_at now only follows new messages, so summarising or
+      renaming a chat does not move it to the top of the list
+
+  3. Security
+    - Enable RLS on `memory_facts`
+    - Users can only see, edit and delete their own facts
+*/
+
+CREATE TABLE IF NOT EXISTS memory_facts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  content text NOT NULL,
+  category text DEFAULT 'other' CHECK (category IN ('person', 'event', 'preference', 'goal', 'health', 'other')),
+  session_id uuid REFERENCES chat_sessions(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE memory_facts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own memory facts"
+  ON memory_facts
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_memory_facts_user_id ON memory_facts(user_id);
+
+DROP TRIGGER IF EXISTS update_memory_facts_updated_at ON memory_facts;
+CREATE TRIGGER update_memory_facts_updated_at
+  BEFORE UPDATE ON memory_facts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add memory_summarized_at field to chat_sessions table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'chat_sessions' AND column_name = 'memory_summarized_at'
+  ) THEN
+    ALTER TABLE chat_sessions ADD COLUMN memory_summarized_at timestamptz;
+  END IF;
+END $$;
+
+-- touch_chat_session_trigger keeps updated_at in step with new messages
+DROP TRIGGER IF EXISTS update_chat_sessions_updated_at ON chat_sessions;
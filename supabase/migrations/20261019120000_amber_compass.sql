@@ -0,0 +1,96 @@
+/*
+  # Versioned AI report schema
+
+  1. Changes
+    - Add `report` (jsonb) to session_reports - the whole report in the shared,
+      versioned shape used for chat, mood and video session reports
+    - Add `schema_version` (integer) to session_reports - 0 for rows that only
+      have the old insights / mood_analysis / engagement_metrics columns
+
+  2. Data
+    - Existing rows are converted into `report` with schema_version 1
+    - Values outside the allowed options fall back to safe defaults
+    - The fixed placeholder metrics written by the built-in report generators
+      (response time "2.3s", satisfaction and AI quality scores) are dropped,
+      and those rows are marked as heuristic rather than AI reports
+    - The old columns are left in place so nothing is lost
+*/
+
+-- Add report and schema_version fields to session_reports table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'session_reports' AND column_name = 'report'
+  ) THEN
+    ALTER TABLE session_reports ADD COLUMN report jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'session_reports' AND column_name = 'schema_version'
+  ) THEN
+    ALTER TABLE session_reports ADD COLUMN schema_version integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+-- Convert pre-schema rows
+WITH legacy AS (
+  SELECT
+    id,
+    generated_at,
+    COALESCE(insights, '{}'::jsonb) AS insights,
+    COALESCE(mood_analysis, '{}'::jsonb) AS mood,
+    COALESCE(engagement_metrics, '{}'::jsonb) AS metrics,
+    CASE WHEN jsonb_typeof(recommendations) = 'array' THEN recommendations ELSE '[]'::jsonb END AS recommendations,
+    COALESCE(engagement_metrics->>'average_response_time' = '2.3s', false) AS is_placeholder
+  FROM session_reports
+  WHERE report IS NULL
+)
+UPDATE session_reports r
+SET
+  schema_version = 1,
+  report = jsonb_build_object(
+    'schema_version', 1,
+    'source', 'video_session',
+    'method', CASE WHEN l.is_placeholder THEN 'heuristic' ELSE 'llm' END,
+    'generated_at', l.generated_at,
+    'mood', jsonb_build_object(
+      'overall', CASE WHEN l.mood->>'overall_sentiment' IN ('positive', 'neutral', 'negative')
+        THEN l.mood->>'overall_sentiment' ELSE 'neutral' END,
+      'stress_level', CASE WHEN l.mood->>'stress_indicators' IN ('low', 'medium', 'high')
+        THEN l.mood->>'stress_indicators' ELSE 'medium' END,
+      'emotional_state', CASE WHEN l.mood->>'emotional_state' IN ('improving', 'stable', 'concerning')
+        THEN l.mood->>'emotional_state' END,
+      'sentiment_score', NULL,
+      'emotions', '[]'::jsonb
+    ),
+    'summary', '',
+    'key_concerns', '[]'::jsonb,
+    'positive_indicators', '[]'::jsonb,
+    'recommendations', l.recommendations,
+    'confidence', CASE WHEN jsonb_typeof(l.mood->'confidence_score') = 'number'
+      THEN LEAST(GREATEST((l.mood->>'confidence_score')::numeric, 0), 1) ELSE 0.5 END,
+    'engagement', jsonb_build_object(
+      'session_quality', CASE WHEN l.insights->>'session_quality' IN ('excellent', 'good', 'fair', 'brief')
+        THEN l.insights->>'session_quality' ELSE 'brief' END,
+      'engagement_level', CASE WHEN l.insights->>'engagement_level' IN ('high', 'medium', 'low')
+        THEN l.insights->>'engagement_level' ELSE 'low' END,
+      'engagement_quality', CASE WHEN l.mood->>'engagement_quality' IN ('excellent', 'good', 'fair', 'poor')
+        THEN l.mood->>'engagement_quality' END,
+      'technical_issues', CASE WHEN jsonb_typeof(l.insights->'technical_issues') = 'number'
+        THEN round((l.insights->>'technical_issues')::numeric) ELSE 0 END,
+      'interaction_count', CASE WHEN jsonb_typeof(l.insights->'interaction_count') = 'number'
+        THEN round((l.insights->>'interaction_count')::numeric) ELSE 0 END,
+      'completion_rate', CASE WHEN jsonb_typeof(l.metrics->'session_completion_rate') = 'number'
+        THEN LEAST(GREATEST((l.metrics->>'session_completion_rate')::numeric, 0), 100) ELSE 0 END,
+      'average_response_time', CASE WHEN l.is_placeholder THEN NULL ELSE l.metrics->>'average_response_time' END,
+      'user_satisfaction_score', CASE WHEN NOT l.is_placeholder AND jsonb_typeof(l.metrics->'user_satisfaction_score') = 'number'
+        THEN LEAST(GREATEST((l.metrics->>'user_satisfaction_score')::numeric, 0), 5) END,
+      'ai_response_quality', CASE WHEN NOT l.is_placeholder AND jsonb_typeof(l.metrics->'ai_response_quality') = 'number'
+        THEN LEAST(GREATEST((l.metrics->>'ai_response_quality')::numeric, 0), 5) END
+    ),
+    'repairs', jsonb_build_array('converted from the pre-schema report columns')
+  )
+FROM legacy l
+WHERE r.id = l.id;
@@ -0,0 +1,27 @@
+/*
+  # Offline sync support
+
+  1. Changes
+    - Add `updated_at` to mood_entries, kept current by the shared trigger.
+      Offline edits are replayed against the row version they were made on,
+      and conflicting fields are resolved by comparing edit times, so every
+      synced table needs an updated_at column.
+    - Existing entries start with updated_at = created_at
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'mood_entries' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE mood_entries ADD COLUMN updated_at timestamptz DEFAULT now();
+    UPDATE mood_entries SET updated_at = created_at WHERE created_at IS NOT NULL;
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS update_mood_entries_updated_at ON mood_entries;
+CREATE TRIGGER update_mood_entries_updated_at
+  BEFORE UPDATE ON mood_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,85 @@
+/*
+  # Reminder engine
+
+  1. New Tables
+    - `notification_log`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `kind` (text) - task_reminder, mood_reminder or daily_summary
+      - `reminder_key` (text) - one occurrence, e.g. "mood:2026-10-19"
+      - `scheduled_for` (timestamptz) - when it was due, after quiet hours
+      - `delivered_at` (timestamptz)
+    - Replaces the notification tables dropped in calm_field. Reminders are
+      scheduled in the app; a device claims each occurrence here before
+      showing it, so the unique key stops other open devices repeating it.
+
+  2. Changes
+    - Add reminder times and quiet hours to user_settings
+      - `mood_reminder_time` / `daily_summary_time` (text, HH:MM)
+      - `quiet_hours_enabled` (boolean), `quiet_hours_start` / `quiet_hours_end` (text, HH:MM)
+    - All times are wall-clock times in profiles.timezone
+
+  3. Security
+    - Enable RLS on `notification_log`
+    - Users can only see and write their own log
+*/
+
+CREATE TABLE IF NOT EXISTS notification_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('task_reminder', 'mood_reminder', 'daily_summary')),
+  reminder_key text NOT NULL,
+  scheduled_for timestamptz NOT NULL,
+  delivered_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, reminder_key)
+);
+
+ALTER TABLE notification_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own notification log"
+  ON notification_log
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_notification_log_user_delivered ON notification_log(user_id, delivered_at DESC);
+
+-- Add reminder fields to user_settings table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'mood_reminder_time'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN mood_reminder_time text DEFAULT '20:00';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'daily_summary_time'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN daily_summary_time text DEFAULT '09:00';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'quiet_hours_enabled'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN quiet_hours_enabled boolean DEFAULT true;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'quiet_hours_start'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN quiet_hours_start text DEFAULT '22:00';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'quiet_hours_end'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN quiet_hours_end text DEFAULT '08:00';
+  END IF;
+END $$;
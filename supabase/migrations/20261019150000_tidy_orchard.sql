@@ -0,0 +1,72 @@
+/*
+  # Subtasks and recurring tasks
+
+  1. Changes
+    - Add to tasks
+      - `parent_id` (uuid, references tasks) - set on subtasks; deleting a task deletes its subtasks
+      - `position` (integer) - order of subtasks within their task
+      - `recurrence` (text) - RRULE such as "FREQ=WEEKLY;BYDAY=MO,WE". When a
+        recurring task is completed the app creates the next occurrence and
+        moves the rule onto it, so only the latest task in a series carries it
+      - `completed_at` (timestamptz)
+    - Subtasks can't have subtasks of their own, and don't recur
+
+  2. Indexes
+    - `idx_tasks_parent_id` for loading a task's subtasks
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'parent_id'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN parent_id uuid REFERENCES tasks(id) ON DELETE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'position'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN position integer DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'recurrence'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN recurrence text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'completed_at'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN completed_at timestamptz;
+    UPDATE tasks SET completed_at = updated_at WHERE completed = true;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_id ON tasks(parent_id) WHERE parent_id IS NOT NULL;
+
+-- Only one level of nesting, and only top-level tasks repeat
+CREATE OR REPLACE FUNCTION check_task_nesting()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    IF NEW.recurrence IS NOT NULL THEN
+      RAISE EXCEPTION 'Subtasks cannot recur';
+    END IF;
+    IF EXISTS (SELECT 1 FROM tasks WHERE id = NEW.parent_id AND parent_id IS NOT NULL) THEN
+      RAISE EXCEPTION 'Subtasks cannot have subtasks';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_task_nesting_trigger ON tasks;
+CREATE TRIGGER check_task_nesting_trigger
+  BEFORE INSERT OR UPDATE OF parent_id, recurrence ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION check_task_nesting();
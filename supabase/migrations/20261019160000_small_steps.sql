@@ -0,0 +1,17 @@
+/*
+  # Time estimates for tasks
+
+  1. Changes
+    - Add `estimate_minutes` (integer) to tasks. Set on subtasks proposed by
+      the "Break it down" action, and editable by the user.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'estimate_minutes'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN estimate_minutes integer CHECK (estimate_minutes IS NULL OR estimate_minutes > 0);
+  END IF;
+END $$;
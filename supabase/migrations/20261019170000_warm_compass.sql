@@ -0,0 +1,53 @@
+/*
+  # Structured mood check-ins
+
+  1. Changes
+    - Add optional `energy`, `anxiety` and `sleep_quality` ratings (1-10) to
+      mood_entries, alongside the existing overall mood
+    - Add `tags` and `activities` (text[]) for user-defined labels such as
+      "work" or "exercise". Stored lower-case; empty when not given.
+
+  2. Indexes
+    - GIN indexes on tags and activities for filtering entries by label
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'mood_entries' AND column_name = 'energy'
+  ) THEN
+    ALTER TABLE mood_entries ADD COLUMN energy smallint CHECK (energy IS NULL OR energy BETWEEN 1 AND 10);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'mood_entries' AND column_name = 'anxiety'
+  ) THEN
+    ALTER TABLE mood_entries ADD COLUMN anxiety smallint CHECK (anxiety IS NULL OR anxiety BETWEEN 1 AND 10);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'mood_entries' AND column_name = 'sleep_quality'
+  ) THEN
+    ALTER TABLE mood_entries ADD COLUMN sleep_quality smallint CHECK (sleep_quality IS NULL OR sleep_quality BETWEEN 1 AND 10);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'mood_entries' AND column_name = 'tags'
+  ) THEN
+    ALTER TABLE mood_entries ADD COLUMN tags text[] NOT NULL DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'mood_entries' AND column_name = 'activities'
+  ) THEN
+    ALTER TABLE mood_entries ADD COLUMN activities text[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_mood_entries_tags ON mood_entries USING gin(tags);
+CREATE INDEX IF NOT EXISTS idx_mood_entries_activities ON mood_entries USING gin(activities);
@@ -0,0 +1,18 @@
+/*
+  # Streak freeze days
+
+  1. Changes
+    - Add `streak_freeze_days` (date[]) to user_settings: days the user took
+      off from mood tracking. They bridge a streak without counting towards
+      it. Dates are calendar days in the profile's time zone.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'streak_freeze_days'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN streak_freeze_days date[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
@@ -0,0 +1,37 @@
+/*
+  # Achievements
+
+  1. New Tables
+    - `user_achievements`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `achievement_id` (text) - key from the app's achievement definitions,
+        e.g. "tasks_completed:10"
+      - `unlocked_at` (timestamptz)
+    - Achievements themselves are defined in the app. This table is the
+      per-user history of unlocks, so badges stay earned even if the count
+      behind them later drops.
+
+  2. Security
+    - Enable RLS on `user_achievements`
+    - Users can only see and write their own unlocks
+*/
+
+CREATE TABLE IF NOT EXISTS user_achievements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  achievement_id text NOT NULL,
+  unlocked_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, achievement_id)
+);
+
+ALTER TABLE user_achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own achievements"
+  ON user_achievements
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_user_achievements_user_unlocked ON user_achievements(user_id, unlocked_at DESC);
@@ -0,0 +1,45 @@
+/*
+  # Guided exercise sessions
+
+  1. New Tables
+    - `exercise_sessions`
+      - `id` (uuid, primary key) - created on the device so offline sessions keep it
+      - `user_id` (uuid, references auth.users)
+      - `exercise_id` (text) - box_breathing, breathing_4_7_8 or grounding_54321
+      - `duration_seconds` (integer) - time actually spent
+      - `completed` (boolean) - false when stopped early
+      - `created_at` / `updated_at` (timestamptz)
+    - Logged when a breathing or grounding session ends, and shown next to
+      mood entries in the mood history
+
+  2. Security
+    - Enable RLS on `exercise_sessions`
+    - Users can only see and write their own sessions
+*/
+
+CREATE TABLE IF NOT EXISTS exercise_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  exercise_id text NOT NULL,
+  duration_seconds integer NOT NULL DEFAULT 0 CHECK (duration_seconds >= 0),
+  completed boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE exercise_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own exercise sessions"
+  ON exercise_sessions
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_exercise_sessions_user_created ON exercise_sessions(user_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_exercise_sessions_updated_at ON exercise_sessions;
+CREATE TRIGGER update_exercise_sessions_updated_at
+  BEFORE UPDATE ON exercise_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
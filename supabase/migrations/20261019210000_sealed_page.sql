@@ -0,0 +1,45 @@
+/*
+  # Encrypted journal
+
+  1. New Tables
+    - `journal_entries`
+      - `id` (uuid, primary key) - created on the device so offline entries keep it
+      - `user_id` (uuid, references auth.users)
+      - `entry_date` (date) - the day the entry is about, in the user's time zone
+      - `mood_entry_id` (uuid, references mood_entries, nullable) - same-day check-in
+      - `encrypted_content` (text) - AES-GCM ciphertext of the title, body and prompt
+      - `created_at` / `updated_at` (timestamptz)
+    - Entries are encrypted in the browser; the server never sees their text
+
+  2. Security
+    - Enable RLS on `journal_entries`
+    - Users can only see and write their own entries
+*/
+
+CREATE TABLE IF NOT EXISTS journal_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  entry_date date NOT NULL DEFAULT CURRENT_DATE,
+  mood_entry_id uuid REFERENCES mood_entries(id) ON DELETE SET NULL,
+  encrypted_content text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE journal_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own journal entries"
+  ON journal_entries
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_user_date ON journal_entries(user_id, entry_date DESC);
+CREATE INDEX IF NOT EXISTS idx_journal_entries_mood_entry ON journal_entries(mood_entry_id) WHERE mood_entry_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_journal_entries_updated_at ON journal_entries;
+CREATE TRIGGER update_journal_entries_updated_at
+  BEFORE UPDATE ON journal_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,79 @@
+/*
+  # Passphrase-based encryption keys
+
+  1. New Tables
+    - `encryption_keys` (one row per user)
+      - `user_id` (uuid, primary key, references auth.users)
+      - `kdf_salt` (text) - random per-user PBKDF2 salt, base64
+      - `kdf_iterations` (integer) - PBKDF2 rounds used for both secrets
+      - `wrapped_key` (text) - the data key, AES-GCM wrapped by the passphrase key
+      - `recovery_salt` (text) - salt for the recovery code
+      - `recovery_wrapped_key` (text) - the same data key wrapped by the recovery code key
+      - `created_at` / `updated_at` (timestamptz)
+    - The passphrase and recovery code never leave the browser. Changing the
+      passphrase only re-wraps the data key; encrypted rows stay as they are.
+
+  2. Security
+    - Enable RLS on `encryption_keys`
+    - Users can only see and write their own key record
+
+  3. Triggers
+    - Inserts into `encrypted_data` and `journal_entries`, and updates that set
+      `encrypted_content`, are rejected unless the value was written with the
+      data key, so nothing new is readable with the user-id key
+
+  4. Notes
+    - Values in `encrypted_data` and `journal_entries` written with the data
+      key start with "v2:". Older values used a key derived from the user id
+      and are re-encrypted by the client once the user unlocks their key.
+*/
+
+CREATE TABLE IF NOT EXISTS encryption_keys (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  kdf_salt text NOT NULL,
+  kdf_iterations integer NOT NULL CHECK (kdf_iterations >= 100000),
+  wrapped_key text NOT NULL,
+  recovery_salt text NOT NULL,
+  recovery_wrapped_key text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE encryption_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own encryption keys"
+  ON encryption_keys
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_encryption_keys_updated_at ON encryption_keys;
+CREATE TRIGGER update_encryption_keys_updated_at
+  BEFORE UPDATE ON encryption_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Updates that leave encrypted_content alone (e.g. a deleted mood check-in
+-- clearing mood_entry_id) still apply to rows not re-encrypted yet
+CREATE OR REPLACE FUNCTION require_data_key_ciphertext()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.encrypted_content NOT LIKE 'v2:%' THEN
+    RAISE EXCEPTION 'encrypted_content must be encrypted with the data key'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS require_encrypted_data_data_key ON encrypted_data;
+CREATE TRIGGER require_encrypted_data_data_key
+  BEFORE INSERT OR UPDATE OF encrypted_content ON encrypted_data
+  FOR EACH ROW EXECUTE FUNCTION require_data_key_ciphertext();
+
+DROP TRIGGER IF EXISTS require_journal_entries_data_key ON journal_entries;
+CREATE TRIGGER require_journal_entries_data_key
+  BEFORE INSERT OR UPDATE OF encrypted_content ON journal_entries
+  FOR EACH ROW EXECUTE FUNCTION require_data_key_ciphertext();
@@ -0,0 +1,261 @@
+/*
+  # Data wipes and account deletion
+
+  1. New Tables
+    - `data_deletion_requests`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `scope` (text) - 'chats', 'mood', 'video' or 'account'
+      - `status` (text) - 'pending', 'cancelled' or 'completed'
+      - `requested_at` (timestamptz)
+      - `execute_after` (timestamptz) - end of the grace period
+      - `completed_at` (timestamptz)
+
+  2. Functions
+    - `request_data_deletion(scope, confirmation)` schedules a wipe once the
+      typed confirmation phrase matches. Wipes wait 24 hours, account
+      deletion waits 7 days. Asking again returns the pending request.
+    - `cancel_data_deletion(request_id)` cancels a pending request
+    - `process_my_data_deletions()` runs the caller's requests whose grace
+      period is over; the app calls it on load
+    - `process_data_deletions()` runs everyone's due requests. It is
+      scheduled every 15 minutes when pg_cron is installed, and is not
+      callable by clients.
+    - `wipe_user_data(user_id, scope)` does the actual deleting, including
+      the `encrypted_data` copies of chat messages and `session_analytics`
+      rows, so nothing is left behind. Account deletion clears every table
+      and then removes the auth user.
+
+  3. Triggers
+    - Inserts into `chat_sessions`, `chat_messages` and `mood_entries` of rows
+      written before a completed wipe of their scope are dropped, so writes
+      queued offline on another device can't bring wiped data back
+
+  4. Security
+    - Enable RLS on `data_deletion_requests`; users can only read their own
+    - Requests are only created and changed through the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS data_deletion_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  scope text NOT NULL CHECK (scope IN ('chats', 'mood', 'video', 'account')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'cancelled', 'completed')),
+  requested_at timestamptz DEFAULT now(),
+  execute_after timestamptz NOT NULL,
+  completed_at timestamptz
+);
+
+ALTER TABLE data_deletion_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own deletion requests"
+  ON data_deletion_requests
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_data_deletion_requests_user_id ON data_deletion_requests(user_id);
+CREATE INDEX IF NOT EXISTS idx_data_deletion_requests_due ON data_deletion_requests(execute_after) WHERE status = 'pending';
+
+-- At most one pending request per user and scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_data_deletion_requests_pending
+  ON data_deletion_requests(user_id, scope)
+  WHERE status = 'pending';
+
+-- Delete everything in one scope for one user
+CREATE OR REPLACE FUNCTION wipe_user_data(p_user_id uuid, p_scope text)
+RETURNS void AS $$
+DECLARE
+  v_table text;
+BEGIN
+  IF p_scope = 'chats' THEN
+    -- Facts learned from a chat go with it; ones added by hand stay
+    DELETE FROM memory_facts WHERE user_id = p_user_id AND session_id IS NOT NULL;
+    DELETE FROM encrypted_data WHERE user_id = p_user_id AND data_type = 'chat_message';
+    DELETE FROM mood_analytics WHERE user_id = p_user_id AND session_id IS NOT NULL;
+    DELETE FROM chat_messages WHERE user_id = p_user_id;
+    DELETE FROM chat_sessions WHERE user_id = p_user_id;
+    DELETE FROM voice_sessions WHERE user_id = p_user_id;
+
+  ELSIF p_scope = 'mood' THEN
+    -- Journal entries linked to a mood keep their text; the link is cleared
+    DELETE FROM mood_analytics WHERE user_id = p_user_id;
+    DELETE FROM mood_entries WHERE user_id = p_user_id;
+    UPDATE user_settings SET streak_freeze_days = '{}' WHERE user_id = p_user_id;
+
+  ELSIF p_scope = 'video' THEN
+    DELETE FROM session_analytics WHERE user_id = p_user_id;
+    DELETE FROM session_reports WHERE user_id = p_user_id;
+    DELETE FROM video_sessions WHERE user_id = p_user_id;
+
+  ELSIF p_scope = 'account' THEN
+    -- Explicit deletes first, so tables without a cascading foreign key
+    -- don't keep rows once the auth user is gone
+    FOREACH v_table IN ARRAY ARRAY[
+      'memory_facts', 'encrypted_data', 'mood_analytics', 'chat_messages', 'chat_sessions',
+      'voice_sessions', 'session_analytics', 'session_reports', 'video_sessions',
+      'journal_entries', 'mood_entries', 'exercise_sessions', 'tasks', 'notifications',
+      'notification_log', 'safety_events', 'user_achievements', 'encryption_keys', 'user_settings'
+    ] LOOP
+      IF to_regclass('public.' || v_table) IS NOT NULL THEN
+        EXECUTE format('DELETE FROM public.%I WHERE user_id = $1', v_table) USING p_user_id;
+      END IF;
+    END LOOP;
+
+    DELETE FROM profiles WHERE id = p_user_id;
+    DELETE FROM auth.users WHERE id = p_user_id;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown data deletion scope: %', p_scope;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Run due requests, for one user or everyone
+CREATE OR REPLACE FUNCTION process_data_deletions(p_user_id uuid DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  v_request data_deletion_requests%ROWTYPE;
+  v_count integer := 0;
+BEGIN
+  FOR v_request IN
+    SELECT * FROM data_deletion_requests
+    WHERE status = 'pending'
+      AND execute_after <= now()
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+    -- Account deletion last, since it removes the user's requests too
+    ORDER BY (scope = 'account'), execute_after
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM wipe_user_data(v_request.user_id, v_request.scope);
+    UPDATE data_deletion_requests
+    SET status = 'completed', completed_at = now()
+    WHERE id = v_request.id;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A row counts as written at its updated_at where the table has one, since
+-- imported mood history keeps its old created_at but gets a fresh updated_at.
+-- Returning NULL skips the row without failing the client's sync.
+CREATE OR REPLACE FUNCTION drop_wiped_writes()
+RETURNS trigger AS $$
+DECLARE
+  v_scope text := CASE WHEN TG_TABLE_NAME = 'mood_entries' THEN 'mood' ELSE 'chats' END;
+  v_written_at timestamptz := coalesce((to_jsonb(NEW) ->> 'updated_at')::timestamptz, NEW.created_at, now());
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM data_deletion_requests
+    WHERE user_id = NEW.user_id
+      AND scope = v_scope
+      AND status = 'completed'
+      AND completed_at > v_written_at
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS drop_wiped_chat_sessions ON chat_sessions;
+CREATE TRIGGER drop_wiped_chat_sessions
+  BEFORE INSERT ON chat_sessions
+  FOR EACH ROW EXECUTE FUNCTION drop_wiped_writes();
+
+DROP TRIGGER IF EXISTS drop_wiped_chat_messages ON chat_messages;
+CREATE TRIGGER drop_wiped_chat_messages
+  BEFORE INSERT ON chat_messages
+  FOR EACH ROW EXECUTE FUNCTION drop_wiped_writes();
+
+DROP TRIGGER IF EXISTS drop_wiped_mood_entries ON mood_entries;
+CREATE TRIGGER drop_wiped_mood_entries
+  BEFORE INSERT ON mood_entries
+  FOR EACH ROW EXECUTE FUNCTION drop_wiped_writes();
+
+CREATE OR REPLACE FUNCTION request_data_deletion(p_scope text, p_confirmation text)
+RETURNS data_deletion_requests AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_phrase text;
+  v_request data_deletion_requests%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  v_phrase := CASE p_scope
+    WHEN 'chats' THEN 'DELETE CHATS'
+    WHEN 'mood' THEN 'DELETE MOOD HISTORY'
+    WHEN 'video' THEN 'DELETE VIDEO SESSIONS'
+    WHEN 'account' THEN 'DELETE MY ACCOUNT'
+  END;
+
+  IF v_phrase IS NULL THEN
+    RAISE EXCEPTION 'Unknown data deletion scope: %', p_scope;
+  END IF;
+
+  IF upper(trim(coalesce(p_confirmation, ''))) <> v_phrase THEN
+    RAISE EXCEPTION 'Confirmation phrase does not match';
+  END IF;
+
+  SELECT * INTO v_request FROM data_deletion_requests
+  WHERE user_id = v_user_id AND scope = p_scope AND status = 'pending';
+
+  IF FOUND THEN
+    RETURN v_request;
+  END IF;
+
+  INSERT INTO data_deletion_requests (user_id, scope, execute_after)
+  VALUES (
+    v_user_id,
+    p_scope,
+    now() + CASE WHEN p_scope = 'account' THEN interval '7 days' ELSE interval '24 hours' END
+  )
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION cancel_data_deletion(p_request_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE data_deletion_requests
+  SET status = 'cancelled'
+  WHERE id = p_request_id
+    AND user_id = auth.uid()
+    AND status = 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION process_my_data_deletions()
+RETURNS integer AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN 0;
+  END IF;
+  RETURN process_data_deletions(auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the request functions are callable by signed-in users
+REVOKE EXECUTE ON FUNCTION wipe_user_data(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_data_deletions(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION request_data_deletion(text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION cancel_data_deletion(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION process_my_data_deletions() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION request_data_deletion(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_data_deletion(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION process_my_data_deletions() TO authenticated;
+
+-- Accounts are deleted even if the user never comes back
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('process-data-deletions', '*/15 * * * *', 'SELECT process_data_deletions()');
+  END IF;
+END $$;
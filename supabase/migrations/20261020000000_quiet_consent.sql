@@ -0,0 +1,170 @@
+/*
+  # Privacy toggles enforced on the server
+
+  1. Changes
+    - `chat_messages.input_source` (text) - 'text' or 'voice', so spoken
+      turns can be deleted on their own
+
+  2. Triggers
+    - `session_analytics` inserts are dropped while `user_settings.analytics`
+      is off
+    - `chat_messages` inserts with input_source 'voice' are dropped while
+      `user_settings.voice_recordings` is off
+    - `encrypted_data` chat message copies are dropped while
+      `user_settings.save_conversations` is off
+    The app already skips these writes; the triggers catch older clients and
+    queued offline writes made before the toggle changed.
+
+  3. Functions
+    - `purge_consent_data(key)` deletes what the caller collected under one
+      toggle and returns the number of rows removed
+      - 'analytics': `session_analytics`
+      - 'voice_recordings': voice `chat_messages`, chat sessions left empty
+        and the `encrypted_data` chat message copies. Sessions whose title was
+        taken from a spoken first message are renamed after the first typed
+        one that is left.
+*/
+
+ALTER TABLE chat_messages
+  ADD COLUMN IF NOT EXISTS input_source text NOT NULL DEFAULT 'text'
+  CHECK (input_source IN ('text', 'voice'));
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_voice ON chat_messages(user_id) WHERE input_source = 'voice';
+
+-- Missing settings rows count as the app defaults: analytics and voice
+-- recordings on, saved conversations off
+CREATE OR REPLACE FUNCTION consent_allows(p_user_id uuid, p_key text)
+RETURNS boolean AS $$
+DECLARE
+  v_allowed boolean;
+BEGIN
+  IF p_key = 'analytics' THEN
+    SELECT analytics INTO v_allowed FROM user_settings WHERE user_id = p_user_id;
+  ELSIF p_key = 'voice_recordings' THEN
+    SELECT voice_recordings INTO v_allowed FROM user_settings WHERE user_id = p_user_id;
+  ELSIF p_key = 'save_conversations' THEN
+    SELECT save_conversations INTO v_allowed FROM user_settings WHERE user_id = p_user_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown consent key: %', p_key;
+  END IF;
+
+  RETURN coalesce(v_allowed, p_key <> 'save_conversations');
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Returning NULL skips the row without failing the client's request
+CREATE OR REPLACE FUNCTION enforce_write_consent()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'session_analytics' THEN
+    IF NOT consent_allows(NEW.user_id, 'analytics') THEN
+      RETURN NULL;
+    END IF;
+  ELSIF TG_TABLE_NAME = 'chat_messages' THEN
+    IF NEW.input_source = 'voice' AND NOT consent_allows(NEW.user_id, 'voice_recordings') THEN
+      RETURN NULL;
+    END IF;
+  ELSIF TG_TABLE_NAME = 'encrypted_data' THEN
+    IF NEW.data_type = 'chat_message' AND NOT consent_allows(NEW.user_id, 'save_conversations') THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_session_analytics_consent ON session_analytics;
+CREATE TRIGGER enforce_session_analytics_consent
+  BEFORE INSERT ON session_analytics
+  FOR EACH ROW EXECUTE FUNCTION enforce_write_consent();
+
+DROP TRIGGER IF EXISTS enforce_chat_messages_consent ON chat_messages;
+CREATE TRIGGER enforce_chat_messages_consent
+  BEFORE INSERT ON chat_messages
+  FOR EACH ROW EXECUTE FUNCTION enforce_write_consent();
+
+DROP TRIGGER IF EXISTS enforce_encrypted_data_consent ON encrypted_data;
+CREATE TRIGGER enforce_encrypted_data_consent
+  BEFORE INSERT ON encrypted_data
+  FOR EACH ROW EXECUTE FUNCTION enforce_write_consent();
+
+CREATE OR REPLACE FUNCTION purge_consent_data(p_key text)
+RETURNS integer AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_sessions uuid[];
+  v_titled uuid[];
+  v_rows integer;
+  v_count integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF p_key = 'analytics' THEN
+    DELETE FROM session_analytics WHERE user_id = v_user_id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  ELSIF p_key = 'voice_recordings' THEN
+    SELECT coalesce(array_agg(DISTINCT session_id), '{}') INTO v_sessions
+    FROM chat_messages
+    WHERE user_id = v_user_id AND input_source = 'voice';
+
+    -- New sessions are named after their first message, so these titles are
+    -- transcripts too
+    SELECT coalesce(array_agg(s.id), '{}') INTO v_titled
+    FROM chat_sessions s
+    WHERE s.user_id = v_user_id
+      AND s.id = ANY(v_sessions)
+      AND (
+        SELECT m.input_source FROM chat_messages m
+        WHERE m.session_id = s.id AND m.message_type = 'user'
+        ORDER BY m.created_at
+        LIMIT 1
+      ) = 'voice';
+
+    DELETE FROM chat_messages WHERE user_id = v_user_id AND input_source = 'voice';
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    -- Sessions left with nothing but their title, which is the transcript
+    -- of the first spoken message. Facts learned from them go too; their
+    -- mood analytics cascade.
+    DELETE FROM memory_facts f
+    WHERE f.user_id = v_user_id
+      AND f.session_id = ANY(v_sessions)
+      AND NOT EXISTS (SELECT 1 FROM chat_messages m WHERE m.session_id = f.session_id);
+    DELETE FROM chat_sessions s
+    WHERE s.user_id = v_user_id
+      AND s.id = ANY(v_sessions)
+      AND NOT EXISTS (SELECT 1 FROM chat_messages m WHERE m.session_id = s.id);
+
+    -- Same rule as the app: the first typed message, cut to 50 characters
+    UPDATE chat_sessions s
+    SET title = coalesce(
+      (
+        SELECT CASE WHEN length(m.content) > 50 THEN left(m.content, 47) || '...' ELSE m.content END
+        FROM chat_messages m
+        WHERE m.session_id = s.id AND m.message_type = 'user'
+        ORDER BY m.created_at
+        LIMIT 1
+      ),
+      'Chat ' || to_char(s.created_at, 'YYYY-MM-DD')
+    )
+    WHERE s.user_id = v_user_id AND s.id = ANY(v_titled);
+
+    DELETE FROM encrypted_data WHERE user_id = v_user_id AND data_type = 'chat_message';
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    v_count := v_count + v_rows;
+
+  ELSE
+    RAISE EXCEPTION 'Unknown consent key: %', p_key;
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION consent_allows(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION purge_consent_data(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION purge_consent_data(text) TO authenticated;